@@ -3,12 +3,16 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { BrowserRouter, Routes, Route, useLocation } from 'react-router-dom';
 import { TooltipProvider } from "@/components/ui/tooltip"
 import { AuthProvider } from './contexts/auth/AuthContext';
-import { initGA, trackPageView } from './integrations/google-analytics';
+import { initAnalytics, track } from './lib/analytics';
 import Index from './pages/Index';
 import ArtistDetail from './pages/ArtistDetail';
+import ArtistLeaderboard from './pages/ArtistLeaderboard';
 import ShowDetail from './pages/ShowDetail';
+import EventDetail from './pages/EventDetail';
 import Shows from './pages/Shows';
 import Artists from './pages/Artists';
+import Genre from './pages/Genre';
+import Tour from './pages/Tour';
 import Search from './pages/Search';
 import HowItWorks from './pages/HowItWorks';
 import Login from './pages/Login';
@@ -22,19 +26,20 @@ import NotFound from './pages/NotFound';
 import TestJourney from './pages/TestJourney';
 import Admin from './pages/Admin';
 import Dashboard from './pages/Dashboard';
+import Leaderboards from './pages/Leaderboards';
 import AdminSetup from './pages/AdminSetup';
 import Import from './pages/Import';
 import { ThemeProvider } from 'next-themes';
 
-// Google Analytics tracking ID
-const GA_TRACKING_ID = "G-CNM6621HGW"; 
+// Google Analytics is optional; events always go to our own /api/events
+const GA_TRACKING_ID = import.meta.env.VITE_GA_TRACKING_ID;
 
 // RouteChangeTracker component to track page views
 const RouteChangeTracker = () => {
   const location = useLocation();
   
   useEffect(() => {
-    trackPageView(location.pathname + location.search);
+    track({ name: 'page_view', properties: {} });
   }, [location]);
   
   return null;
@@ -42,8 +47,8 @@ const RouteChangeTracker = () => {
 
 function App() {
   useEffect(() => {
-    // Initialize Google Analytics
-    initGA(GA_TRACKING_ID);
+    // Start analytics, with Google Analytics as a sink when configured
+    initAnalytics({ gaTrackingId: GA_TRACKING_ID });
   }, []);
 
   return (
@@ -57,9 +62,13 @@ function App() {
               <Routes>
                 <Route path="/" element={<Index />} />
                 <Route path="/artists/:id" element={<ArtistDetail />} />
+                <Route path="/artists/:id/leaderboard" element={<ArtistLeaderboard />} />
                 <Route path="/shows/:id" element={<ShowDetail />} />
                 <Route path="/shows" element={<Shows />} />
+                <Route path="/events/:id" element={<EventDetail />} />
                 <Route path="/artists" element={<Artists />} />
+                <Route path="/genres/:slug" element={<Genre />} />
+                <Route path="/tours/:id" element={<Tour />} />
                 <Route path="/search" element={<Search />} />
                 <Route path="/how-it-works" element={<HowItWorks />} />
                 <Route path="/login" element={<Login />} />
@@ -68,6 +77,7 @@ function App() {
                 <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
                 <Route path="/my-artists" element={<ProtectedRoute><MyArtists /></ProtectedRoute>} />
                 <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
+                <Route path="/leaderboards" element={<Leaderboards />} />
                 <Route path="/create-show" element={<ProtectedRoute><CreateShow /></ProtectedRoute>} />
                 <Route path="/import" element={<Import />} />
                 <Route path="/admin" element={<Admin />} />
@@ -0,0 +1,126 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { adminClient } from '@/lib/db';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { getAdminUserId } from '@/lib/auth/admin-auth';
+import { APIClientManager } from '@/lib/sync/api-client';
+import { findExistingArtistId, resolveImportRow } from '@/lib/sync/artist-import';
+
+// Rows resolved per request. Each takes two to three upstream calls, so a
+// batch stays well inside a serverless timeout.
+const RESOLVE_BATCH_SIZE = 10;
+
+/**
+ * POST /api/admin/artist-imports/[jobId]/resolve
+ * Resolve the next batch of pending rows against Ticketmaster and Spotify.
+ * The client calls this until remaining is 0; the job is then ready to
+ * preview and queue.
+ */
+export async function POST(request: Request, { params }: { params: { jobId: string } }) {
+  try {
+    const userId = await getAdminUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    const client = adminClient() as SupabaseClient<Database>;
+    const { data: job, error: jobError } = await client
+      .from('artist_import_jobs')
+      .select('id, status')
+      .eq('id', params.jobId)
+      .maybeSingle();
+
+    if (jobError) {
+      console.error('Error fetching artist import job:', jobError);
+      return NextResponse.json({ error: 'Failed to fetch import job' }, { status: 500 });
+    }
+    if (!job) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 });
+    }
+
+    const { data: rows, error: rowsError } = await client
+      .from('artist_import_rows')
+      .select('id, input_name, input_ticketmaster_id, input_spotify_id')
+      .eq('job_id', job.id)
+      .eq('status', 'pending')
+      .order('position')
+      .limit(RESOLVE_BATCH_SIZE);
+
+    if (rowsError) {
+      console.error('Error fetching pending import rows:', rowsError);
+      return NextResponse.json({ error: 'Failed to fetch import rows' }, { status: 500 });
+    }
+
+    // One row at a time so the shared rate limiter paces the upstream calls
+    const apiClient = new APIClientManager();
+    for (const row of rows || []) {
+      const input = {
+        name: row.input_name,
+        ticketmaster_id: row.input_ticketmaster_id,
+        spotify_id: row.input_spotify_id,
+      };
+
+      let update;
+      try {
+        const resolved = await resolveImportRow(input, apiClient);
+        const existingArtistId = await findExistingArtistId(client, {
+          ticketmaster_id: resolved.ticketmaster_id,
+          spotify_id: resolved.spotify_id,
+        });
+
+        update = {
+          ...resolved,
+          candidates: resolved.candidates as unknown as Json,
+          existing_artist_id: existingArtistId,
+          error: null,
+        };
+      } catch (error) {
+        console.error(`Error resolving import row ${row.id}:`, error);
+        update = {
+          status: 'unmatched',
+          error: (error instanceof Error ? error.message : String(error)).substring(0, 500),
+        };
+      }
+
+      const { error: updateError } = await client
+        .from('artist_import_rows')
+        .update({ ...update, updated_at: new Date().toISOString() })
+        .eq('id', row.id);
+
+      if (updateError) {
+        console.error(`Error saving import row ${row.id}:`, updateError);
+      }
+    }
+
+    const { count: remaining, error: countError } = await client
+      .from('artist_import_rows')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', job.id)
+      .eq('status', 'pending');
+
+    if (countError) {
+      console.error('Error counting pending import rows:', countError);
+      return NextResponse.json({ error: 'Failed to count pending rows' }, { status: 500 });
+    }
+
+    if (remaining === 0 && job.status === 'resolving') {
+      await client
+        .from('artist_import_jobs')
+        .update({ status: 'ready', updated_at: new Date().toISOString() })
+        .eq('id', job.id);
+    }
+
+    return NextResponse.json({ resolved: rows?.length ?? 0, remaining: remaining ?? 0 });
+
+  } catch (err: unknown) {
+    let errorMessage = "Unknown error";
+    if (err instanceof Error) {
+      errorMessage = err.message;
+    }
+    console.error("Error in POST /api/admin/artist-imports/[jobId]/resolve:", err);
+    return NextResponse.json(
+      { error: "Server error", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { adminClient } from '@/lib/db';
+import type { Database } from '@/integrations/supabase/types';
+import { getAdminUserId } from '@/lib/auth/admin-auth';
+import { ArtistImportInput, ArtistImportSource, MAX_IMPORT_ROWS, parseSpotifyId, toImportInput } from '@/lib/artist-import';
+import { fetchPlaylistArtists } from '@/lib/sync/artist-import';
+
+/**
+ * POST /api/admin/artist-imports
+ * Create a bulk artist import job, from CSV rows
+ * ({ source: 'csv', file_name, rows: [{ name, ticketmaster_id, spotify_id }] })
+ * or from the artists on a Spotify playlist ({ source: 'spotify_playlist', url }).
+ * The rows start out pending; resolve them with POST /[jobId]/resolve.
+ */
+export async function POST(request: Request) {
+  try {
+    const userId = await getAdminUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    let source: ArtistImportSource;
+    let sourceRef: string | null;
+    let inputs: ArtistImportInput[];
+
+    if (body?.source === 'csv') {
+      if (!Array.isArray(body.rows) || body.rows.length > MAX_IMPORT_ROWS) {
+        return NextResponse.json(
+          { error: `rows must be a list of at most ${MAX_IMPORT_ROWS} artists` },
+          { status: 400 }
+        );
+      }
+
+      source = 'csv';
+      sourceRef = typeof body.file_name === 'string' ? body.file_name.slice(0, 200) : null;
+      inputs = body.rows
+        .map(toImportInput)
+        .filter((input: ArtistImportInput | null): input is ArtistImportInput => input !== null);
+    } else if (body?.source === 'spotify_playlist') {
+      const playlistId = typeof body.url === 'string' ? parseSpotifyId('playlist', body.url) : null;
+      if (!playlistId) {
+        return NextResponse.json({ error: 'Not a Spotify playlist link' }, { status: 400 });
+      }
+
+      source = 'spotify_playlist';
+      sourceRef = body.url.trim();
+      try {
+        inputs = await fetchPlaylistArtists(playlistId);
+      } catch (error) {
+        console.error(`Error reading Spotify playlist ${playlistId}:`, error);
+        return NextResponse.json(
+          { error: 'Could not read the playlist from Spotify. Is it public?' },
+          { status: 502 }
+        );
+      }
+    } else {
+      return NextResponse.json({ error: "source must be 'csv' or 'spotify_playlist'" }, { status: 400 });
+    }
+
+    if (inputs.length === 0) {
+      return NextResponse.json({ error: 'No artists to import' }, { status: 400 });
+    }
+
+    const client = adminClient() as SupabaseClient<Database>;
+    const { data: job, error: jobError } = await client
+      .from('artist_import_jobs')
+      .insert({ source, source_ref: sourceRef, created_by: userId })
+      .select('id')
+      .single();
+
+    if (jobError || !job) {
+      console.error('Error creating artist import job:', jobError);
+      return NextResponse.json({ error: 'Failed to create import job' }, { status: 500 });
+    }
+
+    const { error: rowsError } = await client
+      .from('artist_import_rows')
+      .insert(inputs.map((input, index) => ({
+        job_id: job.id,
+        position: index + 1,
+        input_name: input.name,
+        input_ticketmaster_id: input.ticketmaster_id,
+        input_spotify_id: input.spotify_id,
+      })));
+
+    if (rowsError) {
+      console.error('Error storing artist import rows:', rowsError);
+      await client.from('artist_import_jobs').delete().eq('id', job.id);
+      return NextResponse.json({ error: 'Failed to store import rows' }, { status: 500 });
+    }
+
+    return NextResponse.json({ job_id: job.id, rows: inputs.length }, { status: 201 });
+
+  } catch (err: unknown) {
+    let errorMessage = "Unknown error";
+    if (err instanceof Error) {
+      errorMessage = err.message;
+    }
+    console.error("Error in POST /api/admin/artist-imports:", err);
+    return NextResponse.json(
+      { error: "Server error", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+
+// Initialize Supabase client
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * API route to roll raw analytics events up into daily counts
+ * Should be called by a CRON job every hour
+ *
+ * Yesterday is recounted along with today so batches that arrive after
+ * midnight still land in the right day
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract API key from header
+    const apiKey = request.headers.get('x-api-key');
+
+    // Verify API key
+    if (!apiKey || apiKey !== process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const today = new Date();
+    const yesterday = new Date(today.getTime() - 24 * 60 * 60 * 1000);
+    const days = [yesterday, today].map(day => day.toISOString().slice(0, 10));
+
+    const counted: Record<string, number> = {};
+    for (const day of days) {
+      const { data, error } = await supabase.rpc('rollup_analytics_events', { p_day: day });
+
+      if (error) {
+        console.error(`Error rolling up analytics for ${day}:`, error);
+        return NextResponse.json({ error: 'Failed to roll up analytics' }, { status: 500 });
+      }
+
+      counted[day] = data ?? 0;
+    }
+
+    return NextResponse.json({
+      success: true,
+      counted,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in analytics-rollup cron API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
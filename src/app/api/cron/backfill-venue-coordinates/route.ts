@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VenueSyncService } from '@/lib/sync/venue-service';
+
+/**
+ * API route to backfill venue coordinates from Ticketmaster
+ * Should be called by a CRON job until every venue has a location
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract API key from header
+    const apiKey = request.headers.get('x-api-key');
+
+    // Verify API key
+    if (!apiKey || apiKey !== process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10);
+    const updated = await new VenueSyncService().backfillVenueCoordinates(limit);
+
+    return NextResponse.json({
+      success: true,
+      updated,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in backfill-venue-coordinates API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
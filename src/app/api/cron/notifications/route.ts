@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import { createTransportFromEnv, sendNotificationDigests } from '@/lib/notifications';
+
+// Initialize Supabase client
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * API route to fan out queued notifications and email the digests that are due
+ * Should be called by a CRON job every few minutes; digests are only sent
+ * once they are due, however often this runs
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract API key from header
+    const apiKey = request.headers.get('x-api-key');
+
+    // Verify API key
+    if (!apiKey || apiKey !== process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: notifications, error } = await supabase.rpc('process_notification_jobs');
+
+    if (error) {
+      console.error('Error processing notification jobs:', error);
+      return NextResponse.json({ error: 'Failed to process notification jobs' }, { status: 500 });
+    }
+
+    const digests = await sendNotificationDigests(supabase, createTransportFromEnv(), {
+      siteUrl: process.env.NEXT_PUBLIC_SITE_URL || request.nextUrl.origin
+    });
+
+    if (digests.unmarked.length > 0) {
+      console.error(`Sent ${digests.unmarked.length} digests that could not be marked sent; they will be sent again`);
+    }
+
+    return NextResponse.json({
+      success: true,
+      notifications,
+      digests,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in notifications cron API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+
+// Initialize Supabase client
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * API route to move shows through their lifecycle (voting opens, locks at
+ * doors, played, setlist confirmed)
+ * Should be called by a CRON job every 15 minutes
+ *
+ * Voting itself is enforced against each show's window, so a late run only
+ * delays the state change and its notifications
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract API key from header
+    const apiKey = request.headers.get('x-api-key');
+
+    // Verify API key
+    if (!apiKey || apiKey !== process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: advanced, error } = await supabase.rpc('advance_show_lifecycles');
+
+    if (error) {
+      console.error('Error advancing show lifecycles:', error);
+      return NextResponse.json({ error: 'Failed to advance show lifecycles' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      advanced: advanced ?? 0,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in show-lifecycle cron API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
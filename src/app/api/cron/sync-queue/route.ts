@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SyncManager } from '@/lib/sync/manager';
+
+// Most tasks a single cron call will work
+const MAX_LIMIT = 100;
+
+/**
+ * API route to work the durable sync queue on the server
+ * Should be called by a CRON job every few minutes
+ *
+ * The process-sync-queue edge function only claims create and refresh tasks;
+ * cascade_sync, expand_relations and sync_playlists need SyncManager and are
+ * run here
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract API key from header
+    const apiKey = request.headers.get('x-api-key');
+
+    // Verify API key
+    if (!apiKey || apiKey !== process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '25', 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json({ error: `limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 });
+    }
+
+    const processed = await new SyncManager().processQueue(limit);
+
+    return NextResponse.json({
+      success: true,
+      processed,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in sync-queue cron API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+
+// Initialize Supabase client
+const supabase = createClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * API route to scan recent votes for brigading and quarantine suspect ones
+ * Should be called by a CRON job every 5 minutes
+ *
+ * Each run looks back over 15 minutes, so consecutive runs overlap and a
+ * burst that straddles two runs is still seen as one. It also drops vote
+ * request outcomes older than a week, which only exist to dedupe retries.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Extract API key from header
+    const apiKey = request.headers.get('x-api-key');
+
+    // Verify API key
+    if (!apiKey || apiKey !== process.env.CRON_SECRET) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: quarantined, error } = await supabase.rpc('detect_recent_vote_anomalies');
+
+    if (error) {
+      console.error('Error detecting vote anomalies:', error);
+      return NextResponse.json({ error: 'Failed to detect vote anomalies' }, { status: 500 });
+    }
+
+    if (quarantined) {
+      console.warn(`Quarantined ${quarantined} suspect votes`);
+    }
+
+    const { data: purged, error: purgeError } = await supabase.rpc('purge_vote_requests');
+
+    if (purgeError) {
+      console.error('Error purging vote requests:', purgeError);
+      return NextResponse.json({ error: 'Failed to purge vote requests' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      quarantined: quarantined ?? 0,
+      purged: purged ?? 0,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Unexpected error in vote-anomalies cron API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
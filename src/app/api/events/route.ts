@@ -0,0 +1,113 @@
+/* eslint-disable @typescript-eslint/ban-ts-comment */
+// @ts-ignore: Cannot find module 'next/server' type declarations
+import { NextResponse } from 'next/server';
+import { adminClient } from '../../../lib/db';
+import { MAX_BODY_BYTES, parseAnalyticsBatch, toAnalyticsEventRow } from '../../../lib/analytics/schema';
+import { hashClientIp } from '../../../lib/auth/anonymous-session';
+
+/**
+ * Resolve the signed-in user from the Authorization bearer token. Batches
+ * without one (including beacons sent as the page closes) are anonymous.
+ */
+async function getUserId(request: Request): Promise<string | null> {
+  const authorization = request.headers.get('authorization');
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+  if (!token) return null;
+
+  const { data: { user }, error } = await adminClient().auth.getUser(token);
+  if (error) {
+    console.error('Bearer token verification error:', error);
+    return null;
+  }
+  return user?.id ?? null;
+}
+
+/**
+ * POST /api/events
+ * Ingest a batch of first-party analytics events ({ session_id, events }).
+ * Malformed events are skipped and counted; events from users who opted out
+ * of analytics are dropped. Bodies over MAX_BODY_BYTES get a 413, and
+ * sessions or clients posting too many events a minute get a 429.
+ */
+export async function POST(request: Request) {
+  try {
+    if (Number(request.headers.get('content-length')) > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: 'Event batch too large' }, { status: 413 });
+    }
+
+    // sendBeacon posts the batch as a Blob, so don't rely on the content type
+    const text = await request.text();
+    if (Buffer.byteLength(text) > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: 'Event batch too large' }, { status: 413 });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const batch = parseAnalyticsBatch(body);
+    if (!batch) {
+      return NextResponse.json({ error: 'Invalid event batch' }, { status: 400 });
+    }
+
+    const client = adminClient();
+    const ip = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip');
+    const { data: allowed, error: limitError } = await client.rpc('claim_analytics_ingest', {
+      p_session_id: batch.sessionId,
+      p_events: batch.events.length,
+      p_ip_hash: hashClientIp(ip),
+    });
+
+    if (limitError) {
+      console.error('Error checking analytics rate limit:', limitError);
+      return NextResponse.json({ error: 'Failed to store events' }, { status: 500 });
+    }
+
+    if (!allowed) {
+      return NextResponse.json(
+        { error: 'Too many events' },
+        { status: 429, headers: { 'Retry-After': '60' } }
+      );
+    }
+
+    const userId = await getUserId(request);
+
+    if (userId) {
+      const { data: optOut } = await client
+        .from('analytics_opt_outs')
+        .select('user_id')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (optOut) {
+        return NextResponse.json({ accepted: 0, rejected: 0, optedOut: true }, { status: 202 });
+      }
+    }
+
+    if (batch.events.length > 0) {
+      const rows = batch.events.map(event => toAnalyticsEventRow(event, { sessionId: batch.sessionId, userId }));
+      const { error } = await client.from('analytics_events').insert(rows);
+
+      if (error) {
+        console.error('Error storing analytics events:', error);
+        return NextResponse.json({ error: 'Failed to store events' }, { status: 500 });
+      }
+    }
+
+    return NextResponse.json({ accepted: batch.events.length, rejected: batch.rejected }, { status: 202 });
+
+  } catch (err: unknown) {
+    let errorMessage = "Unknown error";
+    if (err instanceof Error) {
+      errorMessage = err.message;
+    }
+    console.error("Error in POST /api/events:", err);
+    return NextResponse.json(
+      { error: "Server error", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
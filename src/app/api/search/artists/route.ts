@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { buildProviderUrl, ticketmasterBaseUrl } from '@/lib/sync/providers/base';
 
 const TICKETMASTER_API_KEY = process.env.TICKETMASTER_API_KEY || 'GkB8Z8XIJoZLR9RtAf4feBmP5GCCbRbC';
 
@@ -26,8 +27,14 @@ export async function GET(request: NextRequest) {
     }
     
     // Search for artists using Ticketmaster API
+    const url = buildProviderUrl(ticketmasterBaseUrl(), 'attractions.json', {
+      keyword: name,
+      apikey: TICKETMASTER_API_KEY,
+      size: 10,
+      classificationName: 'music'
+    });
     const response = await fetch(
-      `https://app.ticketmaster.com/discovery/v2/attractions.json?keyword=${encodeURIComponent(name)}&apikey=${TICKETMASTER_API_KEY}&size=10&classificationName=music`,
+      url.toString(),
       { next: { revalidate: 3600 } } // Cache for 1 hour
     );
     
@@ -6,6 +6,16 @@ import { ShowSyncService } from '@/lib/sync/show-service';
 import { SongSyncService } from '@/lib/sync/song-service';
 // Import APIClientManager to call Setlist.fm directly
 import { APIClientManager } from '@/lib/sync/api-client';
+import { discoverUpstream, enqueueDiscovered } from '@/lib/sync/discovery';
+import {
+  autocompleteSuggestions,
+  groupSearchResults,
+  MIN_SEARCH_LENGTH,
+  needsDiscovery,
+  parseSearchQuery,
+  SearchResponse,
+  toSearchResult,
+} from '@/lib/search';
 
 // Initialize services (Keep for now, might be used by other cases)
 const artistService = new ArtistSyncService();
@@ -14,6 +24,12 @@ const showService = new ShowSyncService();
 const songService = new SongSyncService();
 const apiClient = new APIClientManager(); // Initialize API client
 
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
 // Define expected structure for Setlist.fm search response
 interface SetlistFmSearchResult {
   setlist?: Array<{
@@ -26,11 +42,69 @@ interface SetlistFmSearchResult {
 }
 
 /**
- * API route for searching external data sources
+ * Unified search: GET /api/search?q=&types=&limit=
+ * Ranked matches from the local index, grouped by type (limit per type), plus
+ * the best few across types for autocomplete. When the local results are
+ * thin, Ticketmaster is searched too and what it finds is queued for sync.
+ */
+async function searchCatalog(searchParams: URLSearchParams) {
+  const { query, types, limit } = parseSearchQuery(searchParams);
+
+  if (query.length < MIN_SEARCH_LENGTH) {
+    return NextResponse.json(
+      { error: `Search query must be at least ${MIN_SEARCH_LENGTH} characters` },
+      { status: 400, headers: corsHeaders }
+    );
+  }
+
+  const supabase = createClient();
+  const { data, error } = await supabase.rpc('search_catalog', {
+    p_query: query,
+    p_types: types ?? undefined,
+    p_limit: limit
+  });
+
+  if (error) {
+    throw new Error(`Error searching catalog: ${error.message}`);
+  }
+
+  const results = (data || []).map(toSearchResult);
+
+  // Only artists and shows can be discovered upstream
+  const canDiscover = !types || types.includes('artist') || types.includes('show');
+  const discovered = canDiscover && needsDiscovery(results)
+    ? (await discoverUpstream(query)).filter(entity => !types || types.includes(entity.entity_type))
+    : [];
+
+  if (discovered.length > 0) {
+    // Don't hold up the response for the queue
+    enqueueDiscovered(discovered).catch(queueError => {
+      console.error('Error queueing discovered entities:', queueError);
+    });
+  }
+
+  const body: SearchResponse = {
+    query,
+    groups: groupSearchResults(results),
+    suggestions: autocompleteSuggestions(results),
+    discovered
+  };
+
+  return NextResponse.json(body, { headers: corsHeaders });
+}
+
+/**
+ * API route for searching: the unified search when q is given, otherwise
+ * the Ticketmaster venue search (type=venue&query=) used by the import page
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
+
+    if (searchParams.has('q')) {
+      return await searchCatalog(searchParams);
+    }
+
     const type = searchParams.get('type');
     const query = searchParams.get('query');
     const city = searchParams.get('city');
@@ -41,11 +115,7 @@ export async function GET(request: NextRequest) {
         { error: 'Missing required parameters: type and query' },
         { 
           status: 400,
-          headers: {
-            'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-            'Access-Control-Allow-Headers': 'Content-Type',
-          }
+          headers: corsHeaders
         }
       );
     }
@@ -55,11 +125,7 @@ export async function GET(request: NextRequest) {
         { error: `Unsupported search type: ${type}` },
         { 
           status: 400,
-          headers: {
-            'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-            'Access-Control-Allow-Headers': 'Content-Type',
-          }
+          headers: corsHeaders
         }
       );
     }
@@ -74,11 +140,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json(
       { results },
       {
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
-        }
+        headers: corsHeaders
       }
     );
   } catch (error) {
@@ -88,11 +150,7 @@ export async function GET(request: NextRequest) {
       { error: 'Failed to perform search', details: error instanceof Error ? error.message : String(error) },
       { 
         status: 500,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
-        }
+        headers: corsHeaders
       }
     );
   }
@@ -102,11 +160,7 @@ export async function GET(request: NextRequest) {
 export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
     status: 204,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-    },
+    headers: corsHeaders,
   });
 }
 
@@ -0,0 +1,75 @@
+/* eslint-disable @typescript-eslint/ban-ts-comment */
+// @ts-ignore: Cannot find module 'next/server' type declarations
+import { NextResponse } from 'next/server';
+import { supabase } from '../../../../lib/db';
+import { parseNearbyQuery } from '../../../../lib/geo';
+import type { Database } from '../../../../integrations/supabase/types';
+
+type NearbyShowRow = Database['public']['Functions']['get_nearby_shows']['Returns'][number];
+
+/**
+ * GET /api/shows/nearby?lat=&lng=&radius=&limit=
+ * Upcoming shows at venues within `radius` km (default 50) of a point,
+ * soonest first and then nearest
+ */
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url);
+    const query = parseNearbyQuery(url.searchParams);
+
+    if ('error' in query) {
+      return NextResponse.json({ error: query.error }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.rpc('get_nearby_shows', {
+      p_latitude: query.latitude,
+      p_longitude: query.longitude,
+      p_radius_km: query.radiusKm,
+      p_limit: query.limit
+    });
+
+    if (error) {
+      console.error('Error fetching nearby shows:', error);
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
+    // Same shape as /api/shows/trending, plus the distance to the venue
+    const shows = ((data || []) as NearbyShowRow[]).map(row => ({
+      id: row.show_id,
+      name: row.show_name,
+      date: row.date,
+      image_url: row.image_url,
+      ticket_url: row.ticket_url,
+      popularity: row.popularity,
+      distance_km: row.distance_km,
+      artist: row.artist_id ? {
+        id: row.artist_id,
+        name: row.artist_name,
+        image_url: row.artist_image_url
+      } : null,
+      venue: {
+        id: row.venue_id,
+        name: row.venue_name,
+        city: row.city,
+        state: row.state,
+        country: row.country
+      }
+    }));
+
+    return NextResponse.json(shows);
+
+  } catch (err: unknown) {
+    let errorMessage = "Unknown error";
+    if (err instanceof Error) {
+      errorMessage = err.message;
+    }
+    console.error("Error in GET /api/shows/nearby:", err);
+    return NextResponse.json(
+      { error: "Server error", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -2,57 +2,25 @@
 // @ts-ignore: Cannot find module 'next/server' type declarations
 import { NextResponse } from 'next/server';
 import { supabase } from '../../../../lib/db';
-// Removed non-existent import: import { syncTrendingShows } from '../../../../lib/api/shows';
+import { parseTrendingQuery, toTrendingShow } from '../../../../lib/trending';
 
 /**
- * GET /api/shows/trending
- * Fetches trending shows from the database, with an option to sync with Ticketmaster
+ * GET /api/shows/trending?limit=&country=&state=&genre=
+ * Upcoming shows by trending score, highest first. country and state narrow
+ * the list to a region, genre to a genre slug or Ticketmaster genre ID.
+ * Scores are refreshed by the update-trending-shows function.
  */
 export async function GET(request: Request) {
   try {
-    // Parse query parameters
     const url = new URL(request.url);
-    const limit = parseInt(url.searchParams.get('limit') || '10', 10);
-    const sync = url.searchParams.get('sync') === 'true';
-    
-    // If sync is requested, update trending shows in the background
-    // Removed call to non-existent syncTrendingShows
-    // if (sync) {
-    //   syncTrendingShows().catch(err => {
-    //     console.error('Background trending shows sync error:', err);
-    //   });
-    // }
-    
-    // Fetch trending shows from the database
-    const { data: shows, error } = await supabase
-      .from('shows')
-      // Corrected select statement using explicit foreign key names
-      .select(`
-        id,
-        name,
-        date,
-        image_url,
-        ticket_url,
-        popularity,
-        artist: artists (
-          id,
-          name,
-          image_url,
-          genres
-        ),
-        venue: venues (
-          id,
-          name,
-          city,
-          state,
-          country
-        )
-      `)
-      .order('popularity', { ascending: false })
-      .limit(limit);
-    
-    console.log('[API /trending] Supabase query error:', error);
-    console.log('[API /trending] Supabase query data:', shows);
+    const query = parseTrendingQuery(url.searchParams);
+
+    const { data, error } = await supabase.rpc('get_trending_shows', {
+      p_limit: query.limit,
+      p_country: query.country,
+      p_state: query.state,
+      p_genre: query.genre
+    });
 
     if (error) {
       console.error('Error fetching trending shows:', error);
@@ -61,22 +29,8 @@ export async function GET(request: Request) {
         { status: 500 }
       );
     }
-    
-    // If no shows found, try to sync and fetch again
-    // Removed logic attempting to sync after empty result
-    if (!shows || shows.length === 0) {
-      console.log('[API /trending] No shows found, returning empty array.');
-      return NextResponse.json([]);
-    }
 
-    // Rename related data for clarity before returning
-    // Moved this block after the check for empty shows
-    // No need to rename/remove properties, the select query now returns 'artist' and 'venue' directly
-    const formattedShows = shows;
-    console.log(`[API /trending] Returning ${formattedShows.length} shows from DB.`);
-    
-    return NextResponse.json(formattedShows);
-    // Removed duplicate formattedShows block
+    return NextResponse.json((data || []).map(toTrendingShow));
 
   } catch (err: unknown) {
     let errorMessage = "Unknown error";
@@ -89,4 +43,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
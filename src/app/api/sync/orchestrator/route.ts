@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/integrations/supabase/server';
 import { orchestrateSync } from '@/lib/sync/orchestrator';
-import { EntityType, SyncOperation, SyncTask } from '@/lib/sync/types';
+import { EntityRef, EntityType, SyncOperation, SyncTask } from '@/lib/sync/types';
 
 // CORS headers
 const corsHeaders = {
@@ -10,6 +10,9 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
+// How many levels of sub-tasks the tree view follows below each root
+const MAX_TREE_DEPTH = 10;
+
 // Handle OPTIONS request for CORS preflight
 export async function OPTIONS() {
   return NextResponse.json({}, { headers: corsHeaders });
@@ -146,13 +149,21 @@ function validateTask(task: any): SyncTask | null {
     task.priority = 'medium'; // Default to medium if invalid
   }
   
+  // Keep only well-formed dependency references
+  const dependsOn: EntityRef[] = Array.isArray(task.dependsOn)
+    ? task.dependsOn.filter((ref: unknown): ref is EntityRef =>
+        typeof ref === 'object' && ref !== null &&
+        typeof (ref as EntityRef).id === 'string' && validEntityTypes.includes((ref as EntityRef).type))
+    : [];
+  
   return {
     type: task.type,
     id: task.id,
     operation: task.operation,
     priority: task.priority || 'medium',
     payload: task.payload || {},
-    attempts: task.attempts || 0
+    attempts: task.attempts || 0,
+    dependsOn
   };
 }
 
@@ -185,6 +196,7 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(url.searchParams.get('limit') || '50', 10);
     const offset = parseInt(url.searchParams.get('offset') || '0', 10);
     const status = url.searchParams.get('status');
+    const withChildren = url.searchParams.get('tree') === 'true';
     
     let query = supabase
       .from('sync_operations')
@@ -199,6 +211,11 @@ export async function GET(request: NextRequest) {
       query = query.eq('status', status);
     }
     
+    // In tree mode, paginate over root operations only
+    if (withChildren && !taskId) {
+      query = query.is('parent_task', null);
+    }
+    
     // Apply pagination
     query = query
       .order('started_at', { ascending: false })
@@ -213,8 +230,36 @@ export async function GET(request: NextRequest) {
       );
     }
     
+    // Fetch every descendant of the returned roots, one level at a time
+    const children: NonNullable<typeof data> = [];
+    if (withChildren && data && data.length > 0) {
+      const seen = new Set(data.map(op => op.id));
+      let parentIds = [...seen];
+
+      for (let depth = 0; depth < MAX_TREE_DEPTH && parentIds.length > 0; depth++) {
+        const { data: childData, error: childError } = await supabase
+          .from('sync_operations')
+          .select('*')
+          .in('parent_task', parentIds)
+          .order('started_at', { ascending: true });
+
+        if (childError) {
+          return NextResponse.json(
+            { error: `Database error: ${childError.message}` },
+            { status: 500, headers: corsHeaders }
+          );
+        }
+
+        const level = (childData || []).filter(op => !seen.has(op.id));
+        level.forEach(op => seen.add(op.id));
+        children.push(...level);
+        parentIds = level.map(op => op.id);
+      }
+    }
+    
     return NextResponse.json({
       tasks: data,
+      children,
       total: count,
       limit,
       offset
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/integrations/supabase/server';
+
+// CORS headers
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+// Handle OPTIONS request for CORS preflight
+export async function OPTIONS() {
+  return NextResponse.json({}, { headers: corsHeaders });
+}
+
+/**
+ * API route exposing the shared per-provider rate limit budgets
+ */
+export async function GET() {
+  try {
+    // Check if user is authenticated
+    const supabase = createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      );
+    }
+
+    const { data, error } = await supabase.rpc('get_rate_limit_budgets');
+
+    if (error) {
+      return NextResponse.json(
+        { error: `Database error: ${error.message}` },
+        { status: 500, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json({ budgets: data || [] }, { headers: corsHeaders });
+  } catch (error) {
+    console.error('Error fetching rate limit budgets:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
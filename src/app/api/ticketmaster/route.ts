@@ -1,12 +1,13 @@
 /* eslint-disable @typescript-eslint/ban-ts-comment */
 // @ts-ignore: Cannot find module 'next/server' type declarations
 import { NextResponse } from 'next/server';
+import { ticketmasterBaseUrl } from '@/lib/sync/providers/base';
 
 // Ticketmaster API key from environment variables
 const TICKETMASTER_API_KEY = process.env.VITE_TICKETMASTER_API_KEY || import.meta.env.VITE_TICKETMASTER_API_KEY;
 
 // Ticketmaster API base URL
-const API_BASE_URL = 'https://app.ticketmaster.com/discovery/v2/';
+const API_BASE_URL = ticketmasterBaseUrl();
 
 export async function GET(request: Request) {
   try {
@@ -2,6 +2,7 @@
 // @ts-ignore: Cannot find module 'next/server' type declarations
 import { NextResponse } from 'next/server';
 import { retryableFetch } from '@/lib/retry';
+import { buildProviderUrl, ticketmasterBaseUrl } from '@/lib/sync/providers/base';
 
 /**
  * Search for venues using Ticketmaster API
@@ -21,7 +22,7 @@ export async function GET(request: Request) {
     }
     
     // Search for venues using Ticketmaster Discovery API
-    const url = `https://app.ticketmaster.com/discovery/v2/venues.json?apikey=${apiKey}&keyword=${encodeURIComponent(keyword)}&size=20`;
+    const url = buildProviderUrl(ticketmasterBaseUrl(), 'venues.json', { apikey: apiKey, keyword, size: 20 });
     
     const response = await retryableFetch(async () => {
       const result = await fetch(url, {
@@ -0,0 +1,56 @@
+/* eslint-disable @typescript-eslint/ban-ts-comment */
+// @ts-ignore: Cannot find module 'next/server' type declarations
+import { NextResponse } from 'next/server';
+// @ts-ignore: Cannot find module 'next/headers' type declarations
+import { cookies } from 'next/headers';
+import { adminClient } from '../../../../lib/db';
+import {
+  ANONYMOUS_SESSION_COOKIE,
+  verifyAnonymousToken,
+} from '../../../../lib/auth/anonymous-session';
+
+/**
+ * Merge the visitor's anonymous votes into their account after sign-up.
+ * Called by AuthCallback with the new session's access token; clears the
+ * anonymous session cookie once the votes have moved.
+ */
+export async function POST(request: Request) {
+  try {
+    const authorization = request.headers.get('authorization');
+    const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+
+    if (!token) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const admin = adminClient();
+    const { data: { user }, error: userError } = await admin.auth.getUser(token);
+
+    if (userError || !user) {
+      console.error('Vote merge authentication error:', userError);
+      return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
+    }
+
+    const sessionId = verifyAnonymousToken(cookies().get(ANONYMOUS_SESSION_COOKIE)?.value);
+    if (!sessionId) {
+      return NextResponse.json({ success: true, merged: 0 });
+    }
+
+    const { data: merged, error } = await admin.rpc('merge_anonymous_votes', {
+      p_session_id: sessionId,
+      p_user_id: user.id,
+    });
+
+    if (error) {
+      console.error('Failed to merge anonymous votes:', error);
+      return NextResponse.json({ error: 'Failed to merge votes' }, { status: 500 });
+    }
+
+    const response = NextResponse.json({ success: true, merged: merged ?? 0 });
+    response.cookies.delete(ANONYMOUS_SESSION_COOKIE);
+    return response;
+  } catch (error) {
+    console.error('Vote merge API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -4,19 +4,170 @@ import { NextResponse } from 'next/server';
 // @ts-ignore: Cannot find module 'next/headers' type declarations
 import { cookies } from 'next/headers';
 import { adminClient, supabase } from '../../../lib/db';
-
-// Define types for better code safety
-type VoteAction = 'increment' | 'decrement';
+import {
+  ANONYMOUS_SESSION_COOKIE,
+  ANONYMOUS_SESSION_WINDOW_MS,
+  ANONYMOUS_SESSIONS_PER_IP,
+  ANONYMOUS_VOTE_LIMIT,
+  anonymousCookieOptions,
+  createAnonymousToken,
+  hashClientDevice,
+  hashClientIp,
+  verifyAnonymousToken,
+} from '../../../lib/auth/anonymous-session';
+import { castVote, VoteAction, voteStatusCode } from '../../../lib/api/vote-service';
 
 interface VoteRequest {
   songId: string;
   action: VoteAction;
+  idempotencyKey?: string;
+}
+
+/**
+ * Resolve the signed-in user from the Authorization bearer token, falling
+ * back to the client session. Returns null for anonymous visitors.
+ */
+async function getUserId(request: Request): Promise<string | null> {
+  const authorization = request.headers.get('authorization');
+  const token = authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+
+  if (token) {
+    const { data: { user }, error } = await adminClient().auth.getUser(token);
+    if (error) {
+      console.error('Bearer token verification error:', error);
+      return null;
+    }
+    return user?.id ?? null;
+  }
+
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+  if (sessionError) {
+    console.error('Session verification error:', sessionError);
+    return null;
+  }
+  return session?.user.id ?? null;
+}
+
+/**
+ * Hashed IP and device fingerprint for the request, stored with each vote so
+ * detect_vote_anomalies can spot many voters behind one client
+ */
+function getClientFingerprint(request: Request): { ip_hash: string | null; device_hash: string | null } {
+  const ip = request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip');
+  return {
+    ip_hash: hashClientIp(ip),
+    device_hash: hashClientDevice(request.headers.get('user-agent'), request.headers.get('accept-language')),
+  };
+}
+
+/**
+ * Get the visitor's anonymous session id from the signed cookie, creating a
+ * new session when there is none. isNew tells the caller to set the cookie.
+ * Returns null when the visitor's IP has started too many sessions lately.
+ */
+async function getAnonymousSession(request: Request): Promise<{ sessionId: string; isNew: boolean } | null> {
+  const existing = verifyAnonymousToken(cookies().get(ANONYMOUS_SESSION_COOKIE)?.value);
+  if (existing) {
+    return { sessionId: existing, isNew: false };
+  }
+
+  const fingerprint = getClientFingerprint(request);
+  if (fingerprint.ip_hash) {
+    const { count, error: countError } = await adminClient()
+      .from('anonymous_sessions')
+      .select('id', { count: 'exact', head: true })
+      .eq('ip_hash', fingerprint.ip_hash)
+      .gte('created_at', new Date(Date.now() - ANONYMOUS_SESSION_WINDOW_MS).toISOString());
+
+    if (countError) {
+      throw new Error(`Failed to count anonymous sessions: ${countError.message}`);
+    }
+    if ((count ?? 0) >= ANONYMOUS_SESSIONS_PER_IP) {
+      return null;
+    }
+  }
+
+  const { data, error } = await adminClient()
+    .from('anonymous_sessions')
+    .insert({
+      ...fingerprint,
+      user_agent: request.headers.get('user-agent'),
+    })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create anonymous session: ${error?.message}`);
+  }
+
+  return { sessionId: data.id, isNew: true };
+}
+
+/**
+ * Anonymous vote status for a show: votes used and the songs voted for.
+ * Signed-in users are not capped and get { anonymous: false }.
+ */
+export async function GET(request: Request) {
+  try {
+    const showId = new URL(request.url).searchParams.get('showId');
+    if (!showId) {
+      return NextResponse.json({ error: 'Show ID is required' }, { status: 400 });
+    }
+
+    if (await getUserId(request)) {
+      return NextResponse.json({ anonymous: false });
+    }
+
+    const sessionId = verifyAnonymousToken(cookies().get(ANONYMOUS_SESSION_COOKIE)?.value);
+    if (!sessionId) {
+      return NextResponse.json({
+        anonymous: true,
+        votesUsed: 0,
+        votesRemaining: ANONYMOUS_VOTE_LIMIT,
+        votedSongIds: [],
+      });
+    }
+
+    const { data, error } = await adminClient().rpc('get_anonymous_votes', {
+      p_session_id: sessionId,
+      p_show_id: showId,
+    });
+
+    if (error) {
+      console.error('Failed to fetch anonymous votes:', error);
+      return NextResponse.json({ error: 'Failed to fetch votes' }, { status: 500 });
+    }
+
+    const votedSongIds = (data || []).map((row: { song_id: string }) => row.song_id);
+    return NextResponse.json({
+      anonymous: true,
+      votesUsed: votedSongIds.length,
+      votesRemaining: Math.max(ANONYMOUS_VOTE_LIMIT - votedSongIds.length, 0),
+      votedSongIds,
+    });
+  } catch (error) {
+    console.error('Vote status API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
 }
 
+const VOTE_MESSAGES: Record<string, string> = {
+  recorded: 'Vote recorded',
+  removed: 'Vote removed',
+  limit_reached: 'Anonymous vote limit reached. Sign up to keep voting.',
+  auth_required: 'Authentication required',
+  merged: 'Authentication required',
+  not_found: 'Song not found',
+  conflict: 'Idempotency key was already used for a different vote',
+  voting_closed: 'Voting is closed for this show',
+};
+
 export async function POST(request: Request) {
   try {
     const body = await request.json();
     const { songId, action } = body as VoteRequest;
+    // Clients send one key per vote and reuse it on retry
+    const idempotencyKey = request.headers.get('idempotency-key') || (body as VoteRequest).idempotencyKey;
 
     // Validation
     if (!songId) {
@@ -27,104 +178,73 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Valid action (increment/decrement) is required' }, { status: 400 });
     }
 
-    // Get user from session using the regular client
-    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-    
-    if (sessionError) {
-      console.error('Session verification error:', sessionError);
-      return NextResponse.json({ error: 'Authentication failed' }, { status: 401 });
-    }
-    
-    if (!session) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
-    }
-    
-    const userId = session.user.id;
-    
-    // Use the admin client for database operations
-    const admin = adminClient();
-    
-    // Check if song exists
-    const { data: song, error: songError } = await admin
-      .from('setlist_songs')
-      .select('id')
-      .eq('id', songId)
-      .single();
-      
-    if (songError || !song) {
-      return NextResponse.json({ error: 'Song not found' }, { status: 404 });
+    if (!idempotencyKey) {
+      return NextResponse.json({ error: 'Idempotency-Key header is required' }, { status: 400 });
     }
-    
-    // Check for existing vote
-    const { data: existingVote, error: voteError } = await admin
-      .from('votes')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('song_id', songId)
-      .single();
-    
-    // Handle different vote scenarios
-    if (action === 'increment') {
-      if (!existingVote) {
-        // Create new vote
-        const { error: insertError } = await admin
-          .from('votes')
-          .insert({ user_id: userId, song_id: songId });
-          
-        if (insertError) {
-          console.error('Failed to add vote:', insertError);
-          return NextResponse.json({ error: 'Failed to add vote' }, { status: 500 });
-        }
-        
-        // Call stored procedure to increment song's vote count
-        const { error: incError } = await admin.rpc('increment_vote', { 
-          p_song_id: songId,  // Updated parameter name to match function definition
-          p_user_id: userId   // Updated parameter name to match function definition
-        });
-        
-        if (incError) {
-          console.error('Failed to increment vote count:', incError);
-          return NextResponse.json({ error: 'Failed to update vote count' }, { status: 500 });
-        }
+
+    const userId = await getUserId(request);
+    const fingerprint = getClientFingerprint(request);
+
+    // Anonymous visitors vote against a signed session cookie and are capped
+    // per show; only an increment creates a new session, and an IP that keeps
+    // dropping its cookie runs out of new sessions
+    let anonymousSession: { sessionId: string; isNew: boolean } | null = null;
+    if (!userId) {
+      if (action !== 'increment') {
+        return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
       }
-      
-      // If vote already exists, it's a no-op (idempotent)
-      return NextResponse.json({ success: true, message: 'Vote recorded' });
-      
-    } else if (action === 'decrement') {
-      if (existingVote) {
-        // Delete existing vote
-        const { error: deleteError } = await admin
-          .from('votes')
-          .delete()
-          .eq('user_id', userId)
-          .eq('song_id', songId);
-          
-        if (deleteError) {
-          console.error('Failed to remove vote:', deleteError);
-          return NextResponse.json({ error: 'Failed to remove vote' }, { status: 500 });
-        }
-        
-        // Call stored procedure to decrement song's vote count
-        const { error: decError } = await admin.rpc('decrement_vote', { 
-          p_song_id: songId,  // Updated parameter name to match function definition
-          p_user_id: userId   // Updated parameter name to match function definition
-        });
-        
-        if (decError) {
-          console.error('Failed to decrement vote count:', decError);
-          return NextResponse.json({ error: 'Failed to update vote count' }, { status: 500 });
-        }
+      anonymousSession = await getAnonymousSession(request);
+      if (!anonymousSession) {
+        return NextResponse.json(
+          {
+            status: 'limit_reached',
+            voteCount: null,
+            votesUsed: null,
+            votesRemaining: 0,
+            anonymous: true,
+            error: VOTE_MESSAGES.limit_reached,
+          },
+          { status: voteStatusCode('limit_reached') }
+        );
       }
-      
-      // If no vote exists, it's a no-op (idempotent)
-      return NextResponse.json({ success: true, message: 'Vote removed' });
     }
-    
-    return NextResponse.json({ success: true });
+
+    const result = await castVote({
+      songId,
+      action,
+      idempotencyKey,
+      userId,
+      anonymousSessionId: anonymousSession?.sessionId,
+      maxAnonymousVotes: ANONYMOUS_VOTE_LIMIT,
+      ipHash: fingerprint.ip_hash,
+      deviceHash: fingerprint.device_hash,
+    });
+
+    const statusCode = voteStatusCode(result.status);
+    const message = result.status === 'unchanged'
+      ? (action === 'increment' ? 'Already voted' : 'No vote to remove')
+      : VOTE_MESSAGES[result.status];
+
+    const response = NextResponse.json(
+      {
+        ...result,
+        anonymous: !userId,
+        ...(statusCode === 200 ? { success: true, message } : { error: message }),
+      },
+      { status: statusCode }
+    );
+
+    if (anonymousSession?.isNew) {
+      response.cookies.set(
+        ANONYMOUS_SESSION_COOKIE,
+        createAnonymousToken(anonymousSession.sessionId),
+        anonymousCookieOptions
+      );
+    }
+    return response;
     
   } catch (error) {
     console.error('Vote API error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
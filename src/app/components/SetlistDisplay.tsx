@@ -4,7 +4,7 @@ import DataLoader from './DataLoader';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ThumbsUp } from 'lucide-react';
-import { handleVote } from '@/app/actions/vote';
+import { submitVote } from '@/lib/api/database/votes';
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
 import { useEffect } from 'react';
 
@@ -51,8 +51,17 @@ const SetlistDisplay = ({ artistId }: SetlistDisplayProps) => {
       [songId]: increment
     }));
     
-    // Call server action
-    await handleVote(songId, user.id, increment);
+    try {
+      const result = await submitVote(songId, increment ? 'increment' : 'decrement');
+      if (!result.ok) throw new Error(result.error || 'Failed to process vote');
+    } catch (error) {
+      console.error('Voting error:', error);
+      // Revert the optimistic update
+      setVotes(prev => ({
+        ...prev,
+        [songId]: !increment
+      }));
+    }
   };
 
   return (
@@ -3,7 +3,9 @@ import { Container } from "@/components/ui/container";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ShowHero } from "@/components/shows/show-hero"; // Corrected path
 import { ShowInfo } from "@/components/shows/show-info";
+import { ShowViewRecorder } from "@/components/shows/show-view-recorder";
 import { SetlistSongRequests } from "@/components/setlist/setlist-song-requests";
+import { SetlistPredictionBuilder } from "@/components/setlist/setlist-prediction-builder";
 import { getShow } from "@/lib/api/database/shows";
 import { createSetlistForShow } from "@/lib/api/database/setlists";
 import { getSongsByArtist } from "@/lib/api/database/songs"; // Import the new function
@@ -21,7 +23,7 @@ export default async function ShowPage({ params }: Props) {
   if (!show) {
     return <div className="p-8">Show not found.</div>;
   }
-  
+
   // Get the setlist for this show, which will create one if it doesn't exist
   // Use createSetlistForShow which handles finding or creating
   const setlistId = await createSetlistForShow(showId, show.artist_id);
@@ -50,6 +52,7 @@ export default async function ShowPage({ params }: Props) {
 
   return (
     <div className="min-h-screen">
+      <ShowViewRecorder showId={showId} />
       <div className="relative w-full">
         <ShowHero show={show} />
       </div>
@@ -57,8 +60,9 @@ export default async function ShowPage({ params }: Props) {
       <Container className="py-8">
         <Tabs defaultValue="request">
           <div className="flex items-center justify-between mb-6">
-            <TabsList className="grid w-full md:w-auto grid-cols-2">
+            <TabsList className="grid w-full md:w-auto grid-cols-3">
               <TabsTrigger value="request">Request Songs</TabsTrigger>
+              <TabsTrigger value="predict">Predict Setlist</TabsTrigger>
               <TabsTrigger value="info">Show Info</TabsTrigger>
             </TabsList>
           </div>
@@ -88,6 +92,23 @@ export default async function ShowPage({ params }: Props) {
             </div>
           </TabsContent>
           
+          <TabsContent value="predict">
+            <div>
+              <h2 className="text-2xl md:text-3xl font-bold mb-4">
+                Predict the setlist
+              </h2>
+
+              {setlist && artistSongs ? (
+                <SetlistPredictionBuilder setlistId={setlist.id} artistSongs={artistSongs} />
+              ) : (
+                <div className="flex flex-col items-center justify-center p-8 bg-muted/30 rounded-lg">
+                  <Loader2 className="h-8 w-8 text-primary animate-spin mb-2" />
+                  <p>Loading setlist...</p>
+                </div>
+              )}
+            </div>
+          </TabsContent>
+
           <TabsContent value="info">
             <div className="space-y-6">
               <h2 className="text-2xl md:text-3xl font-bold">Show Info</h2>
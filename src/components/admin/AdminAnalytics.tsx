@@ -0,0 +1,435 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { format, parseISO } from 'date-fns';
+import { Download, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  ApiErrorsByDay,
+  ArtistEngagement,
+  DailyActivity,
+  getApiErrors,
+  getDailyActivity,
+  getShowVoteSeries,
+  getSignupFunnel,
+  getSyncHealth,
+  getTopArtistsByEngagement,
+  ShowVotesByDay,
+  SignupFunnelStep,
+  SyncHealthByDay
+} from '@/lib/api/database/admin-analytics';
+import {
+  ChartSeries,
+  csvFilename,
+  DATE_RANGE_PRESETS,
+  DateRange,
+  dateRangeForPreset,
+  DateRangePreset,
+  formatPercent,
+  pivotByDay,
+  summarizeSyncHealth,
+  toCsv,
+  toFunnelSteps,
+  validateDateRange
+} from '@/lib/admin-analytics';
+
+const CHART_COLORS = [1, 2, 3, 4, 5].map(n => `hsl(var(--chart-${n}))`);
+
+const activityConfig = {
+  active_voters: { label: 'Active voters', color: CHART_COLORS[0] },
+  signups: { label: 'Signups', color: CHART_COLORS[1] }
+} satisfies ChartConfig;
+
+const funnelConfig = {
+  users: { label: 'People', color: CHART_COLORS[0] }
+} satisfies ChartConfig;
+
+const artistsConfig = {
+  votes: { label: 'Votes', color: CHART_COLORS[0] },
+  follows: { label: 'New follows', color: CHART_COLORS[1] }
+} satisfies ChartConfig;
+
+const syncConfig = {
+  succeeded: { label: 'Succeeded', color: CHART_COLORS[0] },
+  failed: { label: 'Failed', color: CHART_COLORS[4] },
+  blocked: { label: 'Blocked', color: CHART_COLORS[2] }
+} satisfies ChartConfig;
+
+interface AnalyticsData {
+  activity: DailyActivity[];
+  showVotes: ShowVotesByDay[];
+  funnel: SignupFunnelStep[];
+  artists: ArtistEngagement[];
+  sync: SyncHealthByDay[];
+  apiErrors: ApiErrorsByDay[];
+}
+
+const EMPTY_DATA: AnalyticsData = {
+  activity: [],
+  showVotes: [],
+  funnel: [],
+  artists: [],
+  sync: [],
+  apiErrors: []
+};
+
+const formatDay = (day: string) => format(parseISO(day), 'MMM d');
+
+const seriesConfig = (series: ChartSeries[]): ChartConfig =>
+  Object.fromEntries(series.map(({ key, label }, index) => [
+    key,
+    { label, color: CHART_COLORS[index % CHART_COLORS.length] }
+  ]));
+
+const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ReportCard = ({
+  title,
+  description,
+  loading,
+  empty,
+  onExport,
+  children
+}: {
+  title: string;
+  description: string;
+  loading: boolean;
+  empty: boolean;
+  onExport: () => void;
+  children: React.ReactNode;
+}) => (
+  <Card>
+    <CardHeader className="flex flex-row items-start justify-between space-y-0">
+      <div className="space-y-1">
+        <CardTitle className="text-base">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </div>
+      <Button variant="outline" size="sm" onClick={onExport} disabled={loading || empty}>
+        <Download className="h-4 w-4 mr-2" />
+        CSV
+      </Button>
+    </CardHeader>
+    <CardContent>
+      {loading ? (
+        <Skeleton className="h-[260px] w-full" />
+      ) : empty ? (
+        <div className="flex h-[260px] items-center justify-center text-sm text-muted-foreground">
+          No data for this range
+        </div>
+      ) : (
+        children
+      )}
+    </CardContent>
+  </Card>
+);
+
+const AdminAnalytics = () => {
+  const [preset, setPreset] = useState<DateRangePreset | 'custom'>('30d');
+  const [range, setRange] = useState<DateRange>(() => dateRangeForPreset('30d'));
+  const [data, setData] = useState<AnalyticsData>(EMPTY_DATA);
+  const [loading, setLoading] = useState(true);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const rangeError = validateDateRange(range);
+
+  useEffect(() => {
+    if (rangeError) return;
+
+    let cancelled = false;
+    const fetchReports = async () => {
+      setLoading(true);
+      const [activity, showVotes, funnel, artists, sync, apiErrors] = await Promise.all([
+        getDailyActivity(range),
+        getShowVoteSeries(range),
+        getSignupFunnel(range),
+        getTopArtistsByEngagement(range),
+        getSyncHealth(range),
+        getApiErrors(range)
+      ]);
+
+      if (!cancelled) {
+        setData({ activity, showVotes, funnel, artists, sync, apiErrors });
+        setLoading(false);
+      }
+    };
+
+    fetchReports();
+    return () => {
+      cancelled = true;
+    };
+  }, [range, rangeError, reloadKey]);
+
+  const showVoteChart = useMemo(
+    () => pivotByDay(data.showVotes, row => ({ id: row.show_id, label: row.show_name }), row => row.votes),
+    [data.showVotes]
+  );
+  const apiErrorChart = useMemo(
+    () => pivotByDay(data.apiErrors, row => ({ id: row.endpoint, label: row.endpoint }), row => row.errors),
+    [data.apiErrors]
+  );
+  const funnelSteps = useMemo(() => toFunnelSteps(data.funnel), [data.funnel]);
+  const syncSummary = useMemo(() => summarizeSyncHealth(data.sync), [data.sync]);
+  const totalApiErrors = data.apiErrors.reduce((sum, row) => sum + row.errors, 0);
+
+  const handlePresetChange = (value: string) => {
+    setPreset(value as DateRangePreset | 'custom');
+    if (value !== 'custom') {
+      setRange(dateRangeForPreset(value as DateRangePreset));
+    }
+  };
+
+  const exportReport = (report: string, csv: string) => downloadCsv(csvFilename(report, range), csv);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Analytics</h2>
+          <p className="text-sm text-muted-foreground">All dates are UTC.</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <Select value={preset} onValueChange={handlePresetChange}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_RANGE_PRESETS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+              <SelectItem value="custom">Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+          {preset === 'custom' && (
+            <>
+              <Input
+                type="date"
+                aria-label="From"
+                className="w-[160px]"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => setRange({ ...range, from: e.target.value })}
+              />
+              <Input
+                type="date"
+                aria-label="To"
+                className="w-[160px]"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => setRange({ ...range, to: e.target.value })}
+              />
+            </>
+          )}
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setReloadKey(key => key + 1)}
+            disabled={loading || Boolean(rangeError)}
+            aria-label="Refresh"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {rangeError && <p className="text-sm text-destructive">{rangeError}</p>}
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <ReportCard
+          title="Daily active voters"
+          description="Accounts or anonymous sessions that voted, and new signups"
+          loading={loading}
+          empty={data.activity.length === 0}
+          onExport={() => exportReport('daily-activity', toCsv(data.activity))}
+        >
+          <ChartContainer config={activityConfig} className="aspect-auto h-[260px] w-full">
+            <LineChart data={data.activity} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="active_voters" type="monotone" stroke="var(--color-active_voters)" strokeWidth={2} dot={false} />
+              <Line dataKey="signups" type="monotone" stroke="var(--color-signups)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        </ReportCard>
+
+        <ReportCard
+          title="Votes per show"
+          description="Daily votes on the most voted shows in the range"
+          loading={loading}
+          empty={showVoteChart.series.length === 0}
+          onExport={() => exportReport('show-votes', toCsv(data.showVotes))}
+        >
+          <ChartContainer config={seriesConfig(showVoteChart.series)} className="aspect-auto h-[260px] w-full">
+            <LineChart data={showVoteChart.data} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {showVoteChart.series.map(({ key }) => (
+                <Line key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} dot={false} />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        </ReportCard>
+
+        <ReportCard
+          title="Signup funnel"
+          description="Visitors, then accounts created in the range that went on to vote"
+          loading={loading}
+          empty={funnelSteps.length === 0}
+          onExport={() => exportReport('signup-funnel', toCsv(funnelSteps, ['step', 'users', 'conversion']))}
+        >
+          <ChartContainer config={funnelConfig} className="aspect-auto h-[200px] w-full">
+            <BarChart data={funnelSteps} layout="vertical" margin={{ left: 0, right: 12 }}>
+              <XAxis type="number" hide />
+              <YAxis dataKey="label" type="category" tickLine={false} axisLine={false} width={120} />
+              <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+              <Bar dataKey="users" fill="var(--color-users)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+          <div className="mt-4 grid grid-cols-2 gap-2 text-sm md:grid-cols-4">
+            {funnelSteps.map(step => (
+              <div key={step.step}>
+                <div className="text-muted-foreground">{step.label}</div>
+                <div className="font-medium">
+                  {step.users.toLocaleString()}
+                  <span className="ml-2 text-xs text-muted-foreground">{formatPercent(step.conversion)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ReportCard>
+
+        <ReportCard
+          title="Top artists by engagement"
+          description="Votes on the artist's setlists plus new follows"
+          loading={loading}
+          empty={data.artists.length === 0}
+          onExport={() => exportReport('top-artists', toCsv(data.artists))}
+        >
+          <ChartContainer config={artistsConfig} className="aspect-auto h-[260px] w-full">
+            <BarChart data={data.artists} layout="vertical" margin={{ left: 0, right: 12 }}>
+              <XAxis type="number" hide />
+              <YAxis dataKey="artist_name" type="category" tickLine={false} axisLine={false} width={120} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="votes" stackId="engagement" fill="var(--color-votes)" />
+              <Bar dataKey="follows" stackId="engagement" fill="var(--color-follows)" radius={[0, 4, 4, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </ReportCard>
+
+        <ReportCard
+          title="Sync health"
+          description={`${syncSummary.total.toLocaleString()} sync jobs, ${formatPercent(syncSummary.total ? syncSummary.failureRate : null)} failed or blocked`}
+          loading={loading}
+          empty={syncSummary.total === 0}
+          onExport={() => exportReport('sync-health', toCsv(data.sync))}
+        >
+          <ChartContainer config={syncConfig} className="aspect-auto h-[260px] w-full">
+            <BarChart data={data.sync} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="succeeded" stackId="sync" fill="var(--color-succeeded)" />
+              <Bar dataKey="failed" stackId="sync" fill="var(--color-failed)" />
+              <Bar dataKey="blocked" stackId="sync" fill="var(--color-blocked)" />
+            </BarChart>
+          </ChartContainer>
+        </ReportCard>
+
+        <ReportCard
+          title="Upstream API errors"
+          description={`${totalApiErrors.toLocaleString()} errors logged, by endpoint`}
+          loading={loading}
+          empty={apiErrorChart.series.length === 0}
+          onExport={() => exportReport('api-errors', toCsv(data.apiErrors))}
+        >
+          <ChartContainer config={seriesConfig(apiErrorChart.series)} className="aspect-auto h-[260px] w-full">
+            <BarChart data={apiErrorChart.data} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="day" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {apiErrorChart.series.map(({ key }) => (
+                <Bar key={key} dataKey={key} stackId="errors" fill={`var(--color-${key})`} />
+              ))}
+            </BarChart>
+          </ChartContainer>
+        </ReportCard>
+      </div>
+
+      {!loading && data.artists.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Artist engagement</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Artist</TableHead>
+                  <TableHead className="text-right">Votes</TableHead>
+                  <TableHead className="text-right">Voters</TableHead>
+                  <TableHead className="text-right">New follows</TableHead>
+                  <TableHead className="text-right">Engagement</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.artists.map(artist => (
+                  <TableRow key={artist.artist_id}>
+                    <TableCell className="font-medium">{artist.artist_name}</TableCell>
+                    <TableCell className="text-right">{artist.votes.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{artist.voters.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{artist.follows.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{artist.engagement.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AdminAnalytics;
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { RefreshCw, GitMerge, ArrowLeftRight, Undo2 } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import {
+  ArtistMerge,
+  DuplicateArtist,
+  getArtistMerges,
+  getDuplicateArtists,
+  mergeArtists,
+  splitArtist
+} from '@/lib/api/database/artist-identifiers';
+
+type ArtistSide = {
+  id: string;
+  name: string;
+  shows: number;
+  identifiers: string[];
+};
+
+const pairKey = (pair: DuplicateArtist) => `${pair.keep_id}:${pair.duplicate_id}`;
+
+const snapshotName = (snapshot: ArtistMerge['source_snapshot']) =>
+  (snapshot && typeof snapshot === 'object' && !Array.isArray(snapshot) && typeof snapshot.name === 'string')
+    ? snapshot.name
+    : 'Unknown artist';
+
+const ArtistCell = ({ artist }: { artist: ArtistSide }) => (
+  <div className="space-y-1">
+    <div className="font-medium">{artist.name}</div>
+    <div className="text-xs text-muted-foreground">
+      {artist.shows} show{artist.shows === 1 ? '' : 's'}
+    </div>
+    <div className="flex flex-wrap gap-1">
+      {artist.identifiers.map(identifier => (
+        <Badge key={identifier} variant="outline" className="text-xs">
+          {identifier}
+        </Badge>
+      ))}
+    </div>
+  </div>
+);
+
+const AdminArtistMerge = () => {
+  const [duplicates, setDuplicates] = useState<DuplicateArtist[]>([]);
+  const [merges, setMerges] = useState<ArtistMerge[]>([]);
+  const [swapped, setSwapped] = useState<Record<string, boolean>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const fetchData = async () => {
+    setLoading(true);
+    const [duplicateData, mergeData] = await Promise.all([
+      getDuplicateArtists(),
+      getArtistMerges()
+    ]);
+    setDuplicates(duplicateData);
+    setMerges(mergeData);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchData();
+    setRefreshing(false);
+  };
+
+  // The suggested artist to keep is the one with more shows; admins can flip it
+  const sides = (pair: DuplicateArtist): [ArtistSide, ArtistSide] => {
+    const keep = { id: pair.keep_id, name: pair.keep_name, shows: pair.keep_shows, identifiers: pair.keep_identifiers };
+    const duplicate = { id: pair.duplicate_id, name: pair.duplicate_name, shows: pair.duplicate_shows, identifiers: pair.duplicate_identifiers };
+    return swapped[pairKey(pair)] ? [duplicate, keep] : [keep, duplicate];
+  };
+
+  const handleMerge = async (pair: DuplicateArtist) => {
+    const [keep, duplicate] = sides(pair);
+    try {
+      setPendingId(pairKey(pair));
+      await mergeArtists(duplicate.id, keep.id);
+      toast.success(`Merged "${duplicate.name}" into "${keep.name}"`);
+      await fetchData();
+    } catch (error) {
+      console.error('Error merging artists:', error);
+      toast.error('Failed to merge artists');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleSplit = async (merge: ArtistMerge) => {
+    try {
+      setPendingId(merge.id);
+      await splitArtist(merge.id);
+      toast.success(`Restored "${snapshotName(merge.source_snapshot)}"`);
+      await fetchData();
+    } catch (error) {
+      console.error('Error splitting artist:', error);
+      toast.error('Failed to split artist');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const skeletonRows = (columns: number) =>
+    Array.from({ length: 3 }).map((_, i) => (
+      <TableRow key={i}>
+        {Array.from({ length: columns }).map((_, j) => (
+          <TableCell key={j}>
+            <Skeleton className="h-4 w-[140px]" />
+          </TableCell>
+        ))}
+      </TableRow>
+    ));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Artist Merge</h2>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleRefresh}
+          disabled={refreshing || loading}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Artists whose names match but whose provider IDs were never linked. Merging moves shows, songs,
+        setlists and votes onto the artist you keep; a merge can be split again from the history below.
+      </p>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Keep</TableHead>
+              <TableHead>Duplicate</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              skeletonRows(3)
+            ) : duplicates.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} className="text-center py-4 text-muted-foreground">
+                  No duplicate artists found
+                </TableCell>
+              </TableRow>
+            ) : (
+              duplicates.map((pair) => {
+                const [keep, duplicate] = sides(pair);
+                const key = pairKey(pair);
+                return (
+                  <TableRow key={key}>
+                    <TableCell>
+                      <ArtistCell artist={keep} />
+                    </TableCell>
+                    <TableCell>
+                      <ArtistCell artist={duplicate} />
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={pendingId === key}
+                        onClick={() => setSwapped(current => ({ ...current, [key]: !current[key] }))}
+                      >
+                        <ArrowLeftRight className="h-4 w-4 mr-1" />
+                        Swap
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={pendingId === key}
+                        onClick={() => handleMerge(pair)}
+                      >
+                        <GitMerge className="h-4 w-4 mr-1" />
+                        Merge
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <h3 className="text-lg font-semibold">Recent merges</h3>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Merged</TableHead>
+              <TableHead>Into</TableHead>
+              <TableHead>When</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              skeletonRows(4)
+            ) : merges.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-4 text-muted-foreground">
+                  No merges yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              merges.map((merge) => (
+                <TableRow key={merge.id}>
+                  <TableCell className="font-medium">{snapshotName(merge.source_snapshot)}</TableCell>
+                  <TableCell>{snapshotName(merge.target_snapshot)}</TableCell>
+                  <TableCell>
+                    {new Date(merge.merged_at).toLocaleString()}
+                    {merge.split_at && (
+                      <Badge variant="secondary" className="ml-2">Split</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!merge.split_at && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={pendingId === merge.id}
+                        onClick={() => handleSplit(merge)}
+                      >
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Split
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default AdminArtistMerge;
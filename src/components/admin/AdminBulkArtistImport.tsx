@@ -0,0 +1,512 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Download, FileUp, ListMusic, Loader2, RefreshCw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  ArtistImportJob,
+  ArtistImportReportRow,
+  createArtistImport,
+  getArtistImportJob,
+  getArtistImportReport,
+  getRecentArtistImports,
+  queueArtistImport,
+  resolveArtistImport,
+  saveImportSelection
+} from '@/lib/api/database/artist-imports';
+import {
+  ArtistImportInput,
+  ArtistImportOutcome,
+  CreateArtistImportRequest,
+  ImportCandidate,
+  parseArtistImportCsv,
+  parseSpotifyId,
+  summarizeImport
+} from '@/lib/artist-import';
+import { toCsv } from '@/lib/admin-analytics';
+
+const POLL_INTERVAL_MS = 5000;
+
+const OUTCOME_LABELS: Record<ArtistImportOutcome, string> = {
+  pending: 'Resolving',
+  matched: 'Matched',
+  review: 'Needs review',
+  unmatched: 'No match',
+  skipped: 'Skipped',
+  queued: 'Queued',
+  syncing: 'Syncing',
+  imported: 'Imported',
+  failed: 'Failed'
+};
+
+const OUTCOME_VARIANTS: Record<ArtistImportOutcome, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  matched: 'default',
+  review: 'secondary',
+  unmatched: 'destructive',
+  skipped: 'outline',
+  queued: 'outline',
+  syncing: 'secondary',
+  imported: 'default',
+  failed: 'destructive'
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  csv: 'CSV',
+  spotify_playlist: 'Spotify playlist'
+};
+
+const REPORT_COLUMNS = [
+  'position',
+  'input_name',
+  'input_ticketmaster_id',
+  'input_spotify_id',
+  'outcome',
+  'confidence',
+  'matched_name',
+  'ticketmaster_id',
+  'spotify_id',
+  'existing_artist_id',
+  'sync_attempts',
+  'error'
+] as const;
+
+const candidatesOf = (row: ArtistImportReportRow) =>
+  (Array.isArray(row.candidates) ? row.candidates : []) as unknown as ImportCandidate[];
+
+const formatConfidence = (confidence: number | null) =>
+  confidence === null ? '—' : `${Math.round(confidence * 100)}%`;
+
+const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const AdminBulkArtistImport = () => {
+  const [csvFile, setCsvFile] = useState<{
+    name: string;
+    rows: ArtistImportInput[];
+    errors: string[];
+    duplicates: number;
+  } | null>(null);
+  const [playlistUrl, setPlaylistUrl] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const [job, setJob] = useState<ArtistImportJob | null>(null);
+  const [rows, setRows] = useState<ArtistImportReportRow[]>([]);
+  const [resolveProgress, setResolveProgress] = useState<{ done: number; total: number } | null>(null);
+  const [pendingRowId, setPendingRowId] = useState<string | null>(null);
+  const [queueing, setQueueing] = useState(false);
+  const [recentJobs, setRecentJobs] = useState<ArtistImportJob[]>([]);
+
+  const summary = useMemo(() => summarizeImport(rows), [rows]);
+  const syncing = job?.status === 'queued' && summary.finished < summary.queued;
+
+  const fetchRecentJobs = async () => {
+    setRecentJobs(await getRecentArtistImports());
+  };
+
+  useEffect(() => {
+    fetchRecentJobs();
+  }, []);
+
+  const loadJob = async (jobId: string) => {
+    const [nextJob, report] = await Promise.all([
+      getArtistImportJob(jobId),
+      getArtistImportReport(jobId)
+    ]);
+    setJob(nextJob);
+    setRows(report);
+    return { job: nextJob, report };
+  };
+
+  // Resolve in batches until no row is pending, so the progress bar moves
+  // and a closed tab can pick up where it left off
+  const resolveJob = async (jobId: string, total: number) => {
+    try {
+      let remaining = total;
+      setResolveProgress({ done: 0, total });
+      while (remaining > 0) {
+        ({ remaining } = await resolveArtistImport(jobId));
+        setResolveProgress({ done: total - remaining, total });
+      }
+    } catch (error) {
+      console.error('Error resolving artist import:', error);
+      toast.error('Resolving stopped. Open the import again to continue.');
+    } finally {
+      setResolveProgress(null);
+      await loadJob(jobId);
+      fetchRecentJobs();
+    }
+  };
+
+  const openJob = async (jobId: string) => {
+    const { job: opened, report } = await loadJob(jobId);
+    if (opened?.status === 'resolving') {
+      await resolveJob(jobId, report.length);
+    }
+  };
+
+  // Follow queued rows through the sync queue
+  useEffect(() => {
+    if (!job || !syncing) return;
+
+    const interval = setInterval(() => {
+      getArtistImportReport(job.id).then(setRows);
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [job, syncing]);
+
+  const handleCsvFile = async (file: File | undefined) => {
+    if (!file) {
+      setCsvFile(null);
+      return;
+    }
+    const parsed = parseArtistImportCsv(await file.text());
+    setCsvFile({ name: file.name, ...parsed });
+  };
+
+  const startImport = async (request: CreateArtistImportRequest) => {
+    try {
+      setCreating(true);
+      const { job_id: jobId, rows: total } = await createArtistImport(request);
+      setCsvFile(null);
+      setPlaylistUrl('');
+      await loadJob(jobId);
+      await resolveJob(jobId, total);
+    } catch (error) {
+      console.error('Error starting artist import:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start import');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleSelection = async (row: ArtistImportReportRow, candidate: ImportCandidate | null) => {
+    try {
+      setPendingRowId(row.row_id);
+      await saveImportSelection(row.row_id, candidate);
+
+      // Update local state
+      const status = candidate ? 'matched' : 'skipped';
+      setRows(rows.map(r => r.row_id !== row.row_id ? r : {
+        ...r,
+        status,
+        outcome: status,
+        ...(candidate && {
+          ticketmaster_id: candidate.ticketmaster_id,
+          matched_name: candidate.name,
+          image_url: candidate.image_url,
+          confidence: candidate.confidence
+        })
+      }));
+    } catch (error) {
+      console.error('Error saving import selection:', error);
+      toast.error('Failed to update row');
+    } finally {
+      setPendingRowId(null);
+    }
+  };
+
+  const handleQueue = async () => {
+    if (!job) return;
+    try {
+      setQueueing(true);
+      const queued = await queueArtistImport(job.id);
+      toast.success(`Queued ${queued} artist${queued === 1 ? '' : 's'} for syncing`);
+      await loadJob(job.id);
+      fetchRecentJobs();
+    } catch (error) {
+      console.error('Error queueing artist import:', error);
+      toast.error('Failed to queue import');
+    } finally {
+      setQueueing(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!job) return;
+    downloadCsv(`theset-artist-import-${job.id.slice(0, 8)}.csv`, toCsv(rows, [...REPORT_COLUMNS]));
+  };
+
+  const playlistId = parseSpotifyId('playlist', playlistUrl);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Bulk Artist Import</h2>
+        <p className="text-sm text-muted-foreground">
+          Seed the catalog from a CSV of artists or a Spotify playlist. Each artist is matched to Ticketmaster
+          and the accepted matches are queued for a full sync of their shows and songs.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">New import</CardTitle>
+          <CardDescription>Up to 500 artists per import.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="csv">
+            <TabsList>
+              <TabsTrigger value="csv">CSV file</TabsTrigger>
+              <TabsTrigger value="playlist">Spotify playlist</TabsTrigger>
+            </TabsList>
+            <TabsContent value="csv" className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                One artist per line, or a header row with <code>name</code>, <code>ticketmaster_id</code> and{' '}
+                <code>spotify_id</code> columns. Spotify IDs may be artist links.
+              </p>
+              <Input
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                disabled={creating}
+                onChange={(e) => handleCsvFile(e.target.files?.[0])}
+              />
+              {csvFile && (
+                <div className="space-y-1 text-sm">
+                  <p>
+                    {csvFile.rows.length} artist{csvFile.rows.length === 1 ? '' : 's'} found
+                    {csvFile.duplicates > 0 && `, ${csvFile.duplicates} duplicate${csvFile.duplicates === 1 ? '' : 's'} dropped`}
+                  </p>
+                  {csvFile.errors.length > 0 && (
+                    <ul className="list-disc pl-5 text-destructive">
+                      {csvFile.errors.slice(0, 10).map(error => (
+                        <li key={error}>{error}</li>
+                      ))}
+                      {csvFile.errors.length > 10 && <li>and {csvFile.errors.length - 10} more</li>}
+                    </ul>
+                  )}
+                </div>
+              )}
+              <Button
+                disabled={creating || !csvFile || csvFile.rows.length === 0}
+                onClick={() => csvFile && startImport({ source: 'csv', file_name: csvFile.name, rows: csvFile.rows })}
+              >
+                {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileUp className="h-4 w-4 mr-2" />}
+                Import CSV
+              </Button>
+            </TabsContent>
+            <TabsContent value="playlist" className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Every artist credited on the playlist's tracks is imported. The playlist must be public.
+              </p>
+              <Input
+                placeholder="https://open.spotify.com/playlist/..."
+                value={playlistUrl}
+                disabled={creating}
+                onChange={(e) => setPlaylistUrl(e.target.value)}
+              />
+              {playlistUrl.trim() && !playlistId && (
+                <p className="text-sm text-destructive">Not a Spotify playlist link</p>
+              )}
+              <Button
+                disabled={creating || !playlistId}
+                onClick={() => startImport({ source: 'spotify_playlist', url: playlistUrl })}
+              >
+                {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ListMusic className="h-4 w-4 mr-2" />}
+                Import playlist
+              </Button>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      {recentJobs.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Recent imports:</span>
+          {recentJobs.map(recent => (
+            <Button
+              key={recent.id}
+              size="sm"
+              variant={recent.id === job?.id ? 'secondary' : 'outline'}
+              disabled={creating || resolveProgress !== null}
+              onClick={() => openJob(recent.id)}
+            >
+              {SOURCE_LABELS[recent.source] || recent.source} · {format(parseISO(recent.created_at), 'MMM d, HH:mm')}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {job && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1">
+              <CardTitle className="text-base">
+                {SOURCE_LABELS[job.source] || job.source}
+                {job.source_ref && <span className="font-normal text-muted-foreground"> · {job.source_ref}</span>}
+              </CardTitle>
+              <CardDescription>
+                {summary.total} artists · {summary.counts.matched} matched · {summary.counts.review} to review ·{' '}
+                {summary.counts.unmatched} without a match
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => loadJob(job.id)} disabled={resolveProgress !== null}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={rows.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Report
+              </Button>
+              {job.status === 'ready' && (
+                <Button size="sm" onClick={handleQueue} disabled={queueing || summary.counts.matched === 0}>
+                  {queueing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Queue {summary.counts.matched} matched
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {resolveProgress && (
+              <div className="space-y-1">
+                <Progress value={resolveProgress.total ? (resolveProgress.done / resolveProgress.total) * 100 : 0} />
+                <p className="text-sm text-muted-foreground">
+                  Matching {resolveProgress.done} of {resolveProgress.total} artists…
+                </p>
+              </div>
+            )}
+
+            {job.status === 'queued' && summary.queued > 0 && (
+              <div className="space-y-1">
+                <Progress value={(summary.finished / summary.queued) * 100} />
+                <p className="text-sm text-muted-foreground">
+                  {summary.counts.imported} imported · {summary.counts.failed} failed ·{' '}
+                  {summary.counts.queued + summary.counts.syncing} still syncing
+                  {syncing && ' (updating automatically)'}
+                </p>
+              </div>
+            )}
+
+            {job.status === 'ready' && summary.counts.review > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Pick the right artist or skip each row that needs review. Only matched rows are queued.
+              </p>
+            )}
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[50px]">#</TableHead>
+                    <TableHead>Input</TableHead>
+                    <TableHead>Match</TableHead>
+                    <TableHead>Confidence</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => {
+                    const outcome = (row.outcome in OUTCOME_LABELS ? row.outcome : 'pending') as ArtistImportOutcome;
+                    const candidates = candidatesOf(row);
+                    const reviewable = job.status === 'ready' && (row.status === 'review' || row.status === 'unmatched');
+
+                    return (
+                      <TableRow key={row.row_id}>
+                        <TableCell className="text-muted-foreground">{row.position}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{row.input_name || '—'}</div>
+                          {(row.input_ticketmaster_id || row.input_spotify_id) && (
+                            <div className="text-xs text-muted-foreground">
+                              {row.input_ticketmaster_id || row.input_spotify_id}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {reviewable && candidates.length > 0 ? (
+                            <Select
+                              value={row.status === 'matched' ? row.ticketmaster_id ?? undefined : undefined}
+                              disabled={pendingRowId === row.row_id}
+                              onValueChange={(value) =>
+                                handleSelection(row, candidates.find(c => c.ticketmaster_id === value) ?? null)
+                              }
+                            >
+                              <SelectTrigger className="w-[240px]">
+                                <SelectValue placeholder="Choose an artist" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {candidates.map(candidate => (
+                                  <SelectItem key={candidate.ticketmaster_id} value={candidate.ticketmaster_id}>
+                                    {candidate.name} · {formatConfidence(candidate.confidence)} ·{' '}
+                                    {candidate.upcoming_events} upcoming
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <div className="flex items-center gap-2">
+                              {row.image_url && (
+                                <img src={row.image_url} alt="" className="h-8 w-8 rounded object-cover" />
+                              )}
+                              <div>
+                                <div>{row.matched_name || '—'}</div>
+                                {row.existing_artist_id && (
+                                  <div className="text-xs text-muted-foreground">Already in the catalog</div>
+                                )}
+                              </div>
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{formatConfidence(row.confidence)}</TableCell>
+                        <TableCell>
+                          <Badge variant={OUTCOME_VARIANTS[outcome]}>{OUTCOME_LABELS[outcome]}</Badge>
+                          {row.error && (
+                            <div className="mt-1 max-w-[240px] truncate text-xs text-destructive" title={row.error}>
+                              {row.error}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {(reviewable || (job.status === 'ready' && row.status === 'matched')) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={pendingRowId === row.row_id}
+                              onClick={() => handleSelection(row, null)}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Skip
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AdminBulkArtistImport;
@@ -1,11 +1,60 @@
 "use client";
 import React from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import AdminOverview from "./AdminOverview";
+import AdminAnalytics from "./AdminAnalytics";
+import AdminShows from "./AdminShows";
+import AdminSetlists from "./AdminSetlists";
+import AdminUsers from "./AdminUsers";
+import AdminModeration from "./AdminModeration";
+import AdminSongMatches from "./AdminSongMatches";
+import AdminArtistMerge from "./AdminArtistMerge";
+import AdminBulkArtistImport from "./AdminBulkArtistImport";
 
 const AdminDashboard: React.FC = () => {
   return (
-    <div className="p-4">
+    <div className="p-4 space-y-6">
       <h1 className="text-2xl font-bold">Admin Dashboard</h1>
-      <p>Welcome to the admin dashboard. This is a placeholder component.</p>
+      <Tabs defaultValue="overview">
+        <TabsList className="mb-6">
+          <TabsTrigger value="overview">Overview</TabsTrigger>
+          <TabsTrigger value="analytics">Analytics</TabsTrigger>
+          <TabsTrigger value="shows">Shows</TabsTrigger>
+          <TabsTrigger value="setlists">Setlists</TabsTrigger>
+          <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsTrigger value="moderation">Moderation</TabsTrigger>
+          <TabsTrigger value="song-matches">Song Matching</TabsTrigger>
+          <TabsTrigger value="artist-merge">Artist Merge</TabsTrigger>
+          <TabsTrigger value="artist-import">Artist Import</TabsTrigger>
+        </TabsList>
+        <TabsContent value="overview">
+          <AdminOverview />
+        </TabsContent>
+        <TabsContent value="analytics">
+          <AdminAnalytics />
+        </TabsContent>
+        <TabsContent value="shows">
+          <AdminShows />
+        </TabsContent>
+        <TabsContent value="setlists">
+          <AdminSetlists />
+        </TabsContent>
+        <TabsContent value="users">
+          <AdminUsers />
+        </TabsContent>
+        <TabsContent value="moderation">
+          <AdminModeration />
+        </TabsContent>
+        <TabsContent value="song-matches">
+          <AdminSongMatches />
+        </TabsContent>
+        <TabsContent value="artist-merge">
+          <AdminArtistMerge />
+        </TabsContent>
+        <TabsContent value="artist-import">
+          <AdminBulkArtistImport />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
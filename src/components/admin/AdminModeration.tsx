@@ -0,0 +1,246 @@
+
+import React, { useEffect, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { RefreshCw, Check, X } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import {
+  getQuarantinedVotes,
+  getVoteModerationEvents,
+  moderateVote,
+  QuarantinedVote,
+  VoteModerationDecision,
+  VoteModerationEvent
+} from '@/lib/api/database/moderation';
+
+const REASON_LABELS: Record<string, string> = {
+  new_account_burst: 'New accounts',
+  shared_ip: 'Shared IP',
+  shared_device: 'Shared device',
+  scripted_timing: 'Scripted timing'
+};
+
+const AdminModeration = () => {
+  const [votes, setVotes] = useState<QuarantinedVote[]>([]);
+  const [events, setEvents] = useState<VoteModerationEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [pendingVoteId, setPendingVoteId] = useState<string | null>(null);
+
+  const fetchQueue = async () => {
+    setLoading(true);
+    const [quarantined, auditTrail] = await Promise.all([
+      getQuarantinedVotes(),
+      getVoteModerationEvents()
+    ]);
+    setVotes(quarantined);
+    setEvents(auditTrail);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchQueue();
+    setRefreshing(false);
+  };
+
+  const handleDecision = async (voteId: string, decision: VoteModerationDecision) => {
+    try {
+      setPendingVoteId(voteId);
+      await moderateVote(voteId, decision);
+
+      // Update local state
+      setVotes(votes.filter(vote => vote.vote_id !== voteId));
+      setEvents(await getVoteModerationEvents());
+
+      toast.success(decision === 'approve' ? 'Vote approved and counted' : 'Vote rejected');
+    } catch (error) {
+      console.error('Error moderating vote:', error);
+      toast.error('Failed to update vote');
+    } finally {
+      setPendingVoteId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Vote Moderation</h2>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleRefresh}
+          disabled={refreshing || loading}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Votes flagged as possible brigading are held out of the displayed totals until approved.
+      </p>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Show</TableHead>
+              <TableHead>Song</TableHead>
+              <TableHead>Voter</TableHead>
+              <TableHead>Reasons</TableHead>
+              <TableHead>Cast</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell>
+                    <Skeleton className="h-4 w-[200px]" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-[150px]" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-[120px]" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-[150px]" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-[100px]" />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Skeleton className="h-9 w-[160px] ml-auto" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : votes.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
+                  No votes awaiting moderation
+                </TableCell>
+              </TableRow>
+            ) : (
+              votes.map((vote) => (
+                <TableRow key={vote.vote_id}>
+                  <TableCell className="font-medium">
+                    {vote.show_name || 'Unknown Show'}
+                    {vote.show_date && (
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(vote.show_date).toLocaleDateString()}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{vote.song_name || 'Unknown Song'}</TableCell>
+                  <TableCell>
+                    {vote.username || (vote.user_id ? vote.user_id.slice(0, 8) : 'Anonymous')}
+                    {vote.ip_hash && (
+                      <div className="text-xs text-muted-foreground font-mono">
+                        IP {vote.ip_hash.slice(0, 8)}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {vote.flag_reasons.map(reason => (
+                        <Badge key={reason} variant="outline">
+                          {REASON_LABELS[reason] || reason}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {new Date(vote.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={pendingVoteId === vote.vote_id}
+                      onClick={() => handleDecision(vote.vote_id, 'approve')}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      disabled={pendingVoteId === vote.vote_id}
+                      onClick={() => handleDecision(vote.vote_id, 'reject')}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-lg font-semibold">Audit Trail</h3>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Vote</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!loading && events.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
+                    No moderation activity yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell>{new Date(event.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={event.action === 'rejected' ? 'destructive' : 'outline'}
+                        className="capitalize"
+                      >
+                        {event.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{event.vote_id.slice(0, 8)}</TableCell>
+                    <TableCell>{event.actor_id ? event.actor_id.slice(0, 8) : 'Detector'}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {event.note || event.reasons.map(reason => REASON_LABELS[reason] || reason).join(', ')}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminModeration;
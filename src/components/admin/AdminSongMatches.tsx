@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { RefreshCw, Link2, X } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import {
+  ArtistSong,
+  getArtistSongs,
+  getSongMatchReviews,
+  resolveSongMatch,
+  SongMatchReview
+} from '@/lib/api/database/song-matches';
+
+const METHOD_LABELS: Record<string, string> = {
+  normalized: 'Normalized',
+  fuzzy: 'Fuzzy',
+  medley: 'Medley',
+  none: 'No match'
+};
+
+const AdminSongMatches = () => {
+  const [reviews, setReviews] = useState<SongMatchReview[]>([]);
+  const [artistSongs, setArtistSongs] = useState<Record<string, ArtistSong[]>>({});
+  const [selectedSongs, setSelectedSongs] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [pendingReviewId, setPendingReviewId] = useState<string | null>(null);
+
+  const fetchQueue = async () => {
+    setLoading(true);
+    setReviews(await getSongMatchReviews());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, []);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchQueue();
+    setRefreshing(false);
+  };
+
+  // Load an artist's catalog the first time one of their songs is re-matched
+  const loadArtistSongs = async (artistId: string) => {
+    if (artistSongs[artistId]) return;
+    const songs = await getArtistSongs(artistId);
+    setArtistSongs(current => ({ ...current, [artistId]: songs }));
+  };
+
+  const handleResolve = async (review: SongMatchReview, songId: string | null) => {
+    try {
+      setPendingReviewId(review.review_id);
+      const linked = await resolveSongMatch(review.review_id, songId);
+
+      // Update local state
+      setReviews(reviews.filter(r => r.review_id !== review.review_id));
+
+      toast.success(songId
+        ? `Linked "${review.setlist_name}" in ${linked} played setlist${linked === 1 ? '' : 's'}`
+        : `Dismissed "${review.setlist_name}"`);
+    } catch (error) {
+      console.error('Error resolving song match:', error);
+      toast.error('Failed to update song match');
+    } finally {
+      setPendingReviewId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Song Matching</h2>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleRefresh}
+          disabled={refreshing || loading}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Setlist.fm songs that could not be matched to the Spotify catalog with confidence. Linking a song
+        remembers the title as an alias for future syncs.
+      </p>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Setlist.fm title</TableHead>
+              <TableHead>Artist</TableHead>
+              <TableHead>Match</TableHead>
+              <TableHead>Seen</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell>
+                    <Skeleton className="h-4 w-[200px]" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-[120px]" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-[220px]" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-[40px]" />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Skeleton className="h-9 w-[160px] ml-auto" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : reviews.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-4 text-muted-foreground">
+                  No songs awaiting review
+                </TableCell>
+              </TableRow>
+            ) : (
+              reviews.map((review) => {
+                const songId = selectedSongs[review.review_id] ?? review.candidate_song_id;
+                return (
+                  <TableRow key={review.review_id}>
+                    <TableCell className="font-medium">
+                      {review.setlist_name}
+                      {review.is_cover && (
+                        <div className="text-xs text-muted-foreground">
+                          Cover{review.cover_artist ? ` of ${review.cover_artist}` : ''}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{review.artist_name}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={songId ?? undefined}
+                          onOpenChange={(open) => open && loadArtistSongs(review.artist_id)}
+                          onValueChange={(value) =>
+                            setSelectedSongs(current => ({ ...current, [review.review_id]: value }))
+                          }
+                        >
+                          <SelectTrigger className="w-[220px]">
+                            <SelectValue placeholder="Choose a song" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {review.candidate_song_id && !artistSongs[review.artist_id] && (
+                              <SelectItem value={review.candidate_song_id}>
+                                {review.candidate_song_name}
+                              </SelectItem>
+                            )}
+                            {(artistSongs[review.artist_id] || []).map(song => (
+                              <SelectItem key={song.id} value={song.id}>
+                                {song.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {review.candidate_song_id && (
+                          <Badge variant="outline">
+                            {METHOD_LABELS[review.match_method] || review.match_method}{' '}
+                            {Math.round(review.confidence * 100)}%
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{review.occurrences}</TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!songId || pendingReviewId === review.review_id}
+                        onClick={() => handleResolve(review, songId)}
+                      >
+                        <Link2 className="h-4 w-4 mr-1" />
+                        Link
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        disabled={pendingReviewId === review.review_id}
+                        onClick={() => handleResolve(review, null)}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Dismiss
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default AdminSongMatches;
@@ -5,7 +5,7 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { ArrowDownUp, Clock, RefreshCw, AlertTriangle, Check, Play, Pause, Info } from 'lucide-react';
+import { ArrowDownUp, Clock, RefreshCw, AlertTriangle, Check, Play, Pause, Info, Gauge } from 'lucide-react';
 import {
   Table,
   TableBody,
@@ -16,6 +16,7 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Progress } from '@/components/ui/progress';
 import { EntityType, SyncOperation } from '@/lib/sync/types';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -25,6 +26,7 @@ interface SyncTaskRecord {
   entity_type: string;
   entity_id: string;
   parent_task: string | null;
+  depends_on?: string[];
   priority: string;
   status: string;
   started_at: string;
@@ -32,6 +34,18 @@ interface SyncTaskRecord {
   error: string | null;
 }
 
+interface RateLimitBudgetRecord {
+  provider: string;
+  capacity: number;
+  refill_per_second: number;
+  tokens_available: number;
+  blocked_until: string | null;
+  consecutive_throttles: number;
+  last_throttled_at: string | null;
+  requests_granted: number;
+  requests_throttled: number;
+}
+
 interface SyncOrchestratorPanelProps {
   initialEntityType?: EntityType;
   initialEntityId?: string;
@@ -43,6 +57,8 @@ export default function SyncOrchestratorPanel({
 }: SyncOrchestratorPanelProps) {
   const [activeTab, setActiveTab] = useState<string>('new');
   const [operations, setOperations] = useState<SyncTaskRecord[]>([]);
+  const [childOperations, setChildOperations] = useState<SyncTaskRecord[]>([]);
+  const [budgets, setBudgets] = useState<RateLimitBudgetRecord[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [connectionError, setConnectionError] = useState<boolean>(false);
@@ -109,7 +125,7 @@ export default function SyncOrchestratorPanel({
       setLoading(true);
       setError(null);
       
-      const response = await fetch('/api/sync/orchestrator?limit=50', {
+      const response = await fetch('/api/sync/orchestrator?limit=50&tree=true', {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -122,6 +138,9 @@ export default function SyncOrchestratorPanel({
       
       const data = await response.json();
       setOperations(data.tasks || []);
+      setChildOperations(data.children || []);
+      
+      fetchBudgets();
     } catch (err) {
       console.error('Failed to fetch operations:', err);
       setError('Failed to load sync operations. Please try again.');
@@ -130,6 +149,27 @@ export default function SyncOrchestratorPanel({
     }
   }
   
+  async function fetchBudgets() {
+    try {
+      const response = await fetch('/api/sync/rate-limits', {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+      
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+      
+      const data = await response.json();
+      setBudgets(data.budgets || []);
+    } catch (err) {
+      // Budgets are informational; keep showing the last known values
+      console.error('Failed to fetch rate limit budgets:', err);
+    }
+  }
+  
   async function startSyncOperation() {
     if (!selectedEntityType || !selectedEntityId) {
       setError('Please select an entity type and provide an ID');
@@ -181,6 +221,7 @@ export default function SyncOrchestratorPanel({
       case 'pending':
         return <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200"><Clock size={14} className="mr-1" /> Pending</Badge>;
       case 'started':
+      case 'running':
         return <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200"><RefreshCw size={14} className="mr-1 animate-spin" /> Running</Badge>;
       case 'completed':
         return <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200"><Check size={14} className="mr-1" /> Completed</Badge>;
@@ -188,6 +229,8 @@ export default function SyncOrchestratorPanel({
         return <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-200"><AlertTriangle size={14} className="mr-1" /> Partial</Badge>;
       case 'failed':
         return <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200"><AlertTriangle size={14} className="mr-1" /> Failed</Badge>;
+      case 'blocked':
+        return <Badge variant="outline" className="bg-gray-50 text-gray-600 border-gray-200"><Pause size={14} className="mr-1" /> Blocked</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -225,6 +268,88 @@ export default function SyncOrchestratorPanel({
     }
   }
   
+  function getChildren(parentId: string) {
+    return childOperations.filter(child => child.parent_task === parentId);
+  }
+  
+  // Describe a job's dependencies using its siblings' entity labels
+  function getDependencyLabels(op: SyncTaskRecord) {
+    return (op.depends_on || [])
+      .map(id => childOperations.find(child => child.id === id))
+      .filter((dep): dep is SyncTaskRecord => Boolean(dep))
+      .map(dep => `${dep.entity_type} ${dep.entity_id}`);
+  }
+  
+  function renderOperationRows(op: SyncTaskRecord, depth: number): JSX.Element[] {
+    const dependencies = getDependencyLabels(op);
+    const row = (
+      <TableRow key={op.id} className={depth > 0 ? 'bg-muted/30' : undefined}>
+        <TableCell>{getStatusBadge(op.status)}</TableCell>
+        <TableCell className="font-medium">
+          <div style={{ paddingLeft: `${depth * 16}px` }}>
+            {depth > 0 && <span className="text-muted-foreground mr-1">↳</span>}
+            {op.entity_type}
+            <div className="text-xs text-muted-foreground truncate max-w-[100px]">
+              {op.entity_id}
+            </div>
+          </div>
+        </TableCell>
+        <TableCell>
+          {op.task}
+          {dependencies.length > 0 && (
+            <div className="text-xs text-muted-foreground truncate max-w-[150px]" title={dependencies.join(', ')}>
+              after {dependencies.join(', ')}
+            </div>
+          )}
+        </TableCell>
+        <TableCell>{formatDate(op.started_at)}</TableCell>
+        <TableCell>
+          {formatDuration(op.started_at, op.completed_at)}
+          {op.error && (
+            <div className="text-xs text-red-500 mt-1 truncate max-w-[150px]" title={op.error}>
+              {op.error}
+            </div>
+          )}
+        </TableCell>
+      </TableRow>
+    );
+    
+    return [row, ...getChildren(op.id).flatMap(child => renderOperationRows(child, depth + 1))];
+  }
+  
+  function renderBudget(budget: RateLimitBudgetRecord) {
+    const used = Math.max(0, budget.capacity - budget.tokens_available);
+    const percentUsed = budget.capacity > 0 ? Math.round((used / budget.capacity) * 100) : 0;
+    const perMinute = Math.round(budget.refill_per_second * 60);
+    
+    return (
+      <div key={budget.provider} className="space-y-2 p-3 border rounded-md">
+        <div className="flex justify-between items-center">
+          <span className="font-medium capitalize">{budget.provider}</span>
+          {budget.blocked_until ? (
+            <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+              <Pause size={14} className="mr-1" /> Backing off until {formatDate(budget.blocked_until)}
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+              <Check size={14} className="mr-1" /> Available
+            </Badge>
+          )}
+        </div>
+        <Progress value={percentUsed} className="h-2" />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>
+            {Math.floor(budget.tokens_available)} of {budget.capacity} requests available ({perMinute}/min)
+          </span>
+          <span>
+            {budget.requests_granted} sent · {budget.requests_throttled} throttled
+            {budget.last_throttled_at && ` · last 429 ${formatDate(budget.last_throttled_at)}`}
+          </span>
+        </div>
+      </div>
+    );
+  }
+  
   const entityTypeOptions: Array<{ value: EntityType | ''; label: string }> = [
     { value: '', label: 'Select Type' },
     { value: 'artist', label: 'Artist' },
@@ -300,6 +425,7 @@ export default function SyncOrchestratorPanel({
           <TabsList className="mb-4">
             <TabsTrigger value="recent">Recent Operations</TabsTrigger>
             <TabsTrigger value="new">Start New Sync</TabsTrigger>
+            <TabsTrigger value="budget">API Budget</TabsTrigger>
           </TabsList>
           
           <TabsContent value="recent">
@@ -352,27 +478,7 @@ export default function SyncOrchestratorPanel({
                         </TableCell>
                       </TableRow>
                     ) : (
-                      operations.map((op) => (
-                        <TableRow key={op.id}>
-                          <TableCell>{getStatusBadge(op.status)}</TableCell>
-                          <TableCell className="font-medium">
-                            {op.entity_type}
-                            <div className="text-xs text-muted-foreground truncate max-w-[100px]">
-                              {op.entity_id}
-                            </div>
-                          </TableCell>
-                          <TableCell>{op.task}</TableCell>
-                          <TableCell>{formatDate(op.started_at)}</TableCell>
-                          <TableCell>
-                            {formatDuration(op.started_at, op.completed_at)}
-                            {op.error && (
-                              <div className="text-xs text-red-500 mt-1 truncate max-w-[150px]" title={op.error}>
-                                {op.error}
-                              </div>
-                            )}
-                          </TableCell>
-                        </TableRow>
-                      ))
+                      operations.flatMap((op) => renderOperationRows(op, 0))
                     )}
                   </TableBody>
                 </Table>
@@ -380,6 +486,29 @@ export default function SyncOrchestratorPanel({
             )}
           </TabsContent>
           
+          <TabsContent value="budget">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-sm font-medium flex items-center">
+                <Gauge className="h-4 w-4 mr-2" />
+                Shared API Rate Limits
+              </h3>
+              <Button variant="outline" size="sm" onClick={fetchBudgets}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+            
+            {budgets.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No rate limit data available
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {budgets.map(renderBudget)}
+              </div>
+            )}
+          </TabsContent>
+          
           <TabsContent value="new">
             <div className="space-y-4">
               {error && (
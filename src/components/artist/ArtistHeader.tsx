@@ -1,15 +1,16 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Music2, CalendarDays, ArrowLeft, Heart } from 'lucide-react';
-import { Button } from '@/components/ui/button';
+import { Music2, CalendarDays, ArrowLeft } from 'lucide-react';
+import FollowButton from '@/components/follows/FollowButton';
 
 interface ArtistHeaderProps {
+  artistId: string;
   artistName: string;
   artistImage?: string;
   upcomingShowsCount: number;
 }
 
-const ArtistHeader = ({ artistName, artistImage, upcomingShowsCount }: ArtistHeaderProps) => {
+const ArtistHeader = ({ artistId, artistName, artistImage, upcomingShowsCount }: ArtistHeaderProps) => {
   return (
     <section className="px-6 md:px-8 lg:px-12 py-12 header-gradient relative z-10">
       <div className="max-w-7xl mx-auto">
@@ -42,10 +43,7 @@ const ArtistHeader = ({ artistName, artistImage, upcomingShowsCount }: ArtistHea
                 {upcomingShowsCount} upcoming {upcomingShowsCount === 1 ? 'show' : 'shows'}
               </div>
               
-              <Button variant="outline" size="sm" className="border-primary/20 bg-primary/5 text-foreground hover:bg-primary/10">
-                <Heart size={14} className="mr-1.5" />
-                Follow
-              </Button>
+              <FollowButton artistId={artistId} />
             </div>
           </div>
         </div>
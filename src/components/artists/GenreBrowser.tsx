@@ -1,8 +1,11 @@
 
 import React from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ChevronRight } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import ShowsByGenre from '@/components/artists/ShowsByGenre';
-import { popularMusicGenres } from '@/lib/ticketmaster';
+import { getGenres } from '@/lib/api/database/genres';
 
 interface GenreBrowserProps {
   activeGenre: string | null;
@@ -10,27 +13,43 @@ interface GenreBrowserProps {
 }
 
 const GenreBrowser = ({ activeGenre, setActiveGenre }: GenreBrowserProps) => {
+  const { data: genres = [] } = useQuery({
+    queryKey: ['genres'],
+    queryFn: getGenres,
+    staleTime: 1000 * 60 * 60, // 1 hour
+  });
+
+  const selectedGenre = genres.find(g => g.slug === activeGenre);
+
   return (
     <div className="space-y-6">
       <h2 className="text-2xl font-bold">Popular Genres</h2>
       <div className="flex flex-wrap gap-2">
-        {popularMusicGenres.map((genre) => (
+        {genres.map((genre) => (
           <Badge 
             key={genre.id}
-            variant={activeGenre === genre.id ? "default" : "outline"}
+            variant={activeGenre === genre.slug ? "default" : "outline"}
             className="cursor-pointer text-sm py-1.5 px-3"
-            onClick={() => setActiveGenre(activeGenre === genre.id ? null : genre.id)}
+            onClick={() => setActiveGenre(activeGenre === genre.slug ? null : genre.slug)}
           >
             {genre.name}
           </Badge>
         ))}
       </div>
       
-      {activeGenre && (
-        <ShowsByGenre 
-          genreId={activeGenre} 
-          genreName={popularMusicGenres.find(g => g.id === activeGenre)?.name || ''}
-        />
+      {selectedGenre && (
+        <>
+          <Link
+            to={`/genres/${selectedGenre.slug}`}
+            className="inline-flex items-center text-sm hover:underline"
+          >
+            Top {selectedGenre.name} artists and songs <ChevronRight size={16} className="ml-1" />
+          </Link>
+          <ShowsByGenre 
+            genreId={selectedGenre.ticketmaster_id || selectedGenre.slug} 
+            genreName={selectedGenre.name}
+          />
+        </>
       )}
     </div>
   );
@@ -0,0 +1,40 @@
+"use client";
+
+import React from 'react';
+import { Heart, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useFollow } from '@/hooks/use-follow';
+import { FollowTarget } from '@/lib/api/database/follows';
+
+type FollowButtonProps = FollowTarget & {
+  className?: string;
+};
+
+const FollowButton: React.FC<FollowButtonProps> = ({ className, ...target }) => {
+  const { isFollowing, isPending, toggleFollow } = useFollow(target as FollowTarget);
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      className={cn(
+        "border-primary/20 bg-primary/5 text-foreground hover:bg-primary/10",
+        isFollowing && "bg-primary/15",
+        className
+      )}
+      onClick={toggleFollow}
+      disabled={isPending}
+      aria-pressed={isFollowing}
+    >
+      {isPending ? (
+        <Loader2 size={14} className="mr-1.5 animate-spin" />
+      ) : (
+        <Heart size={14} className={cn("mr-1.5", isFollowing && "fill-current")} />
+      )}
+      {isFollowing ? 'Following' : 'Follow'}
+    </Button>
+  );
+};
+
+export default FollowButton;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { CalendarPlus, ListMusic, Loader2, Vote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { FollowFeedItem, FollowFeedItemType, getFollowFeed } from '@/lib/api/database/follows';
+
+const PAGE_SIZE = 20;
+
+const itemLabels: Record<FollowFeedItemType, { label: string; icon: React.ElementType }> = {
+  show_announced: { label: 'New show announced', icon: CalendarPlus },
+  voting_open: { label: 'Setlist voting is open', icon: Vote },
+  setlist_played: { label: 'Setlist played', icon: ListMusic }
+};
+
+interface FollowFeedProps {
+  userId: string;
+}
+
+function formatShowDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+}
+
+const FeedItem = ({ item }: { item: FollowFeedItem }) => {
+  const { label, icon: Icon } = itemLabels[item.item_type as FollowFeedItemType] ?? itemLabels.show_announced;
+  const location = [item.venue_name, item.city].filter(Boolean).join(', ');
+
+  return (
+    <Link to={`/shows/${item.show_id}`} className="block">
+      <Card className="bg-[#0A0A0A] border-white/10 hover:border-white/30 transition-all">
+        <CardContent className="p-4 flex gap-4 items-start">
+          <div className="bg-white/5 w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0">
+            <Icon className="h-5 w-5 text-white/70" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs uppercase tracking-wide text-white/50">{label}</p>
+              <p className="text-xs text-white/40 flex-shrink-0">
+                {formatDistanceToNow(new Date(item.occurred_at), { addSuffix: true })}
+              </p>
+            </div>
+            <h3 className="font-semibold text-white truncate mt-1">
+              {item.artist_name || item.show_name}
+            </h3>
+            <p className="text-sm text-white/60 truncate">
+              {formatShowDate(item.show_date)}{location ? ` · ${location}` : ''}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </Link>
+  );
+};
+
+/**
+ * Newly announced shows, setlists open for voting and played setlists for
+ * the artists and venues the user follows
+ */
+const FollowFeed = ({ userId }: FollowFeedProps) => {
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['followFeed', userId],
+    queryFn: ({ pageParam }) => getFollowFeed(PAGE_SIZE, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) =>
+      lastPage.length === PAGE_SIZE ? lastPage[lastPage.length - 1].occurred_at : undefined
+  });
+
+  const items = data?.pages.flat() ?? [];
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <p className="text-white/60">
+        Follow artists and venues to see new shows and setlists here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map(item => (
+        <FeedItem key={`${item.item_type}:${item.setlist_id ?? item.show_id}`} item={item} />
+      ))}
+
+      {hasNextPage && (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default FollowFeed;
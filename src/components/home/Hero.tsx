@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search, Music, PlusCircle, Users, Award } from 'lucide-react';
+import { Search, Music, PlusCircle, Users, Award, MapPin } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -103,7 +103,18 @@ const Hero = () => {
           </div>
           
           <div className="bg-black/30 p-6 rounded-xl border border-white/10 backdrop-blur-sm">
-            <h2 className="text-xl font-semibold mb-4">Find Your Next Show</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Find Your Next Show</h2>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1 bg-white/5 border-white/10 hover:bg-white/10"
+                onClick={() => navigate('/shows?near=me')}
+              >
+                <MapPin className="h-4 w-4" />
+                Near me
+              </Button>
+            </div>
             <div className="relative mb-6">
               <div className="absolute inset-y-0 left-3 flex items-center pointer-events-none">
                 <Search className="h-5 w-5 text-white/60" />
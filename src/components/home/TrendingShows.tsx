@@ -6,137 +6,27 @@ import { Link } from 'react-router-dom';
 import { Skeleton } from '@/components/ui/skeleton';
 // import { Badge } from '@/components/ui/badge';
 import ShowCard from '@/components/shows/ShowCard'; // Import the new ShowCard
-import { supabase } from '@/integrations/supabase/client'; // Import Supabase client
+import { fetchTrendingShows } from '@/lib/trending';
 
-// Define the Show interface
-interface Show {
-  id: string;
-  name?: string;
-  date?: string;
-  image_url?: string;
-  ticket_url?: string;
-  popularity?: number;
-  vote_count?: number;
-  artist?: {
-    id: string;
-    name: string;
-    image_url?: string;
-    genres?: string[];
-  };
-  venue?: {
-    id: string;
-    name: string;
-    city?: string;
-    state?: string;
-    country?: string;
-  };
+interface TrendingShowsProps {
+  // Narrow the list to a region and/or genre (slug or Ticketmaster genre ID)
+  country?: string | null;
+  state?: string | null;
+  genre?: string | null;
 }
 
-// Function to fetch trending shows from the Supabase cache table
-const fetchTrendingShowsFromCache = async (): Promise<Show[]> => {
-  try {
-    // Query the cache table, join with shows, artists, venues
-    const { data, error } = await supabase
-      .from('trending_shows_cache')
-      .select(`
-        rank,
-        show: shows (
-          id,
-          external_id,
-          name,
-          date,
-          image_url,
-          ticket_url,
-          popularity,
-          artist: artists (
-            id,
-            name,
-            image_url,
-            genres
-          ),
-          venue: venues (
-            id,
-            name,
-            city,
-            state,
-            country
-          )
-        )
-      `)
-      .order('rank', { ascending: true })
-      .limit(4); // Limit to top 4 directly in query
-
-    if (error) {
-      throw error;
-    }
-
-    // Define the expected shape of the data returned by the Supabase query
-    type TrendingCacheItem = {
-      rank: number;
-      // Define the shape of the 'show' object returned by the query
-      show: {
-        id: string;
-        external_id: string | null; // Ensure this matches the query
-        name: string | null;
-        date: string | null;
-        image_url: string | null;
-        ticket_url: string | null;
-        popularity: number | null;
-        artist: {
-          id: string;
-          name: string | null;
-          image_url: string | null;
-          genres: string[] | null;
-        } | null;
-        venue: {
-          id: string;
-          name: string | null;
-          city: string | null;
-          state: string | null;
-          country: string | null;
-        } | null;
-      } | null;
-    } | null;
-
-    // Extract and explicitly map to the imported Show type
-    const shows: Show[] = data?.map((item: TrendingCacheItem) => {
-      const dbShow = item?.show;
-      // Construct a new object conforming strictly to the Show type
-      return {
-        id: dbShow?.id || '',
-        name: dbShow?.name || 'Untitled Show', // Provide default here
-        date: dbShow?.date || null,
-        image_url: dbShow?.image_url || null,
-        ticket_url: dbShow?.ticket_url || null,
-        popularity: dbShow?.popularity || 0,
-        artist: dbShow?.artist ? { ...dbShow.artist, name: dbShow.artist.name || 'Unknown Artist' } : null,
-        venue: dbShow?.venue ? { ...dbShow.venue, name: dbShow.venue.name || 'Unknown Venue' } : null,
-        // Add other fields from Show type if necessary, ensure defaults
-        external_id: dbShow?.external_id || undefined, // Add if needed by ShowCard/Link
-      } as Show;
-    }).filter((show): show is Show => !!show?.id) || []; // Use type predicate in filter
-
-    console.log('Fetched trending shows from cache:', shows);
-    return shows;
-
-  } catch (error) {
-    console.error('Error fetching trending shows from cache:', error);
-    throw error;
-  }
-};
-
-const TrendingShows = () => {
+const TrendingShows = ({ country = null, state = null, genre = null }: TrendingShowsProps) => {
   // Use the new fetch function
   const { data: showsData = [], isLoading, error } = useQuery({
-    queryKey: ['trendingShowsCache'], // Use a different query key
-    queryFn: fetchTrendingShowsFromCache,
+    queryKey: ['trendingShows', country, state, genre],
+    queryFn: () => fetchTrendingShows({ limit: 4, country, state, genre }),
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes on the client
     retry: 1, // Retry once on error
   });
 
   // Removed formatDate and getShowGenre as they are handled within ShowCard or not needed
 
-  // Data is already sorted and limited by the DB query
+  // Data is already sorted and limited by the API
   const trendingShows = showsData;
 
 
@@ -3,6 +3,7 @@ import React from 'react';
 import { Link } from 'react-router-dom';
 import { useLocation } from 'react-router-dom';
 import UserProfile from '@/components/auth/UserProfile';
+import NotificationBell from '@/components/notifications/NotificationBell';
 
 const DesktopNav = () => {
   const location = useLocation();
@@ -43,6 +44,7 @@ const DesktopNav = () => {
         </Link>
       </nav>
 
+      <NotificationBell />
       <UserProfile />
     </div>
   );
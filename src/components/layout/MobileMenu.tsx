@@ -3,15 +3,18 @@ import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import SearchBar from '@/components/ui/SearchBar';
 import UserProfile from '@/components/auth/UserProfile';
+import SearchSuggestions from '@/components/search/SearchSuggestions';
+import { DiscoveredEntity, MIN_SEARCH_LENGTH, SearchResult } from '@/lib/search';
 
 interface MobileMenuProps {
   isOpen: boolean;
   searchQuery: string;
   setSearchQuery: (query: string) => void;
-  artists: any[];
+  suggestions: SearchResult[];
+  discovered: DiscoveredEntity[];
   isLoading: boolean;
   handleFullSearch: (query: string) => void;
-  handleNavigation: (artistId: string) => void;
+  handleNavigation: (href: string) => void;
   closeMenu: () => void;
   isSearchPage?: boolean;
 }
@@ -20,7 +23,8 @@ const MobileMenu = ({
   isOpen,
   searchQuery,
   setSearchQuery,
-  artists,
+  suggestions,
+  discovered,
   isLoading,
   handleFullSearch,
   handleNavigation,
@@ -40,8 +44,8 @@ const MobileMenu = ({
 
   if (!isOpen) return null;
 
-  const handleNavAndClose = (artistId: string) => {
-    handleNavigation(artistId);
+  const handleNavAndClose = (href: string) => {
+    handleNavigation(href);
     setSearchQuery('');
     closeMenu();
   };
@@ -80,7 +84,7 @@ const MobileMenu = ({
         {!isHomePage && (
           <div className="mt-2">
             <SearchBar
-              placeholder="Search artists..."
+              placeholder="Search artists, shows, venues..."
               onChange={(query) => setSearchQuery(query)}
               onSearch={(query) => {
                 handleFullSearch(query);
@@ -90,27 +94,13 @@ const MobileMenu = ({
               className="w-full"
               disableRedirect={isSearchPage}
             >
-              {searchQuery.length > 2 && artists.length > 0 && (
-                <div className="bg-background border border-border rounded-md shadow-md">
-                  {isLoading ? (
-                    <div className="p-4 text-center">Loading artists...</div>
-                  ) : artists.length === 0 ? (
-                    <div className="p-4 text-center">No artists found</div>
-                  ) : (
-                    <ul className="max-h-[300px] overflow-y-auto">
-                      {artists.map((artist) => (
-                        <li key={artist.id}>
-                          <button
-                            className="w-full p-3 text-left hover:bg-muted flex items-center"
-                            onClick={() => handleNavAndClose(artist.id)}
-                          >
-                            {artist.name}
-                          </button>
-                        </li>
-                      ))}
-                    </ul>
-                  )}
-                </div>
+              {searchQuery.trim().length >= MIN_SEARCH_LENGTH && (
+                <SearchSuggestions
+                  suggestions={suggestions}
+                  discovered={discovered}
+                  isLoading={isLoading}
+                  onSelect={handleNavAndClose}
+                />
               )}
             </SearchBar>
           </div>
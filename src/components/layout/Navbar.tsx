@@ -4,7 +4,7 @@ import { Menu, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useQuery } from '@tanstack/react-query';
-import { searchArtistsWithEvents } from '@/lib/ticketmaster';
+import { fetchSearch, MIN_SEARCH_LENGTH } from '@/lib/search';
 import MobileMenu from './MobileMenu';
 import DesktopNav from './DesktopNav';
 import NavbarSearch from './NavbarSearch';
@@ -27,11 +27,13 @@ const Navbar = ({ showSearch = true }) => {
     return () => clearTimeout(handler);
   }, [searchQuery]);
 
-  const { data: artists = [], isLoading } = useQuery({
+  const { data: searchResults, isLoading } = useQuery({
     queryKey: ['navSearch', debouncedQuery],
-    queryFn: () => searchArtistsWithEvents(debouncedQuery, 5),
-    enabled: debouncedQuery.length > 2,
+    queryFn: () => fetchSearch(debouncedQuery),
+    enabled: debouncedQuery.trim().length >= MIN_SEARCH_LENGTH,
   });
+  const suggestions = searchResults?.suggestions ?? [];
+  const discovered = searchResults?.discovered ?? [];
 
   const toggleMenu = () => setIsMenuOpen(!isMenuOpen);
   const closeMenu = () => setIsMenuOpen(false);
@@ -43,21 +45,9 @@ const Navbar = ({ showSearch = true }) => {
     }
   };
 
-  const handleNavigation = async (artistId: string) => {
-    const artistData = artists.find(a => a.id === artistId);
-    if (artistData) {
-      try {
-        await fetch('/api/artists/import', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(artistData)
-        });
-      } catch (error) {
-        console.error('Error importing artist:', error);
-      }
-    }
-
-    navigate(`/artists/${artistId}`);
+  // Entities found upstream are already queued for sync by /api/search
+  const handleNavigation = (href: string) => {
+    navigate(href);
     setSearchQuery('');
   };
 
@@ -72,7 +62,8 @@ const Navbar = ({ showSearch = true }) => {
           <NavbarSearch 
             searchQuery={searchQuery}
             setSearchQuery={setSearchQuery}
-            artists={artists}
+            suggestions={suggestions}
+            discovered={discovered}
             isLoading={isLoading}
             handleFullSearch={handleFullSearch}
             handleNavigation={handleNavigation}
@@ -95,7 +86,8 @@ const Navbar = ({ showSearch = true }) => {
               isOpen={isMenuOpen}
               searchQuery={searchQuery}
               setSearchQuery={setSearchQuery}
-              artists={artists}
+              suggestions={suggestions}
+              discovered={discovered}
               isLoading={isLoading}
               handleFullSearch={handleFullSearch}
               handleNavigation={handleNavigation}
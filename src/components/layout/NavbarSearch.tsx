@@ -1,22 +1,25 @@
 
 import React from 'react';
 import SearchBar from '@/components/ui/SearchBar';
-import ArtistSearchResults from '@/components/search/ArtistSearchResults';
+import SearchSuggestions from '@/components/search/SearchSuggestions';
+import { DiscoveredEntity, MIN_SEARCH_LENGTH, SearchResult } from '@/lib/search';
 
 interface NavbarSearchProps {
   searchQuery: string;
   setSearchQuery: (query: string) => void;
-  artists: any[];
+  suggestions: SearchResult[];
+  discovered: DiscoveredEntity[];
   isLoading: boolean;
   handleFullSearch: (query: string) => void;
-  handleNavigation: (artistId: string) => void;
+  handleNavigation: (href: string) => void;
   isSearchPage?: boolean;
 }
 
 const NavbarSearch = ({
   searchQuery,
   setSearchQuery,
-  artists,
+  suggestions,
+  discovered,
   isLoading,
   handleFullSearch,
   handleNavigation,
@@ -25,21 +28,19 @@ const NavbarSearch = ({
   return (
     <div className="w-64 md:flex mx-4 relative">
       <SearchBar
-        placeholder="Search artists..."
+        placeholder="Search artists, shows, venues..."
         onChange={(query) => setSearchQuery(query)}
         onSearch={handleFullSearch}
         value={searchQuery}
         className="w-full"
         disableRedirect={isSearchPage}
       >
-        {searchQuery.length > 2 && (
-          <ArtistSearchResults
-            artists={artists}
+        {searchQuery.trim().length >= MIN_SEARCH_LENGTH && (
+          <SearchSuggestions
+            suggestions={suggestions}
+            discovered={discovered}
             isLoading={isLoading}
-            onSelect={(artist) => {
-              handleNavigation(artist.id);
-              setSearchQuery('');
-            }}
+            onSelect={handleNavigation}
           />
         )}
       </SearchBar>
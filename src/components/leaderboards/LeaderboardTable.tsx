@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Trophy } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import {
+  getLeaderboard,
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  LeaderboardScope
+} from '@/lib/api/database/leaderboards';
+
+interface LeaderboardTableProps {
+  scope: LeaderboardScope;
+  artistId?: string;
+  tourName?: string;
+  currentUserId?: string | null;
+}
+
+const LeaderboardTable = ({ scope, artistId, tourName, currentUserId }: LeaderboardTableProps) => {
+  const [period, setPeriod] = useState<LeaderboardPeriod>('weekly');
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (scope !== 'global' && !artistId) return;
+    if (scope === 'tour' && !tourName) return;
+
+    setLoading(true);
+    getLeaderboard({ scope, period, artistId, tourName })
+      .then(setEntries)
+      .finally(() => setLoading(false));
+  }, [scope, period, artistId, tourName]);
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={period} onValueChange={value => setPeriod(value as LeaderboardPeriod)}>
+        <TabsList>
+          <TabsTrigger value="weekly">This Week</TabsTrigger>
+          <TabsTrigger value="all_time">All Time</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="p-8 text-center border border-border rounded-xl">
+          <Trophy className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-medium mb-2">No rankings yet</h3>
+          <p className="text-muted-foreground">
+            Vote and predict setlists to get on the board.
+          </p>
+        </div>
+      ) : (
+        <div className="border border-border rounded-xl overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Rank</TableHead>
+                <TableHead>Fan</TableHead>
+                <TableHead className="text-right">Reputation</TableHead>
+                <TableHead className="text-right hidden md:table-cell">Accuracy</TableHead>
+                <TableHead className="text-right hidden md:table-cell">Predictions</TableHead>
+                <TableHead className="text-right hidden md:table-cell">Votes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => {
+                const name = entry.username || 'Anonymous fan';
+                return (
+                  <TableRow
+                    key={entry.user_id}
+                    className={cn(entry.user_id === currentUserId && 'bg-primary/10')}
+                  >
+                    <TableCell className="font-semibold">#{entry.rank}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={entry.avatar_url || undefined} alt={name} />
+                          <AvatarFallback className="bg-primary/10 text-primary">
+                            {name.charAt(0).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <span className="font-medium">{name}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">{entry.reputation}</TableCell>
+                    <TableCell className="text-right hidden md:table-cell">
+                      {entry.average_accuracy === null
+                        ? '—'
+                        : `${Math.round(Number(entry.average_accuracy) * 100)}%`}
+                    </TableCell>
+                    <TableCell className="text-right hidden md:table-cell">{entry.predictions_scored}</TableCell>
+                    <TableCell className="text-right hidden md:table-cell">{entry.votes_cast}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaderboardTable;
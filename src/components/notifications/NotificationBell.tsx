@@ -0,0 +1,108 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/auth/AuthContext';
+import { subscribeToRecord } from '@/integrations/supabase/client';
+import {
+  getNotifications,
+  markNotificationsRead,
+  Notification,
+} from '@/lib/api/database/notifications';
+
+const NotificationBell = () => {
+  const { user, isAuthenticated } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  const userId = user?.id;
+  const unreadCount = notifications.filter(notification => !notification.read_at).length;
+
+  const loadNotifications = useCallback(async () => {
+    if (!userId) return;
+    setNotifications(await getNotifications(userId));
+  }, [userId]);
+
+  // Load on sign-in and reload whenever a notification for this user changes
+  useEffect(() => {
+    if (!userId) return;
+
+    loadNotifications();
+    return subscribeToRecord('notifications', 'user_id', userId, () => {
+      loadNotifications();
+    });
+  }, [userId, loadNotifications]);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open || !userId || unreadCount === 0) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications(current => current.map(notification => ({
+      ...notification,
+      read_at: notification.read_at ?? readAt
+    })));
+
+    try {
+      await markNotificationsRead(userId);
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <DropdownMenu onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end" forceMount>
+        <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length > 0 ? (
+          notifications.map((notification) => (
+            <DropdownMenuItem key={notification.id} asChild>
+              <Link to={notification.link ?? '/profile'} className="flex flex-col items-start gap-0.5 cursor-pointer">
+                <span className="text-sm font-medium leading-snug">{notification.title}</span>
+                {notification.body && (
+                  <span className="text-xs text-muted-foreground">{notification.body}</span>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  {new Date(notification.created_at).toLocaleDateString()}
+                </span>
+              </Link>
+            </DropdownMenuItem>
+          ))
+        ) : (
+          <div className="px-2 py-6 text-center text-sm text-muted-foreground">
+            You're all caught up
+          </div>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to="/profile" className="cursor-pointer text-xs text-muted-foreground">
+            Notification settings
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  getNotificationPreferences,
+  NotificationPreferencesUpdate,
+  saveNotificationPreferences,
+} from '@/lib/api/database/notifications';
+import { DigestFrequency, NotificationType } from '@/lib/notifications/types';
+
+const NOTIFICATION_OPTIONS: { type: NotificationType; label: string; description: string }[] = [
+  {
+    type: 'show_announced',
+    label: 'New shows',
+    description: 'An artist or venue you follow announces a show'
+  },
+  {
+    type: 'voting_open',
+    label: 'Voting opens',
+    description: 'Setlist voting opens for a show you follow'
+  },
+  {
+    type: 'voting_closed',
+    label: 'Voting closes',
+    description: 'A show you voted on or predicted starts and voting closes'
+  },
+  {
+    type: 'prediction_played',
+    label: 'Predictions played',
+    description: 'A song you predicted is played'
+  },
+  {
+    type: 'setlist_posted',
+    label: 'Setlists posted',
+    description: 'The real setlist is posted for a show you follow or voted on'
+  }
+];
+
+interface NotificationPreferencesFormProps {
+  userId: string;
+}
+
+const NotificationPreferencesForm: React.FC<NotificationPreferencesFormProps> = ({ userId }) => {
+  const [preferences, setPreferences] = useState<NotificationPreferencesUpdate>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    getNotificationPreferences(userId).then((saved) => {
+      setPreferences({
+        show_announced: saved.show_announced,
+        voting_open: saved.voting_open,
+        voting_closed: saved.voting_closed,
+        prediction_played: saved.prediction_played,
+        setlist_posted: saved.setlist_posted,
+        email_digest: saved.email_digest
+      });
+      setIsLoading(false);
+    });
+  }, [userId]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveNotificationPreferences(userId, preferences);
+      toast.success('Notification preferences saved');
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast.error('Could not save your notification preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-8 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-border rounded-xl bg-card divide-y divide-border">
+      {NOTIFICATION_OPTIONS.map(({ type, label, description }) => (
+        <div key={type} className="flex items-center justify-between gap-4 p-4">
+          <div>
+            <Label htmlFor={`notify-${type}`} className="font-medium">{label}</Label>
+            <p className="text-sm text-muted-foreground">{description}</p>
+          </div>
+          <Switch
+            id={`notify-${type}`}
+            checked={preferences[type] ?? true}
+            onCheckedChange={(checked) => setPreferences(current => ({ ...current, [type]: checked }))}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-4 p-4">
+        <div>
+          <Label className="font-medium">Email digest</Label>
+          <p className="text-sm text-muted-foreground">A summary of your unread notifications</p>
+        </div>
+        <Select
+          value={preferences.email_digest ?? 'weekly'}
+          onValueChange={(value) => setPreferences(current => ({ ...current, email_digest: value as DigestFrequency }))}
+        >
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="off">Off</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex justify-end p-4">
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save preferences
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationPreferencesForm;
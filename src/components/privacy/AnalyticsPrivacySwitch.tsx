@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { getAnalyticsOptOut, saveAnalyticsOptOut } from '@/lib/api/database/analytics';
+import { isAnalyticsAllowed, optOutOfAnalytics } from '@/lib/analytics';
+
+interface AnalyticsPrivacySwitchProps {
+  userId: string;
+}
+
+/**
+ * Lets a signed-in user switch usage analytics off. The choice is saved on
+ * the account and applied in this browser straight away.
+ */
+const AnalyticsPrivacySwitch: React.FC<AnalyticsPrivacySwitchProps> = ({ userId }) => {
+  const [optedOut, setOptedOut] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setIsLoading(true);
+    getAnalyticsOptOut(userId).then((accountOptedOut) => {
+      // An account opt-out applies to every browser the user signs in on
+      if (accountOptedOut) optOutOfAnalytics(true);
+      setOptedOut(accountOptedOut || !isAnalyticsAllowed());
+      setIsLoading(false);
+    });
+  }, [userId]);
+
+  const handleChange = async (shareAnalytics: boolean) => {
+    setIsSaving(true);
+    try {
+      await saveAnalyticsOptOut(userId, !shareAnalytics);
+      optOutOfAnalytics(!shareAnalytics);
+      setOptedOut(!shareAnalytics);
+      toast.success(shareAnalytics ? 'Usage analytics turned on' : 'Usage analytics turned off');
+    } catch (error) {
+      console.error('Error saving analytics preference:', error);
+      toast.error('Could not save your privacy preference');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-8 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-border rounded-xl bg-card">
+      <div className="flex items-center justify-between gap-4 p-4">
+        <div>
+          <Label htmlFor="share-analytics" className="font-medium">Share usage analytics</Label>
+          <p className="text-sm text-muted-foreground">
+            Page views, votes, searches and shares help us rank trending shows and improve TheSet.
+            Browsers that send Do Not Track are never tracked.
+          </p>
+        </div>
+        <Switch
+          id="share-analytics"
+          checked={!optedOut}
+          disabled={isSaving}
+          onCheckedChange={handleChange}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPrivacySwitch;
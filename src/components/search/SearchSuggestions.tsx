@@ -0,0 +1,123 @@
+import React from 'react';
+import { CalendarDays, MapPin, Music, Music2, Sparkles, User } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  discoveredHref,
+  DiscoveredEntity,
+  SearchEntityType,
+  SearchResult,
+  searchResultHref,
+} from '@/lib/search';
+
+const TYPE_ICONS: Record<SearchEntityType, React.ElementType> = {
+  artist: User,
+  show: CalendarDays,
+  venue: MapPin,
+  song: Music2,
+};
+
+interface SearchSuggestionsProps {
+  suggestions: SearchResult[];
+  discovered?: DiscoveredEntity[];
+  isLoading: boolean;
+  onSelect: (href: string) => void;
+  className?: string;
+}
+
+/**
+ * Autocomplete dropdown for the unified search: the best local matches of
+ * every type, then anything just found on Ticketmaster
+ */
+const SearchSuggestions = ({
+  suggestions,
+  discovered = [],
+  isLoading,
+  onSelect,
+  className
+}: SearchSuggestionsProps) => {
+  if (isLoading) {
+    return (
+      <div className={cn("py-1 bg-background border border-border rounded-lg shadow-lg", className)}>
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="flex items-center gap-3 px-3 py-2">
+            <div className="w-8 h-8 rounded-md bg-secondary animate-pulse"></div>
+            <div className="flex-1">
+              <div className="h-4 w-24 bg-secondary rounded animate-pulse"></div>
+              <div className="h-3 w-16 bg-secondary rounded mt-1 animate-pulse"></div>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (suggestions.length === 0 && discovered.length === 0) {
+    return (
+      <div className={cn("p-4 text-center text-sm text-muted-foreground bg-background border border-border rounded-lg shadow-lg", className)}>
+        No matches found
+      </div>
+    );
+  }
+
+  const renderItem = (key: string, href: string | null, icon: React.ElementType, name: string, subtitle: string | null, imageUrl: string | null) => {
+    const Icon = icon;
+    return (
+      <li key={key}>
+        <button
+          type="button"
+          className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-secondary transition-colors disabled:cursor-default disabled:hover:bg-transparent"
+          onClick={() => href && onSelect(href)}
+          disabled={!href}
+        >
+          {imageUrl ? (
+            <img src={imageUrl} alt={name} className="w-8 h-8 rounded-md object-cover" />
+          ) : (
+            <div className="w-8 h-8 rounded-md bg-secondary flex items-center justify-center">
+              <Music className="h-4 w-4 text-muted-foreground" />
+            </div>
+          )}
+          <div className="min-w-0 flex-1">
+            <div className="font-medium truncate">{name}</div>
+            {subtitle && <div className="text-xs text-muted-foreground truncate">{subtitle}</div>}
+          </div>
+          <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div className={cn("py-1 bg-background border border-border rounded-lg shadow-lg max-h-[60vh] overflow-y-auto", className)}>
+      <ul>
+        {suggestions.map(result => renderItem(
+          `${result.entity_type}:${result.id}`,
+          searchResultHref(result),
+          TYPE_ICONS[result.entity_type],
+          result.name,
+          result.subtitle,
+          result.image_url
+        ))}
+      </ul>
+      {discovered.length > 0 && (
+        <>
+          <div className="flex items-center gap-1.5 px-3 pt-2 pb-1 text-xs uppercase tracking-wide text-muted-foreground border-t border-border">
+            <Sparkles className="h-3 w-3" />
+            New on TheSet
+          </div>
+          <ul>
+            {discovered.map(entity => renderItem(
+              `discovered:${entity.entity_type}:${entity.external_id}`,
+              discoveredHref(entity),
+              TYPE_ICONS[entity.entity_type],
+              entity.name,
+              entity.subtitle,
+              entity.image_url
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SearchSuggestions;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { ListMusic, ExternalLink, Loader2 } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+  DropdownMenuSeparator
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { useSetlistPlaylist } from '@/hooks/use-setlist-playlist';
+
+interface SavePlaylistButtonProps {
+  showId: string;
+  showName: string;
+  artistName: string;
+}
+
+const SavePlaylistButton: React.FC<SavePlaylistButtonProps> = ({
+  showId,
+  showName,
+  artistName
+}) => {
+  const { isSignedIn, playlists, syncingMode, exportPlaylist } = useSetlistPlaylist({
+    showId,
+    showName,
+    artistName
+  });
+
+  if (!isSignedIn || !showId) return null;
+
+  const votedUrl = playlists.voted?.spotify_playlist_url ?? null;
+  const playedUrl = playlists.played?.spotify_playlist_url ?? null;
+
+  const openPlaylist = (url: string | null) => {
+    if (url) window.open(url, '_blank');
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-1.5 text-sm"
+          disabled={syncingMode !== null}
+        >
+          {syncingMode ? <Loader2 size={14} className="animate-spin" /> : <ListMusic size={14} />}
+          Save as playlist
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuItem onClick={() => exportPlaylist('voted')} className="cursor-pointer">
+          <ListMusic size={14} className="mr-2" />
+          {playlists.voted ? 'Update fan-voted playlist' : 'Fan-voted setlist'}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportPlaylist('played')} className="cursor-pointer">
+          <ListMusic size={14} className="mr-2" />
+          {playlists.played ? 'Update played setlist playlist' : 'Played setlist'}
+        </DropdownMenuItem>
+        {(votedUrl || playedUrl) && (
+          <>
+            <DropdownMenuSeparator />
+            {votedUrl && (
+              <DropdownMenuItem
+                onClick={() => openPlaylist(votedUrl)}
+                className="cursor-pointer"
+              >
+                <ExternalLink size={14} className="mr-2" />
+                Open fan-voted playlist
+              </DropdownMenuItem>
+            )}
+            {playedUrl && (
+              <DropdownMenuItem
+                onClick={() => openPlaylist(playedUrl)}
+                className="cursor-pointer"
+              >
+                <ExternalLink size={14} className="mr-2" />
+                Open played setlist playlist
+              </DropdownMenuItem>
+            )}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default SavePlaylistButton;
@@ -10,6 +10,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
+import { ShareChannel, track } from '@/lib/analytics';
 
 interface ShareSetlistButtonProps {
   showId: string;
@@ -30,8 +31,13 @@ const ShareSetlistButton: React.FC<ShareSetlistButtonProps> = ({
   // Generate share text
   const shareText = `Check out the fan-voted setlist for ${artistName} at ${showName}! Vote for your favorite songs:`;
   
+  const trackShare = (channel: ShareChannel) => {
+    track({ name: 'share_clicked', properties: { show_id: showId, channel } });
+  };
+  
   // Handle copy to clipboard
   const handleCopy = () => {
+    trackShare('copy');
     navigator.clipboard.writeText(shareUrl).then(() => {
       setCopied(true);
       toast.success('Link copied to clipboard!');
@@ -45,6 +51,7 @@ const ShareSetlistButton: React.FC<ShareSetlistButtonProps> = ({
   
   // Share on Twitter
   const shareOnTwitter = () => {
+    trackShare('twitter');
     const twitterUrl = `https://twitter.com/intent/tweet?text=${encodeURIComponent(shareText)}&url=${encodeURIComponent(shareUrl)}`;
     window.open(twitterUrl, '_blank');
     toast.success('Opening Twitter to share');
@@ -52,6 +59,7 @@ const ShareSetlistButton: React.FC<ShareSetlistButtonProps> = ({
   
   // Share on Facebook
   const shareOnFacebook = () => {
+    trackShare('facebook');
     const facebookUrl = `https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(shareUrl)}`;
     window.open(facebookUrl, '_blank');
     toast.success('Opening Facebook to share');
@@ -60,6 +68,7 @@ const ShareSetlistButton: React.FC<ShareSetlistButtonProps> = ({
   // Share via native share API if available
   const nativeShare = () => {
     if (navigator.share) {
+      trackShare('native');
       navigator.share({
         title: `${artistName} at ${showName} - Fan Setlist`,
         text: shareText,
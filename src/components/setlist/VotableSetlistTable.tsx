@@ -1,8 +1,8 @@
 
 import React, { useState } from 'react';
-import { ArrowBigUp, Music, Trophy, Star, Crown } from 'lucide-react';
+import { ArrowBigUp, Lock, Music, Trophy, Star, Crown } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { trackEvent } from '@/integrations/google-analytics';
+import { track } from '@/lib/analytics';
 import { 
   Table,
   TableBody,
@@ -24,18 +24,26 @@ interface VotableSetlistTableProps {
   onVote: (songId: string) => void;
   className?: string;
   anonymousVoteCount?: number;
+  // False once the show locks at doors: the tallies are final
+  votingOpen?: boolean;
 }
 
-const VotableSetlistTable = ({ songs, onVote, className, anonymousVoteCount = 0 }: VotableSetlistTableProps) => {
+const VotableSetlistTable = ({
+  songs,
+  onVote,
+  className,
+  anonymousVoteCount = 0,
+  votingOpen = true
+}: VotableSetlistTableProps) => {
   const [animatingSongId, setAnimatingSongId] = useState<string | null>(null);
   
   const handleVote = (songId: string) => {
+    if (!votingOpen) return;
     setAnimatingSongId(songId);
     onVote(songId);
     
     // Track voting event in analytics
-    const songName = songs.find(song => song.id === songId)?.name || 'unknown';
-    trackEvent('Setlist', 'Vote', songName);
+    track({ name: 'vote_cast', properties: { song_id: songId } });
     
     // Remove animation class after animation completes
     setTimeout(() => {
@@ -48,6 +56,12 @@ const VotableSetlistTable = ({ songs, onVote, className, anonymousVoteCount = 0
   
   return (
     <div className={cn("w-full", className)}>
+      {!votingOpen && (
+        <div className="flex items-center gap-2 px-4 py-3 border-b border-white/10 text-sm text-white/70">
+          <Lock size={14} className="text-white/50" />
+          <span>Voting is closed. These are the final results.</span>
+        </div>
+      )}
       <Table>
         <TableHeader>
           <TableRow className="border-b border-white/10">
@@ -131,28 +145,30 @@ const VotableSetlistTable = ({ songs, onVote, className, anonymousVoteCount = 0
                     )}>
                       {song.votes}
                     </span>
-                    <button
-                      onClick={() => !song.userVoted && handleVote(song.id)}
-                      disabled={song.userVoted}
-                      className={cn(
-                        "inline-flex items-center justify-center rounded-full w-9 h-9 transition-all",
-                        song.userVoted 
-                          ? "bg-white text-[#0A0A16] cursor-default" 
-                          : "text-white/60 hover:bg-white/10 hover:text-white",
-                        animatingSongId === song.id && "scale-110"
-                      )}
-                      title={song.userVoted ? "You already voted for this song" : "Vote for this song"}
-                      aria-label={song.userVoted ? "You already voted for this song" : "Vote for this song"}
-                    >
-                      <ArrowBigUp className={cn(
-                        "h-5 w-5 transition-all",
-                        song.userVoted && "text-[#0A0A16]",
-                        animatingSongId === song.id && "animate-bounce"
-                      )} />
-                      <span className="sr-only">
-                        {song.userVoted ? "Voted" : "Vote"}
-                      </span>
-                    </button>
+                    {votingOpen && (
+                      <button
+                        onClick={() => !song.userVoted && handleVote(song.id)}
+                        disabled={song.userVoted}
+                        className={cn(
+                          "inline-flex items-center justify-center rounded-full w-9 h-9 transition-all",
+                          song.userVoted 
+                            ? "bg-white text-[#0A0A16] cursor-default" 
+                            : "text-white/60 hover:bg-white/10 hover:text-white",
+                          animatingSongId === song.id && "scale-110"
+                        )}
+                        title={song.userVoted ? "You already voted for this song" : "Vote for this song"}
+                        aria-label={song.userVoted ? "You already voted for this song" : "Vote for this song"}
+                      >
+                        <ArrowBigUp className={cn(
+                          "h-5 w-5 transition-all",
+                          song.userVoted && "text-[#0A0A16]",
+                          animatingSongId === song.id && "animate-bounce"
+                        )} />
+                        <span className="sr-only">
+                          {song.userVoted ? "Voted" : "Vote"}
+                        </span>
+                      </button>
+                    )}
                   </div>
                 </TableCell>
               </TableRow>
@@ -161,7 +177,7 @@ const VotableSetlistTable = ({ songs, onVote, className, anonymousVoteCount = 0
         </TableBody>
       </Table>
       
-      {anonymousVoteCount > 0 && anonymousVoteCount < 3 && (
+      {votingOpen && anonymousVoteCount > 0 && anonymousVoteCount < 3 && (
         <div className="flex justify-end p-3 text-xs text-amber-400">
           <div className="flex items-center gap-1.5">
             <span>You've used {anonymousVoteCount}/3 free votes</span>
@@ -0,0 +1,292 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, GripVertical, Loader2, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { supabase } from "@/integrations/supabase/client";
+import { Song } from "@/lib/types";
+import {
+  buildPredictionEntries,
+  ConsensusSong,
+  getSetlistConsensus,
+  getUserPrediction,
+  MAX_PREDICTION_SONGS,
+  PredictionSlot,
+  submitSetlistPrediction,
+} from "@/lib/api/database/predictions";
+
+type ListName = "catalog" | "main" | "encore";
+
+interface DragItem {
+  songId: string;
+  from: ListName;
+}
+
+interface Props {
+  setlistId: string;
+  artistSongs: Song[];
+}
+
+const SLOT_LABELS: Record<PredictionSlot, string> = {
+  opener: "Opener",
+  main: "Main set",
+  closer: "Closer",
+  encore: "Encore",
+};
+
+/**
+ * Ranked-choice setlist prediction: drag songs from the catalog into an
+ * ordered main set and encore. The first main-set song is the opener and the
+ * last one the closer. Shows the Borda consensus of everyone's predictions.
+ */
+export function SetlistPredictionBuilder({ setlistId, artistSongs }: Props) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [mainSet, setMainSet] = useState<string[]>([]);
+  const [encore, setEncore] = useState<string[]>([]);
+  const [consensus, setConsensus] = useState<ConsensusSong[]>([]);
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<ListName | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const songsById = useMemo(() => {
+    const map: Record<string, Song> = {};
+    artistSongs.forEach(song => {
+      if (song.id) map[song.id] = song;
+    });
+    return map;
+  }, [artistSongs]);
+
+  const catalog = artistSongs.filter(
+    song => song.id && !mainSet.includes(song.id) && !encore.includes(song.id)
+  );
+
+  // Load the signed-in user's previous prediction and the current consensus
+  useEffect(() => {
+    const load = async () => {
+      const { data } = await supabase.auth.getUser();
+      const currentUserId = data.user?.id ?? null;
+      setUserId(currentUserId);
+
+      if (currentUserId) {
+        const prediction = await getUserPrediction(setlistId, currentUserId);
+        if (prediction) {
+          setMainSet(prediction.filter(entry => entry.slot !== "encore").map(entry => entry.song_id));
+          setEncore(prediction.filter(entry => entry.slot === "encore").map(entry => entry.song_id));
+        }
+      }
+
+      setConsensus(await getSetlistConsensus(setlistId));
+    };
+
+    load();
+  }, [setlistId]);
+
+  const listSetter = (list: ListName) => (list === "main" ? setMainSet : setEncore);
+
+  // Move a song into a list, optionally before another song in it
+  const moveSong = (songId: string, from: ListName, to: ListName, beforeSongId?: string) => {
+    if (from === "catalog" && to !== "catalog" && mainSet.length + encore.length >= MAX_PREDICTION_SONGS) {
+      toast.error(`A prediction can hold at most ${MAX_PREDICTION_SONGS} songs`);
+      return;
+    }
+    if (from !== "catalog") {
+      listSetter(from)(current => current.filter(id => id !== songId));
+    }
+    if (to === "catalog") return;
+
+    listSetter(to)(current => {
+      const without = current.filter(id => id !== songId);
+      const index = beforeSongId ? without.indexOf(beforeSongId) : -1;
+      if (index === -1) return [...without, songId];
+      return [...without.slice(0, index), songId, ...without.slice(index)];
+    });
+  };
+
+  const shiftSong = (list: "main" | "encore", index: number, offset: number) => {
+    listSetter(list)(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleDrop = (to: ListName, beforeSongId?: string) => (event: React.DragEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setDropTarget(null);
+    if (!dragItem) return;
+    moveSong(dragItem.songId, dragItem.from, to, beforeSongId);
+    setDragItem(null);
+  };
+
+  const dropZoneProps = (list: ListName) => ({
+    onDragOver: (event: React.DragEvent) => {
+      event.preventDefault();
+      setDropTarget(list);
+    },
+    onDragLeave: () => setDropTarget(current => (current === list ? null : current)),
+    onDrop: handleDrop(list),
+  });
+
+  const submitPrediction = async () => {
+    if (!userId) {
+      toast.error("Sign in to submit a prediction");
+      return;
+    }
+    if (mainSet.length === 0) {
+      toast.error("Add at least one song to the main set");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await submitSetlistPrediction(setlistId, buildPredictionEntries(mainSet, encore));
+      setConsensus(await getSetlistConsensus(setlistId));
+      toast.success("Prediction saved!");
+    } catch (error) {
+      console.error("Error saving prediction:", error);
+      toast.error("Failed to save prediction");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const slotFor = (list: "main" | "encore", index: number, length: number): PredictionSlot => {
+    if (list === "encore") return "encore";
+    if (index === 0) return "opener";
+    if (index === length - 1) return "closer";
+    return "main";
+  };
+
+  const renderRankedList = (list: "main" | "encore", songIds: string[], emptyText: string) => (
+    <div
+      {...dropZoneProps(list)}
+      className={cn(
+        "min-h-24 rounded-md border border-dashed p-2 space-y-2 transition-colors",
+        dropTarget === list && "border-primary bg-primary/5"
+      )}
+    >
+      {songIds.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-6">{emptyText}</p>
+      )}
+      {songIds.map((songId, index) => {
+        const slot = slotFor(list, index, songIds.length);
+        return (
+          <div
+            key={songId}
+            draggable
+            onDragStart={() => setDragItem({ songId, from: list })}
+            onDragOver={event => event.preventDefault()}
+            onDrop={handleDrop(list, songId)}
+            className="flex items-center gap-2 rounded-md bg-muted/40 px-2 py-1.5"
+          >
+            <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />
+            <span className="w-6 text-sm text-muted-foreground">{index + 1}</span>
+            <span className="flex-1 truncate">{songsById[songId]?.name ?? "Unknown song"}</span>
+            {slot !== "main" && <Badge variant="secondary">{SLOT_LABELS[slot]}</Badge>}
+            <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === 0} onClick={() => shiftSong(list, index, -1)}>
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === songIds.length - 1} onClick={() => shiftSong(list, index, 1)}>
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveSong(songId, list, "catalog")}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Catalog</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ScrollArea className="h-[480px] pr-2">
+            <div
+              {...dropZoneProps("catalog")}
+              className={cn("space-y-2 min-h-24", dropTarget === "catalog" && "bg-muted/30 rounded-md")}
+            >
+              {catalog.map(song => (
+                <div
+                  key={song.id}
+                  draggable
+                  onDragStart={() => setDragItem({ songId: song.id!, from: "catalog" })}
+                  className="flex items-center gap-2 rounded-md border px-2 py-1.5"
+                >
+                  <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab" />
+                  <span className="flex-1 truncate">{song.name}</span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveSong(song.id!, "catalog", "main")}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {catalog.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  Every song is already in your prediction.
+                </p>
+              )}
+            </div>
+          </ScrollArea>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Your prediction</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Main set</h3>
+            {renderRankedList("main", mainSet, "Drag songs here in the order you expect them")}
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Encore</h3>
+            {renderRankedList("encore", encore, "Drag encore songs here")}
+          </div>
+          <Button className="w-full" onClick={submitPrediction} disabled={isSubmitting || mainSet.length === 0}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {userId ? "Save prediction" : "Sign in to predict"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Fan consensus</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {consensus.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No predictions yet. Be the first!
+            </p>
+          ) : (
+            <ol className="space-y-2">
+              {consensus.map(song => (
+                <li key={song.id} className="flex items-center gap-2">
+                  <span className="w-6 text-sm text-muted-foreground">{song.consensus_rank}</span>
+                  <span className="flex-1 truncate">{song.name}</span>
+                  {song.consensus_slot && song.consensus_slot !== "main" && (
+                    <Badge variant="outline">{SLOT_LABELS[song.consensus_slot]}</Badge>
+                  )}
+                  <span className="text-xs text-muted-foreground">{song.consensus_score} pts</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 // import Image from "next/image"; // Removed unused import
 import { toast } from "sonner";
 import { Heart } from "lucide-react";
@@ -8,168 +8,150 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 // import { useRouter } from "next/navigation"; // Removed unused import
 import { cn } from "@/lib/utils";
-import { supabase } from "@/integrations/supabase/client"; // Keep for RPC call
+import { supabase } from "@/integrations/supabase/client";
+import { getVoteHeaders, submitVote } from "@/lib/api/database/votes";
 import { Song } from "@/lib/types"; // Import the main Song type
 
-// Remove SetlistSong and Setlist interfaces
-// interface SetlistSong { ... }
-// interface Setlist { ... }
-
 interface Props {
   showId: string;
-  artistSongs: Song[]; // Accept the full artist song catalog
-  setlistId: string; // Re-add the prop as it's being used by parent component
+  artistSongs: Song[]; // The artist's catalog, for previews of the setlist's songs
+  setlistId: string;
+}
+
+// A song on the show's setlist. Votes go through /api/vote against the
+// setlist_songs id, like every other vote.
+interface RequestedSong {
+  id: string;
+  name: string;
+  votes: number;
+  preview_url: string | null;
 }
 
-// Update component signature
+const byVotes = (a: RequestedSong, b: RequestedSong) => b.votes - a.votes;
+
 export function SetlistSongRequests({ showId, artistSongs, setlistId }: Props) {
-  // const router = useRouter(); // Removed unused variable
   const [votedSongs, setVotedSongs] = useState<Record<string, boolean>>({});
-  // Use artistSongs for the display list, but fetch actual vote counts from the database
-  const [songs, setSongs] = useState<(Song & { votes: number })[]>(
-    artistSongs.map(song => ({ ...song, votes: 0 })) || [] // Initialize with 0, will update with real counts
-  );
-  
-  // Fetch real vote counts when component mounts
+  const [songs, setSongs] = useState<RequestedSong[]>([]);
+  const [votingInProgress, setVotingInProgress] = useState<Record<string, boolean>>({});
+
+  // Load the setlist's songs with their current tallies
+  const fetchSongs = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('setlist_songs')
+      .select('id, song_id, name, vote_count')
+      .eq('setlist_id', setlistId);
+
+    if (error) {
+      console.error('Error fetching setlist songs:', error);
+      return;
+    }
+
+    const previews = new Map(artistSongs.map(song => [song.id, song.preview_url ?? null]));
+    setSongs(
+      (data || [])
+        .map(row => ({
+          id: row.id,
+          name: row.name,
+          votes: row.vote_count ?? 0,
+          preview_url: row.song_id ? previews.get(row.song_id) ?? null : null
+        }))
+        .sort(byVotes)
+    );
+  }, [setlistId, artistSongs]);
+
   useEffect(() => {
-    const fetchVoteCounts = async () => {
-      if (!showId || !artistSongs.length) return;
-      
-      try {
-        // Get count of votes for each song at this show
-        const { data, error } = await supabase
-          .from('votes')
-          .select('song_id, count')
-          .eq('show_id', showId)
-          .select('song_id, count(*)', { count: 'exact' })
-          .groupBy('song_id');
-          
-        if (error) {
-          console.error('Error fetching vote counts:', error);
-          return;
-        }
-        
-        if (data && data.length) {
-          // Convert to a map of song_id -> vote count for easier lookup
-          const voteCounts = data.reduce((acc, item) => {
-            acc[item.song_id] = parseInt(item.count);
-            return acc;
-          }, {} as Record<string, number>);
-          
-          // Update song votes with real counts
-          setSongs(currentSongs => 
-            currentSongs.map(song => ({
-              ...song,
-              votes: voteCounts[song.id!] || 0
-            }))
-            // Sort by vote count, highest first
-            .sort((a, b) => (b.votes || 0) - (a.votes || 0))
-          );
-        }
-      } catch (error) {
-        console.error('Error processing vote counts:', error);
-      }
-    };
-    
-    fetchVoteCounts();
-    
-    // Optional: Setup real-time subscription for vote updates
+    if (!setlistId) return;
+
+    fetchSongs();
+
+    // Refetch when anyone's vote changes a tally
     const voteSubscription = supabase
-      .channel('votes-changes')
-      .on('postgres_changes', 
-        { event: '*', schema: 'public', table: 'votes', filter: `show_id=eq.${showId}` },
+      .channel(`setlist-songs-${setlistId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'setlist_songs', filter: `setlist_id=eq.${setlistId}` },
         () => {
-          // When votes change, refetch the counts
-          fetchVoteCounts();
+          fetchSongs();
         }
       )
       .subscribe();
-      
+
     return () => {
-      // Clean up subscription on unmount
       voteSubscription.unsubscribe();
     };
-  }, [showId, artistSongs]);
-  const [votingInProgress, setVotingInProgress] = useState<Record<string, boolean>>({});
+  }, [setlistId, fetchSongs]);
+
+  // Restore the visitor's anonymous votes for the show, which /api/vote
+  // tracks against the session cookie
+  useEffect(() => {
+    const loadVotes = async () => {
+      try {
+        const response = await fetch(`/api/vote?showId=${encodeURIComponent(showId)}`, {
+          headers: await getVoteHeaders(),
+          credentials: 'same-origin'
+        });
+        if (!response.ok) return;
+
+        const status = await response.json();
+        if (!status.anonymous) return;
+
+        setVotedSongs(Object.fromEntries(status.votedSongIds.map((songId: string) => [songId, true])));
+      } catch (error) {
+        console.error("Error loading votes:", error);
+      }
+    };
+
+    loadVotes();
+  }, [showId]);
 
-  // Function to vote for a song using the RPC function
-  const voteSong = async (songId: string | undefined) => {
-    // Ensure songId is defined and not already voted/in progress
-    if (!songId || votedSongs[songId] || votingInProgress[songId]) {
+  const voteSong = async (songId: string) => {
+    if (votedSongs[songId] || votingInProgress[songId]) {
       return;
     }
 
     setVotingInProgress(prev => ({ ...prev, [songId]: true }));
 
     try {
-      // Call the RPC function
-      const { data: voteAdded, error } = await supabase
-        .rpc('add_vote', { p_song_id: songId, p_show_id: showId });
+      const result = await submitVote(songId);
 
-      if (error) {
-        console.error(`Error calling add_vote RPC:`, error);
-        throw new Error(error.message || "Failed to add vote");
+      if (!result.ok) {
+        toast.error(result.error || "Failed to register vote");
+        return;
       }
 
-      if (voteAdded) {
-        // Vote was successfully added (not a duplicate)
-        // Update local state optimistically
+      setVotedSongs(prev => ({ ...prev, [songId]: true }));
+
+      // Take the server's tally
+      const voteCount = result.voteCount;
+      if (voteCount !== null) {
         setSongs(currentSongs =>
-          currentSongs.map(song =>
-            song.id === songId
-              ? { ...song, votes: (song.votes || 0) + 1 }
-              : song
-          ).sort((a, b) => (b.votes || 0) - (a.votes || 0))
+          currentSongs.map(song => song.id === songId ? { ...song, votes: voteCount } : song).sort(byVotes)
         );
+      }
 
-        // Mark song as voted locally and in localStorage
-        setVotedSongs(prev => ({ ...prev, [songId!]: true })); // Use non-null assertion as we checked earlier
-        const storedVotes = JSON.parse(localStorage.getItem(`voted_${showId}`) || '{}');
-        localStorage.setItem(`voted_${showId}`, JSON.stringify({
-          ...storedVotes,
-          [songId!]: true // Use non-null assertion
-        }));
-
-        toast.success("Vote registered!");
-      } else {
-        // Vote already existed or RPC returned false
+      if (result.status === 'unchanged') {
         toast.info("You've already voted for this song.");
-        // Ensure local state reflects voted status even if RPC returned false (e.g., page refresh)
-        if (!votedSongs[songId]) {
-           setVotedSongs(prev => ({ ...prev, [songId!]: true }));
-        }
+      } else {
+        toast.success("Vote registered!");
       }
-
     } catch (error) {
       console.error("Error voting for song:", error);
       toast.error("Failed to register vote");
     } finally {
-      setVotingInProgress(prev => ({ ...prev, [songId!]: false })); // Use non-null assertion
+      setVotingInProgress(prev => ({ ...prev, [songId]: false }));
     }
   };
 
-  // Correctly placed useEffect hook
-  useEffect(() => {
-    try {
-      const storedVotes = JSON.parse(localStorage.getItem(`voted_${showId}`) || '{}');
-      setVotedSongs(storedVotes);
-    } catch (e) {
-      console.error("Error loading votes from localStorage:", e);
-    }
-  }, [showId]);
-
   return (
     <div className="space-y-4">
       {songs.length === 0 ? (
         <Card>
           <CardContent className="p-6 flex flex-col items-center justify-center">
             <p className="text-center text-muted-foreground">
-              No songs found for this artist. Ensure the catalog has been imported.
+              No songs on this setlist yet. Ensure the catalog has been imported.
             </p>
           </CardContent>
         </Card>
       ) : (
-        // Use the 'songs' state derived from artistSongs
         songs.map((song) => (
           <Card key={song.id} className="overflow-hidden">
             <CardContent className="p-0">
@@ -203,18 +185,15 @@ export function SetlistSongRequests({ showId, artistSongs, setlistId }: Props) {
                   size="icon"
                   className={cn(
                     "flex items-center justify-center ml-2",
-                    // Use non-null assertion for song.id as key
-                    votedSongs[song.id!] && "text-red-500"
+                    votedSongs[song.id] && "text-red-500"
                   )}
-                  // Use non-null assertion for song.id as key/argument
-                  disabled={votedSongs[song.id!] || votingInProgress[song.id!]}
-                  onClick={() => voteSong(song.id)} // Pass potentially undefined id, handled in voteSong
+                  disabled={votedSongs[song.id] || votingInProgress[song.id]}
+                  onClick={() => voteSong(song.id)}
                 >
                   <Heart
                     className={cn(
                       "h-5 w-5",
-                      // Use non-null assertion for song.id as key
-                      votedSongs[song.id!] && "fill-current"
+                      votedSongs[song.id] && "fill-current"
                     )}
                   />
                   {/* Display vote count from state */}
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ListMusic } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { getLikelySetlist, LikelySetlistSong } from '@/lib/api/database/tours';
+
+interface LikelySetlistProps {
+  showId: string;
+}
+
+const formatPercent = (value: number) => `${Math.round(Number(value) * 100)}%`;
+
+/**
+ * Baseline setlist for an upcoming show, built from what the artist has
+ * played on this tour so far. Renders nothing when there is no baseline.
+ */
+const LikelySetlist = ({ showId }: LikelySetlistProps) => {
+  const [songs, setSongs] = useState<LikelySetlistSong[]>([]);
+
+  useEffect(() => {
+    if (!showId) return;
+
+    getLikelySetlist(showId).then(setSongs);
+  }, [showId]);
+
+  if (songs.length === 0) return null;
+
+  const { tour_id: tourId, tour_name: tourName } = songs[0];
+  const mainSet = songs.filter(song => !song.is_encore);
+  const encore = songs.filter(song => song.is_encore);
+
+  const renderSongs = (list: LikelySetlistSong[]) => (
+    <ol className="space-y-1.5 text-sm">
+      {list.map(song => (
+        <li key={song.position} className="flex items-center gap-3">
+          <span className="w-6 text-right text-muted-foreground">{song.position}</span>
+          <span className="flex-1 truncate">{song.name}</span>
+          <span className="text-muted-foreground">{formatPercent(song.play_rate)}</span>
+        </li>
+      ))}
+    </ol>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl font-bold flex items-center gap-2">
+          <ListMusic className="h-5 w-5 text-muted-foreground" />
+          Likely Setlist
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Based on every night of{' '}
+          <Link to={`/tours/${tourId}`} className="text-primary hover:underline">{tourName}</Link>
+          {' '}so far, with how often each song was played
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {renderSongs(mainSet)}
+        {encore.length > 0 && (
+          <div>
+            <div className="text-xs uppercase tracking-wide text-muted-foreground mb-2">Encore</div>
+            {renderSongs(encore)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LikelySetlist;
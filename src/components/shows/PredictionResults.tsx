@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { Target, Trophy, Users } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import {
+  getShowPredictionResults,
+  PredictionScore,
+  ShowCrowdScore
+} from '@/lib/api/database/predictions';
+
+interface PredictionResultsProps {
+  showId: string;
+  userId?: string | null;
+}
+
+const formatPercent = (value: number | null | undefined) =>
+  `${Math.round(Number(value ?? 0) * 100)}%`;
+
+/**
+ * Post-show results: how close the crowd and each predictor came to the
+ * setlist that was actually played. Renders nothing until the show is scored.
+ */
+const PredictionResults = ({ showId, userId }: PredictionResultsProps) => {
+  const [crowd, setCrowd] = useState<ShowCrowdScore | null>(null);
+  const [scores, setScores] = useState<PredictionScore[]>([]);
+
+  useEffect(() => {
+    if (!showId) return;
+
+    getShowPredictionResults(showId).then(results => {
+      setCrowd(results.crowd);
+      setScores(results.scores);
+    });
+  }, [showId]);
+
+  if (!crowd) return null;
+
+  const userRank = userId ? scores.findIndex(score => score.user_id === userId) : -1;
+  const userScore = userRank >= 0 ? scores[userRank] : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-xl font-bold flex items-center gap-2">
+          <Target className="h-5 w-5 text-muted-foreground" />
+          Prediction Results
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div>
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="text-muted-foreground">Fan-voted setlist accuracy</span>
+            <span className="font-medium">
+              {crowd.voted_hits}/{crowd.songs_played} · {formatPercent(crowd.voted_accuracy)}
+            </span>
+          </div>
+          <Progress value={Number(crowd.voted_accuracy) * 100} />
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="text-muted-foreground">Ranked consensus accuracy</span>
+            <span className="font-medium">
+              {crowd.consensus_hits}/{crowd.songs_played} · {formatPercent(crowd.consensus_accuracy)}
+            </span>
+          </div>
+          <Progress value={Number(crowd.consensus_accuracy) * 100} />
+        </div>
+
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Users className="h-4 w-4" />
+          {crowd.predictions_scored} predictions scored
+          {crowd.average_user_accuracy !== null && (
+            <> · average accuracy {formatPercent(crowd.average_user_accuracy)}</>
+          )}
+        </div>
+
+        {userScore && (
+          <div className="rounded-lg border p-4 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-medium flex items-center gap-2">
+                <Trophy className="h-4 w-4 text-muted-foreground" />
+                Your prediction
+              </span>
+              <span className="text-sm text-muted-foreground">
+                #{userRank + 1} of {scores.length}
+              </span>
+            </div>
+            <div className="text-2xl font-bold">{userScore.total_score} pts</div>
+            <p className="text-sm text-muted-foreground">
+              {userScore.songs_hit} of {userScore.songs_predicted} songs played ({formatPercent(userScore.accuracy)} accuracy),
+              {' '}{userScore.position_points} position points,
+              {' '}{userScore.opener_bonus + userScore.closer_bonus + userScore.encore_bonus} bonus points,
+              {' '}-{userScore.miss_penalty} for misses
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PredictionResults;
@@ -4,6 +4,7 @@ import { Users, Info } from 'lucide-react';
 import { CardTitle, CardDescription } from '@/components/ui/card';
 import { TooltipProvider, Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
 import ShareSetlistButton from '@/components/setlist/ShareSetlistButton';
+import SavePlaylistButton from '@/components/setlist/SavePlaylistButton';
 
 interface SetlistHeaderProps {
   isConnected: boolean;
@@ -40,6 +41,12 @@ const SetlistHeader = ({ isConnected, totalVotes, showId, showName, artistName }
           </Tooltip>
         </TooltipProvider>
         
+        <SavePlaylistButton
+          showId={showId}
+          showName={showName}
+          artistName={artistName}
+        />
+        
         <ShareSetlistButton 
           showId={showId}
           showName={showName}
@@ -38,6 +38,7 @@ interface SetlistSectionProps {
   setSelectedTrack?: (trackId: string) => void;
   handleAddSong?: () => void;
   anonymousVoteCount?: number;
+  votingOpen?: boolean;
 }
 
 const SetlistSection: React.FC<SetlistSectionProps> = ({ 
@@ -53,7 +54,8 @@ const SetlistSection: React.FC<SetlistSectionProps> = ({
   selectedTrack = '',
   setSelectedTrack = () => {},
   handleAddSong = () => {},
-  anonymousVoteCount = 0
+  anonymousVoteCount = 0,
+  votingOpen = true
 }) => {
   const { isAuthenticated, login } = useAuth();
   
@@ -101,9 +103,10 @@ const SetlistSection: React.FC<SetlistSectionProps> = ({
                       isAuthenticated={isAuthenticated}
                       login={login}
                       anonymousVoteCount={anonymousVoteCount}
+                      votingOpen={votingOpen}
                     />
                     
-                    {!isAuthenticated && anonymousVoteCount >= 3 && (
+                    {votingOpen && !isAuthenticated && anonymousVoteCount >= 3 && (
                       <div className="p-4 mx-4 mb-4 mt-2">
                         <Alert variant="default" className="bg-white/5 border-white/10">
                           <AlertCircle className="h-4 w-4 text-white/70" />
@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/hooks/use-auth';
 import { supabase } from '@/integrations/supabase/client';
-import { addVoteToSong, getSetlistWithVotes } from '@/lib/api/database/votes';
+import { getSetlistWithVotes, submitVote } from '@/lib/api/database/votes';
 import { toast } from 'sonner';
 
 interface Song {
@@ -104,16 +104,21 @@ export default function SetlistTable({ setlistId, showTitle }: SetlistTableProps
     
     try {
       // Call the voting API
-      const result = await addVoteToSong(songId, user.id);
+      const result = await submitVote(songId);
       
-      if (!result.success) {
+      if (!result.ok) {
         // Revert optimistic update if failed
-        toast.error(result.message || 'Failed to record vote');
+        toast.error(result.error || 'Failed to record vote');
         
         // Refresh setlist to ensure accurate state
         const refreshedSongs = await getSetlistWithVotes(setlistId, user.id);
         setSongs(refreshedSongs);
       } else {
+        // Take the server's tally over the optimistic one
+        setSongs(currentSongs =>
+          currentSongs.map(s => s.id === songId ? { ...s, votes: result.voteCount ?? s.votes } : s)
+            .sort((a, b) => b.votes - a.votes)
+        );
         toast.success('Vote recorded!');
       }
     } catch (error) {
@@ -1,8 +1,10 @@
 
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { ArrowLeft, Calendar, MapPin, ExternalLink } from 'lucide-react';
+import { ArrowLeft, Calendar, Clock, MapPin, ExternalLink, Tent } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { useShowLifecycle } from '@/hooks/use-show-lifecycle';
+import { formatCountdown, SHOW_LIFECYCLE_LABELS } from '@/lib/show-lifecycle';
 
 interface ShowHeaderProps {
   show: {
@@ -11,6 +13,21 @@ interface ShowHeaderProps {
     date: string;
     image_url?: string;
     ticket_url?: string;
+    lifecycle_state?: string | null;
+    voting_opens_at?: string | null;
+    voting_locks_at?: string | null;
+    stage?: string | null;
+    set_starts_at?: string | null;
+    // The festival or residency this is a performance in
+    event?: {
+      id: string;
+      name: string;
+      kind: string;
+    } | null;
+    tour?: {
+      id: string;
+      name: string;
+    } | null;
     artist?: {
       id: string;
       name: string;
@@ -24,6 +41,10 @@ interface ShowHeaderProps {
 }
 
 const ShowHeader: React.FC<ShowHeaderProps> = ({ show }) => {
+  const { state, countdown } = useShowLifecycle(show);
+  // Shows loaded without their voting window fall back to upcoming/past
+  const hasLifecycle = Boolean(show.lifecycle_state || show.voting_locks_at);
+
   // Format date for display with proper error handling
   const formatDate = (dateString: string | null | undefined) => {
     if (!dateString) return 'Date TBD';
@@ -101,18 +122,37 @@ const ShowHeader: React.FC<ShowHeaderProps> = ({ show }) => {
           
           <div className="mb-3">
             <span className="inline-block bg-white/20 text-white text-xs px-3 py-1 rounded-full">
-              {show.date && new Date(show.date) > new Date() ? 'Upcoming' : 'Past'}
+              {hasLifecycle
+                ? SHOW_LIFECYCLE_LABELS[state]
+                : show.date && new Date(show.date) > new Date() ? 'Upcoming' : 'Past'}
             </span>
           </div>
           
           <h1 className="text-3xl md:text-4xl lg:text-5xl font-bold text-white mb-2">{show.artist?.name}</h1>
           
-          {tourName && <p className="text-xl text-white/90 mb-4">{tourName}</p>}
+          {show.tour ? (
+            <Link to={`/tours/${show.tour.id}`} className="block text-xl text-white/90 hover:text-white mb-4 transition-colors">
+              {show.tour.name}
+            </Link>
+          ) : (
+            tourName && <p className="text-xl text-white/90 mb-4">{tourName}</p>
+          )}
+
+          {show.event && (
+            <Link
+              to={`/events/${show.event.id}`}
+              className="inline-flex items-center text-white/80 hover:text-white transition-colors"
+            >
+              <Tent size={18} className="mr-2 text-white/60" />
+              {show.event.kind === 'festival' ? 'Part of' : 'One night of'} {show.event.name}
+              {show.stage && <span className="ml-1">· {show.stage}</span>}
+            </Link>
+          )}
           
           <div className="flex flex-col sm:flex-row sm:items-center gap-4 sm:gap-6 mt-4">
             <div className="flex items-center text-white/80">
               <Calendar size={18} className="mr-2 text-white/60" />
-              {formatDate(show.date)}
+              {formatDate(show.set_starts_at || show.date)}
             </div>
             
             {show.venue && (
@@ -121,6 +161,13 @@ const ShowHeader: React.FC<ShowHeaderProps> = ({ show }) => {
                 {show.venue.name}, {show.venue.city}, {show.venue.state}
               </div>
             )}
+
+            {countdown && (
+              <div className="flex items-center text-white/80">
+                <Clock size={18} className="mr-2 text-white/60" />
+                {countdown.label} <span className="ml-1 font-mono text-white">{formatCountdown(countdown.remainingMs)}</span>
+              </div>
+            )}
           </div>
           
           {show.ticket_url && (
@@ -35,6 +35,7 @@ interface ShowSetlistProps {
   isAuthenticated: boolean;
   login: () => void;
   anonymousVoteCount?: number;
+  votingOpen?: boolean;
 }
 
 const ShowSetlist = ({
@@ -47,7 +48,8 @@ const ShowSetlist = ({
   handleAddSong,
   isAuthenticated,
   login,
-  anonymousVoteCount = 0
+  anonymousVoteCount = 0,
+  votingOpen = true
 }: ShowSetlistProps) => {
   // Optimize rendering with proper memoization
   useEffect(() => {
@@ -100,70 +102,73 @@ const ShowSetlist = ({
   
   return (
     <div className="flex flex-col">
-      {/* Song selection dropdown at the top */}
-      <div className="p-4 border-b border-white/10 mb-2">
-        <div className="flex flex-col gap-3">
-          <p className="text-sm font-medium text-white/80">Add a song to this setlist:</p>
-          <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center">
-            <div className="flex-grow w-full sm:w-auto relative">
-              <Select
-                value={selectedTrack}
-                onValueChange={handleTrackSelect}
-                disabled={isLoadingAllTracks}
+      {/* Song selection dropdown at the top; the setlist is frozen once voting closes */}
+      {votingOpen && (
+        <div className="p-4 border-b border-white/10 mb-2">
+          <div className="flex flex-col gap-3">
+            <p className="text-sm font-medium text-white/80">Add a song to this setlist:</p>
+            <div className="flex flex-col sm:flex-row gap-3 items-start sm:items-center">
+              <div className="flex-grow w-full sm:w-auto relative">
+                <Select
+                  value={selectedTrack}
+                  onValueChange={handleTrackSelect}
+                  disabled={isLoadingAllTracks}
+                >
+                  <SelectTrigger className="w-full bg-black border-white/10 text-white">
+                    <SelectValue placeholder="Select a song" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-[#0A0A0A] border-white/10 text-white z-50 max-h-80">
+                    {isLoadingAllTracks ? (
+                      <div className="flex items-center justify-center py-4 text-white/60">
+                        <RefreshCw className="h-4 w-4 animate-spin mr-2" />
+                        <span>Loading songs...</span>
+                      </div>
+                    ) : noTracksAvailable ? (
+                      <div className="flex flex-col items-center justify-center py-6 px-4">
+                        <Music className="h-8 w-8 text-white/20 mb-2" />
+                        <p className="text-center text-white/60">
+                          No songs available yet. We'll add some default tracks soon!
+                        </p>
+                      </div>
+                    ) : (
+                      sortedTracks.map((track) => (
+                        <SelectItem 
+                          key={track.id} 
+                          value={track.id} 
+                          className="focus:bg-white/10 focus:text-white data-[highlighted]:bg-white/10 data-[highlighted]:text-white"
+                        >
+                          {truncateSongName(track.name)}
+                        </SelectItem>
+                      ))
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button 
+                onClick={handleAddTrack}
+                disabled={isLoadingAllTracks || !availableTracks.length || !selectedTrack}
+                className="mt-2 sm:mt-0 flex-shrink-0 bg-white text-[#0A0A16] hover:bg-white/90" 
+                size="sm"
               >
-                <SelectTrigger className="w-full bg-black border-white/10 text-white">
-                  <SelectValue placeholder="Select a song" />
-                </SelectTrigger>
-                <SelectContent className="bg-[#0A0A0A] border-white/10 text-white z-50 max-h-80">
-                  {isLoadingAllTracks ? (
-                    <div className="flex items-center justify-center py-4 text-white/60">
-                      <RefreshCw className="h-4 w-4 animate-spin mr-2" />
-                      <span>Loading songs...</span>
-                    </div>
-                  ) : noTracksAvailable ? (
-                    <div className="flex flex-col items-center justify-center py-6 px-4">
-                      <Music className="h-8 w-8 text-white/20 mb-2" />
-                      <p className="text-center text-white/60">
-                        No songs available yet. We'll add some default tracks soon!
-                      </p>
-                    </div>
-                  ) : (
-                    sortedTracks.map((track) => (
-                      <SelectItem 
-                        key={track.id} 
-                        value={track.id} 
-                        className="focus:bg-white/10 focus:text-white data-[highlighted]:bg-white/10 data-[highlighted]:text-white"
-                      >
-                        {truncateSongName(track.name)}
-                      </SelectItem>
-                    ))
-                  )}
-                </SelectContent>
-              </Select>
+                <PlusCircle size={16} className="mr-1.5" />
+                Add to Setlist
+              </Button>
             </div>
-            <Button 
-              onClick={handleAddTrack}
-              disabled={isLoadingAllTracks || !availableTracks.length || !selectedTrack}
-              className="mt-2 sm:mt-0 flex-shrink-0 bg-white text-[#0A0A16] hover:bg-white/90" 
-              size="sm"
-            >
-              <PlusCircle size={16} className="mr-1.5" />
-              Add to Setlist
-            </Button>
+            {availableTracks && availableTracks.length > 0 && (
+              <p className="text-xs text-white/40 mt-1">
+                {availableTracks.length} songs available in the catalog
+              </p>
+            )}
           </div>
-          {availableTracks && availableTracks.length > 0 && (
-            <p className="text-xs text-white/40 mt-1">
-              {availableTracks.length} songs available in the catalog
-            </p>
-          )}
         </div>
-      </div>
+      )}
       
       <VotableSetlistTable 
         songs={setlist} 
         onVote={handleVote} 
         className="animate-fade-in"
         anonymousVoteCount={anonymousVoteCount}
+        votingOpen={votingOpen}
       />
     </div>
   );
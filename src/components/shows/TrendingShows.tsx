@@ -5,35 +5,38 @@ import { useQuery } from '@tanstack/react-query';
 import { Calendar, ChevronRight } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
-import { fetchFeaturedShows } from '@/lib/ticketmaster';
+import { fetchTrendingShows } from '@/lib/trending';
 
-const TrendingShows = () => {
+interface TrendingShowsProps {
+  // Narrow the list to a region and/or genre (slug or Ticketmaster genre ID)
+  country?: string | null;
+  state?: string | null;
+  genre?: string | null;
+  genreName?: string | null;
+}
+
+const TrendingShows = ({ country = null, state = null, genre = null, genreName = null }: TrendingShowsProps) => {
   // Fetch trending shows
   const { 
     data: trendingShows = [], 
     isLoading: isTrendingLoading,
   } = useQuery({
-    queryKey: ['trendingShows'],
-    queryFn: () => fetchFeaturedShows(4),
+    queryKey: ['trendingShows', country, state, genre],
+    queryFn: () => fetchTrendingShows({ limit: 4, country, state, genre }),
   });
 
-  // Generate genre badges for trending shows
-  const getShowGenre = (show: any) => {
-    if (show.genre) return show.genre;
-    if (show.artist?.genres?.[0]) return show.artist.genres[0];
-    
-    // Assign a random genre for demo purposes if none exists
-    const genres = ['Pop', 'Rock', 'Hip-hop', 'Latin', 'R&B', 'Country', 'Electronic'];
-    return genres[Math.floor(Math.random() * genres.length)];
-  };
+  const region = [state, country].filter(Boolean).join(', ');
+  const heading = genreName ? `Trending ${genreName} Shows` : 'Trending Shows';
 
   return (
     <section className="px-4 md:px-8 lg:px-12 py-16 bg-black">
       <div className="max-w-7xl mx-auto">
         <div className="flex justify-between items-center mb-6">
           <div>
-            <h2 className="text-2xl font-bold text-white">Trending Shows</h2>
-            <p className="text-sm text-white/70 mt-1">Shows with the most active voting right now</p>
+            <h2 className="text-2xl font-bold text-white">{heading}</h2>
+            <p className="text-sm text-white/70 mt-1">
+              Shows with the most active voting right now{region ? ` in ${region}` : ''}
+            </p>
           </div>
           <Link to="/shows" className="flex items-center text-sm text-white hover:text-white/80">
             View all <ChevronRight size={16} />
@@ -61,9 +64,11 @@ const TrendingShows = () => {
                 </CardContent>
               </Card>
             ))
+          ) : trendingShows.length === 0 ? (
+            <p className="col-span-full text-center py-10 text-white/60">No trending shows found</p>
           ) : (
-            trendingShows.map((show: any) => {
-              const genre = getShowGenre(show);
+            trendingShows.map((show) => {
+              const showGenre = show.artist?.genres?.[0];
               const formattedDate = new Date(show.date).toLocaleDateString('en-US', {
                 month: 'short', 
                 day: 'numeric',
@@ -85,20 +90,13 @@ const TrendingShows = () => {
                           <Calendar className="h-8 w-8 text-white/40" />
                         </div>
                       )}
-                      <Badge 
-                        className="absolute top-3 right-3 bg-black/60 hover:bg-black/60 text-white"
-                      >
-                        {genre}
-                      </Badge>
-                      <div className="absolute bottom-0 inset-x-0 bg-gradient-to-t from-black to-transparent pt-10">
-                        <div className="flex items-center justify-end p-3">
-                          <div className="flex items-center bg-white/10 rounded-full px-2 py-0.5">
-                            <span className="text-white text-xs font-medium">
-                              {Math.floor(Math.random() * 5000) + 1000}
-                            </span>
-                          </div>
-                        </div>
-                      </div>
+                      {showGenre && (
+                        <Badge 
+                          className="absolute top-3 right-3 bg-black/60 hover:bg-black/60 text-white"
+                        >
+                          {showGenre}
+                        </Badge>
+                      )}
                     </div>
                     <CardContent className="p-4">
                       <h3 className="font-bold text-lg mb-1 line-clamp-1">
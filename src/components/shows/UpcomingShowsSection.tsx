@@ -1,23 +1,27 @@
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
-import { ArrowRight, ChevronRight } from 'lucide-react';
+import { ArrowRight, ChevronRight, MapPin } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import ShowCard from '@/components/shows/ShowCard';
 import { fetchShowsByGenre, popularMusicGenres } from '@/lib/ticketmaster';
+import { fetchNearbyShows } from '@/lib/api/shows/nearby-shows';
+import { Coordinates } from '@/lib/geo';
 
 interface UpcomingShowsSectionProps {
   searchQuery: string;
   selectedGenre: string;
   handleGenreChange: (value: string) => void;
   artistParam: string | null;
+  nearby?: { coordinates: Coordinates; radiusKm: number } | null;
 }
 
 const UpcomingShowsSection = ({ 
   searchQuery, 
   selectedGenre, 
   handleGenreChange,
-  artistParam 
+  artistParam,
+  nearby
 }: UpcomingShowsSectionProps) => {
   const [activeGenreFilter, setActiveGenreFilter] = useState('All Genres');
   
@@ -27,10 +31,13 @@ const UpcomingShowsSection = ({
     isLoading: isUpcomingLoading,
     error
   } = useQuery({
-    queryKey: ['upcomingShows', selectedGenre, artistParam],
+    queryKey: ['upcomingShows', selectedGenre, artistParam, nearby],
     queryFn: async () => {
       try {
-        if (artistParam) {
+        if (nearby) {
+          // Nearest shows first, already ordered by the API
+          return fetchNearbyShows(nearby.coordinates, nearby.radiusKm);
+        } else if (artistParam) {
           // Fetch shows for this artist
           const { fetchArtistEvents } = await import('@/lib/ticketmaster');
           return fetchArtistEvents(artistParam);
@@ -70,46 +77,53 @@ const UpcomingShowsSection = ({
       <div className="max-w-7xl mx-auto">
         <div className="flex justify-between items-center mb-6">
           <div>
-            <h2 className="text-2xl font-bold text-white">Upcoming Shows</h2>
-            <p className="text-sm text-white/70 mt-1">Browse and vote on setlists for upcoming concerts</p>
+            <h2 className="text-2xl font-bold text-white">{nearby ? 'Shows Near You' : 'Upcoming Shows'}</h2>
+            <p className="text-sm text-white/70 mt-1">
+              {nearby
+                ? `Upcoming concerts within ${nearby.radiusKm} km, closest first`
+                : 'Browse and vote on setlists for upcoming concerts'}
+            </p>
           </div>
           <Link to="/shows" className="flex items-center text-sm text-white hover:text-white/80">
             View all <ChevronRight size={16} />
           </Link>
         </div>
 
-        <div className="flex gap-2 mb-6 overflow-x-auto pb-2 scrollbar-hide">
-          <button
-            onClick={() => {
-              setActiveGenreFilter('All Genres');
-              handleGenreChange('');
-            }}
-            className={`whitespace-nowrap px-4 py-2 rounded-full text-sm ${
-              activeGenreFilter === 'All Genres'
-                ? 'bg-white text-black font-medium'
-                : 'bg-white/10 text-white hover:bg-white/20'
-            }`}
-          >
-            All Genres
-          </button>
-          
-          {popularMusicGenres.slice(0, 6).map(genre => (
+        {/* Genre filters don't apply to the nearby list */}
+        {!nearby && (
+          <div className="flex gap-2 mb-6 overflow-x-auto pb-2 scrollbar-hide">
             <button
-              key={genre.id}
               onClick={() => {
-                setActiveGenreFilter(genre.name);
-                handleGenreChange(genre.name);
+                setActiveGenreFilter('All Genres');
+                handleGenreChange('');
               }}
               className={`whitespace-nowrap px-4 py-2 rounded-full text-sm ${
-                activeGenreFilter === genre.name
+                activeGenreFilter === 'All Genres'
                   ? 'bg-white text-black font-medium'
                   : 'bg-white/10 text-white hover:bg-white/20'
               }`}
             >
-              {genre.name}
+              All Genres
             </button>
-          ))}
-        </div>
+          
+            {popularMusicGenres.slice(0, 6).map(genre => (
+              <button
+                key={genre.id}
+                onClick={() => {
+                  setActiveGenreFilter(genre.name);
+                  handleGenreChange(genre.name);
+                }}
+                className={`whitespace-nowrap px-4 py-2 rounded-full text-sm ${
+                  activeGenreFilter === genre.name
+                    ? 'bg-white text-black font-medium'
+                    : 'bg-white/10 text-white hover:bg-white/20'
+                }`}
+              >
+                {genre.name}
+              </button>
+            ))}
+          </div>
+        )}
         
         {isUpcomingLoading ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -141,7 +155,15 @@ const UpcomingShowsSection = ({
         ) : filteredShows.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {filteredShows.map((show: any) => (
-              <ShowCard key={show.id} show={show} />
+              <div key={show.id} className="relative">
+                <ShowCard show={show} />
+                {typeof show.distance_km === 'number' && (
+                  <span className="absolute top-3 right-3 flex items-center gap-1 rounded-full bg-black/70 px-2 py-1 text-xs text-white">
+                    <MapPin size={12} />
+                    {show.distance_km < 10 ? show.distance_km.toFixed(1) : Math.round(show.distance_km)} km
+                  </span>
+                )}
+              </div>
             ))}
           </div>
         ) : (
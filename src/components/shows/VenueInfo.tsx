@@ -1,7 +1,9 @@
 import { MapPinIcon } from '@heroicons/react/24/outline';
+import FollowButton from '@/components/follows/FollowButton';
 
 interface VenueProps {
   venue: {
+    id?: string;
     name: string;
     city?: string;
     state?: string;
@@ -21,7 +23,7 @@ export default function VenueInfo({ venue }: VenueProps) {
   return (
     <div className="flex items-start mt-3">
       <MapPinIcon className="h-5 w-5 text-muted-foreground mr-2 mt-0.5" />
-      <div>
+      <div className="flex-1">
         <p className="font-medium">{venue.name}</p>
         {hasLocation && (
           <p className="text-muted-foreground">{locationStr}</p>
@@ -30,6 +32,7 @@ export default function VenueInfo({ venue }: VenueProps) {
           <p className="text-xs text-muted-foreground mt-1">{venue.address}</p>
         )}
       </div>
+      {venue.id && <FollowButton venueId={venue.id} className="ml-3" />}
     </div>
   );
 } 
\ No newline at end of file
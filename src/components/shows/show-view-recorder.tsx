@@ -0,0 +1,20 @@
+"use client";
+
+import { useEffect } from "react";
+import { recordShowView } from "@/lib/api/database/shows";
+
+interface Props {
+  showId: string;
+}
+
+/**
+ * Counts the visit towards the show's trending score. It runs in the browser
+ * so the database sees the visitor's own session and IP, not the server's.
+ */
+export function ShowViewRecorder({ showId }: Props) {
+  useEffect(() => {
+    recordShowView(showId);
+  }, [showId]);
+
+  return null;
+}
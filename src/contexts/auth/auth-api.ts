@@ -98,7 +98,7 @@ export async function loginWithSpotify() {
       provider: 'spotify',
       options: {
         redirectTo: `${window.location.origin}/auth/callback?provider=spotify`,
-        scopes: 'user-read-email user-read-private user-top-read user-follow-read playlist-read-private',
+        scopes: 'user-read-email user-read-private user-top-read user-follow-read playlist-read-private playlist-modify-private playlist-modify-public',
       },
     });
 
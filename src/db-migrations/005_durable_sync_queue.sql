@@ -0,0 +1,364 @@
+-- 005_durable_sync_queue.sql
+-- Turns sync_tasks into the single durable queue shared by SyncManager and the
+-- process-sync-queue edge function. Tasks are claimed under a lease; a lease
+-- that is not completed before it expires makes the task visible again.
+-- Tasks that exhaust max_attempts are moved to the 'dead_letter' status.
+-- A task can depend on other tasks (depends_on), which lets a cascade sync
+-- queue its whole job graph: it is not claimed until they have completed,
+-- and is dead-lettered along with them if one of them is.
+-- The queue is only worked by the service role: SyncQueue on the server and
+-- the process-sync-queue edge function.
+
+ALTER TABLE public.sync_tasks
+  ADD COLUMN IF NOT EXISTS operation TEXT NOT NULL DEFAULT 'refresh',
+  ADD COLUMN IF NOT EXISTS lease_owner TEXT,
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS visible_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS rerun_requested BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS depends_on BIGINT[] NOT NULL DEFAULT '{}'::bigint[];
+
+-- Dedupe on (entity_type, external_id, operation) for live tasks only, so a
+-- completed or dead-lettered task never blocks the same work being re-queued.
+ALTER TABLE public.sync_tasks
+  DROP CONSTRAINT IF EXISTS sync_tasks_source_system_entity_type_external_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_tasks_dedupe
+  ON public.sync_tasks (entity_type, external_id, operation)
+  WHERE status IN ('pending', 'retrying', 'processing');
+
+CREATE INDEX IF NOT EXISTS idx_sync_tasks_claimable
+  ON public.sync_tasks (priority DESC, visible_at ASC)
+  WHERE status IN ('pending', 'retrying');
+
+CREATE INDEX IF NOT EXISTS idx_sync_tasks_depends_on
+  ON public.sync_tasks USING GIN (depends_on)
+  WHERE status IN ('pending', 'retrying');
+
+CREATE INDEX IF NOT EXISTS idx_sync_tasks_lease_expires
+  ON public.sync_tasks (lease_expires_at)
+  WHERE status = 'processing';
+
+-- Enqueue a task, merging into an existing live task with the same key.
+-- The merged task keeps the higher priority, the newest payload and the
+-- dependencies of both. A task
+-- that is already being worked on may have read its data before the change
+-- that caused this enqueue, so it is flagged to run once more when it
+-- finishes instead of the request being absorbed.
+DROP FUNCTION IF EXISTS enqueue_sync_task(TEXT, TEXT, TEXT, INTEGER, JSONB, TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION enqueue_sync_task(
+  p_entity_type TEXT,
+  p_external_id TEXT,
+  p_operation TEXT DEFAULT 'refresh',
+  p_priority INTEGER DEFAULT 0,
+  p_payload JSONB DEFAULT NULL,
+  p_source_system TEXT DEFAULT 'internal',
+  p_max_attempts INTEGER DEFAULT 3,
+  p_depends_on BIGINT[] DEFAULT NULL
+)
+RETURNS SETOF sync_tasks AS $$
+BEGIN
+  RETURN QUERY
+  INSERT INTO sync_tasks (
+    source_system, entity_type, external_id, operation,
+    status, priority, payload, max_attempts, visible_at, depends_on
+  )
+  VALUES (
+    p_source_system, p_entity_type, p_external_id, p_operation,
+    'pending', p_priority, p_payload, p_max_attempts, now(),
+    COALESCE(p_depends_on, '{}'::bigint[])
+  )
+  ON CONFLICT (entity_type, external_id, operation)
+    WHERE status IN ('pending', 'retrying', 'processing')
+  DO UPDATE SET
+    priority = GREATEST(sync_tasks.priority, EXCLUDED.priority),
+    payload = COALESCE(EXCLUDED.payload, sync_tasks.payload),
+    rerun_requested = sync_tasks.rerun_requested OR sync_tasks.status = 'processing',
+    depends_on = ARRAY(
+      SELECT DISTINCT dep FROM unnest(sync_tasks.depends_on || EXCLUDED.depends_on) AS dep
+      WHERE dep <> sync_tasks.id
+    ),
+    updated_at = now()
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Dead-letter every pending task that waits, directly or through another
+-- task, on one that was dead-lettered, since it can never be claimed.
+-- Returns the number of tasks blocked.
+CREATE OR REPLACE FUNCTION dead_letter_sync_dependents(item_id BIGINT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_blocked INTEGER;
+BEGIN
+  WITH RECURSIVE blocked AS (
+    SELECT t.id, item_id AS blocked_by
+    FROM sync_tasks t
+    WHERE item_id = ANY(t.depends_on)
+      AND t.status IN ('pending', 'retrying')
+    UNION
+    SELECT t.id, b.id
+    FROM sync_tasks t
+    JOIN blocked b ON b.id = ANY(t.depends_on)
+    WHERE t.status IN ('pending', 'retrying')
+  )
+  UPDATE sync_tasks t
+  SET
+    status = 'dead_letter',
+    dead_lettered_at = now(),
+    error_log = COALESCE(t.error_log, '[]'::jsonb) || jsonb_build_array(
+      jsonb_build_object('message', 'Blocked by dead-lettered task ' || b.blocked_by, 'timestamp', now())
+    ),
+    updated_at = now()
+  FROM (SELECT DISTINCT ON (id) id, blocked_by FROM blocked ORDER BY id, blocked_by) b
+  WHERE t.id = b.id;
+
+  GET DIAGNOSTICS v_blocked = ROW_COUNT;
+  RETURN v_blocked;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Claim the next visible task under a lease. Tasks whose lease has expired
+-- are reclaimed; if such a task is already out of attempts it is
+-- dead-lettered instead of being handed out again, unless a rerun was
+-- requested, which gets a fresh attempt budget. p_operations limits the
+-- claim to the operations a worker knows how to run.
+DROP FUNCTION IF EXISTS claim_next_sync_item();
+DROP FUNCTION IF EXISTS claim_next_sync_item(TEXT, INTEGER);
+
+CREATE OR REPLACE FUNCTION claim_next_sync_item(
+  p_worker_id TEXT DEFAULT NULL,
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_operations TEXT[] DEFAULT NULL
+)
+RETURNS SETOF sync_tasks AS $$
+DECLARE
+  next_item sync_tasks;
+BEGIN
+  LOOP
+    SELECT * INTO next_item
+    FROM sync_tasks t
+    WHERE ((t.status IN ('pending', 'retrying') AND t.visible_at <= now()
+            AND NOT EXISTS (
+              SELECT 1 FROM sync_tasks dep
+              WHERE dep.id = ANY(t.depends_on)
+                AND dep.status <> 'completed'
+            ))
+       OR (t.status = 'processing' AND t.lease_expires_at < now()))
+      AND (p_operations IS NULL OR t.operation = ANY(p_operations))
+    ORDER BY
+      t.priority DESC, -- Higher number = higher priority
+      t.visible_at ASC,
+      t.created_at ASC
+    LIMIT 1
+    FOR UPDATE OF t SKIP LOCKED;
+
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+
+    IF next_item.status = 'processing'
+       AND next_item.attempts >= next_item.max_attempts
+       AND NOT next_item.rerun_requested THEN
+      UPDATE sync_tasks
+      SET
+        status = 'dead_letter',
+        dead_lettered_at = now(),
+        lease_owner = NULL,
+        lease_expires_at = NULL,
+        error_log = COALESCE(error_log, '[]'::jsonb) || jsonb_build_array(
+          jsonb_build_object('message', 'Lease expired on final attempt', 'timestamp', now())
+        ),
+        updated_at = now()
+      WHERE id = next_item.id;
+      PERFORM dead_letter_sync_dependents(next_item.id);
+      CONTINUE;
+    END IF;
+
+    UPDATE sync_tasks
+    SET
+      status = 'processing',
+      attempts = CASE WHEN status = 'processing' AND rerun_requested THEN 1 ELSE attempts + 1 END,
+      rerun_requested = CASE WHEN status = 'processing' THEN false ELSE rerun_requested END,
+      lease_owner = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      processing_started_at = now(),
+      last_attempt_at = now(),
+      updated_at = now()
+    WHERE id = next_item.id
+    RETURNING * INTO next_item;
+
+    RETURN NEXT next_item;
+    RETURN;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Extend the lease on a task that is still being worked on
+CREATE OR REPLACE FUNCTION extend_sync_lease(
+  item_id BIGINT,
+  p_worker_id TEXT DEFAULT NULL,
+  p_lease_seconds INTEGER DEFAULT 300
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE sync_tasks
+  SET
+    lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+    updated_at = now()
+  WHERE id = item_id
+    AND status = 'processing'
+    AND (p_worker_id IS NULL OR lease_owner = p_worker_id);
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Complete a task. A task that was re-enqueued while it ran goes back to
+-- pending with a fresh attempt budget instead.
+DROP FUNCTION IF EXISTS complete_sync_item(BIGINT);
+
+CREATE OR REPLACE FUNCTION complete_sync_item(
+  item_id BIGINT,
+  p_worker_id TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE sync_tasks
+  SET
+    status = CASE WHEN rerun_requested THEN 'pending' ELSE 'completed' END,
+    completed_at = CASE WHEN rerun_requested THEN NULL ELSE now() END,
+    attempts = CASE WHEN rerun_requested THEN 0 ELSE attempts END,
+    visible_at = CASE WHEN rerun_requested THEN now() ELSE visible_at END,
+    rerun_requested = false,
+    lease_owner = NULL,
+    lease_expires_at = NULL,
+    updated_at = now()
+  WHERE id = item_id
+    AND status = 'processing'
+    AND (p_worker_id IS NULL OR lease_owner = p_worker_id);
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Record a failed attempt. Retries are hidden for an exponential backoff
+-- (30s, 60s, 120s, ...); once max_attempts is reached the task is
+-- dead-lettered, unless a rerun was requested while it ran, in which case it
+-- goes back to pending with a fresh attempt budget. Returns the task's new
+-- status.
+DROP FUNCTION IF EXISTS fail_sync_item(BIGINT, TEXT);
+
+CREATE OR REPLACE FUNCTION fail_sync_item(
+  item_id BIGINT,
+  error_message TEXT,
+  p_worker_id TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_attempts INT;
+  v_max_attempts INT;
+  v_rerun_requested BOOLEAN;
+  v_status TEXT;
+BEGIN
+  SELECT attempts, max_attempts, rerun_requested INTO v_attempts, v_max_attempts, v_rerun_requested
+  FROM sync_tasks
+  WHERE id = item_id
+    AND status = 'processing'
+    AND (p_worker_id IS NULL OR lease_owner = p_worker_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_status := CASE
+    WHEN v_rerun_requested THEN 'pending'
+    WHEN v_attempts >= v_max_attempts THEN 'dead_letter'
+    ELSE 'retrying'
+  END;
+
+  UPDATE sync_tasks
+  SET
+    status = v_status,
+    attempts = CASE WHEN v_status = 'pending' THEN 0 ELSE attempts END,
+    rerun_requested = false,
+    visible_at = CASE
+      WHEN v_status = 'pending' THEN now()
+      WHEN v_status = 'retrying' THEN now() + make_interval(secs => 30 * power(2, v_attempts - 1))
+      ELSE visible_at
+    END,
+    dead_lettered_at = CASE WHEN v_status = 'dead_letter' THEN now() ELSE NULL END,
+    lease_owner = NULL,
+    lease_expires_at = NULL,
+    error_log = COALESCE(error_log, '[]'::jsonb) || jsonb_build_array(
+      jsonb_build_object('message', error_message, 'attempt', v_attempts, 'timestamp', now())
+    ),
+    updated_at = now()
+  WHERE id = item_id;
+
+  IF v_status = 'dead_letter' THEN
+    PERFORM dead_letter_sync_dependents(item_id);
+  END IF;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Put a dead-lettered task back on the queue with a fresh attempt budget.
+-- Returns false without touching the task if the same work has been queued
+-- again since, which already covers it.
+CREATE OR REPLACE FUNCTION requeue_dead_letter_sync_item(item_id BIGINT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_item sync_tasks;
+BEGIN
+  SELECT * INTO v_item
+  FROM sync_tasks
+  WHERE id = item_id
+    AND status = 'dead_letter'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM sync_tasks
+    WHERE entity_type = v_item.entity_type
+      AND external_id = v_item.external_id
+      AND operation = v_item.operation
+      AND status IN ('pending', 'retrying', 'processing')
+  ) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE sync_tasks
+  SET
+    status = 'pending',
+    attempts = 0,
+    visible_at = now(),
+    dead_lettered_at = NULL,
+    updated_at = now()
+  WHERE id = item_id
+    AND status = 'dead_letter';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.enqueue_sync_task TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_next_sync_item TO service_role;
+GRANT EXECUTE ON FUNCTION public.extend_sync_lease TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_sync_item TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_sync_item TO service_role;
+GRANT EXECUTE ON FUNCTION public.requeue_dead_letter_sync_item TO service_role;
+GRANT EXECUTE ON FUNCTION public.dead_letter_sync_dependents TO service_role;
+REVOKE EXECUTE ON FUNCTION public.enqueue_sync_task FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_next_sync_item FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.extend_sync_lease FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_sync_item FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_sync_item FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.requeue_dead_letter_sync_item FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.dead_letter_sync_dependents FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,59 @@
+-- 006_sync_operation_tree.sql
+-- Turns sync_operations.parent_task into a real parent/child tree so that a
+-- cascade sync (show -> artist/venue -> setlist/songs) can be rendered as a
+-- job graph. depends_on records the sibling operations a job waited on.
+
+CREATE TABLE IF NOT EXISTS public.sync_operations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  task TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  parent_task UUID,
+  priority TEXT NOT NULL DEFAULT 'medium',
+  status TEXT NOT NULL DEFAULT 'pending',
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  error TEXT
+);
+
+-- Older rows stored free-text parents such as 'sync-show:<tm id>'; only keep
+-- values that actually reference another operation.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'sync_operations'
+      AND column_name = 'parent_task'
+      AND data_type <> 'uuid'
+  ) THEN
+    ALTER TABLE public.sync_operations
+      ALTER COLUMN parent_task TYPE UUID
+      USING (
+        CASE
+          WHEN parent_task ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+          THEN parent_task::uuid
+          ELSE NULL
+        END
+      );
+  END IF;
+END
+$$;
+
+UPDATE public.sync_operations child
+SET parent_task = NULL
+WHERE parent_task IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.sync_operations parent WHERE parent.id = child.parent_task);
+
+ALTER TABLE public.sync_operations
+  DROP CONSTRAINT IF EXISTS sync_operations_parent_task_fkey;
+
+ALTER TABLE public.sync_operations
+  ADD CONSTRAINT sync_operations_parent_task_fkey
+  FOREIGN KEY (parent_task) REFERENCES public.sync_operations(id) ON DELETE CASCADE;
+
+ALTER TABLE public.sync_operations
+  ADD COLUMN IF NOT EXISTS depends_on UUID[] NOT NULL DEFAULT '{}'::uuid[];
+
+CREATE INDEX IF NOT EXISTS idx_sync_operations_parent_task ON public.sync_operations(parent_task);
+CREATE INDEX IF NOT EXISTS idx_sync_operations_started_at ON public.sync_operations(started_at DESC);
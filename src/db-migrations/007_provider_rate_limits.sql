@@ -0,0 +1,186 @@
+-- 007_provider_rate_limits.sql
+-- One token bucket per upstream provider, shared by every server-side caller
+-- (Next.js route workers and the Deno edge functions) so the combined request
+-- rate stays within each provider's budget. Only the service role may take
+-- tokens or report throttles; the browser paces itself locally.
+-- A 429 from a provider closes its bucket until the Retry-After time (at most
+-- 5 minutes), or for an exponential backoff when the provider does not send
+-- one.
+
+CREATE TABLE IF NOT EXISTS public.provider_rate_limits (
+  provider TEXT PRIMARY KEY,
+  capacity NUMERIC NOT NULL,
+  refill_per_second NUMERIC NOT NULL,
+  tokens NUMERIC NOT NULL,
+  refilled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  blocked_until TIMESTAMP WITH TIME ZONE,
+  consecutive_throttles INTEGER NOT NULL DEFAULT 0,
+  last_throttled_at TIMESTAMP WITH TIME ZONE,
+  requests_granted BIGINT NOT NULL DEFAULT 0,
+  requests_throttled BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.provider_rate_limits (provider, capacity, refill_per_second, tokens)
+VALUES
+  ('ticketmaster', 5, 5, 5),    -- 5 requests per second
+  ('spotify', 30, 0.5, 30),     -- 30 requests per minute
+  ('setlistfm', 2, 2, 2)        -- 2 requests per second
+ON CONFLICT (provider) DO NOTHING;
+
+ALTER TABLE public.provider_rate_limits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read provider rate limits" ON public.provider_rate_limits;
+CREATE POLICY "Anyone can read provider rate limits"
+  ON public.provider_rate_limits FOR SELECT
+  USING (true);
+
+-- Take tokens from a provider's bucket.
+-- Returns granted = false with the number of ms to wait when the bucket is
+-- empty or the provider is backing off; callers sleep and try again.
+-- p_tokens must be positive and fit in the bucket, or it could never be
+-- granted (or would refill the bucket).
+CREATE OR REPLACE FUNCTION acquire_rate_limit_token(
+  p_provider TEXT,
+  p_tokens NUMERIC DEFAULT 1
+)
+RETURNS TABLE (granted BOOLEAN, wait_ms INTEGER, tokens_remaining NUMERIC) AS $$
+DECLARE
+  bucket provider_rate_limits%ROWTYPE;
+  available NUMERIC;
+BEGIN
+  IF p_tokens IS NULL OR p_tokens <= 0 THEN
+    RAISE EXCEPTION 'p_tokens must be positive, got %', p_tokens;
+  END IF;
+
+  SELECT * INTO bucket
+  FROM provider_rate_limits
+  WHERE provider = p_provider
+  FOR UPDATE;
+
+  -- Unknown providers are not limited
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT true, 0, NULL::NUMERIC;
+    RETURN;
+  END IF;
+
+  IF p_tokens > bucket.capacity THEN
+    RAISE EXCEPTION 'Cannot take % tokens from the % bucket, which holds %', p_tokens, p_provider, bucket.capacity;
+  END IF;
+
+  IF bucket.blocked_until IS NOT NULL AND bucket.blocked_until > now() THEN
+    RETURN QUERY SELECT
+      false,
+      CEIL(EXTRACT(EPOCH FROM (bucket.blocked_until - now())) * 1000)::INTEGER,
+      bucket.tokens;
+    RETURN;
+  END IF;
+
+  available := LEAST(
+    bucket.capacity,
+    bucket.tokens + EXTRACT(EPOCH FROM (now() - bucket.refilled_at)) * bucket.refill_per_second
+  );
+
+  IF available >= p_tokens THEN
+    UPDATE provider_rate_limits
+    SET tokens = available - p_tokens,
+        refilled_at = now(),
+        requests_granted = requests_granted + 1,
+        updated_at = now()
+    WHERE provider = p_provider;
+
+    RETURN QUERY SELECT true, 0, available - p_tokens;
+  ELSE
+    UPDATE provider_rate_limits
+    SET tokens = available,
+        refilled_at = now(),
+        updated_at = now()
+    WHERE provider = p_provider;
+
+    RETURN QUERY SELECT
+      false,
+      CEIL((p_tokens - available) / bucket.refill_per_second * 1000)::INTEGER,
+      available;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record the outcome of a provider request.
+-- On 429 the bucket is emptied and closed until Retry-After (or for
+-- 2^(n-1) seconds after n consecutive throttles), capped at 5 minutes so a
+-- bogus header cannot shut a provider off.
+-- Any other status resets the backoff. Returns blocked_until.
+CREATE OR REPLACE FUNCTION report_rate_limit_response(
+  p_provider TEXT,
+  p_status INTEGER,
+  p_retry_after_seconds NUMERIC DEFAULT NULL
+)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  result TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_status = 429 THEN
+    UPDATE provider_rate_limits
+    SET consecutive_throttles = consecutive_throttles + 1,
+        tokens = 0,
+        refilled_at = now(),
+        blocked_until = GREATEST(
+          COALESCE(blocked_until, now()),
+          now() + make_interval(secs => LEAST(300, GREATEST(0, COALESCE(
+            p_retry_after_seconds,
+            POWER(2, consecutive_throttles)
+          ))))
+        ),
+        last_throttled_at = now(),
+        requests_throttled = requests_throttled + 1,
+        updated_at = now()
+    WHERE provider = p_provider
+    RETURNING blocked_until INTO result;
+  ELSE
+    UPDATE provider_rate_limits
+    SET consecutive_throttles = 0,
+        updated_at = now()
+    WHERE provider = p_provider
+      AND consecutive_throttles > 0
+    RETURNING blocked_until INTO result;
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Current budget per provider, with tokens refilled up to now (read-only).
+CREATE OR REPLACE FUNCTION get_rate_limit_budgets()
+RETURNS TABLE (
+  provider TEXT,
+  capacity NUMERIC,
+  refill_per_second NUMERIC,
+  tokens_available NUMERIC,
+  blocked_until TIMESTAMP WITH TIME ZONE,
+  consecutive_throttles INTEGER,
+  last_throttled_at TIMESTAMP WITH TIME ZONE,
+  requests_granted BIGINT,
+  requests_throttled BIGINT
+) AS $$
+  SELECT
+    r.provider,
+    r.capacity,
+    r.refill_per_second,
+    CASE
+      WHEN r.blocked_until IS NOT NULL AND r.blocked_until > now() THEN 0
+      ELSE LEAST(r.capacity, r.tokens + EXTRACT(EPOCH FROM (now() - r.refilled_at)) * r.refill_per_second)
+    END,
+    CASE WHEN r.blocked_until > now() THEN r.blocked_until ELSE NULL END,
+    r.consecutive_throttles,
+    r.last_throttled_at,
+    r.requests_granted,
+    r.requests_throttled
+  FROM provider_rate_limits r
+  ORDER BY r.provider;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.acquire_rate_limit_token TO service_role;
+GRANT EXECUTE ON FUNCTION public.report_rate_limit_response TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_rate_limit_budgets TO anon, authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION public.acquire_rate_limit_token FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.report_rate_limit_response FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,228 @@
+-- 008_setlist_predictions.sql
+-- Ranked-choice setlist predictions. Each user submits one ordered list of
+-- songs per setlist, split into opener / main / closer / encore slots. All
+-- predictions are combined with a Borda count into a consensus ranking that
+-- is stored on setlist_songs next to the raw upvote count.
+-- A ballot holds at most 30 songs from the setlist artist's catalog, with at
+-- most one opener and one closer.
+
+CREATE TABLE IF NOT EXISTS public.setlist_predictions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  setlist_id UUID NOT NULL REFERENCES public.setlists(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (setlist_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.setlist_prediction_songs (
+  prediction_id UUID NOT NULL REFERENCES public.setlist_predictions(id) ON DELETE CASCADE,
+  song_id UUID NOT NULL REFERENCES public.songs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position > 0),
+  slot TEXT NOT NULL DEFAULT 'main' CHECK (slot IN ('opener', 'main', 'closer', 'encore')),
+  PRIMARY KEY (prediction_id, position),
+  UNIQUE (prediction_id, song_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_setlist_predictions_setlist ON public.setlist_predictions(setlist_id);
+CREATE INDEX IF NOT EXISTS idx_setlist_prediction_songs_song ON public.setlist_prediction_songs(song_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_setlist_prediction_songs_opener
+  ON public.setlist_prediction_songs(prediction_id) WHERE slot = 'opener';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_setlist_prediction_songs_closer
+  ON public.setlist_prediction_songs(prediction_id) WHERE slot = 'closer';
+
+-- Consensus columns live next to vote_count
+ALTER TABLE public.setlist_songs
+  ADD COLUMN IF NOT EXISTS consensus_score NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS consensus_rank INTEGER,
+  ADD COLUMN IF NOT EXISTS consensus_slot TEXT,
+  ADD COLUMN IF NOT EXISTS prediction_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.setlist_predictions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.setlist_prediction_songs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own predictions" ON public.setlist_predictions;
+CREATE POLICY "Users can read their own predictions"
+  ON public.setlist_predictions FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can read their own prediction songs" ON public.setlist_prediction_songs;
+CREATE POLICY "Users can read their own prediction songs"
+  ON public.setlist_prediction_songs FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.setlist_predictions p
+    WHERE p.id = prediction_id AND p.user_id = auth.uid()
+  ));
+
+-- Recompute the Borda consensus for a setlist.
+-- With N the length of the longest prediction, the song at position p of a
+-- prediction scores N - p + 1 points, so every ballot is scored on the same
+-- scale and songs a ballot leaves out score 0. consensus_slot is the slot
+-- most predictions put the song in (ties go to 'main').
+-- Predicted songs from the setlist artist's catalog that are missing from
+-- setlist_songs are appended to it; anything else is never added.
+CREATE OR REPLACE FUNCTION recompute_setlist_consensus(p_setlist_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_artist_id UUID;
+  max_length INTEGER;
+  next_position INTEGER;
+  ranked_count INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(abs(hashtext('setlist_consensus:' || p_setlist_id::text)::bigint));
+
+  SELECT artist_id INTO v_artist_id FROM setlists WHERE id = p_setlist_id;
+
+  SELECT COALESCE(MAX(ps.position), 0) INTO max_length
+  FROM setlist_prediction_songs ps
+  JOIN setlist_predictions p ON p.id = ps.prediction_id
+  WHERE p.setlist_id = p_setlist_id;
+
+  SELECT COALESCE(MAX(position), 0) INTO next_position
+  FROM setlist_songs
+  WHERE setlist_id = p_setlist_id;
+
+  INSERT INTO setlist_songs (setlist_id, song_id, name, artist_id, position, vote_count)
+  SELECT p_setlist_id, s.id, s.name, s.artist_id,
+         next_position + ROW_NUMBER() OVER (ORDER BY s.name), 0
+  FROM songs s
+  WHERE s.artist_id = v_artist_id
+    AND s.id IN (
+      SELECT ps.song_id
+      FROM setlist_prediction_songs ps
+      JOIN setlist_predictions p ON p.id = ps.prediction_id
+      WHERE p.setlist_id = p_setlist_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM setlist_songs existing
+      WHERE existing.setlist_id = p_setlist_id AND existing.song_id = s.id
+    );
+
+  WITH ballots AS (
+    SELECT ps.song_id, ps.slot, (max_length - ps.position + 1) AS points
+    FROM setlist_prediction_songs ps
+    JOIN setlist_predictions p ON p.id = ps.prediction_id
+    WHERE p.setlist_id = p_setlist_id
+  ),
+  scores AS (
+    SELECT song_id, SUM(points) AS score, COUNT(*) AS predictions
+    FROM ballots
+    GROUP BY song_id
+  ),
+  slots AS (
+    SELECT DISTINCT ON (song_id) song_id, slot
+    FROM ballots
+    GROUP BY song_id, slot
+    ORDER BY song_id, COUNT(*) DESC, (slot = 'main') DESC
+  ),
+  ranked AS (
+    SELECT sc.song_id, sc.score, sc.predictions, sl.slot,
+           RANK() OVER (ORDER BY sc.score DESC) AS rank
+    FROM scores sc
+    JOIN slots sl ON sl.song_id = sc.song_id
+  )
+  UPDATE setlist_songs ss
+  SET consensus_score = COALESCE(r.score, 0),
+      consensus_rank = r.rank,
+      consensus_slot = r.slot,
+      prediction_count = COALESCE(r.predictions, 0),
+      updated_at = now()
+  FROM setlist_songs target
+  LEFT JOIN ranked r ON r.song_id = target.song_id
+  WHERE ss.id = target.id
+    AND target.setlist_id = p_setlist_id;
+
+  SELECT COUNT(*) INTO ranked_count
+  FROM setlist_songs
+  WHERE setlist_id = p_setlist_id AND consensus_rank IS NOT NULL;
+
+  RETURN ranked_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Reject a ballot that could not have come from the prediction builder:
+-- empty, longer than 30 songs, songs outside the setlist artist's catalog,
+-- or more than one opener or closer.
+CREATE OR REPLACE FUNCTION validate_setlist_prediction(p_setlist_id UUID, p_songs JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_artist_id UUID;
+  v_catalog_songs INTEGER;
+BEGIN
+  IF jsonb_typeof(p_songs) <> 'array' OR jsonb_array_length(p_songs) = 0 THEN
+    RAISE EXCEPTION 'A prediction needs at least one song';
+  END IF;
+
+  IF jsonb_array_length(p_songs) > 30 THEN
+    RAISE EXCEPTION 'A prediction can hold at most 30 songs';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT item.value->>'song_id') FROM jsonb_array_elements(p_songs) AS item(value))
+    <> jsonb_array_length(p_songs) THEN
+    RAISE EXCEPTION 'A prediction can list each song only once';
+  END IF;
+
+  SELECT artist_id INTO v_artist_id FROM setlists WHERE id = p_setlist_id;
+  IF v_artist_id IS NULL THEN
+    RAISE EXCEPTION 'Setlist % not found', p_setlist_id;
+  END IF;
+
+  SELECT COUNT(*) INTO v_catalog_songs
+  FROM jsonb_array_elements(p_songs) AS item(value)
+  JOIN songs s ON s.id = (item.value->>'song_id')::UUID
+  WHERE s.artist_id = v_artist_id;
+
+  IF v_catalog_songs <> jsonb_array_length(p_songs) THEN
+    RAISE EXCEPTION 'Every predicted song must be in the artist''s catalog';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM jsonb_array_elements(p_songs) AS item(value) WHERE item.value->>'slot' = 'opener') > 1
+    OR (SELECT COUNT(*) FROM jsonb_array_elements(p_songs) AS item(value) WHERE item.value->>'slot' = 'closer') > 1 THEN
+    RAISE EXCEPTION 'A prediction can have only one opener and one closer';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Replace the calling user's prediction for a setlist and refresh the consensus.
+-- p_songs is an ordered JSON array of { "song_id": uuid, "slot": text };
+-- positions follow array order.
+CREATE OR REPLACE FUNCTION submit_setlist_prediction(
+  p_setlist_id UUID,
+  p_songs JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_prediction_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  PERFORM validate_setlist_prediction(p_setlist_id, p_songs);
+
+  INSERT INTO setlist_predictions (setlist_id, user_id)
+  VALUES (p_setlist_id, v_user_id)
+  ON CONFLICT (setlist_id, user_id) DO UPDATE SET updated_at = now()
+  RETURNING id INTO v_prediction_id;
+
+  DELETE FROM setlist_prediction_songs WHERE prediction_id = v_prediction_id;
+
+  INSERT INTO setlist_prediction_songs (prediction_id, song_id, position, slot)
+  SELECT v_prediction_id,
+         (item.value->>'song_id')::UUID,
+         item.ordinality,
+         COALESCE(item.value->>'slot', 'main')
+  FROM jsonb_array_elements(p_songs) WITH ORDINALITY AS item(value, ordinality);
+
+  PERFORM recompute_setlist_consensus(p_setlist_id);
+
+  RETURN v_prediction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_setlist_prediction TO authenticated;
+GRANT EXECUTE ON FUNCTION public.recompute_setlist_consensus TO service_role;
+REVOKE EXECUTE ON FUNCTION public.submit_setlist_prediction FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.recompute_setlist_consensus FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.validate_setlist_prediction FROM PUBLIC, anon, authenticated;
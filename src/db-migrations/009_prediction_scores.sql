@@ -0,0 +1,234 @@
+-- 009_prediction_scores.sql
+-- Post-show scoring. Once the played setlist for a show has been synced from
+-- setlist.fm into played_setlist_songs, every ranked prediction for the show
+-- is scored against it, along with the crowd's fan-voted setlist.
+--
+-- Per predicted song that was played:
+--   10 points for the hit
+--   up to 5 points for position closeness (5 - |predicted - played|, min 0)
+-- Per predicted song that was not played:
+--   -5 points, so padding a ballot with the whole catalog does not pay
+-- Bonuses:
+--   10 points for the right opener
+--   10 points for the right closer of the main set
+--    5 points per predicted encore song that was played in the encore
+-- The total never drops below 0. Accuracy is the F1 score of the ballot:
+-- it needs both precision (hits / predicted) and recall (hits / played).
+
+-- Both sync paths link played songs to the synced setlists row
+ALTER TABLE public.played_setlist_songs
+  ADD COLUMN IF NOT EXISTS setlist_id UUID REFERENCES public.setlists(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS is_encore BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_played_setlist_songs_setlist_id ON public.played_setlist_songs(setlist_id);
+
+CREATE TABLE IF NOT EXISTS public.prediction_scores (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  prediction_id UUID NOT NULL REFERENCES public.setlist_predictions(id) ON DELETE CASCADE,
+  songs_predicted INTEGER NOT NULL DEFAULT 0,
+  songs_played INTEGER NOT NULL DEFAULT 0,
+  songs_hit INTEGER NOT NULL DEFAULT 0,
+  hit_points INTEGER NOT NULL DEFAULT 0,
+  position_points INTEGER NOT NULL DEFAULT 0,
+  miss_penalty INTEGER NOT NULL DEFAULT 0,
+  opener_bonus INTEGER NOT NULL DEFAULT 0,
+  closer_bonus INTEGER NOT NULL DEFAULT 0,
+  encore_bonus INTEGER NOT NULL DEFAULT 0,
+  total_score INTEGER NOT NULL DEFAULT 0,
+  accuracy NUMERIC NOT NULL DEFAULT 0, -- 2 * songs_hit / (songs_predicted + songs_played)
+  scored_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (show_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prediction_scores_user ON public.prediction_scores(user_id, scored_at DESC);
+
+-- Crowd accuracy per show: the top voted songs (as many as were played) and
+-- the Borda consensus, compared with what was actually played
+CREATE TABLE IF NOT EXISTS public.show_crowd_scores (
+  show_id UUID PRIMARY KEY REFERENCES public.shows(id) ON DELETE CASCADE,
+  songs_played INTEGER NOT NULL DEFAULT 0,
+  voted_hits INTEGER NOT NULL DEFAULT 0,
+  voted_accuracy NUMERIC NOT NULL DEFAULT 0,
+  consensus_hits INTEGER NOT NULL DEFAULT 0,
+  consensus_accuracy NUMERIC NOT NULL DEFAULT 0,
+  predictions_scored INTEGER NOT NULL DEFAULT 0,
+  average_user_accuracy NUMERIC,
+  scored_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.prediction_scores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.show_crowd_scores ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read prediction scores" ON public.prediction_scores;
+CREATE POLICY "Anyone can read prediction scores"
+  ON public.prediction_scores FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can read crowd scores" ON public.show_crowd_scores;
+CREATE POLICY "Anyone can read crowd scores"
+  ON public.show_crowd_scores FOR SELECT
+  USING (true);
+
+-- Score every prediction for a show against its played setlist.
+-- Safe to re-run: scores are replaced. Returns the number of predictions scored,
+-- or 0 when no played setlist has been synced yet.
+CREATE OR REPLACE FUNCTION score_show_predictions(p_show_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  played_count INTEGER;
+  main_count INTEGER;
+  scored_count INTEGER;
+BEGIN
+  -- Played songs in order, renumbered from 1 and de-duplicated (reprises count once)
+  CREATE TEMP TABLE IF NOT EXISTS played_for_scoring (
+    song_id UUID PRIMARY KEY,
+    position INTEGER NOT NULL,
+    is_encore BOOLEAN NOT NULL
+  ) ON COMMIT DROP;
+  TRUNCATE played_for_scoring;
+
+  INSERT INTO played_for_scoring (song_id, position, is_encore)
+  SELECT song_id, ROW_NUMBER() OVER (ORDER BY first_position), is_encore
+  FROM (
+    SELECT DISTINCT ON (pss.song_id) pss.song_id, pss.position AS first_position,
+           COALESCE(pss.is_encore, false) AS is_encore
+    FROM played_setlist_songs pss
+    JOIN setlists s ON s.id = pss.setlist_id
+    WHERE s.show_id = p_show_id
+      AND pss.song_id IS NOT NULL
+    ORDER BY pss.song_id, pss.position
+  ) played;
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE NOT is_encore)
+  INTO played_count, main_count
+  FROM played_for_scoring;
+
+  IF played_count = 0 THEN
+    RETURN 0;
+  END IF;
+
+  WITH predicted AS (
+    SELECT p.id AS prediction_id, p.user_id, ps.song_id, ps.position, ps.slot
+    FROM setlist_predictions p
+    JOIN setlists s ON s.id = p.setlist_id
+    JOIN setlist_prediction_songs ps ON ps.prediction_id = p.id
+    WHERE s.show_id = p_show_id
+  ),
+  per_song AS (
+    SELECT
+      pr.prediction_id,
+      pr.user_id,
+      (pl.song_id IS NOT NULL) AS hit,
+      CASE WHEN pl.song_id IS NULL THEN 0
+           ELSE GREATEST(0, 5 - ABS(pr.position - pl.position)) END AS position_points,
+      CASE WHEN pr.slot = 'opener' AND pl.position = 1 THEN 10 ELSE 0 END AS opener_bonus,
+      CASE WHEN pr.slot = 'closer' AND pl.position = main_count AND NOT pl.is_encore THEN 10 ELSE 0 END AS closer_bonus,
+      CASE WHEN pr.slot = 'encore' AND pl.is_encore THEN 5 ELSE 0 END AS encore_bonus
+    FROM predicted pr
+    LEFT JOIN played_for_scoring pl ON pl.song_id = pr.song_id
+  ),
+  totals AS (
+    SELECT
+      prediction_id,
+      user_id,
+      COUNT(*)::INTEGER AS songs_predicted,
+      COUNT(*) FILTER (WHERE hit)::INTEGER AS songs_hit,
+      SUM(position_points)::INTEGER AS position_points,
+      SUM(opener_bonus)::INTEGER AS opener_bonus,
+      SUM(closer_bonus)::INTEGER AS closer_bonus,
+      SUM(encore_bonus)::INTEGER AS encore_bonus
+    FROM per_song
+    GROUP BY prediction_id, user_id
+  )
+  INSERT INTO prediction_scores (
+    show_id, user_id, prediction_id, songs_predicted, songs_played, songs_hit,
+    hit_points, position_points, miss_penalty, opener_bonus, closer_bonus, encore_bonus,
+    total_score, accuracy, scored_at
+  )
+  SELECT
+    p_show_id, user_id, prediction_id, songs_predicted, played_count, songs_hit,
+    songs_hit * 10, position_points, (songs_predicted - songs_hit) * 5,
+    opener_bonus, closer_bonus, encore_bonus,
+    GREATEST(0, songs_hit * 10 + position_points + opener_bonus + closer_bonus + encore_bonus
+                - (songs_predicted - songs_hit) * 5),
+    ROUND(2 * songs_hit::NUMERIC / (songs_predicted + played_count), 4),
+    now()
+  FROM totals
+  ON CONFLICT (show_id, user_id) DO UPDATE SET
+    prediction_id = EXCLUDED.prediction_id,
+    songs_predicted = EXCLUDED.songs_predicted,
+    songs_played = EXCLUDED.songs_played,
+    songs_hit = EXCLUDED.songs_hit,
+    hit_points = EXCLUDED.hit_points,
+    position_points = EXCLUDED.position_points,
+    miss_penalty = EXCLUDED.miss_penalty,
+    opener_bonus = EXCLUDED.opener_bonus,
+    closer_bonus = EXCLUDED.closer_bonus,
+    encore_bonus = EXCLUDED.encore_bonus,
+    total_score = EXCLUDED.total_score,
+    accuracy = EXCLUDED.accuracy,
+    scored_at = EXCLUDED.scored_at;
+
+  GET DIAGNOSTICS scored_count = ROW_COUNT;
+
+  WITH fan_songs AS (
+    SELECT ss.song_id, ss.vote_count, ss.consensus_rank
+    FROM setlist_songs ss
+    JOIN setlists s ON s.id = ss.setlist_id
+    WHERE s.show_id = p_show_id
+      AND ss.song_id IS NOT NULL
+  ),
+  top_voted AS (
+    SELECT song_id FROM fan_songs
+    WHERE COALESCE(vote_count, 0) > 0
+    ORDER BY vote_count DESC
+    LIMIT played_count
+  ),
+  top_consensus AS (
+    SELECT song_id FROM fan_songs
+    WHERE consensus_rank IS NOT NULL
+    ORDER BY consensus_rank
+    LIMIT played_count
+  ),
+  voted AS (
+    SELECT COUNT(*)::INTEGER AS hits
+    FROM top_voted t JOIN played_for_scoring pl ON pl.song_id = t.song_id
+  ),
+  consensus AS (
+    SELECT COUNT(*)::INTEGER AS hits
+    FROM top_consensus t JOIN played_for_scoring pl ON pl.song_id = t.song_id
+  ),
+  users AS (
+    SELECT COUNT(*)::INTEGER AS scored, AVG(accuracy) AS average_accuracy
+    FROM prediction_scores
+    WHERE show_id = p_show_id
+  )
+  INSERT INTO show_crowd_scores (
+    show_id, songs_played, voted_hits, voted_accuracy, consensus_hits,
+    consensus_accuracy, predictions_scored, average_user_accuracy, scored_at
+  )
+  SELECT
+    p_show_id, played_count,
+    voted.hits, ROUND(voted.hits::NUMERIC / played_count, 4),
+    consensus.hits, ROUND(consensus.hits::NUMERIC / played_count, 4),
+    users.scored, ROUND(users.average_accuracy, 4),
+    now()
+  FROM voted, consensus, users
+  ON CONFLICT (show_id) DO UPDATE SET
+    songs_played = EXCLUDED.songs_played,
+    voted_hits = EXCLUDED.voted_hits,
+    voted_accuracy = EXCLUDED.voted_accuracy,
+    consensus_hits = EXCLUDED.consensus_hits,
+    consensus_accuracy = EXCLUDED.consensus_accuracy,
+    predictions_scored = EXCLUDED.predictions_scored,
+    average_user_accuracy = EXCLUDED.average_user_accuracy,
+    scored_at = EXCLUDED.scored_at;
+
+  RETURN scored_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.score_show_predictions TO service_role;
+REVOKE EXECUTE ON FUNCTION public.score_show_predictions FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,169 @@
+-- 010_leaderboards.sql
+-- Leaderboards and prediction reputation.
+-- leaderboard_standings is a materialized view with one row per user for
+-- every scope (global, per artist, per tour) and window (weekly, all-time).
+-- It is rebuilt by refresh_all_materialized_views(), which the
+-- /api/cron/refresh-views route calls every hour.
+--
+-- reputation = prediction points (see 009_prediction_scores.sql) + one point
+-- per song vote cast, so both accuracy and participation count. Ties are
+-- broken by average prediction accuracy.
+-- Tours are identified by the tour_name synced onto setlists.
+
+DROP MATERIALIZED VIEW IF EXISTS public.leaderboard_standings;
+
+-- The song votes that earn reputation, one row per vote. Later migrations
+-- replace this view as the vote tables change. Votes left in the legacy
+-- user_votes table are not read here: 013_vote_service.sql copies them into
+-- votes, and reading both would count them twice.
+CREATE OR REPLACE VIEW public.leaderboard_votes AS
+SELECT user_id, song_id AS setlist_song_id, created_at FROM votes;
+
+REVOKE ALL ON public.leaderboard_votes FROM PUBLIC, anon, authenticated;
+
+CREATE MATERIALIZED VIEW public.leaderboard_standings AS
+WITH activity AS (
+  -- Scored predictions
+  SELECT
+    ps.user_id,
+    ps.show_id,
+    sh.artist_id,
+    sl.tour_name,
+    ps.scored_at AS occurred_at,
+    ps.total_score AS points,
+    ps.accuracy,
+    1 AS predictions,
+    0 AS votes
+  FROM prediction_scores ps
+  JOIN shows sh ON sh.id = ps.show_id
+  LEFT JOIN setlist_predictions p ON p.id = ps.prediction_id
+  LEFT JOIN setlists sl ON sl.id = p.setlist_id
+
+  UNION ALL
+
+  -- Song votes
+  SELECT
+    v.user_id,
+    sl.show_id,
+    sl.artist_id,
+    sl.tour_name,
+    v.created_at AS occurred_at,
+    0 AS points,
+    NULL::NUMERIC AS accuracy,
+    0 AS predictions,
+    1 AS votes
+  FROM leaderboard_votes v
+  JOIN setlist_songs ss ON ss.id = v.setlist_song_id
+  JOIN setlists sl ON sl.id = ss.setlist_id
+  WHERE v.user_id IS NOT NULL
+),
+windowed AS (
+  SELECT 'all_time'::TEXT AS period, a.* FROM activity a
+  UNION ALL
+  SELECT 'weekly'::TEXT AS period, a.* FROM activity a
+  WHERE a.occurred_at >= now() - INTERVAL '7 days'
+),
+totals AS (
+  SELECT
+    period,
+    CASE
+      WHEN GROUPING(artist_id) = 1 THEN 'global'
+      WHEN GROUPING(tour_name) = 1 THEN 'artist'
+      ELSE 'tour'
+    END AS scope,
+    CASE WHEN GROUPING(artist_id) = 1 THEN NULL ELSE artist_id END AS artist_id,
+    CASE WHEN GROUPING(tour_name) = 1 THEN NULL ELSE tour_name END AS tour_name,
+    user_id,
+    SUM(points)::INTEGER AS prediction_points,
+    SUM(predictions)::INTEGER AS predictions_scored,
+    ROUND(AVG(accuracy), 4) AS average_accuracy,
+    SUM(votes)::INTEGER AS votes_cast,
+    COUNT(DISTINCT show_id)::INTEGER AS shows_participated,
+    (SUM(points) + SUM(votes))::INTEGER AS reputation
+  FROM windowed
+  GROUP BY GROUPING SETS (
+    (period, user_id),
+    (period, artist_id, user_id),
+    (period, artist_id, tour_name, user_id)
+  )
+)
+SELECT
+  t.*,
+  -- Stable key per leaderboard, so the view can be refreshed concurrently
+  CASE t.scope
+    WHEN 'global' THEN 'global'
+    WHEN 'artist' THEN t.artist_id::TEXT
+    ELSE t.artist_id::TEXT || ':' || t.tour_name
+  END AS scope_key,
+  RANK() OVER (
+    PARTITION BY t.period, t.scope, t.artist_id, t.tour_name
+    ORDER BY t.reputation DESC, t.average_accuracy DESC NULLS LAST
+  )::INTEGER AS rank
+FROM totals t
+WHERE (t.scope = 'global' OR t.artist_id IS NOT NULL)
+  AND (t.scope <> 'tour' OR t.tour_name IS NOT NULL);
+
+CREATE UNIQUE INDEX idx_leaderboard_standings_key
+  ON public.leaderboard_standings(period, scope, scope_key, user_id);
+CREATE INDEX idx_leaderboard_standings_rank
+  ON public.leaderboard_standings(period, scope, scope_key, rank);
+
+GRANT SELECT ON public.leaderboard_standings TO anon, authenticated;
+
+-- Refresh every materialized view. Called by /api/cron/refresh-views.
+CREATE OR REPLACE FUNCTION refresh_all_materialized_views()
+RETURNS BOOLEAN AS $$
+BEGIN
+  REFRESH MATERIALIZED VIEW CONCURRENTLY public.leaderboard_standings;
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- One leaderboard page, with profile details for display.
+-- p_artist_id is required for the artist scope, p_artist_id and p_tour_name
+-- for the tour scope.
+CREATE OR REPLACE FUNCTION get_leaderboard(
+  p_scope TEXT DEFAULT 'global',
+  p_period TEXT DEFAULT 'all_time',
+  p_artist_id UUID DEFAULT NULL,
+  p_tour_name TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+  rank INTEGER,
+  user_id UUID,
+  username TEXT,
+  avatar_url TEXT,
+  reputation INTEGER,
+  prediction_points INTEGER,
+  predictions_scored INTEGER,
+  average_accuracy NUMERIC,
+  votes_cast INTEGER,
+  shows_participated INTEGER
+) AS $$
+  SELECT
+    l.rank,
+    l.user_id,
+    pr.username,
+    pr.avatar_url,
+    l.reputation,
+    l.prediction_points,
+    l.predictions_scored,
+    l.average_accuracy,
+    l.votes_cast,
+    l.shows_participated
+  FROM leaderboard_standings l
+  LEFT JOIN profiles pr ON pr.id = l.user_id
+  WHERE l.period = p_period
+    AND l.scope = p_scope
+    AND l.scope_key = CASE p_scope
+      WHEN 'global' THEN 'global'
+      WHEN 'artist' THEN p_artist_id::TEXT
+      ELSE p_artist_id::TEXT || ':' || p_tour_name
+    END
+  ORDER BY l.rank, l.user_id
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.refresh_all_materialized_views TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_leaderboard TO anon, authenticated, service_role;
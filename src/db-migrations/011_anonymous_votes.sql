@@ -0,0 +1,169 @@
+-- 011_anonymous_votes.sql
+-- Server-side anonymous voting. /api/vote issues each anonymous visitor a
+-- signed cookie naming a row in anonymous_sessions; votes cast with it are
+-- stored in votes with anonymous = true and capped per show in the database,
+-- so clearing browser storage no longer resets the allowance.
+-- When the visitor signs up, merge_anonymous_votes moves the session's votes
+-- onto their account.
+
+CREATE TABLE IF NOT EXISTS public.anonymous_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  ip_hash TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  merged_into_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  merged_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.votes
+  ADD COLUMN IF NOT EXISTS anonymous BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS anonymous_session_id UUID REFERENCES public.anonymous_sessions(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_votes_anonymous_session_song
+  ON public.votes(anonymous_session_id, song_id)
+  WHERE anonymous_session_id IS NOT NULL;
+
+-- /api/vote counts the sessions an IP started recently before creating one
+CREATE INDEX IF NOT EXISTS idx_anonymous_sessions_ip_created
+  ON public.anonymous_sessions(ip_hash, created_at);
+
+-- Sessions are only touched through the service role
+ALTER TABLE public.anonymous_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Cast an anonymous vote, enforcing one vote per song and p_max_votes per show.
+-- status is 'recorded', 'duplicate', 'limit_reached', 'merged' (the session
+-- already belongs to an account) or 'not_found' (unknown session or song).
+CREATE OR REPLACE FUNCTION cast_anonymous_vote(
+  p_session_id UUID,
+  p_song_id UUID,
+  p_max_votes INTEGER DEFAULT 3
+)
+RETURNS TABLE (status TEXT, votes_used INTEGER, votes_remaining INTEGER) AS $$
+DECLARE
+  session anonymous_sessions%ROWTYPE;
+  v_show_id UUID;
+  used INTEGER;
+BEGIN
+  SELECT * INTO session FROM anonymous_sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, 0, 0;
+    RETURN;
+  END IF;
+
+  IF session.merged_into_user_id IS NOT NULL THEN
+    RETURN QUERY SELECT 'merged'::TEXT, 0, 0;
+    RETURN;
+  END IF;
+
+  SELECT sl.show_id INTO v_show_id
+  FROM setlist_songs ss
+  JOIN setlists sl ON sl.id = ss.setlist_id
+  WHERE ss.id = p_song_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::TEXT, 0, 0;
+    RETURN;
+  END IF;
+
+  -- Serialize votes from one session on one show so the cap cannot be raced
+  PERFORM pg_advisory_xact_lock(abs(hashtext('anonymous_vote:' || p_session_id::text || ':' || v_show_id::text)::bigint));
+
+  SELECT COUNT(*)::INTEGER INTO used
+  FROM votes v
+  JOIN setlist_songs ss ON ss.id = v.song_id
+  JOIN setlists sl ON sl.id = ss.setlist_id
+  WHERE v.anonymous_session_id = p_session_id
+    AND sl.show_id = v_show_id;
+
+  UPDATE anonymous_sessions SET last_seen_at = now() WHERE id = p_session_id;
+
+  IF EXISTS (
+    SELECT 1 FROM votes
+    WHERE anonymous_session_id = p_session_id AND song_id = p_song_id
+  ) THEN
+    RETURN QUERY SELECT 'duplicate'::TEXT, used, GREATEST(p_max_votes - used, 0);
+    RETURN;
+  END IF;
+
+  IF used >= p_max_votes THEN
+    RETURN QUERY SELECT 'limit_reached'::TEXT, used, 0;
+    RETURN;
+  END IF;
+
+  INSERT INTO votes (song_id, user_id, anonymous, anonymous_session_id, count)
+  VALUES (p_song_id, NULL, true, p_session_id, 1);
+
+  UPDATE setlist_songs
+  SET vote_count = COALESCE(vote_count, 0) + 1,
+      updated_at = now()
+  WHERE id = p_song_id;
+
+  RETURN QUERY SELECT 'recorded'::TEXT, used + 1, GREATEST(p_max_votes - used - 1, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Songs an anonymous session has voted for on a show
+CREATE OR REPLACE FUNCTION get_anonymous_votes(p_session_id UUID, p_show_id UUID)
+RETURNS TABLE (song_id UUID) AS $$
+  SELECT v.song_id
+  FROM votes v
+  JOIN setlist_songs ss ON ss.id = v.song_id
+  JOIN setlists sl ON sl.id = ss.setlist_id
+  WHERE v.anonymous_session_id = p_session_id
+    AND v.user_id IS NULL
+    AND sl.show_id = p_show_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Move an anonymous session's votes onto a user account.
+-- Songs the user had already voted for keep the account's vote; the duplicate
+-- anonymous vote is dropped and its count taken back. Returns the number of
+-- votes moved. The votes keep anonymous = true to record where they came from.
+CREATE OR REPLACE FUNCTION merge_anonymous_votes(p_session_id UUID, p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  moved INTEGER;
+BEGIN
+  UPDATE anonymous_sessions
+  SET merged_into_user_id = p_user_id,
+      merged_at = now()
+  WHERE id = p_session_id
+    AND (merged_into_user_id IS NULL OR merged_into_user_id = p_user_id);
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  WITH duplicates AS (
+    DELETE FROM votes anon
+    WHERE anon.anonymous_session_id = p_session_id
+      AND anon.user_id IS NULL
+      AND EXISTS (
+        SELECT 1 FROM votes own
+        WHERE own.user_id = p_user_id AND own.song_id = anon.song_id
+      )
+    RETURNING anon.song_id
+  )
+  UPDATE setlist_songs ss
+  SET vote_count = GREATEST(COALESCE(ss.vote_count, 0) - d.removed, 0),
+      updated_at = now()
+  FROM (SELECT song_id, COUNT(*) AS removed FROM duplicates GROUP BY song_id) d
+  WHERE ss.id = d.song_id;
+
+  UPDATE votes
+  SET user_id = p_user_id,
+      updated_at = now()
+  WHERE anonymous_session_id = p_session_id
+    AND user_id IS NULL;
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+  RETURN moved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.cast_anonymous_vote TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_anonymous_votes TO service_role;
+GRANT EXECUTE ON FUNCTION public.merge_anonymous_votes TO service_role;
+REVOKE EXECUTE ON FUNCTION public.cast_anonymous_vote FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_anonymous_votes FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.merge_anonymous_votes FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,373 @@
+-- 012_vote_moderation.sql
+-- Vote brigading protection. detect_vote_anomalies looks at a show's recent
+-- votes for bursts from brand-new accounts, many voters behind one IP or
+-- device hash, and voters whose votes arrive at machine-regular intervals.
+-- It runs in batches from /api/cron/vote-anomalies, never in the vote path.
+-- Suspect votes are quarantined: they stay in votes but are taken out of
+-- setlist_songs.vote_count and the leaderboards until an admin approves or
+-- rejects them. Every flag and decision is written to vote_moderation_events.
+
+ALTER TABLE public.votes
+  ADD COLUMN IF NOT EXISTS ip_hash TEXT,
+  ADD COLUMN IF NOT EXISTS device_hash TEXT,
+  ADD COLUMN IF NOT EXISTS moderation_status TEXT NOT NULL DEFAULT 'counted'
+    CHECK (moderation_status IN ('counted', 'quarantined', 'rejected')),
+  ADD COLUMN IF NOT EXISTS flag_reasons TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.anonymous_sessions
+  ADD COLUMN IF NOT EXISTS device_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_votes_moderation_status
+  ON public.votes(moderation_status)
+  WHERE moderation_status <> 'counted';
+
+CREATE INDEX IF NOT EXISTS idx_votes_song_created
+  ON public.votes(song_id, created_at);
+
+-- Audit trail: one row per flag raised by the detector (actor_id NULL) and
+-- per admin decision
+CREATE TABLE IF NOT EXISTS public.vote_moderation_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  vote_id UUID NOT NULL REFERENCES public.votes(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('quarantined', 'approved', 'rejected')),
+  reasons TEXT[] NOT NULL DEFAULT '{}',
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vote_moderation_events_vote
+  ON public.vote_moderation_events(vote_id, created_at);
+
+ALTER TABLE public.vote_moderation_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read vote moderation events" ON public.vote_moderation_events;
+CREATE POLICY "Admins can read vote moderation events"
+  ON public.vote_moderation_events FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin));
+
+-- Scan a show's votes from the last p_window and quarantine suspect ones.
+-- Reasons:
+--   new_account_burst  at least p_burst_size votes from accounts younger
+--                      than p_new_account_age
+--   shared_ip          at least p_shared_ip_voters voters behind one IP hash;
+--                      venue wifi and carrier NAT put many real fans behind
+--                      one address, so this takes far more than a device
+--   shared_device      at least p_shared_voters voters on one device hash
+--   scripted_timing    a voter with p_min_timed_votes or more votes whose
+--                      gaps vary by less than p_timing_jitter seconds
+-- A voter is an account, or an anonymous session when there is none.
+-- Returns the number of votes newly quarantined.
+DROP FUNCTION IF EXISTS detect_vote_anomalies(UUID, INTERVAL, INTERVAL, INTEGER, INTEGER, INTEGER, NUMERIC);
+
+CREATE OR REPLACE FUNCTION detect_vote_anomalies(
+  p_show_id UUID,
+  p_window INTERVAL DEFAULT '15 minutes',
+  p_new_account_age INTERVAL DEFAULT '24 hours',
+  p_burst_size INTEGER DEFAULT 10,
+  p_shared_ip_voters INTEGER DEFAULT 25,
+  p_shared_voters INTEGER DEFAULT 5,
+  p_min_timed_votes INTEGER DEFAULT 5,
+  p_timing_jitter NUMERIC DEFAULT 0.5
+)
+RETURNS INTEGER AS $$
+DECLARE
+  flagged INTEGER;
+BEGIN
+  -- One scan per show at a time so two requests cannot quarantine twice
+  PERFORM pg_advisory_xact_lock(abs(hashtext('vote_anomalies:' || p_show_id::text)::bigint));
+
+  CREATE TEMP TABLE recent_votes ON COMMIT DROP AS
+  SELECT
+    v.id,
+    v.song_id,
+    v.created_at,
+    COALESCE(v.user_id::text, 'session:' || v.anonymous_session_id::text) AS voter,
+    COALESCE(v.ip_hash, s.ip_hash) AS ip_hash,
+    COALESCE(v.device_hash, s.device_hash) AS device_hash,
+    u.created_at AS account_created_at
+  FROM votes v
+  JOIN setlist_songs ss ON ss.id = v.song_id
+  JOIN setlists sl ON sl.id = ss.setlist_id
+  LEFT JOIN anonymous_sessions s ON s.id = v.anonymous_session_id
+  LEFT JOIN auth.users u ON u.id = v.user_id
+  WHERE sl.show_id = p_show_id
+    AND v.created_at >= now() - p_window
+    AND v.moderation_status <> 'rejected';
+
+  CREATE TEMP TABLE suspect_votes (vote_id UUID, reason TEXT) ON COMMIT DROP;
+
+  INSERT INTO suspect_votes
+  SELECT id, 'new_account_burst'
+  FROM recent_votes
+  WHERE account_created_at >= created_at - p_new_account_age
+    AND (
+      SELECT COUNT(*) FROM recent_votes
+      WHERE account_created_at >= created_at - p_new_account_age
+    ) >= p_burst_size;
+
+  INSERT INTO suspect_votes
+  SELECT rv.id, 'shared_ip'
+  FROM recent_votes rv
+  JOIN (
+    SELECT ip_hash FROM recent_votes
+    WHERE ip_hash IS NOT NULL
+    GROUP BY ip_hash
+    HAVING COUNT(DISTINCT voter) >= p_shared_ip_voters
+  ) shared USING (ip_hash);
+
+  INSERT INTO suspect_votes
+  SELECT rv.id, 'shared_device'
+  FROM recent_votes rv
+  JOIN (
+    SELECT device_hash FROM recent_votes
+    WHERE device_hash IS NOT NULL
+    GROUP BY device_hash
+    HAVING COUNT(DISTINCT voter) >= p_shared_voters
+  ) shared USING (device_hash);
+
+  INSERT INTO suspect_votes
+  SELECT rv.id, 'scripted_timing'
+  FROM recent_votes rv
+  JOIN (
+    SELECT voter
+    FROM (
+      SELECT
+        voter,
+        EXTRACT(EPOCH FROM created_at - LAG(created_at) OVER (PARTITION BY voter ORDER BY created_at)) AS gap
+      FROM recent_votes
+    ) gaps
+    WHERE gap IS NOT NULL
+    GROUP BY voter
+    HAVING COUNT(*) + 1 >= p_min_timed_votes
+      AND COALESCE(STDDEV_POP(gap), 0) < p_timing_jitter
+  ) timed USING (voter);
+
+  CREATE TEMP TABLE newly_flagged (id UUID, song_id UUID, reasons TEXT[]) ON COMMIT DROP;
+
+  WITH reasons AS (
+    SELECT vote_id, array_agg(DISTINCT reason ORDER BY reason) AS reasons
+    FROM suspect_votes
+    GROUP BY vote_id
+  ),
+  quarantined AS (
+    UPDATE votes v
+    SET moderation_status = 'quarantined',
+        flag_reasons = ARRAY(SELECT DISTINCT unnest(v.flag_reasons || r.reasons) ORDER BY 1),
+        updated_at = now()
+    FROM reasons r
+    WHERE v.id = r.vote_id
+      AND v.moderation_status = 'counted'
+      -- An admin already cleared this vote; don't send it back to the queue
+      AND NOT EXISTS (
+        SELECT 1 FROM vote_moderation_events e
+        WHERE e.vote_id = v.id AND e.action = 'approved'
+      )
+    RETURNING v.id, v.song_id, r.reasons
+  )
+  INSERT INTO newly_flagged SELECT * FROM quarantined;
+
+  UPDATE setlist_songs ss
+  SET vote_count = GREATEST(COALESCE(ss.vote_count, 0) - f.quarantined, 0),
+      updated_at = now()
+  FROM (SELECT song_id, COUNT(*) AS quarantined FROM newly_flagged GROUP BY song_id) f
+  WHERE ss.id = f.song_id;
+
+  INSERT INTO vote_moderation_events (vote_id, action, reasons)
+  SELECT id, 'quarantined', reasons FROM newly_flagged;
+
+  SELECT COUNT(*)::INTEGER INTO flagged FROM newly_flagged;
+
+  DROP TABLE recent_votes;
+  DROP TABLE suspect_votes;
+  DROP TABLE newly_flagged;
+
+  RETURN flagged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Run detect_vote_anomalies over every show that received votes in the last
+-- p_window. Called by /api/cron/vote-anomalies; returns the number of votes
+-- newly quarantined.
+CREATE OR REPLACE FUNCTION detect_recent_vote_anomalies(p_window INTERVAL DEFAULT '15 minutes')
+RETURNS INTEGER AS $$
+DECLARE
+  v_show_id UUID;
+  flagged INTEGER := 0;
+BEGIN
+  FOR v_show_id IN
+    SELECT DISTINCT sl.show_id
+    FROM votes v
+    JOIN setlist_songs ss ON ss.id = v.song_id
+    JOIN setlists sl ON sl.id = ss.setlist_id
+    WHERE v.created_at >= now() - p_window
+      AND sl.show_id IS NOT NULL
+  LOOP
+    flagged := flagged + detect_vote_anomalies(v_show_id, p_window);
+  END LOOP;
+
+  RETURN flagged;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Admin decision on a quarantined vote. 'approve' counts it again; 'reject'
+-- keeps it out of the totals for good. Both are recorded in the audit trail.
+CREATE OR REPLACE FUNCTION moderate_vote(
+  p_vote_id UUID,
+  p_decision TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_song_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can moderate votes';
+  END IF;
+
+  IF p_decision NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Unknown moderation decision: %', p_decision;
+  END IF;
+
+  SELECT song_id INTO v_song_id
+  FROM votes
+  WHERE id = p_vote_id AND moderation_status = 'quarantined'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vote % is not awaiting moderation', p_vote_id;
+  END IF;
+
+  IF p_decision = 'approve' THEN
+    UPDATE votes SET moderation_status = 'counted', updated_at = now() WHERE id = p_vote_id;
+
+    UPDATE setlist_songs
+    SET vote_count = COALESCE(vote_count, 0) + 1,
+        updated_at = now()
+    WHERE id = v_song_id;
+  ELSE
+    UPDATE votes SET moderation_status = 'rejected', updated_at = now() WHERE id = p_vote_id;
+  END IF;
+
+  INSERT INTO vote_moderation_events (vote_id, action, actor_id, note)
+  VALUES (
+    p_vote_id,
+    CASE WHEN p_decision = 'approve' THEN 'approved' ELSE 'rejected' END,
+    auth.uid(),
+    p_note
+  );
+
+  RETURN CASE WHEN p_decision = 'approve' THEN 'counted' ELSE 'rejected' END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Quarantined votes with their show, song and voter for the moderation queue
+CREATE OR REPLACE FUNCTION get_quarantined_votes(p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  vote_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  flag_reasons TEXT[],
+  song_id UUID,
+  song_name TEXT,
+  show_id UUID,
+  show_name TEXT,
+  show_date TIMESTAMP WITH TIME ZONE,
+  user_id UUID,
+  username TEXT,
+  anonymous_session_id UUID,
+  ip_hash TEXT,
+  device_hash TEXT
+) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can view the moderation queue';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.created_at,
+    v.flag_reasons,
+    ss.id,
+    ss.name,
+    sh.id,
+    sh.name,
+    sh.date,
+    v.user_id,
+    p.username,
+    v.anonymous_session_id,
+    COALESCE(v.ip_hash, s.ip_hash),
+    COALESCE(v.device_hash, s.device_hash)
+  FROM votes v
+  JOIN setlist_songs ss ON ss.id = v.song_id
+  JOIN setlists sl ON sl.id = ss.setlist_id
+  JOIN shows sh ON sh.id = sl.show_id
+  LEFT JOIN profiles p ON p.id = v.user_id
+  LEFT JOIN anonymous_sessions s ON s.id = v.anonymous_session_id
+  WHERE v.moderation_status = 'quarantined'
+  ORDER BY v.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Only counted votes were ever added to vote_count, so only those are taken
+-- back when a duplicate anonymous vote is dropped on merge
+CREATE OR REPLACE FUNCTION merge_anonymous_votes(p_session_id UUID, p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  moved INTEGER;
+BEGIN
+  UPDATE anonymous_sessions
+  SET merged_into_user_id = p_user_id,
+      merged_at = now()
+  WHERE id = p_session_id
+    AND (merged_into_user_id IS NULL OR merged_into_user_id = p_user_id);
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  WITH duplicates AS (
+    DELETE FROM votes anon
+    WHERE anon.anonymous_session_id = p_session_id
+      AND anon.user_id IS NULL
+      AND EXISTS (
+        SELECT 1 FROM votes own
+        WHERE own.user_id = p_user_id AND own.song_id = anon.song_id
+      )
+    RETURNING anon.song_id, anon.moderation_status
+  )
+  UPDATE setlist_songs ss
+  SET vote_count = GREATEST(COALESCE(ss.vote_count, 0) - d.removed, 0),
+      updated_at = now()
+  FROM (
+    SELECT song_id, COUNT(*) AS removed
+    FROM duplicates
+    WHERE moderation_status = 'counted'
+    GROUP BY song_id
+  ) d
+  WHERE ss.id = d.song_id;
+
+  UPDATE votes
+  SET user_id = p_user_id,
+      updated_at = now()
+  WHERE anonymous_session_id = p_session_id
+    AND user_id IS NULL;
+
+  GET DIAGNOSTICS moved = ROW_COUNT;
+  RETURN moved;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Quarantined and rejected votes earn no reputation
+CREATE OR REPLACE VIEW public.leaderboard_votes AS
+SELECT user_id, song_id AS setlist_song_id, created_at FROM votes
+WHERE moderation_status = 'counted';
+
+GRANT EXECUTE ON FUNCTION public.detect_vote_anomalies TO service_role;
+GRANT EXECUTE ON FUNCTION public.detect_recent_vote_anomalies TO service_role;
+REVOKE EXECUTE ON FUNCTION public.detect_vote_anomalies FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.detect_recent_vote_anomalies FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.merge_anonymous_votes FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.moderate_vote TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_quarantined_votes TO authenticated;
@@ -0,0 +1,274 @@
+-- 013_vote_service.sql
+-- One write path for votes. cast_vote records or removes a vote for an
+-- account or an anonymous session, keeps setlist_songs.vote_count in step,
+-- enforces the anonymous per-show cap, and is idempotent per request key so
+-- a retried request can never count twice. It replaces cast_anonymous_vote
+-- and the older increment/decrement helpers, which wrote to different tables.
+
+-- The tally triggers from the initial setup recount vote_count from every
+-- row in votes, on top of cast_vote's own +1 and counting quarantined and
+-- rejected votes. vote_count is kept by the vote functions alone from here.
+DROP TRIGGER IF EXISTS after_vote_insert_or_update ON public.votes;
+DROP TRIGGER IF EXISTS after_vote_delete ON public.votes;
+DROP FUNCTION IF EXISTS public.handle_vote_insert_or_update();
+DROP FUNCTION IF EXISTS public.handle_vote_delete();
+
+-- Earlier clients wrote account votes to user_votes; fold them into votes
+DO $$
+BEGIN
+  IF to_regclass('public.user_votes') IS NOT NULL THEN
+    INSERT INTO votes (song_id, user_id, count, created_at)
+    SELECT uv.setlist_song_id, uv.user_id, 1, uv.created_at
+    FROM user_votes uv
+    WHERE NOT EXISTS (
+      SELECT 1 FROM votes v
+      WHERE v.user_id = uv.user_id AND v.song_id = uv.setlist_song_id
+    );
+  END IF;
+END $$;
+
+-- Keep the oldest vote when a user voted for a song more than once
+DELETE FROM votes v
+USING votes older
+WHERE v.user_id IS NOT NULL
+  AND older.user_id = v.user_id
+  AND older.song_id = v.song_id
+  AND (older.created_at, older.id) < (v.created_at, v.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_votes_user_song
+  ON public.votes(user_id, song_id)
+  WHERE user_id IS NOT NULL;
+
+-- Rebuild the tallies from the votes that count, undoing any double counting
+UPDATE setlist_songs ss
+SET vote_count = COALESCE(tally.counted, 0)
+FROM setlist_songs s
+LEFT JOIN (
+  SELECT song_id, COUNT(*)::INTEGER AS counted
+  FROM votes
+  WHERE moderation_status = 'counted'
+  GROUP BY song_id
+) tally ON tally.song_id = s.id
+WHERE ss.id = s.id
+  AND ss.vote_count IS DISTINCT FROM COALESCE(tally.counted, 0);
+
+-- The outcome of each vote request, keyed by the client's idempotency key
+CREATE TABLE IF NOT EXISTS public.vote_requests (
+  idempotency_key TEXT PRIMARY KEY,
+  song_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('increment', 'decrement')),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  anonymous_session_id UUID REFERENCES public.anonymous_sessions(id) ON DELETE CASCADE,
+  status TEXT NOT NULL,
+  votes_used INTEGER,
+  votes_remaining INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_vote_requests_created_at
+  ON public.vote_requests(created_at);
+
+-- Only touched through the service role
+ALTER TABLE public.vote_requests ENABLE ROW LEVEL SECURITY;
+
+-- Record (p_action 'increment') or remove ('decrement') one vote.
+-- Exactly one of p_user_id and p_anonymous_session_id must be given.
+-- status is one of:
+--   recorded       the vote was added
+--   removed        the vote was taken back
+--   unchanged      nothing to do: already voted, or no vote to remove
+--   limit_reached  the anonymous session has used its votes for this show
+--   auth_required  anonymous sessions cannot remove votes
+--   merged         the anonymous session already belongs to an account
+--   not_found      unknown song or session
+--   conflict       the idempotency key was used for a different request
+-- A repeated key returns the first request's outcome with the current tally.
+-- votes_remaining is NULL for accounts, which are not capped.
+CREATE OR REPLACE FUNCTION cast_vote(
+  p_song_id UUID,
+  p_action TEXT,
+  p_idempotency_key TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_anonymous_session_id UUID DEFAULT NULL,
+  p_max_anonymous_votes INTEGER DEFAULT 3,
+  p_ip_hash TEXT DEFAULT NULL,
+  p_device_hash TEXT DEFAULT NULL
+)
+RETURNS TABLE (status TEXT, vote_count INTEGER, votes_used INTEGER, votes_remaining INTEGER) AS $$
+#variable_conflict use_column
+DECLARE
+  request vote_requests%ROWTYPE;
+  session anonymous_sessions%ROWTYPE;
+  existing votes%ROWTYPE;
+  v_show_id UUID;
+  v_status TEXT;
+  used INTEGER;
+  remaining INTEGER;
+BEGIN
+  IF p_action NOT IN ('increment', 'decrement') THEN
+    RAISE EXCEPTION 'Unknown vote action: %', p_action;
+  END IF;
+
+  IF (p_user_id IS NULL) = (p_anonymous_session_id IS NULL) THEN
+    RAISE EXCEPTION 'A vote needs exactly one of a user or an anonymous session';
+  END IF;
+
+  -- Serialize retries of one request so only the first does any work
+  PERFORM pg_advisory_xact_lock(abs(hashtext('vote_request:' || p_idempotency_key)::bigint));
+
+  SELECT * INTO request FROM vote_requests vr WHERE vr.idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    IF request.song_id <> p_song_id
+      OR request.action <> p_action
+      OR request.user_id IS DISTINCT FROM p_user_id
+      OR request.anonymous_session_id IS DISTINCT FROM p_anonymous_session_id
+    THEN
+      RETURN QUERY SELECT 'conflict'::TEXT, NULL::INTEGER, NULL::INTEGER, NULL::INTEGER;
+      RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT request.status, ss.vote_count, request.votes_used, request.votes_remaining
+    FROM (SELECT 1) one
+    LEFT JOIN setlist_songs ss ON ss.id = p_song_id;
+    RETURN;
+  END IF;
+
+  SELECT sl.show_id INTO v_show_id
+  FROM setlist_songs ss
+  JOIN setlists sl ON sl.id = ss.setlist_id
+  WHERE ss.id = p_song_id;
+
+  IF v_show_id IS NULL THEN
+    v_status := 'not_found';
+  ELSIF p_anonymous_session_id IS NOT NULL THEN
+    SELECT * INTO session FROM anonymous_sessions s WHERE s.id = p_anonymous_session_id;
+
+    IF NOT FOUND THEN
+      v_status := 'not_found';
+    ELSIF session.merged_into_user_id IS NOT NULL THEN
+      v_status := 'merged';
+    ELSIF p_action = 'decrement' THEN
+      v_status := 'auth_required';
+    ELSE
+      -- Serialize votes from one session on one show so the cap cannot be raced
+      PERFORM pg_advisory_xact_lock(abs(hashtext('anonymous_vote:' || p_anonymous_session_id::text || ':' || v_show_id::text)::bigint));
+
+      SELECT COUNT(*)::INTEGER INTO used
+      FROM votes v
+      JOIN setlist_songs ss ON ss.id = v.song_id
+      JOIN setlists sl ON sl.id = ss.setlist_id
+      WHERE v.anonymous_session_id = p_anonymous_session_id
+        AND sl.show_id = v_show_id;
+
+      UPDATE anonymous_sessions s SET last_seen_at = now() WHERE s.id = p_anonymous_session_id;
+
+      IF EXISTS (
+        SELECT 1 FROM votes v
+        WHERE v.anonymous_session_id = p_anonymous_session_id AND v.song_id = p_song_id
+      ) THEN
+        v_status := 'unchanged';
+      ELSIF used >= p_max_anonymous_votes THEN
+        v_status := 'limit_reached';
+      ELSE
+        INSERT INTO votes (song_id, user_id, anonymous, anonymous_session_id, count, ip_hash, device_hash)
+        VALUES (p_song_id, NULL, true, p_anonymous_session_id, 1, p_ip_hash, p_device_hash);
+
+        UPDATE setlist_songs ss
+        SET vote_count = COALESCE(ss.vote_count, 0) + 1,
+            updated_at = now()
+        WHERE ss.id = p_song_id;
+
+        used := used + 1;
+        v_status := 'recorded';
+      END IF;
+
+      remaining := GREATEST(p_max_anonymous_votes - used, 0);
+    END IF;
+  ELSE
+    PERFORM pg_advisory_xact_lock(abs(hashtext('user_vote:' || p_user_id::text || ':' || p_song_id::text)::bigint));
+
+    SELECT * INTO existing FROM votes v WHERE v.user_id = p_user_id AND v.song_id = p_song_id;
+
+    IF p_action = 'increment' THEN
+      IF FOUND THEN
+        v_status := 'unchanged';
+      ELSE
+        INSERT INTO votes (song_id, user_id, count, ip_hash, device_hash)
+        VALUES (p_song_id, p_user_id, 1, p_ip_hash, p_device_hash);
+
+        UPDATE setlist_songs ss
+        SET vote_count = COALESCE(ss.vote_count, 0) + 1,
+            updated_at = now()
+        WHERE ss.id = p_song_id;
+
+        v_status := 'recorded';
+      END IF;
+    ELSE
+      IF NOT FOUND THEN
+        v_status := 'unchanged';
+      ELSE
+        DELETE FROM votes v WHERE v.id = existing.id;
+
+        -- Quarantined and rejected votes were already taken out of the count
+        IF existing.moderation_status = 'counted' THEN
+          UPDATE setlist_songs ss
+          SET vote_count = GREATEST(COALESCE(ss.vote_count, 0) - 1, 0),
+              updated_at = now()
+          WHERE ss.id = p_song_id;
+        END IF;
+
+        v_status := 'removed';
+      END IF;
+    END IF;
+
+    SELECT COUNT(*)::INTEGER INTO used
+    FROM votes v
+    JOIN setlist_songs ss ON ss.id = v.song_id
+    JOIN setlists sl ON sl.id = ss.setlist_id
+    WHERE v.user_id = p_user_id
+      AND sl.show_id = v_show_id;
+  END IF;
+
+  INSERT INTO vote_requests (
+    idempotency_key, song_id, action, user_id, anonymous_session_id,
+    status, votes_used, votes_remaining
+  )
+  VALUES (
+    p_idempotency_key, p_song_id, p_action, p_user_id,
+    CASE WHEN v_status = 'not_found' THEN NULL ELSE p_anonymous_session_id END,
+    v_status, used, remaining
+  );
+
+  RETURN QUERY
+  SELECT v_status, ss.vote_count, used, remaining
+  FROM (SELECT 1) one
+  LEFT JOIN setlist_songs ss ON ss.id = p_song_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Vote outcomes only need to outlive client retries. Drops those older than
+-- p_older_than_days and returns how many were dropped; the vote-anomalies
+-- cron runs this.
+CREATE OR REPLACE FUNCTION purge_vote_requests(p_older_than_days INTEGER DEFAULT 7)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM vote_requests
+  WHERE created_at < now() - make_interval(days => GREATEST(p_older_than_days, 1));
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS public.cast_anonymous_vote(UUID, UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.increment_vote(UUID, UUID);
+DROP FUNCTION IF EXISTS public.decrement_vote(UUID, UUID);
+DROP FUNCTION IF EXISTS public.increment_votes(UUID);
+DROP FUNCTION IF EXISTS public.add_song_vote(UUID, UUID);
+
+GRANT EXECUTE ON FUNCTION public.cast_vote TO service_role;
+GRANT EXECUTE ON FUNCTION public.purge_vote_requests TO service_role;
+REVOKE EXECUTE ON FUNCTION public.cast_vote FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_vote_requests FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,173 @@
+-- 014_setlist_playlists.sql
+-- "Save as playlist" for a show. Each user can keep two Spotify playlists per
+-- show: the fan-voted setlist (top N songs by votes, re-synced as votes
+-- change) and the setlist that was actually played. setlist_playlists maps
+-- the show to the Spotify playlist and remembers the track URIs last written,
+-- so a re-sync only touches Spotify when the order has changed.
+
+CREATE TABLE IF NOT EXISTS public.setlist_playlists (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  mode TEXT NOT NULL CHECK (mode IN ('voted', 'played')),
+  spotify_playlist_id TEXT NOT NULL,
+  spotify_playlist_url TEXT,
+  snapshot_id TEXT,
+  track_limit INTEGER NOT NULL DEFAULT 20 CHECK (track_limit BETWEEN 1 AND 100),
+  track_uris TEXT[] NOT NULL DEFAULT '{}',
+  last_synced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (show_id, user_id, mode)
+);
+
+CREATE INDEX IF NOT EXISTS idx_setlist_playlists_user ON public.setlist_playlists(user_id);
+
+ALTER TABLE public.setlist_playlists ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own setlist playlists" ON public.setlist_playlists;
+CREATE POLICY "Users can read their own setlist playlists"
+  ON public.setlist_playlists FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own setlist playlists" ON public.setlist_playlists;
+CREATE POLICY "Users can create their own setlist playlists"
+  ON public.setlist_playlists FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own setlist playlists" ON public.setlist_playlists;
+CREATE POLICY "Users can update their own setlist playlists"
+  ON public.setlist_playlists FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own setlist playlists" ON public.setlist_playlists;
+CREATE POLICY "Users can delete their own setlist playlists"
+  ON public.setlist_playlists FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Tracks for a show's playlist, in playlist order, with their Spotify ids.
+-- 'voted' is the fan-voted setlist, most votes first; 'played' is the synced
+-- setlist.fm setlist in running order. Songs with no Spotify id are skipped,
+-- so p_limit counts playable tracks.
+CREATE OR REPLACE FUNCTION get_setlist_playlist_tracks(
+  p_show_id UUID,
+  p_mode TEXT DEFAULT 'voted',
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (song_id UUID, name TEXT, spotify_id TEXT, "position" INTEGER, vote_count INTEGER) AS $$
+  SELECT t.song_id, t.name, t.spotify_id, t.position::INTEGER, t.vote_count::INTEGER
+  FROM (
+    SELECT
+      ss.song_id,
+      ss.name,
+      COALESCE(s.spotify_id, tr.spotify_id) AS spotify_id,
+      ROW_NUMBER() OVER (ORDER BY COALESCE(ss.vote_count, 0) DESC, ss.position NULLS LAST, ss.name) AS position,
+      COALESCE(ss.vote_count, 0) AS vote_count
+    FROM setlist_songs ss
+    JOIN setlists sl ON sl.id = ss.setlist_id
+    LEFT JOIN songs s ON s.id = ss.song_id
+    LEFT JOIN tracks tr ON tr.id = ss.track_id
+    WHERE sl.show_id = p_show_id
+      AND p_mode = 'voted'
+
+    UNION ALL
+
+    SELECT
+      pss.song_id,
+      COALESCE(s.name, pss.name),
+      s.spotify_id,
+      pss.position,
+      NULL
+    FROM played_setlist_songs pss
+    JOIN setlists sl ON sl.id = pss.setlist_id
+    LEFT JOIN songs s ON s.id = pss.song_id
+    WHERE sl.show_id = p_show_id
+      AND p_mode = 'played'
+  ) t
+  WHERE t.spotify_id IS NOT NULL
+  ORDER BY t.position
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_setlist_playlist_tracks TO anon, authenticated;
+
+-- Playlists are brought up to date on the server once the played setlist is
+-- posted, so they do not depend on the show page being open. That needs a
+-- Spotify refresh token for the user, saved when they first export.
+-- Service role only: no policies.
+CREATE TABLE IF NOT EXISTS public.spotify_connections (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  refresh_token TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.spotify_connections ENABLE ROW LEVEL SECURITY;
+
+-- Save the signed-in user's Spotify refresh token
+CREATE OR REPLACE FUNCTION save_spotify_connection(p_refresh_token TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Must be signed in to connect Spotify';
+  END IF;
+
+  IF p_refresh_token IS NULL OR p_refresh_token = '' THEN
+    RAISE EXCEPTION 'A Spotify refresh token is required';
+  END IF;
+
+  INSERT INTO spotify_connections (user_id, refresh_token, updated_at)
+  VALUES (auth.uid(), p_refresh_token, now())
+  ON CONFLICT (user_id) DO UPDATE SET
+    refresh_token = EXCLUDED.refresh_token,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Everyone with a Spotify connection who exported a playlist for the show,
+-- with their playlists keyed by mode
+CREATE OR REPLACE FUNCTION get_setlist_playlist_owners(p_show_id UUID)
+RETURNS TABLE (user_id UUID, refresh_token TEXT, playlists JSONB) AS $$
+  SELECT sp.user_id, sc.refresh_token, jsonb_object_agg(sp.mode, to_jsonb(sp))
+  FROM setlist_playlists sp
+  JOIN spotify_connections sc ON sc.user_id = sp.user_id
+  WHERE sp.show_id = p_show_id
+  GROUP BY sp.user_id, sc.refresh_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Played songs are written a setlist at a time, so queue one playlist sync
+-- per show and statement. The sync_playlists task is worked by the
+-- sync-queue cron. A failed enqueue never fails the sync write.
+CREATE OR REPLACE FUNCTION queue_setlist_playlist_sync()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM enqueue_sync_task(
+    p_entity_type => 'show',
+    p_external_id => shows.show_id::TEXT,
+    p_operation => 'sync_playlists',
+    p_priority => 1
+  )
+  FROM (
+    SELECT DISTINCT sl.show_id
+    FROM new_rows n
+    JOIN setlists sl ON sl.id = n.setlist_id
+    WHERE EXISTS (SELECT 1 FROM setlist_playlists sp WHERE sp.show_id = sl.show_id)
+  ) shows;
+  RETURN NULL;
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'Could not queue setlist playlist sync: %', SQLERRM;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS queue_setlist_playlist_sync ON public.played_setlist_songs;
+CREATE TRIGGER queue_setlist_playlist_sync
+  AFTER INSERT ON public.played_setlist_songs
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION queue_setlist_playlist_sync();
+
+GRANT EXECUTE ON FUNCTION public.save_spotify_connection TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_setlist_playlist_owners TO service_role;
+
+REVOKE EXECUTE ON FUNCTION public.save_spotify_connection FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_setlist_playlist_owners FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_setlist_playlist_sync FROM PUBLIC, anon, authenticated;
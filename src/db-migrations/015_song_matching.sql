@@ -0,0 +1,244 @@
+-- 015_song_matching.sql
+-- Song resolution between setlist.fm and the Spotify catalog. Both setlist
+-- sync paths resolve played songs with the song matching module
+-- (supabase/functions/_shared/songMatching.ts): names are normalized, checked
+-- against song_aliases, and scored. Confident matches are linked; the rest
+-- are stored unlinked and queued in song_match_reviews, keyed by artist and
+-- normalized name. An admin linking a review adds an alias, links every
+-- played song waiting on it and rescores the affected shows.
+
+-- Played songs keep their setlist.fm name and how they were matched, so an
+-- unmatched song can be linked later
+ALTER TABLE public.played_setlist_songs
+  ALTER COLUMN song_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS name TEXT,
+  ADD COLUMN IF NOT EXISTS match_key TEXT,
+  ADD COLUMN IF NOT EXISTS match_confidence NUMERIC,
+  ADD COLUMN IF NOT EXISTS match_method TEXT,
+  ADD COLUMN IF NOT EXISTS is_cover BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS cover_artist TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_played_setlist_songs_unmatched
+  ON public.played_setlist_songs(match_key)
+  WHERE song_id IS NULL;
+
+-- Alternative titles for a catalog song, per artist
+CREATE TABLE IF NOT EXISTS public.song_aliases (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  artist_id UUID NOT NULL REFERENCES public.artists(id) ON DELETE CASCADE,
+  song_id UUID NOT NULL REFERENCES public.songs(id) ON DELETE CASCADE,
+  alias TEXT NOT NULL,
+  normalized_alias TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'review' CHECK (source IN ('review', 'manual')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (artist_id, normalized_alias)
+);
+
+CREATE INDEX IF NOT EXISTS idx_song_aliases_song ON public.song_aliases(song_id);
+
+-- One row per unresolved setlist.fm title per artist
+CREATE TABLE IF NOT EXISTS public.song_match_reviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  artist_id UUID NOT NULL REFERENCES public.artists(id) ON DELETE CASCADE,
+  setlist_name TEXT NOT NULL,
+  match_key TEXT NOT NULL,
+  candidate_song_id UUID REFERENCES public.songs(id) ON DELETE SET NULL,
+  confidence NUMERIC NOT NULL DEFAULT 0,
+  match_method TEXT NOT NULL DEFAULT 'none',
+  is_cover BOOLEAN NOT NULL DEFAULT false,
+  cover_artist TEXT,
+  occurrences INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'linked', 'dismissed')),
+  resolved_song_id UUID REFERENCES public.songs(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (artist_id, match_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_song_match_reviews_pending
+  ON public.song_match_reviews(occurrences DESC, created_at)
+  WHERE status = 'pending';
+
+ALTER TABLE public.song_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.song_match_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Song aliases are viewable by everyone" ON public.song_aliases;
+CREATE POLICY "Song aliases are viewable by everyone"
+  ON public.song_aliases FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can read song match reviews" ON public.song_match_reviews;
+CREATE POLICY "Admins can read song match reviews"
+  ON public.song_match_reviews FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin));
+
+-- Queue a low-confidence or unmatched title for review. A title already in
+-- the queue counts another occurrence and keeps the better candidate; one
+-- that was dismissed stays dismissed.
+CREATE OR REPLACE FUNCTION queue_song_match_review(
+  p_artist_id UUID,
+  p_setlist_name TEXT,
+  p_match_key TEXT,
+  p_candidate_song_id UUID DEFAULT NULL,
+  p_confidence NUMERIC DEFAULT 0,
+  p_match_method TEXT DEFAULT 'none',
+  p_is_cover BOOLEAN DEFAULT false,
+  p_cover_artist TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_review_id UUID;
+BEGIN
+  INSERT INTO song_match_reviews (
+    artist_id, setlist_name, match_key, candidate_song_id, confidence,
+    match_method, is_cover, cover_artist
+  )
+  VALUES (
+    p_artist_id, p_setlist_name, p_match_key, p_candidate_song_id, p_confidence,
+    p_match_method, p_is_cover, p_cover_artist
+  )
+  ON CONFLICT (artist_id, match_key) DO UPDATE
+  SET occurrences = song_match_reviews.occurrences + 1,
+      candidate_song_id = CASE
+        WHEN EXCLUDED.confidence > song_match_reviews.confidence THEN EXCLUDED.candidate_song_id
+        ELSE song_match_reviews.candidate_song_id
+      END,
+      confidence = GREATEST(song_match_reviews.confidence, EXCLUDED.confidence),
+      updated_at = now()
+  WHERE song_match_reviews.status = 'pending'
+  RETURNING id INTO v_review_id;
+
+  RETURN v_review_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Admin decision on a review. Linking to a song records the title as an
+-- alias, links the artist's unmatched played songs with the same key and
+-- rescores those shows. Passing no song dismisses the review.
+-- Returns the number of played songs linked.
+CREATE OR REPLACE FUNCTION resolve_song_match(
+  p_review_id UUID,
+  p_song_id UUID DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_review song_match_reviews%ROWTYPE;
+  v_linked INTEGER := 0;
+  v_show_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can resolve song matches';
+  END IF;
+
+  SELECT * INTO v_review
+  FROM song_match_reviews
+  WHERE id = p_review_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Song match % is not awaiting review', p_review_id;
+  END IF;
+
+  IF p_song_id IS NULL THEN
+    UPDATE song_match_reviews
+    SET status = 'dismissed', reviewed_by = auth.uid(), reviewed_at = now(),
+        note = p_note, updated_at = now()
+    WHERE id = p_review_id;
+    RETURN 0;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM songs WHERE id = p_song_id AND artist_id = v_review.artist_id) THEN
+    RAISE EXCEPTION 'Song % does not belong to this artist', p_song_id;
+  END IF;
+
+  INSERT INTO song_aliases (artist_id, song_id, alias, normalized_alias, source, created_by)
+  VALUES (v_review.artist_id, p_song_id, v_review.setlist_name, v_review.match_key, 'review', auth.uid())
+  ON CONFLICT (artist_id, normalized_alias) DO UPDATE
+  SET song_id = EXCLUDED.song_id,
+      alias = EXCLUDED.alias,
+      created_by = EXCLUDED.created_by;
+
+  UPDATE song_match_reviews
+  SET status = 'linked', resolved_song_id = p_song_id, reviewed_by = auth.uid(),
+      reviewed_at = now(), note = p_note, updated_at = now()
+  WHERE id = p_review_id;
+
+  CREATE TEMP TABLE IF NOT EXISTS linked_shows (show_id UUID) ON COMMIT DROP;
+  TRUNCATE linked_shows;
+
+  WITH linked AS (
+    UPDATE played_setlist_songs pss
+    SET song_id = p_song_id,
+        match_confidence = 1,
+        match_method = 'alias'
+    FROM setlists sl
+    WHERE sl.id = pss.setlist_id
+      AND sl.artist_id = v_review.artist_id
+      AND pss.song_id IS NULL
+      AND pss.match_key = v_review.match_key
+    RETURNING sl.show_id
+  )
+  INSERT INTO linked_shows SELECT show_id FROM linked;
+
+  SELECT COUNT(*) INTO v_linked FROM linked_shows;
+
+  FOR v_show_id IN SELECT DISTINCT show_id FROM linked_shows WHERE show_id IS NOT NULL LOOP
+    PERFORM score_show_predictions(v_show_id);
+  END LOOP;
+
+  RETURN v_linked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Pending reviews with the artist and candidate song, most frequent first
+CREATE OR REPLACE FUNCTION get_song_match_reviews(p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  review_id UUID,
+  artist_id UUID,
+  artist_name TEXT,
+  setlist_name TEXT,
+  candidate_song_id UUID,
+  candidate_song_name TEXT,
+  confidence NUMERIC,
+  match_method TEXT,
+  is_cover BOOLEAN,
+  cover_artist TEXT,
+  occurrences INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can view the song match queue';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.artist_id,
+    a.name,
+    r.setlist_name,
+    r.candidate_song_id,
+    s.name,
+    r.confidence,
+    r.match_method,
+    r.is_cover,
+    r.cover_artist,
+    r.occurrences,
+    r.created_at
+  FROM song_match_reviews r
+  JOIN artists a ON a.id = r.artist_id
+  LEFT JOIN songs s ON s.id = r.candidate_song_id
+  WHERE r.status = 'pending'
+  ORDER BY r.occurrences DESC, r.created_at
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.queue_song_match_review TO service_role;
+GRANT EXECUTE ON FUNCTION public.resolve_song_match TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_song_match_reviews TO authenticated;
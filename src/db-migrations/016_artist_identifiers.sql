@@ -0,0 +1,424 @@
+-- 016_artist_identifiers.sql
+-- Artist entity resolution. Artists arrive from Ticketmaster, Spotify and
+-- setlist.fm (MusicBrainz IDs) through several entry points, and each used to
+-- look up existing rows by its own column, so the same artist was often
+-- created twice. artist_identifiers maps every provider ID to one canonical
+-- artist, and resolve_artist is the single lookup all entry points use before
+-- creating an artist.
+-- Duplicates that already exist are fixed with merge_artists, which repoints
+-- every row that references the duplicate in one transaction and records
+-- what it moved in artist_merges, so split_artist can undo a bad merge.
+
+CREATE TABLE IF NOT EXISTS public.artist_identifiers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  artist_id UUID NOT NULL REFERENCES public.artists(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('ticketmaster', 'spotify', 'musicbrainz')),
+  external_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_artist_identifiers_artist ON public.artist_identifiers(artist_id);
+
+CREATE TABLE IF NOT EXISTS public.artist_merges (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  source_artist_id UUID NOT NULL,
+  target_artist_id UUID NOT NULL,
+  source_snapshot JSONB NOT NULL,
+  target_snapshot JSONB NOT NULL,
+  moved JSONB NOT NULL DEFAULT '{}', -- table name -> ids repointed to the target
+  merged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  merged_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  note TEXT,
+  split_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  split_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_artist_merges_merged_at ON public.artist_merges(merged_at DESC);
+
+ALTER TABLE public.artist_identifiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.artist_merges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Artist identifiers are viewable by everyone" ON public.artist_identifiers;
+CREATE POLICY "Artist identifiers are viewable by everyone"
+  ON public.artist_identifiers FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can read artist merges" ON public.artist_merges;
+CREATE POLICY "Admins can read artist merges"
+  ON public.artist_merges FOR SELECT
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin));
+
+-- Backfill from the per-provider columns. Entry points have used different
+-- column names for the Ticketmaster ID, so take whichever exist. When two
+-- artists share an ID the oldest keeps it; the other shows up as a duplicate.
+DO $$
+DECLARE
+  v_column TEXT;
+  v_provider TEXT;
+BEGIN
+  FOR v_provider, v_column IN
+    SELECT * FROM (VALUES
+      ('spotify', 'spotify_id'),
+      ('musicbrainz', 'setlist_fm_mbid'),
+      ('musicbrainz', 'mbid'),
+      ('ticketmaster', 'external_id'),
+      ('ticketmaster', 'tm_id'),
+      ('ticketmaster', 'ticketmaster_id')
+    ) AS columns(provider, column_name)
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'artists' AND column_name = v_column
+    ) THEN
+      EXECUTE format(
+        'INSERT INTO public.artist_identifiers (artist_id, provider, external_id)
+         SELECT id, %L, %I FROM public.artists
+         WHERE %I IS NOT NULL AND %I <> ''''
+         ORDER BY created_at NULLS LAST
+         ON CONFLICT (provider, external_id) DO NOTHING',
+        v_provider, v_column, v_column, v_column
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+-- Attach provider IDs to an artist. An ID that already belongs to another
+-- artist is left where it is. Also fills artists.spotify_id and
+-- setlist_fm_mbid, which the rest of the app still reads.
+-- Returns the number of identifiers added.
+CREATE OR REPLACE FUNCTION link_artist_identifiers(
+  p_artist_id UUID,
+  p_ticketmaster_id TEXT DEFAULT NULL,
+  p_spotify_id TEXT DEFAULT NULL,
+  p_mbid TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_linked INTEGER;
+BEGIN
+  INSERT INTO artist_identifiers (artist_id, provider, external_id)
+  SELECT p_artist_id, ids.provider, ids.external_id
+  FROM (VALUES
+    ('ticketmaster', NULLIF(p_ticketmaster_id, '')),
+    ('spotify', NULLIF(p_spotify_id, '')),
+    ('musicbrainz', NULLIF(p_mbid, ''))
+  ) AS ids(provider, external_id)
+  WHERE ids.external_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM artists WHERE id = p_artist_id)
+  ON CONFLICT (provider, external_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_linked = ROW_COUNT;
+
+  UPDATE artists a
+  SET spotify_id = COALESCE(a.spotify_id, (
+        SELECT ai.external_id FROM artist_identifiers ai
+        WHERE ai.artist_id = p_artist_id AND ai.provider = 'spotify' AND ai.external_id = p_spotify_id
+      )),
+      setlist_fm_mbid = COALESCE(a.setlist_fm_mbid, (
+        SELECT ai.external_id FROM artist_identifiers ai
+        WHERE ai.artist_id = p_artist_id AND ai.provider = 'musicbrainz' AND ai.external_id = p_mbid
+      ))
+  WHERE a.id = p_artist_id
+    AND ((a.spotify_id IS NULL AND p_spotify_id IS NOT NULL)
+      OR (a.setlist_fm_mbid IS NULL AND p_mbid IS NOT NULL));
+
+  RETURN v_linked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Find the canonical artist for any combination of provider IDs and a name.
+-- Lookup order:
+--   1. artist_identifiers, Spotify first, then MusicBrainz, then Ticketmaster
+--   2. artists.spotify_id / setlist_fm_mbid, or an artist keyed by the
+--      Ticketmaster ID, for rows created before they had identifiers
+--   3. the only artist with exactly this name whose known IDs don't
+--      contradict the given ones
+-- The given IDs are linked to the artist that was found. Returns NULL when
+-- there is no match, and the caller creates the artist and links its IDs.
+CREATE OR REPLACE FUNCTION resolve_artist(
+  p_name TEXT DEFAULT NULL,
+  p_ticketmaster_id TEXT DEFAULT NULL,
+  p_spotify_id TEXT DEFAULT NULL,
+  p_mbid TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_artist_id UUID;
+  v_candidates UUID[];
+BEGIN
+  -- Serialize concurrent syncs of the same artist
+  IF p_name IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(abs(hashtext('artist:' || lower(trim(p_name)))::bigint));
+  END IF;
+
+  SELECT ai.artist_id INTO v_artist_id
+  FROM artist_identifiers ai
+  WHERE (ai.provider = 'spotify' AND ai.external_id = p_spotify_id)
+     OR (ai.provider = 'musicbrainz' AND ai.external_id = p_mbid)
+     OR (ai.provider = 'ticketmaster' AND ai.external_id = p_ticketmaster_id)
+  ORDER BY array_position(ARRAY['spotify', 'musicbrainz', 'ticketmaster'], ai.provider)
+  LIMIT 1;
+
+  IF v_artist_id IS NULL THEN
+    SELECT a.id INTO v_artist_id
+    FROM artists a
+    WHERE (p_spotify_id IS NOT NULL AND a.spotify_id = p_spotify_id)
+       OR (p_mbid IS NOT NULL AND a.setlist_fm_mbid = p_mbid)
+       OR (p_ticketmaster_id IS NOT NULL AND a.id::TEXT = p_ticketmaster_id)
+    ORDER BY a.created_at NULLS LAST
+    LIMIT 1;
+  END IF;
+
+  IF v_artist_id IS NULL AND NULLIF(trim(p_name), '') IS NOT NULL THEN
+    SELECT array_agg(a.id) INTO v_candidates
+    FROM artists a
+    WHERE lower(a.name) = lower(trim(p_name))
+      AND NOT (p_spotify_id IS NOT NULL AND a.spotify_id IS NOT NULL AND a.spotify_id <> p_spotify_id)
+      AND NOT (p_mbid IS NOT NULL AND a.setlist_fm_mbid IS NOT NULL AND a.setlist_fm_mbid <> p_mbid)
+      AND NOT EXISTS (
+        SELECT 1 FROM artist_identifiers ai
+        WHERE ai.artist_id = a.id
+          AND ((ai.provider = 'spotify' AND p_spotify_id IS NOT NULL AND ai.external_id <> p_spotify_id)
+            OR (ai.provider = 'musicbrainz' AND p_mbid IS NOT NULL AND ai.external_id <> p_mbid))
+      );
+
+    IF array_length(v_candidates, 1) = 1 THEN
+      v_artist_id := v_candidates[1];
+    END IF;
+  END IF;
+
+  IF v_artist_id IS NOT NULL THEN
+    PERFORM link_artist_identifiers(v_artist_id, p_ticketmaster_id, p_spotify_id, p_mbid);
+  END IF;
+
+  RETURN v_artist_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Tables whose artist_id is repointed by a merge. Tables that don't exist in
+-- this database are skipped.
+CREATE OR REPLACE FUNCTION artist_reference_tables()
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(t.table_name ORDER BY t.ord), '{}')
+  FROM unnest(ARRAY[
+    'shows', 'songs', 'setlists', 'setlist_songs', 'setlist_raw_data',
+    'played_setlist_songs', 'tracks', 'top_tracks', 'song_aliases',
+    'song_match_reviews', 'artist_identifiers'
+  ]) WITH ORDINALITY AS t(table_name, ord)
+  WHERE EXISTS (
+    SELECT 1 FROM information_schema.columns c
+    WHERE c.table_schema = 'public' AND c.table_name = t.table_name AND c.column_name = 'artist_id'
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Merge a duplicate artist into the canonical one. Shows, songs, setlists,
+-- voting setlist songs (and with them their votes), played songs, aliases and
+-- identifiers all move to the target; aliases and review queue entries the
+-- target already has are dropped. The target keeps its own fields and takes
+-- the duplicate's Spotify and MusicBrainz IDs and image where it has none.
+-- Returns the artist_merges id.
+CREATE OR REPLACE FUNCTION merge_artists(
+  p_source_id UUID,
+  p_target_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_source artists%ROWTYPE;
+  v_target artists%ROWTYPE;
+  v_table TEXT;
+  v_ids JSONB;
+  v_moved JSONB := '{}';
+  v_merge_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can merge artists';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge an artist into itself';
+  END IF;
+
+  -- Lock both artists in a stable order so concurrent merges can't deadlock
+  PERFORM pg_advisory_xact_lock(abs(hashtext('artist-merge:' || LEAST(p_source_id, p_target_id)::TEXT)::bigint));
+  PERFORM pg_advisory_xact_lock(abs(hashtext('artist-merge:' || GREATEST(p_source_id, p_target_id)::TEXT)::bigint));
+
+  SELECT * INTO v_source FROM artists WHERE id = p_source_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Artist % not found', p_source_id;
+  END IF;
+
+  SELECT * INTO v_target FROM artists WHERE id = p_target_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Artist % not found', p_target_id;
+  END IF;
+
+  DELETE FROM song_aliases s
+  WHERE s.artist_id = p_source_id
+    AND EXISTS (
+      SELECT 1 FROM song_aliases t
+      WHERE t.artist_id = p_target_id AND t.normalized_alias = s.normalized_alias
+    );
+
+  DELETE FROM song_match_reviews s
+  WHERE s.artist_id = p_source_id
+    AND EXISTS (
+      SELECT 1 FROM song_match_reviews t
+      WHERE t.artist_id = p_target_id AND t.match_key = s.match_key
+    );
+
+  FOREACH v_table IN ARRAY artist_reference_tables() LOOP
+    EXECUTE format(
+      'WITH moved AS (
+         UPDATE public.%I SET artist_id = $1 WHERE artist_id = $2 RETURNING id
+       )
+       SELECT COALESCE(jsonb_agg(id), ''[]'') FROM moved',
+      v_table
+    )
+    INTO v_ids
+    USING p_target_id, p_source_id;
+
+    IF jsonb_array_length(v_ids) > 0 THEN
+      v_moved := v_moved || jsonb_build_object(v_table, v_ids);
+    END IF;
+  END LOOP;
+
+  DELETE FROM artists WHERE id = p_source_id;
+
+  UPDATE artists
+  SET spotify_id = COALESCE(spotify_id, v_source.spotify_id),
+      setlist_fm_mbid = COALESCE(setlist_fm_mbid, v_source.setlist_fm_mbid),
+      image_url = COALESCE(image_url, v_source.image_url),
+      updated_at = now()
+  WHERE id = p_target_id;
+
+  INSERT INTO artist_merges (
+    source_artist_id, target_artist_id, source_snapshot, target_snapshot, moved, merged_by, note
+  )
+  VALUES (
+    p_source_id, p_target_id, to_jsonb(v_source), to_jsonb(v_target), v_moved, auth.uid(), p_note
+  )
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Undo a merge: recreate the duplicate artist as it was and move the rows the
+-- merge repointed back to it. Rows added to the target since the merge stay
+-- there, and aliases or review entries dropped by the merge are not restored.
+-- Returns the restored artist id.
+CREATE OR REPLACE FUNCTION split_artist(
+  p_merge_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_merge artist_merges%ROWTYPE;
+  v_table TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can split artists';
+  END IF;
+
+  SELECT * INTO v_merge
+  FROM artist_merges
+  WHERE id = p_merge_id AND split_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge % does not exist or was already split', p_merge_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM artists WHERE id = v_merge.source_artist_id) THEN
+    RAISE EXCEPTION 'Artist % already exists', v_merge.source_artist_id;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(abs(hashtext('artist-merge:' || LEAST(v_merge.source_artist_id, v_merge.target_artist_id)::TEXT)::bigint));
+  PERFORM pg_advisory_xact_lock(abs(hashtext('artist-merge:' || GREATEST(v_merge.source_artist_id, v_merge.target_artist_id)::TEXT)::bigint));
+
+  -- Give back the IDs the target took over, before the duplicate needs them
+  UPDATE artists
+  SET spotify_id = v_merge.target_snapshot->>'spotify_id',
+      setlist_fm_mbid = v_merge.target_snapshot->>'setlist_fm_mbid',
+      image_url = v_merge.target_snapshot->>'image_url',
+      updated_at = now()
+  WHERE id = v_merge.target_artist_id;
+
+  INSERT INTO artists
+  SELECT * FROM jsonb_populate_record(NULL::artists, v_merge.source_snapshot);
+
+  FOR v_table IN SELECT jsonb_object_keys(v_merge.moved) LOOP
+    IF v_table = ANY(artist_reference_tables()) THEN
+      EXECUTE format(
+        'UPDATE public.%I SET artist_id = $1
+         WHERE artist_id = $2
+           AND id::TEXT IN (SELECT jsonb_array_elements_text($3))',
+        v_table
+      )
+      USING v_merge.source_artist_id, v_merge.target_artist_id, v_merge.moved->v_table;
+    END IF;
+  END LOOP;
+
+  UPDATE artist_merges
+  SET split_at = now(),
+      split_by = auth.uid(),
+      note = COALESCE(p_note, note)
+  WHERE id = p_merge_id;
+
+  RETURN v_merge.source_artist_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Likely duplicates for the merge tool: artists whose names match once case
+-- and punctuation are ignored. The artist with more shows is suggested as
+-- the one to keep.
+CREATE OR REPLACE FUNCTION get_duplicate_artists(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  keep_id UUID,
+  keep_name TEXT,
+  keep_shows BIGINT,
+  keep_identifiers TEXT[],
+  duplicate_id UUID,
+  duplicate_name TEXT,
+  duplicate_shows BIGINT,
+  duplicate_identifiers TEXT[]
+) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can review duplicate artists';
+  END IF;
+
+  RETURN QUERY
+  WITH artist_stats AS (
+    SELECT
+      a.id,
+      a.name,
+      regexp_replace(lower(a.name), '[^a-z0-9]+', '', 'g') AS name_key,
+      (SELECT COUNT(*) FROM shows s WHERE s.artist_id = a.id) AS show_count,
+      ARRAY(
+        SELECT ai.provider || ':' || ai.external_id
+        FROM artist_identifiers ai
+        WHERE ai.artist_id = a.id
+        ORDER BY ai.provider
+      ) AS identifiers
+    FROM artists a
+  )
+  SELECT k.id, k.name, k.show_count, k.identifiers,
+         d.id, d.name, d.show_count, d.identifiers
+  FROM artist_stats k
+  JOIN artist_stats d
+    ON d.name_key = k.name_key
+   AND d.name_key <> ''
+   AND (d.show_count < k.show_count OR (d.show_count = k.show_count AND d.id > k.id))
+  ORDER BY k.show_count + d.show_count DESC, k.name
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.resolve_artist TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.link_artist_identifiers TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.merge_artists TO authenticated;
+GRANT EXECUTE ON FUNCTION public.split_artist TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_duplicate_artists TO authenticated;
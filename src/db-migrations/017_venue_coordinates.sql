@@ -0,0 +1,121 @@
+-- 017_venue_coordinates.sql
+-- Venue coordinates for "shows near me". latitude/longitude were TEXT copied
+-- straight from Ticketmaster payloads; they become DOUBLE PRECISION (values
+-- that don't parse or are out of range are dropped and picked up again by
+-- VenueSyncService.backfillVenueCoordinates), and a PostGIS geography point
+-- is derived from them for radius queries. get_nearby_shows powers
+-- /api/shows/nearby.
+
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+ALTER TABLE public.venues
+  ALTER COLUMN latitude TYPE DOUBLE PRECISION USING (
+    CASE
+      WHEN trim(latitude) ~ '^-?[0-9]+(\.[0-9]+)?$' AND abs(trim(latitude)::DOUBLE PRECISION) <= 90
+        THEN trim(latitude)::DOUBLE PRECISION
+    END
+  ),
+  ALTER COLUMN longitude TYPE DOUBLE PRECISION USING (
+    CASE
+      WHEN trim(longitude) ~ '^-?[0-9]+(\.[0-9]+)?$' AND abs(trim(longitude)::DOUBLE PRECISION) <= 180
+        THEN trim(longitude)::DOUBLE PRECISION
+    END
+  );
+
+-- 0,0 is what a missing Ticketmaster location parses to, not a real venue
+UPDATE public.venues
+SET latitude = NULL, longitude = NULL
+WHERE latitude = 0 AND longitude = 0;
+
+ALTER TABLE public.venues
+  DROP CONSTRAINT IF EXISTS venues_latitude_range,
+  DROP CONSTRAINT IF EXISTS venues_longitude_range;
+
+ALTER TABLE public.venues
+  ADD CONSTRAINT venues_latitude_range CHECK (latitude BETWEEN -90 AND 90),
+  ADD CONSTRAINT venues_longitude_range CHECK (longitude BETWEEN -180 AND 180);
+
+ALTER TABLE public.venues
+  ADD COLUMN IF NOT EXISTS location geography(Point, 4326)
+    GENERATED ALWAYS AS (
+      CASE
+        WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+          THEN ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+      END
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_venues_location ON public.venues USING GIST (location);
+CREATE INDEX IF NOT EXISTS idx_venues_missing_coordinates
+  ON public.venues(updated_at)
+  WHERE latitude IS NULL AND external_id IS NOT NULL;
+
+-- Upcoming shows within p_radius_km of a point, soonest first. The radius
+-- already decides what counts as near, so distance only breaks ties between
+-- shows on the same date.
+CREATE OR REPLACE FUNCTION get_nearby_shows(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_km DOUBLE PRECISION DEFAULT 50,
+  p_limit INTEGER DEFAULT 50,
+  p_from TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE (
+  show_id UUID,
+  show_name TEXT,
+  date TIMESTAMPTZ,
+  image_url TEXT,
+  ticket_url TEXT,
+  popularity INTEGER,
+  artist_id UUID,
+  artist_name TEXT,
+  artist_image_url TEXT,
+  venue_id UUID,
+  venue_name TEXT,
+  city TEXT,
+  state TEXT,
+  country TEXT,
+  distance_km DOUBLE PRECISION
+) AS $$
+DECLARE
+  v_origin geography;
+BEGIN
+  IF p_latitude IS NULL OR p_longitude IS NULL
+     OR abs(p_latitude) > 90 OR abs(p_longitude) > 180 THEN
+    RAISE EXCEPTION 'Invalid coordinates';
+  END IF;
+
+  IF p_radius_km IS NULL OR p_radius_km <= 0 OR p_radius_km > 500 THEN
+    RAISE EXCEPTION 'Radius must be between 0 and 500 km';
+  END IF;
+
+  v_origin := ST_SetSRID(ST_MakePoint(p_longitude, p_latitude), 4326)::geography;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.name::TEXT,
+    s.date::TIMESTAMPTZ,
+    s.image_url::TEXT,
+    s.ticket_url::TEXT,
+    s.popularity::INTEGER,
+    a.id,
+    a.name::TEXT,
+    a.image_url::TEXT,
+    v.id,
+    v.name::TEXT,
+    v.city::TEXT,
+    v.state::TEXT,
+    v.country::TEXT,
+    ST_Distance(v.location, v_origin) / 1000
+  FROM venues v
+  JOIN shows s ON s.venue_id = v.id
+  LEFT JOIN artists a ON a.id = s.artist_id
+  WHERE v.location IS NOT NULL
+    AND ST_DWithin(v.location, v_origin, p_radius_km * 1000)
+    AND s.date >= p_from
+  ORDER BY s.date, ST_Distance(v.location, v_origin)
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_nearby_shows TO anon, authenticated, service_role;
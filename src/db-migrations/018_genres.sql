@@ -0,0 +1,227 @@
+-- 018_genres.sql
+-- Genre taxonomy. Ticketmaster classifies events with a fixed set of genre
+-- IDs while Spotify gives artists free-form genre strings ("modern alt rock",
+-- "atl hip hop"), and shows.genre_ids was only filled by one sync path.
+-- genres is the shared taxonomy: each genre has its Ticketmaster ID and the
+-- keywords that place a Spotify genre string in it. artist_genres links
+-- artists to genres from both sources:
+--   * Spotify: a trigger classifies artists.genres whenever it changes, so
+--     every path that saves an artist is covered.
+--   * Ticketmaster: show sync calls link_ticketmaster_genres with the event's
+--     classification IDs and names.
+-- Shows belong to their artist's genres. Genre pages read upcoming shows, top
+-- artists and most-voted songs through the get_genre_* functions.
+
+CREATE TABLE IF NOT EXISTS public.genres (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  ticketmaster_id TEXT UNIQUE,
+  -- A Spotify genre belongs to this genre when it contains one of these as
+  -- whole words
+  spotify_keywords TEXT[] NOT NULL DEFAULT '{}',
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.artist_genres (
+  artist_id UUID NOT NULL REFERENCES public.artists(id) ON DELETE CASCADE,
+  genre_id UUID NOT NULL REFERENCES public.genres(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('spotify', 'ticketmaster')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (artist_id, genre_id, source)
+);
+
+CREATE INDEX IF NOT EXISTS idx_artist_genres_genre ON public.artist_genres(genre_id);
+
+ALTER TABLE public.genres ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.artist_genres ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Genres are viewable by everyone" ON public.genres;
+CREATE POLICY "Genres are viewable by everyone"
+  ON public.genres FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Artist genres are viewable by everyone" ON public.artist_genres;
+CREATE POLICY "Artist genres are viewable by everyone"
+  ON public.artist_genres FOR SELECT
+  USING (true);
+
+-- Ticketmaster's music genres (the list the UI used to hardcode)
+INSERT INTO public.genres (slug, name, ticketmaster_id, spotify_keywords, display_order) VALUES
+  ('rock', 'Rock', 'KnvZfZ7vAeA', ARRAY['rock', 'grunge', 'britpop', 'shoegaze'], 1),
+  ('pop', 'Pop', 'KnvZfZ7vAev', ARRAY['pop', 'boy band', 'girl group'], 2),
+  ('electronic', 'Electronic', 'KnvZfZ7vAvt', ARRAY['edm', 'electronic', 'electronica', 'house', 'techno', 'trance', 'dubstep', 'drum and bass', 'electro'], 3),
+  ('rnb', 'R&B', 'KnvZfZ7vAvd', ARRAY['r&b', 'rnb', 'soul', 'neo soul', 'funk'], 4),
+  ('folk', 'Folk', 'KnvZfZ7vAee', ARRAY['folk', 'americana', 'singer-songwriter', 'bluegrass'], 5),
+  ('country', 'Country', 'KnvZfZ7vAe6', ARRAY['country', 'outlaw'], 6),
+  ('hip-hop', 'Hip-Hop/Rap', 'KnvZfZ7vAeJ', ARRAY['hip hop', 'rap', 'trap', 'drill', 'grime'], 7),
+  ('reggae', 'Reggae', 'KnvZfZ7vAeI', ARRAY['reggae', 'dancehall', 'ska', 'dub'], 8),
+  ('blues', 'Blues', 'KnvZfZ7vAv6', ARRAY['blues'], 9),
+  ('jazz', 'Jazz', 'KnvZfZ7vAvE', ARRAY['jazz', 'bebop', 'swing'], 10),
+  ('classical', 'Classical', 'KnvZfZ7vAv1', ARRAY['classical', 'orchestra', 'opera', 'baroque', 'choral'], 11),
+  ('alternative', 'Alternative', 'KnvZfZ7vAde', ARRAY['alternative', 'alt', 'indie', 'emo', 'post-punk', 'punk'], 12),
+  ('world', 'World', 'KnvZfZ7vAdt', ARRAY['latin', 'reggaeton', 'afrobeats', 'afropop', 'k-pop', 'j-pop', 'cumbia', 'bossa nova', 'world'], 13),
+  ('metal', 'Metal', 'KnvZfZ7vAda', ARRAY['metal', 'metalcore', 'deathcore', 'hardcore'], 14)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Genres for one Spotify genre string
+CREATE OR REPLACE FUNCTION genres_for_spotify_genre(p_genre TEXT)
+RETURNS SETOF UUID AS $$
+  SELECT g.id
+  FROM genres g
+  WHERE EXISTS (
+    SELECT 1 FROM unnest(g.spotify_keywords) AS keyword
+    WHERE lower(p_genre) ~ ('(^|[^a-z0-9&])' || regexp_replace(keyword, '([^a-z0-9 ])', '\\\1', 'g') || '($|[^a-z0-9&])')
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Re-derive an artist's Spotify genre links from artists.genres
+CREATE OR REPLACE FUNCTION classify_artist_genres()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM artist_genres
+  WHERE artist_id = NEW.id AND source = 'spotify';
+
+  INSERT INTO artist_genres (artist_id, genre_id, source)
+  SELECT DISTINCT NEW.id, matched.genre_id, 'spotify'
+  FROM unnest(COALESCE(NEW.genres, '{}')) AS spotify_genre,
+       LATERAL genres_for_spotify_genre(spotify_genre) AS matched(genre_id)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS artists_classify_genres_trigger ON public.artists;
+CREATE TRIGGER artists_classify_genres_trigger
+AFTER INSERT OR UPDATE OF genres ON public.artists
+FOR EACH ROW
+EXECUTE FUNCTION classify_artist_genres();
+
+-- Backfill existing artists (without touching artists.updated_at, which
+-- sync uses to decide when to refresh)
+INSERT INTO public.artist_genres (artist_id, genre_id, source)
+SELECT DISTINCT a.id, matched.genre_id, 'spotify'
+FROM public.artists a,
+     unnest(a.genres) AS spotify_genre,
+     LATERAL genres_for_spotify_genre(spotify_genre) AS matched(genre_id)
+ON CONFLICT DO NOTHING;
+
+-- Link an artist to the genres of a Ticketmaster event or attraction.
+-- Classification IDs are matched to genres.ticketmaster_id; genre and
+-- subgenre names ("Alternative Rock") are classified like Spotify genres.
+-- Returns the number of new links.
+CREATE OR REPLACE FUNCTION link_ticketmaster_genres(
+  p_artist_id UUID,
+  p_classification_ids TEXT[] DEFAULT '{}',
+  p_classification_names TEXT[] DEFAULT '{}'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_linked INTEGER;
+BEGIN
+  INSERT INTO artist_genres (artist_id, genre_id, source)
+  SELECT DISTINCT p_artist_id, matched.genre_id, 'ticketmaster'
+  FROM (
+    SELECT g.id AS genre_id
+    FROM genres g
+    WHERE g.ticketmaster_id = ANY (COALESCE(p_classification_ids, '{}'))
+    UNION
+    SELECT by_name.genre_id
+    FROM unnest(COALESCE(p_classification_names, '{}')) AS classification_name,
+         LATERAL genres_for_spotify_genre(classification_name) AS by_name(genre_id)
+  ) matched
+  WHERE EXISTS (SELECT 1 FROM artists WHERE id = p_artist_id)
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS v_linked = ROW_COUNT;
+  RETURN v_linked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Genre page queries. p_genre is a genre slug or its Ticketmaster ID.
+
+CREATE OR REPLACE FUNCTION get_genre_upcoming_shows(p_genre TEXT, p_limit INTEGER DEFAULT 12)
+RETURNS TABLE (
+  show_id UUID,
+  show_name TEXT,
+  date TIMESTAMPTZ,
+  image_url TEXT,
+  ticket_url TEXT,
+  artist_id UUID,
+  artist_name TEXT,
+  artist_image_url TEXT,
+  venue_id UUID,
+  venue_name TEXT,
+  city TEXT,
+  state TEXT
+) AS $$
+  SELECT
+    s.id, s.name::TEXT, s.date::TIMESTAMPTZ, s.image_url::TEXT, s.ticket_url::TEXT,
+    a.id, a.name::TEXT, a.image_url::TEXT,
+    v.id, v.name::TEXT, v.city::TEXT, v.state::TEXT
+  FROM genres g
+  JOIN artist_genres ag ON ag.genre_id = g.id
+  JOIN shows s ON s.artist_id = ag.artist_id
+  JOIN artists a ON a.id = s.artist_id
+  LEFT JOIN venues v ON v.id = s.venue_id
+  WHERE (g.slug = p_genre OR g.ticketmaster_id = p_genre)
+    AND s.date >= now()
+  GROUP BY s.id, a.id, v.id
+  ORDER BY s.date
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_genre_top_artists(p_genre TEXT, p_limit INTEGER DEFAULT 12)
+RETURNS TABLE (
+  artist_id UUID,
+  name TEXT,
+  image_url TEXT,
+  popularity INTEGER,
+  followers INTEGER,
+  upcoming_shows BIGINT
+) AS $$
+  SELECT
+    a.id, a.name::TEXT, a.image_url::TEXT, a.popularity::INTEGER, a.followers::INTEGER,
+    (SELECT COUNT(*) FROM shows s WHERE s.artist_id = a.id AND s.date >= now())
+  FROM genres g
+  JOIN artist_genres ag ON ag.genre_id = g.id
+  JOIN artists a ON a.id = ag.artist_id
+  WHERE g.slug = p_genre OR g.ticketmaster_id = p_genre
+  GROUP BY a.id
+  ORDER BY a.popularity DESC NULLS LAST, a.followers DESC NULLS LAST, a.name
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$ LANGUAGE sql STABLE;
+
+-- Songs with the most setlist votes across the genre's shows
+CREATE OR REPLACE FUNCTION get_genre_top_songs(p_genre TEXT, p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  song_id UUID,
+  name TEXT,
+  artist_id UUID,
+  artist_name TEXT,
+  vote_count BIGINT
+) AS $$
+  SELECT
+    ss.song_id,
+    MIN(ss.name)::TEXT,
+    a.id,
+    a.name::TEXT,
+    SUM(COALESCE(ss.vote_count, 0))::BIGINT AS total_votes
+  FROM genres g
+  JOIN artist_genres ag ON ag.genre_id = g.id
+  JOIN artists a ON a.id = ag.artist_id
+  JOIN setlist_songs ss ON ss.artist_id = a.id
+  WHERE (g.slug = p_genre OR g.ticketmaster_id = p_genre)
+    AND ss.song_id IS NOT NULL
+  GROUP BY ss.song_id, a.id
+  HAVING SUM(COALESCE(ss.vote_count, 0)) > 0
+  ORDER BY total_votes DESC, MIN(ss.name)
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.link_ticketmaster_genres TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_genre_upcoming_shows TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_genre_top_artists TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.get_genre_top_songs TO anon, authenticated, service_role;
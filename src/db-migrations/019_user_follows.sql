@@ -0,0 +1,265 @@
+-- 019_user_follows.sql
+-- Follows for artists and venues. Each row follows exactly one artist or one
+-- venue. Follows imported from a user's Spotify top artists are marked
+-- source = 'spotify'. Unfollowing keeps the row with unfollowed_at set, so
+-- the next Spotify import doesn't follow the artist again; following again
+-- clears it.
+--
+-- get_follow_feed is the Dashboard feed for everything the signed-in user
+-- follows, newest first:
+--   * show_announced - a show was added for a followed artist or venue
+--   * voting_open    - a show's setlist opened for voting before the show
+--   * setlist_played - the played setlist was synced after the show
+
+CREATE TABLE IF NOT EXISTS public.user_follows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  artist_id UUID REFERENCES public.artists(id) ON DELETE CASCADE,
+  venue_id UUID REFERENCES public.venues(id) ON DELETE CASCADE,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'spotify')),
+  unfollowed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((artist_id IS NULL) <> (venue_id IS NULL)),
+  UNIQUE (user_id, artist_id),
+  UNIQUE (user_id, venue_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_follows_artist ON public.user_follows(artist_id) WHERE artist_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_user_follows_venue ON public.user_follows(venue_id) WHERE venue_id IS NOT NULL;
+
+ALTER TABLE public.user_follows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read their own follows" ON public.user_follows;
+CREATE POLICY "Users can read their own follows"
+  ON public.user_follows FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own follows" ON public.user_follows;
+CREATE POLICY "Users can create their own follows"
+  ON public.user_follows FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own follows" ON public.user_follows;
+CREATE POLICY "Users can update their own follows"
+  ON public.user_follows FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own follows" ON public.user_follows;
+CREATE POLICY "Users can delete their own follows"
+  ON public.user_follows FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Artist follows move with an artist merge
+CREATE OR REPLACE FUNCTION artist_reference_tables()
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(t.table_name ORDER BY t.ord), '{}')
+  FROM unnest(ARRAY[
+    'shows', 'songs', 'setlists', 'setlist_songs', 'setlist_raw_data',
+    'played_setlist_songs', 'tracks', 'top_tracks', 'song_aliases',
+    'song_match_reviews', 'artist_identifiers', 'user_follows'
+  ]) WITH ORDINALITY AS t(table_name, ord)
+  WHERE EXISTS (
+    SELECT 1 FROM information_schema.columns c
+    WHERE c.table_schema = 'public' AND c.table_name = t.table_name AND c.column_name = 'artist_id'
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Merge a duplicate artist into the canonical one. Shows, songs, setlists,
+-- voting setlist songs (and with them their votes), played songs, aliases and
+-- identifiers all move to the target; aliases and review queue entries the
+-- target already has are dropped, as are follows of the duplicate by users who
+-- already follow the target. The target keeps its own fields and takes
+-- the duplicate's Spotify and MusicBrainz IDs and image where it has none.
+-- Returns the artist_merges id.
+CREATE OR REPLACE FUNCTION merge_artists(
+  p_source_id UUID,
+  p_target_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_source artists%ROWTYPE;
+  v_target artists%ROWTYPE;
+  v_table TEXT;
+  v_ids JSONB;
+  v_moved JSONB := '{}';
+  v_merge_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can merge artists';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge an artist into itself';
+  END IF;
+
+  -- Lock both artists in a stable order so concurrent merges can't deadlock
+  PERFORM pg_advisory_xact_lock(abs(hashtext('artist-merge:' || LEAST(p_source_id, p_target_id)::TEXT)::bigint));
+  PERFORM pg_advisory_xact_lock(abs(hashtext('artist-merge:' || GREATEST(p_source_id, p_target_id)::TEXT)::bigint));
+
+  SELECT * INTO v_source FROM artists WHERE id = p_source_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Artist % not found', p_source_id;
+  END IF;
+
+  SELECT * INTO v_target FROM artists WHERE id = p_target_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Artist % not found', p_target_id;
+  END IF;
+
+  DELETE FROM song_aliases s
+  WHERE s.artist_id = p_source_id
+    AND EXISTS (
+      SELECT 1 FROM song_aliases t
+      WHERE t.artist_id = p_target_id AND t.normalized_alias = s.normalized_alias
+    );
+
+  DELETE FROM song_match_reviews s
+  WHERE s.artist_id = p_source_id
+    AND EXISTS (
+      SELECT 1 FROM song_match_reviews t
+      WHERE t.artist_id = p_target_id AND t.match_key = s.match_key
+    );
+
+  -- Users following both keep their follow of the target
+  DELETE FROM user_follows s
+  WHERE s.artist_id = p_source_id
+    AND EXISTS (
+      SELECT 1 FROM user_follows t
+      WHERE t.artist_id = p_target_id AND t.user_id = s.user_id
+    );
+
+  FOREACH v_table IN ARRAY artist_reference_tables() LOOP
+    EXECUTE format(
+      'WITH moved AS (
+         UPDATE public.%I SET artist_id = $1 WHERE artist_id = $2 RETURNING id
+       )
+       SELECT COALESCE(jsonb_agg(id), ''[]'') FROM moved',
+      v_table
+    )
+    INTO v_ids
+    USING p_target_id, p_source_id;
+
+    IF jsonb_array_length(v_ids) > 0 THEN
+      v_moved := v_moved || jsonb_build_object(v_table, v_ids);
+    END IF;
+  END LOOP;
+
+  DELETE FROM artists WHERE id = p_source_id;
+
+  UPDATE artists
+  SET spotify_id = COALESCE(spotify_id, v_source.spotify_id),
+      setlist_fm_mbid = COALESCE(setlist_fm_mbid, v_source.setlist_fm_mbid),
+      image_url = COALESCE(image_url, v_source.image_url),
+      updated_at = now()
+  WHERE id = p_target_id;
+
+  INSERT INTO artist_merges (
+    source_artist_id, target_artist_id, source_snapshot, target_snapshot, moved, merged_by, note
+  )
+  VALUES (
+    p_source_id, p_target_id, to_jsonb(v_source), to_jsonb(v_target), v_moved, auth.uid(), p_note
+  )
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Feed items for the signed-in user's follows, newest first. Pass the last
+-- item's occurred_at as p_before to page.
+CREATE OR REPLACE FUNCTION get_follow_feed(
+  p_limit INTEGER DEFAULT 30,
+  p_before TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TABLE (
+  item_type TEXT,
+  occurred_at TIMESTAMPTZ,
+  show_id UUID,
+  show_name TEXT,
+  show_date TIMESTAMPTZ,
+  image_url TEXT,
+  artist_id UUID,
+  artist_name TEXT,
+  artist_image_url TEXT,
+  venue_id UUID,
+  venue_name TEXT,
+  city TEXT,
+  state TEXT,
+  setlist_id UUID,
+  followed_via TEXT
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to see your feed';
+  END IF;
+
+  RETURN QUERY
+  WITH followed_shows AS (
+    -- A show followed through both its artist and its venue appears once,
+    -- credited to the artist
+    SELECT DISTINCT ON (s.id)
+      s.id,
+      CASE WHEN fa.id IS NOT NULL THEN 'artist' ELSE 'venue' END AS followed_via
+    FROM shows s
+    LEFT JOIN user_follows fa
+      ON fa.artist_id = s.artist_id AND fa.user_id = auth.uid() AND fa.unfollowed_at IS NULL
+    LEFT JOIN user_follows fv
+      ON fv.venue_id = s.venue_id AND fv.user_id = auth.uid() AND fv.unfollowed_at IS NULL
+    WHERE fa.id IS NOT NULL OR fv.id IS NOT NULL
+    ORDER BY s.id, fa.id NULLS LAST
+  ),
+  items AS (
+    SELECT 'show_announced'::TEXT AS item_type, s.created_at::TIMESTAMPTZ AS occurred_at,
+           s.id AS show_id, NULL::UUID AS setlist_id, f.followed_via
+    FROM followed_shows f
+    JOIN shows s ON s.id = f.id
+
+    UNION ALL
+
+    SELECT 'voting_open', sl.created_at::TIMESTAMPTZ, s.id, sl.id, f.followed_via
+    FROM followed_shows f
+    JOIN shows s ON s.id = f.id
+    JOIN setlists sl ON sl.show_id = s.id
+    WHERE sl.created_at < s.date
+
+    UNION ALL
+
+    SELECT 'setlist_played', played.synced_at, s.id, sl.id, f.followed_via
+    FROM followed_shows f
+    JOIN shows s ON s.id = f.id
+    JOIN setlists sl ON sl.show_id = s.id
+    JOIN LATERAL (
+      SELECT MIN(pss.created_at)::TIMESTAMPTZ AS synced_at
+      FROM played_setlist_songs pss
+      WHERE pss.setlist_id = sl.id
+    ) played ON played.synced_at IS NOT NULL
+  )
+  SELECT
+    i.item_type,
+    i.occurred_at,
+    s.id,
+    s.name::TEXT,
+    s.date::TIMESTAMPTZ,
+    s.image_url::TEXT,
+    a.id,
+    a.name::TEXT,
+    a.image_url::TEXT,
+    v.id,
+    v.name::TEXT,
+    v.city::TEXT,
+    v.state::TEXT,
+    i.setlist_id,
+    i.followed_via
+  FROM items i
+  JOIN shows s ON s.id = i.show_id
+  LEFT JOIN artists a ON a.id = s.artist_id
+  LEFT JOIN venues v ON v.id = s.venue_id
+  WHERE i.occurred_at IS NOT NULL
+    AND i.occurred_at < p_before
+  ORDER BY i.occurred_at DESC, s.date
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_follow_feed TO authenticated;
@@ -0,0 +1,462 @@
+-- 020_notifications.sql
+-- Notifications for followed artists and venues and the shows a user took
+-- part in. Every sync path writes shows, setlists and played setlists to the
+-- same tables, so notifications are raised by triggers rather than by each
+-- edge function:
+--   * show_announced    - a new upcoming show for a followed artist or venue
+--   * voting_open       - a setlist opened for voting before the show
+--   * voting_closed     - the show started (queued by the notifications cron)
+--   * prediction_played - songs from the user's prediction were played
+--   * setlist_posted    - the played setlist was synced
+-- A show's audience is the followers of its artist and venue plus everyone
+-- who predicted or voted on its setlist. dedupe_key keeps each notification
+-- to one per user, however often a show is re-synced.
+-- A popular show's audience is large, so the triggers only queue a
+-- notification_jobs row; the notifications cron fans it out with
+-- process_notification_jobs outside the sync write.
+--
+-- Users choose which types they get and how often unread notifications are
+-- emailed (daily or weekly digest, or off) in notification_preferences. Users
+-- with no preferences row get every type and a weekly digest.
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN (
+    'show_announced', 'voting_open', 'voting_closed', 'prediction_played', 'setlist_posted'
+  )),
+  show_id UUID REFERENCES public.shows(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  data JSONB NOT NULL DEFAULT '{}',
+  dedupe_key TEXT NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  emailed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON public.notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_unemailed ON public.notifications(user_id) WHERE emailed_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  show_announced BOOLEAN NOT NULL DEFAULT true,
+  voting_open BOOLEAN NOT NULL DEFAULT true,
+  voting_closed BOOLEAN NOT NULL DEFAULT true,
+  prediction_played BOOLEAN NOT NULL DEFAULT true,
+  setlist_posted BOOLEAN NOT NULL DEFAULT true,
+  email_digest TEXT NOT NULL DEFAULT 'weekly' CHECK (email_digest IN ('off', 'daily', 'weekly')),
+  last_digest_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are only created by the functions below
+DROP POLICY IF EXISTS "Users can read their own notifications" ON public.notifications;
+CREATE POLICY "Users can read their own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own notifications" ON public.notifications;
+CREATE POLICY "Users can update their own notifications"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can read their own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can read their own notification preferences"
+  ON public.notification_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can create their own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can create their own notification preferences"
+  ON public.notification_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update their own notification preferences" ON public.notification_preferences;
+CREATE POLICY "Users can update their own notification preferences"
+  ON public.notification_preferences FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Followers of the show's artist and venue, and everyone who predicted or
+-- voted on its setlist
+CREATE OR REPLACE FUNCTION show_audience(p_show_id UUID)
+RETURNS TABLE (user_id UUID) AS $$
+  SELECT f.user_id
+  FROM shows s
+  JOIN user_follows f
+    ON (f.artist_id = s.artist_id OR f.venue_id = s.venue_id)
+   AND f.unfollowed_at IS NULL
+  WHERE s.id = p_show_id
+
+  UNION
+
+  SELECT sp.user_id
+  FROM setlists sl
+  JOIN setlist_predictions sp ON sp.setlist_id = sl.id
+  WHERE sl.show_id = p_show_id
+
+  UNION
+
+  SELECT v.user_id
+  FROM setlists sl
+  JOIN setlist_songs ss ON ss.setlist_id = sl.id
+  JOIN votes v ON v.song_id = ss.id
+  WHERE sl.show_id = p_show_id
+    AND v.user_id IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Notify users about a show: the given users, or the show's whole audience.
+-- Users who turned the type off are skipped. Returns the number of
+-- notifications created.
+CREATE OR REPLACE FUNCTION notify_show(
+  p_show_id UUID,
+  p_type TEXT,
+  p_user_ids UUID[] DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_artist TEXT;
+  v_venue TEXT;
+  v_city TEXT;
+  v_date TIMESTAMPTZ;
+  v_where TEXT;
+  v_title TEXT;
+  v_body TEXT;
+  v_data JSONB;
+  v_count INTEGER;
+BEGIN
+  SELECT COALESCE(a.name, s.name), v.name, v.city, s.date
+  INTO v_artist, v_venue, v_city, v_date
+  FROM shows s
+  LEFT JOIN artists a ON a.id = s.artist_id
+  LEFT JOIN venues v ON v.id = s.venue_id
+  WHERE s.id = p_show_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  v_where := COALESCE(v_venue, 'TBA') || COALESCE(', ' || v_city, '');
+
+  CASE p_type
+    WHEN 'show_announced' THEN
+      v_title := v_artist || ' announced a show';
+      v_body := v_where || ' · ' || to_char(v_date, 'Mon FMDD, YYYY');
+    WHEN 'voting_open' THEN
+      v_title := 'Setlist voting is open for ' || v_artist;
+      v_body := v_where || ' · ' || to_char(v_date, 'Mon FMDD, YYYY');
+    WHEN 'voting_closed' THEN
+      v_title := 'Voting has closed for ' || v_artist || ' at ' || COALESCE(v_venue, 'the show');
+      v_body := 'See the setlist fans voted for';
+    WHEN 'prediction_played' THEN
+      v_title := CASE WHEN (p_data->>'songs_hit')::INTEGER = 1
+        THEN '1 song you predicted was played'
+        ELSE COALESCE(p_data->>'songs_hit', 'Songs') || ' songs you predicted were played'
+      END;
+      v_body := v_artist || ' at ' || v_where;
+    WHEN 'setlist_posted' THEN
+      v_title := 'The setlist for ' || v_artist || ' at ' || COALESCE(v_venue, 'the show') || ' is up';
+      v_body := 'See what was played';
+    ELSE
+      RAISE EXCEPTION 'Unknown notification type %', p_type;
+  END CASE;
+
+  v_data := jsonb_build_object(
+    'artist_name', v_artist,
+    'venue_name', v_venue,
+    'city', v_city,
+    'date', v_date
+  ) || COALESCE(p_data, '{}');
+
+  INSERT INTO notifications (user_id, type, show_id, title, body, link, data, dedupe_key)
+  SELECT
+    r.user_id, p_type, p_show_id, v_title, v_body, '/shows/' || p_show_id, v_data,
+    p_type || ':' || p_show_id
+  FROM (
+    SELECT DISTINCT unnest(p_user_ids) AS user_id WHERE p_user_ids IS NOT NULL
+    UNION
+    SELECT a.user_id FROM show_audience(p_show_id) a WHERE p_user_ids IS NULL
+  ) r
+  LEFT JOIN notification_preferences np ON np.user_id = r.user_id
+  WHERE COALESCE((to_jsonb(np)->>p_type)::BOOLEAN, true)
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Pending fan-outs. A show can only have one pending audience-wide job per
+-- type, so a show re-synced before the cron runs is notified once.
+CREATE TABLE IF NOT EXISTS public.notification_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  user_ids UUID[],
+  data JSONB NOT NULL DEFAULT '{}',
+  notifications_created INTEGER,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_jobs_pending_audience
+  ON public.notification_jobs(show_id, type)
+  WHERE processed_at IS NULL AND user_ids IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notification_jobs_pending
+  ON public.notification_jobs(id)
+  WHERE processed_at IS NULL;
+
+-- Service role only: no policies
+ALTER TABLE public.notification_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Queue a notify_show call for the notifications cron
+CREATE OR REPLACE FUNCTION queue_show_notification(
+  p_show_id UUID,
+  p_type TEXT,
+  p_user_ids UUID[] DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'
+)
+RETURNS VOID AS $$
+  INSERT INTO notification_jobs (show_id, type, user_ids, data)
+  VALUES (p_show_id, p_type, p_user_ids, COALESCE(p_data, '{}'))
+  ON CONFLICT (show_id, type) WHERE processed_at IS NULL AND user_ids IS NULL
+  DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Fan out queued notifications, oldest first. A job that fails is recorded
+-- with its error and not retried. Returns the number of notifications
+-- created.
+CREATE OR REPLACE FUNCTION process_notification_jobs(p_limit INTEGER DEFAULT 100)
+RETURNS INTEGER AS $$
+DECLARE
+  v_job notification_jobs%ROWTYPE;
+  v_created INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  FOR v_job IN
+    SELECT *
+    FROM notification_jobs
+    WHERE processed_at IS NULL
+    ORDER BY id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 1000)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      v_created := notify_show(v_job.show_id, v_job.type, v_job.user_ids, v_job.data);
+      UPDATE notification_jobs
+      SET processed_at = now(), notifications_created = v_created
+      WHERE id = v_job.id;
+      v_total := v_total + v_created;
+    EXCEPTION WHEN others THEN
+      UPDATE notification_jobs
+      SET processed_at = now(), error = left(SQLERRM, 500)
+      WHERE id = v_job.id;
+    END;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Triggers. A failed notification never fails the sync write that raised it.
+-- Audience-wide notifications are queued; prediction_played only goes to the
+-- one user and is created directly.
+CREATE OR REPLACE FUNCTION notify_show_announced()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.date > now() THEN
+    PERFORM queue_show_notification(NEW.id, 'show_announced');
+  END IF;
+  RETURN NEW;
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'Could not notify show_announced for %: %', NEW.id, SQLERRM;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_show_announced ON public.shows;
+CREATE TRIGGER notify_show_announced
+  AFTER INSERT ON public.shows
+  FOR EACH ROW EXECUTE FUNCTION notify_show_announced();
+
+CREATE OR REPLACE FUNCTION notify_voting_open()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.show_id IS NOT NULL
+     AND EXISTS (SELECT 1 FROM shows WHERE id = NEW.show_id AND date > now()) THEN
+    PERFORM queue_show_notification(NEW.show_id, 'voting_open');
+  END IF;
+  RETURN NEW;
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'Could not notify voting_open for %: %', NEW.show_id, SQLERRM;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_voting_open ON public.setlists;
+CREATE TRIGGER notify_voting_open
+  AFTER INSERT ON public.setlists
+  FOR EACH ROW EXECUTE FUNCTION notify_voting_open();
+
+CREATE OR REPLACE FUNCTION notify_prediction_played()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.songs_hit > 0 THEN
+    PERFORM notify_show(
+      NEW.show_id, 'prediction_played', ARRAY[NEW.user_id],
+      jsonb_build_object('songs_hit', NEW.songs_hit, 'total_score', NEW.total_score)
+    );
+  END IF;
+  RETURN NEW;
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'Could not notify prediction_played for %: %', NEW.show_id, SQLERRM;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_prediction_played ON public.prediction_scores;
+CREATE TRIGGER notify_prediction_played
+  AFTER INSERT OR UPDATE OF songs_hit ON public.prediction_scores
+  FOR EACH ROW EXECUTE FUNCTION notify_prediction_played();
+
+-- Played songs are written a setlist at a time, so notify once per statement
+CREATE OR REPLACE FUNCTION notify_setlist_posted()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_show_id UUID;
+BEGIN
+  FOR v_show_id IN
+    SELECT DISTINCT sl.show_id
+    FROM new_rows n
+    JOIN setlists sl ON sl.id = n.setlist_id
+    WHERE sl.show_id IS NOT NULL
+  LOOP
+    PERFORM queue_show_notification(v_show_id, 'setlist_posted');
+  END LOOP;
+  RETURN NULL;
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'Could not notify setlist_posted: %', SQLERRM;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_setlist_posted ON public.played_setlist_songs;
+CREATE TRIGGER notify_setlist_posted
+  AFTER INSERT ON public.played_setlist_songs
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION notify_setlist_posted();
+
+-- Voting closes when the show starts. Run from the notifications cron; shows
+-- that started in the last day and had a setlist open for voting are
+-- notified once. Returns the number of notifications created.
+CREATE OR REPLACE FUNCTION queue_voting_closed_notifications()
+RETURNS INTEGER AS $$
+DECLARE
+  v_show_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_show_id IN
+    SELECT s.id
+    FROM shows s
+    WHERE s.date <= now()
+      AND s.date > now() - INTERVAL '1 day'
+      AND EXISTS (SELECT 1 FROM setlists sl WHERE sl.show_id = s.id)
+  LOOP
+    v_count := v_count + notify_show(v_show_id, 'voting_closed');
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Users whose email digest is due, with their unread, unemailed
+-- notifications oldest first (at most 50 each)
+CREATE OR REPLACE FUNCTION get_due_notification_digests(p_limit INTEGER DEFAULT 100)
+RETURNS TABLE (
+  user_id UUID,
+  email TEXT,
+  frequency TEXT,
+  notifications JSONB
+) AS $$
+  SELECT
+    u.id,
+    u.email::TEXT,
+    COALESCE(np.email_digest, 'weekly'),
+    (
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', n.id,
+        'type', n.type,
+        'title', n.title,
+        'body', n.body,
+        'link', n.link,
+        'created_at', n.created_at
+      ) ORDER BY n.created_at)
+      FROM (
+        SELECT *
+        FROM notifications n
+        WHERE n.user_id = u.id AND n.emailed_at IS NULL AND n.read_at IS NULL
+        ORDER BY n.created_at
+        LIMIT 50
+      ) n
+    )
+  FROM auth.users u
+  LEFT JOIN notification_preferences np ON np.user_id = u.id
+  WHERE u.email IS NOT NULL
+    AND COALESCE(np.email_digest, 'weekly') <> 'off'
+    AND (
+      np.last_digest_at IS NULL
+      OR np.last_digest_at <= now() - CASE COALESCE(np.email_digest, 'weekly')
+        WHEN 'daily' THEN INTERVAL '1 day'
+        ELSE INTERVAL '7 days'
+      END
+    )
+    AND EXISTS (
+      SELECT 1 FROM notifications n
+      WHERE n.user_id = u.id AND n.emailed_at IS NULL AND n.read_at IS NULL
+    )
+  ORDER BY np.last_digest_at NULLS FIRST
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Record a sent digest
+CREATE OR REPLACE FUNCTION mark_notification_digest_sent(
+  p_user_id UUID,
+  p_notification_ids UUID[]
+)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE notifications
+  SET emailed_at = now()
+  WHERE user_id = p_user_id AND id = ANY(p_notification_ids);
+
+  INSERT INTO notification_preferences (user_id, last_digest_at)
+  VALUES (p_user_id, now())
+  ON CONFLICT (user_id) DO UPDATE SET last_digest_at = EXCLUDED.last_digest_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.queue_voting_closed_notifications TO service_role;
+GRANT EXECUTE ON FUNCTION public.get_due_notification_digests TO service_role;
+GRANT EXECUTE ON FUNCTION public.mark_notification_digest_sent TO service_role;
+GRANT EXECUTE ON FUNCTION public.notify_show TO service_role;
+GRANT EXECUTE ON FUNCTION public.show_audience TO service_role;
+GRANT EXECUTE ON FUNCTION public.queue_show_notification TO service_role;
+GRANT EXECUTE ON FUNCTION public.process_notification_jobs TO service_role;
+REVOKE EXECUTE ON FUNCTION public.notify_show FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.show_audience FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_show_notification FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.process_notification_jobs FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_show_announced FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_voting_open FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_prediction_played FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_setlist_posted FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_due_notification_digests FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.mark_notification_digest_sent FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_voting_closed_notifications FROM PUBLIC, anon, authenticated;
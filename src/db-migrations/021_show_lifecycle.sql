@@ -0,0 +1,493 @@
+-- 021_show_lifecycle.sql
+-- Shows move through an explicit lifecycle:
+--
+--   announced -> voting_open -> locked -> played -> setlist_confirmed
+--
+-- Voting opens at local midnight 60 days before doors and locks at doors,
+-- both worked out in the venue's time zone. A show counts as played five
+-- hours after doors, and is setlist_confirmed once its played setlist has
+-- been synced. advance_show_lifecycles applies the transitions on a schedule
+-- (see /api/cron/show-lifecycle); cast_vote and submit_setlist_prediction
+-- check the voting window itself, so a late transition never lets a vote in.
+-- The voting_open and voting_closed notifications now follow the lifecycle
+-- instead of setlist creation and the notifications cron.
+
+-- IANA zone from Ticketmaster, e.g. America/New_York
+ALTER TABLE public.venues
+  ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+ALTER TABLE public.shows
+  ADD COLUMN IF NOT EXISTS lifecycle_state TEXT NOT NULL DEFAULT 'announced'
+    CHECK (lifecycle_state IN ('announced', 'voting_open', 'locked', 'played', 'setlist_confirmed')),
+  ADD COLUMN IF NOT EXISTS voting_opens_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS voting_locks_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS lifecycle_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_shows_lifecycle
+  ON public.shows(lifecycle_state, voting_locks_at);
+
+-- The zone to work in: the given one, or UTC when it is missing or unknown
+CREATE OR REPLACE FUNCTION valid_time_zone(p_time_zone TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_time_zone IS NULL OR p_time_zone = '' THEN
+    RETURN 'UTC';
+  END IF;
+
+  PERFORM now() AT TIME ZONE p_time_zone;
+  RETURN p_time_zone;
+EXCEPTION WHEN invalid_parameter_value THEN
+  RETURN 'UTC';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- When voting opens and locks for a show starting at p_date. Doors are an
+-- hour before the start time; shows synced with only a date are stored at
+-- midnight UTC and get doors at 6pm local time.
+CREATE OR REPLACE FUNCTION show_voting_window(p_date TIMESTAMPTZ, p_time_zone TEXT)
+RETURNS TABLE (opens_at TIMESTAMPTZ, locks_at TIMESTAMPTZ) AS $$
+DECLARE
+  v_zone TEXT := valid_time_zone(p_time_zone);
+  v_doors TIMESTAMPTZ;
+BEGIN
+  IF p_date IS NULL THEN
+    RETURN QUERY SELECT NULL::TIMESTAMPTZ, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  IF (p_date AT TIME ZONE 'UTC')::TIME = TIME '00:00' THEN
+    v_doors := ((p_date AT TIME ZONE 'UTC')::DATE + TIME '18:00') AT TIME ZONE v_zone;
+  ELSE
+    v_doors := p_date - INTERVAL '1 hour';
+  END IF;
+
+  RETURN QUERY SELECT
+    ((v_doors AT TIME ZONE v_zone)::DATE - 60)::TIMESTAMP AT TIME ZONE v_zone,
+    v_doors;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- The state a show should be in at p_at. Shows without a date stay announced.
+CREATE OR REPLACE FUNCTION show_lifecycle_state(
+  p_opens_at TIMESTAMPTZ,
+  p_locks_at TIMESTAMPTZ,
+  p_setlist_played BOOLEAN,
+  p_at TIMESTAMPTZ DEFAULT now()
+)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_locks_at IS NULL THEN 'announced'
+    WHEN p_at >= p_locks_at AND p_setlist_played THEN 'setlist_confirmed'
+    WHEN p_at >= p_locks_at + INTERVAL '5 hours' THEN 'played'
+    WHEN p_at >= p_locks_at THEN 'locked'
+    WHEN p_at >= p_opens_at THEN 'voting_open'
+    ELSE 'announced'
+  END;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION show_setlist_played(p_show_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM played_setlist_songs pss
+    JOIN setlists sl ON sl.id = pss.setlist_id
+    WHERE sl.show_id = p_show_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Whether votes and predictions are accepted for a show right now. Checks the
+-- window rather than lifecycle_state, which only moves when the cron runs.
+CREATE OR REPLACE FUNCTION show_voting_open(p_show_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM shows s
+    WHERE s.id = p_show_id
+      AND s.voting_opens_at <= now()
+      AND now() < s.voting_locks_at
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Backfill before the triggers below exist, so no notifications go out for
+-- shows that are already mid-lifecycle
+UPDATE shows s
+SET voting_opens_at = w.opens_at,
+    voting_locks_at = w.locks_at,
+    lifecycle_state = show_lifecycle_state(w.opens_at, w.locks_at, show_setlist_played(s2.id)),
+    lifecycle_changed_at = now()
+FROM shows s2
+LEFT JOIN venues v ON v.id = s2.venue_id
+CROSS JOIN LATERAL show_voting_window(s2.date, v.timezone) w
+WHERE s.id = s2.id;
+
+-- Keep the window in step with the show's date and venue
+CREATE OR REPLACE FUNCTION set_show_voting_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_time_zone TEXT;
+  v_state TEXT;
+BEGIN
+  SELECT timezone INTO v_time_zone FROM venues WHERE id = NEW.venue_id;
+
+  SELECT w.opens_at, w.locks_at
+  INTO NEW.voting_opens_at, NEW.voting_locks_at
+  FROM show_voting_window(NEW.date, v_time_zone) w;
+
+  v_state := show_lifecycle_state(
+    NEW.voting_opens_at,
+    NEW.voting_locks_at,
+    TG_OP = 'UPDATE' AND show_setlist_played(NEW.id)
+  );
+
+  IF TG_OP = 'INSERT' OR v_state <> OLD.lifecycle_state THEN
+    NEW.lifecycle_state := v_state;
+    NEW.lifecycle_changed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_show_voting_window ON public.shows;
+CREATE TRIGGER set_show_voting_window
+  BEFORE INSERT OR UPDATE OF date, venue_id ON public.shows
+  FOR EACH ROW EXECUTE FUNCTION set_show_voting_window();
+
+-- A venue's zone usually arrives after its first shows; move the windows of
+-- its upcoming shows when it does
+CREATE OR REPLACE FUNCTION refresh_venue_voting_windows()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE shows s
+  SET voting_opens_at = w.opens_at,
+      voting_locks_at = w.locks_at
+  FROM shows s2
+  CROSS JOIN LATERAL show_voting_window(s2.date, NEW.timezone) w
+  WHERE s.id = s2.id
+    AND s2.venue_id = NEW.id
+    AND s2.lifecycle_state IN ('announced', 'voting_open');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS refresh_venue_voting_windows ON public.venues;
+CREATE TRIGGER refresh_venue_voting_windows
+  AFTER UPDATE OF timezone ON public.venues
+  FOR EACH ROW
+  WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+  EXECUTE FUNCTION refresh_venue_voting_windows();
+
+-- Move every show to the state its window puts it in. Run from the
+-- show-lifecycle cron; returns the number of shows that changed state.
+CREATE OR REPLACE FUNCTION advance_show_lifecycles()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE shows s
+  SET lifecycle_state = t.state,
+      lifecycle_changed_at = now()
+  FROM (
+    SELECT
+      s2.id,
+      show_lifecycle_state(
+        s2.voting_opens_at,
+        s2.voting_locks_at,
+        s2.voting_locks_at <= now() AND show_setlist_played(s2.id)
+      ) AS state
+    FROM shows s2
+    WHERE s2.lifecycle_state <> 'setlist_confirmed'
+      AND s2.voting_locks_at IS NOT NULL
+  ) t
+  WHERE s.id = t.id
+    AND s.lifecycle_state <> t.state;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A synced setlist confirms its show straight away
+CREATE OR REPLACE FUNCTION confirm_played_setlists()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE shows s
+  SET lifecycle_state = 'setlist_confirmed',
+      lifecycle_changed_at = now()
+  WHERE s.id IN (
+      SELECT sl.show_id
+      FROM new_rows n
+      JOIN setlists sl ON sl.id = n.setlist_id
+    )
+    AND s.voting_locks_at <= now()
+    AND s.lifecycle_state <> 'setlist_confirmed';
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS confirm_played_setlists ON public.played_setlist_songs;
+CREATE TRIGGER confirm_played_setlists
+  AFTER INSERT ON public.played_setlist_songs
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT EXECUTE FUNCTION confirm_played_setlists();
+
+-- Voting notifications follow the lifecycle. A show that is announced inside
+-- its window only gets the show_announced notification.
+DROP TRIGGER IF EXISTS notify_voting_open ON public.setlists;
+DROP FUNCTION IF EXISTS public.notify_voting_open();
+DROP FUNCTION IF EXISTS public.queue_voting_closed_notifications();
+
+CREATE OR REPLACE FUNCTION notify_show_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.lifecycle_state = 'voting_open' THEN
+    PERFORM queue_show_notification(NEW.id, 'voting_open');
+  ELSIF NEW.lifecycle_state = 'locked'
+     AND EXISTS (SELECT 1 FROM setlists WHERE show_id = NEW.id) THEN
+    PERFORM queue_show_notification(NEW.id, 'voting_closed');
+  END IF;
+  RETURN NEW;
+EXCEPTION WHEN others THEN
+  RAISE WARNING 'Could not notify % for %: %', NEW.lifecycle_state, NEW.id, SQLERRM;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_show_lifecycle ON public.shows;
+CREATE TRIGGER notify_show_lifecycle
+  AFTER UPDATE ON public.shows
+  FOR EACH ROW
+  WHEN (OLD.lifecycle_state IS DISTINCT FROM NEW.lifecycle_state)
+  EXECUTE FUNCTION notify_show_lifecycle();
+
+-- Votes are refused outside the voting window; the rest is unchanged from
+-- 013_vote_service.sql
+-- Record (p_action 'increment') or remove ('decrement') one vote.
+-- Exactly one of p_user_id and p_anonymous_session_id must be given.
+-- status is one of:
+--   recorded       the vote was added
+--   removed        the vote was taken back
+--   unchanged      nothing to do: already voted, or no vote to remove
+--   limit_reached  the anonymous session has used its votes for this show
+--   auth_required  anonymous sessions cannot remove votes
+--   merged         the anonymous session already belongs to an account
+--   not_found      unknown song or session
+--   voting_closed  the show is outside its voting window
+--   conflict       the idempotency key was used for a different request
+-- A repeated key returns the first request's outcome with the current tally.
+-- votes_remaining is NULL for accounts, which are not capped.
+CREATE OR REPLACE FUNCTION cast_vote(
+  p_song_id UUID,
+  p_action TEXT,
+  p_idempotency_key TEXT,
+  p_user_id UUID DEFAULT NULL,
+  p_anonymous_session_id UUID DEFAULT NULL,
+  p_max_anonymous_votes INTEGER DEFAULT 3,
+  p_ip_hash TEXT DEFAULT NULL,
+  p_device_hash TEXT DEFAULT NULL
+)
+RETURNS TABLE (status TEXT, vote_count INTEGER, votes_used INTEGER, votes_remaining INTEGER) AS $$
+#variable_conflict use_column
+DECLARE
+  request vote_requests%ROWTYPE;
+  session anonymous_sessions%ROWTYPE;
+  existing votes%ROWTYPE;
+  v_show_id UUID;
+  v_status TEXT;
+  used INTEGER;
+  remaining INTEGER;
+BEGIN
+  IF p_action NOT IN ('increment', 'decrement') THEN
+    RAISE EXCEPTION 'Unknown vote action: %', p_action;
+  END IF;
+
+  IF (p_user_id IS NULL) = (p_anonymous_session_id IS NULL) THEN
+    RAISE EXCEPTION 'A vote needs exactly one of a user or an anonymous session';
+  END IF;
+
+  -- Serialize retries of one request so only the first does any work
+  PERFORM pg_advisory_xact_lock(abs(hashtext('vote_request:' || p_idempotency_key)::bigint));
+
+  SELECT * INTO request FROM vote_requests vr WHERE vr.idempotency_key = p_idempotency_key;
+  IF FOUND THEN
+    IF request.song_id <> p_song_id
+      OR request.action <> p_action
+      OR request.user_id IS DISTINCT FROM p_user_id
+      OR request.anonymous_session_id IS DISTINCT FROM p_anonymous_session_id
+    THEN
+      RETURN QUERY SELECT 'conflict'::TEXT, NULL::INTEGER, NULL::INTEGER, NULL::INTEGER;
+      RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT request.status, ss.vote_count, request.votes_used, request.votes_remaining
+    FROM (SELECT 1) one
+    LEFT JOIN setlist_songs ss ON ss.id = p_song_id;
+    RETURN;
+  END IF;
+
+  SELECT sl.show_id INTO v_show_id
+  FROM setlist_songs ss
+  JOIN setlists sl ON sl.id = ss.setlist_id
+  WHERE ss.id = p_song_id;
+
+  IF v_show_id IS NULL THEN
+    v_status := 'not_found';
+  ELSIF NOT show_voting_open(v_show_id) THEN
+    v_status := 'voting_closed';
+  ELSIF p_anonymous_session_id IS NOT NULL THEN
+    SELECT * INTO session FROM anonymous_sessions s WHERE s.id = p_anonymous_session_id;
+
+    IF NOT FOUND THEN
+      v_status := 'not_found';
+    ELSIF session.merged_into_user_id IS NOT NULL THEN
+      v_status := 'merged';
+    ELSIF p_action = 'decrement' THEN
+      v_status := 'auth_required';
+    ELSE
+      -- Serialize votes from one session on one show so the cap cannot be raced
+      PERFORM pg_advisory_xact_lock(abs(hashtext('anonymous_vote:' || p_anonymous_session_id::text || ':' || v_show_id::text)::bigint));
+
+      SELECT COUNT(*)::INTEGER INTO used
+      FROM votes v
+      JOIN setlist_songs ss ON ss.id = v.song_id
+      JOIN setlists sl ON sl.id = ss.setlist_id
+      WHERE v.anonymous_session_id = p_anonymous_session_id
+        AND sl.show_id = v_show_id;
+
+      UPDATE anonymous_sessions s SET last_seen_at = now() WHERE s.id = p_anonymous_session_id;
+
+      IF EXISTS (
+        SELECT 1 FROM votes v
+        WHERE v.anonymous_session_id = p_anonymous_session_id AND v.song_id = p_song_id
+      ) THEN
+        v_status := 'unchanged';
+      ELSIF used >= p_max_anonymous_votes THEN
+        v_status := 'limit_reached';
+      ELSE
+        INSERT INTO votes (song_id, user_id, anonymous, anonymous_session_id, count, ip_hash, device_hash)
+        VALUES (p_song_id, NULL, true, p_anonymous_session_id, 1, p_ip_hash, p_device_hash);
+
+        UPDATE setlist_songs ss
+        SET vote_count = COALESCE(ss.vote_count, 0) + 1,
+            updated_at = now()
+        WHERE ss.id = p_song_id;
+
+        used := used + 1;
+        v_status := 'recorded';
+      END IF;
+
+      remaining := GREATEST(p_max_anonymous_votes - used, 0);
+    END IF;
+  ELSE
+    PERFORM pg_advisory_xact_lock(abs(hashtext('user_vote:' || p_user_id::text || ':' || p_song_id::text)::bigint));
+
+    SELECT * INTO existing FROM votes v WHERE v.user_id = p_user_id AND v.song_id = p_song_id;
+
+    IF p_action = 'increment' THEN
+      IF FOUND THEN
+        v_status := 'unchanged';
+      ELSE
+        INSERT INTO votes (song_id, user_id, count, ip_hash, device_hash)
+        VALUES (p_song_id, p_user_id, 1, p_ip_hash, p_device_hash);
+
+        UPDATE setlist_songs ss
+        SET vote_count = COALESCE(ss.vote_count, 0) + 1,
+            updated_at = now()
+        WHERE ss.id = p_song_id;
+
+        v_status := 'recorded';
+      END IF;
+    ELSE
+      IF NOT FOUND THEN
+        v_status := 'unchanged';
+      ELSE
+        DELETE FROM votes v WHERE v.id = existing.id;
+
+        -- Quarantined and rejected votes were already taken out of the count
+        IF existing.moderation_status = 'counted' THEN
+          UPDATE setlist_songs ss
+          SET vote_count = GREATEST(COALESCE(ss.vote_count, 0) - 1, 0),
+              updated_at = now()
+          WHERE ss.id = p_song_id;
+        END IF;
+
+        v_status := 'removed';
+      END IF;
+    END IF;
+
+    SELECT COUNT(*)::INTEGER INTO used
+    FROM votes v
+    JOIN setlist_songs ss ON ss.id = v.song_id
+    JOIN setlists sl ON sl.id = ss.setlist_id
+    WHERE v.user_id = p_user_id
+      AND sl.show_id = v_show_id;
+  END IF;
+
+  INSERT INTO vote_requests (
+    idempotency_key, song_id, action, user_id, anonymous_session_id,
+    status, votes_used, votes_remaining
+  )
+  VALUES (
+    p_idempotency_key, p_song_id, p_action, p_user_id,
+    CASE WHEN v_status = 'not_found' THEN NULL ELSE p_anonymous_session_id END,
+    v_status, used, remaining
+  );
+
+  RETURN QUERY
+  SELECT v_status, ss.vote_count, used, remaining
+  FROM (SELECT 1) one
+  LEFT JOIN setlist_songs ss ON ss.id = p_song_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Replace the calling user's prediction for a setlist and refresh the consensus.
+-- p_songs is an ordered JSON array of { "song_id": uuid, "slot": text };
+-- positions follow array order. Predictions close with voting at doors.
+CREATE OR REPLACE FUNCTION submit_setlist_prediction(
+  p_setlist_id UUID,
+  p_songs JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_prediction_id UUID;
+  v_show_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Authentication required';
+  END IF;
+
+  PERFORM validate_setlist_prediction(p_setlist_id, p_songs);
+
+  SELECT show_id INTO v_show_id FROM setlists WHERE id = p_setlist_id;
+  IF NOT show_voting_open(v_show_id) THEN
+    RAISE EXCEPTION 'Voting is closed for this show';
+  END IF;
+
+  INSERT INTO setlist_predictions (setlist_id, user_id)
+  VALUES (p_setlist_id, v_user_id)
+  ON CONFLICT (setlist_id, user_id) DO UPDATE SET updated_at = now()
+  RETURNING id INTO v_prediction_id;
+
+  DELETE FROM setlist_prediction_songs WHERE prediction_id = v_prediction_id;
+
+  INSERT INTO setlist_prediction_songs (prediction_id, song_id, position, slot)
+  SELECT v_prediction_id,
+         (item.value->>'song_id')::UUID,
+         item.ordinality,
+         COALESCE(item.value->>'slot', 'main')
+  FROM jsonb_array_elements(p_songs) WITH ORDINALITY AS item(value, ordinality);
+
+  PERFORM recompute_setlist_consensus(p_setlist_id);
+
+  RETURN v_prediction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.advance_show_lifecycles TO service_role;
+GRANT EXECUTE ON FUNCTION public.show_voting_open TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.advance_show_lifecycles FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.notify_show_lifecycle FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cast_vote FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,263 @@
+-- 022_events.sql
+-- Events group performances. Until now a show was one artist on one night,
+-- so festivals collapsed to their first Ticketmaster attraction and the
+-- nights of a residency were unrelated rows.
+--
+--   * A festival is one Ticketmaster event with many attractions. Show sync
+--     saves the event and one show per attraction, each a performance with
+--     its own artist, stage and set time.
+--   * A residency is one artist playing nights at the same venue no more than
+--     two days apart. A trigger groups those shows as they are saved.
+--
+-- Performances stay rows in shows, so setlists, votes, predictions and the
+-- lifecycle work per performance unchanged. A performance with a set time
+-- locks voting when its set starts rather than at doors. Festival pages read
+-- the lineup through get_event_lineup.
+
+CREATE TABLE IF NOT EXISTS public.events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- Ticketmaster event ID; residencies have none
+  external_id TEXT UNIQUE,
+  kind TEXT NOT NULL CHECK (kind IN ('festival', 'residency')),
+  name TEXT NOT NULL,
+  venue_id UUID REFERENCES public.venues(id) ON DELETE SET NULL,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  image_url TEXT,
+  ticket_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_starts_at ON public.events(starts_at);
+
+ALTER TABLE public.shows
+  ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES public.events(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS stage TEXT,
+  ADD COLUMN IF NOT EXISTS set_starts_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_shows_event_id ON public.shows(event_id);
+
+ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Events are viewable by everyone" ON public.events;
+CREATE POLICY "Events are viewable by everyone"
+  ON public.events FOR SELECT
+  USING (true);
+
+-- A performance with a set time locks when its set starts; everything else
+-- still locks at doors
+CREATE OR REPLACE FUNCTION set_show_voting_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_time_zone TEXT;
+  v_state TEXT;
+BEGIN
+  SELECT timezone INTO v_time_zone FROM venues WHERE id = NEW.venue_id;
+
+  SELECT w.opens_at, COALESCE(NEW.set_starts_at, w.locks_at)
+  INTO NEW.voting_opens_at, NEW.voting_locks_at
+  FROM show_voting_window(NEW.date, v_time_zone) w;
+
+  v_state := show_lifecycle_state(
+    NEW.voting_opens_at,
+    NEW.voting_locks_at,
+    TG_OP = 'UPDATE' AND show_setlist_played(NEW.id)
+  );
+
+  IF TG_OP = 'INSERT' OR v_state <> OLD.lifecycle_state THEN
+    NEW.lifecycle_state := v_state;
+    NEW.lifecycle_changed_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_show_voting_window ON public.shows;
+CREATE TRIGGER set_show_voting_window
+  BEFORE INSERT OR UPDATE OF date, venue_id, set_starts_at ON public.shows
+  FOR EACH ROW EXECUTE FUNCTION set_show_voting_window();
+
+CREATE OR REPLACE FUNCTION refresh_venue_voting_windows()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE shows s
+  SET voting_opens_at = w.opens_at,
+      voting_locks_at = COALESCE(s2.set_starts_at, w.locks_at)
+  FROM shows s2
+  CROSS JOIN LATERAL show_voting_window(s2.date, NEW.timezone) w
+  WHERE s.id = s2.id
+    AND s2.venue_id = NEW.id
+    AND s2.lifecycle_state IN ('announced', 'voting_open');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Group a show with the artist's other nights at the same venue. Nights no
+-- more than two days apart chain into one run; a run of two or more shows
+-- joins the residency one of its nights already belongs to, or starts a new
+-- one. Festival performances are left alone. Returns the residency, if any.
+CREATE OR REPLACE FUNCTION link_show_residency(p_show_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_show shows%ROWTYPE;
+  v_run UUID[];
+  v_event_id UUID;
+BEGIN
+  SELECT * INTO v_show FROM shows WHERE id = p_show_id;
+
+  IF NOT FOUND
+     OR v_show.artist_id IS NULL
+     OR v_show.venue_id IS NULL
+     OR v_show.date IS NULL
+     OR EXISTS (SELECT 1 FROM events WHERE id = v_show.event_id AND kind = 'festival') THEN
+    RETURN NULL;
+  END IF;
+
+  WITH RECURSIVE run AS (
+    SELECT s.id, s.date
+    FROM shows s
+    WHERE s.id = p_show_id
+
+    UNION
+
+    SELECT s.id, s.date
+    FROM run r
+    JOIN shows s
+      ON s.artist_id = v_show.artist_id
+     AND s.venue_id = v_show.venue_id
+     AND s.date BETWEEN r.date - INTERVAL '2 days' AND r.date + INTERVAL '2 days'
+    LEFT JOIN events e ON e.id = s.event_id
+    WHERE e.kind IS DISTINCT FROM 'festival'
+  )
+  SELECT array_agg(id) INTO v_run FROM run;
+
+  IF array_length(v_run, 1) < 2 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT s.event_id INTO v_event_id
+  FROM shows s
+  JOIN events e ON e.id = s.event_id AND e.kind = 'residency'
+  WHERE s.id = ANY(v_run)
+  ORDER BY s.date
+  LIMIT 1;
+
+  IF v_event_id IS NULL THEN
+    INSERT INTO events (kind, name, venue_id, image_url)
+    SELECT
+      'residency',
+      COALESCE(a.name, v_show.name) || COALESCE(' at ' || v.name, ''),
+      v_show.venue_id,
+      a.image_url
+    FROM (SELECT 1) one
+    LEFT JOIN artists a ON a.id = v_show.artist_id
+    LEFT JOIN venues v ON v.id = v_show.venue_id
+    RETURNING id INTO v_event_id;
+  END IF;
+
+  UPDATE shows
+  SET event_id = v_event_id
+  WHERE id = ANY(v_run)
+    AND event_id IS DISTINCT FROM v_event_id;
+
+  UPDATE events e
+  SET starts_at = r.starts_at,
+      ends_at = r.ends_at,
+      updated_at = now()
+  FROM (
+    SELECT MIN(date) AS starts_at, MAX(date) AS ends_at
+    FROM shows
+    WHERE event_id = v_event_id
+  ) r
+  WHERE e.id = v_event_id;
+
+  RETURN v_event_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION link_show_residency_trigger()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM link_show_residency(NEW.id);
+  RETURN NEW;
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Could not link show % to a residency: %', NEW.id, SQLERRM;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Setting event_id does not refire this trigger
+DROP TRIGGER IF EXISTS link_show_residency ON public.shows;
+CREATE TRIGGER link_show_residency
+  AFTER INSERT OR UPDATE OF date, artist_id, venue_id ON public.shows
+  FOR EACH ROW EXECUTE FUNCTION link_show_residency_trigger();
+
+-- Group the runs that already exist
+DO $$
+DECLARE
+  v_show_id UUID;
+BEGIN
+  FOR v_show_id IN
+    SELECT id FROM shows WHERE event_id IS NULL AND date IS NOT NULL ORDER BY date
+  LOOP
+    PERFORM link_show_residency(v_show_id);
+  END LOOP;
+END;
+$$;
+
+-- An event's performances in running order, with each artist's most-voted
+-- songs and, once synced, the songs actually played
+CREATE OR REPLACE FUNCTION get_event_lineup(p_event_id UUID, p_song_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  show_id UUID,
+  artist_id UUID,
+  artist_name TEXT,
+  artist_image_url TEXT,
+  date TIMESTAMPTZ,
+  stage TEXT,
+  set_starts_at TIMESTAMPTZ,
+  lifecycle_state TEXT,
+  voting_opens_at TIMESTAMPTZ,
+  voting_locks_at TIMESTAMPTZ,
+  top_songs JSONB,
+  played_songs JSONB
+) AS $$
+  SELECT
+    s.id,
+    s.artist_id,
+    a.name,
+    a.image_url,
+    s.date,
+    s.stage,
+    s.set_starts_at,
+    s.lifecycle_state,
+    s.voting_opens_at,
+    s.voting_locks_at,
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', t.name, 'vote_count', t.vote_count) ORDER BY t.vote_count DESC, t.name)
+      FROM (
+        SELECT ss.name, COALESCE(ss.vote_count, 0) AS vote_count
+        FROM setlist_songs ss
+        JOIN setlists sl ON sl.id = ss.setlist_id
+        WHERE sl.show_id = s.id
+        ORDER BY COALESCE(ss.vote_count, 0) DESC, ss.name
+        LIMIT p_song_limit
+      ) t
+    ), '[]'::jsonb),
+    COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('name', COALESCE(so.name, pss.name), 'position', pss.position, 'is_encore', pss.is_encore) ORDER BY pss.position)
+      FROM played_setlist_songs pss
+      JOIN setlists sl ON sl.id = pss.setlist_id
+      LEFT JOIN songs so ON so.id = pss.song_id
+      WHERE sl.show_id = s.id
+    ), '[]'::jsonb)
+  FROM shows s
+  LEFT JOIN artists a ON a.id = s.artist_id
+  WHERE s.event_id = p_event_id
+  ORDER BY COALESCE(s.set_starts_at, s.date), s.stage NULLS LAST, a.name;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_event_lineup TO anon, authenticated;
@@ -0,0 +1,711 @@
+-- 023_tours.sql
+-- Tours. setlists.tour_name is free text from setlist.fm, so a tour was only
+-- ever a string. tours makes it an entity per artist: a trigger files each
+-- synced setlist under its tour by name, and its show with it. Upcoming shows
+-- join a tour when their name mentions it, or otherwise the tour the artist
+-- is currently playing.
+--
+-- Tour statistics are read from the played setlists of its nights:
+--   * get_tour_summary: nights played, upcoming nights, average set length
+--   * get_tour_song_stats: per song play rate, opener/closer/encore counts
+--     and average position
+--   * get_tour_rotation_slots: set positions that change from night to night
+--   * get_tour_unplayed_songs: catalog songs not played on the tour yet
+--   * get_likely_setlist: the baseline setlist for an upcoming show on a tour
+--
+-- Artist merges and splits move tours and genres with the rest of an
+-- artist's rows.
+
+CREATE TABLE IF NOT EXISTS public.tours (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  artist_id UUID NOT NULL REFERENCES public.artists(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  first_played_at TIMESTAMP WITH TIME ZONE,
+  last_played_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- setlist.fm spells the same tour with different casing now and then
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tours_artist_name ON public.tours(artist_id, lower(name));
+
+ALTER TABLE public.setlists
+  ADD COLUMN IF NOT EXISTS tour_id UUID REFERENCES public.tours(id) ON DELETE SET NULL;
+
+ALTER TABLE public.shows
+  ADD COLUMN IF NOT EXISTS tour_id UUID REFERENCES public.tours(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_setlists_tour_id ON public.setlists(tour_id);
+CREATE INDEX IF NOT EXISTS idx_shows_tour_id ON public.shows(tour_id);
+
+ALTER TABLE public.tours ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tours are viewable by everyone" ON public.tours;
+CREATE POLICY "Tours are viewable by everyone"
+  ON public.tours FOR SELECT
+  USING (true);
+
+-- The tour a show without a synced setlist belongs to: one whose name is in
+-- the show's name, otherwise the tour the artist was playing up to half a
+-- year before the show
+CREATE OR REPLACE FUNCTION show_tour_for(p_artist_id UUID, p_name TEXT, p_date TIMESTAMPTZ)
+RETURNS UUID AS $$
+  SELECT t.id
+  FROM tours t
+  WHERE t.artist_id = p_artist_id
+    AND (
+      p_name ILIKE '%' || t.name || '%'
+      OR p_date BETWEEN t.first_played_at AND t.last_played_at + INTERVAL '180 days'
+    )
+  ORDER BY (p_name ILIKE '%' || t.name || '%') DESC, t.last_played_at DESC NULLS LAST
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Bring a tour's date range up to date and re-file the artist's shows that
+-- have no setlist of their own
+CREATE OR REPLACE FUNCTION refresh_tour(p_tour_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_artist_id UUID;
+BEGIN
+  UPDATE tours t
+  SET first_played_at = r.first_played_at,
+      last_played_at = r.last_played_at,
+      updated_at = now()
+  FROM (
+    SELECT
+      MIN(COALESCE(sh.date, sl.date::TIMESTAMPTZ)) AS first_played_at,
+      MAX(COALESCE(sh.date, sl.date::TIMESTAMPTZ)) AS last_played_at
+    FROM setlists sl
+    LEFT JOIN shows sh ON sh.id = sl.show_id
+    WHERE sl.tour_id = p_tour_id
+  ) r
+  WHERE t.id = p_tour_id
+  RETURNING t.artist_id INTO v_artist_id;
+
+  UPDATE shows s
+  SET tour_id = show_tour_for(s.artist_id, s.name, s.date)
+  WHERE s.artist_id = v_artist_id
+    AND s.date > now()
+    AND NOT EXISTS (
+      SELECT 1 FROM setlists sl WHERE sl.show_id = s.id AND sl.tour_id IS NOT NULL
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- File a setlist under its tour, creating the tour the first time its name
+-- turns up
+CREATE OR REPLACE FUNCTION set_setlist_tour()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_name TEXT := NULLIF(btrim(NEW.tour_name), '');
+BEGIN
+  IF v_name IS NULL OR NEW.artist_id IS NULL THEN
+    NEW.tour_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO NEW.tour_id
+  FROM tours
+  WHERE artist_id = NEW.artist_id
+    AND lower(name) = lower(v_name);
+
+  IF NEW.tour_id IS NULL THEN
+    INSERT INTO tours (artist_id, name)
+    VALUES (NEW.artist_id, v_name)
+    RETURNING id INTO NEW.tour_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_setlist_tour ON public.setlists;
+CREATE TRIGGER set_setlist_tour
+  BEFORE INSERT OR UPDATE OF tour_name, artist_id ON public.setlists
+  FOR EACH ROW EXECUTE FUNCTION set_setlist_tour();
+
+CREATE OR REPLACE FUNCTION link_setlist_tour()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.tour_id IS NOT NULL AND NEW.show_id IS NOT NULL THEN
+    UPDATE shows
+    SET tour_id = NEW.tour_id
+    WHERE id = NEW.show_id
+      AND tour_id IS DISTINCT FROM NEW.tour_id;
+  END IF;
+
+  IF NEW.tour_id IS NOT NULL THEN
+    PERFORM refresh_tour(NEW.tour_id);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.tour_id IS NOT NULL AND OLD.tour_id IS DISTINCT FROM NEW.tour_id THEN
+    PERFORM refresh_tour(OLD.tour_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS link_setlist_tour ON public.setlists;
+CREATE TRIGGER link_setlist_tour
+  AFTER INSERT OR UPDATE OF tour_name, tour_id, show_id, date ON public.setlists
+  FOR EACH ROW EXECUTE FUNCTION link_setlist_tour();
+
+-- New and rescheduled shows pick up a tour when they have none
+CREATE OR REPLACE FUNCTION set_show_tour()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.tour_id IS NULL AND NEW.artist_id IS NOT NULL THEN
+    NEW.tour_id := show_tour_for(NEW.artist_id, NEW.name, NEW.date);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_show_tour ON public.shows;
+CREATE TRIGGER set_show_tour
+  BEFORE INSERT OR UPDATE OF name, date, artist_id ON public.shows
+  FOR EACH ROW EXECUTE FUNCTION set_show_tour();
+
+-- File the setlists synced so far
+UPDATE setlists
+SET tour_name = tour_name
+WHERE NULLIF(btrim(tour_name), '') IS NOT NULL;
+
+DO $$
+DECLARE
+  v_tour_id UUID;
+BEGIN
+  FOR v_tour_id IN SELECT id FROM tours LOOP
+    UPDATE shows s
+    SET tour_id = sl.tour_id
+    FROM setlists sl
+    WHERE sl.show_id = s.id
+      AND sl.tour_id = v_tour_id;
+
+    PERFORM refresh_tour(v_tour_id);
+  END LOOP;
+END;
+$$;
+
+-- Every song played on a tour's nights, positions renumbered from 1 per
+-- night. The closer is the last song of the main set, as in prediction
+-- scoring (009_prediction_scores.sql).
+CREATE OR REPLACE FUNCTION tour_played_songs(p_tour_id UUID)
+RETURNS TABLE (
+  setlist_id UUID,
+  played_at TIMESTAMPTZ,
+  song_key TEXT,
+  song_id UUID,
+  name TEXT,
+  "position" INTEGER,
+  is_encore BOOLEAN,
+  is_opener BOOLEAN,
+  is_closer BOOLEAN
+) AS $$
+  WITH played AS (
+    SELECT
+      sl.id AS setlist_id,
+      COALESCE(sh.date, sl.date::TIMESTAMPTZ) AS played_at,
+      COALESCE(pss.song_id::TEXT, lower(COALESCE(so.name, pss.name))) AS song_key,
+      pss.song_id,
+      COALESCE(so.name, pss.name) AS name,
+      ROW_NUMBER() OVER (PARTITION BY sl.id ORDER BY pss.position)::INTEGER AS position,
+      COALESCE(pss.is_encore, false) AS is_encore
+    FROM setlists sl
+    JOIN played_setlist_songs pss ON pss.setlist_id = sl.id
+    LEFT JOIN songs so ON so.id = pss.song_id
+    LEFT JOIN shows sh ON sh.id = sl.show_id
+    WHERE sl.tour_id = p_tour_id
+  )
+  SELECT
+    p.setlist_id,
+    p.played_at,
+    p.song_key,
+    p.song_id,
+    p.name,
+    p.position,
+    p.is_encore,
+    p.position = 1,
+    NOT p.is_encore
+      AND p.position = MAX(p.position) FILTER (WHERE NOT p.is_encore) OVER (PARTITION BY p.setlist_id)
+  FROM played p;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_tour_summary(p_tour_id UUID)
+RETURNS TABLE (
+  nights_played INTEGER,
+  upcoming_shows INTEGER,
+  avg_setlist_length NUMERIC,
+  avg_encore_length NUMERIC,
+  distinct_songs INTEGER
+) AS $$
+  WITH nights AS (
+    SELECT
+      p.setlist_id,
+      COUNT(*) FILTER (WHERE NOT p.is_encore) AS main_length,
+      COUNT(*) FILTER (WHERE p.is_encore) AS encore_length
+    FROM tour_played_songs(p_tour_id) p
+    GROUP BY p.setlist_id
+  )
+  SELECT
+    (SELECT COUNT(*)::INTEGER FROM nights),
+    (SELECT COUNT(*)::INTEGER FROM shows s WHERE s.tour_id = p_tour_id AND s.date > now()),
+    (SELECT ROUND(AVG(n.main_length + n.encore_length), 1) FROM nights n),
+    (SELECT ROUND(AVG(n.encore_length), 1) FROM nights n),
+    (SELECT COUNT(DISTINCT p.song_key)::INTEGER FROM tour_played_songs(p_tour_id) p);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Per song: how many nights it was played and where it tends to sit.
+-- Songs played most nights are staples, the rest rotate in and out.
+CREATE OR REPLACE FUNCTION get_tour_song_stats(p_tour_id UUID)
+RETURNS TABLE (
+  song_id UUID,
+  name TEXT,
+  times_played INTEGER,
+  play_rate NUMERIC,
+  opener_count INTEGER,
+  closer_count INTEGER,
+  encore_count INTEGER,
+  avg_position NUMERIC,
+  last_played_at TIMESTAMPTZ,
+  rotation TEXT
+) AS $$
+  WITH played AS (
+    SELECT * FROM tour_played_songs(p_tour_id)
+  ),
+  nights AS (
+    SELECT GREATEST(COUNT(DISTINCT setlist_id), 1) AS total FROM played
+  ),
+  per_song AS (
+    SELECT
+      (array_agg(p.song_id))[1] AS song_id,
+      MIN(p.name) AS name,
+      COUNT(DISTINCT p.setlist_id)::INTEGER AS times_played,
+      COUNT(*) FILTER (WHERE p.is_opener)::INTEGER AS opener_count,
+      COUNT(*) FILTER (WHERE p.is_closer)::INTEGER AS closer_count,
+      COUNT(*) FILTER (WHERE p.is_encore)::INTEGER AS encore_count,
+      ROUND(AVG(p.position), 1) AS avg_position,
+      MAX(p.played_at) AS last_played_at
+    FROM played p
+    GROUP BY p.song_key
+  )
+  SELECT
+    ps.song_id,
+    ps.name,
+    ps.times_played,
+    ROUND(ps.times_played::NUMERIC / n.total, 2) AS play_rate,
+    ps.opener_count,
+    ps.closer_count,
+    ps.encore_count,
+    ps.avg_position,
+    ps.last_played_at,
+    CASE
+      WHEN ps.times_played::NUMERIC / n.total >= 0.8 THEN 'staple'
+      WHEN ps.times_played::NUMERIC / n.total >= 0.25 THEN 'rotation'
+      ELSE 'rare'
+    END AS rotation
+  FROM per_song ps
+  CROSS JOIN nights n
+  ORDER BY ps.times_played DESC, ps.avg_position;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Set positions where no one song holds the slot on more than p_max_share of
+-- nights, with the songs that rotate through them
+CREATE OR REPLACE FUNCTION get_tour_rotation_slots(p_tour_id UUID, p_max_share NUMERIC DEFAULT 0.6)
+RETURNS TABLE (
+  "position" INTEGER,
+  nights INTEGER,
+  distinct_songs INTEGER,
+  songs JSONB
+) AS $$
+  WITH slot_songs AS (
+    SELECT p.position, p.name, COUNT(*)::INTEGER AS times_played
+    FROM tour_played_songs(p_tour_id) p
+    GROUP BY p.position, p.name
+  ),
+  slots AS (
+    SELECT
+      ss.position,
+      SUM(ss.times_played)::INTEGER AS nights,
+      COUNT(*)::INTEGER AS distinct_songs,
+      MAX(ss.times_played) AS top_count
+    FROM slot_songs ss
+    GROUP BY ss.position
+  )
+  SELECT
+    sl.position,
+    sl.nights,
+    sl.distinct_songs,
+    (
+      SELECT jsonb_agg(jsonb_build_object('name', t.name, 'times_played', t.times_played) ORDER BY t.times_played DESC, t.name)
+      FROM (
+        SELECT ss.name, ss.times_played
+        FROM slot_songs ss
+        WHERE ss.position = sl.position
+        ORDER BY ss.times_played DESC, ss.name
+        LIMIT 5
+      ) t
+    )
+  FROM slots sl
+  WHERE sl.distinct_songs > 1
+    AND sl.top_count::NUMERIC / sl.nights <= p_max_share
+  ORDER BY sl.position;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- The artist's catalog songs that have not been played on the tour, most
+-- popular first
+CREATE OR REPLACE FUNCTION get_tour_unplayed_songs(p_tour_id UUID, p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  song_id UUID,
+  name TEXT,
+  popularity INTEGER
+) AS $$
+  SELECT so.id, so.name, so.popularity
+  FROM tours t
+  JOIN songs so ON so.artist_id = t.artist_id
+  WHERE t.id = p_tour_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM tour_played_songs(p_tour_id) p
+      WHERE p.song_id = so.id
+         OR p.song_key = lower(so.name)
+    )
+  ORDER BY so.popularity DESC NULLS LAST, so.name
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Baseline setlist for a show from its tour so far: the most-played main set
+-- songs up to the tour's average main set length, then the usual encore,
+-- each in the order they tend to be played. Empty for shows that have
+-- already happened, have no tour, or whose tour has no played setlists yet.
+CREATE OR REPLACE FUNCTION get_likely_setlist(p_show_id UUID)
+RETURNS TABLE (
+  "position" INTEGER,
+  song_id UUID,
+  name TEXT,
+  play_rate NUMERIC,
+  is_encore BOOLEAN,
+  tour_id UUID,
+  tour_name TEXT
+) AS $$
+  WITH tour AS (
+    SELECT t.id, t.name
+    FROM shows s
+    JOIN tours t ON t.id = s.tour_id
+    WHERE s.id = p_show_id
+      AND s.date > now()
+  ),
+  lengths AS (
+    SELECT
+      ROUND(AVG(n.main_length))::INTEGER AS main_length,
+      ROUND(AVG(n.encore_length))::INTEGER AS encore_length
+    FROM (
+      SELECT
+        COUNT(*) FILTER (WHERE NOT p.is_encore) AS main_length,
+        COUNT(*) FILTER (WHERE p.is_encore) AS encore_length
+      FROM tour, tour_played_songs(tour.id) p
+      GROUP BY p.setlist_id
+    ) n
+  ),
+  ranked AS (
+    SELECT
+      st.*,
+      st.encore_count * 2 > st.times_played AS usually_encore,
+      ROW_NUMBER() OVER (
+        PARTITION BY st.encore_count * 2 > st.times_played
+        ORDER BY st.times_played DESC, st.avg_position
+      ) AS pick
+    FROM tour, get_tour_song_stats(tour.id) st
+  )
+  SELECT
+    ROW_NUMBER() OVER (ORDER BY r.usually_encore, r.avg_position, r.name)::INTEGER,
+    r.song_id,
+    r.name,
+    r.play_rate,
+    r.usually_encore,
+    tour.id,
+    tour.name
+  FROM ranked r
+  CROSS JOIN lengths l
+  CROSS JOIN tour
+  WHERE r.pick <= CASE WHEN r.usually_encore THEN l.encore_length ELSE l.main_length END
+  ORDER BY 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Artist merges (019_user_follows.sql) also cover genres and tours. Tours
+-- move before setlists, because moving a setlist re-files it under its tour
+-- by name; a tour the target already has under the same name takes the
+-- duplicate's nights instead. Without this the duplicate's tours were
+-- deleted with it and their shows and setlists lost their tour.
+CREATE OR REPLACE FUNCTION artist_reference_tables()
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(t.table_name ORDER BY t.ord), '{}')
+  FROM unnest(ARRAY[
+    'tours', 'shows', 'songs', 'setlists', 'setlist_songs', 'setlist_raw_data',
+    'played_setlist_songs', 'tracks', 'top_tracks', 'song_aliases',
+    'song_match_reviews', 'artist_identifiers', 'user_follows'
+  ]) WITH ORDINALITY AS t(table_name, ord)
+  WHERE EXISTS (
+    SELECT 1 FROM information_schema.columns c
+    WHERE c.table_schema = 'public' AND c.table_name = t.table_name AND c.column_name = 'artist_id'
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Merge a duplicate artist into the canonical one, as in
+-- 019_user_follows.sql. Genres the target lacks are copied to it, and shows
+-- and setlists of a tour both artists have end up on the target's tour.
+CREATE OR REPLACE FUNCTION merge_artists(
+  p_source_id UUID,
+  p_target_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_source artists%ROWTYPE;
+  v_target artists%ROWTYPE;
+  v_table TEXT;
+  v_ids JSONB;
+  v_moved JSONB := '{}';
+  v_merge_id UUID;
+  v_tour_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can merge artists';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Cannot merge an artist into itself';
+  END IF;
+
+  -- Lock both artists in a stable order so concurrent merges can't deadlock
+  PERFORM pg_advisory_xact_lock(abs(hashtext('artist-merge:' || LEAST(p_source_id, p_target_id)::TEXT)::bigint));
+  PERFORM pg_advisory_xact_lock(abs(hashtext('artist-merge:' || GREATEST(p_source_id, p_target_id)::TEXT)::bigint));
+
+  SELECT * INTO v_source FROM artists WHERE id = p_source_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Artist % not found', p_source_id;
+  END IF;
+
+  SELECT * INTO v_target FROM artists WHERE id = p_target_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Artist % not found', p_target_id;
+  END IF;
+
+  DELETE FROM song_aliases s
+  WHERE s.artist_id = p_source_id
+    AND EXISTS (
+      SELECT 1 FROM song_aliases t
+      WHERE t.artist_id = p_target_id AND t.normalized_alias = s.normalized_alias
+    );
+
+  DELETE FROM song_match_reviews s
+  WHERE s.artist_id = p_source_id
+    AND EXISTS (
+      SELECT 1 FROM song_match_reviews t
+      WHERE t.artist_id = p_target_id AND t.match_key = s.match_key
+    );
+
+  -- Users following both keep their follow of the target
+  DELETE FROM user_follows s
+  WHERE s.artist_id = p_source_id
+    AND EXISTS (
+      SELECT 1 FROM user_follows t
+      WHERE t.artist_id = p_target_id AND t.user_id = s.user_id
+    );
+
+  -- A tour both artists have keeps the target's row
+  UPDATE setlists sl
+  SET tour_id = t.id
+  FROM tours s
+  JOIN tours t ON t.artist_id = p_target_id AND lower(t.name) = lower(s.name)
+  WHERE s.artist_id = p_source_id AND sl.tour_id = s.id;
+
+  UPDATE shows sh
+  SET tour_id = t.id
+  FROM tours s
+  JOIN tours t ON t.artist_id = p_target_id AND lower(t.name) = lower(s.name)
+  WHERE s.artist_id = p_source_id AND sh.tour_id = s.id;
+
+  DELETE FROM tours s
+  WHERE s.artist_id = p_source_id
+    AND EXISTS (
+      SELECT 1 FROM tours t
+      WHERE t.artist_id = p_target_id AND lower(t.name) = lower(s.name)
+    );
+
+  -- Every genre of the duplicate is recorded for a split, with whether the
+  -- target got it from the merge
+  WITH source_genres AS (
+    SELECT genre_id, source FROM artist_genres WHERE artist_id = p_source_id
+  ),
+  added AS (
+    INSERT INTO artist_genres (artist_id, genre_id, source)
+    SELECT p_target_id, genre_id, source FROM source_genres
+    ON CONFLICT DO NOTHING
+    RETURNING genre_id, source
+  )
+  SELECT jsonb_agg(jsonb_build_object(
+    'genre_id', g.genre_id, 'source', g.source, 'added', a.genre_id IS NOT NULL
+  ))
+  INTO v_ids
+  FROM source_genres g
+  LEFT JOIN added a ON a.genre_id = g.genre_id AND a.source = g.source;
+
+  IF v_ids IS NOT NULL THEN
+    v_moved := v_moved || jsonb_build_object('artist_genres', v_ids);
+  END IF;
+
+  FOREACH v_table IN ARRAY artist_reference_tables() LOOP
+    EXECUTE format(
+      'WITH moved AS (
+         UPDATE public.%I SET artist_id = $1 WHERE artist_id = $2 RETURNING id
+       )
+       SELECT COALESCE(jsonb_agg(id), ''[]'') FROM moved',
+      v_table
+    )
+    INTO v_ids
+    USING p_target_id, p_source_id;
+
+    IF jsonb_array_length(v_ids) > 0 THEN
+      v_moved := v_moved || jsonb_build_object(v_table, v_ids);
+    END IF;
+  END LOOP;
+
+  DELETE FROM artists WHERE id = p_source_id;
+
+  UPDATE artists
+  SET spotify_id = COALESCE(spotify_id, v_source.spotify_id),
+      setlist_fm_mbid = COALESCE(setlist_fm_mbid, v_source.setlist_fm_mbid),
+      image_url = COALESCE(image_url, v_source.image_url),
+      updated_at = now()
+  WHERE id = p_target_id;
+
+  FOR v_tour_id IN SELECT id FROM tours WHERE artist_id = p_target_id LOOP
+    PERFORM refresh_tour(v_tour_id);
+  END LOOP;
+
+  INSERT INTO artist_merges (
+    source_artist_id, target_artist_id, source_snapshot, target_snapshot, moved, merged_by, note
+  )
+  VALUES (
+    p_source_id, p_target_id, to_jsonb(v_source), to_jsonb(v_target), v_moved, auth.uid(), p_note
+  )
+  RETURNING id INTO v_merge_id;
+
+  RETURN v_merge_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Undo a merge, as in 016_artist_identifiers.sql. Rows move back in
+-- artist_reference_tables order, so tours are back before their setlists are
+-- re-filed; setlists of a tour the merge folded into the target's are filed
+-- under a tour of the restored artist again. Genres copied to the target are
+-- taken off it and the duplicate gets its genres back. The duplicate is
+-- restored without its generated columns, which Postgres refuses to write.
+CREATE OR REPLACE FUNCTION split_artist(
+  p_merge_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_merge artist_merges%ROWTYPE;
+  v_table TEXT;
+  v_columns TEXT;
+  v_tour_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can split artists';
+  END IF;
+
+  SELECT * INTO v_merge
+  FROM artist_merges
+  WHERE id = p_merge_id AND split_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge % does not exist or was already split', p_merge_id;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM artists WHERE id = v_merge.source_artist_id) THEN
+    RAISE EXCEPTION 'Artist % already exists', v_merge.source_artist_id;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(abs(hashtext('artist-merge:' || LEAST(v_merge.source_artist_id, v_merge.target_artist_id)::TEXT)::bigint));
+  PERFORM pg_advisory_xact_lock(abs(hashtext('artist-merge:' || GREATEST(v_merge.source_artist_id, v_merge.target_artist_id)::TEXT)::bigint));
+
+  -- Give back the IDs the target took over, before the duplicate needs them
+  UPDATE artists
+  SET spotify_id = v_merge.target_snapshot->>'spotify_id',
+      setlist_fm_mbid = v_merge.target_snapshot->>'setlist_fm_mbid',
+      image_url = v_merge.target_snapshot->>'image_url',
+      updated_at = now()
+  WHERE id = v_merge.target_artist_id;
+
+  -- Generated columns such as search_vector can't be written back
+  SELECT string_agg(quote_ident(c.column_name), ', ' ORDER BY c.ordinal_position)
+  INTO v_columns
+  FROM information_schema.columns c
+  WHERE c.table_schema = 'public' AND c.table_name = 'artists' AND c.is_generated = 'NEVER';
+
+  EXECUTE format(
+    'INSERT INTO public.artists (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::public.artists, $1)',
+    v_columns
+  )
+  USING v_merge.source_snapshot;
+
+  FOREACH v_table IN ARRAY artist_reference_tables() LOOP
+    IF v_merge.moved ? v_table THEN
+      EXECUTE format(
+        'UPDATE public.%I SET artist_id = $1
+         WHERE artist_id = $2
+           AND id::TEXT IN (SELECT jsonb_array_elements_text($3))',
+        v_table
+      )
+      USING v_merge.source_artist_id, v_merge.target_artist_id, v_merge.moved->v_table;
+    END IF;
+  END LOOP;
+
+  -- Take back the genres the target only had from the merge
+  DELETE FROM artist_genres g
+  USING jsonb_to_recordset(COALESCE(v_merge.moved->'artist_genres', '[]')) AS m(genre_id UUID, source TEXT, added BOOLEAN)
+  WHERE m.added
+    AND g.artist_id = v_merge.target_artist_id AND g.genre_id = m.genre_id AND g.source = m.source;
+
+  INSERT INTO artist_genres (artist_id, genre_id, source)
+  SELECT v_merge.source_artist_id, m.genre_id, m.source
+  FROM jsonb_to_recordset(COALESCE(v_merge.moved->'artist_genres', '[]')) AS m(genre_id UUID, source TEXT)
+  ON CONFLICT DO NOTHING;
+
+  -- Shows follow their setlist back onto the restored artist's tours
+  UPDATE shows sh
+  SET tour_id = sl.tour_id
+  FROM setlists sl
+  WHERE sl.show_id = sh.id
+    AND sh.artist_id = v_merge.source_artist_id
+    AND sl.tour_id IS NOT NULL
+    AND sh.tour_id IS DISTINCT FROM sl.tour_id;
+
+  FOR v_tour_id IN
+    SELECT id FROM tours WHERE artist_id IN (v_merge.source_artist_id, v_merge.target_artist_id)
+  LOOP
+    PERFORM refresh_tour(v_tour_id);
+  END LOOP;
+
+  UPDATE artist_merges
+  SET split_at = now(),
+      split_by = auth.uid(),
+      note = COALESCE(p_note, note)
+  WHERE id = p_merge_id;
+
+  RETURN v_merge.source_artist_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_tour_summary TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_tour_song_stats TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_tour_rotation_slots TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_tour_unplayed_songs TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_likely_setlist TO anon, authenticated;
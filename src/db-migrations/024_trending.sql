@@ -0,0 +1,254 @@
+-- 024_trending.sql
+-- Trending shows by engagement. update-trending-shows used to cache the most
+-- recent shows by date, because popularity is rarely set. Upcoming shows now
+-- get a trending score from five signals:
+--
+--   * vote velocity: counted votes over the last week, each worth half as
+--     much for every day since it was cast
+--   * unique voters over the last week
+--   * page views over the last week, halving every two days
+--   * the artist's Spotify popularity
+--   * days until the show: the score is divided by 1 + days / 30, so a show
+--     next week outranks one with the same engagement next year
+--
+-- The engagement signals are log-scaled so one runaway show can't drown out
+-- the rest. refresh_trending_scores recomputes every score and refills
+-- trending_shows_cache; get_trending_shows serves the global, per-region and
+-- per-genre lists behind /api/shows/trending.
+
+-- Page views per show per day, recorded by the show pages
+CREATE TABLE IF NOT EXISTS public.show_page_views (
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  viewed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  views INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (show_id, viewed_on)
+);
+
+-- Who has been counted today, so each viewer adds at most one view per show
+-- per day. viewer is the signed-in user's id or a hash of the client IP.
+CREATE TABLE IF NOT EXISTS public.show_page_viewers (
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  viewer TEXT NOT NULL,
+  viewed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  PRIMARY KEY (show_id, viewer, viewed_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_show_page_viewers_viewer ON public.show_page_viewers(viewer, viewed_on);
+
+CREATE TABLE IF NOT EXISTS public.show_trending_scores (
+  show_id UUID PRIMARY KEY REFERENCES public.shows(id) ON DELETE CASCADE,
+  score DOUBLE PRECISION NOT NULL DEFAULT 0,
+  vote_velocity DOUBLE PRECISION NOT NULL DEFAULT 0,
+  unique_voters INTEGER NOT NULL DEFAULT 0,
+  page_views DOUBLE PRECISION NOT NULL DEFAULT 0,
+  artist_popularity INTEGER NOT NULL DEFAULT 0,
+  days_until DOUBLE PRECISION NOT NULL DEFAULT 0,
+  computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_show_trending_scores_score ON public.show_trending_scores(score DESC);
+
+ALTER TABLE public.show_page_views ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.show_page_viewers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.show_trending_scores ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Trending scores are viewable by everyone" ON public.show_trending_scores;
+CREATE POLICY "Trending scores are viewable by everyone"
+  ON public.show_trending_scores FOR SELECT
+  USING (true);
+
+-- Count a view of a show page. Views are only written through here, and
+-- only once per viewer per show per day: the viewer is the signed-in user,
+-- or else the client IP PostgREST passes in request.headers. Requests with
+-- neither share one viewer per show, so this is called from the browser,
+-- never from server-rendered pages. A viewer counts towards at most
+-- 200 shows a day, so a script walking every show page can't lift them all.
+CREATE OR REPLACE FUNCTION record_show_view(p_show_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_ip TEXT;
+  v_viewer TEXT;
+BEGIN
+  v_ip := NULLIF(trim(split_part(
+    current_setting('request.headers', true)::JSON ->> 'x-forwarded-for', ',', 1
+  )), '');
+  v_viewer := COALESCE(auth.uid()::TEXT, 'ip:' || md5(v_ip), 'unknown');
+
+  IF (
+    SELECT COUNT(*) FROM show_page_viewers
+    WHERE viewer = v_viewer AND viewed_on = CURRENT_DATE
+  ) >= 200 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO show_page_viewers (show_id, viewer, viewed_on)
+  SELECT id, v_viewer, CURRENT_DATE FROM shows WHERE id = p_show_id
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO show_page_views (show_id, viewed_on, views)
+  VALUES (p_show_id, CURRENT_DATE, 1)
+  ON CONFLICT (show_id, viewed_on)
+  DO UPDATE SET views = show_page_views.views + 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Recompute the score of every upcoming show, then refill
+-- trending_shows_cache with the top p_cache_size. Returns the number of
+-- shows scored. Run by the update-trending-shows function.
+CREATE OR REPLACE FUNCTION refresh_trending_scores(p_cache_size INTEGER DEFAULT 8)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM show_trending_scores t
+  USING shows s
+  WHERE s.id = t.show_id
+    AND (s.date IS NULL OR s.date < now());
+
+  WITH upcoming AS (
+    SELECT s.id, s.date, COALESCE(a.popularity, 0) AS artist_popularity
+    FROM shows s
+    LEFT JOIN artists a ON a.id = s.artist_id
+    WHERE s.date >= now()
+      AND s.date < now() + INTERVAL '1 year'
+  ),
+  recent_votes AS (
+    SELECT
+      sl.show_id,
+      SUM(power(0.5, EXTRACT(EPOCH FROM now() - v.created_at) / 86400)) AS vote_velocity,
+      COUNT(DISTINCT COALESCE(v.user_id::TEXT, v.anonymous_session_id::TEXT))::INTEGER AS unique_voters
+    FROM votes v
+    JOIN setlist_songs ss ON ss.id = v.song_id
+    JOIN setlists sl ON sl.id = ss.setlist_id
+    WHERE v.created_at >= now() - INTERVAL '7 days'
+      AND v.moderation_status = 'counted'
+    GROUP BY sl.show_id
+  ),
+  recent_views AS (
+    SELECT
+      pv.show_id,
+      SUM(pv.views * power(0.5, (CURRENT_DATE - pv.viewed_on) / 2.0)) AS page_views
+    FROM show_page_views pv
+    WHERE pv.viewed_on >= CURRENT_DATE - 7
+    GROUP BY pv.show_id
+  ),
+  signals AS (
+    SELECT
+      u.id AS show_id,
+      COALESCE(rv.vote_velocity, 0) AS vote_velocity,
+      COALESCE(rv.unique_voters, 0) AS unique_voters,
+      COALESCE(pv.page_views, 0) AS page_views,
+      u.artist_popularity,
+      EXTRACT(EPOCH FROM u.date - now()) / 86400 AS days_until
+    FROM upcoming u
+    LEFT JOIN recent_votes rv ON rv.show_id = u.id
+    LEFT JOIN recent_views pv ON pv.show_id = u.id
+  )
+  INSERT INTO show_trending_scores (
+    show_id, score, vote_velocity, unique_voters, page_views,
+    artist_popularity, days_until, computed_at
+  )
+  SELECT
+    sg.show_id,
+    (
+      3.0 * ln(1 + sg.vote_velocity)
+      + 2.0 * ln(1 + sg.unique_voters)
+      + 1.0 * ln(1 + sg.page_views)
+      + 1.5 * sg.artist_popularity / 100.0
+    ) / (1 + sg.days_until / 30.0),
+    sg.vote_velocity,
+    sg.unique_voters,
+    sg.page_views,
+    sg.artist_popularity,
+    sg.days_until,
+    now()
+  FROM signals sg
+  ON CONFLICT (show_id) DO UPDATE SET
+    score = EXCLUDED.score,
+    vote_velocity = EXCLUDED.vote_velocity,
+    unique_voters = EXCLUDED.unique_voters,
+    page_views = EXCLUDED.page_views,
+    artist_popularity = EXCLUDED.artist_popularity,
+    days_until = EXCLUDED.days_until,
+    computed_at = EXCLUDED.computed_at;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  -- pg-safeupdate rejects a DELETE without a WHERE clause
+  DELETE FROM trending_shows_cache WHERE true;
+
+  INSERT INTO trending_shows_cache (show_id, rank)
+  SELECT t.show_id, ROW_NUMBER() OVER (ORDER BY t.score DESC, t.days_until)
+  FROM show_trending_scores t
+  ORDER BY t.score DESC, t.days_until
+  LIMIT p_cache_size;
+
+  -- Views older than the scoring window are kept for a month, then dropped
+  DELETE FROM show_page_views WHERE viewed_on < CURRENT_DATE - 30;
+  DELETE FROM show_page_viewers WHERE viewed_on < CURRENT_DATE;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trending upcoming shows, optionally narrowed to a region (venue country
+-- and/or state, matched case-insensitively) and a genre (slug or
+-- Ticketmaster ID)
+CREATE OR REPLACE FUNCTION get_trending_shows(
+  p_limit INTEGER DEFAULT 10,
+  p_country TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_genre TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  show_id UUID,
+  show_name TEXT,
+  date TIMESTAMPTZ,
+  image_url TEXT,
+  ticket_url TEXT,
+  popularity INTEGER,
+  trending_score DOUBLE PRECISION,
+  artist_id UUID,
+  artist_name TEXT,
+  artist_image_url TEXT,
+  artist_genres TEXT[],
+  venue_id UUID,
+  venue_name TEXT,
+  city TEXT,
+  state TEXT,
+  country TEXT
+) AS $$
+  SELECT
+    s.id, s.name::TEXT, s.date::TIMESTAMPTZ, s.image_url::TEXT, s.ticket_url::TEXT,
+    s.popularity::INTEGER, t.score,
+    a.id, a.name::TEXT, a.image_url::TEXT, a.genres::TEXT[],
+    v.id, v.name::TEXT, v.city::TEXT, v.state::TEXT, v.country::TEXT
+  FROM show_trending_scores t
+  JOIN shows s ON s.id = t.show_id
+  LEFT JOIN artists a ON a.id = s.artist_id
+  LEFT JOIN venues v ON v.id = s.venue_id
+  WHERE s.date >= now()
+    AND (p_country IS NULL OR lower(v.country) = lower(p_country))
+    AND (p_state IS NULL OR lower(v.state) = lower(p_state))
+    AND (
+      p_genre IS NULL
+      OR EXISTS (
+        SELECT 1
+        FROM artist_genres ag
+        JOIN genres g ON g.id = ag.genre_id
+        WHERE ag.artist_id = s.artist_id
+          AND (g.slug = p_genre OR g.ticketmaster_id = p_genre)
+      )
+    )
+  ORDER BY t.score DESC, s.date
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_show_view TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_trending_shows TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.refresh_trending_scores TO service_role;
+REVOKE EXECUTE ON FUNCTION public.refresh_trending_scores FROM PUBLIC, anon, authenticated;
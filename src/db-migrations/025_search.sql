@@ -0,0 +1,177 @@
+-- 025_search.sql
+-- One local search index over artists, shows, venues and songs. Search used
+-- to be split between an ilike on artists.name, Ticketmaster keyword search
+-- and a venue-only /api/search, so the same query gave different answers in
+-- the navbar and on the search page, and typos found nothing.
+--
+-- Each table gets a generated search_vector (simple config, so band names
+-- aren't stemmed) and a trigram index on name. search_catalog matches a row
+-- when its vector matches the query as prefixes (autocomplete while typing)
+-- or its name is a close trigram match (typo tolerance), ranks the matches
+-- and returns the best p_limit per entity type.
+
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+ALTER TABLE public.artists
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('simple', COALESCE(name, ''))) STORED;
+
+ALTER TABLE public.shows
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('simple', COALESCE(name, ''))) STORED;
+
+ALTER TABLE public.venues
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', COALESCE(name, '')), 'A')
+    || setweight(to_tsvector('simple', COALESCE(city, '') || ' ' || COALESCE(state, '')), 'B')
+  ) STORED;
+
+ALTER TABLE public.songs
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('simple', COALESCE(name, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_artists_search_vector ON public.artists USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_shows_search_vector ON public.shows USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_venues_search_vector ON public.venues USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_songs_search_vector ON public.songs USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_artists_name_trgm ON public.artists USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_shows_name_trgm ON public.shows USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_venues_name_trgm ON public.venues USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_songs_name_trgm ON public.songs USING GIN (name gin_trgm_ops);
+
+-- Turn free text into a prefix tsquery: "foo fight" -> 'foo':* & 'fight':*.
+-- Returns NULL when the text has no searchable words.
+CREATE OR REPLACE FUNCTION search_prefix_query(p_query TEXT)
+RETURNS TSQUERY AS $$
+  SELECT CASE
+    WHEN COUNT(*) = 0 THEN NULL
+    ELSE to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  END
+  FROM regexp_split_to_table(lower(COALESCE(p_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked matches for p_query, at most p_limit per entity type. p_types
+-- narrows the search to some of 'artist', 'show', 'venue' and 'song'.
+-- parent_id is the artist of a show or song.
+CREATE OR REPLACE FUNCTION search_catalog(
+  p_query TEXT,
+  p_types TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  entity_type TEXT,
+  id UUID,
+  name TEXT,
+  subtitle TEXT,
+  image_url TEXT,
+  starts_at TIMESTAMPTZ,
+  parent_id UUID,
+  rank DOUBLE PRECISION
+) AS $$
+DECLARE
+  v_query TEXT := trim(COALESCE(p_query, ''));
+  v_tsquery TSQUERY := search_prefix_query(p_query);
+  -- Lower than pg_trgm's default of 0.6 so one or two typos still match
+  v_min_similarity REAL := 0.35;
+BEGIN
+  IF length(v_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      'artist'::TEXT AS entity_type,
+      a.id,
+      a.name::TEXT AS name,
+      array_to_string(a.genres[1:2], ', ') AS subtitle,
+      a.image_url::TEXT AS image_url,
+      NULL::TIMESTAMPTZ AS starts_at,
+      NULL::UUID AS parent_id,
+      COALESCE(ts_rank(a.search_vector, v_tsquery), 0)
+        + word_similarity(v_query, a.name)
+        + COALESCE(a.popularity, 0) / 200.0 AS rank
+    FROM artists a
+    WHERE (p_types IS NULL OR 'artist' = ANY(p_types))
+      AND (a.search_vector @@ v_tsquery OR word_similarity(v_query, a.name) >= v_min_similarity)
+
+    UNION ALL
+
+    SELECT
+      'show',
+      s.id,
+      s.name::TEXT,
+      concat_ws(' · ', ar.name, v.name),
+      COALESCE(s.image_url, ar.image_url)::TEXT,
+      s.date::TIMESTAMPTZ,
+      s.artist_id,
+      COALESCE(ts_rank(s.search_vector, v_tsquery), 0)
+        + word_similarity(v_query, s.name)
+        -- Past shows are still findable but sort below upcoming ones
+        + CASE WHEN s.date >= now() THEN 0.5 ELSE 0 END
+    FROM shows s
+    LEFT JOIN artists ar ON ar.id = s.artist_id
+    LEFT JOIN venues v ON v.id = s.venue_id
+    WHERE (p_types IS NULL OR 'show' = ANY(p_types))
+      AND (s.search_vector @@ v_tsquery OR word_similarity(v_query, s.name) >= v_min_similarity)
+
+    UNION ALL
+
+    SELECT
+      'venue',
+      v.id,
+      v.name::TEXT,
+      concat_ws(', ', v.city, v.state),
+      v.image_url::TEXT,
+      NULL::TIMESTAMPTZ,
+      NULL::UUID,
+      COALESCE(ts_rank(v.search_vector, v_tsquery), 0)
+        + word_similarity(v_query, v.name)
+    FROM venues v
+    WHERE (p_types IS NULL OR 'venue' = ANY(p_types))
+      AND (v.search_vector @@ v_tsquery OR word_similarity(v_query, v.name) >= v_min_similarity)
+
+    UNION ALL
+
+    SELECT
+      'song',
+      so.id,
+      so.name::TEXT,
+      ar.name::TEXT,
+      ar.image_url::TEXT,
+      NULL::TIMESTAMPTZ,
+      so.artist_id,
+      COALESCE(ts_rank(so.search_vector, v_tsquery), 0)
+        + word_similarity(v_query, so.name)
+        + COALESCE(so.popularity, 0) / 200.0
+    FROM songs so
+    LEFT JOIN artists ar ON ar.id = so.artist_id
+    WHERE (p_types IS NULL OR 'song' = ANY(p_types))
+      AND (so.search_vector @@ v_tsquery OR word_similarity(v_query, so.name) >= v_min_similarity)
+  ),
+  ranked AS (
+    SELECT
+      m.*,
+      -- An exact name match always comes first
+      m.rank + CASE WHEN lower(m.name) = lower(v_query) THEN 1 ELSE 0 END AS final_rank
+    FROM matches m
+  ),
+  numbered AS (
+    SELECT
+      r.*,
+      ROW_NUMBER() OVER (PARTITION BY r.entity_type ORDER BY r.final_rank DESC, r.name) AS type_position
+    FROM ranked r
+  )
+  SELECT
+    n.entity_type, n.id, n.name, n.subtitle, n.image_url,
+    n.starts_at, n.parent_id, n.final_rank::DOUBLE PRECISION
+  FROM numbered n
+  WHERE n.type_position <= LEAST(GREATEST(p_limit, 1), 25)
+  ORDER BY n.final_rank DESC, n.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.search_catalog TO anon, authenticated, service_role;
@@ -0,0 +1,179 @@
+-- 026_analytics_events.sql
+-- First-party analytics. Events used to go only to Google Analytics, where
+-- nothing in the app could read them. The client now batches typed events to
+-- /api/events, which validates them and stores them in analytics_events:
+--   * page_view         - a route was shown
+--   * vote_cast         - a vote on a setlist song
+--   * share_clicked     - a share option on a setlist
+--   * search_performed  - a search with its result count
+--   * playlist_exported - a setlist saved to Spotify
+-- Raw events are kept for 90 days. rollup_analytics_events folds a day of
+-- them into per-event and per-show daily counts, which trending and the admin
+-- dashboards read; the analytics-rollup cron runs it every hour.
+--
+-- Signed-in users can switch analytics off (analytics_opt_outs). The client
+-- stops sending anything, and /api/events drops events from those users in
+-- case an old client still does.
+--
+-- /api/events is open to anyone, so claim_analytics_ingest caps how many
+-- events one session and one client IP can post a minute.
+
+CREATE TABLE IF NOT EXISTS public.analytics_events (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL CHECK (name IN (
+    'page_view', 'vote_cast', 'share_clicked', 'search_performed', 'playlist_exported'
+  )),
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  session_id TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  path TEXT,
+  show_id UUID REFERENCES public.shows(id) ON DELETE SET NULL,
+  properties JSONB NOT NULL DEFAULT '{}'
+);
+
+CREATE INDEX IF NOT EXISTS idx_analytics_events_occurred ON public.analytics_events(occurred_at);
+CREATE INDEX IF NOT EXISTS idx_analytics_events_show ON public.analytics_events(show_id, occurred_at) WHERE show_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.analytics_daily_totals (
+  day DATE NOT NULL,
+  name TEXT NOT NULL,
+  events INTEGER NOT NULL DEFAULT 0,
+  sessions INTEGER NOT NULL DEFAULT 0,
+  users INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (day, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.analytics_daily_show_counts (
+  day DATE NOT NULL,
+  show_id UUID NOT NULL REFERENCES public.shows(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  events INTEGER NOT NULL DEFAULT 0,
+  sessions INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (day, show_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_analytics_daily_show_counts_show ON public.analytics_daily_show_counts(show_id, day DESC);
+
+CREATE TABLE IF NOT EXISTS public.analytics_opt_outs (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Events posted per session or IP hash per minute, for claim_analytics_ingest
+CREATE TABLE IF NOT EXISTS public.analytics_ingest_limits (
+  key TEXT NOT NULL,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  events INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key, window_start)
+);
+
+ALTER TABLE public.analytics_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.analytics_ingest_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.analytics_daily_totals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.analytics_daily_show_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.analytics_opt_outs ENABLE ROW LEVEL SECURITY;
+
+-- Events and rollups are only written and read with the service role
+
+DROP POLICY IF EXISTS "Users can read their own analytics opt-out" ON public.analytics_opt_outs;
+CREATE POLICY "Users can read their own analytics opt-out"
+  ON public.analytics_opt_outs FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can opt out of analytics" ON public.analytics_opt_outs;
+CREATE POLICY "Users can opt out of analytics"
+  ON public.analytics_opt_outs FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can opt back in to analytics" ON public.analytics_opt_outs;
+CREATE POLICY "Users can opt back in to analytics"
+  ON public.analytics_opt_outs FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Recount p_day from the raw events. Safe to run repeatedly, so the cron can
+-- keep today's counts current and finish yesterday's once late batches are
+-- in. Returns the number of events counted.
+CREATE OR REPLACE FUNCTION rollup_analytics_events(p_day DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM analytics_daily_totals WHERE day = p_day;
+  DELETE FROM analytics_daily_show_counts WHERE day = p_day;
+
+  INSERT INTO analytics_daily_totals (day, name, events, sessions, users)
+  SELECT
+    p_day,
+    e.name,
+    COUNT(*),
+    COUNT(DISTINCT e.session_id),
+    COUNT(DISTINCT e.user_id)
+  FROM analytics_events e
+  WHERE e.occurred_at >= p_day
+    AND e.occurred_at < p_day + 1
+  GROUP BY e.name;
+
+  INSERT INTO analytics_daily_show_counts (day, show_id, name, events, sessions)
+  SELECT
+    p_day,
+    e.show_id,
+    e.name,
+    COUNT(*),
+    COUNT(DISTINCT e.session_id)
+  FROM analytics_events e
+  WHERE e.occurred_at >= p_day
+    AND e.occurred_at < p_day + 1
+    AND e.show_id IS NOT NULL
+  GROUP BY e.show_id, e.name;
+
+  SELECT COALESCE(SUM(events), 0) INTO v_count
+  FROM analytics_daily_totals
+  WHERE day = p_day;
+
+  DELETE FROM analytics_events WHERE occurred_at < now() - INTERVAL '90 days';
+  DELETE FROM analytics_ingest_limits WHERE window_start < now() - INTERVAL '1 hour';
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Count a batch of p_events against this minute's allowance for its session
+-- (120 events) and client IP hash (600, as a venue's Wi-Fi is shared).
+-- Returns false when either is over. Refused batches still count, so a
+-- client that keeps posting stays refused until the minute is up. An empty
+-- batch counts as one event.
+CREATE OR REPLACE FUNCTION claim_analytics_ingest(
+  p_session_id TEXT,
+  p_events INTEGER,
+  p_ip_hash TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_window TIMESTAMP WITH TIME ZONE := date_trunc('minute', now());
+  v_events INTEGER := GREATEST(COALESCE(p_events, 0), 1);
+  v_session_events INTEGER;
+  v_ip_events INTEGER := 0;
+BEGIN
+  INSERT INTO analytics_ingest_limits (key, window_start, events)
+  VALUES ('session:' || p_session_id, v_window, v_events)
+  ON CONFLICT (key, window_start)
+  DO UPDATE SET events = analytics_ingest_limits.events + EXCLUDED.events
+  RETURNING events INTO v_session_events;
+
+  IF p_ip_hash IS NOT NULL THEN
+    INSERT INTO analytics_ingest_limits (key, window_start, events)
+    VALUES ('ip:' || p_ip_hash, v_window, v_events)
+    ON CONFLICT (key, window_start)
+    DO UPDATE SET events = analytics_ingest_limits.events + EXCLUDED.events
+    RETURNING events INTO v_ip_events;
+  END IF;
+
+  RETURN v_session_events <= 120 AND v_ip_events <= 600;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.rollup_analytics_events TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_analytics_ingest TO service_role;
+REVOKE EXECUTE ON FUNCTION public.rollup_analytics_events FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_analytics_ingest FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,280 @@
+-- 027_admin_analytics.sql
+-- Aggregates behind the admin analytics section. Each function takes an
+-- inclusive UTC date range and is admin only, so the dashboard never pulls
+-- raw votes, accounts or logs into the browser.
+
+CREATE INDEX IF NOT EXISTS idx_votes_created_at ON public.votes(created_at);
+CREATE INDEX IF NOT EXISTS idx_sync_operations_started_at ON public.sync_operations(started_at);
+CREATE INDEX IF NOT EXISTS idx_error_logs_timestamp ON public.error_logs(timestamp);
+
+CREATE OR REPLACE FUNCTION assert_admin_date_range(p_from DATE, p_to DATE)
+RETURNS VOID AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can view analytics';
+  END IF;
+
+  IF p_from IS NULL OR p_to IS NULL OR p_to < p_from THEN
+    RAISE EXCEPTION 'Invalid date range % to %', p_from, p_to;
+  END IF;
+
+  IF p_to - p_from > 366 THEN
+    RAISE EXCEPTION 'Date range cannot be longer than a year';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- One row per day: distinct voters (accounts or anonymous sessions), votes
+-- and new accounts. Rejected votes are left out.
+CREATE OR REPLACE FUNCTION get_admin_daily_activity(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  day DATE,
+  active_voters INTEGER,
+  votes INTEGER,
+  signups INTEGER
+) AS $$
+BEGIN
+  PERFORM assert_admin_date_range(p_from, p_to);
+
+  RETURN QUERY
+  WITH days AS (
+    SELECT generate_series(p_from, p_to, INTERVAL '1 day')::date AS day
+  ),
+  daily_votes AS (
+    SELECT
+      (v.created_at AT TIME ZONE 'UTC')::date AS day,
+      COUNT(DISTINCT COALESCE(v.user_id::text, 'session:' || v.anonymous_session_id::text))::integer AS voters,
+      COUNT(*)::integer AS votes
+    FROM votes v
+    WHERE v.created_at >= p_from
+      AND v.created_at < p_to + 1
+      AND v.moderation_status <> 'rejected'
+    GROUP BY 1
+  ),
+  daily_signups AS (
+    SELECT (u.created_at AT TIME ZONE 'UTC')::date AS day, COUNT(*)::integer AS signups
+    FROM auth.users u
+    WHERE u.created_at >= p_from
+      AND u.created_at < p_to + 1
+    GROUP BY 1
+  )
+  SELECT
+    d.day,
+    COALESCE(dv.voters, 0),
+    COALESCE(dv.votes, 0),
+    COALESCE(ds.signups, 0)
+  FROM days d
+  LEFT JOIN daily_votes dv ON dv.day = d.day
+  LEFT JOIN daily_signups ds ON ds.day = d.day
+  ORDER BY d.day;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Daily votes for the p_limit shows with the most votes in the range
+CREATE OR REPLACE FUNCTION get_admin_show_vote_series(
+  p_from DATE,
+  p_to DATE,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  day DATE,
+  show_id UUID,
+  show_name TEXT,
+  votes INTEGER
+) AS $$
+BEGIN
+  PERFORM assert_admin_date_range(p_from, p_to);
+
+  RETURN QUERY
+  WITH show_votes AS (
+    SELECT sl.show_id, (v.created_at AT TIME ZONE 'UTC')::date AS day
+    FROM votes v
+    JOIN setlist_songs ss ON ss.id = v.song_id
+    JOIN setlists sl ON sl.id = ss.setlist_id
+    WHERE v.created_at >= p_from
+      AND v.created_at < p_to + 1
+      AND v.moderation_status <> 'rejected'
+      AND sl.show_id IS NOT NULL
+  ),
+  top_shows AS (
+    SELECT sv.show_id
+    FROM show_votes sv
+    GROUP BY sv.show_id
+    ORDER BY COUNT(*) DESC
+    LIMIT p_limit
+  )
+  SELECT sv.day, sv.show_id, s.name, COUNT(*)::integer
+  FROM show_votes sv
+  JOIN top_shows t ON t.show_id = sv.show_id
+  JOIN shows s ON s.id = sv.show_id
+  GROUP BY sv.day, sv.show_id, s.name
+  ORDER BY sv.day, s.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Signup funnel for the range, one row per step in order:
+--   visitors     distinct first-party analytics sessions with a page view
+--                (raw events are kept for 90 days)
+--   signed_up    accounts created in the range
+--   voted        of those, accounts that voted at least once
+--   voted_again  of those, accounts that voted on two or more shows
+CREATE OR REPLACE FUNCTION get_admin_signup_funnel(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  step TEXT,
+  step_order INTEGER,
+  users INTEGER
+) AS $$
+BEGIN
+  PERFORM assert_admin_date_range(p_from, p_to);
+
+  RETURN QUERY
+  WITH new_users AS (
+    SELECT u.id
+    FROM auth.users u
+    WHERE u.created_at >= p_from
+      AND u.created_at < p_to + 1
+  ),
+  voter_shows AS (
+    SELECT v.user_id, COUNT(DISTINCT sl.show_id) AS shows
+    FROM votes v
+    JOIN new_users nu ON nu.id = v.user_id
+    JOIN setlist_songs ss ON ss.id = v.song_id
+    JOIN setlists sl ON sl.id = ss.setlist_id
+    WHERE v.moderation_status <> 'rejected'
+    GROUP BY v.user_id
+  )
+  SELECT 'visitors', 1, (
+    SELECT COUNT(DISTINCT e.session_id)::integer
+    FROM analytics_events e
+    WHERE e.name = 'page_view'
+      AND e.occurred_at >= p_from
+      AND e.occurred_at < p_to + 1
+  )
+  UNION ALL
+  SELECT 'signed_up', 2, (SELECT COUNT(*)::integer FROM new_users)
+  UNION ALL
+  SELECT 'voted', 3, (SELECT COUNT(*)::integer FROM voter_shows)
+  UNION ALL
+  SELECT 'voted_again', 4, (SELECT COUNT(*)::integer FROM voter_shows WHERE shows >= 2)
+  ORDER BY 2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Artists ranked by engagement in the range: votes on their shows' setlists
+-- plus new follows, with distinct voters alongside
+CREATE OR REPLACE FUNCTION get_admin_top_artists(
+  p_from DATE,
+  p_to DATE,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  artist_id UUID,
+  artist_name TEXT,
+  votes INTEGER,
+  voters INTEGER,
+  follows INTEGER,
+  engagement INTEGER
+) AS $$
+BEGIN
+  PERFORM assert_admin_date_range(p_from, p_to);
+
+  RETURN QUERY
+  WITH artist_votes AS (
+    SELECT
+      sl.artist_id,
+      COUNT(*)::integer AS votes,
+      COUNT(DISTINCT COALESCE(v.user_id::text, 'session:' || v.anonymous_session_id::text))::integer AS voters
+    FROM votes v
+    JOIN setlist_songs ss ON ss.id = v.song_id
+    JOIN setlists sl ON sl.id = ss.setlist_id
+    WHERE v.created_at >= p_from
+      AND v.created_at < p_to + 1
+      AND v.moderation_status <> 'rejected'
+      AND sl.artist_id IS NOT NULL
+    GROUP BY sl.artist_id
+  ),
+  artist_follows AS (
+    SELECT f.artist_id, COUNT(*)::integer AS follows
+    FROM user_follows f
+    WHERE f.artist_id IS NOT NULL
+      AND f.created_at >= p_from
+      AND f.created_at < p_to + 1
+    GROUP BY f.artist_id
+  )
+  SELECT
+    a.id,
+    a.name,
+    COALESCE(av.votes, 0),
+    COALESCE(av.voters, 0),
+    COALESCE(af.follows, 0),
+    COALESCE(av.votes, 0) + COALESCE(af.follows, 0)
+  FROM artists a
+  LEFT JOIN artist_votes av ON av.artist_id = a.id
+  LEFT JOIN artist_follows af ON af.artist_id = a.id
+  WHERE av.artist_id IS NOT NULL OR af.artist_id IS NOT NULL
+  ORDER BY 6 DESC, a.name
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Finished sync jobs per day by outcome. Only leaf operations are counted:
+-- a cascade's root row just repeats its children's results.
+CREATE OR REPLACE FUNCTION get_admin_sync_health(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  day DATE,
+  succeeded INTEGER,
+  failed INTEGER,
+  blocked INTEGER
+) AS $$
+BEGIN
+  PERFORM assert_admin_date_range(p_from, p_to);
+
+  RETURN QUERY
+  WITH days AS (
+    SELECT generate_series(p_from, p_to, INTERVAL '1 day')::date AS day
+  ),
+  outcomes AS (
+    SELECT
+      (o.started_at AT TIME ZONE 'UTC')::date AS day,
+      COUNT(*) FILTER (WHERE o.status = 'completed')::integer AS succeeded,
+      COUNT(*) FILTER (WHERE o.status = 'failed')::integer AS failed,
+      COUNT(*) FILTER (WHERE o.status = 'blocked')::integer AS blocked
+    FROM sync_operations o
+    WHERE o.started_at >= p_from
+      AND o.started_at < p_to + 1
+      AND NOT EXISTS (SELECT 1 FROM sync_operations c WHERE c.parent_task = o.id)
+    GROUP BY 1
+  )
+  SELECT d.day, COALESCE(o.succeeded, 0), COALESCE(o.failed, 0), COALESCE(o.blocked, 0)
+  FROM days d
+  LEFT JOIN outcomes o ON o.day = d.day
+  ORDER BY d.day;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Logged errors per day and endpoint
+CREATE OR REPLACE FUNCTION get_admin_api_errors(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  day DATE,
+  endpoint TEXT,
+  errors INTEGER
+) AS $$
+BEGIN
+  PERFORM assert_admin_date_range(p_from, p_to);
+
+  RETURN QUERY
+  SELECT (l.timestamp AT TIME ZONE 'UTC')::date, l.endpoint, COUNT(*)::integer
+  FROM error_logs l
+  WHERE l.timestamp >= p_from
+    AND l.timestamp < p_to + 1
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_admin_daily_activity TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_admin_show_vote_series TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_admin_signup_funnel TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_admin_top_artists TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_admin_sync_health TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_admin_api_errors TO authenticated;
@@ -0,0 +1,183 @@
+-- 028_artist_imports.sql
+-- Bulk artist imports for seeding a new market. An import job holds one row
+-- per artist from an uploaded CSV or a Spotify playlist. Rows are resolved
+-- against Ticketmaster and Spotify in batches (status 'pending' until then),
+-- previewed with their match confidence, and the accepted ones are handed to
+-- the sync queue as artist cascade syncs. get_artist_import_report follows
+-- each queued row through its sync task for the progress view.
+
+CREATE TABLE IF NOT EXISTS public.artist_import_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  source TEXT NOT NULL CHECK (source IN ('csv', 'spotify_playlist')),
+  source_ref TEXT, -- CSV file name or playlist URL
+  status TEXT NOT NULL DEFAULT 'resolving' CHECK (status IN ('resolving', 'ready', 'queued')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_artist_import_jobs_created_at ON public.artist_import_jobs(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.artist_import_rows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES public.artist_import_jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  input_name TEXT,
+  input_ticketmaster_id TEXT,
+  input_spotify_id TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'matched', 'review', 'unmatched', 'skipped', 'queued')),
+  confidence NUMERIC(4, 3),
+  ticketmaster_id TEXT,
+  spotify_id TEXT,
+  matched_name TEXT,
+  image_url TEXT,
+  candidates JSONB NOT NULL DEFAULT '[]', -- [{ ticketmaster_id, name, image_url, upcoming_events, confidence }]
+  existing_artist_id UUID REFERENCES public.artists(id) ON DELETE SET NULL,
+  sync_task_id BIGINT, -- sync_tasks.id of the cascade sync
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (job_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_artist_import_rows_pending
+  ON public.artist_import_rows(job_id, position)
+  WHERE status = 'pending';
+
+ALTER TABLE public.artist_import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.artist_import_rows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage artist import jobs" ON public.artist_import_jobs;
+CREATE POLICY "Admins can manage artist import jobs"
+  ON public.artist_import_jobs FOR ALL
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin));
+
+DROP POLICY IF EXISTS "Admins can manage artist import rows" ON public.artist_import_rows;
+CREATE POLICY "Admins can manage artist import rows"
+  ON public.artist_import_rows FOR ALL
+  USING (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin));
+
+-- Queue a cascade sync for every matched row of a job, plus an
+-- expand_relations task that pulls in the artist's upcoming shows. Live
+-- tasks for the same artist are merged by enqueue_sync_task, so importing an
+-- artist twice does not sync it twice. Returns the number of rows queued.
+CREATE OR REPLACE FUNCTION queue_artist_import(p_job_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_row artist_import_rows%ROWTYPE;
+  v_task_id BIGINT;
+  v_queued INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can queue artist imports';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM artist_import_rows WHERE job_id = p_job_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'Artist import % is still being resolved', p_job_id;
+  END IF;
+
+  FOR v_row IN
+    SELECT * FROM artist_import_rows
+    WHERE job_id = p_job_id
+      AND status = 'matched'
+      AND ticketmaster_id IS NOT NULL
+    ORDER BY position
+    FOR UPDATE
+  LOOP
+    SELECT id INTO v_task_id
+    FROM enqueue_sync_task(
+      'artist',
+      v_row.ticketmaster_id,
+      'cascade_sync',
+      2, -- medium
+      jsonb_build_object(
+        'import_job_id', p_job_id,
+        'name', v_row.matched_name,
+        'spotify_id', v_row.spotify_id
+      ),
+      'ticketmaster'
+    );
+
+    PERFORM enqueue_sync_task('artist', v_row.ticketmaster_id, 'expand_relations', 1, NULL, 'ticketmaster');
+
+    UPDATE artist_import_rows
+    SET status = 'queued', sync_task_id = v_task_id, updated_at = now()
+    WHERE id = v_row.id;
+
+    v_queued := v_queued + 1;
+  END LOOP;
+
+  UPDATE artist_import_jobs
+  SET status = 'queued', updated_at = now()
+  WHERE id = p_job_id;
+
+  RETURN v_queued;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Every row of a job with the state of its sync task. outcome is the row
+-- status until the row is queued, then follows the task:
+--   queued     waiting in the sync queue
+--   syncing    claimed by a worker
+--   imported   the cascade sync completed
+--   failed     the task was dead-lettered after its last attempt
+CREATE OR REPLACE FUNCTION get_artist_import_report(p_job_id UUID)
+RETURNS TABLE (
+  row_id UUID,
+  "position" INTEGER,
+  input_name TEXT,
+  input_ticketmaster_id TEXT,
+  input_spotify_id TEXT,
+  status TEXT,
+  outcome TEXT,
+  confidence NUMERIC,
+  ticketmaster_id TEXT,
+  spotify_id TEXT,
+  matched_name TEXT,
+  image_url TEXT,
+  candidates JSONB,
+  existing_artist_id UUID,
+  sync_attempts INTEGER,
+  error TEXT
+) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND is_admin) THEN
+    RAISE EXCEPTION 'Only admins can view artist imports';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.position,
+    r.input_name,
+    r.input_ticketmaster_id,
+    r.input_spotify_id,
+    r.status,
+    CASE
+      WHEN r.status <> 'queued' THEN r.status
+      WHEN t.status = 'completed' THEN 'imported'
+      WHEN t.status = 'dead_letter' THEN 'failed'
+      WHEN t.status = 'processing' THEN 'syncing'
+      ELSE 'queued'
+    END,
+    r.confidence,
+    r.ticketmaster_id,
+    r.spotify_id,
+    r.matched_name,
+    r.image_url,
+    r.candidates,
+    r.existing_artist_id,
+    t.attempts,
+    COALESCE(r.error, t.error_log -> -1 ->> 'message')
+  FROM artist_import_rows r
+  LEFT JOIN sync_tasks t ON t.id = r.sync_task_id
+  WHERE r.job_id = p_job_id
+  ORDER BY r.position;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.queue_artist_import TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_artist_import_report TO authenticated;
@@ -0,0 +1,39 @@
+import { useCallback, useState } from 'react';
+import { Coordinates } from '@/lib/geo';
+
+type LocationStatus = 'idle' | 'locating' | 'ready' | 'denied' | 'unavailable';
+
+/**
+ * Browser geolocation for "Near me" searches. Nothing is requested until
+ * requestLocation is called, so the permission prompt only appears on demand.
+ */
+export function useCurrentLocation() {
+  const [coordinates, setCoordinates] = useState<Coordinates | null>(null);
+  const [status, setStatus] = useState<LocationStatus>('idle');
+
+  const requestLocation = useCallback(() => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      setStatus('unavailable');
+      return;
+    }
+
+    setStatus('locating');
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setCoordinates({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude
+        });
+        setStatus('ready');
+      },
+      (error) => {
+        console.warn('Could not get current location:', error.message);
+        setStatus(error.code === error.PERMISSION_DENIED ? 'denied' : 'unavailable');
+      },
+      // City-level accuracy is plenty for a radius search
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 10 * 60 * 1000 }
+    );
+  }, []);
+
+  return { coordinates, status, requestLocation };
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { follow, FollowTarget, isFollowing, unfollow } from "@/lib/api/database/follows";
+
+/**
+ * Follow state for an artist or venue, for the signed-in user
+ */
+export function useFollow(target: FollowTarget) {
+  const { artistId, venueId } = target;
+  const [userId, setUserId] = useState<string | null>(null);
+  const [following, setFollowing] = useState(false);
+  const [isPending, setIsPending] = useState(false);
+
+  useEffect(() => {
+    if (!artistId && !venueId) return;
+
+    supabase.auth.getUser().then(async ({ data: { user } }) => {
+      setUserId(user?.id ?? null);
+      if (user) {
+        setFollowing(await isFollowing(user.id, artistId ? { artistId } : { venueId: venueId as string }));
+      }
+    });
+  }, [artistId, venueId]);
+
+  const toggleFollow = useCallback(async () => {
+    if (!userId) {
+      toast.error("Sign in to follow artists and venues");
+      return;
+    }
+
+    const current = artistId ? { artistId } : { venueId: venueId as string };
+    const next = !following;
+
+    // Optimistic, rolled back if the write fails
+    setFollowing(next);
+    setIsPending(true);
+    try {
+      if (next) {
+        await follow(userId, current);
+      } else {
+        await unfollow(userId, current);
+      }
+    } catch (error) {
+      console.error('Error updating follow:', error);
+      setFollowing(!next);
+      toast.error(next ? 'Failed to follow' : 'Failed to unfollow');
+    } finally {
+      setIsPending(false);
+    }
+  }, [userId, artistId, venueId, following]);
+
+  return {
+    isSignedIn: Boolean(userId),
+    isFollowing: following,
+    isPending,
+    toggleFollow
+  };
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase, subscribeToRecord } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { getVoteHeaders, submitVote } from "@/lib/api/database/votes";
 
 interface Song {
   id: string;
@@ -18,23 +19,46 @@ export function useRealtimeVotes({ showId, initialSongs }: UseRealtimeVotesProps
   const [songs, setSongs] = useState<Song[]>(initialSongs);
   const [isConnected, setIsConnected] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
-  const [anonymousVoteCount, setAnonymousVoteCount] = useState<number>(() => {
-    // Initialize from localStorage if it exists
-    const stored = localStorage.getItem(`anonymousVotes-${showId}`);
-    return stored ? parseInt(stored, 10) : 0;
-  });
+  // Anonymous votes are tracked server-side against a signed session cookie;
+  // these mirror the counts /api/vote reports
+  const [anonymousVoteCount, setAnonymousVoteCount] = useState<number>(0);
+  const [anonymousVoteLimit, setAnonymousVoteLimit] = useState<number>(3);
+  const [anonymousVotedSongs, setAnonymousVotedSongs] = useState<string[]>([]);
   
-  // Store voted songs for anonymous users
-  const [anonymousVotedSongs, setAnonymousVotedSongs] = useState<string[]>(() => {
-    // Initialize from localStorage if it exists
-    const stored = localStorage.getItem(`anonymousVotedSongs-${showId}`);
-    return stored ? JSON.parse(stored) : [];
-  });
+  // Load this visitor's anonymous votes for the show
+  useEffect(() => {
+    if (!showId) return;
+    
+    const loadAnonymousVotes = async () => {
+      try {
+        const response = await fetch(`/api/vote?showId=${encodeURIComponent(showId)}`, {
+          headers: await getVoteHeaders(),
+          credentials: 'same-origin'
+        });
+        if (!response.ok) return;
+        
+        const status = await response.json();
+        if (!status.anonymous) return;
+        
+        setAnonymousVoteCount(status.votesUsed);
+        setAnonymousVoteLimit(status.votesUsed + status.votesRemaining);
+        setAnonymousVotedSongs(status.votedSongIds);
+        setSongs(currentSongs => currentSongs.map(song => ({
+          ...song,
+          userVoted: song.userVoted || status.votedSongIds.includes(song.id)
+        })));
+      } catch (error) {
+        console.error('Error loading anonymous votes:', error);
+      }
+    };
+    
+    loadAnonymousVotes();
+  }, [showId]);
   
   // Initialize songs from initialSongs when they're available
   useEffect(() => {
     if (initialSongs.length > 0 && !isInitialized) {
-      // Restore user voted state from local storage for anonymous users
+      // Restore voted state for anonymous users from their server-side votes
       const songsWithLocalVotes = initialSongs.map(song => ({
         ...song,
         userVoted: anonymousVotedSongs.includes(song.id)
@@ -124,7 +148,7 @@ export function useRealtimeVotes({ showId, initialSongs }: UseRealtimeVotesProps
   // Vote for a song
   const voteForSong = useCallback(async (songId: string, isAuthenticated: boolean) => {
     // Check if anonymous user has used all their votes
-    if (!isAuthenticated && anonymousVoteCount >= 3) {
+    if (!isAuthenticated && anonymousVoteCount >= anonymousVoteLimit) {
       console.log(`Anonymous user has used all ${anonymousVoteCount} votes`);
       toast.info("You've used all your free votes. Log in to vote more!", {
         style: { background: "#14141F", color: "#fff", border: "1px solid rgba(255,255,255,0.1)" },
@@ -148,6 +172,9 @@ export function useRealtimeVotes({ showId, initialSongs }: UseRealtimeVotesProps
       return false;
     }
     
+    let limitReached = false;
+    let votingClosed = false;
+    
     try {
       // Optimistically update the UI
       setSongs(currentSongs => 
@@ -163,47 +190,30 @@ export function useRealtimeVotes({ showId, initialSongs }: UseRealtimeVotesProps
         })
       );
       
-      // If not authenticated, update anonymous vote count
-      if (!isAuthenticated) {
-        const newCount = anonymousVoteCount + 1;
-        setAnonymousVoteCount(newCount);
-        localStorage.setItem(`anonymousVotes-${showId}`, newCount.toString());
-        
-        // Store voted song ID in localStorage
-        const newVotedSongs = [...anonymousVotedSongs, songId];
-        setAnonymousVotedSongs(newVotedSongs);
-        localStorage.setItem(`anonymousVotedSongs-${showId}`, JSON.stringify(newVotedSongs));
+      // Send the vote through the vote service. Anonymous votes are capped per
+      // show there, against the signed session cookie the route issues.
+      const result = await submitVote(songId);
+      
+      if (result.anonymous && result.votesUsed !== null && result.votesRemaining !== null) {
+        setAnonymousVoteCount(result.votesUsed);
+        setAnonymousVoteLimit(result.votesUsed + result.votesRemaining);
       }
       
-      // Send the vote to the server
-      if (isAuthenticated) {
-        // For authenticated users, use the vote API
-        const response = await fetch('/api/vote', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            songId,
-            action: 'increment'
-          }),
-        });
-        
-        if (!response.ok) {
-          throw new Error('Failed to submit vote');
-        }
-      } else {
-        // For anonymous users, just update the vote count in the database
-        // This is a simplified approach - in a real app, you might want to
-        // implement rate limiting or other protections
-        const { error } = await supabase
-          .from('setlist_songs')
-          .update({ votes: songToVote ? songToVote.votes + 1 : 1 })
-          .eq('id', songId);
-          
-        if (error) {
-          throw error;
-        }
+      if (!result.ok) {
+        limitReached = result.status === 'limit_reached';
+        votingClosed = result.status === 'voting_closed';
+        throw new Error(result.error || 'Failed to submit vote');
+      }
+      
+      if (result.anonymous) {
+        setAnonymousVotedSongs(current => current.includes(songId) ? current : [...current, songId]);
+      }
+      
+      // Take the server's tally over the optimistic one
+      if (result.voteCount !== null) {
+        setSongs(currentSongs =>
+          currentSongs.map(song => song.id === songId ? { ...song, votes: result.voteCount } : song)
+        );
       }
       
       console.log(`Vote registered for song ID: ${songId}`);
@@ -225,22 +235,14 @@ export function useRealtimeVotes({ showId, initialSongs }: UseRealtimeVotesProps
         })
       );
       
-      // Revert anonymous vote count if needed
-      if (!isAuthenticated) {
-        const newCount = anonymousVoteCount - 1;
-        setAnonymousVoteCount(newCount);
-        localStorage.setItem(`anonymousVotes-${showId}`, newCount.toString());
-        
-        // Remove voted song ID from localStorage
-        const newVotedSongs = anonymousVotedSongs.filter(id => id !== songId);
-        setAnonymousVotedSongs(newVotedSongs);
-        localStorage.setItem(`anonymousVotedSongs-${showId}`, JSON.stringify(newVotedSongs));
-      }
-      
-      toast.error('Failed to submit vote. Please try again.');
+      toast.error(limitReached
+        ? "You've used all your free votes. Log in to vote more!"
+        : votingClosed
+          ? 'Voting is closed for this show'
+          : 'Failed to submit vote. Please try again.');
       return false;
     }
-  }, [anonymousVoteCount, anonymousVotedSongs, showId, songs]);
+  }, [anonymousVoteCount, anonymousVoteLimit, songs]);
   
   // Add a new song to the setlist
   const addSongToSetlist = useCallback(async (newSong: Song) => {
@@ -306,6 +308,7 @@ export function useRealtimeVotes({ showId, initialSongs }: UseRealtimeVotesProps
     voteForSong,
     addSongToSetlist,
     anonymousVoteCount,
+    anonymousVoteLimit,
     anonymousVotedSongs
   };
 }
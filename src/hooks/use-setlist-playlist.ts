@@ -0,0 +1,179 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  createSpotifyPlaylistClient,
+  setlistPlaylistDetails,
+  syncPlaylist,
+  toSpotifyTrackUri
+} from "@/lib/spotify/playlists";
+import { ProviderRequestError } from "@/lib/sync/providers/base";
+import { track } from "@/lib/analytics";
+import {
+  DEFAULT_PLAYLIST_TRACK_LIMIT,
+  getPlaylistTracks,
+  getSetlistPlaylists,
+  PlaylistMode,
+  saveSetlistPlaylist,
+  saveSpotifyConnection,
+  SetlistPlaylist
+} from "@/lib/api/database/playlists";
+
+interface UseSetlistPlaylistProps {
+  showId: string;
+  showName: string;
+  artistName: string;
+}
+
+// Wait for votes to settle before rewriting the playlist
+const RESYNC_DELAY_MS = 10000;
+
+/**
+ * Export a show's setlist to the user's Spotify as a playlist, and keep the
+ * fan-voted playlist in vote order while the show page is open. Once the
+ * played setlist is posted, the server brings the playlists up to date.
+ */
+export function useSetlistPlaylist({ showId, showName, artistName }: UseSetlistPlaylistProps) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [playlists, setPlaylists] = useState<Partial<Record<PlaylistMode, SetlistPlaylist>>>({});
+  const [syncingMode, setSyncingMode] = useState<PlaylistMode | null>(null);
+  const playlistsRef = useRef(playlists);
+  playlistsRef.current = playlists;
+
+  // Load the playlists this user has already exported for the show
+  useEffect(() => {
+    if (!showId) return;
+
+    supabase.auth.getUser().then(async ({ data: { user } }) => {
+      setUserId(user?.id ?? null);
+      if (user) {
+        setPlaylists(await getSetlistPlaylists(showId, user.id));
+      }
+    });
+  }, [showId]);
+
+  const exportPlaylist = useCallback(async (mode: PlaylistMode, options: { background?: boolean } = {}) => {
+    const { background = false } = options;
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session?.provider_token) {
+      if (!background) toast.error("Sign in with Spotify to save playlists");
+      return null;
+    }
+
+    const existing = playlistsRef.current[mode];
+    const limit = existing?.track_limit ?? DEFAULT_PLAYLIST_TRACK_LIMIT;
+
+    try {
+      setSyncingMode(mode);
+
+      const tracks = await getPlaylistTracks(showId, mode, limit);
+      if (tracks.length === 0) {
+        if (!background) {
+          toast.info(mode === 'played'
+            ? "The played setlist isn't available yet"
+            : "No songs with Spotify tracks to save yet");
+        }
+        return null;
+      }
+
+      const result = await syncPlaylist(createSpotifyPlaylistClient(session.provider_token), {
+        details: setlistPlaylistDetails(mode, { artistName, showName, limit }),
+        uris: tracks.map(track => toSpotifyTrackUri(track.spotify_id)),
+        existing: existing && {
+          playlistId: existing.spotify_playlist_id,
+          url: existing.spotify_playlist_url,
+          uris: existing.track_uris
+        },
+        force: !background
+      });
+
+      if (!result.changed) return existing;
+
+      const saved = await saveSetlistPlaylist({
+        show_id: showId,
+        user_id: session.user.id,
+        mode,
+        spotify_playlist_id: result.id,
+        spotify_playlist_url: result.url,
+        snapshot_id: result.snapshotId,
+        track_limit: limit,
+        track_uris: result.uris
+      });
+
+      setPlaylists(current => ({ ...current, [mode]: saved }));
+
+      // Lets the server keep the playlist in sync once the setlist is posted
+      if (session.provider_refresh_token) {
+        await saveSpotifyConnection(session.provider_refresh_token);
+      }
+
+      if (!background) {
+        track({ name: 'playlist_exported', properties: { show_id: showId, mode } });
+        toast.success(result.created ? 'Playlist saved to Spotify' : 'Playlist updated on Spotify');
+      }
+      return saved;
+    } catch (error) {
+      console.error('Error exporting setlist playlist:', error);
+      if (!background) {
+        toast.error(error instanceof ProviderRequestError && error.status === 401
+          ? "Spotify access expired. Please sign in again."
+          : 'Failed to save playlist to Spotify');
+      }
+      return null;
+    } finally {
+      setSyncingMode(null);
+    }
+  }, [showId, showName, artistName]);
+
+  // Re-sync the fan-voted playlist as votes come in
+  const hasVotedPlaylist = Boolean(playlists.voted);
+  useEffect(() => {
+    if (!showId || !hasVotedPlaylist) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+
+    supabase
+      .from('setlists')
+      .select('id')
+      .eq('show_id', showId)
+      .maybeSingle()
+      .then(({ data: setlist, error }) => {
+        // The effect was cleaned up while the setlist was loading
+        if (cancelled) return;
+
+        if (error || !setlist) {
+          if (error) console.error('Error fetching setlist for playlist sync:', error);
+          return;
+        }
+
+        channel = supabase
+          .channel(`setlist-playlist:${setlist.id}`)
+          .on('postgres_changes', {
+            event: '*',
+            schema: 'public',
+            table: 'setlist_songs',
+            filter: `setlist_id=eq.${setlist.id}`
+          }, () => {
+            if (timer) clearTimeout(timer);
+            timer = setTimeout(() => exportPlaylist('voted', { background: true }), RESYNC_DELAY_MS);
+          })
+          .subscribe();
+      });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [showId, hasVotedPlaylist, exportPlaylist]);
+
+  return {
+    isSignedIn: Boolean(userId),
+    playlists,
+    syncingMode,
+    exportPlaylist
+  };
+}
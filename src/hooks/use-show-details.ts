@@ -4,6 +4,7 @@ import { fetchShowDetails } from '@/lib/ticketmaster';
 import { searchArtists } from '@/lib/spotify';
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
+import { submitVote } from '@/lib/api/database/votes';
 // Removed import for createSetlistDirectly as setlist creation is handled server-side by Edge Functions
 import { v4 as uuidv4 } from 'uuid';
 
@@ -22,7 +23,14 @@ export function useShowDetails(id: string | undefined) {
           artist_id,
           venue_id,
           ticket_url,
-          image_url
+          image_url,
+          lifecycle_state,
+          voting_opens_at,
+          voting_locks_at,
+          stage,
+          set_starts_at,
+          event:events(id, name, kind),
+          tour:tours(id, name)
         `)
         .eq('id', showId)
         .maybeSingle();
@@ -96,6 +104,20 @@ export function useShowDetails(id: string | undefined) {
       // when the show is saved to the database (via import-artist or sync-venue).
       // This hook should focus only on fetching data for display.
       
+      // The voting window, festival and tour only exist on our copy of the show
+      if (showDetails && dbShow) {
+        return {
+          ...showDetails,
+          lifecycle_state: dbShow.lifecycle_state,
+          voting_opens_at: dbShow.voting_opens_at,
+          voting_locks_at: dbShow.voting_locks_at,
+          stage: dbShow.stage,
+          set_starts_at: dbShow.set_starts_at,
+          event: dbShow.event,
+          tour: dbShow.tour
+        };
+      }
+      
       return showDetails;
     },
     enabled: !!id,
@@ -116,26 +138,10 @@ export function useShowDetails(id: string | undefined) {
     if (!songId) return false;
     
     try {
-      // Get the current votes for this song
-      const { data: songData, error: fetchError } = await supabase
-        .from('setlist_songs')
-        .select('votes')
-        .eq('id', songId)
-        .single();
-      
-      if (fetchError) {
-        console.error("Error fetching song votes:", fetchError);
-        return false;
-      }
-      
-      // Increment the votes
-      const { error: updateError } = await supabase
-        .from('setlist_songs')
-        .update({ votes: (songData.votes || 0) + 1 })
-        .eq('id', songId);
+      const result = await submitVote(songId);
       
-      if (updateError) {
-        console.error("Error updating song votes:", updateError);
+      if (!result.ok) {
+        console.error("Error voting for song:", result.error);
         return false;
       }
       
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import {
+  getShowLifecycleState,
+  getVotingCountdown,
+  ShowVotingWindow,
+} from '@/lib/show-lifecycle';
+
+/**
+ * A show's lifecycle state and voting countdown, re-evaluated every second so
+ * the UI locks at doors without a reload
+ */
+export function useShowLifecycle(show: ShowVotingWindow | null | undefined) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const votingWindow = show ?? {};
+  const state = getShowLifecycleState(votingWindow, now);
+
+  return {
+    state,
+    isVotingOpen: state === 'voting_open',
+    countdown: getVotingCountdown(votingWindow, now),
+  };
+}
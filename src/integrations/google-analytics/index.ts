@@ -1,6 +1,9 @@
 
 import ReactGA from "react-ga4";
 
+// GA is an optional analytics sink; nothing is sent until initGA succeeds
+let initialized = false;
+
 /**
  * Initialize Google Analytics with your tracking ID
  * @param trackingId Your Google Analytics tracking ID (e.g., "G-XXXXXXXXXX")
@@ -13,6 +16,7 @@ export const initGA = (trackingId: string) => {
   
   try {
     ReactGA.initialize(trackingId);
+    initialized = true;
     console.log("Google Analytics initialized successfully");
   } catch (error) {
     console.error("Failed to initialize Google Analytics:", error);
@@ -25,6 +29,7 @@ export const initGA = (trackingId: string) => {
  * @param title The page title
  */
 export const trackPageView = (path: string, title?: string) => {
+  if (!initialized) return;
   try {
     ReactGA.send({ hitType: "pageview", page: path, title });
     console.log(`Page view tracked: ${path}`);
@@ -46,6 +51,7 @@ export const trackEvent = (
   label?: string, 
   value?: number
 ) => {
+  if (!initialized) return;
   try {
     ReactGA.event({
       category,
@@ -64,6 +70,7 @@ export const trackEvent = (
  * @param userId The user ID to set
  */
 export const setUserId = (userId: string) => {
+  if (!initialized) return;
   try {
     ReactGA.set({ userId });
     console.log(`User ID set: ${userId}`);
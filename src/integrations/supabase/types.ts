@@ -9,6 +9,172 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      analytics_daily_show_counts: {
+        Row: {
+          day: string
+          events: number
+          name: string
+          sessions: number
+          show_id: string
+        }
+        Insert: {
+          day: string
+          events?: number
+          name: string
+          sessions?: number
+          show_id: string
+        }
+        Update: {
+          day?: string
+          events?: number
+          name?: string
+          sessions?: number
+          show_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analytics_daily_show_counts_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analytics_daily_totals: {
+        Row: {
+          day: string
+          events: number
+          name: string
+          sessions: number
+          users: number
+        }
+        Insert: {
+          day: string
+          events?: number
+          name: string
+          sessions?: number
+          users?: number
+        }
+        Update: {
+          day?: string
+          events?: number
+          name?: string
+          sessions?: number
+          users?: number
+        }
+        Relationships: []
+      }
+      analytics_events: {
+        Row: {
+          id: number
+          name: string
+          occurred_at: string
+          path: string | null
+          properties: Json
+          received_at: string
+          session_id: string
+          show_id: string | null
+          user_id: string | null
+        }
+        Insert: {
+          id?: number
+          name: string
+          occurred_at: string
+          path?: string | null
+          properties?: Json
+          received_at?: string
+          session_id: string
+          show_id?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          id?: number
+          name?: string
+          occurred_at?: string
+          path?: string | null
+          properties?: Json
+          received_at?: string
+          session_id?: string
+          show_id?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analytics_events_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      analytics_ingest_limits: {
+        Row: {
+          events: number
+          key: string
+          window_start: string
+        }
+        Insert: {
+          events?: number
+          key: string
+          window_start: string
+        }
+        Update: {
+          events?: number
+          key?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      analytics_opt_outs: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      anonymous_sessions: {
+        Row: {
+          created_at: string
+          device_hash: string | null
+          id: string
+          ip_hash: string | null
+          last_seen_at: string
+          merged_at: string | null
+          merged_into_user_id: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          created_at?: string
+          device_hash?: string | null
+          id?: string
+          ip_hash?: string | null
+          last_seen_at?: string
+          merged_at?: string | null
+          merged_into_user_id?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          created_at?: string
+          device_hash?: string | null
+          id?: string
+          ip_hash?: string | null
+          last_seen_at?: string
+          merged_at?: string | null
+          merged_into_user_id?: string | null
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
       api_cache: {
         Row: {
           cache_key: string
@@ -30,6 +196,224 @@ export type Database = {
         }
         Relationships: []
       }
+      artist_genres: {
+        Row: {
+          artist_id: string
+          created_at: string
+          genre_id: string
+          source: string
+        }
+        Insert: {
+          artist_id: string
+          created_at?: string
+          genre_id: string
+          source: string
+        }
+        Update: {
+          artist_id?: string
+          created_at?: string
+          genre_id?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "artist_genres_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "artists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "artist_genres_genre_id_fkey"
+            columns: ["genre_id"]
+            isOneToOne: false
+            referencedRelation: "genres"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      artist_identifiers: {
+        Row: {
+          artist_id: string
+          created_at: string
+          external_id: string
+          id: string
+          provider: string
+        }
+        Insert: {
+          artist_id: string
+          created_at?: string
+          external_id: string
+          id?: string
+          provider: string
+        }
+        Update: {
+          artist_id?: string
+          created_at?: string
+          external_id?: string
+          id?: string
+          provider?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "artist_identifiers_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "artists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      artist_import_jobs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          source: string
+          source_ref: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          source: string
+          source_ref?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          source?: string
+          source_ref?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      artist_import_rows: {
+        Row: {
+          candidates: Json
+          confidence: number | null
+          created_at: string
+          error: string | null
+          existing_artist_id: string | null
+          id: string
+          image_url: string | null
+          input_name: string | null
+          input_spotify_id: string | null
+          input_ticketmaster_id: string | null
+          job_id: string
+          matched_name: string | null
+          position: number
+          spotify_id: string | null
+          status: string
+          sync_task_id: number | null
+          ticketmaster_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          candidates?: Json
+          confidence?: number | null
+          created_at?: string
+          error?: string | null
+          existing_artist_id?: string | null
+          id?: string
+          image_url?: string | null
+          input_name?: string | null
+          input_spotify_id?: string | null
+          input_ticketmaster_id?: string | null
+          job_id: string
+          matched_name?: string | null
+          position: number
+          spotify_id?: string | null
+          status?: string
+          sync_task_id?: number | null
+          ticketmaster_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          candidates?: Json
+          confidence?: number | null
+          created_at?: string
+          error?: string | null
+          existing_artist_id?: string | null
+          id?: string
+          image_url?: string | null
+          input_name?: string | null
+          input_spotify_id?: string | null
+          input_ticketmaster_id?: string | null
+          job_id?: string
+          matched_name?: string | null
+          position?: number
+          spotify_id?: string | null
+          status?: string
+          sync_task_id?: number | null
+          ticketmaster_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "artist_import_rows_existing_artist_id_fkey"
+            columns: ["existing_artist_id"]
+            isOneToOne: false
+            referencedRelation: "artists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "artist_import_rows_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "artist_import_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      artist_merges: {
+        Row: {
+          id: string
+          merged_at: string
+          merged_by: string | null
+          moved: Json
+          note: string | null
+          source_artist_id: string
+          source_snapshot: Json
+          split_at: string | null
+          split_by: string | null
+          target_artist_id: string
+          target_snapshot: Json
+        }
+        Insert: {
+          id?: string
+          merged_at?: string
+          merged_by?: string | null
+          moved?: Json
+          note?: string | null
+          source_artist_id: string
+          source_snapshot: Json
+          split_at?: string | null
+          split_by?: string | null
+          target_artist_id: string
+          target_snapshot: Json
+        }
+        Update: {
+          id?: string
+          merged_at?: string
+          merged_by?: string | null
+          moved?: Json
+          note?: string | null
+          source_artist_id?: string
+          source_snapshot?: Json
+          split_at?: string | null
+          split_by?: string | null
+          target_artist_id?: string
+          target_snapshot?: Json
+        }
+        Relationships: []
+      }
       artists: {
         Row: {
           created_at: string | null
@@ -39,6 +423,7 @@ export type Database = {
           image_url: string | null
           name: string
           popularity: number | null
+          search_vector: unknown | null
           setlist_fm_mbid: string | null
           spotify_id: string | null
           updated_at: string | null
@@ -51,6 +436,7 @@ export type Database = {
           image_url?: string | null
           name: string
           popularity?: number | null
+          search_vector?: never
           setlist_fm_mbid?: string | null
           spotify_id?: string | null
           updated_at?: string | null
@@ -63,6 +449,7 @@ export type Database = {
           image_url?: string | null
           name?: string
           popularity?: number | null
+          search_vector?: never
           setlist_fm_mbid?: string | null
           spotify_id?: string | null
           updated_at?: string | null
@@ -90,6 +477,86 @@ export type Database = {
         }
         Relationships: []
       }
+      events: {
+        Row: {
+          created_at: string
+          ends_at: string | null
+          external_id: string | null
+          id: string
+          image_url: string | null
+          kind: string
+          name: string
+          starts_at: string | null
+          ticket_url: string | null
+          updated_at: string
+          venue_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          ends_at?: string | null
+          external_id?: string | null
+          id?: string
+          image_url?: string | null
+          kind: string
+          name: string
+          starts_at?: string | null
+          ticket_url?: string | null
+          updated_at?: string
+          venue_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          ends_at?: string | null
+          external_id?: string | null
+          id?: string
+          image_url?: string | null
+          kind?: string
+          name?: string
+          starts_at?: string | null
+          ticket_url?: string | null
+          updated_at?: string
+          venue_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "events_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      genres: {
+        Row: {
+          created_at: string
+          display_order: number
+          id: string
+          name: string
+          slug: string
+          spotify_keywords: string[]
+          ticketmaster_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          name: string
+          slug: string
+          spotify_keywords?: string[]
+          ticketmaster_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          display_order?: number
+          id?: string
+          name?: string
+          slug?: string
+          spotify_keywords?: string[]
+          ticketmaster_id?: string | null
+        }
+        Relationships: []
+      }
       migrations: {
         Row: {
           executed_at: string | null
@@ -111,49 +578,421 @@ export type Database = {
         }
         Relationships: []
       }
-      setlist_raw_data: {
+      notification_jobs: {
         Row: {
-          artist_id: string | null
-          created_at: string | null
-          id: string
-          raw_data: Json | null
-          setlist_id: string | null
-          show_id: string | null
+          created_at: string
+          data: Json
+          error: string | null
+          id: number
+          notifications_created: number | null
+          processed_at: string | null
+          show_id: string
+          type: string
+          user_ids: string[] | null
         }
         Insert: {
-          artist_id?: string | null
-          created_at?: string | null
-          id?: string
-          raw_data?: Json | null
-          setlist_id?: string | null
-          show_id?: string | null
+          created_at?: string
+          data?: Json
+          error?: string | null
+          id?: number
+          notifications_created?: number | null
+          processed_at?: string | null
+          show_id: string
+          type: string
+          user_ids?: string[] | null
         }
         Update: {
-          artist_id?: string | null
-          created_at?: string | null
-          id?: string
-          raw_data?: Json | null
-          setlist_id?: string | null
-          show_id?: string | null
+          created_at?: string
+          data?: Json
+          error?: string | null
+          id?: number
+          notifications_created?: number | null
+          processed_at?: string | null
+          show_id?: string
+          type?: string
+          user_ids?: string[] | null
         }
         Relationships: [
           {
-            foreignKeyName: "setlist_raw_data_setlist_id_fkey"
-            columns: ["setlist_id"]
+            foreignKeyName: "notification_jobs_show_id_fkey"
+            columns: ["show_id"]
             isOneToOne: false
-            referencedRelation: "setlists"
+            referencedRelation: "shows"
             referencedColumns: ["id"]
           },
         ]
       }
-      setlist_songs: {
+      notification_preferences: {
+        Row: {
+          email_digest: string
+          last_digest_at: string | null
+          prediction_played: boolean
+          setlist_posted: boolean
+          show_announced: boolean
+          updated_at: string
+          user_id: string
+          voting_closed: boolean
+          voting_open: boolean
+        }
+        Insert: {
+          email_digest?: string
+          last_digest_at?: string | null
+          prediction_played?: boolean
+          setlist_posted?: boolean
+          show_announced?: boolean
+          updated_at?: string
+          user_id: string
+          voting_closed?: boolean
+          voting_open?: boolean
+        }
+        Update: {
+          email_digest?: string
+          last_digest_at?: string | null
+          prediction_played?: boolean
+          setlist_posted?: boolean
+          show_announced?: boolean
+          updated_at?: string
+          user_id?: string
+          voting_closed?: boolean
+          voting_open?: boolean
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          data: Json
+          dedupe_key: string
+          emailed_at: string | null
+          id: string
+          link: string | null
+          read_at: string | null
+          show_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          dedupe_key: string
+          emailed_at?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          show_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          data?: Json
+          dedupe_key?: string
+          emailed_at?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          show_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prediction_scores: {
+        Row: {
+          accuracy: number
+          closer_bonus: number
+          encore_bonus: number
+          hit_points: number
+          id: string
+          miss_penalty: number
+          opener_bonus: number
+          position_points: number
+          prediction_id: string
+          scored_at: string
+          show_id: string
+          songs_hit: number
+          songs_played: number
+          songs_predicted: number
+          total_score: number
+          user_id: string
+        }
+        Insert: {
+          accuracy?: number
+          closer_bonus?: number
+          encore_bonus?: number
+          hit_points?: number
+          id?: string
+          miss_penalty?: number
+          opener_bonus?: number
+          position_points?: number
+          prediction_id: string
+          scored_at?: string
+          show_id: string
+          songs_hit?: number
+          songs_played?: number
+          songs_predicted?: number
+          total_score?: number
+          user_id: string
+        }
+        Update: {
+          accuracy?: number
+          closer_bonus?: number
+          encore_bonus?: number
+          hit_points?: number
+          id?: string
+          miss_penalty?: number
+          opener_bonus?: number
+          position_points?: number
+          prediction_id?: string
+          scored_at?: string
+          show_id?: string
+          songs_hit?: number
+          songs_played?: number
+          songs_predicted?: number
+          total_score?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prediction_scores_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: false
+            referencedRelation: "setlist_predictions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prediction_scores_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      provider_rate_limits: {
+        Row: {
+          blocked_until: string | null
+          capacity: number
+          consecutive_throttles: number
+          last_throttled_at: string | null
+          provider: string
+          refill_per_second: number
+          refilled_at: string
+          requests_granted: number
+          requests_throttled: number
+          tokens: number
+          updated_at: string
+        }
+        Insert: {
+          blocked_until?: string | null
+          capacity: number
+          consecutive_throttles?: number
+          last_throttled_at?: string | null
+          provider: string
+          refill_per_second: number
+          refilled_at?: string
+          requests_granted?: number
+          requests_throttled?: number
+          tokens: number
+          updated_at?: string
+        }
+        Update: {
+          blocked_until?: string | null
+          capacity?: number
+          consecutive_throttles?: number
+          last_throttled_at?: string | null
+          provider?: string
+          refill_per_second?: number
+          refilled_at?: string
+          requests_granted?: number
+          requests_throttled?: number
+          tokens?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      setlist_playlists: {
+        Row: {
+          created_at: string
+          id: string
+          last_synced_at: string
+          mode: string
+          show_id: string
+          snapshot_id: string | null
+          spotify_playlist_id: string
+          spotify_playlist_url: string | null
+          track_limit: number
+          track_uris: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_synced_at?: string
+          mode: string
+          show_id: string
+          snapshot_id?: string | null
+          spotify_playlist_id: string
+          spotify_playlist_url?: string | null
+          track_limit?: number
+          track_uris?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_synced_at?: string
+          mode?: string
+          show_id?: string
+          snapshot_id?: string | null
+          spotify_playlist_id?: string
+          spotify_playlist_url?: string | null
+          track_limit?: number
+          track_uris?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "setlist_playlists_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      setlist_prediction_songs: {
+        Row: {
+          position: number
+          prediction_id: string
+          slot: string
+          song_id: string
+        }
+        Insert: {
+          position: number
+          prediction_id: string
+          slot?: string
+          song_id: string
+        }
+        Update: {
+          position?: number
+          prediction_id?: string
+          slot?: string
+          song_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "setlist_prediction_songs_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: false
+            referencedRelation: "setlist_predictions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "setlist_prediction_songs_song_id_fkey"
+            columns: ["song_id"]
+            isOneToOne: false
+            referencedRelation: "songs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      setlist_predictions: {
+        Row: {
+          created_at: string
+          id: string
+          setlist_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          setlist_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          setlist_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "setlist_predictions_setlist_id_fkey"
+            columns: ["setlist_id"]
+            isOneToOne: false
+            referencedRelation: "setlists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      setlist_raw_data: {
+        Row: {
+          artist_id: string | null
+          created_at: string | null
+          id: string
+          raw_data: Json | null
+          setlist_id: string | null
+          show_id: string | null
+        }
+        Insert: {
+          artist_id?: string | null
+          created_at?: string | null
+          id?: string
+          raw_data?: Json | null
+          setlist_id?: string | null
+          show_id?: string | null
+        }
+        Update: {
+          artist_id?: string | null
+          created_at?: string | null
+          id?: string
+          raw_data?: Json | null
+          setlist_id?: string | null
+          show_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "setlist_raw_data_setlist_id_fkey"
+            columns: ["setlist_id"]
+            isOneToOne: false
+            referencedRelation: "setlists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      setlist_songs: {
         Row: {
           artist_id: string | null
+          consensus_rank: number | null
+          consensus_score: number
+          consensus_slot: string | null
           created_at: string | null
           id: string
           last_updated: string | null
           name: string
           position: number | null
+          prediction_count: number
           setlist_id: string | null
           song_id: string | null
           track_id: string | null
@@ -162,11 +1001,15 @@ export type Database = {
         }
         Insert: {
           artist_id?: string | null
+          consensus_rank?: number | null
+          consensus_score?: number
+          consensus_slot?: string | null
           created_at?: string | null
           id?: string
           last_updated?: string | null
           name: string
           position?: number | null
+          prediction_count?: number
           setlist_id?: string | null
           song_id?: string | null
           track_id?: string | null
@@ -175,11 +1018,15 @@ export type Database = {
         }
         Update: {
           artist_id?: string | null
+          consensus_rank?: number | null
+          consensus_score?: number
+          consensus_slot?: string | null
           created_at?: string | null
           id?: string
           last_updated?: string | null
           name?: string
           position?: number | null
+          prediction_count?: number
           setlist_id?: string | null
           song_id?: string | null
           track_id?: string | null
@@ -211,6 +1058,7 @@ export type Database = {
           id: string
           setlist_fm_id: string | null
           show_id: string | null
+          tour_id: string | null
           tour_name: string | null
           updated_at: string | null
           venue: string | null
@@ -223,6 +1071,7 @@ export type Database = {
           id?: string
           setlist_fm_id?: string | null
           show_id?: string | null
+          tour_id?: string | null
           tour_name?: string | null
           updated_at?: string | null
           venue?: string | null
@@ -235,108 +1084,447 @@ export type Database = {
           id?: string
           setlist_fm_id?: string | null
           show_id?: string | null
+          tour_id?: string | null
           tour_name?: string | null
           updated_at?: string | null
           venue?: string | null
           venue_city?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "setlists_tour_id_fkey"
+            columns: ["tour_id"]
+            isOneToOne: false
+            referencedRelation: "tours"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      show_crowd_scores: {
+        Row: {
+          average_user_accuracy: number | null
+          consensus_accuracy: number
+          consensus_hits: number
+          predictions_scored: number
+          scored_at: string
+          show_id: string
+          songs_played: number
+          voted_accuracy: number
+          voted_hits: number
+        }
+        Insert: {
+          average_user_accuracy?: number | null
+          consensus_accuracy?: number
+          consensus_hits?: number
+          predictions_scored?: number
+          scored_at?: string
+          show_id: string
+          songs_played?: number
+          voted_accuracy?: number
+          voted_hits?: number
+        }
+        Update: {
+          average_user_accuracy?: number | null
+          consensus_accuracy?: number
+          consensus_hits?: number
+          predictions_scored?: number
+          scored_at?: string
+          show_id?: string
+          songs_played?: number
+          voted_accuracy?: number
+          voted_hits?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "show_crowd_scores_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: true
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      show_page_viewers: {
+        Row: {
+          show_id: string
+          viewed_on: string
+          viewer: string
+        }
+        Insert: {
+          show_id: string
+          viewed_on?: string
+          viewer: string
+        }
+        Update: {
+          show_id?: string
+          viewed_on?: string
+          viewer?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "show_page_viewers_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      show_page_views: {
+        Row: {
+          show_id: string
+          viewed_on: string
+          views: number
+        }
+        Insert: {
+          show_id: string
+          viewed_on?: string
+          views?: number
+        }
+        Update: {
+          show_id?: string
+          viewed_on?: string
+          views?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "show_page_views_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: false
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      show_trending_scores: {
+        Row: {
+          artist_popularity: number
+          computed_at: string
+          days_until: number
+          page_views: number
+          score: number
+          show_id: string
+          unique_voters: number
+          vote_velocity: number
+        }
+        Insert: {
+          artist_popularity?: number
+          computed_at?: string
+          days_until?: number
+          page_views?: number
+          score?: number
+          show_id: string
+          unique_voters?: number
+          vote_velocity?: number
+        }
+        Update: {
+          artist_popularity?: number
+          computed_at?: string
+          days_until?: number
+          page_views?: number
+          score?: number
+          show_id?: string
+          unique_voters?: number
+          vote_velocity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "show_trending_scores_show_id_fkey"
+            columns: ["show_id"]
+            isOneToOne: true
+            referencedRelation: "shows"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       shows: {
         Row: {
           artist_id: string | null
           created_at: string | null
           date: string | null
+          event_id: string | null
           id: string
           image_url: string | null
           last_updated: string | null
+          lifecycle_changed_at: string
+          lifecycle_state: string
           name: string
           popularity: number | null
+          search_vector: unknown | null
+          set_starts_at: string | null
+          stage: string | null
           status: string | null
           ticket_url: string | null
+          tour_id: string | null
           updated_at: string | null
           url: string | null
           venue_id: string | null
+          voting_locks_at: string | null
+          voting_opens_at: string | null
         }
         Insert: {
           artist_id?: string | null
           created_at?: string | null
           date?: string | null
+          event_id?: string | null
           id: string
           image_url?: string | null
           last_updated?: string | null
+          lifecycle_changed_at?: string
+          lifecycle_state?: string
           name: string
           popularity?: number | null
+          search_vector?: never
+          set_starts_at?: string | null
+          stage?: string | null
           status?: string | null
           ticket_url?: string | null
+          tour_id?: string | null
           updated_at?: string | null
           url?: string | null
           venue_id?: string | null
+          voting_locks_at?: string | null
+          voting_opens_at?: string | null
         }
         Update: {
           artist_id?: string | null
           created_at?: string | null
           date?: string | null
+          event_id?: string | null
           id?: string
           image_url?: string | null
           last_updated?: string | null
+          lifecycle_changed_at?: string
+          lifecycle_state?: string
           name?: string
           popularity?: number | null
+          search_vector?: never
+          set_starts_at?: string | null
+          stage?: string | null
           status?: string | null
           ticket_url?: string | null
+          tour_id?: string | null
           updated_at?: string | null
           url?: string | null
           venue_id?: string | null
+          voting_locks_at?: string | null
+          voting_opens_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "shows_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shows_tour_id_fkey"
+            columns: ["tour_id"]
+            isOneToOne: false
+            referencedRelation: "tours"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      songs: {
+      song_aliases: {
         Row: {
-          artist_id: string | null
-          created_at: string | null
-          duration_ms: number | null
+          alias: string
+          artist_id: string
+          created_at: string
+          created_by: string | null
           id: string
-          name: string
-          popularity: number | null
-          preview_url: string | null
-          spotify_id: string | null
-          updated_at: string | null
-          vote_count: number | null
+          normalized_alias: string
+          song_id: string
+          source: string
         }
         Insert: {
-          artist_id?: string | null
-          created_at?: string | null
-          duration_ms?: number | null
+          alias: string
+          artist_id: string
+          created_at?: string
+          created_by?: string | null
           id?: string
-          name: string
-          popularity?: number | null
-          preview_url?: string | null
-          spotify_id?: string | null
-          updated_at?: string | null
-          vote_count?: number | null
+          normalized_alias: string
+          song_id: string
+          source?: string
         }
         Update: {
-          artist_id?: string | null
-          created_at?: string | null
-          duration_ms?: number | null
+          alias?: string
+          artist_id?: string
+          created_at?: string
+          created_by?: string | null
           id?: string
-          name?: string
-          popularity?: number | null
-          preview_url?: string | null
-          spotify_id?: string | null
-          updated_at?: string | null
-          vote_count?: number | null
+          normalized_alias?: string
+          song_id?: string
+          source?: string
         }
-        Relationships: []
-      }
-      sync_queue: {
-        Row: {
-          attempts: number
-          created_at: string | null
-          entity_id: string
-          entity_type: string
-          id: number
-          operation: string
+        Relationships: [
+          {
+            foreignKeyName: "song_aliases_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "artists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "song_aliases_song_id_fkey"
+            columns: ["song_id"]
+            isOneToOne: false
+            referencedRelation: "songs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      song_match_reviews: {
+        Row: {
+          artist_id: string
+          candidate_song_id: string | null
+          confidence: number
+          cover_artist: string | null
+          created_at: string
+          id: string
+          is_cover: boolean
+          match_key: string
+          match_method: string
+          note: string | null
+          occurrences: number
+          resolved_song_id: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          setlist_name: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          artist_id: string
+          candidate_song_id?: string | null
+          confidence?: number
+          cover_artist?: string | null
+          created_at?: string
+          id?: string
+          is_cover?: boolean
+          match_key: string
+          match_method?: string
+          note?: string | null
+          occurrences?: number
+          resolved_song_id?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          setlist_name: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          artist_id?: string
+          candidate_song_id?: string | null
+          confidence?: number
+          cover_artist?: string | null
+          created_at?: string
+          id?: string
+          is_cover?: boolean
+          match_key?: string
+          match_method?: string
+          note?: string | null
+          occurrences?: number
+          resolved_song_id?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          setlist_name?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "song_match_reviews_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "artists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "song_match_reviews_candidate_song_id_fkey"
+            columns: ["candidate_song_id"]
+            isOneToOne: false
+            referencedRelation: "songs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "song_match_reviews_resolved_song_id_fkey"
+            columns: ["resolved_song_id"]
+            isOneToOne: false
+            referencedRelation: "songs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      songs: {
+        Row: {
+          artist_id: string | null
+          created_at: string | null
+          duration_ms: number | null
+          id: string
+          name: string
+          popularity: number | null
+          preview_url: string | null
+          search_vector: unknown | null
+          spotify_id: string | null
+          updated_at: string | null
+          vote_count: number | null
+        }
+        Insert: {
+          artist_id?: string | null
+          created_at?: string | null
+          duration_ms?: number | null
+          id?: string
+          name: string
+          popularity?: number | null
+          preview_url?: string | null
+          search_vector?: never
+          spotify_id?: string | null
+          updated_at?: string | null
+          vote_count?: number | null
+        }
+        Update: {
+          artist_id?: string | null
+          created_at?: string | null
+          duration_ms?: number | null
+          id?: string
+          name?: string
+          popularity?: number | null
+          preview_url?: string | null
+          search_vector?: never
+          spotify_id?: string | null
+          updated_at?: string | null
+          vote_count?: number | null
+        }
+        Relationships: []
+      }
+      spotify_connections: {
+        Row: {
+          refresh_token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          refresh_token: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          refresh_token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sync_queue: {
+        Row: {
+          attempts: number
+          created_at: string | null
+          entity_id: string
+          entity_type: string
+          id: number
+          operation: string
           payload: Json | null
           priority: string
         }
@@ -389,7 +1577,8 @@ export type Database = {
           task: string
           entity_type: string
           entity_id: string
-          parent_task?: string | null
+          parent_task: string | null
+          depends_on: string[]
           priority: string
           status: string
           started_at: string
@@ -402,6 +1591,7 @@ export type Database = {
           entity_type: string
           entity_id: string
           parent_task?: string | null
+          depends_on?: string[]
           priority?: string
           status?: string
           started_at?: string
@@ -414,6 +1604,7 @@ export type Database = {
           entity_type?: string
           entity_id?: string
           parent_task?: string | null
+          depends_on?: string[]
           priority?: string
           status?: string
           started_at?: string
@@ -422,6 +1613,84 @@ export type Database = {
         }
         Relationships: []
       }
+      sync_tasks: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string | null
+          depends_on: number[]
+          dead_lettered_at: string | null
+          entity_type: string
+          error_log: Json | null
+          external_id: string
+          id: number
+          internal_id: string | null
+          last_attempt_at: string | null
+          lease_expires_at: string | null
+          lease_owner: string | null
+          max_attempts: number
+          operation: string
+          payload: Json | null
+          priority: number
+          processing_started_at: string | null
+          rerun_requested: boolean
+          source_system: string
+          status: string
+          updated_at: string | null
+          visible_at: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string | null
+          depends_on?: number[]
+          dead_lettered_at?: string | null
+          entity_type: string
+          error_log?: Json | null
+          external_id: string
+          id?: number
+          internal_id?: string | null
+          last_attempt_at?: string | null
+          lease_expires_at?: string | null
+          lease_owner?: string | null
+          max_attempts?: number
+          operation?: string
+          payload?: Json | null
+          priority?: number
+          processing_started_at?: string | null
+          rerun_requested?: boolean
+          source_system: string
+          status?: string
+          updated_at?: string | null
+          visible_at?: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string | null
+          depends_on?: number[]
+          dead_lettered_at?: string | null
+          entity_type?: string
+          error_log?: Json | null
+          external_id?: string
+          id?: number
+          internal_id?: string | null
+          last_attempt_at?: string | null
+          lease_expires_at?: string | null
+          lease_owner?: string | null
+          max_attempts?: number
+          operation?: string
+          payload?: Json | null
+          priority?: number
+          processing_started_at?: string | null
+          rerun_requested?: boolean
+          source_system?: string
+          status?: string
+          updated_at?: string | null
+          visible_at?: string
+        }
+        Relationships: []
+      }
       top_tracks: {
         Row: {
           album: string | null
@@ -470,6 +1739,44 @@ export type Database = {
         }
         Relationships: []
       }
+      tours: {
+        Row: {
+          artist_id: string
+          created_at: string
+          first_played_at: string | null
+          id: string
+          last_played_at: string | null
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          artist_id: string
+          created_at?: string
+          first_played_at?: string | null
+          id?: string
+          last_played_at?: string | null
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          artist_id?: string
+          created_at?: string
+          first_played_at?: string | null
+          id?: string
+          last_played_at?: string | null
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tours_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "artists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tracks: {
         Row: {
           artist_id: string | null
@@ -506,6 +1813,51 @@ export type Database = {
         }
         Relationships: []
       }
+      user_follows: {
+        Row: {
+          artist_id: string | null
+          created_at: string
+          id: string
+          source: string
+          unfollowed_at: string | null
+          user_id: string
+          venue_id: string | null
+        }
+        Insert: {
+          artist_id?: string | null
+          created_at?: string
+          id?: string
+          source?: string
+          unfollowed_at?: string | null
+          user_id: string
+          venue_id?: string | null
+        }
+        Update: {
+          artist_id?: string | null
+          created_at?: string
+          id?: string
+          source?: string
+          unfollowed_at?: string | null
+          user_id?: string
+          venue_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_follows_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "artists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_follows_venue_id_fkey"
+            columns: ["venue_id"]
+            isOneToOne: false
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       venues: {
         Row: {
           address: string | null
@@ -515,11 +1867,14 @@ export type Database = {
           external_id: string | null
           id: string
           image_url: string | null
-          latitude: string | null
-          longitude: string | null
+          latitude: number | null
+          location: unknown | null
+          longitude: number | null
           name: string
+          search_vector: unknown | null
           state: string | null
           ticketmaster_id: string | null
+          timezone: string | null
           updated_at: string | null
           url: string | null
         }
@@ -531,11 +1886,13 @@ export type Database = {
           external_id?: string | null
           id: string
           image_url?: string | null
-          latitude?: string | null
-          longitude?: string | null
+          latitude?: number | null
+          longitude?: number | null
           name: string
+          search_vector?: never
           state?: string | null
           ticketmaster_id?: string | null
+          timezone?: string | null
           updated_at?: string | null
           url?: string | null
         }
@@ -547,37 +1904,131 @@ export type Database = {
           external_id?: string | null
           id?: string
           image_url?: string | null
-          latitude?: string | null
-          longitude?: string | null
+          latitude?: number | null
+          longitude?: number | null
           name?: string
+          search_vector?: never
           state?: string | null
           ticketmaster_id?: string | null
+          timezone?: string | null
           updated_at?: string | null
           url?: string | null
         }
         Relationships: []
       }
+      vote_moderation_events: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          id: string
+          note: string | null
+          reasons: string[]
+          vote_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          note?: string | null
+          reasons?: string[]
+          vote_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          id?: string
+          note?: string | null
+          reasons?: string[]
+          vote_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vote_moderation_events_vote_id_fkey"
+            columns: ["vote_id"]
+            isOneToOne: false
+            referencedRelation: "votes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vote_requests: {
+        Row: {
+          action: string
+          anonymous_session_id: string | null
+          created_at: string
+          idempotency_key: string
+          song_id: string
+          status: string
+          user_id: string | null
+          votes_remaining: number | null
+          votes_used: number | null
+        }
+        Insert: {
+          action: string
+          anonymous_session_id?: string | null
+          created_at?: string
+          idempotency_key: string
+          song_id: string
+          status: string
+          user_id?: string | null
+          votes_remaining?: number | null
+          votes_used?: number | null
+        }
+        Update: {
+          action?: string
+          anonymous_session_id?: string | null
+          created_at?: string
+          idempotency_key?: string
+          song_id?: string
+          status?: string
+          user_id?: string | null
+          votes_remaining?: number | null
+          votes_used?: number | null
+        }
+        Relationships: []
+      }
       votes: {
         Row: {
+          anonymous: boolean
+          anonymous_session_id: string | null
           count: number | null
           created_at: string | null
+          device_hash: string | null
+          flag_reasons: string[]
           id: string
+          ip_hash: string | null
+          moderation_status: string
           song_id: string | null
           updated_at: string | null
           user_id: string | null
         }
         Insert: {
+          anonymous?: boolean
+          anonymous_session_id?: string | null
           count?: number | null
           created_at?: string | null
+          device_hash?: string | null
+          flag_reasons?: string[]
           id?: string
+          ip_hash?: string | null
+          moderation_status?: string
           song_id?: string | null
           updated_at?: string | null
           user_id?: string | null
         }
         Update: {
+          anonymous?: boolean
+          anonymous_session_id?: string | null
           count?: number | null
           created_at?: string | null
+          device_hash?: string | null
+          flag_reasons?: string[]
           id?: string
+          ip_hash?: string | null
+          moderation_status?: string
           song_id?: string | null
           updated_at?: string | null
           user_id?: string | null
@@ -594,9 +2045,48 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      leaderboard_standings: {
+        Row: {
+          artist_id: string | null
+          average_accuracy: number | null
+          period: string
+          prediction_points: number
+          predictions_scored: number
+          rank: number
+          reputation: number
+          scope: string
+          scope_key: string
+          shows_participated: number
+          tour_name: string | null
+          user_id: string
+          votes_cast: number
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      acquire_rate_limit_token: {
+        Args: {
+          p_provider: string
+          p_tokens?: number
+        }
+        Returns: {
+          granted: boolean
+          wait_ms: number
+          tokens_remaining: number | null
+        }[]
+      }
+      advance_show_lifecycles: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      assert_admin_date_range: {
+        Args: {
+          p_from: string
+          p_to: string
+        }
+        Returns: undefined
+      }
       begin_transaction: {
         Args: Record<PropertyKey, never>
         Returns: undefined
@@ -605,43 +2095,575 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
-      decrement_vote: {
+      cast_vote: {
         Args: {
           p_song_id: string
-          p_user_id: string
+          p_action: string
+          p_idempotency_key: string
+          p_user_id?: string | null
+          p_anonymous_session_id?: string | null
+          p_max_anonymous_votes?: number
+          p_ip_hash?: string | null
+          p_device_hash?: string | null
         }
-        Returns: undefined
+        Returns: {
+          status: string
+          vote_count: number | null
+          votes_used: number | null
+          votes_remaining: number | null
+        }[]
       }
-      exec_sql: {
+      claim_analytics_ingest: {
         Args: {
-          sql: string
+          p_events: number
+          p_ip_hash?: string | null
+          p_session_id: string
         }
-        Returns: undefined
+        Returns: boolean
       }
-      exec_sql_direct: {
+      claim_next_sync_item: {
         Args: {
-          sql: string
+          p_worker_id?: string | null
+          p_lease_seconds?: number
+          p_operations?: string[] | null
         }
-        Returns: undefined
+        Returns: Database["public"]["Tables"]["sync_tasks"]["Row"][]
       }
-      get_random_artist_songs: {
+      complete_sync_item: {
         Args: {
-          artist_uuid: string
-          count: number
+          item_id: number
+          p_worker_id?: string | null
         }
-        Returns: {
-          artist_id: string | null
-          created_at: string | null
-          duration_ms: number | null
-          id: string
-          name: string
-          popularity: number | null
-          preview_url: string | null
-          spotify_id: string | null
+        Returns: boolean
+      }
+      dead_letter_sync_dependents: {
+        Args: {
+          item_id: number
+        }
+        Returns: number
+      }
+      detect_recent_vote_anomalies: {
+        Args: {
+          p_window?: unknown
+        }
+        Returns: number
+      }
+      detect_vote_anomalies: {
+        Args: {
+          p_show_id: string
+          p_window?: unknown
+          p_new_account_age?: unknown
+          p_burst_size?: number
+          p_shared_ip_voters?: number
+          p_shared_voters?: number
+          p_min_timed_votes?: number
+          p_timing_jitter?: number
+        }
+        Returns: number
+      }
+      enqueue_sync_task: {
+        Args: {
+          p_entity_type: string
+          p_external_id: string
+          p_operation?: string
+          p_priority?: number
+          p_payload?: Json | null
+          p_source_system?: string
+          p_max_attempts?: number
+          p_depends_on?: number[] | null
+        }
+        Returns: Database["public"]["Tables"]["sync_tasks"]["Row"][]
+      }
+      exec_sql: {
+        Args: {
+          sql: string
+        }
+        Returns: undefined
+      }
+      exec_sql_direct: {
+        Args: {
+          sql: string
+        }
+        Returns: undefined
+      }
+      extend_sync_lease: {
+        Args: {
+          item_id: number
+          p_worker_id?: string | null
+          p_lease_seconds?: number
+        }
+        Returns: boolean
+      }
+      fail_sync_item: {
+        Args: {
+          item_id: number
+          error_message: string
+          p_worker_id?: string | null
+        }
+        Returns: string | null
+      }
+      genres_for_spotify_genre: {
+        Args: {
+          p_genre: string
+        }
+        Returns: string[]
+      }
+      get_admin_api_errors: {
+        Args: {
+          p_from: string
+          p_to: string
+        }
+        Returns: {
+          day: string
+          endpoint: string
+          errors: number
+        }[]
+      }
+      get_admin_daily_activity: {
+        Args: {
+          p_from: string
+          p_to: string
+        }
+        Returns: {
+          day: string
+          active_voters: number
+          votes: number
+          signups: number
+        }[]
+      }
+      get_admin_show_vote_series: {
+        Args: {
+          p_from: string
+          p_limit?: number
+          p_to: string
+        }
+        Returns: {
+          day: string
+          show_id: string
+          show_name: string
+          votes: number
+        }[]
+      }
+      get_admin_signup_funnel: {
+        Args: {
+          p_from: string
+          p_to: string
+        }
+        Returns: {
+          step: string
+          step_order: number
+          users: number
+        }[]
+      }
+      get_admin_sync_health: {
+        Args: {
+          p_from: string
+          p_to: string
+        }
+        Returns: {
+          day: string
+          succeeded: number
+          failed: number
+          blocked: number
+        }[]
+      }
+      get_admin_top_artists: {
+        Args: {
+          p_from: string
+          p_limit?: number
+          p_to: string
+        }
+        Returns: {
+          artist_id: string
+          artist_name: string
+          votes: number
+          voters: number
+          follows: number
+          engagement: number
+        }[]
+      }
+      get_anonymous_votes: {
+        Args: {
+          p_session_id: string
+          p_show_id: string
+        }
+        Returns: {
+          song_id: string
+        }[]
+      }
+      get_artist_import_report: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: {
+          row_id: string
+          position: number
+          input_name: string | null
+          input_ticketmaster_id: string | null
+          input_spotify_id: string | null
+          status: string
+          outcome: string
+          confidence: number | null
+          ticketmaster_id: string | null
+          spotify_id: string | null
+          matched_name: string | null
+          image_url: string | null
+          candidates: Json
+          existing_artist_id: string | null
+          sync_attempts: number | null
+          error: string | null
+        }[]
+      }
+      get_duplicate_artists: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          keep_id: string
+          keep_name: string
+          keep_shows: number
+          keep_identifiers: string[]
+          duplicate_id: string
+          duplicate_name: string
+          duplicate_shows: number
+          duplicate_identifiers: string[]
+        }[]
+      }
+      get_due_notification_digests: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          user_id: string
+          email: string
+          frequency: string
+          notifications: Json
+        }[]
+      }
+      get_event_lineup: {
+        Args: {
+          p_event_id: string
+          p_song_limit?: number
+        }
+        Returns: {
+          show_id: string
+          artist_id: string | null
+          artist_name: string | null
+          artist_image_url: string | null
+          date: string | null
+          stage: string | null
+          set_starts_at: string | null
+          lifecycle_state: string
+          voting_opens_at: string | null
+          voting_locks_at: string | null
+          top_songs: Json
+          played_songs: Json
+        }[]
+      }
+      get_follow_feed: {
+        Args: {
+          p_limit?: number
+          p_before?: string
+        }
+        Returns: {
+          item_type: string
+          occurred_at: string
+          show_id: string
+          show_name: string
+          show_date: string
+          image_url: string | null
+          artist_id: string | null
+          artist_name: string | null
+          artist_image_url: string | null
+          venue_id: string | null
+          venue_name: string | null
+          city: string | null
+          state: string | null
+          setlist_id: string | null
+          followed_via: string
+        }[]
+      }
+      get_genre_top_artists: {
+        Args: {
+          p_genre: string
+          p_limit?: number
+        }
+        Returns: {
+          artist_id: string
+          name: string
+          image_url: string | null
+          popularity: number | null
+          followers: number | null
+          upcoming_shows: number
+        }[]
+      }
+      get_genre_top_songs: {
+        Args: {
+          p_genre: string
+          p_limit?: number
+        }
+        Returns: {
+          song_id: string
+          name: string
+          artist_id: string
+          artist_name: string
+          vote_count: number
+        }[]
+      }
+      get_genre_upcoming_shows: {
+        Args: {
+          p_genre: string
+          p_limit?: number
+        }
+        Returns: {
+          show_id: string
+          show_name: string
+          date: string
+          image_url: string | null
+          ticket_url: string | null
+          artist_id: string
+          artist_name: string
+          artist_image_url: string | null
+          venue_id: string | null
+          venue_name: string | null
+          city: string | null
+          state: string | null
+        }[]
+      }
+      get_leaderboard: {
+        Args: {
+          p_scope?: string
+          p_period?: string
+          p_artist_id?: string | null
+          p_tour_name?: string | null
+          p_limit?: number
+        }
+        Returns: {
+          rank: number
+          user_id: string
+          username: string | null
+          avatar_url: string | null
+          reputation: number
+          prediction_points: number
+          predictions_scored: number
+          average_accuracy: number | null
+          votes_cast: number
+          shows_participated: number
+        }[]
+      }
+      get_likely_setlist: {
+        Args: {
+          p_show_id: string
+        }
+        Returns: {
+          position: number
+          song_id: string | null
+          name: string
+          play_rate: number
+          is_encore: boolean
+          tour_id: string
+          tour_name: string
+        }[]
+      }
+      get_nearby_shows: {
+        Args: {
+          p_latitude: number
+          p_longitude: number
+          p_radius_km?: number
+          p_limit?: number
+          p_from?: string
+        }
+        Returns: {
+          show_id: string
+          show_name: string
+          date: string
+          image_url: string | null
+          ticket_url: string | null
+          popularity: number | null
+          artist_id: string | null
+          artist_name: string | null
+          artist_image_url: string | null
+          venue_id: string
+          venue_name: string
+          city: string | null
+          state: string | null
+          country: string | null
+          distance_km: number
+        }[]
+      }
+      get_quarantined_votes: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          vote_id: string
+          created_at: string
+          flag_reasons: string[]
+          song_id: string
+          song_name: string | null
+          show_id: string
+          show_name: string | null
+          show_date: string | null
+          user_id: string | null
+          username: string | null
+          anonymous_session_id: string | null
+          ip_hash: string | null
+          device_hash: string | null
+        }[]
+      }
+      get_random_artist_songs: {
+        Args: {
+          artist_uuid: string
+          count: number
+        }
+        Returns: {
+          artist_id: string | null
+          created_at: string | null
+          duration_ms: number | null
+          id: string
+          name: string
+          popularity: number | null
+          preview_url: string | null
+          spotify_id: string | null
           updated_at: string | null
           vote_count: number | null
         }[]
       }
+      get_rate_limit_budgets: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          blocked_until: string | null
+          capacity: number
+          consecutive_throttles: number
+          last_throttled_at: string | null
+          provider: string
+          refill_per_second: number
+          requests_granted: number
+          requests_throttled: number
+          tokens_available: number
+        }[]
+      }
+      get_setlist_playlist_owners: {
+        Args: {
+          p_show_id: string
+        }
+        Returns: {
+          user_id: string
+          refresh_token: string
+          playlists: Json
+        }[]
+      }
+      get_setlist_playlist_tracks: {
+        Args: {
+          p_show_id: string
+          p_mode?: string
+          p_limit?: number
+        }
+        Returns: {
+          song_id: string | null
+          name: string
+          spotify_id: string
+          position: number
+          vote_count: number | null
+        }[]
+      }
+      get_song_match_reviews: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          review_id: string
+          artist_id: string
+          artist_name: string
+          setlist_name: string
+          candidate_song_id: string | null
+          candidate_song_name: string | null
+          confidence: number
+          match_method: string
+          is_cover: boolean
+          cover_artist: string | null
+          occurrences: number
+          created_at: string
+        }[]
+      }
+      get_tour_rotation_slots: {
+        Args: {
+          p_tour_id: string
+          p_max_share?: number
+        }
+        Returns: {
+          position: number
+          nights: number
+          distinct_songs: number
+          songs: Json
+        }[]
+      }
+      get_tour_song_stats: {
+        Args: {
+          p_tour_id: string
+        }
+        Returns: {
+          song_id: string | null
+          name: string
+          times_played: number
+          play_rate: number
+          opener_count: number
+          closer_count: number
+          encore_count: number
+          avg_position: number
+          last_played_at: string | null
+          rotation: string
+        }[]
+      }
+      get_tour_summary: {
+        Args: {
+          p_tour_id: string
+        }
+        Returns: {
+          nights_played: number
+          upcoming_shows: number
+          avg_setlist_length: number | null
+          avg_encore_length: number | null
+          distinct_songs: number
+        }[]
+      }
+      get_tour_unplayed_songs: {
+        Args: {
+          p_tour_id: string
+          p_limit?: number
+        }
+        Returns: {
+          song_id: string
+          name: string
+          popularity: number | null
+        }[]
+      }
+      get_trending_shows: {
+        Args: {
+          p_limit?: number
+          p_country?: string | null
+          p_state?: string | null
+          p_genre?: string | null
+        }
+        Returns: {
+          show_id: string
+          show_name: string
+          date: string
+          image_url: string | null
+          ticket_url: string | null
+          popularity: number | null
+          trending_score: number
+          artist_id: string | null
+          artist_name: string | null
+          artist_image_url: string | null
+          artist_genres: string[] | null
+          venue_id: string | null
+          venue_name: string | null
+          city: string | null
+          state: string | null
+          country: string | null
+        }[]
+      }
       gtrgm_compress: {
         Args: {
           "": unknown
@@ -672,17 +2694,188 @@ export type Database = {
         }
         Returns: unknown
       }
-      increment_vote: {
+      link_artist_identifiers: {
+        Args: {
+          p_artist_id: string
+          p_ticketmaster_id?: string | null
+          p_spotify_id?: string | null
+          p_mbid?: string | null
+        }
+        Returns: number
+      }
+      link_show_residency: {
+        Args: {
+          p_show_id: string
+        }
+        Returns: string | null
+      }
+      link_ticketmaster_genres: {
+        Args: {
+          p_artist_id: string
+          p_classification_ids?: string[]
+          p_classification_names?: string[]
+        }
+        Returns: number
+      }
+      mark_notification_digest_sent: {
         Args: {
-          p_song_id: string
           p_user_id: string
+          p_notification_ids: string[]
         }
         Returns: undefined
       }
+      merge_anonymous_votes: {
+        Args: {
+          p_session_id: string
+          p_user_id: string
+        }
+        Returns: number
+      }
+      merge_artists: {
+        Args: {
+          p_source_id: string
+          p_target_id: string
+          p_note?: string | null
+        }
+        Returns: string
+      }
+      moderate_vote: {
+        Args: {
+          p_vote_id: string
+          p_decision: string
+          p_note?: string | null
+        }
+        Returns: string
+      }
+      process_notification_jobs: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: number
+      }
+      purge_vote_requests: {
+        Args: {
+          p_older_than_days?: number
+        }
+        Returns: number
+      }
+      queue_artist_import: {
+        Args: {
+          p_job_id: string
+        }
+        Returns: number
+      }
+      queue_song_match_review: {
+        Args: {
+          p_artist_id: string
+          p_setlist_name: string
+          p_match_key: string
+          p_candidate_song_id?: string | null
+          p_confidence?: number
+          p_match_method?: string
+          p_is_cover?: boolean
+          p_cover_artist?: string | null
+        }
+        Returns: string | null
+      }
+      record_show_view: {
+        Args: {
+          p_show_id: string
+        }
+        Returns: undefined
+      }
+      recompute_setlist_consensus: {
+        Args: {
+          p_setlist_id: string
+        }
+        Returns: number
+      }
+      refresh_trending_scores: {
+        Args: {
+          p_cache_size?: number
+        }
+        Returns: number
+      }
+      refresh_all_materialized_views: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      report_rate_limit_response: {
+        Args: {
+          p_provider: string
+          p_status: number
+          p_retry_after_seconds?: number | null
+        }
+        Returns: string | null
+      }
+      requeue_dead_letter_sync_item: {
+        Args: {
+          item_id: number
+        }
+        Returns: boolean
+      }
+      resolve_artist: {
+        Args: {
+          p_name?: string | null
+          p_ticketmaster_id?: string | null
+          p_spotify_id?: string | null
+          p_mbid?: string | null
+        }
+        Returns: string | null
+      }
+      resolve_song_match: {
+        Args: {
+          p_review_id: string
+          p_song_id?: string | null
+          p_note?: string | null
+        }
+        Returns: number
+      }
       rollback_transaction: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      rollup_analytics_events: {
+        Args: {
+          p_day?: string
+        }
+        Returns: number
+      }
+      save_spotify_connection: {
+        Args: {
+          p_refresh_token: string
+        }
+        Returns: undefined
+      }
+      score_show_predictions: {
+        Args: {
+          p_show_id: string
+        }
+        Returns: number
+      }
+      search_catalog: {
+        Args: {
+          p_limit?: number
+          p_query: string
+          p_types?: string[]
+        }
+        Returns: {
+          entity_type: string
+          id: string
+          image_url: string
+          name: string
+          parent_id: string
+          rank: number
+          starts_at: string
+          subtitle: string
+        }[]
+      }
+      search_prefix_query: {
+        Args: {
+          p_query: string
+        }
+        Returns: unknown
+      }
       set_limit: {
         Args: {
           "": number
@@ -699,6 +2892,26 @@ export type Database = {
         }
         Returns: string[]
       }
+      show_voting_open: {
+        Args: {
+          p_show_id: string
+        }
+        Returns: boolean
+      }
+      split_artist: {
+        Args: {
+          p_merge_id: string
+          p_note?: string | null
+        }
+        Returns: string
+      }
+      submit_setlist_prediction: {
+        Args: {
+          p_setlist_id: string
+          p_songs: Json
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,205 @@
+/**
+ * Admin analytics helpers. The numbers are aggregated in the database (see
+ * 027_admin_analytics.sql); these helpers pick the date range, reshape the
+ * rows into chart series and turn any report into a CSV download.
+ */
+import type { Database } from '@/integrations/supabase/types';
+
+type Functions = Database['public']['Functions'];
+
+// Inclusive UTC days as YYYY-MM-DD
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export const MAX_RANGE_DAYS = 366;
+
+export const DATE_RANGE_PRESETS = [
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 },
+  { value: '90d', label: 'Last 90 days', days: 90 },
+  { value: '365d', label: 'Last 12 months', days: 365 },
+] as const;
+
+export type DateRangePreset = typeof DATE_RANGE_PRESETS[number]['value'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * The last `days` days up to and including today (UTC)
+ */
+export function dateRangeForDays(days: number, today = new Date()): DateRange {
+  return {
+    from: toDay(new Date(today.getTime() - (days - 1) * DAY_MS)),
+    to: toDay(today),
+  };
+}
+
+export function dateRangeForPreset(preset: DateRangePreset, today = new Date()): DateRange {
+  const match = DATE_RANGE_PRESETS.find(option => option.value === preset) ?? DATE_RANGE_PRESETS[1];
+  return dateRangeForDays(match.days, today);
+}
+
+/**
+ * Why the range can't be queried, or null when it can. Mirrors the checks in
+ * assert_admin_date_range.
+ */
+export function validateDateRange(range: DateRange): string | null {
+  if (!ISO_DAY.test(range.from) || !ISO_DAY.test(range.to)) {
+    return 'Pick a start and end date';
+  }
+
+  const span = (Date.parse(range.to) - Date.parse(range.from)) / DAY_MS;
+  if (Number.isNaN(span)) return 'Pick a start and end date';
+  if (span < 0) return 'The start date must be before the end date';
+  if (span > MAX_RANGE_DAYS) return 'Pick a range of a year or less';
+  return null;
+}
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+}
+
+export type ChartRow = { day: string } & Record<string, string | number>;
+
+/**
+ * Turn long rows (one per day and series) into one row per day with a column
+ * per series, filling gaps with zero. Series get short keys (s0, s1, ...)
+ * because the chart config uses them in CSS variable names. Series are ordered
+ * by their total, largest first.
+ */
+export function pivotByDay<T extends { day: string }>(
+  rows: T[],
+  seriesOf: (row: T) => { id: string; label: string },
+  valueOf: (row: T) => number
+): { data: ChartRow[]; series: ChartSeries[] } {
+  const totals = new Map<string, { label: string; total: number }>();
+  rows.forEach(row => {
+    const { id, label } = seriesOf(row);
+    const entry = totals.get(id) ?? { label, total: 0 };
+    entry.total += valueOf(row);
+    totals.set(id, entry);
+  });
+
+  const ordered = [...totals.entries()].sort((a, b) => b[1].total - a[1].total);
+  const keys = new Map(ordered.map(([id], index) => [id, `s${index}`]));
+  const series = ordered.map(([id, { label }]) => ({ key: keys.get(id)!, label }));
+
+  const byDay = new Map<string, ChartRow>();
+  rows.forEach(row => {
+    let entry = byDay.get(row.day);
+    if (!entry) {
+      entry = { day: row.day };
+      series.forEach(({ key }) => { entry![key] = 0; });
+      byDay.set(row.day, entry);
+    }
+    const key = keys.get(seriesOf(row).id)!;
+    entry[key] = (entry[key] as number) + valueOf(row);
+  });
+
+  const data = [...byDay.values()].sort((a, b) => a.day.localeCompare(b.day));
+  return { data, series };
+}
+
+type SyncHealthRow = Functions['get_admin_sync_health']['Returns'][number];
+
+export interface SyncHealthSummary {
+  succeeded: number;
+  failed: number;
+  blocked: number;
+  total: number;
+  // Share of finished jobs that failed or were blocked, 0-1
+  failureRate: number;
+}
+
+export function summarizeSyncHealth(rows: SyncHealthRow[]): SyncHealthSummary {
+  const summary = rows.reduce(
+    (acc, row) => ({
+      succeeded: acc.succeeded + row.succeeded,
+      failed: acc.failed + row.failed,
+      blocked: acc.blocked + row.blocked,
+    }),
+    { succeeded: 0, failed: 0, blocked: 0 }
+  );
+  const total = summary.succeeded + summary.failed + summary.blocked;
+
+  return {
+    ...summary,
+    total,
+    failureRate: total === 0 ? 0 : (summary.failed + summary.blocked) / total,
+  };
+}
+
+type FunnelRow = Functions['get_admin_signup_funnel']['Returns'][number];
+
+export const FUNNEL_STEP_LABELS: Record<string, string> = {
+  visitors: 'Visitors',
+  signed_up: 'Signed up',
+  voted: 'Voted',
+  voted_again: 'Voted on 2+ shows',
+};
+
+export interface FunnelStep {
+  step: string;
+  label: string;
+  users: number;
+  // Share of the previous step that made it to this one, 0-1; null for the
+  // first step or when the previous step is empty
+  conversion: number | null;
+}
+
+export function toFunnelSteps(rows: FunnelRow[]): FunnelStep[] {
+  const ordered = [...rows].sort((a, b) => a.step_order - b.step_order);
+
+  return ordered.map((row, index) => {
+    const previous = index > 0 ? ordered[index - 1].users : 0;
+    return {
+      step: row.step,
+      label: FUNNEL_STEP_LABELS[row.step] ?? row.step,
+      users: row.users,
+      conversion: index === 0 || previous === 0 ? null : row.users / previous,
+    };
+  });
+}
+
+export function formatPercent(rate: number | null): string {
+  return rate === null ? '—' : `${(rate * 100).toFixed(1)}%`;
+}
+
+type CsvValue = string | number | boolean | null | undefined;
+
+function csvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+
+  let text = String(value);
+  // Keep spreadsheet apps from running names like "=HYPERLINK(...)" as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows as CSV with a header row. Columns default to the keys of the
+ * first row.
+ */
+export function toCsv<T extends object>(
+  rows: T[],
+  columns: (keyof T & string)[] = rows.length > 0 ? Object.keys(rows[0]) as (keyof T & string)[] : []
+): string {
+  const lines = [
+    columns.map(csvCell).join(','),
+    ...rows.map(row => columns.map(column => csvCell(row[column] as CsvValue)).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function csvFilename(report: string, range: DateRange): string {
+  return `theset-${report}-${range.from}-to-${range.to}.csv`;
+}
@@ -0,0 +1,97 @@
+import { AnalyticsEvent, AnalyticsSink, TrackedEvent } from "./types";
+
+export const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+export const DEFAULT_CLIENT_BATCH_SIZE = 20;
+
+export interface AnalyticsClientOptions {
+  sinks: AnalyticsSink[];
+  getSessionId: () => string;
+  isEnabled?: () => boolean;
+  getPath?: () => string | null;
+  flushIntervalMs?: number;
+  maxBatchSize?: number;
+  now?: () => Date;
+}
+
+export interface AnalyticsClient {
+  track(event: TrackedEvent): void;
+  flush(options?: { useBeacon?: boolean }): Promise<void>;
+  addSink(sink: AnalyticsSink): void;
+  // Drop queued events, e.g. right after the visitor opts out
+  clear(): void;
+}
+
+/**
+ * Batches tracked events and hands each batch to every sink. A batch goes
+ * out when it is full or flushIntervalMs after its first event, whichever
+ * comes first. A failing sink is logged and never affects the others.
+ */
+export function createAnalyticsClient(options: AnalyticsClientOptions): AnalyticsClient {
+  const {
+    getSessionId,
+    isEnabled = () => true,
+    getPath = () => (typeof window === "undefined" ? null : window.location.pathname + window.location.search),
+    flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS,
+    maxBatchSize = DEFAULT_CLIENT_BATCH_SIZE,
+    now = () => new Date(),
+  } = options;
+
+  const sinks = [...options.sinks];
+  let queue: AnalyticsEvent[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const cancelTimer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const flush = async ({ useBeacon = false }: { useBeacon?: boolean } = {}) => {
+    cancelTimer();
+    if (queue.length === 0) return;
+
+    const pending = queue;
+    queue = [];
+    const sessionId = getSessionId();
+
+    for (let i = 0; i < pending.length; i += maxBatchSize) {
+      const batch = { session_id: sessionId, events: pending.slice(i, i + maxBatchSize) };
+
+      await Promise.all(sinks.map(async sink => {
+        try {
+          await sink.send(batch, { useBeacon });
+        } catch (error) {
+          console.error(`Failed to send analytics to ${sink.name}:`, error);
+        }
+      }));
+    }
+  };
+
+  return {
+    track(event) {
+      if (!isEnabled()) return;
+
+      queue.push({ ...event, occurred_at: now().toISOString(), path: getPath() } as AnalyticsEvent);
+
+      if (queue.length >= maxBatchSize) {
+        void flush();
+      } else if (!timer) {
+        timer = setTimeout(() => {
+          timer = null;
+          void flush();
+        }, flushIntervalMs);
+      }
+    },
+    flush,
+    addSink(sink) {
+      if (!sinks.some(existing => existing.name === sink.name)) {
+        sinks.push(sink);
+      }
+    },
+    clear() {
+      cancelTimer();
+      queue = [];
+    },
+  };
+}
@@ -0,0 +1,18 @@
+export * from "./types";
+export {
+  createAnalyticsClient,
+  DEFAULT_CLIENT_BATCH_SIZE,
+  DEFAULT_FLUSH_INTERVAL_MS,
+} from "./client";
+export type { AnalyticsClient, AnalyticsClientOptions } from "./client";
+export {
+  MAX_BATCH_SIZE,
+  MAX_BODY_BYTES,
+  MAX_EVENT_AGE_MS,
+  parseAnalyticsBatch,
+  parseAnalyticsEvent,
+  toAnalyticsEventRow,
+} from "./schema";
+export { ANALYTICS_ENDPOINT, createFirstPartySink, createGoogleAnalyticsSink } from "./sinks";
+export { getAnalyticsSessionId, isAnalyticsAllowed, setAnalyticsOptOut } from "./privacy";
+export { analytics, initAnalytics, optOutOfAnalytics, track } from "./tracker";
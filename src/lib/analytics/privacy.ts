@@ -0,0 +1,60 @@
+const OPT_OUT_KEY = "theset-analytics-opt-out";
+const SESSION_KEY = "theset-analytics-session";
+
+/**
+ * Whether this browser may send analytics. Off when the visitor opted out
+ * here (or on their account, which the profile settings mirror into this
+ * flag) or the browser sends Do Not Track.
+ */
+export function isAnalyticsAllowed(): boolean {
+  if (typeof window === "undefined") return false;
+
+  try {
+    if (window.localStorage.getItem(OPT_OUT_KEY) === "true") return false;
+  } catch {
+    // Storage can be blocked; fall through to Do Not Track
+  }
+
+  return window.navigator?.doNotTrack !== "1";
+}
+
+/**
+ * Remember the visitor's choice in this browser
+ */
+export function setAnalyticsOptOut(optedOut: boolean): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    if (optedOut) {
+      window.localStorage.setItem(OPT_OUT_KEY, "true");
+    } else {
+      window.localStorage.removeItem(OPT_OUT_KEY);
+    }
+  } catch (error) {
+    console.error("Failed to save analytics preference:", error);
+  }
+}
+
+/**
+ * A random ID for this browser tab session. It is not tied to the user and
+ * only lets the rollups count sessions.
+ */
+export function getAnalyticsSessionId(): string {
+  const create = () =>
+    typeof crypto !== "undefined" && "randomUUID" in crypto
+      ? crypto.randomUUID()
+      : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+  if (typeof window === "undefined") return create();
+
+  try {
+    let sessionId = window.sessionStorage.getItem(SESSION_KEY);
+    if (!sessionId) {
+      sessionId = create();
+      window.sessionStorage.setItem(SESSION_KEY, sessionId);
+    }
+    return sessionId;
+  } catch {
+    return create();
+  }
+}
@@ -0,0 +1,137 @@
+import type { Database } from "@/integrations/supabase/types";
+import {
+  ANALYTICS_EVENT_NAMES,
+  AnalyticsEvent,
+  AnalyticsEventName,
+  ShareChannel,
+} from "./types";
+
+type AnalyticsEventInsert = Database["public"]["Tables"]["analytics_events"]["Insert"];
+type Properties = Record<string, unknown>;
+
+export const MAX_BATCH_SIZE = 50;
+// A full batch of valid events fits well within this; bigger bodies aren't parsed
+export const MAX_BODY_BYTES = 64 * 1024;
+// Events older than this are dropped; batches can sit in a closed tab for a while
+export const MAX_EVENT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const MAX_TEXT_LENGTH = 200;
+const MAX_PATH_LENGTH = 500;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SHARE_CHANNELS: ShareChannel[] = ["copy", "twitter", "facebook", "native"];
+
+const isUuid = (value: unknown): value is string =>
+  typeof value === "string" && UUID_PATTERN.test(value);
+
+const optionalUuid = (value: unknown): string | null | undefined =>
+  value === undefined || value === null ? null : isUuid(value) ? value : undefined;
+
+const text = (value: unknown, maxLength = MAX_TEXT_LENGTH): string | null => {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  return trimmed ? trimmed.slice(0, maxLength) : null;
+};
+
+const isRecord = (value: unknown): value is Properties =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Validate the properties of one event, keeping only the known fields.
+ * Returns null when a required field is missing or malformed.
+ */
+function parseProperties(name: AnalyticsEventName, raw: Properties): Properties | null {
+  switch (name) {
+    case "page_view": {
+      const showId = optionalUuid(raw.show_id);
+      if (showId === undefined) return null;
+      return { title: text(raw.title), show_id: showId };
+    }
+    case "vote_cast": {
+      const showId = optionalUuid(raw.show_id);
+      if (!isUuid(raw.song_id) || showId === undefined) return null;
+      return { song_id: raw.song_id, show_id: showId };
+    }
+    case "share_clicked":
+      if (!isUuid(raw.show_id) || !SHARE_CHANNELS.includes(raw.channel as ShareChannel)) return null;
+      return { show_id: raw.show_id, channel: raw.channel };
+    case "search_performed": {
+      const query = text(raw.query);
+      const resultCount = raw.result_count;
+      if (!query || typeof resultCount !== "number" || !Number.isInteger(resultCount) || resultCount < 0) return null;
+      return { query, result_count: resultCount };
+    }
+    case "playlist_exported":
+      if (!isUuid(raw.show_id) || (raw.mode !== "voted" && raw.mode !== "played")) return null;
+      return { show_id: raw.show_id, mode: raw.mode };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate one event from a client batch. A missing or future timestamp is
+ * replaced by now; events older than MAX_EVENT_AGE_MS are rejected.
+ */
+export function parseAnalyticsEvent(raw: unknown, now: Date = new Date()): AnalyticsEvent | null {
+  if (!isRecord(raw) || !ANALYTICS_EVENT_NAMES.includes(raw.name as AnalyticsEventName)) {
+    return null;
+  }
+
+  const name = raw.name as AnalyticsEventName;
+  const properties = parseProperties(name, isRecord(raw.properties) ? raw.properties : {});
+  if (!properties) return null;
+
+  const occurredAt = typeof raw.occurred_at === "string" ? new Date(raw.occurred_at) : null;
+  const occurred = occurredAt && !Number.isNaN(occurredAt.getTime()) && occurredAt < now ? occurredAt : now;
+  if (now.getTime() - occurred.getTime() > MAX_EVENT_AGE_MS) {
+    return null;
+  }
+
+  return {
+    name,
+    properties,
+    occurred_at: occurred.toISOString(),
+    path: text(raw.path, MAX_PATH_LENGTH),
+  } as AnalyticsEvent;
+}
+
+/**
+ * Validate a batch posted to /api/events. Returns null when the batch itself
+ * is malformed; individual bad events are counted in rejected and skipped.
+ */
+export function parseAnalyticsBatch(
+  body: unknown,
+  now: Date = new Date()
+): { sessionId: string; events: AnalyticsEvent[]; rejected: number } | null {
+  if (!isRecord(body) || !Array.isArray(body.events)) return null;
+
+  const sessionId = text(body.session_id, 64);
+  if (!sessionId || body.events.length > MAX_BATCH_SIZE) return null;
+
+  const events: AnalyticsEvent[] = [];
+  body.events.forEach(raw => {
+    const event = parseAnalyticsEvent(raw, now);
+    if (event) events.push(event);
+  });
+
+  return { sessionId, events, rejected: body.events.length - events.length };
+}
+
+/**
+ * The analytics_events row for a validated event
+ */
+export function toAnalyticsEventRow(
+  event: AnalyticsEvent,
+  context: { sessionId: string; userId: string | null }
+): AnalyticsEventInsert {
+  const properties = event.properties as Properties;
+  return {
+    name: event.name,
+    occurred_at: event.occurred_at,
+    session_id: context.sessionId,
+    user_id: context.userId,
+    path: event.path,
+    show_id: isUuid(properties.show_id) ? properties.show_id : null,
+    properties: properties as AnalyticsEventInsert["properties"],
+  };
+}
@@ -0,0 +1,75 @@
+import { trackEvent, trackPageView } from "@/integrations/google-analytics";
+import { AnalyticsEvent, AnalyticsSink } from "./types";
+
+export const ANALYTICS_ENDPOINT = "/api/events";
+
+/**
+ * Sends batches to our own /api/events endpoint. Beacons can't carry the
+ * Authorization header, so events flushed as the page is hidden are stored
+ * without the user.
+ */
+export function createFirstPartySink(options: {
+  endpoint?: string;
+  getAccessToken?: () => Promise<string | null>;
+} = {}): AnalyticsSink {
+  const { endpoint = ANALYTICS_ENDPOINT, getAccessToken } = options;
+
+  return {
+    name: "first-party",
+    async send(batch, { useBeacon = false } = {}) {
+      const body = JSON.stringify(batch);
+
+      if (useBeacon && typeof navigator !== "undefined" && navigator.sendBeacon) {
+        navigator.sendBeacon(endpoint, new Blob([body], { type: "application/json" }));
+        return;
+      }
+
+      const accessToken = getAccessToken ? await getAccessToken() : null;
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+        },
+        body,
+        keepalive: true,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Analytics endpoint returned ${response.status}`);
+      }
+    },
+  };
+}
+
+function sendToGoogleAnalytics(event: AnalyticsEvent) {
+  switch (event.name) {
+    case "page_view":
+      trackPageView(event.path || "/", event.properties.title || undefined);
+      break;
+    case "vote_cast":
+      trackEvent("Setlist", "Vote", event.properties.song_id);
+      break;
+    case "share_clicked":
+      trackEvent("Setlist", "Share", event.properties.channel);
+      break;
+    case "search_performed":
+      trackEvent("Search", "Search", event.properties.query, event.properties.result_count);
+      break;
+    case "playlist_exported":
+      trackEvent("Setlist", "Export Playlist", event.properties.mode);
+      break;
+  }
+}
+
+/**
+ * Forwards events to Google Analytics, which must be initialized with initGA
+ */
+export function createGoogleAnalyticsSink(): AnalyticsSink {
+  return {
+    name: "google-analytics",
+    send(batch) {
+      batch.events.forEach(sendToGoogleAnalytics);
+    },
+  };
+}
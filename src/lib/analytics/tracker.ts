@@ -0,0 +1,57 @@
+import { supabase } from "@/integrations/supabase/client";
+import { initGA } from "@/integrations/google-analytics";
+import { createAnalyticsClient } from "./client";
+import { getAnalyticsSessionId, isAnalyticsAllowed, setAnalyticsOptOut } from "./privacy";
+import { createFirstPartySink, createGoogleAnalyticsSink } from "./sinks";
+import { TrackedEvent } from "./types";
+
+/**
+ * The app-wide analytics client. Events always go to /api/events; Google
+ * Analytics is added by initAnalytics when a tracking ID is configured.
+ */
+export const analytics = createAnalyticsClient({
+  sinks: [
+    createFirstPartySink({
+      getAccessToken: async () => {
+        const { data: { session } } = await supabase.auth.getSession();
+        return session?.access_token ?? null;
+      },
+    }),
+  ],
+  getSessionId: getAnalyticsSessionId,
+  isEnabled: isAnalyticsAllowed,
+});
+
+let initialized = false;
+
+/**
+ * Start the optional sinks and flush whatever is queued when the page is hidden
+ */
+export function initAnalytics(options: { gaTrackingId?: string | null } = {}): void {
+  if (initialized || typeof window === "undefined") return;
+  initialized = true;
+
+  if (options.gaTrackingId && isAnalyticsAllowed()) {
+    initGA(options.gaTrackingId);
+    analytics.addSink(createGoogleAnalyticsSink());
+  }
+
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") {
+      void analytics.flush({ useBeacon: true });
+    }
+  });
+}
+
+export function track(event: TrackedEvent): void {
+  analytics.track(event);
+}
+
+/**
+ * Apply the visitor's privacy choice in this browser. Opting out drops any
+ * events that are still queued.
+ */
+export function optOutOfAnalytics(optedOut: boolean): void {
+  setAnalyticsOptOut(optedOut);
+  if (optedOut) analytics.clear();
+}
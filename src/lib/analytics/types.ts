@@ -0,0 +1,72 @@
+/**
+ * Properties of each first-party analytics event. Every event also carries
+ * when it happened and the path it happened on (see AnalyticsEvent).
+ */
+export interface AnalyticsEventProperties {
+  page_view: {
+    title?: string | null;
+    show_id?: string | null;
+  };
+  vote_cast: {
+    song_id: string;
+    show_id?: string | null;
+  };
+  share_clicked: {
+    show_id: string;
+    channel: ShareChannel;
+  };
+  search_performed: {
+    query: string;
+    result_count: number;
+  };
+  playlist_exported: {
+    show_id: string;
+    mode: "voted" | "played";
+  };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEventProperties;
+
+export const ANALYTICS_EVENT_NAMES: AnalyticsEventName[] = [
+  "page_view",
+  "vote_cast",
+  "share_clicked",
+  "search_performed",
+  "playlist_exported",
+];
+
+export type ShareChannel = "copy" | "twitter" | "facebook" | "native";
+
+/**
+ * An event as passed to track()
+ */
+export type TrackedEvent = {
+  [N in AnalyticsEventName]: { name: N; properties: AnalyticsEventProperties[N] };
+}[AnalyticsEventName];
+
+/**
+ * An event as batched by the client and sent to the sinks
+ */
+export type AnalyticsEvent = TrackedEvent & {
+  occurred_at: string;
+  path: string | null;
+};
+
+/**
+ * The body the client posts to /api/events
+ */
+export interface AnalyticsBatch {
+  session_id: string;
+  events: AnalyticsEvent[];
+}
+
+/**
+ * Somewhere batched events are sent. The first-party /api/events endpoint is
+ * one sink; Google Analytics is another, used only when it is configured.
+ * useBeacon is set when the page is being hidden and a normal request may
+ * not finish.
+ */
+export interface AnalyticsSink {
+  name: string;
+  send(batch: AnalyticsBatch, options?: { useBeacon?: boolean }): void | Promise<void>;
+}
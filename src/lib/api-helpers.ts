@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Show } from '@/lib/types'; // Import Show type
+import { toTrendingShow } from '@/lib/trending';
 
 // Initialize Supabase client using VITE_ variables for consistency
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -91,50 +92,20 @@ export async function getPopularArtists(limit = 10) {
 } 
 
 /**
- * Fetch trending shows directly from the database (ordered by popularity)
+ * Fetch trending shows by trending score (see src/lib/trending.ts)
  */
-export async function getTrendingShows(limit = 10): Promise<Show[]> { // Added return type
+export async function getTrendingShows(limit = 10): Promise<Show[]> {
   try {
-    console.log(`Fetching top ${limit} trending shows from database...`);
-    
-    // Query the 'shows' table directly
-    // Select necessary fields and join with artists and venues
-    const { data, error } = await supabase
-      .from('shows')
-      .select(`
-        id,
-        name,
-        date,
-        image_url,
-        ticket_url,
-        popularity,
-        artist:artists ( id, name ),
-        venue:venues ( id, name, city, state )
-      `)
-      .order('popularity', { ascending: false, nullsFirst: false }) // Order by popularity descending
-      .limit(limit);
-      
-    
-  if (error) {
-    console.error('Error fetching trending shows from database:', error);
-    // Removed error_logs insertion
-    return [];
-  }
-    console.log(`Successfully fetched ${data?.length || 0} trending shows from database.`);
-    
-    // Map the data to ensure artist and venue are single objects, not arrays
-    const mappedData = data?.map(show => ({
-      ...show,
-      // Supabase might return joins as arrays, take the first element
-      artist: Array.isArray(show.artist) ? show.artist[0] : show.artist,
-      venue: Array.isArray(show.venue) ? show.venue[0] : show.venue,
-    })) || [];
-    
-    return mappedData;
-    
+    const { data, error } = await supabase.rpc('get_trending_shows', { p_limit: limit });
+
+    if (error) {
+      console.error('Error fetching trending shows from database:', error);
+      return [];
+    }
+
+    return (data || []).map(toTrendingShow) as Show[];
   } catch (error) {
     console.error('Unexpected error in getTrendingShows:', error);
-    // Removed error_logs insertion
     return [];
   }
 }
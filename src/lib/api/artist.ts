@@ -1,4 +1,5 @@
 import { retryableFetch } from '@/lib/retry';
+import { buildProviderUrl, ticketmasterBaseUrl } from '@/lib/sync/providers/base';
 
 export interface ArtistWithEvents { // Add export keyword
   id: string;
@@ -34,7 +35,7 @@ export async function searchArtistsWithEvents(
     }
 
     const response = await retryableFetch(async () => {
-      const url = `https://app.ticketmaster.com/discovery/v2/attractions.json?apikey=${apiKey}&keyword=${encodeURIComponent(keyword)}&size=${size}`;
+      const url = buildProviderUrl(ticketmasterBaseUrl(), 'attractions.json', { apikey: apiKey, keyword, size });
       
       const result = await fetch(url, {
         headers: {
@@ -122,7 +123,12 @@ export async function fetchFeaturedArtists(): Promise<ArtistWithEvents[]> {
    // Fetch featured artists (e.g., based on music classification, sorted by relevance/popularity)
     const response = await retryableFetch(async () => {
       // Example: Fetch top 10 music attractions sorted by relevance
-      const url = `https://app.ticketmaster.com/discovery/v2/attractions.json?apikey=${apiKey}&classificationName=music&size=10&sort=relevance,desc`;
+      const url = buildProviderUrl(ticketmasterBaseUrl(), 'attractions.json', {
+        apikey: apiKey,
+        classificationName: 'music',
+        size: 10,
+        sort: 'relevance,desc'
+      });
       const result = await fetch(url, {
         headers: { 'Accept': 'application/json' }
       });
@@ -186,7 +192,7 @@ export async function fetchArtistById(artistId: string): Promise<ArtistWithEvent
     }
 
     const response = await retryableFetch(async () => {
-      const url = `https://app.ticketmaster.com/discovery/v2/attractions/${artistId}.json?apikey=${apiKey}`;
+      const url = buildProviderUrl(ticketmasterBaseUrl(), `attractions/${artistId}.json`, { apikey: apiKey });
       
       const result = await fetch(url, {
         headers: {
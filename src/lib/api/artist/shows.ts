@@ -3,6 +3,12 @@ import { supabase } from "@/integrations/supabase/client";
 import { callTicketmasterApi } from "../ticketmaster-config";
 import { saveVenueToDatabase, saveShowToDatabase } from "../database";
 
+// The part of a Ticketmaster classification that genres are read from
+interface TicketmasterClassification {
+  genre?: { id?: string; name?: string };
+  subGenre?: { id?: string; name?: string };
+}
+
 /**
  * Fetch and save shows for an artist
  */
@@ -59,7 +65,8 @@ export async function fetchAndSaveArtistShows(artistId: string): Promise<void> {
           venue_id: venueId,
           ticket_url: event.url,
           image_url: event.images?.find((img: any) => img.ratio === "16_9" && img.width > 500)?.url,
-          genre_ids: event.classifications?.map((c: any) => c.genre?.id).filter(Boolean) || []
+          genre_ids: event.classifications?.map((c: TicketmasterClassification) => c.genre?.id).filter(Boolean) || [],
+          genre_names: event.classifications?.flatMap((c: TicketmasterClassification) => [c.genre?.name, c.subGenre?.name]).filter(Boolean) || []
         };
         
         await saveShowToDatabase(showData);
@@ -0,0 +1,149 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { DateRange } from "@/lib/admin-analytics";
+
+type Functions = Database['public']['Functions'];
+
+export type DailyActivity = Functions['get_admin_daily_activity']['Returns'][number];
+export type ShowVotesByDay = Functions['get_admin_show_vote_series']['Returns'][number];
+export type SignupFunnelStep = Functions['get_admin_signup_funnel']['Returns'][number];
+export type ArtistEngagement = Functions['get_admin_top_artists']['Returns'][number];
+export type SyncHealthByDay = Functions['get_admin_sync_health']['Returns'][number];
+export type ApiErrorsByDay = Functions['get_admin_api_errors']['Returns'][number];
+
+/**
+ * Get daily active voters, votes and signups for every day in the range.
+ * Admin only.
+ */
+export async function getDailyActivity(range: DateRange): Promise<DailyActivity[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_admin_daily_activity', {
+      p_from: range.from,
+      p_to: range.to
+    });
+
+    if (error) {
+      console.error("Error fetching daily activity:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getDailyActivity:", error);
+    return [];
+  }
+}
+
+/**
+ * Get daily votes for the most voted shows in the range. Admin only.
+ */
+export async function getShowVoteSeries(range: DateRange, limit = 5): Promise<ShowVotesByDay[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_admin_show_vote_series', {
+      p_from: range.from,
+      p_to: range.to,
+      p_limit: limit
+    });
+
+    if (error) {
+      console.error("Error fetching show vote series:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getShowVoteSeries:", error);
+    return [];
+  }
+}
+
+/**
+ * Get the visitors -> signed up -> voted -> voted again funnel for the range.
+ * Admin only.
+ */
+export async function getSignupFunnel(range: DateRange): Promise<SignupFunnelStep[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_admin_signup_funnel', {
+      p_from: range.from,
+      p_to: range.to
+    });
+
+    if (error) {
+      console.error("Error fetching signup funnel:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getSignupFunnel:", error);
+    return [];
+  }
+}
+
+/**
+ * Get the artists with the most votes and new follows in the range.
+ * Admin only.
+ */
+export async function getTopArtistsByEngagement(range: DateRange, limit = 10): Promise<ArtistEngagement[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_admin_top_artists', {
+      p_from: range.from,
+      p_to: range.to,
+      p_limit: limit
+    });
+
+    if (error) {
+      console.error("Error fetching top artists by engagement:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getTopArtistsByEngagement:", error);
+    return [];
+  }
+}
+
+/**
+ * Get finished sync jobs per day by outcome. Admin only.
+ */
+export async function getSyncHealth(range: DateRange): Promise<SyncHealthByDay[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_admin_sync_health', {
+      p_from: range.from,
+      p_to: range.to
+    });
+
+    if (error) {
+      console.error("Error fetching sync health:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getSyncHealth:", error);
+    return [];
+  }
+}
+
+/**
+ * Get logged API errors per day and endpoint. Admin only.
+ */
+export async function getApiErrors(range: DateRange): Promise<ApiErrorsByDay[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_admin_api_errors', {
+      p_from: range.from,
+      p_to: range.to
+    });
+
+    if (error) {
+      console.error("Error fetching API errors:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getApiErrors:", error);
+    return [];
+  }
+}
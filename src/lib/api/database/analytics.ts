@@ -0,0 +1,43 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Whether the user switched analytics off on their account
+ */
+export async function getAnalyticsOptOut(userId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .from('analytics_opt_outs')
+      .select('user_id')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching analytics opt-out:", error);
+      return false;
+    }
+
+    return Boolean(data);
+  } catch (error) {
+    console.error("Error in getAnalyticsOptOut:", error);
+    return false;
+  }
+}
+
+/**
+ * Switch analytics off (or back on) for the user's account
+ */
+export async function saveAnalyticsOptOut(userId: string, optedOut: boolean): Promise<void> {
+  const { error } = optedOut
+    ? await supabase
+        .from('analytics_opt_outs')
+        .upsert({ user_id: userId }, { onConflict: 'user_id', ignoreDuplicates: true })
+    : await supabase
+        .from('analytics_opt_outs')
+        .delete()
+        .eq('user_id', userId);
+
+  if (error) {
+    console.error("Error saving analytics opt-out:", error);
+    throw new Error(`Failed to save analytics preference: ${error.message}`);
+  }
+}
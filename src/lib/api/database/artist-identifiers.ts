@@ -0,0 +1,172 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type ArtistIdentifier = Database['public']['Tables']['artist_identifiers']['Row'];
+
+export type ArtistMerge = Database['public']['Tables']['artist_merges']['Row'];
+
+export type DuplicateArtist = Database['public']['Functions']['get_duplicate_artists']['Returns'][number];
+
+// Callers often pass whatever id they hold as the Ticketmaster ID; an
+// internal artist UUID is not one
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function ticketmasterId(id?: string | null): string | null {
+  return id && !UUID_PATTERN.test(id) ? id : null;
+}
+
+/** Provider IDs an entry point knows for an artist */
+export interface ArtistIdentifiers {
+  name?: string | null;
+  ticketmasterId?: string | null;
+  spotifyId?: string | null;
+  mbid?: string | null;
+}
+
+/**
+ * Find the canonical artist for a set of provider IDs (falling back to an
+ * unambiguous name match) and link the IDs to it. Returns null when the
+ * artist is new; create it, then call linkArtistIdentifiers.
+ */
+export async function resolveArtist(identifiers: ArtistIdentifiers): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.rpc('resolve_artist', {
+      p_name: identifiers.name ?? null,
+      p_ticketmaster_id: ticketmasterId(identifiers.ticketmasterId),
+      p_spotify_id: identifiers.spotifyId ?? null,
+      p_mbid: identifiers.mbid ?? null
+    });
+
+    if (error) {
+      console.error("Error resolving artist:", error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Error in resolveArtist:", error);
+    return null;
+  }
+}
+
+/**
+ * Record provider IDs for an artist that was just created
+ */
+export async function linkArtistIdentifiers(artistId: string, identifiers: ArtistIdentifiers): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('link_artist_identifiers', {
+      p_artist_id: artistId,
+      p_ticketmaster_id: ticketmasterId(identifiers.ticketmasterId),
+      p_spotify_id: identifiers.spotifyId ?? null,
+      p_mbid: identifiers.mbid ?? null
+    });
+
+    if (error) {
+      console.error("Error linking artist identifiers:", error);
+    }
+  } catch (error) {
+    console.error("Error in linkArtistIdentifiers:", error);
+  }
+}
+
+/**
+ * Get the provider IDs linked to an artist
+ */
+export async function getArtistIdentifiers(artistId: string): Promise<ArtistIdentifier[]> {
+  try {
+    const { data, error } = await supabase
+      .from('artist_identifiers')
+      .select('*')
+      .eq('artist_id', artistId)
+      .order('provider');
+
+    if (error) {
+      console.error("Error fetching artist identifiers:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getArtistIdentifiers:", error);
+    return [];
+  }
+}
+
+/**
+ * Get artists that look like duplicates of each other. Admin only.
+ */
+export async function getDuplicateArtists(limit = 50): Promise<DuplicateArtist[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_duplicate_artists', { p_limit: limit });
+
+    if (error) {
+      console.error("Error fetching duplicate artists:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getDuplicateArtists:", error);
+    return [];
+  }
+}
+
+/**
+ * Merge a duplicate artist into the one to keep, moving its shows, songs,
+ * setlists and votes. Returns the merge id, which splitArtist can undo.
+ */
+export async function mergeArtists(sourceId: string, targetId: string, note?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('merge_artists', {
+    p_source_id: sourceId,
+    p_target_id: targetId,
+    p_note: note ?? null
+  });
+
+  if (error) {
+    console.error("Error merging artists:", error);
+    throw new Error(`Failed to merge artists: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Undo a merge, restoring the duplicate artist and the rows moved from it.
+ * Returns the restored artist id.
+ */
+export async function splitArtist(mergeId: string, note?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('split_artist', {
+    p_merge_id: mergeId,
+    p_note: note ?? null
+  });
+
+  if (error) {
+    console.error("Error splitting artist:", error);
+    throw new Error(`Failed to split artist: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Get the most recent artist merges, newest first
+ */
+export async function getArtistMerges(limit = 50): Promise<ArtistMerge[]> {
+  try {
+    const { data, error } = await supabase
+      .from('artist_merges')
+      .select('*')
+      .order('merged_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("Error fetching artist merges:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getArtistMerges:", error);
+    return [];
+  }
+}
@@ -0,0 +1,171 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { ArtistImportReportRow, CreateArtistImportRequest, ImportCandidate } from "@/lib/artist-import";
+
+export type ArtistImportJob = Database['public']['Tables']['artist_import_jobs']['Row'];
+
+export type { ArtistImportReportRow };
+
+/**
+ * The admin's access token for the import API routes, which resolve rows
+ * with the server's Ticketmaster and Spotify keys
+ */
+async function getAdminHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+/**
+ * Start an import from CSV rows or a Spotify playlist. Returns the new job
+ * and how many artists it holds.
+ */
+export async function createArtistImport(
+  request: CreateArtistImportRequest
+): Promise<{ job_id: string; rows: number }> {
+  const response = await fetch('/api/admin/artist-imports', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAdminHeaders()) },
+    credentials: 'same-origin',
+    body: JSON.stringify(request),
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    console.error("Error creating artist import:", result.error);
+    throw new Error(`Failed to create artist import: ${result.error || response.statusText}`);
+  }
+
+  return result;
+}
+
+/**
+ * Resolve the next batch of pending rows. Call until remaining is 0.
+ */
+export async function resolveArtistImport(
+  jobId: string
+): Promise<{ resolved: number; remaining: number }> {
+  const response = await fetch(`/api/admin/artist-imports/${jobId}/resolve`, {
+    method: 'POST',
+    headers: await getAdminHeaders(),
+    credentials: 'same-origin',
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    console.error("Error resolving artist import:", result.error);
+    throw new Error(`Failed to resolve artist import: ${result.error || response.statusText}`);
+  }
+
+  return result;
+}
+
+/**
+ * Get an import job by ID. Admin only.
+ */
+export async function getArtistImportJob(jobId: string): Promise<ArtistImportJob | null> {
+  try {
+    const { data, error } = await supabase
+      .from('artist_import_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching artist import job:", error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Error in getArtistImportJob:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the most recent import jobs, newest first. Admin only.
+ */
+export async function getRecentArtistImports(limit = 10): Promise<ArtistImportJob[]> {
+  try {
+    const { data, error } = await supabase
+      .from('artist_import_jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("Error fetching recent artist imports:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getRecentArtistImports:", error);
+    return [];
+  }
+}
+
+/**
+ * Get every row of an import with its match and sync outcome. Admin only.
+ */
+export async function getArtistImportReport(jobId: string): Promise<ArtistImportReportRow[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_artist_import_report', { p_job_id: jobId });
+
+    if (error) {
+      console.error("Error fetching artist import report:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getArtistImportReport:", error);
+    return [];
+  }
+}
+
+/**
+ * Accept a candidate for a row that needed review, or skip the row when no
+ * candidate is given
+ */
+export async function saveImportSelection(
+  rowId: string,
+  candidate: ImportCandidate | null
+): Promise<void> {
+  const update = candidate
+    ? {
+        status: 'matched',
+        ticketmaster_id: candidate.ticketmaster_id,
+        matched_name: candidate.name,
+        image_url: candidate.image_url,
+        confidence: candidate.confidence,
+      }
+    : { status: 'skipped' };
+
+  const { error } = await supabase
+    .from('artist_import_rows')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', rowId);
+
+  if (error) {
+    console.error("Error saving import selection:", error);
+    throw new Error(`Failed to ${candidate ? 'match' : 'skip'} import row: ${error.message}`);
+  }
+}
+
+/**
+ * Hand every matched row of an import to the sync queue. Returns the number
+ * of artists queued.
+ */
+export async function queueArtistImport(jobId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('queue_artist_import', { p_job_id: jobId });
+
+  if (error) {
+    console.error("Error queueing artist import:", error);
+    throw new Error(`Failed to queue artist import: ${error.message}`);
+  }
+
+  return data;
+}
@@ -2,6 +2,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { getArtistAllTracks } from "@/lib/spotify";
 import { toast } from "sonner";
 import { getStoredTracksForArtist, updateArtistStoredTracks } from "./tracks";
+import { linkArtistIdentifiers, resolveArtist } from "./artist-identifiers";
 
 /**
  * Save artist to database
@@ -15,6 +16,16 @@ export async function saveArtistToDatabase(artist: any) {
     
     console.log(`Saving artist to database: ${artist.name} (ID: ${artist.id})`);
     
+    // Reuse the canonical artist if these provider IDs (or the name) are already known
+    const canonicalId = await resolveArtist({
+      name: artist.name,
+      ticketmasterId: artist.id,
+      spotifyId: artist.spotify_id
+    });
+    if (canonicalId && canonicalId !== artist.id) {
+      artist = { ...artist, id: canonicalId };
+    }
+    
     // Check if artist already exists
     try {
       const { data: existingArtist, error: checkError } = await supabase
@@ -111,6 +122,10 @@ export async function saveArtistToDatabase(artist: any) {
       
       console.log(`Successfully saved artist ${artist.name} to database`);
       
+      if (!canonicalId) {
+        await linkArtistIdentifiers(artist.id, { ticketmasterId: artist.id, spotifyId: artistData.spotify_id });
+      }
+      
       // After creating/updating the artist, if they don't have stored tracks, fetch them from Spotify
       const savedArtist = data?.[0] || artistData;
       if ((!savedArtist.stored_tracks) && artistData.spotify_id) {
@@ -0,0 +1,69 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type Event = Database['public']['Tables']['events']['Row'];
+
+export type EventWithVenue = Event & {
+  venue: Pick<Database['public']['Tables']['venues']['Row'], 'id' | 'name' | 'city' | 'state'> | null;
+};
+
+type LineupRow = Database['public']['Functions']['get_event_lineup']['Returns'][number];
+
+export interface EventSong {
+  name: string;
+  vote_count?: number;
+  position?: number | null;
+  is_encore?: boolean | null;
+}
+
+export type EventPerformance = Omit<LineupRow, 'top_songs' | 'played_songs'> & {
+  top_songs: EventSong[];
+  played_songs: EventSong[];
+};
+
+/**
+ * Get a festival or residency with its venue
+ */
+export async function getEvent(eventId: string): Promise<EventWithVenue | null> {
+  try {
+    const { data, error } = await supabase
+      .from('events')
+      .select('*, venue:venues(id, name, city, state)')
+      .eq('id', eventId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching event:", error);
+      return null;
+    }
+
+    return data as EventWithVenue | null;
+  } catch (error) {
+    console.error("Error in getEvent:", error);
+    return null;
+  }
+}
+
+/**
+ * Get an event's performances in running order, each with its most-voted
+ * songs and played setlist
+ */
+export async function getEventLineup(eventId: string, songLimit = 5): Promise<EventPerformance[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_event_lineup', { p_event_id: eventId, p_song_limit: songLimit });
+
+    if (error) {
+      console.error("Error fetching event lineup:", error);
+      return [];
+    }
+
+    return (data || []).map(performance => ({
+      ...performance,
+      top_songs: (performance.top_songs as unknown as EventSong[]) || [],
+      played_songs: (performance.played_songs as unknown as EventSong[]) || []
+    }));
+  } catch (error) {
+    console.error("Error in getEventLineup:", error);
+    return [];
+  }
+}
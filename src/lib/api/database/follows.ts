@@ -0,0 +1,162 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type UserFollow = Database['public']['Tables']['user_follows']['Row'];
+
+export type FollowFeedItem = Database['public']['Functions']['get_follow_feed']['Returns'][number];
+
+export type FollowFeedItemType = 'show_announced' | 'voting_open' | 'setlist_played';
+
+/**
+ * What a follow points at: an artist or a venue
+ */
+export type FollowTarget =
+  | { artistId: string; venueId?: undefined }
+  | { venueId: string; artistId?: undefined };
+
+function targetColumn(target: FollowTarget): ['artist_id' | 'venue_id', string] {
+  return target.artistId ? ['artist_id', target.artistId] : ['venue_id', target.venueId as string];
+}
+
+/**
+ * Check whether the user currently follows an artist or venue
+ */
+export async function isFollowing(userId: string, target: FollowTarget): Promise<boolean> {
+  const [column, id] = targetColumn(target);
+
+  try {
+    const { data, error } = await supabase
+      .from('user_follows')
+      .select('id')
+      .eq('user_id', userId)
+      .eq(column, id)
+      .is('unfollowed_at', null)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error checking follow:", error);
+      return false;
+    }
+
+    return !!data;
+  } catch (error) {
+    console.error("Error in isFollowing:", error);
+    return false;
+  }
+}
+
+/**
+ * Get the user's current follows, newest first
+ */
+export async function getUserFollows(userId: string): Promise<UserFollow[]> {
+  try {
+    const { data, error } = await supabase
+      .from('user_follows')
+      .select('*')
+      .eq('user_id', userId)
+      .is('unfollowed_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error("Error fetching follows:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getUserFollows:", error);
+    return [];
+  }
+}
+
+/**
+ * Follow an artist or venue, or follow it again after unfollowing
+ */
+export async function follow(userId: string, target: FollowTarget): Promise<void> {
+  const [column, id] = targetColumn(target);
+  const { error } = await supabase
+    .from('user_follows')
+    .upsert(
+      {
+        user_id: userId,
+        ...(column === 'artist_id' ? { artist_id: id } : { venue_id: id }),
+        source: 'manual',
+        unfollowed_at: null
+      },
+      { onConflict: `user_id,${column}` }
+    );
+
+  if (error) {
+    console.error("Error following:", error);
+    throw new Error(`Failed to follow: ${error.message}`);
+  }
+}
+
+/**
+ * Unfollow an artist or venue. The row is kept so a later Spotify import
+ * doesn't follow it again.
+ */
+export async function unfollow(userId: string, target: FollowTarget): Promise<void> {
+  const [column, id] = targetColumn(target);
+  const { error } = await supabase
+    .from('user_follows')
+    .update({ unfollowed_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq(column, id);
+
+  if (error) {
+    console.error("Error unfollowing:", error);
+    throw new Error(`Failed to unfollow: ${error.message}`);
+  }
+}
+
+/**
+ * Follow the user's Spotify top artists. Artists the user already follows or
+ * has unfollowed are left alone.
+ */
+export async function importSpotifyFollows(userId: string, artistIds: string[]): Promise<void> {
+  if (artistIds.length === 0) return;
+
+  try {
+    const { error } = await supabase
+      .from('user_follows')
+      .upsert(
+        [...new Set(artistIds)].map(artistId => ({
+          user_id: userId,
+          artist_id: artistId,
+          source: 'spotify'
+        })),
+        { onConflict: 'user_id,artist_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error("Error importing Spotify follows:", error);
+    }
+  } catch (error) {
+    console.error("Error in importSpotifyFollows:", error);
+  }
+}
+
+/**
+ * Get the signed-in user's feed of new shows, setlists open for voting and
+ * played setlists for everything they follow, newest first. Pass the last
+ * item's occurred_at as `before` to load the next page.
+ */
+export async function getFollowFeed(limit = 30, before?: string): Promise<FollowFeedItem[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_follow_feed', {
+      p_limit: limit,
+      ...(before ? { p_before: before } : {})
+    });
+
+    if (error) {
+      console.error("Error fetching follow feed:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getFollowFeed:", error);
+    return [];
+  }
+}
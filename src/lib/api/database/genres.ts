@@ -0,0 +1,166 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { Show } from "@/lib/types";
+
+export type Genre = Database['public']['Tables']['genres']['Row'];
+
+export type GenreShow = Database['public']['Functions']['get_genre_upcoming_shows']['Returns'][number];
+
+export type GenreArtist = Database['public']['Functions']['get_genre_top_artists']['Returns'][number];
+
+export type GenreSong = Database['public']['Functions']['get_genre_top_songs']['Returns'][number];
+
+/**
+ * Get the genre taxonomy in display order
+ */
+export async function getGenres(): Promise<Genre[]> {
+  try {
+    const { data, error } = await supabase
+      .from('genres')
+      .select('*')
+      .order('display_order');
+
+    if (error) {
+      console.error("Error fetching genres:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getGenres:", error);
+    return [];
+  }
+}
+
+/**
+ * Get a genre by slug or Ticketmaster classification ID
+ */
+export async function getGenre(slugOrTicketmasterId: string): Promise<Genre | null> {
+  try {
+    const { data, error } = await supabase
+      .from('genres')
+      .select('*')
+      .or(`slug.eq.${slugOrTicketmasterId},ticketmaster_id.eq.${slugOrTicketmasterId}`)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching genre:", error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Error in getGenre:", error);
+    return null;
+  }
+}
+
+/**
+ * Get upcoming shows by artists in a genre, soonest first
+ */
+export async function getGenreUpcomingShows(genre: string, limit = 12): Promise<GenreShow[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_genre_upcoming_shows', { p_genre: genre, p_limit: limit });
+
+    if (error) {
+      console.error("Error fetching genre shows:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getGenreUpcomingShows:", error);
+    return [];
+  }
+}
+
+/**
+ * Shape a genre show like the rest of the show lists
+ */
+export function genreShowToShow(show: GenreShow): Show {
+  return {
+    id: show.show_id,
+    name: show.show_name,
+    date: show.date,
+    artist_id: show.artist_id,
+    venue_id: show.venue_id,
+    ticket_url: show.ticket_url,
+    image_url: show.image_url,
+    artist: {
+      id: show.artist_id,
+      name: show.artist_name,
+      image_url: show.artist_image_url
+    },
+    venue: show.venue_id && show.venue_name ? {
+      id: show.venue_id,
+      name: show.venue_name,
+      city: show.city,
+      state: show.state
+    } : null
+  };
+}
+
+/**
+ * Get the most popular artists in a genre
+ */
+export async function getGenreTopArtists(genre: string, limit = 12): Promise<GenreArtist[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_genre_top_artists', { p_genre: genre, p_limit: limit });
+
+    if (error) {
+      console.error("Error fetching genre artists:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getGenreTopArtists:", error);
+    return [];
+  }
+}
+
+/**
+ * Get the songs with the most setlist votes in a genre
+ */
+export async function getGenreTopSongs(genre: string, limit = 10): Promise<GenreSong[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_genre_top_songs', { p_genre: genre, p_limit: limit });
+
+    if (error) {
+      console.error("Error fetching genre songs:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getGenreTopSongs:", error);
+    return [];
+  }
+}
+
+/**
+ * Link an artist to the genres of Ticketmaster classifications (genre and
+ * subgenre IDs and names). Spotify genres are linked by the database when
+ * artists.genres changes.
+ */
+export async function linkTicketmasterGenres(
+  artistId: string,
+  classificationIds: string[] = [],
+  classificationNames: string[] = []
+): Promise<void> {
+  if (classificationIds.length === 0 && classificationNames.length === 0) return;
+
+  try {
+    const { error } = await supabase.rpc('link_ticketmaster_genres', {
+      p_artist_id: artistId,
+      p_classification_ids: classificationIds,
+      p_classification_names: classificationNames
+    });
+
+    if (error) {
+      console.error("Error linking artist genres:", error);
+    }
+  } catch (error) {
+    console.error("Error in linkTicketmasterGenres:", error);
+  }
+}
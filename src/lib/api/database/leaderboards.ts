@@ -0,0 +1,72 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type LeaderboardScope = 'global' | 'artist' | 'tour';
+export type LeaderboardPeriod = 'weekly' | 'all_time';
+
+export type LeaderboardEntry = Database['public']['Functions']['get_leaderboard']['Returns'][number];
+
+export interface LeaderboardQuery {
+  scope?: LeaderboardScope;
+  period?: LeaderboardPeriod;
+  artistId?: string;
+  tourName?: string;
+  limit?: number;
+}
+
+/**
+ * Get one leaderboard from the leaderboard_standings materialized view.
+ * Standings are only as fresh as the last /api/cron/refresh-views run.
+ */
+export async function getLeaderboard({
+  scope = 'global',
+  period = 'all_time',
+  artistId,
+  tourName,
+  limit = 50
+}: LeaderboardQuery = {}): Promise<LeaderboardEntry[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_leaderboard', {
+      p_scope: scope,
+      p_period: period,
+      p_artist_id: artistId ?? null,
+      p_tour_name: tourName ?? null,
+      p_limit: limit
+    });
+
+    if (error) {
+      console.error("Error fetching leaderboard:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getLeaderboard:", error);
+    return [];
+  }
+}
+
+/**
+ * Get the names of an artist's tours that have a leaderboard
+ */
+export async function getLeaderboardTours(artistId: string): Promise<string[]> {
+  try {
+    const { data, error } = await supabase
+      .from('leaderboard_standings')
+      .select('tour_name')
+      .eq('scope', 'tour')
+      .eq('period', 'all_time')
+      .eq('artist_id', artistId);
+
+    if (error) {
+      console.error("Error fetching leaderboard tours:", error);
+      return [];
+    }
+
+    const tours = new Set((data || []).map(row => row.tour_name).filter((name): name is string => !!name));
+    return Array.from(tours).sort();
+  } catch (error) {
+    console.error("Error in getLeaderboardTours:", error);
+    return [];
+  }
+}
@@ -0,0 +1,73 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type VoteModerationDecision = 'approve' | 'reject';
+
+export type QuarantinedVote = Database['public']['Functions']['get_quarantined_votes']['Returns'][number];
+
+export type VoteModerationEvent = Database['public']['Tables']['vote_moderation_events']['Row'];
+
+/**
+ * Get votes the anomaly detector has quarantined, newest first. Admin only.
+ */
+export async function getQuarantinedVotes(limit = 100): Promise<QuarantinedVote[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_quarantined_votes', { p_limit: limit });
+
+    if (error) {
+      console.error("Error fetching quarantined votes:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getQuarantinedVotes:", error);
+    return [];
+  }
+}
+
+/**
+ * Approve a quarantined vote back into the totals, or reject it for good.
+ * Returns the vote's new moderation status.
+ */
+export async function moderateVote(
+  voteId: string,
+  decision: VoteModerationDecision,
+  note?: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc('moderate_vote', {
+    p_vote_id: voteId,
+    p_decision: decision,
+    p_note: note ?? null
+  });
+
+  if (error) {
+    console.error("Error moderating vote:", error);
+    throw new Error(`Failed to ${decision} vote: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Get the most recent moderation audit trail entries, newest first
+ */
+export async function getVoteModerationEvents(limit = 50): Promise<VoteModerationEvent[]> {
+  try {
+    const { data, error } = await supabase
+      .from('vote_moderation_events')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("Error fetching vote moderation events:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getVoteModerationEvents:", error);
+    return [];
+  }
+}
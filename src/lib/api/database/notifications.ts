@@ -0,0 +1,143 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type Notification = Database['public']['Tables']['notifications']['Row'];
+
+export type NotificationPreferences = Database['public']['Tables']['notification_preferences']['Row'];
+
+export type NotificationPreferencesUpdate = Omit<
+  Database['public']['Tables']['notification_preferences']['Insert'],
+  'user_id' | 'last_digest_at' | 'updated_at'
+>;
+
+/**
+ * Defaults for users who never saved preferences; matches the column defaults
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: Omit<NotificationPreferences, 'user_id' | 'last_digest_at' | 'updated_at'> = {
+  show_announced: true,
+  voting_open: true,
+  voting_closed: true,
+  prediction_played: true,
+  setlist_posted: true,
+  email_digest: 'weekly'
+};
+
+/**
+ * Get the user's most recent notifications, newest first
+ */
+export async function getNotifications(userId: string, limit = 20): Promise<Notification[]> {
+  try {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("Error fetching notifications:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getNotifications:", error);
+    return [];
+  }
+}
+
+/**
+ * Count the user's unread notifications
+ */
+export async function getUnreadNotificationCount(userId: string): Promise<number> {
+  try {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) {
+      console.error("Error counting unread notifications:", error);
+      return 0;
+    }
+
+    return count || 0;
+  } catch (error) {
+    console.error("Error in getUnreadNotificationCount:", error);
+    return 0;
+  }
+}
+
+/**
+ * Mark notifications read: the given ones, or all of the user's unread
+ * notifications
+ */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<void> {
+  let query = supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (ids) {
+    query = query.in('id', ids);
+  }
+
+  const { error } = await query;
+
+  if (error) {
+    console.error("Error marking notifications read:", error);
+    throw new Error(`Failed to mark notifications read: ${error.message}`);
+  }
+}
+
+/**
+ * Get the user's notification preferences, or the defaults if they never
+ * saved any
+ */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const defaults = { ...DEFAULT_NOTIFICATION_PREFERENCES, user_id: userId, last_digest_at: null, updated_at: '' };
+
+  try {
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching notification preferences:", error);
+      return defaults;
+    }
+
+    return data ?? defaults;
+  } catch (error) {
+    console.error("Error in getNotificationPreferences:", error);
+    return defaults;
+  }
+}
+
+/**
+ * Save the user's notification preferences
+ */
+export async function saveNotificationPreferences(
+  userId: string,
+  preferences: NotificationPreferencesUpdate
+): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert(
+      { ...preferences, user_id: userId, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error saving notification preferences:", error);
+    throw new Error(`Failed to save notification preferences: ${error.message}`);
+  }
+
+  return data;
+}
@@ -0,0 +1,103 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type PlaylistMode = 'voted' | 'played';
+
+export type SetlistPlaylist = Database['public']['Tables']['setlist_playlists']['Row'];
+
+export type PlaylistTrack = Database['public']['Functions']['get_setlist_playlist_tracks']['Returns'][number];
+
+export const DEFAULT_PLAYLIST_TRACK_LIMIT = 20;
+
+/**
+ * Get the tracks for a show's playlist in playlist order: the fan-voted top
+ * songs, or the setlist that was played
+ */
+export async function getPlaylistTracks(
+  showId: string,
+  mode: PlaylistMode,
+  limit = DEFAULT_PLAYLIST_TRACK_LIMIT
+): Promise<PlaylistTrack[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_setlist_playlist_tracks', {
+      p_show_id: showId,
+      p_mode: mode,
+      p_limit: limit
+    });
+
+    if (error) {
+      console.error("Error fetching playlist tracks:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getPlaylistTracks:", error);
+    return [];
+  }
+}
+
+/**
+ * Get the user's exported playlists for a show, keyed by mode
+ */
+export async function getSetlistPlaylists(
+  showId: string,
+  userId: string
+): Promise<Partial<Record<PlaylistMode, SetlistPlaylist>>> {
+  try {
+    const { data, error } = await supabase
+      .from('setlist_playlists')
+      .select('*')
+      .eq('show_id', showId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error("Error fetching setlist playlists:", error);
+      return {};
+    }
+
+    return Object.fromEntries((data || []).map(playlist => [playlist.mode, playlist]));
+  } catch (error) {
+    console.error("Error in getSetlistPlaylists:", error);
+    return {};
+  }
+}
+
+/**
+ * Record the Spotify playlist a show was exported to, and what it holds
+ */
+export async function saveSetlistPlaylist(
+  playlist: Database['public']['Tables']['setlist_playlists']['Insert']
+): Promise<SetlistPlaylist> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('setlist_playlists')
+    .upsert(
+      { ...playlist, last_synced_at: now, updated_at: now },
+      { onConflict: 'show_id,user_id,mode' }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error saving setlist playlist:", error);
+    throw new Error(`Failed to save setlist playlist: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Save the signed-in user's Spotify refresh token, so their playlists can be
+ * synced on the server. Failures are logged, not thrown: the export itself
+ * has already succeeded.
+ */
+export async function saveSpotifyConnection(refreshToken: string): Promise<void> {
+  const { error } = await supabase.rpc('save_spotify_connection', {
+    p_refresh_token: refreshToken
+  });
+
+  if (error) {
+    console.error("Error saving Spotify connection:", error);
+  }
+}
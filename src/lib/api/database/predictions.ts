@@ -0,0 +1,187 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Json } from "@/integrations/supabase/types";
+
+export type PredictionSlot = 'opener' | 'main' | 'closer' | 'encore';
+
+// submit_setlist_prediction rejects longer ballots
+export const MAX_PREDICTION_SONGS = 30;
+
+export interface PredictionEntry {
+  song_id: string;
+  slot: PredictionSlot;
+}
+
+export interface ConsensusSong {
+  id: string;
+  song_id: string | null;
+  name: string;
+  consensus_rank: number;
+  consensus_score: number;
+  consensus_slot: PredictionSlot | null;
+  prediction_count: number;
+  vote_count: number | null;
+}
+
+export type PredictionScore = Database['public']['Tables']['prediction_scores']['Row'];
+export type ShowCrowdScore = Database['public']['Tables']['show_crowd_scores']['Row'];
+
+export interface UserPredictionScore extends PredictionScore {
+  show: { id: string; name: string; date: string | null } | null;
+}
+
+/**
+ * Turn a main set and an encore into the ordered ballot submit_setlist_prediction expects.
+ * The first song of the main set is the opener and the last one the closer.
+ */
+export function buildPredictionEntries(mainSet: string[], encore: string[] = []): PredictionEntry[] {
+  const main = mainSet.map((songId, index): PredictionEntry => {
+    let slot: PredictionSlot = 'main';
+    if (index === 0) slot = 'opener';
+    else if (index === mainSet.length - 1) slot = 'closer';
+    return { song_id: songId, slot };
+  });
+
+  return [
+    ...main,
+    ...encore.map((songId): PredictionEntry => ({ song_id: songId, slot: 'encore' }))
+  ];
+}
+
+/**
+ * Save the signed-in user's ranked prediction for a setlist, replacing any
+ * earlier one, and recompute the consensus
+ */
+export async function submitSetlistPrediction(setlistId: string, entries: PredictionEntry[]) {
+  try {
+    const { data, error } = await supabase.rpc('submit_setlist_prediction', {
+      p_setlist_id: setlistId,
+      p_songs: entries as unknown as Json
+    });
+
+    if (error) {
+      console.error("Error submitting setlist prediction:", error);
+      throw new Error(`Failed to submit prediction: ${error.message}`);
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Error in submitSetlistPrediction:", error);
+    throw error;
+  }
+}
+
+/**
+ * Get a user's prediction for a setlist in ballot order, or null if they have not made one
+ */
+export async function getUserPrediction(setlistId: string, userId: string): Promise<PredictionEntry[] | null> {
+  try {
+    const { data: prediction, error } = await supabase
+      .from('setlist_predictions')
+      .select('id, setlist_prediction_songs(song_id, position, slot)')
+      .eq('setlist_id', setlistId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching setlist prediction:", error);
+      return null;
+    }
+
+    if (!prediction) return null;
+
+    return [...(prediction.setlist_prediction_songs || [])]
+      .sort((a, b) => a.position - b.position)
+      .map(entry => ({ song_id: entry.song_id, slot: entry.slot as PredictionSlot }));
+  } catch (error) {
+    console.error("Error in getUserPrediction:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the Borda consensus for a setlist, best-ranked songs first
+ */
+export async function getSetlistConsensus(setlistId: string): Promise<ConsensusSong[]> {
+  try {
+    const { data, error } = await supabase
+      .from('setlist_songs')
+      .select('id, song_id, name, consensus_rank, consensus_score, consensus_slot, prediction_count, vote_count')
+      .eq('setlist_id', setlistId)
+      .not('consensus_rank', 'is', null)
+      .order('consensus_rank', { ascending: true });
+
+    if (error) {
+      console.error("Error fetching setlist consensus:", error);
+      return [];
+    }
+
+    return (data || []).map(song => ({
+      ...song,
+      consensus_rank: song.consensus_rank as number,
+      consensus_score: Number(song.consensus_score),
+      consensus_slot: song.consensus_slot as PredictionSlot | null
+    }));
+  } catch (error) {
+    console.error("Error in getSetlistConsensus:", error);
+    return [];
+  }
+}
+
+/**
+ * Get post-show results: the crowd accuracy and every scored prediction, best first.
+ * crowd is null until the played setlist has been synced and scored.
+ */
+export async function getShowPredictionResults(showId: string): Promise<{
+  crowd: ShowCrowdScore | null;
+  scores: PredictionScore[];
+}> {
+  try {
+    const [crowdResult, scoresResult] = await Promise.all([
+      supabase.from('show_crowd_scores').select('*').eq('show_id', showId).maybeSingle(),
+      supabase
+        .from('prediction_scores')
+        .select('*')
+        .eq('show_id', showId)
+        .order('total_score', { ascending: false })
+    ]);
+
+    if (crowdResult.error) {
+      console.error("Error fetching crowd score:", crowdResult.error);
+    }
+    if (scoresResult.error) {
+      console.error("Error fetching prediction scores:", scoresResult.error);
+    }
+
+    return {
+      crowd: crowdResult.data ?? null,
+      scores: scoresResult.data ?? []
+    };
+  } catch (error) {
+    console.error("Error in getShowPredictionResults:", error);
+    return { crowd: null, scores: [] };
+  }
+}
+
+/**
+ * Get a user's scored predictions across shows, most recent first
+ */
+export async function getUserPredictionScores(userId: string, limit = 20): Promise<UserPredictionScore[]> {
+  try {
+    const { data, error } = await supabase
+      .from('prediction_scores')
+      .select('*, show:shows(id, name, date)')
+      .eq('user_id', userId)
+      .order('scored_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("Error fetching user prediction scores:", error);
+      return [];
+    }
+
+    return (data || []) as UserPredictionScore[];
+  } catch (error) {
+    console.error("Error in getUserPredictionScores:", error);
+    return [];
+  }
+}
@@ -1,4 +1,6 @@
 import { supabase } from "@/integrations/supabase/client";
+import { resolveArtist } from "./artist-identifiers";
+import { linkTicketmasterGenres } from "./genres";
 
 /**
  * Save show to database
@@ -92,6 +94,13 @@ export async function saveShowToDatabase(show: any) {
       }
       
       console.log(`Successfully saved show ${show.name} to database: ${data ? 'Success' : 'No data returned'}`);
+      
+      // Link the artist to the event's Ticketmaster genres; callers may pass the attraction ID
+      if (show.artist_id && (showData.genre_ids.length > 0 || show.genre_names?.length > 0)) {
+        const artistId = await resolveArtist({ ticketmasterId: show.artist_id }) || show.artist_id;
+        await linkTicketmasterGenres(artistId, showData.genre_ids, show.genre_names);
+      }
+      
       return data?.[0] || showData;
     } catch (saveError) {
       console.error("Error in saveShowToDatabase:", saveError);
@@ -320,3 +329,20 @@ export async function getShowsByVenue(venueId: string) {
     return [];
   }
 }
+
+/**
+ * Count a view of a show page towards its trending score. The database
+ * counts each visitor once a day per show, telling visitors apart by their
+ * session or IP, so call this from the browser.
+ */
+export async function recordShowView(showId: string) {
+  try {
+    const { error } = await supabase.rpc('record_show_view', { p_show_id: showId });
+
+    if (error) {
+      console.error(`Error recording show view: ${error.message}`);
+    }
+  } catch (error) {
+    console.error(`Error in recordShowView: ${(error as Error).message}`);
+  }
+}
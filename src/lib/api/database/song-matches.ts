@@ -0,0 +1,72 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type SongMatchReview = Database['public']['Functions']['get_song_match_reviews']['Returns'][number];
+
+export type ArtistSong = Pick<Database['public']['Tables']['songs']['Row'], 'id' | 'name'>;
+
+/**
+ * Get setlist.fm songs the sync could not confidently match to the catalog,
+ * most frequent first. Admin only.
+ */
+export async function getSongMatchReviews(limit = 100): Promise<SongMatchReview[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_song_match_reviews', { p_limit: limit });
+
+    if (error) {
+      console.error("Error fetching song match reviews:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getSongMatchReviews:", error);
+    return [];
+  }
+}
+
+/**
+ * Link a reviewed setlist.fm title to a catalog song, or dismiss it when no
+ * song is given. Returns the number of played songs that were linked.
+ */
+export async function resolveSongMatch(
+  reviewId: string,
+  songId: string | null,
+  note?: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc('resolve_song_match', {
+    p_review_id: reviewId,
+    p_song_id: songId,
+    p_note: note ?? null
+  });
+
+  if (error) {
+    console.error("Error resolving song match:", error);
+    throw new Error(`Failed to ${songId ? 'link' : 'dismiss'} song match: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Get an artist's catalog songs by name, for picking a different match
+ */
+export async function getArtistSongs(artistId: string): Promise<ArtistSong[]> {
+  try {
+    const { data, error } = await supabase
+      .from('songs')
+      .select('id, name')
+      .eq('artist_id', artistId)
+      .order('name');
+
+    if (error) {
+      console.error("Error fetching artist songs:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getArtistSongs:", error);
+    return [];
+  }
+}
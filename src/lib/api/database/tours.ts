@@ -0,0 +1,145 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type Tour = Database['public']['Tables']['tours']['Row'];
+
+export type TourWithArtist = Tour & {
+  artist: Pick<Database['public']['Tables']['artists']['Row'], 'id' | 'name' | 'image_url'> | null;
+};
+
+export type TourSummary = Database['public']['Functions']['get_tour_summary']['Returns'][number];
+
+export type TourSongStat = Database['public']['Functions']['get_tour_song_stats']['Returns'][number];
+
+export type TourUnplayedSong = Database['public']['Functions']['get_tour_unplayed_songs']['Returns'][number];
+
+export type LikelySetlistSong = Database['public']['Functions']['get_likely_setlist']['Returns'][number];
+
+type RotationSlotRow = Database['public']['Functions']['get_tour_rotation_slots']['Returns'][number];
+
+export type TourRotationSlot = Omit<RotationSlotRow, 'songs'> & {
+  songs: { name: string; times_played: number }[];
+};
+
+/**
+ * Get a tour with its artist
+ */
+export async function getTour(tourId: string): Promise<TourWithArtist | null> {
+  try {
+    const { data, error } = await supabase
+      .from('tours')
+      .select('*, artist:artists(id, name, image_url)')
+      .eq('id', tourId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching tour:", error);
+      return null;
+    }
+
+    return data as TourWithArtist | null;
+  } catch (error) {
+    console.error("Error in getTour:", error);
+    return null;
+  }
+}
+
+/**
+ * Get nights played, upcoming nights and average set length for a tour
+ */
+export async function getTourSummary(tourId: string): Promise<TourSummary | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_tour_summary', { p_tour_id: tourId });
+
+    if (error) {
+      console.error("Error fetching tour summary:", error);
+      return null;
+    }
+
+    return data?.[0] ?? null;
+  } catch (error) {
+    console.error("Error in getTourSummary:", error);
+    return null;
+  }
+}
+
+/**
+ * Get how often each song has been played on a tour and where it sits in
+ * the set, most-played first
+ */
+export async function getTourSongStats(tourId: string): Promise<TourSongStat[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_tour_song_stats', { p_tour_id: tourId });
+
+    if (error) {
+      console.error("Error fetching tour song stats:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getTourSongStats:", error);
+    return [];
+  }
+}
+
+/**
+ * Get the set positions that rotate between songs from night to night
+ */
+export async function getTourRotationSlots(tourId: string): Promise<TourRotationSlot[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_tour_rotation_slots', { p_tour_id: tourId });
+
+    if (error) {
+      console.error("Error fetching tour rotation slots:", error);
+      return [];
+    }
+
+    return (data || []).map(slot => ({
+      ...slot,
+      songs: (slot.songs as unknown as TourRotationSlot['songs']) || []
+    }));
+  } catch (error) {
+    console.error("Error in getTourRotationSlots:", error);
+    return [];
+  }
+}
+
+/**
+ * Get the artist's songs that haven't been played on a tour yet
+ */
+export async function getTourUnplayedSongs(tourId: string, limit = 20): Promise<TourUnplayedSong[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_tour_unplayed_songs', { p_tour_id: tourId, p_limit: limit });
+
+    if (error) {
+      console.error("Error fetching unplayed tour songs:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getTourUnplayedSongs:", error);
+    return [];
+  }
+}
+
+/**
+ * Get the likely setlist for an upcoming show from its tour's played
+ * setlists. Empty when the show isn't on a tour with played setlists yet.
+ */
+export async function getLikelySetlist(showId: string): Promise<LikelySetlistSong[]> {
+  try {
+    const { data, error } = await supabase.rpc('get_likely_setlist', { p_show_id: showId });
+
+    if (error) {
+      console.error("Error fetching likely setlist:", error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error("Error in getLikelySetlist:", error);
+    return [];
+  }
+}
@@ -1,5 +1,6 @@
 
 import { supabase } from "@/integrations/supabase/client";
+import { parseVenueCoordinates } from "@/lib/geo";
 
 /**
  * Save venue to database
@@ -51,6 +52,7 @@ export async function saveVenueToDatabase(venue: any) {
     }
     
     // Prepare venue data for upsert
+    const coordinates = parseVenueCoordinates(venue.location ?? venue);
     const venueData = {
       id: venue.id,
       name: venue.name,
@@ -63,7 +65,8 @@ export async function saveVenueToDatabase(venue: any) {
       ticket_url: venue.ticket_url || venue.ticketUrl,
       website: venue.website || venue.url,
       capacity: venue.capacity || null,
-      location: venue.location,
+      // location is derived from these in the database
+      ...(coordinates ? { latitude: coordinates.latitude, longitude: coordinates.longitude } : {}),
       updated_at: new Date().toISOString()
     };
     
@@ -1,63 +1,57 @@
 import { supabase } from "@/integrations/supabase/client";
+import { retry } from "@/lib/retry";
+import type { VoteAction, VoteResult } from "@/lib/api/vote-service";
+
+export interface SubmitVoteResponse extends VoteResult {
+  ok: boolean;
+  anonymous: boolean;
+  message?: string;
+  error?: string;
+}
 
 /**
- * Add a vote to a setlist song, handling duplicate votes
+ * Authorization header for /api/vote when signed in, so the route can tell
+ * account votes from anonymous ones
  */
-export async function addVoteToSong(songId: string, userId: string) {
-  try {
-    // Check if user has already voted for this song
-    const { data: existingVote, error: checkError } = await supabase
-      .from('user_votes')
-      .select('id')
-      .eq('setlist_song_id', songId)
-      .eq('user_id', userId)
-      .maybeSingle();
-    
-    if (checkError) {
-      console.error("Error checking existing vote:", checkError);
-      throw new Error(`Failed to check existing vote: ${checkError.message}`);
-    }
-    
-    if (existingVote) {
-      console.log(`User ${userId} has already voted for song ${songId}`);
-      return { success: false, message: "You've already voted for this song" };
-    }
-    
-    // Create the vote in a transaction with incrementing the vote count
-    const { data, error } = await supabase.rpc('add_song_vote', {
-      p_song_id: songId,
-      p_user_id: userId
-    });
-    
-    if (error) {
-      console.error("Error adding vote:", error);
-      throw new Error(`Failed to add vote: ${error.message}`);
-    }
-    
-    console.log(`Vote added successfully for song ${songId} by user ${userId}`);
-    
-    // Get updated song details to return
-    const { data: updatedSong, error: songError } = await supabase
-      .from('setlist_songs')
-      .select('id, title, votes, setlist_id')
-      .eq('id', songId)
-      .single();
-    
-    if (songError) {
-      console.error("Error fetching updated song:", songError);
-      return { success: true, message: "Vote recorded", votes: null };
-    }
-    
-    return { 
-      success: true, 
-      message: "Vote recorded successfully", 
-      votes: updatedSong.votes,
-      song: updatedSong
-    };
-  } catch (error) {
-    console.error("Error in addVoteToSong:", error);
-    throw error;
+export async function getVoteHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
+
+/**
+ * Cast or remove a vote through /api/vote, the one vote write path.
+ * A network failure is retried with the same idempotency key, so the vote
+ * is never counted twice. Returns the new tally and the remaining budget.
+ */
+export async function submitVote(
+  songId: string,
+  action: VoteAction = 'increment',
+  idempotencyKey: string = crypto.randomUUID()
+): Promise<SubmitVoteResponse> {
+  const headers = {
+    'Content-Type': 'application/json',
+    'Idempotency-Key': idempotencyKey,
+    ...(await getVoteHeaders()),
+  };
+
+  const response = await retry(
+    () => fetch('/api/vote', {
+      method: 'POST',
+      headers,
+      credentials: 'same-origin',
+      body: JSON.stringify({ songId, action }),
+    }),
+    { retries: 3, delay: 500 }
+  );
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok && response.status >= 500) {
+    console.error("Error submitting vote:", result.error);
+    throw new Error(`Failed to submit vote: ${result.error || response.statusText}`);
   }
+
+  return { ...result, ok: response.ok };
 }
 
 /**
@@ -87,10 +81,10 @@ export async function getSetlistWithVotes(setlistId: string, userId?: string) {
     
     // Get all songs the user has voted for in this setlist
     const { data: userVotes, error: votesError } = await supabase
-      .from('user_votes')
-      .select('setlist_song_id')
+      .from('votes')
+      .select('song_id')
       .eq('user_id', userId)
-      .in('setlist_song_id', songs.map(song => song.id));
+      .in('song_id', songs.map(song => song.id));
     
     if (votesError) {
       console.error("Error fetching user votes:", votesError);
@@ -101,7 +95,7 @@ export async function getSetlistWithVotes(setlistId: string, userId?: string) {
     }
     
     // Create a set of song IDs the user has voted for
-    const votedSongIds = new Set(userVotes.map(vote => vote.setlist_song_id));
+    const votedSongIds = new Set(userVotes.map(vote => vote.song_id));
     
     // Add hasVoted flag to each song
     return songs.map(song => ({
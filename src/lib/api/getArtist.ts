@@ -1,6 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import { getArtistTopTracks as fetchSpotifyTopTracks } from '@/lib/spotify/top-tracks';
 import { SpotifyTrack, SpotifyTracksResponse } from '@/lib/spotify/types';
+import { buildProviderUrl, spotifyAccountsBaseUrl, spotifyApiBaseUrl } from '@/lib/sync/providers/base';
 
 // Cache durations in milliseconds
 const CACHE_DURATIONS = {
@@ -196,7 +197,7 @@ async function fetchSpotifyArtist(artistId: string): Promise<SpotifyArtist | nul
     }
     
     // Get access token
-    const tokenResponse = await fetch('https://accounts.spotify.com/api/token', {
+    const tokenResponse = await fetch(buildProviderUrl(spotifyAccountsBaseUrl(), 'api/token').toString(), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -212,7 +213,7 @@ async function fetchSpotifyArtist(artistId: string): Promise<SpotifyArtist | nul
     const { access_token } = await tokenResponse.json();
     
     // Get artist data
-    const artistResponse = await fetch(`https://api.spotify.com/v1/artists/${artistId}`, {
+    const artistResponse = await fetch(buildProviderUrl(spotifyApiBaseUrl(), `artists/${artistId}`).toString(), {
       headers: { 'Authorization': `Bearer ${access_token}` }
     });
     
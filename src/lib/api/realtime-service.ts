@@ -1,5 +1,6 @@
 import { supabase, subscribeToTable, subscribeToRecord } from "@/integrations/supabase/client";
 import { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { submitVote } from "./database/votes";
 
 /**
  * Creates a real-time connection for voting on a show
@@ -70,40 +71,16 @@ export function createRealtimeVotingConnection(showId: string) {
     /**
      * Send a vote for a song
      * @param songId The ID of the song to vote for
-     * @param userId The ID of the user voting
-     * @returns A promise that resolves when the vote is sent
+     * @returns A promise that resolves when the vote is recorded
      */
-    sendVote: async (songId: string, userId: string) => {
-      console.log(`Sending vote for song ${songId} by user ${userId}`);
+    sendVote: async (songId: string) => {
+      console.log(`Sending vote for song ${songId}`);
       
       try {
-        // For authenticated users, create a vote record
-        if (userId) {
-          const { error: voteError } = await supabase
-            .from('votes')
-            .insert({
-              setlist_song_id: songId,
-              user_id: userId
-            });
-            
-          if (voteError) throw voteError;
-        }
-        
-        // Increment the vote count on the song
-        const { error: updateError } = await supabase
-          .from('setlist_songs')
-          .select('votes')
-          .eq('id', songId)
-          .single();
-          
-        if (updateError) throw updateError;
-        
-        // Use RPC to increment the vote (this will trigger the realtime update)
-        const { error: rpcError } = await supabase.rpc('increment_votes', {
-          song_id: songId
-        });
+        // The vote service updates vote_count, which triggers the realtime update
+        const result = await submitVote(songId);
         
-        if (rpcError) throw rpcError;
+        if (!result.ok) throw new Error(result.error || 'Failed to record vote');
         
         return Promise.resolve();
       } catch (error) {
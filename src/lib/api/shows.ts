@@ -1,5 +1,7 @@
 import { retryableFetch } from '@/lib/retry';
+import { buildProviderUrl, ticketmasterBaseUrl } from '@/lib/sync/providers/base';
 import type { Show, Artist, Venue as AppVenue } from '@/lib/types';
+import { genreShowToShow, getGenreUpcomingShows } from '@/lib/api/database/genres';
 
 // Type for Ticketmaster Image object (duplicate from shared types, consider consolidating later)
 interface TicketmasterImage {
@@ -91,7 +93,7 @@ export async function fetchShowDetails(showId: string): Promise<Show | null> {
     }
 
     const response: TicketmasterEvent = await retryableFetch(async () => {
-      const url = `https://app.ticketmaster.com/discovery/v2/events/${showId}.json?apikey=${apiKey}`;
+      const url = buildProviderUrl(ticketmasterBaseUrl(), `events/${showId}.json`, { apikey: apiKey });
       const result = await fetch(url, { headers: { 'Accept': 'application/json' } });
       if (!result.ok) {
          if (result.status === 404) return null; // Return null if show not found
@@ -121,6 +123,12 @@ export async function fetchShowsByGenre(
   try {
     if (!genre) return [];
 
+    // Stored shows by artists in this genre first; Ticketmaster when there are none yet
+    const storedShows = await getGenreUpcomingShows(genre, size);
+    if (storedShows.length > 0) {
+      return storedShows.map(genreShowToShow);
+    }
+
     const apiKey = import.meta.env.VITE_TICKETMASTER_API_KEY;
     if (!apiKey) {
       console.error("VITE_TICKETMASTER_API_KEY not configured");
@@ -128,7 +136,13 @@ export async function fetchShowsByGenre(
     }
 
     const response = await retryableFetch(async () => {
-      const url = `https://app.ticketmaster.com/discovery/v2/events.json?apikey=${apiKey}&classificationName=${encodeURIComponent(genre)}&size=${size}&startDateTime=${fromDate}T00:00:00Z&sort=date,asc`;
+      const url = buildProviderUrl(ticketmasterBaseUrl(), 'events.json', {
+        apikey: apiKey,
+        classificationName: genre,
+        size,
+        startDateTime: `${fromDate}T00:00:00Z`,
+        sort: 'date,asc'
+      });
       const result = await fetch(url, { headers: { 'Accept': 'application/json' } });
       if (!result.ok) {
         throw new Error(`Ticketmaster API error: ${result.status} ${result.statusText}`);
@@ -2,6 +2,7 @@ import { toast } from "sonner";
 import { callTicketmasterApi } from "../ticketmaster-config";
 import { supabase } from "@/integrations/supabase/client";
 import { ErrorSource, handleError } from "@/lib/error-handling";
+import { linkArtistIdentifiers, resolveArtist } from "@/lib/api/database/artist-identifiers";
 
 interface TicketmasterImage {
   ratio: string;
@@ -243,18 +244,26 @@ export async function fetchFeaturedShows(limit = 4): Promise<ProcessedShow[]> {
     Promise.all(
       topShows.map(async (show) => {
         const syncResults = [];
+        let artistId = show.artist_id;
         
         // 1. Save the artist
         if (show.artist) {
+          // Reuse the canonical artist if Ticketmaster's ID (or the name) is already known
+          const canonicalId = await resolveArtist({ name: show.artist.name, ticketmasterId: show.artist.id });
+          artistId = canonicalId || artistId;
+          
           // Extract only database fields for artist
           const artistData = {
-            id: show.artist.id,
+            id: canonicalId || show.artist.id,
             name: show.artist.name,
             image_url: show.artist.image_url || null,
             genres: Array.isArray(show.artist.genres) ? show.artist.genres : null
           };
           
           const artistSaved = await saveToSupabase('artists', artistData, 'id');
+          if (artistSaved && !canonicalId) {
+            await linkArtistIdentifiers(artistData.id, { ticketmasterId: show.artist.id });
+          }
           syncResults.push({ type: 'artist', success: artistSaved });
         }
         
@@ -278,7 +287,7 @@ export async function fetchFeaturedShows(limit = 4): Promise<ProcessedShow[]> {
           id: show.id,
           name: show.name,
           date: show.date,
-          artist_id: show.artist_id,
+          artist_id: artistId,
           venue_id: show.venue_id,
           ticket_url: show.ticket_url || null,
           image_url: show.image_url || null,
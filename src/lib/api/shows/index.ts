@@ -5,3 +5,4 @@ export { fetchShowDetails } from './show-details';
 export { fetchVenueDetails } from './venue-details';
 export { fetchShowsByGenre } from './shows-by-genre';
 export { fetchFeaturedShows } from './featured-shows';
+export { fetchNearbyShows } from './nearby-shows';
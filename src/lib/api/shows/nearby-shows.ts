@@ -0,0 +1,25 @@
+import { Coordinates, DEFAULT_NEARBY_RADIUS_KM } from "@/lib/geo";
+
+/**
+ * Fetch upcoming shows near a point from /api/shows/nearby, soonest first
+ */
+export async function fetchNearbyShows(
+  coordinates: Coordinates,
+  radiusKm = DEFAULT_NEARBY_RADIUS_KM,
+  limit = 24
+): Promise<any[]> {
+  const params = new URLSearchParams({
+    lat: String(coordinates.latitude),
+    lng: String(coordinates.longitude),
+    radius: String(radiusKm),
+    limit: String(limit)
+  });
+
+  const response = await fetch(`/api/shows/nearby?${params}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `Failed to fetch nearby shows: ${response.status}`);
+  }
+
+  return response.json();
+}
@@ -1,62 +1,17 @@
 import { callTicketmasterApi } from "../ticketmaster-config";
-import { supabase } from "@/integrations/supabase/client";
-import { saveArtistToDatabase, saveShowToDatabase, saveVenueToDatabase } from "../database-utils";
+import { saveArtistToDatabase, saveShowToDatabase, saveVenueToDatabase } from "../database";
+import { genreShowToShow, getGenreUpcomingShows } from "../database/genres";
 
 /**
  * Fetch upcoming shows by genre
  */
 export async function fetchShowsByGenre(genreId: string, limit = 8): Promise<any[]> {
   try {
-    // First check if we have shows in the database for this genre
-    const { data: dbShows, error: dbError } = await supabase
-      .from('shows')
-      .select(`
-        id, 
-        name, 
-        date, 
-        artist_id,
-        venue_id,
-        ticket_url,
-        image_url,
-        genre_ids
-      `)
-      .contains('genre_ids', [genreId])
-      .gte('date', new Date().toISOString())
-      .order('date', { ascending: true })
-      .limit(limit);
+    // First check the shows of artists in this genre (see the genres taxonomy)
+    const dbShows = await getGenreUpcomingShows(genreId, limit);
     
-    if (dbError) {
-      console.error("Error fetching shows by genre from database:", dbError);
-    }
-    
-    // If we have shows in the database, enrich them with artist and venue data
-    if (dbShows && dbShows.length > 0) {
-      const enrichedShows = await Promise.all(dbShows.map(async (show) => {
-        const [artistResult, venueResult] = await Promise.all([
-          show.artist_id ? supabase
-            .from('artists')
-            .select('*')
-            .eq('id', show.artist_id)
-            .maybeSingle() : null,
-          show.venue_id ? supabase
-            .from('venues')
-            .select('*')
-            .eq('id', show.venue_id)
-            .maybeSingle() : null
-        ]);
-        
-        return {
-          id: show.id,
-          name: show.name,
-          date: show.date,
-          artist: artistResult?.data || null,
-          venue: venueResult?.data || null,
-          ticket_url: show.ticket_url,
-          image_url: show.image_url
-        };
-      }));
-      
-      return enrichedShows;
+    if (dbShows.length > 0) {
+      return dbShows.map(genreShowToShow);
     }
     
     // Fetch from Ticketmaster API
@@ -91,8 +46,9 @@ export async function fetchShowsByGenre(genreId: string, limit = 8): Promise<any
           genres: [event.classifications?.[0]?.genre?.name].filter(Boolean)
         };
         
-        // Save artist to database
-        await saveArtistToDatabase(artistData);
+        // Save artist to database, keeping the canonical artist id for the show
+        const savedArtist = await saveArtistToDatabase(artistData);
+        artistId = savedArtist?.id || artistId;
       } else {
         // Fallback to extracting from event name
         artistName = event.name.split(' at ')[0].split(' - ')[0].trim();
@@ -132,7 +88,8 @@ export async function fetchShowsByGenre(genreId: string, limit = 8): Promise<any
         venue_id: venueId,
         ticket_url: event.url,
         image_url: event.images.find((img: any) => img.ratio === "16_9" && img.width > 500)?.url,
-        genre_ids: [genreId]
+        genre_ids: [genreId],
+        genre_names: [event.classifications?.[0]?.genre?.name, event.classifications?.[0]?.subGenre?.name].filter(Boolean)
       };
       
       // Save show to database
@@ -1,4 +1,5 @@
 import { ErrorSource, handleError } from '@/lib/error-handling';
+import { ticketmasterBaseUrl } from '@/lib/sync/providers/base';
 
 // Ticketmaster API key
 const TICKETMASTER_API_KEY = import.meta.env.VITE_TICKETMASTER_API_KEY;
@@ -8,7 +9,7 @@ const isDevelopment = import.meta.env.DEV || (typeof window !== 'undefined' && w
 
 // API base URL - use direct API in development, proxy in production
 const API_BASE_URL = isDevelopment 
-  ? 'https://app.ticketmaster.com/discovery/v2/'
+  ? ticketmasterBaseUrl()
   : '/api/ticketmaster';
 
 // API request configuration
@@ -1,6 +1,7 @@
 import { supabase } from "@/integrations/supabase/client";
 import { saveArtistToDatabase, saveShowToDatabase, saveVenueToDatabase } from "./database";
 import { getArtistTopTracks } from "../spotify/top-tracks";
+import { buildProviderUrl, ticketmasterBaseUrl } from "@/lib/sync/providers/base";
 
 /**
  * VenueSyncService: Enhanced utilities for syncing venues and their shows
@@ -153,7 +154,12 @@ async function fetchVenueShowsFromTicketmaster(venueId: string) {
     
     // Make API request to Ticketmaster
     const response = await fetch(
-      `https://app.ticketmaster.com/discovery/v2/events.json?apikey=${apiKey}&venueId=${venueId}&classificationName=music&size=100`,
+      buildProviderUrl(ticketmasterBaseUrl(), 'events.json', {
+        apikey: apiKey,
+        venueId,
+        classificationName: 'music',
+        size: 100
+      }).toString(),
       {
         headers: {
           'Accept': 'application/json'
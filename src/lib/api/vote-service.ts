@@ -0,0 +1,92 @@
+import { adminClient } from "@/lib/db";
+
+/**
+ * VoteService: the single write path for setlist song votes.
+ * Every vote goes through the cast_vote database function, which records the
+ * vote, updates setlist_songs.vote_count and enforces the anonymous cap in
+ * one transaction. Requests carry an idempotency key so retries are safe.
+ * Brigading detection runs separately, from /api/cron/vote-anomalies.
+ * Server-side only: it uses the service role client.
+ */
+
+export type VoteAction = 'increment' | 'decrement';
+
+export type VoteStatus =
+  | 'recorded'
+  | 'removed'
+  | 'unchanged'
+  | 'limit_reached'
+  | 'auth_required'
+  | 'merged'
+  | 'not_found'
+  | 'conflict'
+  | 'voting_closed';
+
+export interface VoteCommand {
+  songId: string;
+  action: VoteAction;
+  idempotencyKey: string;
+  userId?: string | null;
+  anonymousSessionId?: string | null;
+  maxAnonymousVotes?: number;
+  ipHash?: string | null;
+  deviceHash?: string | null;
+}
+
+export interface VoteResult {
+  status: VoteStatus;
+  voteCount: number | null;
+  votesUsed: number | null;
+  // null for signed-in users, who are not capped
+  votesRemaining: number | null;
+}
+
+/**
+ * HTTP status for a vote outcome
+ */
+export function voteStatusCode(status: VoteStatus): number {
+  switch (status) {
+    case 'not_found':
+      return 404;
+    case 'limit_reached':
+      return 429;
+    case 'auth_required':
+    case 'merged':
+      return 401;
+    case 'conflict':
+      return 409;
+    case 'voting_closed':
+      return 403;
+    default:
+      return 200;
+  }
+}
+
+/**
+ * Record or remove a vote for a signed-in user or an anonymous session
+ */
+export async function castVote(command: VoteCommand): Promise<VoteResult> {
+  const { data, error } = await adminClient().rpc('cast_vote', {
+    p_song_id: command.songId,
+    p_action: command.action,
+    p_idempotency_key: command.idempotencyKey,
+    p_user_id: command.userId ?? null,
+    p_anonymous_session_id: command.anonymousSessionId ?? null,
+    p_max_anonymous_votes: command.maxAnonymousVotes,
+    p_ip_hash: command.ipHash ?? null,
+    p_device_hash: command.deviceHash ?? null,
+  });
+
+  if (error || !data || data.length === 0) {
+    console.error('Error casting vote:', error);
+    throw new Error(`Failed to cast vote: ${error?.message ?? 'no result'}`);
+  }
+
+  const row = data[0];
+  return {
+    status: row.status as VoteStatus,
+    voteCount: row.vote_count,
+    votesUsed: row.votes_used,
+    votesRemaining: row.votes_remaining,
+  };
+}
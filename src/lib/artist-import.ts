@@ -0,0 +1,304 @@
+/**
+ * Bulk artist imports. An admin uploads a CSV or pastes a Spotify playlist;
+ * every artist becomes a row of an import job that is resolved against
+ * Ticketmaster and Spotify (see lib/sync/artist-import.ts), previewed with
+ * its match confidence and queued for a cascade sync (see
+ * 028_artist_imports.sql). These helpers parse the inputs, score matches
+ * and summarize progress.
+ */
+import type { Database } from '@/integrations/supabase/types';
+import { titleSimilarity } from '@/lib/sync/song-matching';
+
+export const MAX_IMPORT_ROWS = 500;
+
+// A single clear candidate at or above this is queued without review
+export const AUTO_MATCH_CONFIDENCE = 0.9;
+// Candidates below this are not worth offering
+export const MIN_CANDIDATE_CONFIDENCE = 0.5;
+// A runner-up this close to the best candidate makes the row ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+
+export type ArtistImportSource = 'csv' | 'spotify_playlist';
+
+export interface ArtistImportInput {
+  name: string | null;
+  ticketmaster_id: string | null;
+  spotify_id: string | null;
+}
+
+export interface ImportCandidate {
+  ticketmaster_id: string;
+  name: string;
+  image_url: string | null;
+  upcoming_events: number;
+  confidence: number;
+}
+
+export type ImportMatchStatus = 'matched' | 'review' | 'unmatched';
+
+export type ArtistImportReportRow = Database['public']['Functions']['get_artist_import_report']['Returns'][number];
+
+export type ArtistImportOutcome =
+  | 'pending'
+  | ImportMatchStatus
+  | 'skipped'
+  | 'queued'
+  | 'syncing'
+  | 'imported'
+  | 'failed';
+
+export type CreateArtistImportRequest =
+  | { source: 'csv'; file_name?: string | null; rows: ArtistImportInput[] }
+  | { source: 'spotify_playlist'; url: string };
+
+const TICKETMASTER_ID = /^[A-Za-z0-9]{1,40}$/;
+const SPOTIFY_ID = /^[A-Za-z0-9]{22}$/;
+const SPOTIFY_URI = /^spotify:(artist|playlist):([A-Za-z0-9]{22})$/;
+const SPOTIFY_URL = /^https?:\/\/open\.spotify\.com\/(?:intl-[a-z-]+\/)?(artist|playlist)\/([A-Za-z0-9]{22})(?:[/?#].*)?$/i;
+
+/**
+ * The Spotify ID in a bare ID, a spotify: URI or an open.spotify.com link of
+ * the given kind, or null
+ */
+export function parseSpotifyId(kind: 'artist' | 'playlist', input: string): string | null {
+  const value = input.trim();
+  if (SPOTIFY_ID.test(value)) return value;
+
+  const match = value.match(SPOTIFY_URI) || value.match(SPOTIFY_URL);
+  return match && match[1].toLowerCase() === kind ? match[2] : null;
+}
+
+/**
+ * Validate a row sent to the import API. Returns null when the row has
+ * nothing to resolve or carries malformed IDs.
+ */
+export function toImportInput(raw: unknown): ArtistImportInput | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const row = raw as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+  const name = text(row.name)?.slice(0, 200) ?? null;
+  const ticketmasterId = text(row.ticketmaster_id);
+  const spotifyId = text(row.spotify_id);
+
+  if (ticketmasterId && !TICKETMASTER_ID.test(ticketmasterId)) return null;
+  if (spotifyId && !SPOTIFY_ID.test(spotifyId)) return null;
+  if (!name && !ticketmasterId && !spotifyId) return null;
+
+  return { name, ticketmaster_id: ticketmasterId, spotify_id: spotifyId };
+}
+
+/**
+ * Split CSV text into records. Handles quoted fields with commas, escaped
+ * quotes and line breaks.
+ */
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+}
+
+const HEADER_ALIASES: Record<string, keyof ArtistImportInput> = {
+  name: 'name',
+  artist: 'name',
+  artist_name: 'name',
+  ticketmaster_id: 'ticketmaster_id',
+  tm_id: 'ticketmaster_id',
+  ticketmaster: 'ticketmaster_id',
+  spotify_id: 'spotify_id',
+  spotify: 'spotify_id',
+  spotify_url: 'spotify_id',
+};
+
+const headerKey = (cell: string) => cell.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Parse an uploaded CSV of artists. With a header row the name,
+ * ticketmaster_id and spotify_id columns are read (spotify_id may be a link);
+ * without one every line is an artist name. Repeated artists are dropped and
+ * counted, and anything past MAX_IMPORT_ROWS is cut off.
+ */
+export function parseArtistImportCsv(text: string): {
+  rows: ArtistImportInput[];
+  errors: string[];
+  duplicates: number;
+} {
+  const records = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  const errors: string[] = [];
+
+  const header = records[0]?.map(cell => HEADER_ALIASES[headerKey(cell)]);
+  const hasHeader = Boolean(header?.some(Boolean));
+  const columnOf = (key: keyof ArtistImportInput) => (hasHeader ? header!.indexOf(key) : key === 'name' ? 0 : -1);
+  const columns = {
+    name: columnOf('name'),
+    ticketmaster_id: columnOf('ticketmaster_id'),
+    spotify_id: columnOf('spotify_id'),
+  };
+
+  const rows: ArtistImportInput[] = [];
+  const seen = new Set<string>();
+  let duplicates = 0;
+
+  records.slice(hasHeader ? 1 : 0).forEach((record, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const cell = (column: number) => (column >= 0 ? record[column]?.trim() || null : null);
+
+    const name = cell(columns.name);
+    const ticketmasterId = cell(columns.ticketmaster_id);
+    const spotifyValue = cell(columns.spotify_id);
+    if (!name && !ticketmasterId && !spotifyValue) return;
+
+    if (ticketmasterId && !TICKETMASTER_ID.test(ticketmasterId)) {
+      errors.push(`Line ${line}: "${ticketmasterId}" is not a Ticketmaster attraction ID`);
+      return;
+    }
+
+    const spotifyId = spotifyValue ? parseSpotifyId('artist', spotifyValue) : null;
+    if (spotifyValue && !spotifyId) {
+      errors.push(`Line ${line}: "${spotifyValue}" is not a Spotify artist ID or link`);
+      return;
+    }
+
+    const key = ticketmasterId ? `tm:${ticketmasterId}` : spotifyId ? `spotify:${spotifyId}` : `name:${normalizeArtistName(name!)}`;
+    if (seen.has(key)) {
+      duplicates++;
+      return;
+    }
+    seen.add(key);
+
+    rows.push({ name, ticketmaster_id: ticketmasterId, spotify_id: spotifyId });
+  });
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    errors.push(`Only the first ${MAX_IMPORT_ROWS} of ${rows.length} artists will be imported`);
+    rows.length = MAX_IMPORT_ROWS;
+  }
+
+  return { rows, errors, duplicates };
+}
+
+/**
+ * Normalize an artist name for comparison: accents, punctuation, case and a
+ * leading "The" are dropped, and "&" reads as "and"
+ */
+export function normalizeArtistName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’`.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+}
+
+/**
+ * Score Ticketmaster candidates for an input row, best first. A candidate
+ * with the row's own Ticketmaster ID is certain; otherwise confidence is the
+ * name similarity, and ties go to the artist with more upcoming events.
+ */
+export function scoreCandidates(
+  input: ArtistImportInput,
+  candidates: Omit<ImportCandidate, 'confidence'>[]
+): ImportCandidate[] {
+  const name = input.name ? normalizeArtistName(input.name) : '';
+
+  return candidates
+    .map(candidate => ({
+      ...candidate,
+      confidence: input.ticketmaster_id && candidate.ticketmaster_id === input.ticketmaster_id
+        ? 1
+        : Math.round(titleSimilarity(name, normalizeArtistName(candidate.name)) * 1000) / 1000,
+    }))
+    .sort((a, b) => b.confidence - a.confidence || b.upcoming_events - a.upcoming_events);
+}
+
+/**
+ * Decide whether a row can be queued as is. Candidates must be sorted best
+ * first, as scoreCandidates returns them.
+ */
+export function classifyMatch(candidates: ImportCandidate[]): {
+  status: ImportMatchStatus;
+  best: ImportCandidate | null;
+} {
+  const [best, runnerUp] = candidates;
+  if (!best || best.confidence < MIN_CANDIDATE_CONFIDENCE) {
+    return { status: 'unmatched', best: null };
+  }
+
+  const clear = !runnerUp || best.confidence - runnerUp.confidence > AMBIGUITY_MARGIN;
+  return {
+    status: best.confidence >= AUTO_MATCH_CONFIDENCE && clear ? 'matched' : 'review',
+    best,
+  };
+}
+
+export interface ArtistImportSummary {
+  total: number;
+  counts: Record<ArtistImportOutcome, number>;
+  // Rows handed to the sync queue, and how many of those have finished
+  queued: number;
+  finished: number;
+}
+
+export function summarizeImport(rows: Pick<ArtistImportReportRow, 'outcome'>[]): ArtistImportSummary {
+  const counts: Record<ArtistImportOutcome, number> = {
+    pending: 0,
+    matched: 0,
+    review: 0,
+    unmatched: 0,
+    skipped: 0,
+    queued: 0,
+    syncing: 0,
+    imported: 0,
+    failed: 0,
+  };
+  rows.forEach(row => {
+    if (row.outcome in counts) counts[row.outcome as ArtistImportOutcome]++;
+  });
+
+  const finished = counts.imported + counts.failed;
+  return {
+    total: rows.length,
+    counts,
+    queued: counts.queued + counts.syncing + finished,
+    finished,
+  };
+}
@@ -1,6 +1,7 @@
 import { createClient } from "@/integrations/supabase/server";
 import { redirect } from "next/navigation";
 import { headers } from "next/headers"; // To get current URL for redirect
+import { adminClient } from "@/lib/db";
 
 /**
  * Server-side function to verify admin privileges for a page/route.
@@ -44,4 +45,33 @@ export async function adminPageAuth() {
   console.log("[Admin Auth] Access granted.", { userId: user.id, pathname });
   // Optionally return user or profile data if needed by the calling page/route
   // return { user, profile };
-}
\ No newline at end of file
+}
+/**
+ * Verify that an API request carries the bearer token of an admin.
+ * Returns the admin's user ID, or null for anyone else.
+ */
+export async function getAdminUserId(request: Request): Promise<string | null> {
+  const authorization = request.headers.get("authorization");
+  const token = authorization?.startsWith("Bearer ") ? authorization.slice(7) : null;
+  if (!token) return null;
+
+  const client = adminClient();
+  const { data: { user }, error } = await client.auth.getUser(token);
+  if (error || !user) {
+    console.warn("[Admin Auth] Bearer token verification failed.", error?.message);
+    return null;
+  }
+
+  const { data: profile, error: profileError } = await client
+    .from("profiles")
+    .select("is_admin")
+    .eq("id", user.id)
+    .single();
+
+  if (profileError) {
+    console.error("[Admin Auth] Error fetching user profile:", profileError.message, { userId: user.id });
+    return null;
+  }
+
+  return profile?.is_admin ? user.id : null;
+}
@@ -0,0 +1,86 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Signed anonymous-session cookie for server-side anonymous voting.
+ * The cookie holds an anonymous_sessions id and an HMAC of it, so visitors
+ * cannot mint sessions of their own; the per-show vote cap is enforced in
+ * the database by cast_anonymous_vote.
+ */
+
+export const ANONYMOUS_SESSION_COOKIE = "theset_anon";
+
+// Free votes per show before an anonymous visitor has to sign up
+export const ANONYMOUS_VOTE_LIMIT = 3;
+
+// New anonymous sessions one IP may start per window. Each session gets a
+// fresh vote allowance, so without this clearing cookies resets the cap.
+export const ANONYMOUS_SESSIONS_PER_IP = 5;
+export const ANONYMOUS_SESSION_WINDOW_MS = 60 * 60 * 1000;
+
+// One year, in seconds
+export const ANONYMOUS_SESSION_MAX_AGE = 60 * 60 * 24 * 365;
+
+function getSecret(): string {
+  const secret = process.env.ANONYMOUS_SESSION_SECRET;
+  if (!secret) {
+    throw new Error("Missing environment variable: ANONYMOUS_SESSION_SECRET required for anonymous voting.");
+  }
+  return secret;
+}
+
+function sign(sessionId: string): string {
+  return createHmac("sha256", getSecret()).update(sessionId).digest("base64url");
+}
+
+/**
+ * Build the cookie value for an anonymous session id
+ */
+export function createAnonymousToken(sessionId: string): string {
+  return `${sessionId}.${sign(sessionId)}`;
+}
+
+/**
+ * Return the session id from a cookie value, or null if it is missing or
+ * the signature does not match
+ */
+export function verifyAnonymousToken(token: string | undefined | null): string | null {
+  if (!token) return null;
+
+  const separator = token.lastIndexOf(".");
+  if (separator <= 0) return null;
+
+  const sessionId = token.slice(0, separator);
+  const signature = Buffer.from(token.slice(separator + 1));
+  const expected = Buffer.from(sign(sessionId));
+
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+    return null;
+  }
+
+  return sessionId;
+}
+
+/**
+ * Hash a client IP so sessions can be grouped without storing the address
+ */
+export function hashClientIp(ip: string | null): string | null {
+  if (!ip) return null;
+  return createHash("sha256").update(`${getSecret()}:${ip}`).digest("hex");
+}
+
+/**
+ * Hash the browser's user agent and language into a device fingerprint for
+ * vote anomaly detection
+ */
+export function hashClientDevice(userAgent: string | null, acceptLanguage: string | null): string | null {
+  if (!userAgent) return null;
+  return createHash("sha256").update(`${getSecret()}:${userAgent}:${acceptLanguage ?? ""}`).digest("hex");
+}
+
+export const anonymousCookieOptions = {
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge: ANONYMOUS_SESSION_MAX_AGE,
+};
@@ -0,0 +1,74 @@
+/**
+ * Venue coordinates and "shows near me" parameters.
+ * Ticketmaster sends venue locations as strings (and sometimes 0,0 for a
+ * missing location); everything stored in venues.latitude/longitude goes
+ * through parseVenueCoordinates first. The Edge Functions carry a copy in
+ * supabase/functions/_shared/geo.ts.
+ */
+
+export const DEFAULT_NEARBY_RADIUS_KM = 50;
+export const MAX_NEARBY_RADIUS_KM = 500;
+export const DEFAULT_NEARBY_LIMIT = 50;
+export const MAX_NEARBY_LIMIT = 200;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface NearbyQuery extends Coordinates {
+  radiusKm: number;
+  limit: number;
+}
+
+type RawCoordinate = string | number | null | undefined;
+
+function parseCoordinate(value: RawCoordinate, max: number): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isFinite(parsed) || Math.abs(parsed) > max) return null;
+  return parsed;
+}
+
+/**
+ * Parse a provider location into coordinates, or null when either half is
+ * missing, out of range, or the 0,0 placeholder
+ */
+export function parseVenueCoordinates(
+  location?: { latitude?: RawCoordinate; longitude?: RawCoordinate } | null
+): Coordinates | null {
+  const latitude = parseCoordinate(location?.latitude, 90);
+  const longitude = parseCoordinate(location?.longitude, 180);
+
+  if (latitude === null || longitude === null) return null;
+  if (latitude === 0 && longitude === 0) return null;
+
+  return { latitude, longitude };
+}
+
+/**
+ * Parse the lat, lng, radius (km) and limit query parameters of
+ * /api/shows/nearby. Returns an error message for invalid input.
+ */
+export function parseNearbyQuery(params: URLSearchParams): NearbyQuery | { error: string } {
+  const coordinates = parseVenueCoordinates({
+    latitude: params.get('lat'),
+    longitude: params.get('lng'),
+  });
+  if (!coordinates) {
+    return { error: 'lat and lng must be valid coordinates' };
+  }
+
+  const radiusParam = params.get('radius');
+  const radiusKm = radiusParam === null ? DEFAULT_NEARBY_RADIUS_KM : Number(radiusParam);
+  if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_NEARBY_RADIUS_KM) {
+    return { error: `radius must be between 0 and ${MAX_NEARBY_RADIUS_KM} km` };
+  }
+
+  const limitParam = Number(params.get('limit'));
+  const limit = Number.isInteger(limitParam) && limitParam > 0
+    ? Math.min(limitParam, MAX_NEARBY_LIMIT)
+    : DEFAULT_NEARBY_LIMIT;
+
+  return { ...coordinates, radiusKm, limit };
+}
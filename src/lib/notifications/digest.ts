@@ -0,0 +1,96 @@
+import { DigestFrequency, DigestNotification, EmailMessage, NotificationType } from "./types";
+
+export const DIGEST_SECTIONS: { type: NotificationType; heading: string }[] = [
+  { type: "show_announced", heading: "New shows" },
+  { type: "voting_open", heading: "Setlist voting is open" },
+  { type: "voting_closed", heading: "Voting has closed" },
+  { type: "prediction_played", heading: "Your predictions" },
+  { type: "setlist_posted", heading: "Setlists posted" },
+];
+
+export interface DigestOptions {
+  /** Absolute site URL that notification links are resolved against */
+  siteUrl: string;
+  frequency?: Exclude<DigestFrequency, "off">;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function absoluteUrl(link: string, siteUrl: string): string {
+  return new URL(link, siteUrl.endsWith("/") ? siteUrl : `${siteUrl}/`).toString();
+}
+
+/**
+ * Group notifications into digest sections, in section order and oldest
+ * first within a section. Empty sections are left out.
+ */
+export function groupDigestNotifications(notifications: DigestNotification[]) {
+  return DIGEST_SECTIONS
+    .map(section => ({
+      ...section,
+      notifications: notifications
+        .filter(notification => notification.type === section.type)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    }))
+    .filter(section => section.notifications.length > 0);
+}
+
+/**
+ * Render one email for a batch of notifications, with plain text and HTML
+ * bodies
+ */
+export function renderDigest(
+  to: string,
+  notifications: DigestNotification[],
+  options: DigestOptions,
+): EmailMessage {
+  const { siteUrl, frequency = "weekly" } = options;
+  const sections = groupDigestNotifications(notifications);
+  const count = sections.reduce((total, section) => total + section.notifications.length, 0);
+  const preferencesUrl = absoluteUrl("/profile", siteUrl);
+
+  const subject = `Your ${frequency} TheSet digest: ${count} ${count === 1 ? "update" : "updates"}`;
+
+  const text = [
+    ...sections.flatMap(section => [
+      section.heading.toUpperCase(),
+      ...section.notifications.map(notification => [
+        `- ${notification.title}`,
+        notification.body ? `  ${notification.body}` : null,
+        notification.link ? `  ${absoluteUrl(notification.link, siteUrl)}` : null,
+      ].filter(Boolean).join("\n")),
+      "",
+    ]),
+    `Change which emails you get: ${preferencesUrl}`,
+  ].join("\n");
+
+  const html = [
+    "<!doctype html>",
+    '<html><body style="font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111;">',
+    ...sections.flatMap(section => [
+      `<h2 style="font-size: 16px; margin: 24px 0 8px;">${escapeHtml(section.heading)}</h2>`,
+      '<ul style="padding-left: 20px; margin: 0;">',
+      ...section.notifications.map(notification => {
+        const title = notification.link
+          ? `<a href="${escapeHtml(absoluteUrl(notification.link, siteUrl))}">${escapeHtml(notification.title)}</a>`
+          : escapeHtml(notification.title);
+        const body = notification.body
+          ? `<br><span style="color: #555;">${escapeHtml(notification.body)}</span>`
+          : "";
+        return `<li style="margin-bottom: 8px;">${title}${body}</li>`;
+      }),
+      "</ul>",
+    ]),
+    `<p style="font-size: 12px; color: #777; margin-top: 32px;"><a href="${escapeHtml(preferencesUrl)}">Change which emails you get</a></p>`,
+    "</body></html>",
+  ].join("\n");
+
+  return { to, subject, text, html };
+}
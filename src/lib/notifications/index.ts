@@ -0,0 +1,12 @@
+export * from "./types";
+export { renderDigest, groupDigestNotifications, DIGEST_SECTIONS } from "./digest";
+export { buildMimeMessage, sendSmtpMail, SmtpError } from "./smtp";
+export type { SmtpOptions } from "./smtp";
+export {
+  createConsoleTransport,
+  createSmtpTransport,
+  createTransportFromEnv,
+  DEFAULT_EMAIL_FROM,
+} from "./transport";
+export { sendNotificationDigests } from "./send-digests";
+export type { SendDigestsOptions, SendDigestsResult } from "./send-digests";
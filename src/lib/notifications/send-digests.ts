@@ -0,0 +1,70 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import { renderDigest } from "./digest";
+import { DigestFrequency, DigestNotification, EmailTransport } from "./types";
+
+export interface SendDigestsOptions {
+  siteUrl: string;
+  /** Most users to email in one run */
+  limit?: number;
+}
+
+export interface SendDigestsResult {
+  sent: number;
+  failed: number;
+  /** Users whose digest went out but could not be marked sent; they get it again next run */
+  unmarked: string[];
+}
+
+/**
+ * Email every user whose digest is due, then mark the notifications emailed
+ * A failed send leaves that user's notifications for the next run. A digest
+ * that was sent but could not be marked counts as failed and is listed in
+ * unmarked.
+ */
+export async function sendNotificationDigests(
+  supabase: SupabaseClient<Database>,
+  transport: EmailTransport,
+  options: SendDigestsOptions,
+): Promise<SendDigestsResult> {
+  const { data: digests, error } = await supabase.rpc("get_due_notification_digests", {
+    p_limit: options.limit ?? 100,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load due digests: ${error.message}`);
+  }
+
+  const result: SendDigestsResult = { sent: 0, failed: 0, unmarked: [] };
+
+  for (const digest of digests || []) {
+    const notifications = (digest.notifications as unknown as DigestNotification[] | null) ?? [];
+    if (notifications.length === 0) continue;
+
+    try {
+      await transport.send(renderDigest(digest.email, notifications, {
+        siteUrl: options.siteUrl,
+        frequency: digest.frequency as Exclude<DigestFrequency, "off">,
+      }));
+
+      const { error: markError } = await supabase.rpc("mark_notification_digest_sent", {
+        p_user_id: digest.user_id,
+        p_notification_ids: notifications.map(notification => notification.id),
+      });
+
+      if (markError) {
+        console.error(`Error marking digest sent for ${digest.user_id}:`, markError);
+        result.failed++;
+        result.unmarked.push(digest.user_id);
+        continue;
+      }
+
+      result.sent++;
+    } catch (sendError) {
+      console.error(`Error sending digest to ${digest.user_id} via ${transport.name}:`, sendError);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,175 @@
+import { connect as netConnect, Socket } from "net";
+import { connect as tlsConnect } from "tls";
+import { randomBytes } from "crypto";
+import { EmailMessage } from "./types";
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Connect over TLS from the start (port 465). STARTTLS is not supported. */
+  secure?: boolean;
+  auth?: { user: string; pass: string };
+  from: string;
+  /** Name sent with EHLO */
+  clientName?: string;
+  timeoutMs?: number;
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, readonly code?: number) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+function openSocket(options: SmtpOptions): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tlsConnect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : netConnect({ host: options.host, port: options.port }, () => resolve(socket));
+
+    socket.once("error", reject);
+    socket.setTimeout(options.timeoutMs ?? 30000, () => {
+      socket.destroy(new SmtpError(`SMTP connection to ${options.host}:${options.port} timed out`));
+    });
+  });
+}
+
+/**
+ * Read SMTP replies off the socket, one (possibly multi-line) reply per call
+ */
+function createReplyReader(socket: Socket): () => Promise<SmtpReply> {
+  const ready: SmtpReply[] = [];
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  let buffer = "";
+  let lines: string[] = [];
+  let failure: Error | null = null;
+
+  socket.setEncoding("utf8");
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    let end: number;
+    while ((end = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line[3] !== "-") {
+        const reply = { code: Number(line.slice(0, 3)), lines };
+        lines = [];
+        const waiter = waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else ready.push(reply);
+      }
+    }
+  });
+
+  const fail = (error: Error) => {
+    failure = failure ?? error;
+    waiting.splice(0).forEach(waiter => waiter.reject(failure as Error));
+  };
+  socket.on("error", fail);
+  socket.on("close", () => fail(new SmtpError("SMTP connection closed")));
+
+  return () => {
+    const reply = ready.shift();
+    if (reply) return Promise.resolve(reply);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(value: string): string {
+  return Buffer.from(value, "utf8").toString("base64").replace(/.{1,76}/g, "$&\r\n").trimEnd();
+}
+
+/**
+ * Build a multipart/alternative message with text and HTML parts
+ */
+export function buildMimeMessage(from: string, message: EmailMessage, date = new Date()): string {
+  const boundary = `theset-${randomBytes(12).toString("hex")}`;
+  const domain = from.split("@")[1] || "localhost";
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString("hex")}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.html),
+    `--${boundary}--`,
+  ].join("\r\n");
+}
+
+function addressOf(value: string): string {
+  return value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+}
+
+/**
+ * Send one message over SMTP
+ * Only what a relay or a local sink needs: EHLO, optional AUTH PLAIN, and
+ * implicit TLS.
+ */
+export async function sendSmtpMail(options: SmtpOptions, message: EmailMessage): Promise<void> {
+  const socket = await openSocket(options);
+  const readReply = createReplyReader(socket);
+
+  const expect = async (expected: number[], command?: string) => {
+    if (command !== undefined) socket.write(`${command}\r\n`);
+    const reply = await readReply();
+    if (!expected.includes(reply.code)) {
+      const sent = command?.startsWith("AUTH") ? "AUTH PLAIN" : command?.split("\r\n")[0];
+      throw new SmtpError(
+        `SMTP ${sent ?? "greeting"} failed: ${reply.code} ${reply.lines.join(" ")}`,
+        reply.code,
+      );
+    }
+    return reply;
+  };
+
+  try {
+    await expect([220]);
+    await expect([250], `EHLO ${options.clientName ?? "localhost"}`);
+
+    if (options.auth) {
+      const token = Buffer.from(`\0${options.auth.user}\0${options.auth.pass}`, "utf8").toString("base64");
+      await expect([235], `AUTH PLAIN ${token}`);
+    }
+
+    await expect([250], `MAIL FROM:<${addressOf(options.from)}>`);
+    await expect([250, 251], `RCPT TO:<${addressOf(message.to)}>`);
+    await expect([354], "DATA");
+
+    // Lines starting with "." are doubled so they can't end the DATA block
+    const data = buildMimeMessage(options.from, message).replace(/^\./gm, "..");
+    await expect([250], `${data}\r\n.`);
+
+    await expect([221], "QUIT").catch(() => undefined);
+  } finally {
+    socket.end();
+  }
+}
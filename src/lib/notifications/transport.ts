@@ -0,0 +1,52 @@
+import { EmailMessage, EmailTransport } from "./types";
+import { sendSmtpMail, SmtpOptions } from "./smtp";
+
+export const DEFAULT_EMAIL_FROM = "TheSet <notifications@theset.live>";
+
+/**
+ * Send email through an SMTP relay (or a local sink such as
+ * tests/fakes/smtp-sink.js)
+ */
+export function createSmtpTransport(options: SmtpOptions): EmailTransport {
+  return {
+    name: "smtp",
+    send: (message: EmailMessage) => sendSmtpMail(options, message),
+  };
+}
+
+/**
+ * Log email instead of sending it, for local development
+ */
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: "console",
+    async send(message: EmailMessage) {
+      console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+/**
+ * Pick the transport from the environment
+ * EMAIL_TRANSPORT=smtp sends through SMTP_HOST/SMTP_PORT (SMTP_SECURE=true
+ * for implicit TLS, SMTP_USER/SMTP_PASSWORD when the relay needs auth);
+ * anything else logs to the console.
+ */
+export function createTransportFromEnv(env: Record<string, string | undefined> = process.env): EmailTransport {
+  if (env.EMAIL_TRANSPORT !== "smtp") {
+    return createConsoleTransport();
+  }
+
+  if (!env.SMTP_HOST) {
+    throw new Error("EMAIL_TRANSPORT=smtp requires SMTP_HOST");
+  }
+
+  const secure = env.SMTP_SECURE === "true";
+  return createSmtpTransport({
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT) || (secure ? 465 : 25),
+    secure,
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD ?? "" } : undefined,
+    from: env.EMAIL_FROM || DEFAULT_EMAIL_FROM,
+  });
+}
@@ -0,0 +1,45 @@
+export type NotificationType =
+  | "show_announced"
+  | "voting_open"
+  | "voting_closed"
+  | "prediction_played"
+  | "setlist_posted";
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  "show_announced",
+  "voting_open",
+  "voting_closed",
+  "prediction_played",
+  "setlist_posted",
+];
+
+export type DigestFrequency = "off" | "daily" | "weekly";
+
+/**
+ * A notification as it appears in an email digest
+ */
+export interface DigestNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  link: string | null;
+  created_at: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Delivers email. Transports are swappable so production can use SMTP while
+ * local runs and tests log messages or send them to the SMTP sink in
+ * tests/fakes.
+ */
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
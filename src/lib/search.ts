@@ -0,0 +1,170 @@
+/**
+ * Unified search over artists, shows, venues and songs. Matching and ranking
+ * happen in the database (search_catalog in 025_search.sql); these helpers
+ * parse the /api/search parameters, group its ranked rows for the search
+ * page and pick the autocomplete suggestions. When the local index has
+ * little for a query, /api/search also asks Ticketmaster and queues what it
+ * finds for sync (see src/lib/sync/discovery.ts).
+ */
+import type { Database } from '@/integrations/supabase/types';
+
+export const SEARCH_ENTITY_TYPES = ['artist', 'show', 'venue', 'song'] as const;
+export type SearchEntityType = typeof SEARCH_ENTITY_TYPES[number];
+
+export const MIN_SEARCH_LENGTH = 2;
+export const DEFAULT_SEARCH_LIMIT = 5;
+export const MAX_SEARCH_LIMIT = 25;
+export const AUTOCOMPLETE_LIMIT = 8;
+// Fewer local results than this and upstream discovery kicks in
+export const THIN_RESULT_COUNT = 3;
+
+type SearchCatalogRow = Database['public']['Functions']['search_catalog']['Returns'][number];
+
+export interface SearchResult {
+  entity_type: SearchEntityType;
+  id: string;
+  name: string;
+  subtitle: string | null;
+  image_url: string | null;
+  starts_at: string | null;
+  // Artist of a show or song
+  parent_id: string | null;
+  rank: number;
+}
+
+export type SearchGroups = Record<SearchEntityType, SearchResult[]>;
+
+// An artist or show found upstream and queued for sync, keyed by Ticketmaster ID
+export interface DiscoveredEntity {
+  entity_type: 'artist' | 'show';
+  external_id: string;
+  name: string;
+  subtitle: string | null;
+  image_url: string | null;
+}
+
+export interface SearchQuery {
+  query: string;
+  types: SearchEntityType[] | null;
+  // Results per entity type
+  limit: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  groups: SearchGroups;
+  // Best matches across all types, for the autocomplete dropdown
+  suggestions: SearchResult[];
+  discovered: DiscoveredEntity[];
+}
+
+function isSearchEntityType(value: string): value is SearchEntityType {
+  return (SEARCH_ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Parse the q, types and limit query parameters of /api/search
+ */
+export function parseSearchQuery(params: URLSearchParams): SearchQuery {
+  const types = (params.get('types') || '')
+    .split(',')
+    .map(type => type.trim())
+    .filter(isSearchEntityType);
+
+  const limitParam = Number(params.get('limit'));
+  const limit = Number.isInteger(limitParam) && limitParam > 0
+    ? Math.min(limitParam, MAX_SEARCH_LIMIT)
+    : DEFAULT_SEARCH_LIMIT;
+
+  return {
+    query: (params.get('q') || '').trim(),
+    types: types.length > 0 ? types : null,
+    limit,
+  };
+}
+
+/**
+ * Shape a search_catalog row
+ */
+export function toSearchResult(row: SearchCatalogRow): SearchResult {
+  return {
+    entity_type: isSearchEntityType(row.entity_type) ? row.entity_type : 'artist',
+    id: row.id,
+    name: row.name,
+    subtitle: row.subtitle || null,
+    image_url: row.image_url || null,
+    starts_at: row.starts_at || null,
+    parent_id: row.parent_id || null,
+    rank: Number(row.rank),
+  };
+}
+
+/**
+ * Group ranked results by entity type, keeping the rank order within each group
+ */
+export function groupSearchResults(results: SearchResult[]): SearchGroups {
+  const groups: SearchGroups = { artist: [], show: [], venue: [], song: [] };
+  results.forEach(result => groups[result.entity_type].push(result));
+  return groups;
+}
+
+/**
+ * The best matches across all types
+ */
+export function autocompleteSuggestions(results: SearchResult[], limit = AUTOCOMPLETE_LIMIT): SearchResult[] {
+  return [...results].sort((a, b) => b.rank - a.rank).slice(0, limit);
+}
+
+/**
+ * Whether the local results are too few to answer the query on their own
+ */
+export function needsDiscovery(results: SearchResult[]): boolean {
+  return results.length < THIN_RESULT_COUNT;
+}
+
+/**
+ * The page a result links to. Songs open their artist; venues have no page yet.
+ */
+export function searchResultHref(result: SearchResult): string | null {
+  switch (result.entity_type) {
+    case 'artist':
+      return `/artists/${result.id}`;
+    case 'show':
+      return `/shows/${result.id}`;
+    case 'song':
+      return result.parent_id ? `/artists/${result.parent_id}` : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * The page for an entity found upstream. It is opened by its Ticketmaster ID
+ * until the queued sync has imported it.
+ */
+export function discoveredHref(entity: DiscoveredEntity): string {
+  return entity.entity_type === 'artist'
+    ? `/artists/${entity.external_id}`
+    : `/shows/${entity.external_id}`;
+}
+
+/**
+ * The /api/search URL for a query
+ */
+export function searchUrl(query: string, options: Partial<Omit<SearchQuery, 'query'>> = {}): string {
+  const params = new URLSearchParams({ q: query.trim() });
+  if (options.types && options.types.length > 0) params.set('types', options.types.join(','));
+  if (options.limit) params.set('limit', String(options.limit));
+  return `/api/search?${params.toString()}`;
+}
+
+/**
+ * Search artists, shows, venues and songs through /api/search
+ */
+export async function fetchSearch(query: string, options: Partial<Omit<SearchQuery, 'query'>> = {}): Promise<SearchResponse> {
+  const response = await fetch(searchUrl(query, options));
+  if (!response.ok) {
+    throw new Error(`Search failed: ${response.status}`);
+  }
+  return response.json();
+}
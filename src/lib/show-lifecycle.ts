@@ -0,0 +1,101 @@
+/**
+ * Show lifecycle: announced -> voting_open -> locked -> played ->
+ * setlist_confirmed. The windows are computed in the database from the show
+ * date and the venue's time zone (see 021_show_lifecycle.sql); these helpers
+ * read them on the client so countdowns and voting controls flip on time
+ * instead of waiting for the lifecycle cron to move lifecycle_state.
+ */
+
+export type ShowLifecycleState =
+  | "announced"
+  | "voting_open"
+  | "locked"
+  | "played"
+  | "setlist_confirmed";
+
+export interface ShowVotingWindow {
+  lifecycle_state?: string | null;
+  voting_opens_at?: string | null;
+  voting_locks_at?: string | null;
+}
+
+// Matches show_lifecycle_state: a show counts as played this long after doors
+export const PLAYED_AFTER_DOORS_MS = 5 * 60 * 60 * 1000;
+
+export const SHOW_LIFECYCLE_LABELS: Record<ShowLifecycleState, string> = {
+  announced: "Announced",
+  voting_open: "Voting open",
+  locked: "Voting closed",
+  played: "Played",
+  setlist_confirmed: "Setlist confirmed",
+};
+
+function parseTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * The state a show is in at `now`. The confirmed setlist only shows up in
+ * lifecycle_state, so it wins over the window.
+ */
+export function getShowLifecycleState(show: ShowVotingWindow, now: Date = new Date()): ShowLifecycleState {
+  if (show.lifecycle_state === "setlist_confirmed") return "setlist_confirmed";
+
+  const opensAt = parseTime(show.voting_opens_at);
+  const locksAt = parseTime(show.voting_locks_at);
+  if (opensAt === null || locksAt === null) {
+    return (show.lifecycle_state as ShowLifecycleState) || "announced";
+  }
+
+  const time = now.getTime();
+  if (time >= locksAt + PLAYED_AFTER_DOORS_MS) return "played";
+  if (time >= locksAt) return "locked";
+  if (time >= opensAt) return "voting_open";
+  return "announced";
+}
+
+export function isShowVotingOpen(show: ShowVotingWindow, now: Date = new Date()): boolean {
+  return getShowLifecycleState(show, now) === "voting_open";
+}
+
+/**
+ * The next voting milestone, for countdowns: when voting opens or locks.
+ * Null once voting has locked.
+ */
+export function getVotingCountdown(
+  show: ShowVotingWindow,
+  now: Date = new Date()
+): { label: string; target: Date; remainingMs: number } | null {
+  const state = getShowLifecycleState(show, now);
+  const target = state === "announced"
+    ? parseTime(show.voting_opens_at)
+    : state === "voting_open"
+      ? parseTime(show.voting_locks_at)
+      : null;
+
+  if (target === null) return null;
+
+  return {
+    label: state === "announced" ? "Voting opens in" : "Voting closes in",
+    target: new Date(target),
+    remainingMs: Math.max(target - now.getTime(), 0),
+  };
+}
+
+/**
+ * Compact countdown text: "12d 4h", "3h 05m", "4m 09s"
+ */
+export function formatCountdown(remainingMs: number): string {
+  const totalSeconds = Math.max(Math.floor(remainingMs / 1000), 0);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  return `${minutes}m ${pad(seconds)}s`;
+}
@@ -1,7 +1,6 @@
 import { getAccessToken } from './auth'; // Relies on client-side auth
 import type { SpotifyTrack, SpotifyTracksResponse } from './types'; // Assuming types are still in ./types
-
-const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
+import { buildProviderUrl, spotifyApiBaseUrl } from '@/lib/sync/providers/base';
 
 // Type for raw Spotify track object from API
 // Use Record<string, unknown> instead of any for index signature
@@ -19,7 +18,7 @@ export const getArtistAllTracks = async (artistSpotifyId: string): Promise<Spoti
 
     // Fetch top tracks first
     const topTracksResponse = await fetch(
-      `${SPOTIFY_API_BASE}/artists/${artistSpotifyId}/top-tracks?market=US`,
+      buildProviderUrl(spotifyApiBaseUrl(), `artists/${artistSpotifyId}/top-tracks`, { market: 'US' }).toString(),
       { headers: { Authorization: `Bearer ${token}` } }
     );
     if (!topTracksResponse.ok) {
@@ -51,7 +50,11 @@ export const getArtistAllTracks = async (artistSpotifyId: string): Promise<Spoti
 
     // Fetch albums (limit to reduce API calls)
     const albumsResponse = await fetch(
-      `${SPOTIFY_API_BASE}/artists/${artistSpotifyId}/albums?include_groups=album,single&limit=20&market=US`,
+      buildProviderUrl(spotifyApiBaseUrl(), `artists/${artistSpotifyId}/albums`, {
+        include_groups: 'album,single',
+        limit: 20,
+        market: 'US'
+      }).toString(),
       { headers: { Authorization: `Bearer ${token}` } }
     );
 
@@ -62,7 +65,7 @@ export const getArtistAllTracks = async (artistSpotifyId: string): Promise<Spoti
         const albumTrackPromises = albumsData.items.map(async (album: SpotifyApiAlbum) => {
           try {
             const tracksResponse = await fetch(
-              `${SPOTIFY_API_BASE}/albums/${album.id}/tracks?limit=50&market=US`,
+              buildProviderUrl(spotifyApiBaseUrl(), `albums/${album.id}/tracks`, { limit: 50, market: 'US' }).toString(),
               { headers: { Authorization: `Bearer ${token}` } }
             );
             if (!tracksResponse.ok) return [];
@@ -2,8 +2,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { getAccessToken } from './auth'; // Relies on client-side auth handling
 import type { SpotifyArtist } from './types'; // Assuming types are still in ./types
-
-const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
+import { buildProviderUrl, spotifyApiBaseUrl } from '@/lib/sync/providers/base';
 
 // Type for the raw Spotify search API response
 interface SpotifySearchResponse {
@@ -21,7 +20,7 @@ export const searchArtists = async (query: string, limit = 5): Promise<SpotifySe
     // This will likely need a user access token from the session for client-side calls
     const token = await getAccessToken(); // Might throw if not implemented correctly client-side
     const response = await fetch(
-      `${SPOTIFY_API_BASE}/search?q=${encodeURIComponent(query)}&type=artist&limit=${limit}`,
+      buildProviderUrl(spotifyApiBaseUrl(), 'search', { q: query, type: 'artist', limit }).toString(),
       { headers: { Authorization: `Bearer ${token}` } }
     );
 
@@ -42,7 +41,7 @@ export const getArtistByName = async (name: string): Promise<SpotifyArtist | nul
   try {
     const token = await getAccessToken(); // Might throw
     const response = await fetch(
-      `${SPOTIFY_API_BASE}/search?q=${encodeURIComponent(name)}&type=artist&limit=1`,
+      buildProviderUrl(spotifyApiBaseUrl(), 'search', { q: name, type: 'artist', limit: 1 }).toString(),
       { headers: { Authorization: `Bearer ${token}` } }
     );
 
@@ -70,7 +69,7 @@ export const getArtistByName = async (name: string): Promise<SpotifyArtist | nul
 export const getArtistById = async (artistId: string): Promise<SpotifyArtist | null> => {
   try {
     const token = await getAccessToken(); // Might throw
-    const response = await fetch(`${SPOTIFY_API_BASE}/artists/${artistId}`, {
+    const response = await fetch(buildProviderUrl(spotifyApiBaseUrl(), `artists/${artistId}`).toString(), {
       headers: { Authorization: `Bearer ${token}` },
     });
 
@@ -6,11 +6,15 @@ export * from './artist-tracks';
 export * from './all-tracks'; // Restore export (remove .ts)
 export * from './top-tracks';
 export * from './user-recommendations';
+export * from './playlists';
 export * from './types';
 export * from './utils';
 
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { linkArtistIdentifiers, resolveArtist } from '@/lib/api/database/artist-identifiers';
+import { importSpotifyFollows } from '@/lib/api/database/follows';
+import { buildProviderUrl, spotifyApiBaseUrl } from '@/lib/sync/providers/base';
 
 // Improved function for fetching user's top artists with enhanced error handling
 export const getMyTopArtists = async () => {
@@ -31,7 +35,7 @@ export const getMyTopArtists = async () => {
     }
     
     console.log("Using provider token to fetch artists from Spotify");
-    const response = await fetch('https://api.spotify.com/v1/me/top/artists?limit=20', {
+    const response = await fetch(buildProviderUrl(spotifyApiBaseUrl(), 'me/top/artists', { limit: 20 }).toString(), {
       headers: {
         Authorization: `Bearer ${session.provider_token}`,
       },
@@ -57,9 +61,9 @@ export const getMyTopArtists = async () => {
     const data = await response.json();
     console.log(`Found ${data.items?.length || 0} top artists from Spotify`);
     
-    // Save artists to database in the background
+    // Save artists to database and follow them in the background
     if (data.items && data.items.length > 0) {
-      saveTopArtistsToDatabase(data.items);
+      saveTopArtistsToDatabase(data.items, session.user.id);
     }
     
     // Define a type for the raw artist object from Spotify API
@@ -81,15 +85,16 @@ export const getMyTopArtists = async () => {
   }
 };
 
-// Helper function to save top artists to database
+// Helper function to save top artists to database and follow them for the user
 // Define a type for the artist data used in this function
 type TopArtistData = { id: string; name: string; images?: { url: string }[]; genres?: string[]; popularity?: number; external_urls?: { spotify?: string }; followers?: { total?: number }; [key: string]: unknown };
 
-async function saveTopArtistsToDatabase(artists: TopArtistData[]) {
+export async function saveTopArtistsToDatabase(artists: TopArtistData[], userId?: string) {
+  const savedArtistIds: string[] = [];
+
   try {
     for (const artist of artists) {
       const artistData = {
-        id: artist.id,  // Use Spotify ID as the ID
         name: artist.name,
         image_url: artist.images?.[0]?.url,
         genres: artist.genres || [],
@@ -101,42 +106,44 @@ async function saveTopArtistsToDatabase(artists: TopArtistData[]) {
       };
       
       try {
-        // Check if artist exists
-        const { data: existingArtist, error: checkError } = await supabase
-          .from('artists')
-          .select('id')
-          .eq('spotify_id', artist.id)
-          .maybeSingle();
-        
-        if (checkError) {
-          console.error("Error checking artist in database:", checkError);
-          continue;
-        }
+        // Find the canonical artist for this Spotify ID (or an unambiguous name match)
+        const existingArtistId = await resolveArtist({ name: artist.name, spotifyId: artist.id });
         
-        if (existingArtist) {
+        if (existingArtistId) {
           // Update existing artist
           const { error: updateError } = await supabase
             .from('artists')
             .update(artistData)
-            .eq('spotify_id', artist.id);
+            .eq('id', existingArtistId);
           
           if (updateError) {
             console.error("Error updating artist:", updateError);
+          } else {
+            savedArtistIds.push(existingArtistId);
           }
         } else {
           // Insert new artist
-          const { error: insertError } = await supabase
+          const { data: insertedArtist, error: insertError } = await supabase
             .from('artists')
-            .insert(artistData);
+            .insert({ id: artist.id, ...artistData })  // Use Spotify ID as the ID
+            .select('id')
+            .single();
           
           if (insertError) {
             console.error("Error inserting artist:", insertError);
+          } else {
+            await linkArtistIdentifiers(insertedArtist.id, { spotifyId: artist.id });
+            savedArtistIds.push(insertedArtist.id);
           }
         }
       } catch (dbError) {
         console.error("Database error saving artist:", dbError);
       }
     }
+
+    if (userId) {
+      await importSpotifyFollows(userId, savedArtistIds);
+    }
   } catch (error) {
     console.error("Error saving top artists to database:", error);
   }
@@ -0,0 +1,180 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { adminClient } from "@/lib/db";
+import type { Database } from "@/integrations/supabase/types";
+import { DEFAULT_PLAYLIST_TRACK_LIMIT, PlaylistMode, SetlistPlaylist } from "@/lib/api/database/playlists";
+import { ProviderRequestError, readEnv, spotifyAccountsBaseUrl } from "@/lib/sync/providers/base";
+import {
+  createSpotifyPlaylistClient,
+  setlistPlaylistDetails,
+  SpotifyPlaylistClient,
+  syncPlaylist,
+  toSpotifyTrackUri,
+} from "./playlists";
+
+/**
+ * Server-side playlist sync, run from the sync queue once a show's played
+ * setlist is posted. Each user who exported a playlist for the show and has
+ * a saved Spotify connection gets their fan-voted playlist brought to the
+ * final vote order and the played setlist saved as a second playlist.
+ */
+
+interface ShowPlaylistSyncOptions {
+  client?: SupabaseClient<Database>;
+  createPlaylistClient?: (accessToken: string) => SpotifyPlaylistClient;
+  accountsUrl?: string;
+}
+
+interface SpotifyUserToken {
+  accessToken: string;
+  /** Set when Spotify rotated the refresh token */
+  refreshToken: string | null;
+}
+
+/**
+ * Trade a user's refresh token for a fresh access token
+ */
+export async function refreshSpotifyUserToken(
+  refreshToken: string,
+  accountsUrl = spotifyAccountsBaseUrl(),
+): Promise<SpotifyUserToken> {
+  const clientId = readEnv("VITE_SPOTIFY_CLIENT_ID");
+  const clientSecret = readEnv("VITE_SPOTIFY_CLIENT_SECRET");
+  if (!clientId || !clientSecret) {
+    throw new Error("Spotify client credentials are not configured");
+  }
+
+  const response = await fetch(new URL("api/token", accountsUrl).toString(), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Authorization: "Basic " + btoa(`${clientId}:${clientSecret}`),
+    },
+    body: new URLSearchParams({ grant_type: "refresh_token", refresh_token: refreshToken }).toString(),
+  });
+
+  if (!response.ok) {
+    throw ProviderRequestError.fromResponse("Spotify", response);
+  }
+
+  const data = await response.json();
+  return { accessToken: data.access_token, refreshToken: data.refresh_token ?? null };
+}
+
+/**
+ * Sync every exported playlist for a show. Users whose Spotify access has
+ * been revoked are skipped. Other failures are thrown once every user has
+ * been tried, so the queue retries the task; playlists already up to date
+ * are left alone on the retry.
+ * Returns the number of playlists written.
+ */
+export async function syncShowPlaylists(showId: string, options: ShowPlaylistSyncOptions = {}): Promise<number> {
+  const client = options.client ?? (adminClient() as SupabaseClient<Database>);
+  const createPlaylistClient = options.createPlaylistClient ?? createSpotifyPlaylistClient;
+
+  const { data: owners, error: ownersError } = await client.rpc("get_setlist_playlist_owners", { p_show_id: showId });
+  if (ownersError) {
+    throw new Error(`Failed to load playlist owners for show ${showId}: ${ownersError.message}`);
+  }
+  if (!owners || owners.length === 0) return 0;
+
+  const { data: show, error: showError } = await client
+    .from("shows")
+    .select("name, artist_id")
+    .eq("id", showId)
+    .single();
+  if (showError || !show) {
+    throw new Error(`Failed to load show ${showId}: ${showError?.message ?? "not found"}`);
+  }
+
+  const { data: artist } = show.artist_id
+    ? await client.from("artists").select("name").eq("id", show.artist_id).single()
+    : { data: null };
+
+  const showName = show.name;
+  const artistName = artist?.name ?? "Unknown Artist";
+
+  let written = 0;
+  let lastError: unknown = null;
+
+  for (const owner of owners) {
+    const playlists = owner.playlists as Partial<Record<PlaylistMode, SetlistPlaylist>>;
+
+    try {
+      let token: SpotifyUserToken;
+      try {
+        token = await refreshSpotifyUserToken(owner.refresh_token, options.accountsUrl);
+      } catch (error) {
+        if (error instanceof ProviderRequestError && (error.status === 400 || error.status === 401)) {
+          console.warn(`Skipping playlist sync for user ${owner.user_id}: Spotify access was revoked`);
+          continue;
+        }
+        throw error;
+      }
+
+      if (token.refreshToken && token.refreshToken !== owner.refresh_token) {
+        await client
+          .from("spotify_connections")
+          .update({ refresh_token: token.refreshToken, updated_at: new Date().toISOString() })
+          .eq("user_id", owner.user_id);
+      }
+
+      const spotify = createPlaylistClient(token.accessToken);
+
+      // The played playlist is created for everyone who exported the show;
+      // the fan-voted one only if the user saved it
+      const modes: PlaylistMode[] = playlists.voted ? ["voted", "played"] : ["played"];
+      for (const mode of modes) {
+        const existing = playlists[mode];
+        const limit = existing?.track_limit ?? DEFAULT_PLAYLIST_TRACK_LIMIT;
+
+        const { data: tracks, error: tracksError } = await client.rpc("get_setlist_playlist_tracks", {
+          p_show_id: showId,
+          p_mode: mode,
+          p_limit: limit,
+        });
+        if (tracksError) {
+          throw new Error(`Failed to load ${mode} tracks for show ${showId}: ${tracksError.message}`);
+        }
+        if (!tracks || tracks.length === 0) continue;
+
+        const result = await syncPlaylist(spotify, {
+          details: setlistPlaylistDetails(mode, { artistName, showName, limit }),
+          uris: tracks.map(track => toSpotifyTrackUri(track.spotify_id)),
+          existing: existing && {
+            playlistId: existing.spotify_playlist_id,
+            url: existing.spotify_playlist_url,
+            uris: existing.track_uris,
+          },
+        });
+        if (!result.changed) continue;
+
+        const now = new Date().toISOString();
+        const { error: saveError } = await client.from("setlist_playlists").upsert(
+          {
+            show_id: showId,
+            user_id: owner.user_id,
+            mode,
+            spotify_playlist_id: result.id,
+            spotify_playlist_url: result.url,
+            snapshot_id: result.snapshotId,
+            track_limit: limit,
+            track_uris: result.uris,
+            last_synced_at: now,
+            updated_at: now,
+          },
+          { onConflict: "show_id,user_id,mode" },
+        );
+        if (saveError) {
+          throw new Error(`Failed to save ${mode} playlist for user ${owner.user_id}: ${saveError.message}`);
+        }
+        written++;
+      }
+    } catch (error) {
+      console.error(`Error syncing playlists for user ${owner.user_id} and show ${showId}:`, error);
+      lastError = error;
+    }
+  }
+
+  if (lastError) throw lastError;
+  return written;
+}
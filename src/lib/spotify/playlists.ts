@@ -0,0 +1,175 @@
+import { buildProviderUrl, ProviderRequestError, spotifyApiBaseUrl } from "@/lib/sync/providers/base";
+import type { PlaylistMode } from "@/lib/api/database/playlists";
+
+/**
+ * Spotify playlist writes on behalf of the signed-in user.
+ * Unlike the sync adapters, these calls use the user's OAuth provider_token,
+ * so the client is built per token. Everything goes through the
+ * SpotifyPlaylistClient interface, which tests can replace with an in-memory
+ * client or point at the fake Spotify server with VITE_SPOTIFY_API_BASE_URL.
+ */
+
+// Spotify accepts at most 100 URIs per replace call
+export const MAX_PLAYLIST_TRACKS = 100;
+
+export interface SpotifyPlaylist {
+  id: string;
+  url: string | null;
+  snapshotId: string | null;
+}
+
+export interface PlaylistDetails {
+  name: string;
+  description?: string;
+  public?: boolean;
+}
+
+export interface SpotifyPlaylistClient {
+  /** Spotify user id of the token's owner */
+  getCurrentUserId(): Promise<string>;
+  createPlaylist(userId: string, details: PlaylistDetails): Promise<SpotifyPlaylist>;
+  updatePlaylistDetails(playlistId: string, details: PlaylistDetails): Promise<void>;
+  /** Replace every track on the playlist; returns the new snapshot id */
+  replacePlaylistTracks(playlistId: string, uris: string[]): Promise<string | null>;
+}
+
+/**
+ * Spotify Web API client authenticated with a user's access token
+ */
+export function createSpotifyPlaylistClient(
+  accessToken: string,
+  baseUrl = spotifyApiBaseUrl(),
+): SpotifyPlaylistClient {
+  const send = async <T>(method: string, endpoint: string, body?: unknown): Promise<T> => {
+    const response = await fetch(buildProviderUrl(baseUrl, endpoint).toString(), {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw ProviderRequestError.fromResponse("Spotify", response);
+    }
+
+    const text = await response.text();
+    return (text ? JSON.parse(text) : {}) as T;
+  };
+
+  return {
+    async getCurrentUserId() {
+      const me = await send<{ id: string }>("GET", "me");
+      return me.id;
+    },
+
+    async createPlaylist(userId, details) {
+      const playlist = await send<{ id: string; snapshot_id?: string; external_urls?: { spotify?: string } }>(
+        "POST",
+        `users/${encodeURIComponent(userId)}/playlists`,
+        { name: details.name, description: details.description ?? "", public: details.public ?? false },
+      );
+      return {
+        id: playlist.id,
+        url: playlist.external_urls?.spotify ?? null,
+        snapshotId: playlist.snapshot_id ?? null,
+      };
+    },
+
+    async updatePlaylistDetails(playlistId, details) {
+      await send("PUT", `playlists/${encodeURIComponent(playlistId)}`, {
+        name: details.name,
+        description: details.description ?? "",
+      });
+    },
+
+    async replacePlaylistTracks(playlistId, uris) {
+      const result = await send<{ snapshot_id?: string }>(
+        "PUT",
+        `playlists/${encodeURIComponent(playlistId)}/tracks`,
+        { uris: uris.slice(0, MAX_PLAYLIST_TRACKS) },
+      );
+      return result.snapshot_id ?? null;
+    },
+  };
+}
+
+/**
+ * Spotify track URI for a track id
+ */
+export function toSpotifyTrackUri(spotifyId: string): string {
+  return spotifyId.startsWith("spotify:track:") ? spotifyId : `spotify:track:${spotifyId}`;
+}
+
+/**
+ * Name and description of a show's playlist
+ */
+export function setlistPlaylistDetails(
+  mode: PlaylistMode,
+  { artistName, showName, limit }: { artistName: string; showName: string; limit: number },
+): PlaylistDetails {
+  return mode === "played"
+    ? {
+        name: `${artistName} at ${showName} (Setlist)`,
+        description: `The setlist ${artistName} played at ${showName}.`,
+      }
+    : {
+        name: `${artistName} at ${showName} (Fan-voted)`,
+        description: `The top ${limit} songs fans voted for at ${showName}, kept in vote order by TheSet.`,
+      };
+}
+
+export interface PlaylistSyncRequest {
+  details: PlaylistDetails;
+  uris: string[];
+  /** The playlist from a previous export, if any */
+  existing?: { playlistId: string; url: string | null; uris: string[] } | null;
+  /** Rewrite the tracks even if they match the last sync */
+  force?: boolean;
+}
+
+export interface PlaylistSyncResult extends SpotifyPlaylist {
+  created: boolean;
+  /** Whether the tracks on Spotify were rewritten */
+  changed: boolean;
+  uris: string[];
+}
+
+/**
+ * Create a playlist with the given tracks, or bring an existing one up to
+ * date. Tracks are only rewritten when the list differs from the last sync.
+ * A playlist the user has since deleted (404) is created again.
+ */
+export async function syncPlaylist(
+  client: SpotifyPlaylistClient,
+  { details, uris, existing, force = false }: PlaylistSyncRequest,
+): Promise<PlaylistSyncResult> {
+  const tracks = uris.slice(0, MAX_PLAYLIST_TRACKS);
+
+  if (existing) {
+    const unchanged =
+      existing.uris.length === tracks.length && existing.uris.every((uri, i) => uri === tracks[i]);
+
+    if (unchanged && !force) {
+      return { id: existing.playlistId, url: existing.url, snapshotId: null, created: false, changed: false, uris: tracks };
+    }
+
+    try {
+      const snapshotId = await client.replacePlaylistTracks(existing.playlistId, tracks);
+      await client.updatePlaylistDetails(existing.playlistId, details);
+      return { id: existing.playlistId, url: existing.url, snapshotId, created: false, changed: true, uris: tracks };
+    } catch (error) {
+      if (!(error instanceof ProviderRequestError && error.status === 404)) {
+        throw error;
+      }
+      console.warn(`Spotify playlist ${existing.playlistId} no longer exists; creating a new one`);
+    }
+  }
+
+  const userId = await client.getCurrentUserId();
+  const playlist = await client.createPlaylist(userId, details);
+  const snapshotId = await client.replacePlaylistTracks(playlist.id, tracks);
+
+  return { ...playlist, snapshotId: snapshotId ?? playlist.snapshotId, created: true, changed: true, uris: tracks };
+}
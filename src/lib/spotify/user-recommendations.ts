@@ -1,5 +1,6 @@
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { buildProviderUrl, spotifyApiBaseUrl } from '@/lib/sync/providers/base';
 
 /**
  * Get user's top artists directly from Spotify API
@@ -14,7 +15,7 @@ export const getUserTopArtists = async () => {
       return [];
     }
     
-    const response = await fetch('https://api.spotify.com/v1/me/top/artists?limit=10', {
+    const response = await fetch(buildProviderUrl(spotifyApiBaseUrl(), 'me/top/artists', { limit: 10 }).toString(), {
       headers: {
         Authorization: `Bearer ${session.provider_token}`,
       },
@@ -57,7 +58,10 @@ export const getRecommendations = async (seedArtists: string[]) => {
     }
     
     const response = await fetch(
-      `https://api.spotify.com/v1/recommendations?seed_artists=${seedArtists.slice(0, 5).join(',')}&limit=10`,
+      buildProviderUrl(spotifyApiBaseUrl(), 'recommendations', {
+        seed_artists: seedArtists.slice(0, 5).join(','),
+        limit: 10
+      }).toString(),
       {
         headers: {
           Authorization: `Bearer ${session.provider_token}`,
@@ -0,0 +1,206 @@
+/**
+ * Upstream lookups for bulk artist imports: resolve an import row to
+ * Ticketmaster attraction candidates (and a Spotify ID), and read the
+ * artists out of a Spotify playlist.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import {
+  ArtistImportInput,
+  classifyMatch,
+  ImportCandidate,
+  ImportMatchStatus,
+  MAX_IMPORT_ROWS,
+  MIN_CANDIDATE_CONFIDENCE,
+  normalizeArtistName,
+  scoreCandidates,
+} from '@/lib/artist-import';
+import { APIClientManager } from './api-client';
+import { TmImage, widestImage } from './discovery';
+
+const CANDIDATE_LIMIT = 5;
+const PLAYLIST_PAGE_SIZE = 100;
+
+interface TmAttraction {
+  id: string;
+  name?: string;
+  images?: TmImage[];
+  upcomingEvents?: { _total?: number };
+}
+
+interface TmAttractionsResponse {
+  _embedded?: { attractions?: TmAttraction[] };
+}
+
+interface SpotifyArtistRef {
+  id: string | null;
+  name?: string;
+}
+
+interface SpotifySearchResponse {
+  artists?: { items?: SpotifyArtistRef[] };
+}
+
+interface SpotifyPlaylistTracksResponse {
+  items?: Array<{ track?: { artists?: SpotifyArtistRef[] } | null }>;
+  next?: string | null;
+}
+
+export interface ResolvedImportRow {
+  status: ImportMatchStatus;
+  confidence: number | null;
+  ticketmaster_id: string | null;
+  spotify_id: string | null;
+  matched_name: string | null;
+  image_url: string | null;
+  candidates: ImportCandidate[];
+}
+
+function toCandidate(attraction: TmAttraction): Omit<ImportCandidate, 'confidence'> {
+  return {
+    ticketmaster_id: attraction.id,
+    name: attraction.name as string,
+    image_url: widestImage(attraction.images),
+    upcoming_events: attraction.upcomingEvents?._total ?? 0,
+  };
+}
+
+/**
+ * The Spotify artist whose name matches exactly, if Spotify has one.
+ * Spotify is only used to link the catalog, so failures yield null.
+ */
+async function findSpotifyArtistId(name: string, apiClient: APIClientManager): Promise<string | null> {
+  try {
+    const data = await apiClient.callAPI<SpotifySearchResponse>('spotify', 'search', {
+      q: name,
+      type: 'artist',
+      limit: 3,
+    });
+    const key = normalizeArtistName(name);
+    return data?.artists?.items?.find(artist => artist.id && normalizeArtistName(artist.name || '') === key)?.id ?? null;
+  } catch (error) {
+    console.error(`Error looking up Spotify artist "${name}":`, error);
+    return null;
+  }
+}
+
+/**
+ * Resolve one import row against Ticketmaster. A given Ticketmaster ID is
+ * looked up directly; otherwise the name (taken from Spotify when the row
+ * only has a Spotify ID) is searched and the candidates are scored. Upstream
+ * errors are thrown so the caller can record them on the row.
+ */
+export async function resolveImportRow(
+  input: ArtistImportInput,
+  apiClient: APIClientManager = new APIClientManager(),
+): Promise<ResolvedImportRow> {
+  let name = input.name;
+  let spotifyId = input.spotify_id;
+
+  if (!name && spotifyId) {
+    const artist = await apiClient.callAPI<SpotifyArtistRef>('spotify', `artists/${spotifyId}`);
+    name = artist?.name || null;
+  }
+
+  let attractions: TmAttraction[] = [];
+  if (input.ticketmaster_id) {
+    const attraction = await apiClient.callAPI<TmAttraction>('ticketmaster', `attractions/${input.ticketmaster_id}.json`);
+    if (attraction?.id) {
+      attractions = [attraction];
+      name = name || attraction.name || null;
+    }
+  }
+
+  if (attractions.length === 0 && name) {
+    const data = await apiClient.callAPI<TmAttractionsResponse>('ticketmaster', 'attractions.json', {
+      keyword: name,
+      classificationName: 'music',
+      size: CANDIDATE_LIMIT,
+    });
+    attractions = data?._embedded?.attractions || [];
+  }
+
+  const candidates = scoreCandidates(
+    { ...input, name },
+    attractions.filter(attraction => attraction.id && attraction.name).map(toCandidate),
+  ).filter(candidate => candidate.confidence >= MIN_CANDIDATE_CONFIDENCE);
+
+  const { status, best } = classifyMatch(candidates);
+
+  if (best && !spotifyId) {
+    spotifyId = await findSpotifyArtistId(best.name, apiClient);
+  }
+
+  return {
+    status,
+    confidence: best?.confidence ?? null,
+    ticketmaster_id: status === 'matched' ? best!.ticketmaster_id : null,
+    spotify_id: spotifyId,
+    matched_name: best?.name ?? name,
+    image_url: best?.image_url ?? null,
+    candidates,
+  };
+}
+
+/**
+ * The distinct artists on a Spotify playlist in order of first appearance,
+ * up to MAX_IMPORT_ROWS. Local files, which have no Spotify ID, are skipped.
+ */
+export async function fetchPlaylistArtists(
+  playlistId: string,
+  apiClient: APIClientManager = new APIClientManager(),
+): Promise<ArtistImportInput[]> {
+  const artists = new Map<string, string | null>();
+  let endpoint: string | null = `playlists/${playlistId}/tracks`;
+  let params: Record<string, string | number> | undefined = {
+    fields: 'items(track(artists(id,name))),next',
+    limit: PLAYLIST_PAGE_SIZE,
+  };
+
+  while (endpoint && artists.size < MAX_IMPORT_ROWS) {
+    const page: SpotifyPlaylistTracksResponse = await apiClient.callAPI<SpotifyPlaylistTracksResponse>('spotify', endpoint, params);
+
+    page?.items?.forEach(item => {
+      item.track?.artists?.forEach(artist => {
+        if (artist.id && !artists.has(artist.id)) {
+          artists.set(artist.id, artist.name || null);
+        }
+      });
+    });
+
+    // next is an absolute URL that already carries the query
+    endpoint = page?.next || null;
+    params = undefined;
+  }
+
+  return [...artists.entries()]
+    .slice(0, MAX_IMPORT_ROWS)
+    .map(([id, name]) => ({ name, ticketmaster_id: null, spotify_id: id }));
+}
+
+/**
+ * The catalog artist that already has the row's Ticketmaster or Spotify ID
+ */
+export async function findExistingArtistId(
+  client: SupabaseClient<Database>,
+  ids: { ticketmaster_id: string | null; spotify_id: string | null },
+): Promise<string | null> {
+  const filters = [
+    ids.spotify_id && `and(provider.eq.spotify,external_id.eq.${ids.spotify_id})`,
+    ids.ticketmaster_id && `and(provider.eq.ticketmaster,external_id.eq.${ids.ticketmaster_id})`,
+  ].filter(Boolean);
+
+  if (filters.length === 0) return null;
+
+  const { data, error } = await client
+    .from('artist_identifiers')
+    .select('artist_id')
+    .or(filters.join(','))
+    .limit(1);
+
+  if (error) {
+    console.error('Error looking up existing artist:', error);
+    return null;
+  }
+  return data?.[0]?.artist_id ?? null;
+}
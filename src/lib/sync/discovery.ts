@@ -0,0 +1,126 @@
+/**
+ * Upstream discovery for search: when the local index has little for a
+ * query, look it up on Ticketmaster and hand whatever is found to the sync
+ * queue, so the next search for it is answered locally.
+ */
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import { adminClient } from '@/lib/db';
+import type { DiscoveredEntity } from '@/lib/search';
+import { APIClientManager } from './api-client';
+import { PRIORITY_VALUES } from './types';
+
+const DISCOVERY_LIMIT = 5;
+
+export interface TmImage {
+  url: string;
+  width?: number;
+}
+
+interface TmAttraction {
+  id: string;
+  name?: string;
+  images?: TmImage[];
+  classifications?: Array<{ genre?: { name?: string } }>;
+}
+
+interface TmEvent {
+  id: string;
+  name?: string;
+  images?: TmImage[];
+  dates?: { start?: { localDate?: string } };
+  _embedded?: {
+    venues?: Array<{ name?: string; city?: { name?: string } }>;
+  };
+}
+
+interface TmSearchResponse {
+  _embedded?: {
+    attractions?: TmAttraction[];
+    events?: TmEvent[];
+  };
+}
+
+export function widestImage(images?: TmImage[]): string | null {
+  if (!images || images.length === 0) return null;
+  return [...images].sort((a, b) => (b.width || 0) - (a.width || 0))[0].url;
+}
+
+/**
+ * Search Ticketmaster for music artists and events matching the query.
+ * Failures are logged and yield no results; discovery never fails a search.
+ */
+export async function discoverUpstream(
+  query: string,
+  apiClient: APIClientManager = new APIClientManager(),
+): Promise<DiscoveredEntity[]> {
+  const params = { keyword: query, classificationName: 'music', size: DISCOVERY_LIMIT };
+
+  const [attractions, events] = await Promise.all([
+    apiClient.callAPI<TmSearchResponse>('ticketmaster', 'attractions.json', params)
+      .then(data => data?._embedded?.attractions || [])
+      .catch(error => {
+        console.error(`Error discovering artists for "${query}":`, error);
+        return [] as TmAttraction[];
+      }),
+    apiClient.callAPI<TmSearchResponse>('ticketmaster', 'events.json', { ...params, sort: 'relevance,desc' })
+      .then(data => data?._embedded?.events || [])
+      .catch(error => {
+        console.error(`Error discovering shows for "${query}":`, error);
+        return [] as TmEvent[];
+      }),
+  ]);
+
+  const artists: DiscoveredEntity[] = attractions
+    .filter(attraction => attraction.id && attraction.name)
+    .map(attraction => ({
+      entity_type: 'artist',
+      external_id: attraction.id,
+      name: attraction.name as string,
+      subtitle: attraction.classifications?.[0]?.genre?.name || null,
+      image_url: widestImage(attraction.images),
+    }));
+
+  const shows: DiscoveredEntity[] = events
+    .filter(event => event.id && event.name)
+    .map(event => {
+      const venue = event._embedded?.venues?.[0];
+      return {
+        entity_type: 'show',
+        external_id: event.id,
+        name: event.name as string,
+        subtitle: [event.dates?.start?.localDate, venue?.name, venue?.city?.name].filter(Boolean).join(' · ') || null,
+        image_url: widestImage(event.images),
+      };
+    });
+
+  return [...artists, ...shows];
+}
+
+/**
+ * Queue a create task for each discovered entity. A live task for the same
+ * entity is merged by enqueue_sync_task, which is service-role only, so this
+ * defaults to the admin client. Returns how many were queued.
+ */
+export async function enqueueDiscovered(
+  entities: DiscoveredEntity[],
+  client: SupabaseClient<Database> = adminClient() as SupabaseClient<Database>,
+): Promise<number> {
+  const results = await Promise.all(entities.map(async entity => {
+    const { error } = await client.rpc('enqueue_sync_task', {
+      p_entity_type: entity.entity_type,
+      p_external_id: entity.external_id,
+      p_operation: 'create',
+      p_priority: PRIORITY_VALUES.medium,
+      p_source_system: 'ticketmaster',
+    });
+
+    if (error) {
+      console.error(`Error queueing ${entity.entity_type} ${entity.external_id} for sync:`, error);
+      return false;
+    }
+    return true;
+  }));
+
+  return results.filter(Boolean).length;
+}
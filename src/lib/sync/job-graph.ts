@@ -0,0 +1,193 @@
+import { SyncTask, EntityRef } from './types';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'blocked';
+
+export interface JobResult {
+  key: string;
+  task: SyncTask;
+  status: JobStatus;
+  dependsOn: string[];
+  error?: string;
+  blockedBy?: string;
+}
+
+export interface JobGraphRunOptions {
+  parallelLimit?: number;
+  onJobStart?: (job: JobResult) => void | Promise<void>;
+  onJobFinish?: (job: JobResult) => void | Promise<void>;
+}
+
+export type JobExecutor = (task: SyncTask) => Promise<{ success: boolean; error?: string }>;
+
+/**
+ * Stable key for a sync job, one per (type, id, operation)
+ */
+export function jobKey(ref: EntityRef, operation: string = 'refresh'): string {
+  return `${ref.type}:${ref.id}:${operation}`;
+}
+
+/**
+ * Dependency-aware graph of sync jobs
+ * - A job runs only after every job it depends on has completed
+ * - Jobs run in topological order with bounded parallelism
+ * - A failed job blocks its own dependents (transitively) and nothing else
+ */
+export class SyncJobGraph {
+  private jobs = new Map<string, JobResult>();
+
+  /**
+   * Add a job, returning its key
+   * Adding the same (type, id, operation) twice merges the dependency lists.
+   */
+  addJob(task: SyncTask, dependsOn: string[] = []): string {
+    const key = jobKey(task, task.operation);
+    const existing = this.jobs.get(key);
+
+    if (existing) {
+      existing.dependsOn = Array.from(new Set([...existing.dependsOn, ...dependsOn]));
+      return key;
+    }
+
+    this.jobs.set(key, { key, task, status: 'pending', dependsOn: [...dependsOn] });
+    return key;
+  }
+
+  has(key: string): boolean {
+    return this.jobs.has(key);
+  }
+
+  get(key: string): JobResult | undefined {
+    return this.jobs.get(key);
+  }
+
+  get size(): number {
+    return this.jobs.size;
+  }
+
+  /**
+   * Order jobs so that every job comes after its dependencies
+   * Dependencies on keys that are not in the graph are ignored.
+   * Throws if the graph contains a cycle.
+   */
+  topologicalOrder(): string[] {
+    const inDegree = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+
+    for (const [key, job] of this.jobs) {
+      const deps = job.dependsOn.filter(dep => this.jobs.has(dep));
+      inDegree.set(key, deps.length);
+      for (const dep of deps) {
+        dependents.set(dep, [...(dependents.get(dep) || []), key]);
+      }
+    }
+
+    const ready = [...this.jobs.keys()].filter(key => inDegree.get(key) === 0);
+    const order: string[] = [];
+
+    while (ready.length > 0) {
+      const key = ready.shift() as string;
+      order.push(key);
+
+      for (const dependent of dependents.get(key) || []) {
+        const remaining = (inDegree.get(dependent) || 0) - 1;
+        inDegree.set(dependent, remaining);
+        if (remaining === 0) {
+          ready.push(dependent);
+        }
+      }
+    }
+
+    if (order.length !== this.jobs.size) {
+      const cyclic = [...this.jobs.keys()].filter(key => !order.includes(key));
+      throw new Error(`Sync job graph contains a cycle: ${cyclic.join(', ')}`);
+    }
+
+    return order;
+  }
+
+  /**
+   * Execute all jobs
+   * Starts a job as soon as its dependencies complete, keeping at most
+   * parallelLimit jobs in flight. Returns the final state of every job in
+   * topological order.
+   * A job whose onJobStart throws fails without running; onJobFinish is
+   * called for every job however it ended.
+   */
+  async run(executor: JobExecutor, options: JobGraphRunOptions = {}): Promise<JobResult[]> {
+    const { parallelLimit = 5, onJobStart, onJobFinish } = options;
+    const order = this.topologicalOrder();
+    const inFlight = new Map<string, Promise<void>>();
+
+    const depsOf = (job: JobResult) => job.dependsOn.filter(dep => this.jobs.has(dep));
+
+    // A throwing onJobFinish must not stop the rest of the graph
+    const finish = async (job: JobResult) => {
+      try {
+        await onJobFinish?.(job);
+      } catch (error) {
+        console.error(`onJobFinish failed for sync job ${job.key}:`, error);
+      }
+    };
+
+    const blockDependents = async () => {
+      for (const key of order) {
+        const job = this.jobs.get(key) as JobResult;
+        if (job.status !== 'pending') continue;
+
+        const blocker = depsOf(job).find(dep => {
+          const status = this.jobs.get(dep)?.status;
+          return status === 'failed' || status === 'blocked';
+        });
+
+        if (blocker) {
+          job.status = 'blocked';
+          job.blockedBy = blocker;
+          await finish(job);
+        }
+      }
+    };
+
+    const start = (job: JobResult) => {
+      job.status = 'running';
+
+      const promise = (async () => {
+        try {
+          await onJobStart?.(job);
+          const result = await executor(job.task);
+          job.status = result.success ? 'completed' : 'failed';
+          job.error = result.success ? undefined : result.error || 'Unknown error';
+        } catch (error) {
+          job.status = 'failed';
+          job.error = error instanceof Error ? error.message : String(error);
+        } finally {
+          await finish(job);
+        }
+
+        if (job.status === 'failed') {
+          await blockDependents();
+        }
+      })().finally(() => {
+        inFlight.delete(job.key);
+      });
+
+      inFlight.set(job.key, promise);
+    };
+
+    while (true) {
+      const ready = order
+        .map(key => this.jobs.get(key) as JobResult)
+        .filter(job => job.status === 'pending' &&
+          depsOf(job).every(dep => this.jobs.get(dep)?.status === 'completed'));
+
+      for (const job of ready) {
+        if (inFlight.size >= parallelLimit) break;
+        start(job);
+      }
+
+      if (inFlight.size === 0) break;
+      await Promise.race(inFlight.values());
+    }
+
+    return order.map(key => this.jobs.get(key) as JobResult);
+  }
+}
@@ -8,6 +8,8 @@ import { SongSyncService } from './song-service';
 import { IncrementalSyncService } from './incremental';
 import { SyncQueue } from './queue';
 import { CacheService } from './cache';
+import { SyncJobGraph, JobResult } from './job-graph';
+import { syncShowPlaylists } from '@/lib/spotify/playlist-sync';
 
 /**
  * Central sync manager
@@ -154,51 +156,41 @@ export class SyncManager {
   
   /**
    * Cascade sync for an artist (sync artist and all related shows, setlists)
+   * Shows wait on the artist and their venue; setlists wait on their show.
+   * The jobs are queued rather than run here, so a restart mid-cascade loses nothing.
    */
   async artistCascadeSync(artistId: string): Promise<boolean> {
     try {
-      // First sync the artist
-      const artistResult = await this.artistService.syncArtist(artistId, { force: true });
-      
-      if (!artistResult.success) {
-        return false;
-      }
+      const graph = new SyncJobGraph();
+      const artistKey = graph.addJob({ type: 'artist', id: artistId, priority: 'high', operation: 'refresh' });
       
       // Then get all related shows
       const { data: relatedShows } = await supabase
         .from('shows')
-        .select('id')
+        .select('id, venue_id')
         .eq('artist_id', artistId);
         
-      // Queue all related shows for sync
-      if (relatedShows && relatedShows.length > 0) {
-        for (const show of relatedShows) {
-          this.queue.add({
-            type: 'show',
-            id: show.id,
-            priority: 'medium',
-            operation: 'refresh'
-          });
+      const showKeys = new Map<string, string>();
+      for (const show of relatedShows || []) {
+        const dependsOn = [artistKey];
+        if (show.venue_id) {
+          dependsOn.push(graph.addJob({ type: 'venue', id: show.venue_id, priority: 'medium', operation: 'refresh' }));
         }
+        showKeys.set(show.id, graph.addJob({ type: 'show', id: show.id, priority: 'medium', operation: 'refresh' }, dependsOn));
       }
       
       // Also check for any setlists associated with this artist
       const { data: relatedSetlists } = await supabase
         .from('setlists')
-        .select('id')
+        .select('id, show_id')
         .eq('artist_id', artistId);
         
-      if (relatedSetlists && relatedSetlists.length > 0) {
-        for (const setlist of relatedSetlists) {
-          this.queue.add({
-            type: 'setlist',
-            id: setlist.id,
-            priority: 'medium',
-            operation: 'refresh'
-          });
-        }
+      for (const setlist of relatedSetlists || []) {
+        const parentKey = (setlist.show_id && showKeys.get(setlist.show_id)) || artistKey;
+        graph.addJob({ type: 'setlist', id: setlist.id, priority: 'medium', operation: 'refresh' }, [parentKey]);
       }
       
+      await this.enqueueJobGraph(graph);
       return true;
     } catch (error) {
       console.error(`Error performing cascade sync for artist ${artistId}:`, error);
@@ -208,34 +200,29 @@ export class SyncManager {
   
   /**
    * Cascade sync for a venue (sync venue and all related shows)
+   * Shows wait on the venue and their artist.
+   * The jobs are queued rather than run here, so a restart mid-cascade loses nothing.
    */
   async venueCascadeSync(venueId: string): Promise<boolean> {
     try {
-      // First sync the venue
-      const venueResult = await this.venueService.syncVenue(venueId, { force: true });
-      
-      if (!venueResult.success) {
-        return false;
-      }
+      const graph = new SyncJobGraph();
+      const venueKey = graph.addJob({ type: 'venue', id: venueId, priority: 'high', operation: 'refresh' });
       
       // Then get all related shows
       const { data: relatedShows } = await supabase
         .from('shows')
-        .select('id')
+        .select('id, artist_id')
         .eq('venue_id', venueId);
         
-      // Queue all related shows for sync
-      if (relatedShows && relatedShows.length > 0) {
-        for (const show of relatedShows) {
-          this.queue.add({
-            type: 'show',
-            id: show.id,
-            priority: 'medium',
-            operation: 'refresh'
-          });
+      for (const show of relatedShows || []) {
+        const dependsOn = [venueKey];
+        if (show.artist_id) {
+          dependsOn.push(graph.addJob({ type: 'artist', id: show.artist_id, priority: 'medium', operation: 'refresh' }));
         }
+        graph.addJob({ type: 'show', id: show.id, priority: 'medium', operation: 'refresh' }, dependsOn);
       }
       
+      await this.enqueueJobGraph(graph);
       return true;
     } catch (error) {
       console.error(`Error performing cascade sync for venue ${venueId}:`, error);
@@ -243,6 +230,46 @@ export class SyncManager {
     }
   }
   
+  /**
+   * Bring users' Spotify playlists for a show up to date once its played
+   * setlist is posted. Queued by a trigger on played_setlist_songs.
+   */
+  async syncShowPlaylists(showId: string): Promise<boolean> {
+    try {
+      const written = await syncShowPlaylists(showId);
+      console.log(`Synced ${written} Spotify playlists for show ${showId}`);
+      return true;
+    } catch (error) {
+      console.error(`Error syncing Spotify playlists for show ${showId}:`, error);
+      return false;
+    }
+  }
+  
+  /**
+   * Queue every job of a cascade graph on the durable queue in topological
+   * order, each depending on the queued tasks of its dependencies
+   * Throws if a job cannot be queued, so the cascade task is retried; jobs
+   * queued before that are merged with the retry's.
+   */
+  private async enqueueJobGraph(graph: SyncJobGraph): Promise<Map<string, number>> {
+    const queueIds = new Map<string, number>();
+    
+    for (const key of graph.topologicalOrder()) {
+      const job = graph.get(key) as JobResult;
+      const dependsOn = job.dependsOn
+        .map(dep => queueIds.get(dep))
+        .filter((id): id is number => id !== undefined);
+      
+      const queueId = await this.queue.add(job.task, dependsOn);
+      if (queueId === null) {
+        throw new Error(`Failed to queue cascade job ${key}`);
+      }
+      queueIds.set(key, queueId);
+    }
+    
+    return queueIds;
+  }
+  
   /**
    * Expand artist relations
    */
@@ -253,7 +280,7 @@ export class SyncManager {
       
       // Queue all shows for sync
       for (const show of shows) {
-        this.queue.add({
+        await this.queue.add({
           type: 'show',
           id: show.id,
           priority: 'medium',
@@ -278,7 +305,7 @@ export class SyncManager {
       
       // Queue all shows for sync
       for (const show of shows) {
-        this.queue.add({
+        await this.queue.add({
           type: 'show',
           id: show.id,
           priority: 'medium',
@@ -309,7 +336,7 @@ export class SyncManager {
       
       // Queue artist and venue for sync if available
       if (show.artist_id) {
-        this.queue.add({
+        await this.queue.add({
           type: 'artist',
           id: show.artist_id,
           priority: 'high',
@@ -318,7 +345,7 @@ export class SyncManager {
       }
       
       if (show.venue_id) {
-        this.queue.add({
+        await this.queue.add({
           type: 'venue',
           id: show.venue_id,
           priority: 'high',
@@ -328,7 +355,7 @@ export class SyncManager {
       
       // If show has a setlist, queue it for sync
       if (show.setlist_id) {
-        this.queue.add({
+        await this.queue.add({
           type: 'setlist',
           id: show.setlist_id,
           priority: 'high',
@@ -364,7 +391,7 @@ export class SyncManager {
       if (setlist.songs && Array.isArray(setlist.songs)) {
         for (const song of setlist.songs) {
           if (song.id) {
-            this.queue.add({
+            await this.queue.add({
               type: 'song',
               id: song.id,
               priority: 'low',
@@ -376,7 +403,7 @@ export class SyncManager {
       
       // Queue show for update if available
       if (setlist.show_id) {
-        this.queue.add({
+        await this.queue.add({
           type: 'show',
           id: setlist.show_id,
           priority: 'medium',
@@ -414,7 +441,14 @@ export class SyncManager {
   /**
    * Get queue status
    */
-  getQueueStatus() {
+  async getQueueStatus() {
     return this.queue.getStatus();
   }
+
+  /**
+   * Drain persisted tasks from the shared sync_tasks queue
+   */
+  async processQueue(maxItems?: number) {
+    return this.queue.processQueue(maxItems);
+  }
 } 
\ No newline at end of file
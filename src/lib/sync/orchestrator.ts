@@ -1,5 +1,6 @@
 import { createClient } from '@/integrations/supabase/server';
-import { SyncTask, EntityType, SyncOperation } from './types';
+import { SyncTask, EntityType, SyncOperation, EntityRef } from './types';
+import { SyncJobGraph, JobResult } from './job-graph';
 
 interface OrchestrationOptions {
   trackInDatabase?: boolean;
@@ -13,6 +14,7 @@ interface OrchestrationResult {
   taskId?: string;
   completedTasks?: number;
   failedTasks?: number;
+  blockedTasks?: number;
   message?: string;
   errors?: string[];
 }
@@ -20,9 +22,10 @@ interface OrchestrationResult {
 /**
  * Orchestrator for data synchronization
  * - Centralizes all sync operations
- * - Manages dependencies between entities
- * - Tracks operations in database
- * - Handles retries and error reporting
+ * - Runs tasks as a dependency graph (a show waits on its artist and venue,
+ *   a setlist waits on its show) in topological order
+ * - Tracks operations in database as a parent/child tree
+ * - Handles retries and error reporting; a failed task only blocks its dependents
  */
 export async function orchestrateSync(
   tasks: SyncTask | SyncTask[],
@@ -31,7 +34,7 @@ export async function orchestrateSync(
   const {
     trackInDatabase = true,
     parallelLimit = 5,
-    // dependencyCheck = true, // Removed as it's no longer used
+    dependencyCheck = true,
     retryFailed = true
   } = options;
 
@@ -63,42 +66,38 @@ export async function orchestrateSync(
     }
   }
   
-  // Sort tasks by priority
-  const sortedTasks = [...taskList].sort((a, b) => {
-    const priorityValues = { high: 3, medium: 2, low: 1 };
-    return priorityValues[b.priority || 'medium'] - priorityValues[a.priority || 'medium'];
-  });
-
-  // Dependency check logic is removed as it's now handled within individual sync functions (e.g., sync-show awaits sync-artist/sync-venue)
-  // if (dependencyCheck) {
-  //   console.warn("[Orchestrator] Dependency pre-check is deprecated and bypassed.");
-  //   // const enrichedTasks = await addDependencyTasks(sortedTasks);
-  //   // sortedTasks.splice(0, sortedTasks.length, ...enrichedTasks);
-  // }
+  const graph = buildJobGraph(taskList, dependencyCheck);
+  const operationIds = new Map<string, string>();
 
-  // Process tasks in batches based on parallelLimit
-  let completedCount = 0;
-  let failedCount = 0;
-  
-  // Process in batches for parallelism
-  for (let i = 0; i < sortedTasks.length; i += parallelLimit) {
-    const batch = sortedTasks.slice(i, i + parallelLimit);
-    const results = await Promise.all(
-      batch.map(task => processTask(task, mainTaskId, retryFailed))
-    );
-    
-    results.forEach(result => {
-      if (result.success) {
-        completedCount++;
-      } else {
-        failedCount++;
-        if (result.error) {
-          errors.push(result.error);
+  const results = await graph.run(
+    task => processTask(task, retryFailed),
+    {
+      parallelLimit,
+      onJobStart: async (job) => {
+        if (!mainTaskId) return;
+        const operationId = await trackOperation(job, mainTaskId, operationIds);
+        if (operationId) {
+          operationIds.set(job.key, operationId);
         }
+      },
+      onJobFinish: async (job) => {
+        if (!mainTaskId) return;
+        await finishOperation(job, mainTaskId, operationIds);
       }
-    });
-    console.log(`Batch ${Math.floor(i / parallelLimit) + 1} processed: Completed Tasks: ${completedCount}, Failed Tasks: ${failedCount}`);
-  }
+    }
+  );
+
+  const completedCount = results.filter(job => job.status === 'completed').length;
+  const failedCount = results.filter(job => job.status === 'failed').length;
+  const blockedCount = results.filter(job => job.status === 'blocked').length;
+
+  results.forEach(job => {
+    if (job.status === 'failed' && job.error) {
+      errors.push(`${job.key}: ${job.error}`);
+    } else if (job.status === 'blocked') {
+      errors.push(`${job.key}: blocked by failed dependency ${job.blockedBy}`);
+    }
+  });
   
   // Update main task if tracking is enabled
   if (trackInDatabase && mainTaskId) {
@@ -106,7 +105,7 @@ export async function orchestrateSync(
       await supabase
         .from('sync_operations')
         .update({
-          status: failedCount > 0 ? 'completed_with_errors' : 'completed',
+          status: failedCount + blockedCount > 0 ? 'completed_with_errors' : 'completed',
           completed_at: new Date().toISOString(),
           error: errors.length > 0 ? errors.join('\n') : null
         })
@@ -118,51 +117,125 @@ export async function orchestrateSync(
   }
   
   return {
-    success: failedCount === 0,
+    success: failedCount + blockedCount === 0,
     taskId: mainTaskId,
     completedTasks: completedCount,
     failedTasks: failedCount,
+    blockedTasks: blockedCount,
     errors: errors.length > 0 ? errors : undefined,
-    message: `Completed ${completedCount} tasks with ${failedCount} failures`
+    message: `Completed ${completedCount} tasks with ${failedCount} failures and ${blockedCount} blocked`
   };
 }
 
+/**
+ * Build the job graph for a batch of tasks
+ * Each task's dependsOn entities become jobs of their own (reusing a task from
+ * the batch when one targets the same entity) that must complete first.
+ */
+export function buildJobGraph(tasks: SyncTask[], includeDependencies: boolean = true): SyncJobGraph {
+  const graph = new SyncJobGraph();
+  const priorityValues = { high: 3, medium: 2, low: 1 };
+
+  // Insert higher priority tasks first so they start first among ready jobs
+  const sortedTasks = [...tasks].sort((a, b) =>
+    priorityValues[b.priority || 'medium'] - priorityValues[a.priority || 'medium']
+  );
+
+  const findTask = (ref: EntityRef) =>
+    sortedTasks.find(task => task.type === ref.type && task.id === ref.id);
+
+  for (const task of sortedTasks) {
+    const dependencyKeys = includeDependencies
+      ? (task.dependsOn || []).map(ref => graph.addJob(findTask(ref) || {
+          type: ref.type,
+          id: ref.id,
+          priority: task.priority,
+          operation: 'refresh'
+        }))
+      : [];
+
+    graph.addJob(task, dependencyKeys);
+  }
+
+  return graph;
+}
+
+/**
+ * Record a job as a child of the orchestration in sync_operations
+ */
+async function trackOperation(
+  job: JobResult,
+  parentTaskId: string,
+  operationIds: Map<string, string>,
+  status: string = 'started'
+): Promise<string | undefined> {
+  const supabase = createClient();
+
+  try {
+    const { data, error } = await supabase
+      .from('sync_operations')
+      .insert({
+        task: job.task.operation,
+        entity_type: job.task.type,
+        entity_id: job.task.id,
+        parent_task: parentTaskId,
+        depends_on: job.dependsOn
+          .map(key => operationIds.get(key))
+          .filter((id): id is string => Boolean(id)),
+        priority: job.task.priority,
+        status,
+        started_at: new Date().toISOString()
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data?.id;
+  } catch (err) {
+    console.error(`Failed to create sync task for ${job.task.type} ${job.task.id}:`, err);
+    // Continue even if tracking fails
+    return undefined;
+  }
+}
+
+/**
+ * Record the outcome of a job; blocked jobs never started so get their row here
+ */
+async function finishOperation(
+  job: JobResult,
+  parentTaskId: string,
+  operationIds: Map<string, string>
+): Promise<void> {
+  const supabase = createClient();
+  const operationId = operationIds.get(job.key)
+    || await trackOperation(job, parentTaskId, operationIds, job.status);
+
+  if (!operationId) return;
+
+  try {
+    await supabase
+      .from('sync_operations')
+      .update({
+        status: job.status,
+        completed_at: new Date().toISOString(),
+        error: job.status === 'blocked'
+          ? `Blocked by failed dependency ${job.blockedBy}`
+          : job.error || null
+      })
+      .eq('id', operationId);
+  } catch (err) {
+    console.error(`Failed to update sync task for ${job.task.type} ${job.task.id}:`, err);
+  }
+}
+
 /**
  * Process a single sync task
  */
 async function processTask(
   task: SyncTask,
-  parentTaskId?: string,
   retry: boolean = true
 ): Promise<{ success: boolean; error?: string }> {
-  const startTime = Date.now();
   const supabase = createClient();
-  let taskId: string | undefined;
-  
-  // Create task entry if parent exists
-  if (parentTaskId) {
-    try {
-      const { data, error } = await supabase
-        .from('sync_operations')
-        .insert({
-          task: task.operation,
-          entity_type: task.type,
-          entity_id: task.id,
-          parent_task: parentTaskId,
-          priority: task.priority,
-          status: 'started',
-          started_at: new Date().toISOString()
-        })
-        .select('id')
-        .single();
-        
-      if (error) throw error;
-      taskId = data?.id;
-    } catch (err) {
-      console.error(`Failed to create sync task for ${task.type} ${task.id}:`, err);
-      // Continue even if tracking fails
-    }
-  }
   
   try {
     // Map entity type to function name and the correct ID key expected by the function's payload
@@ -197,40 +270,17 @@ async function processTask(
       throw new Error(`Function ${functionName} reported failure: ${funcData?.error || 'Unknown function error'}`);
     }
     
-    // Update task status
-    if (taskId) {
-      await supabase
-        .from('sync_operations')
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', taskId);
-    }
-    
     return { success: true };
   } catch (error) {
     console.error(`Error processing task ${task.type} ${task.id}:`, error);
     
-    // Update task status
-    if (taskId) {
-      await supabase
-        .from('sync_operations')
-        .update({
-          status: 'failed',
-          completed_at: new Date().toISOString(),
-          error: error instanceof Error ? error.message : String(error)
-        })
-        .eq('id', taskId);
-    }
-    
     // Retry once if enabled
     if (retry && (!task.attempts || task.attempts < 1)) {
       console.log(`Retrying task ${task.type} ${task.id}`);
       return processTask({
         ...task,
         attempts: (task.attempts || 0) + 1
-      }, parentTaskId, false);
+      }, false);
     }
     
     return { 
@@ -240,8 +290,6 @@ async function processTask(
   }
 }
 
-// Removed deprecated addDependencyTasks function as logic is now within sync functions
-
 /**
  * Helper function for creating artist sync task
  */
@@ -256,13 +304,23 @@ export function syncArtist(artistId: string, operation: SyncOperation = 'refresh
 
 /**
  * Helper function for creating show sync task
+ * The show waits on its artist and venue syncs when their IDs are given.
  */
-export function syncShow(showId: string, operation: SyncOperation = 'refresh'): SyncTask {
+export function syncShow(
+  showId: string,
+  operation: SyncOperation = 'refresh',
+  dependencies: { artistId?: string; venueId?: string } = {}
+): SyncTask {
+  const dependsOn: EntityRef[] = [];
+  if (dependencies.artistId) dependsOn.push({ type: 'artist', id: dependencies.artistId });
+  if (dependencies.venueId) dependsOn.push({ type: 'venue', id: dependencies.venueId });
+
   return {
     type: 'show',
     id: showId,
     priority: 'medium',
-    operation
+    operation,
+    dependsOn
   };
 }
 
@@ -280,24 +338,28 @@ export function syncVenue(venueId: string, operation: SyncOperation = 'refresh')
 
 /**
  * Helper function for creating setlist sync task
+ * The setlist waits on its show sync when the show ID is given.
  */
-export function syncSetlist(setlistId: string, operation: SyncOperation = 'refresh'): SyncTask {
+export function syncSetlist(setlistId: string, operation: SyncOperation = 'refresh', showId?: string): SyncTask {
   return {
     type: 'setlist',
     id: setlistId,
     priority: 'medium',
-    operation
+    operation,
+    dependsOn: showId ? [{ type: 'show', id: showId }] : []
   };
 }
 
 /**
  * Helper function for creating song sync task
+ * The song waits on its show sync when the show ID is given.
  */
-export function syncSong(songId: string, operation: SyncOperation = 'refresh'): SyncTask {
+export function syncSong(songId: string, operation: SyncOperation = 'refresh', showId?: string): SyncTask {
   return {
     type: 'song',
     id: songId,
     priority: 'low',
-    operation
+    operation,
+    dependsOn: showId ? [{ type: 'show', id: showId }] : []
   };
 }
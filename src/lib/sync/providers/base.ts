@@ -0,0 +1,98 @@
+import { ProviderParams } from "./types";
+
+/**
+ * Read a provider setting from the Vite env, falling back to process.env
+ * on the server
+ */
+export function readEnv(name: string): string | undefined {
+  const value =
+    import.meta.env?.[name] ??
+    (typeof process !== "undefined" ? process.env?.[name] : undefined);
+  return value || undefined;
+}
+
+/**
+ * Resolve a provider base URL, overridable through the environment so local
+ * runs and CI can point adapters at the fake servers in tests/fakes
+ */
+export function resolveBaseUrl(envName: string, fallback: string): string {
+  const baseUrl = readEnv(envName) || fallback;
+  return baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`;
+}
+
+// Upstream API roots. Everything that calls a provider builds its URLs from
+// these, so the env overrides reach every caller.
+export const ticketmasterBaseUrl = () =>
+  resolveBaseUrl("VITE_TICKETMASTER_BASE_URL", "https://app.ticketmaster.com/discovery/v2/");
+export const spotifyApiBaseUrl = () =>
+  resolveBaseUrl("VITE_SPOTIFY_API_BASE_URL", "https://api.spotify.com/v1/");
+export const spotifyAccountsBaseUrl = () =>
+  resolveBaseUrl("VITE_SPOTIFY_ACCOUNTS_BASE_URL", "https://accounts.spotify.com/");
+export const setlistFmBaseUrl = () =>
+  resolveBaseUrl("VITE_SETLISTFM_BASE_URL", "https://api.setlist.fm/rest/1.0/");
+
+/**
+ * Build a request URL for an endpoint relative to a base URL
+ * Absolute endpoints (e.g. pagination links) are used as-is.
+ */
+export function buildProviderUrl(
+  baseUrl: string,
+  endpoint: string,
+  params?: ProviderParams,
+): URL {
+  const url = /^https?:\/\//.test(endpoint)
+    ? new URL(endpoint)
+    : new URL(endpoint.replace(/^\//, ""), baseUrl);
+
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        url.searchParams.append(key, String(value));
+      }
+    });
+  }
+
+  return url;
+}
+
+/**
+ * Error for a non-2xx upstream response
+ * Carries the status and Retry-After so callers can back off on 429.
+ */
+export class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly retryAfterSeconds: number | null = null,
+  ) {
+    super(message);
+    this.name = "ProviderRequestError";
+  }
+
+  static fromResponse(label: string, response: Response): ProviderRequestError {
+    return new ProviderRequestError(
+      `${label} API error: ${response.status} ${response.statusText}`,
+      response.status,
+      parseRetryAfter(response.headers.get("Retry-After")),
+    );
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, (date - Date.now()) / 1000);
+  }
+
+  return null;
+}
@@ -0,0 +1,51 @@
+import { ProviderAdapter, ProviderName } from "./types";
+import { createTicketmasterProvider } from "./ticketmaster";
+import { createSpotifyProvider } from "./spotify";
+import { createSetlistFmProvider } from "./setlistfm";
+
+export * from "./types";
+export { ProviderRequestError, parseRetryAfter } from "./base";
+export { createTicketmasterProvider, createSpotifyProvider, createSetlistFmProvider };
+
+const registry = new Map<ProviderName, ProviderAdapter>();
+
+/**
+ * Get the adapter for an upstream API
+ * Default adapters are created lazily so env overrides are read at first use.
+ */
+export function getProvider(name: ProviderName): ProviderAdapter {
+  let provider = registry.get(name);
+
+  if (!provider) {
+    switch (name) {
+      case "ticketmaster":
+        provider = createTicketmasterProvider();
+        break;
+      case "spotify":
+        provider = createSpotifyProvider();
+        break;
+      case "setlistfm":
+        provider = createSetlistFmProvider();
+        break;
+      default:
+        throw new Error(`Unknown API: ${name}`);
+    }
+    registry.set(name, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Replace the adapter for an upstream API (e.g. one pointed at a fake server)
+ */
+export function registerProvider(provider: ProviderAdapter): void {
+  registry.set(provider.name, provider);
+}
+
+/**
+ * Drop registered adapters so the defaults are rebuilt on next use
+ */
+export function resetProviders(): void {
+  registry.clear();
+}
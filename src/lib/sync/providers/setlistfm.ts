@@ -0,0 +1,39 @@
+import { ProviderAdapter } from "./types";
+import { buildProviderUrl, ProviderRequestError, readEnv, setlistFmBaseUrl } from "./base";
+
+/**
+ * Setlist.fm API adapter
+ * Authenticates with the x-api-key header.
+ */
+export function createSetlistFmProvider(
+  baseUrl = setlistFmBaseUrl(),
+): ProviderAdapter {
+  return {
+    name: "setlistfm",
+    baseUrl,
+    rateLimit: { max: 2, window: 1000 }, // 2 requests per second
+    isConfigured: () => Boolean(readEnv("VITE_SETLISTFM_API_KEY")),
+
+    async request(endpoint, params) {
+      const apiKey = readEnv("VITE_SETLISTFM_API_KEY");
+      if (!apiKey) {
+        throw new Error("Missing Setlist.fm API key");
+      }
+
+      const url = buildProviderUrl(baseUrl, endpoint, params);
+
+      const response = await fetch(url.toString(), {
+        headers: {
+          "x-api-key": apiKey,
+          Accept: "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        throw ProviderRequestError.fromResponse("Setlist.fm", response);
+      }
+
+      return response.json();
+    },
+  };
+}
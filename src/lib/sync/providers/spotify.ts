@@ -0,0 +1,94 @@
+import { ProviderAdapter } from "./types";
+import { buildProviderUrl, ProviderRequestError, readEnv, spotifyAccountsBaseUrl, spotifyApiBaseUrl } from "./base";
+
+/**
+ * Spotify Web API adapter
+ * Uses the client credentials flow; the token is cached in memory and, in the
+ * browser, in localStorage.
+ */
+export function createSpotifyProvider(
+  baseUrl = spotifyApiBaseUrl(),
+  accountsUrl = spotifyAccountsBaseUrl(),
+): ProviderAdapter {
+  let tokenCache: { token: string; expiryTime: number } | null = null;
+
+  const getToken = async (clientId: string, clientSecret: string): Promise<string> => {
+    // Check if we have a cached token in memory
+    if (tokenCache && tokenCache.expiryTime > Date.now()) {
+      return tokenCache.token;
+    }
+
+    // Try localStorage if we're in a browser context
+    if (typeof window !== "undefined") {
+      const cachedToken = localStorage.getItem("spotify_token");
+      const cachedExpiry = localStorage.getItem("spotify_token_expiry");
+
+      if (cachedToken && cachedExpiry) {
+        const expiryTime = parseInt(cachedExpiry, 10);
+        if (expiryTime > Date.now()) {
+          return cachedToken;
+        }
+      }
+    }
+
+    // Get a new token
+    const response = await fetch(new URL("api/token", accountsUrl).toString(), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: "Basic " + btoa(`${clientId}:${clientSecret}`),
+      },
+      body: "grant_type=client_credentials",
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to get Spotify access token");
+    }
+
+    const data = await response.json();
+    const token = data.access_token;
+    const expiryTime = Date.now() + (data.expires_in - 60) * 1000;
+
+    tokenCache = { token, expiryTime };
+
+    if (typeof window !== "undefined") {
+      localStorage.setItem("spotify_token", token);
+      localStorage.setItem("spotify_token_expiry", String(expiryTime));
+    }
+
+    return token;
+  };
+
+  return {
+    name: "spotify",
+    baseUrl,
+    rateLimit: { max: 30, window: 60000 }, // 30 requests per minute
+    isConfigured: () =>
+      Boolean(readEnv("VITE_SPOTIFY_CLIENT_ID") && readEnv("VITE_SPOTIFY_CLIENT_SECRET")),
+
+    async request(endpoint, params) {
+      const clientId = readEnv("VITE_SPOTIFY_CLIENT_ID");
+      const clientSecret = readEnv("VITE_SPOTIFY_CLIENT_SECRET");
+
+      if (!clientId || !clientSecret) {
+        throw new Error("Missing Spotify API credentials");
+      }
+
+      const token = await getToken(clientId, clientSecret);
+      const url = buildProviderUrl(baseUrl, endpoint, params);
+
+      const response = await fetch(url.toString(), {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        throw ProviderRequestError.fromResponse("Spotify", response);
+      }
+
+      return response.json();
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { ProviderAdapter } from "./types";
+import { buildProviderUrl, ProviderRequestError, readEnv, ticketmasterBaseUrl } from "./base";
+
+/**
+ * Ticketmaster Discovery API adapter
+ * Authenticates with the apikey query parameter.
+ */
+export function createTicketmasterProvider(
+  baseUrl = ticketmasterBaseUrl(),
+): ProviderAdapter {
+  return {
+    name: "ticketmaster",
+    baseUrl,
+    rateLimit: { max: 5, window: 1000 }, // 5 requests per second
+    isConfigured: () => Boolean(readEnv("VITE_TICKETMASTER_API_KEY")),
+
+    async request(endpoint, params) {
+      const apiKey = readEnv("VITE_TICKETMASTER_API_KEY");
+      if (!apiKey) {
+        throw new Error("Missing Ticketmaster API key");
+      }
+
+      const url = buildProviderUrl(baseUrl, endpoint, params);
+      url.searchParams.set("apikey", apiKey);
+
+      const response = await fetch(url.toString(), {
+        headers: {
+          Accept: "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        throw ProviderRequestError.fromResponse("Ticketmaster", response);
+      }
+
+      return response.json();
+    },
+  };
+}
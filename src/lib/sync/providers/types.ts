@@ -0,0 +1,23 @@
+export type ProviderName = "ticketmaster" | "spotify" | "setlistfm";
+
+export type ProviderParams = Record<string, string | number | boolean | null | undefined>;
+
+export interface ProviderRateLimit {
+  max: number; // Requests allowed per window
+  window: number; // Window length in ms
+}
+
+/**
+ * One adapter per upstream API
+ * The adapter owns the base URL and authentication; callers only pass an
+ * endpoint relative to the base URL plus query params.
+ */
+export interface ProviderAdapter {
+  name: ProviderName;
+  baseUrl: string;
+  rateLimit: ProviderRateLimit;
+  /** Whether the credentials this provider needs are available */
+  isConfigured(): boolean;
+  /** Perform a GET request and return the parsed JSON body */
+  request<T = any>(endpoint: string, params?: ProviderParams): Promise<T>;
+}
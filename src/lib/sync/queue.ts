@@ -1,127 +1,215 @@
-import { SyncTask } from './types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { adminClient } from '@/lib/db';
+import type { Database } from '@/integrations/supabase/types';
+import { SyncTask, EntityType, PriorityLevel, SyncOperation, QueueStatus, PRIORITY_VALUES } from './types';
 import { SyncManager } from './manager';
 
+interface SyncQueueOptions {
+  client?: SupabaseClient<Database>;
+  workerId?: string;
+  leaseSeconds?: number;
+  maxAttempts?: number;
+}
+
+type SyncTaskRow = Database['public']['Tables']['sync_tasks']['Row'];
+
 /**
- * Priority-based queue system for processing sync tasks
- * Handles task scheduling and execution with prioritization
+ * Durable priority queue for processing sync tasks
+ * Tasks are persisted in the sync_tasks table and claimed under a lease with
+ * the claim_next_sync_item RPC, so pending work survives reloads and restarts
+ * and is shared with the process-sync-queue edge function.
+ * The queue RPCs are service-role only, so this runs on the server with the
+ * admin client, which requires SUPABASE_SERVICE_ROLE_KEY.
  */
 export class SyncQueue {
-  private highPriorityQueue: SyncTask[] = [];
-  private mediumPriorityQueue: SyncTask[] = [];
-  private lowPriorityQueue: SyncTask[] = [];
   private isProcessing = false;
-  
-  constructor(private syncManager: SyncManager) {}
-  
+  private readonly client: SupabaseClient<Database>;
+  private readonly workerId: string;
+  private readonly leaseSeconds: number;
+  private readonly maxAttempts: number;
+
+  constructor(private syncManager: SyncManager, options: SyncQueueOptions = {}) {
+    this.client = options.client ?? (adminClient() as SupabaseClient<Database>);
+    this.workerId = options.workerId || `sync-manager-${Math.random().toString(36).slice(2, 10)}`;
+    this.leaseSeconds = options.leaseSeconds ?? 300;
+    this.maxAttempts = options.maxAttempts ?? 3;
+  }
+
   /**
-   * Add a new task to the appropriate priority queue
+   * Persist a task to the queue
+   * A live task with the same (type, id, operation) is merged rather than
+   * duplicated; one that is already running is run again once it finishes.
+   * dependsOn lists sync_tasks ids that must complete before this task is claimed.
+   * Returns the sync_tasks id, or null if the task could not be stored.
    */
-  add(task: SyncTask) {
-    // Set default attempts if not specified
-    const finalTask = { ...task, attempts: task.attempts || 0 };
-    
-    // Add to appropriate queue based on priority
-    switch(finalTask.priority) {
-      case 'high': 
-        this.highPriorityQueue.push(finalTask); 
-        break;
-      case 'medium': 
-        this.mediumPriorityQueue.push(finalTask); 
-        break;
-      case 'low': 
-        this.lowPriorityQueue.push(finalTask); 
-        break;
+  async add(task: SyncTask, dependsOn: number[] = []): Promise<number | null> {
+    const { data, error } = await this.client.rpc('enqueue_sync_task', {
+      p_entity_type: task.type,
+      p_external_id: task.id,
+      p_operation: task.operation,
+      p_priority: PRIORITY_VALUES[task.priority],
+      p_payload: task.payload ?? null,
+      p_max_attempts: this.maxAttempts,
+      p_depends_on: dependsOn
+    });
+
+    if (error) {
+      console.error(`Error enqueuing ${task.operation} task for ${task.type} ${task.id}:`, error);
+      return null;
     }
-    
+
     // Start processing if not already running
     if (!this.isProcessing) {
       this.processQueue();
     }
+
+    return data && data.length > 0 ? data[0].id : null;
   }
-  
+
   /**
-   * Process all queued tasks in priority order
+   * Claim and process queued tasks in priority order until nothing is
+   * visible, including tasks enqueued while the queue was being worked.
+   * maxItems caps a run for callers with a time budget, such as the cron route.
+   * Returns the number of tasks processed.
    */
-  private async processQueue() {
+  async processQueue(maxItems: number = Infinity): Promise<number> {
+    if (this.isProcessing) return 0;
     this.isProcessing = true;
-    
+
+    let processed = 0;
     try {
-      while (
-        this.highPriorityQueue.length > 0 ||
-        this.mediumPriorityQueue.length > 0 ||
-        this.lowPriorityQueue.length > 0
-      ) {
-        // Process tasks in priority order
-        const nextTask = this.highPriorityQueue.shift() || 
-                        this.mediumPriorityQueue.shift() ||
-                        this.lowPriorityQueue.shift();
-                        
-        if (nextTask) {
-          await this.processTask(nextTask);
+      while (processed < maxItems) {
+        const { data, error } = await this.client.rpc('claim_next_sync_item', {
+          p_worker_id: this.workerId,
+          p_lease_seconds: this.leaseSeconds
+        });
+
+        if (error) {
+          console.error('Error claiming next sync task:', error);
+          break;
+        }
+
+        if (!data || data.length === 0) {
+          break;
         }
+
+        await this.processTask(this.toSyncTask(data[0]));
+        processed++;
       }
     } catch (error) {
       console.error('Error processing sync queue:', error);
     } finally {
       this.isProcessing = false;
     }
+
+    return processed;
   }
-  
+
   /**
-   * Process an individual task and handle errors with retries
+   * Process an individual claimed task and report the outcome to the queue
+   * Retries and dead-lettering are handled by fail_sync_item.
    */
   private async processTask(task: SyncTask) {
     try {
-      console.log(`Processing ${task.operation} task for ${task.type} ${task.id}`);
-      
+      console.log(`Processing ${task.operation} task for ${task.type} ${task.id} (attempt ${task.attempts})`);
+
+      let succeeded = true;
       switch(task.operation) {
-        case 'create': 
-          await this.syncManager.createSingle(task.type, task.id);
+        case 'create':
+          succeeded = await this.syncManager.createSingle(task.type, task.id);
           break;
-        case 'refresh': 
-          await this.syncManager.refreshSingle(task.type, task.id);
+        case 'refresh':
+          succeeded = await this.syncManager.refreshSingle(task.type, task.id);
           break;
         case 'expand_relations':
-          await this.syncManager.expandRelations(task.type, task.id);
+          succeeded = await this.syncManager.expandRelations(task.type, task.id);
           break;
         case 'cascade_sync':
           if (task.type === 'venue') {
-            await this.syncManager.venueCascadeSync(task.id);
+            succeeded = await this.syncManager.venueCascadeSync(task.id);
           } else if (task.type === 'artist') {
-            await this.syncManager.artistCascadeSync(task.id);
+            succeeded = await this.syncManager.artistCascadeSync(task.id);
           }
           break;
+        case 'sync_playlists':
+          succeeded = await this.syncManager.syncShowPlaylists(task.id);
+          break;
+      }
+
+      if (!succeeded) {
+        throw new Error(`${task.operation} reported failure for ${task.type} ${task.id}`);
       }
+
+      await this.client.rpc('complete_sync_item', {
+        item_id: task.queueId as number,
+        p_worker_id: this.workerId
+      });
     } catch (error) {
       console.error(`Error processing task:`, task, error);
-      
-      // Add retry logic with exponential backoff
-      if (task.attempts < 3) {
-        const delayMs = Math.pow(2, task.attempts) * 1000; // Exponential backoff
-        console.log(`Retrying task in ${delayMs}ms...`);
-        
-        setTimeout(() => {
-          this.add({
-            ...task, 
-            attempts: task.attempts + 1, 
-            priority: 'low' // Downgrade priority on retries
-          });
-        }, delayMs);
-      } else {
+
+      const message = error instanceof Error ? error.message : String(error);
+      const { data: status, error: failError } = await this.client.rpc('fail_sync_item', {
+        item_id: task.queueId as number,
+        error_message: message.substring(0, 500),
+        p_worker_id: this.workerId
+      });
+
+      if (failError) {
+        console.error(`Error marking sync task ${task.queueId} as failed:`, failError);
+      } else if (status === 'dead_letter') {
         console.error(`Giving up on task after ${task.attempts} attempts:`, task);
       }
     }
   }
-  
+
+  /**
+   * Map a sync_tasks row back to a SyncTask
+   */
+  private toSyncTask(row: SyncTaskRow): SyncTask {
+    const priority = (Object.keys(PRIORITY_VALUES) as PriorityLevel[])
+      .find(level => PRIORITY_VALUES[level] === row.priority) || 'low';
+
+    return {
+      type: row.entity_type as EntityType,
+      id: row.external_id,
+      operation: row.operation as SyncOperation,
+      priority,
+      attempts: row.attempts,
+      payload: row.payload ?? undefined,
+      queueId: row.id
+    };
+  }
+
   /**
    * Get the current queue status
    */
-  getStatus() {
+  async getStatus(): Promise<QueueStatus> {
+    const countByStatus = async (status: string) => {
+      const { count, error } = await this.client
+        .from('sync_tasks')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status);
+
+      if (error) {
+        console.error(`Error counting ${status} sync tasks:`, error);
+        return 0;
+      }
+      return count || 0;
+    };
+
+    const [pending, processing, retrying, deadLetter] = await Promise.all([
+      countByStatus('pending'),
+      countByStatus('processing'),
+      countByStatus('retrying'),
+      countByStatus('dead_letter')
+    ]);
+
     return {
-      highPriority: this.highPriorityQueue.length,
-      mediumPriority: this.mediumPriorityQueue.length,
-      lowPriority: this.lowPriorityQueue.length,
+      pending,
+      processing,
+      retrying,
+      deadLetter,
       isProcessing: this.isProcessing
     };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,201 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { adminClient } from '@/lib/db';
+import type { Database } from '@/integrations/supabase/types';
+import { ApiRateLimit } from './types';
+import { ProviderName, ProviderRateLimit } from './providers';
+
+export interface RateLimitBudget {
+  provider: string;
+  capacity: number;
+  refillPerSecond: number;
+  tokensAvailable: number;
+  blockedUntil: string | null;
+  consecutiveThrottles: number;
+  lastThrottledAt: string | null;
+  requestsGranted: number;
+  requestsThrottled: number;
+}
+
+interface SharedRateLimiterOptions {
+  // null paces every request locally
+  client?: SupabaseClient<Database> | null;
+}
+
+type RpcError = { code?: string; message: string };
+
+// Upper bound on a single sleep, so a long Retry-After is re-checked periodically
+const MAX_WAIT_MS = 30000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A misconfigured key is not an outage, so it must not be paced around silently
+const isPermissionError = (error: RpcError) =>
+  error.code === '42501' || error.message.includes('permission denied');
+
+/**
+ * Token-bucket rate limiter shared across processes
+ * Buckets live in provider_rate_limits and are taken from with the
+ * acquire_rate_limit_token RPC, so Next.js workers and the edge functions
+ * draw from one budget per provider. The bucket RPCs are service-role only,
+ * so in the browser, or if the database cannot be reached, this falls back
+ * to a per-instance counter so requests still get paced. A permission error
+ * from the RPCs is thrown rather than paced locally.
+ */
+export class SharedRateLimiter {
+  private localLimits: Partial<Record<ProviderName, ApiRateLimit>> = {};
+  // Providers we saw throttled, so success is only reported when it resets backoff
+  private throttled = new Set<ProviderName>();
+  // undefined until first use, so importing this module doesn't need the service key
+  private clientInstance: SupabaseClient<Database> | null | undefined;
+
+  constructor(options: SharedRateLimiterOptions = {}) {
+    this.clientInstance = options.client;
+  }
+
+  private get client(): SupabaseClient<Database> | null {
+    if (this.clientInstance === undefined) {
+      this.clientInstance = typeof window === 'undefined'
+        ? adminClient() as SupabaseClient<Database>
+        : null;
+    }
+    return this.clientInstance;
+  }
+
+  /**
+   * Wait until the provider's bucket grants a token
+   */
+  async acquire(provider: ProviderName, fallback: ProviderRateLimit): Promise<void> {
+    if (!this.client) return this.acquireLocal(provider, fallback);
+
+    while (true) {
+      const { data, error } = await this.client.rpc('acquire_rate_limit_token', {
+        p_provider: provider
+      });
+
+      if (error && isPermissionError(error)) {
+        throw new Error(`Shared rate limiter denied for ${provider}: ${error.message}`);
+      }
+
+      if (error || !data || data.length === 0) {
+        if (error) {
+          console.warn(`Shared rate limiter unavailable for ${provider}, using local limit:`, error.message);
+        }
+        return this.acquireLocal(provider, fallback);
+      }
+
+      const { granted, wait_ms } = data[0];
+      if (granted) return;
+
+      const waitTime = Math.min(Math.max(wait_ms, 50), MAX_WAIT_MS);
+      console.log(`Rate limit reached for ${provider}, waiting ${waitTime}ms`);
+      await sleep(waitTime);
+    }
+  }
+
+  /**
+   * Record an upstream response status
+   * A 429 closes the provider's bucket for everyone until Retry-After (or an
+   * exponential backoff); the first success afterwards clears the backoff.
+   */
+  async reportResponse(
+    provider: ProviderName,
+    status: number,
+    retryAfterSeconds: number | null = null
+  ): Promise<void> {
+    if (status !== 429 && !this.throttled.has(provider)) return;
+
+    if (!this.client) {
+      // Still honor Retry-After locally
+      if (status === 429) {
+        await sleep(Math.min((retryAfterSeconds ?? 1) * 1000, MAX_WAIT_MS));
+      }
+      return;
+    }
+
+    if (status === 429) {
+      this.throttled.add(provider);
+    } else {
+      this.throttled.delete(provider);
+    }
+
+    const { data: blockedUntil, error } = await this.client.rpc('report_rate_limit_response', {
+      p_provider: provider,
+      p_status: status,
+      p_retry_after_seconds: retryAfterSeconds
+    });
+
+    if (error && isPermissionError(error)) {
+      throw new Error(`Shared rate limiter denied for ${provider}: ${error.message}`);
+    }
+
+    if (error) {
+      console.warn(`Error reporting ${status} from ${provider} to the shared rate limiter:`, error.message);
+      // Still honor Retry-After locally
+      if (status === 429) {
+        await sleep(Math.min((retryAfterSeconds ?? 1) * 1000, MAX_WAIT_MS));
+      }
+      return;
+    }
+
+    if (status === 429) {
+      console.warn(`${provider} returned 429, backing off until ${blockedUntil}`);
+    }
+  }
+
+  /**
+   * Current budget usage for every provider
+   */
+  async getBudgets(): Promise<RateLimitBudget[]> {
+    if (!this.client) return [];
+
+    const { data, error } = await this.client.rpc('get_rate_limit_budgets');
+
+    if (error) {
+      console.error('Error fetching rate limit budgets:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      provider: row.provider,
+      capacity: Number(row.capacity),
+      refillPerSecond: Number(row.refill_per_second),
+      tokensAvailable: Number(row.tokens_available),
+      blockedUntil: row.blocked_until,
+      consecutiveThrottles: row.consecutive_throttles,
+      lastThrottledAt: row.last_throttled_at,
+      requestsGranted: Number(row.requests_granted),
+      requestsThrottled: Number(row.requests_throttled)
+    }));
+  }
+
+  /**
+   * Per-instance fallback: fixed window counter
+   */
+  private async acquireLocal(provider: ProviderName, config: ProviderRateLimit): Promise<void> {
+    const now = Date.now();
+    let limit = this.localLimits[provider];
+
+    if (!limit) {
+      limit = { ...config, current: 0, lastReset: now };
+      this.localLimits[provider] = limit;
+    }
+
+    if (now - limit.lastReset > limit.window) {
+      limit.current = 0;
+      limit.lastReset = now;
+    }
+
+    if (limit.current >= limit.max) {
+      const waitTime = limit.window - (now - limit.lastReset) + 50; // Add 50ms buffer
+      console.log(`Rate limit reached for ${provider}, waiting ${waitTime}ms`);
+      await sleep(waitTime);
+      limit.current = 0;
+      limit.lastReset = Date.now();
+    }
+
+    limit.current++;
+  }
+}
+
+// One limiter per process; the budget itself is shared through the database
+export const sharedRateLimiter = new SharedRateLimiter();
@@ -2,7 +2,7 @@ import { Artist, Show, Venue, Song } from '@/lib/types';
 
 export type EntityType = 'artist' | 'venue' | 'show' | 'setlist' | 'song';
 export type PriorityLevel = 'high' | 'medium' | 'low';
-export type SyncOperation = 'create' | 'refresh' | 'expand_relations' | 'cascade_sync';
+export type SyncOperation = 'create' | 'refresh' | 'expand_relations' | 'cascade_sync' | 'sync_playlists';
 
 export interface SyncTask {
   type: EntityType;
@@ -11,6 +11,28 @@ export interface SyncTask {
   operation: SyncOperation;
   attempts?: number;
   payload?: any;
+  queueId?: number; // sync_tasks.id once the task has been persisted
+  dependsOn?: EntityRef[]; // Entities that must sync successfully before this task runs
+}
+
+/**
+ * Lifecycle of a persisted task in the sync_tasks table
+ */
+export type QueueTaskStatus = 'pending' | 'processing' | 'retrying' | 'completed' | 'dead_letter';
+
+// sync_tasks.priority is an integer where a higher number is claimed first
+export const PRIORITY_VALUES: Record<PriorityLevel, number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+export interface QueueStatus {
+  pending: number;
+  processing: number;
+  retrying: number;
+  deadLetter: number;
+  isProcessing: boolean;
 }
 
 export interface SyncState {
@@ -3,6 +3,7 @@ import { APIClientManager } from './api-client';
 import { IncrementalSyncService } from './incremental';
 import { SyncOptions, SyncResult } from './types';
 import { Venue, Show } from '@/lib/types'; // Assuming Venue/Show types match DB or need update
+import { parseVenueCoordinates } from '@/lib/geo';
 
 // --- Interfaces for API Responses ---
 // Simplified - add more detail as needed
@@ -43,6 +44,7 @@ interface TmVenueData {
   state?: TmState;
   country?: TmCountry;
   location?: TmLocation;
+  timezone?: string;
 }
 
 interface TmAttraction { // Copied from artist-service for consistency
@@ -84,6 +86,7 @@ interface TmVenueResponse {
   state?: TmState;
   country?: TmCountry;
   location?: TmLocation;
+  timezone?: string;
 }
 
 interface TmEventResponse {
@@ -188,6 +191,8 @@ export class VenueSyncService {
           tmData.city?.name
         ].filter(Boolean).join(', ');
         
+        const coordinates = parseVenueCoordinates(tmData.location);
+        
         // Simplify object creation and explicitly cast
         venue = {
           id: venue?.id || undefined, // Keep existing UUID if updating
@@ -197,6 +202,9 @@ export class VenueSyncService {
           state: tmData.state?.stateCode || venue?.state || null,
           country: tmData.country?.countryCode || venue?.country || null,
           image_url: this.getBestImage(tmData.images) || venue?.image_url || null,
+          latitude: coordinates?.latitude ?? venue?.latitude ?? null,
+          longitude: coordinates?.longitude ?? venue?.longitude ?? null,
+          timezone: tmData.timezone || venue?.timezone || null,
           // Preserve existing created_at or set default, always update updated_at
           created_at: venue?.created_at || new Date().toISOString(),
           updated_at: new Date().toISOString(),
@@ -210,6 +218,58 @@ export class VenueSyncService {
     return venue;
   }
   
+  /**
+   * Fill in coordinates for Ticketmaster venues stored without them (or
+   * whose text coordinates didn't survive the numeric conversion).
+   * Oldest venues first; returns how many were updated.
+   */
+  async backfillVenueCoordinates(limit = 50): Promise<number> {
+    const { data: venues, error } = await supabase
+      .from('venues')
+      .select('id, external_id')
+      .is('latitude', null)
+      .not('external_id', 'is', null)
+      .order('updated_at', { ascending: true, nullsFirst: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('[VenueService] Error loading venues without coordinates:', error);
+      return 0;
+    }
+
+    let updated = 0;
+    for (const venue of venues || []) {
+      try {
+        const tmData = await this.apiClient.callAPI(
+          'ticketmaster',
+          `venues/${venue.external_id}`,
+          {}
+        ) as TmVenueResponse | null;
+
+        const coordinates = parseVenueCoordinates(tmData?.location);
+        // Touch updated_at either way so venues without a location don't block the queue
+        const { error: updateError } = await supabase
+          .from('venues')
+          .update({
+            ...(coordinates ? { latitude: coordinates.latitude, longitude: coordinates.longitude } : {}),
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', venue.id);
+
+        if (updateError) {
+          console.error(`[VenueService] Error saving coordinates for venue ${venue.id}:`, updateError);
+        } else if (coordinates) {
+          updated++;
+        }
+      } catch (fetchError) {
+        console.warn(`[VenueService] Error fetching Ticketmaster location for venue ${venue.external_id}:`, fetchError);
+      }
+    }
+
+    console.log(`[VenueService] Backfilled coordinates for ${updated} of ${venues?.length || 0} venues`);
+    return updated;
+  }
+
   /**
    * Get the best quality image from an array of images
    */
@@ -335,6 +395,7 @@ export class VenueSyncService {
         if (!tmVenue.id || !tmVenue.name) continue;
 
         // Construct venue object matching the 'venues' table schema from schema.sql
+        const coordinates = parseVenueCoordinates(tmVenue.location);
         const venue = {
           external_id: tmVenue.id,
           name: tmVenue.name, // Known non-null due to check above
@@ -342,6 +403,8 @@ export class VenueSyncService {
           state: tmVenue.state?.stateCode || null,
           country: tmVenue.country?.countryCode || null,
           image_url: this.getBestImage(tmVenue.images),
+          latitude: coordinates?.latitude ?? null,
+          longitude: coordinates?.longitude ?? null,
         };
 
         // We push the venue data as returned by the API *before* invoking the sync.
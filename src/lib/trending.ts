@@ -0,0 +1,120 @@
+/**
+ * Trending show lists. Scores are computed in the database from vote
+ * velocity, unique voters, page views, artist popularity and days until the
+ * show (see 024_trending.sql); these helpers parse the list filters of
+ * /api/shows/trending and shape its rows for the show cards.
+ */
+import type { Database } from '@/integrations/supabase/types';
+
+export const DEFAULT_TRENDING_LIMIT = 10;
+export const MAX_TRENDING_LIMIT = 100;
+
+type TrendingShowRow = Database['public']['Functions']['get_trending_shows']['Returns'][number];
+
+export interface TrendingQuery {
+  limit: number;
+  // Region: venue country and/or state, e.g. "United States Of America", "CA"
+  country: string | null;
+  state: string | null;
+  // Genre slug or Ticketmaster genre ID
+  genre: string | null;
+}
+
+export interface TrendingShow {
+  id: string;
+  name: string;
+  date: string;
+  image_url: string | null;
+  ticket_url: string | null;
+  popularity: number | null;
+  trending_score: number;
+  artist: {
+    id: string;
+    name: string | null;
+    image_url: string | null;
+    genres: string[] | null;
+  } | null;
+  venue: {
+    id: string;
+    name: string | null;
+    city: string | null;
+    state: string | null;
+    country: string | null;
+  } | null;
+}
+
+function parseFilter(value: string | null): string | null {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+}
+
+/**
+ * Parse the limit, country, state and genre query parameters of
+ * /api/shows/trending
+ */
+export function parseTrendingQuery(params: URLSearchParams): TrendingQuery {
+  const limitParam = Number(params.get('limit'));
+  const limit = Number.isInteger(limitParam) && limitParam > 0
+    ? Math.min(limitParam, MAX_TRENDING_LIMIT)
+    : DEFAULT_TRENDING_LIMIT;
+
+  return {
+    limit,
+    country: parseFilter(params.get('country')),
+    state: parseFilter(params.get('state')),
+    genre: parseFilter(params.get('genre')),
+  };
+}
+
+/**
+ * The /api/shows/trending URL for a list, leaving out unset filters
+ */
+export function trendingShowsUrl(query: Partial<TrendingQuery> = {}): string {
+  const params = new URLSearchParams();
+  if (query.limit) params.set('limit', String(query.limit));
+  if (query.country) params.set('country', query.country);
+  if (query.state) params.set('state', query.state);
+  if (query.genre) params.set('genre', query.genre);
+
+  const search = params.toString();
+  return search ? `/api/shows/trending?${search}` : '/api/shows/trending';
+}
+
+/**
+ * Fetch a trending list from /api/shows/trending
+ */
+export async function fetchTrendingShows(query: Partial<TrendingQuery> = {}): Promise<TrendingShow[]> {
+  const response = await fetch(trendingShowsUrl(query));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch trending shows: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Nest a get_trending_shows row into the show card shape
+ */
+export function toTrendingShow(row: TrendingShowRow): TrendingShow {
+  return {
+    id: row.show_id,
+    name: row.show_name,
+    date: row.date,
+    image_url: row.image_url,
+    ticket_url: row.ticket_url,
+    popularity: row.popularity,
+    trending_score: row.trending_score,
+    artist: row.artist_id ? {
+      id: row.artist_id,
+      name: row.artist_name,
+      image_url: row.artist_image_url,
+      genres: row.artist_genres,
+    } : null,
+    venue: row.venue_id ? {
+      id: row.venue_id,
+      name: row.venue_name,
+      city: row.city,
+      state: row.state,
+      country: row.country,
+    } : null,
+  };
+}
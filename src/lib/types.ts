@@ -44,8 +44,9 @@ export interface Venue {
   state?: string | null;
   country?: string | null;
   address?: string | null; // Uncommented to match venue table in database
-  latitude?: string | null; // Updated type to match database schema
-  longitude?: string | null; // Updated type to match database schema
+  latitude?: number | null; // Parsed with parseVenueCoordinates (src/lib/geo.ts)
+  longitude?: number | null;
+  timezone?: string | null; // IANA zone; sets the show voting windows
   url?: string | null; // Added to match database schema
   image_url?: string | null; // In schema
   ticketmaster_id?: string | null; // Added to match database schema
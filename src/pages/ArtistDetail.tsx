@@ -1,5 +1,6 @@
 "use client";
 import React, { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
 
 interface Artist {
   id: string;
@@ -8,6 +9,7 @@ interface Artist {
 }
 
 const ArtistDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
   const [artist, setArtist] = useState<Artist | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -41,6 +43,11 @@ const ArtistDetail: React.FC = () => {
     <div className="p-4">
       <h1 className="text-2xl font-bold mb-2">{artist.name}</h1>
       <p>{artist.bio}</p>
+      {id && (
+        <Link to={`/artists/${id}/leaderboard`} className="inline-block mt-4 text-primary hover:underline">
+          View top fans
+        </Link>
+      )}
     </div>
   );
 };
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, Trophy } from 'lucide-react';
+import { useAuth } from '@/contexts/auth/AuthContext';
+import Navbar from '@/components/layout/Navbar';
+import Footer from '@/components/layout/Footer';
+import LeaderboardTable from '@/components/leaderboards/LeaderboardTable';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { getLeaderboardTours } from '@/lib/api/database/leaderboards';
+
+// Select value for the artist-wide leaderboard
+const ALL_TOURS = '__all__';
+
+const ArtistLeaderboard = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [tours, setTours] = useState<string[]>([]);
+  const [tour, setTour] = useState<string>(ALL_TOURS);
+
+  useEffect(() => {
+    if (!id) return;
+    getLeaderboardTours(id).then(setTours);
+  }, [id]);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow px-6 md:px-8 lg:px-12 py-12">
+        <div className="max-w-4xl mx-auto">
+          <Link to={`/artists/${id}`} className="inline-flex items-center text-muted-foreground hover:text-foreground mb-8">
+            <ArrowLeft size={16} className="mr-2" />
+            Back to artist
+          </Link>
+
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8">
+            <h1 className="text-3xl md:text-4xl font-bold flex items-center gap-3">
+              <Trophy className="h-8 w-8 text-primary" />
+              Top Fans
+            </h1>
+
+            {tours.length > 0 && (
+              <Select value={tour} onValueChange={setTour}>
+                <SelectTrigger className="w-full md:w-64">
+                  <SelectValue placeholder="All tours" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TOURS}>All tours</SelectItem>
+                  {tours.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {id && (
+            <LeaderboardTable
+              scope={tour === ALL_TOURS ? 'artist' : 'tour'}
+              artistId={id}
+              tourName={tour === ALL_TOURS ? undefined : tour}
+              currentUserId={user?.id}
+            />
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ArtistLeaderboard;
@@ -8,6 +8,32 @@ import { AuthError } from '@supabase/supabase-js';
 // Define error type
 type AuthCallbackError = AuthError | Error | unknown;
 
+/**
+ * Move votes cast before signing up onto the new account.
+ * The anonymous session lives in an httpOnly cookie, so the server does the merge.
+ */
+const mergeAnonymousVotes = async (accessToken: string) => {
+  try {
+    const response = await fetch('/api/vote/merge', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}` },
+      credentials: 'same-origin'
+    });
+    
+    if (!response.ok) {
+      console.warn('Failed to merge anonymous votes:', response.status);
+      return;
+    }
+    
+    const { merged } = await response.json();
+    if (merged > 0) {
+      console.log(`Merged ${merged} anonymous votes into the account`);
+    }
+  } catch (error) {
+    console.error('Error merging anonymous votes:', error);
+  }
+};
+
 const AuthCallback = () => {
   const navigate = useNavigate();
   const location = useLocation();
@@ -46,6 +72,8 @@ const AuthCallback = () => {
           // Store authentication state in localStorage for persistence
           localStorage.setItem('user_id', session.user.id);
           
+          await mergeAnonymousVotes(session.access_token);
+          
           if (provider) {
             localStorage.setItem('auth_provider', provider);
           }
@@ -84,6 +112,7 @@ const AuthCallback = () => {
               if (newSession) {
                 console.log('Session obtained after code exchange:', newSession.user.id);
                 localStorage.setItem('user_id', newSession.user.id);
+                await mergeAnonymousVotes(newSession.access_token);
                 
                 if (provider) {
                   localStorage.setItem('auth_provider', provider);
@@ -1,12 +1,13 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Loader2 } from 'lucide-react';
+import { Loader2, Trophy } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import Navbar from '@/components/layout/Navbar';
 import Footer from '@/components/layout/Footer';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { getUserTopArtists, getRecommendations } from '@/lib/spotify';
+import FollowFeed from '@/components/follows/FollowFeed';
+import { getUserTopArtists, getRecommendations, saveTopArtistsToDatabase } from '@/lib/spotify';
 import { fetchArtistEvents } from '@/lib/ticketmaster';
 
 interface Artist {
@@ -32,6 +33,7 @@ interface Show {
 const Dashboard = () => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
   const [userTopArtists, setUserTopArtists] = useState<Artist[]>([]);
   const [recommendedShows, setRecommendedShows] = useState<Show[]>([]);
   
@@ -44,7 +46,8 @@ const Dashboard = () => {
           return;
         }
         
-        fetchUserData();
+        setUserId(data.session.user.id);
+        fetchUserData(data.session.user.id);
       } catch (error) {
         console.error('Error checking authentication:', error);
         navigate('/auth');
@@ -54,7 +57,7 @@ const Dashboard = () => {
     checkAuth();
   }, [navigate]);
   
-  async function fetchUserData() {
+  async function fetchUserData(currentUserId: string) {
     try {
       setLoading(true);
       
@@ -63,6 +66,9 @@ const Dashboard = () => {
       if (topArtistsData && Array.isArray(topArtistsData)) {
         setUserTopArtists(topArtistsData.slice(0, 10));
         
+        // Follow top artists while recommendations load, so the feed includes them
+        const followsImported = saveTopArtistsToDatabase(topArtistsData, currentUserId);
+        
         // Get recommendations based on top artists
         const recommendations = await getRecommendations();
         if (recommendations && recommendations.shows && Array.isArray(recommendations.shows)) {
@@ -94,6 +100,8 @@ const Dashboard = () => {
             });
           }
         }
+        
+        await followsImported;
       }
     } catch (error) {
       console.error('Error fetching user data:', error);
@@ -166,6 +174,17 @@ const Dashboard = () => {
                 </div>
               </section>
               
+              {/* Following Feed Section */}
+              {userId && (
+                <section>
+                  <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-2xl font-bold text-white">From Artists & Venues You Follow</h2>
+                  </div>
+                  
+                  <FollowFeed userId={userId} />
+                </section>
+              )}
+              
               {/* Recommended Shows Section */}
               <section>
                 <div className="flex justify-between items-center mb-6">
@@ -205,6 +224,26 @@ const Dashboard = () => {
                 </div>
               </section>
               
+              {/* Leaderboard Section */}
+              <section>
+                <Card className="bg-[#0A0A0A] border-white/10">
+                  <CardContent className="p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <div className="flex items-center gap-4">
+                      <Trophy className="h-8 w-8 text-white/70" />
+                      <div>
+                        <h2 className="text-xl font-bold text-white">Leaderboard</h2>
+                        <p className="text-sm text-white/60">
+                          See how your setlist predictions stack up this week and all time
+                        </p>
+                      </div>
+                    </div>
+                    <Button variant="outline" onClick={() => navigate('/leaderboards')}>
+                      View Leaderboard
+                    </Button>
+                  </CardContent>
+                </Card>
+              </section>
+              
               {/* How It Works Section */}
               <section>
                 <Card className="bg-card border-border/50">
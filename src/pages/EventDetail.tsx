@@ -0,0 +1,219 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, CalendarDays, Clock, ListMusic, MapPin, Music, ThumbsUp } from 'lucide-react';
+import Navbar from '@/components/layout/Navbar';
+import Footer from '@/components/layout/Footer';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useDocumentTitle } from '@/hooks/use-document-title';
+import { EventPerformance, getEvent, getEventLineup } from '@/lib/api/database/events';
+import { getShowLifecycleState, SHOW_LIFECYCLE_LABELS } from '@/lib/show-lifecycle';
+
+const formatDay = (date: string) =>
+  new Intl.DateTimeFormat('en-US', { weekday: 'long', month: 'short', day: 'numeric', year: 'numeric' }).format(new Date(date));
+
+const formatSetTime = (date: string) =>
+  new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: '2-digit' }).format(new Date(date));
+
+/**
+ * Performances grouped by day, in running order
+ */
+const groupByDay = (performances: EventPerformance[]) => {
+  const days = new Map<string, EventPerformance[]>();
+  performances.forEach(performance => {
+    const start = performance.set_starts_at || performance.date;
+    const day = start ? formatDay(start) : 'Date to be announced';
+    days.set(day, [...(days.get(day) || []), performance]);
+  });
+  return Array.from(days.entries());
+};
+
+const PerformanceCard = ({ performance }: { performance: EventPerformance }) => {
+  const state = getShowLifecycleState(performance);
+  const played = performance.played_songs.length > 0;
+  const songs = played ? performance.played_songs : performance.top_songs;
+
+  return (
+    <div className="border border-white/10 rounded-lg p-4 space-y-4">
+      <div className="flex items-start gap-3">
+        {performance.artist_image_url ? (
+          <img
+            src={performance.artist_image_url}
+            alt={performance.artist_name || ''}
+            className="h-12 w-12 rounded-full object-cover"
+          />
+        ) : (
+          <div className="h-12 w-12 rounded-full bg-white/10 flex items-center justify-center">
+            <Music size={18} />
+          </div>
+        )}
+        <div className="flex-1 min-w-0">
+          {performance.artist_id ? (
+            <Link to={`/artists/${performance.artist_id}`} className="font-medium hover:underline line-clamp-1">
+              {performance.artist_name}
+            </Link>
+          ) : (
+            <div className="font-medium line-clamp-1">{performance.artist_name || 'TBA'}</div>
+          )}
+          <div className="flex flex-wrap items-center gap-x-3 text-sm text-muted-foreground">
+            {performance.stage && <span>{performance.stage}</span>}
+            {performance.set_starts_at && (
+              <span className="flex items-center">
+                <Clock size={14} className="mr-1" />
+                {formatSetTime(performance.set_starts_at)}
+              </span>
+            )}
+          </div>
+        </div>
+        <Badge variant="outline">{SHOW_LIFECYCLE_LABELS[state]}</Badge>
+      </div>
+
+      <div>
+        <div className="text-xs uppercase tracking-wide text-muted-foreground mb-2">
+          {played ? 'Setlist' : 'Fan-voted setlist'}
+        </div>
+        {songs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No votes yet</p>
+        ) : (
+          <ol className="space-y-1 text-sm">
+            {songs.map((song, index) => (
+              <li key={`${song.name}:${index}`} className="flex items-center gap-2">
+                <span className="w-5 text-right text-muted-foreground">{index + 1}</span>
+                <span className="flex-1 truncate">
+                  {song.name}
+                  {song.is_encore && <span className="text-muted-foreground"> (encore)</span>}
+                </span>
+                {!played && (
+                  <span className="flex items-center text-muted-foreground">
+                    <ThumbsUp size={12} className="mr-1" />
+                    {song.vote_count ?? 0}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <Link
+        to={`/shows/${performance.show_id}`}
+        className="inline-flex items-center text-sm text-primary hover:underline"
+      >
+        <ListMusic size={14} className="mr-1.5" />
+        {state === 'voting_open' ? 'Vote on this set' : 'View full setlist'}
+      </Link>
+    </div>
+  );
+};
+
+const EventDetail = () => {
+  const { id = '' } = useParams<{ id: string }>();
+
+  const { data: event, isLoading: eventLoading } = useQuery({
+    queryKey: ['event', id],
+    queryFn: () => getEvent(id),
+    enabled: !!id
+  });
+
+  const { data: lineup = [], isLoading: lineupLoading } = useQuery({
+    queryKey: ['eventLineup', id],
+    queryFn: () => getEventLineup(id),
+    enabled: !!id
+  });
+
+  useDocumentTitle(event?.name || 'Event');
+
+  if (!eventLoading && !event) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <main className="flex-grow flex flex-col items-center justify-center px-6 py-24 text-center">
+          <h1 className="text-3xl font-bold mb-4">Event not found</h1>
+          <Link to="/shows" className="text-primary hover:underline">Browse shows</Link>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow px-6 md:px-8 lg:px-12 py-12">
+        <div className="max-w-7xl mx-auto space-y-12">
+          <div>
+            <Link to="/shows" className="inline-flex items-center text-muted-foreground hover:text-foreground mb-8">
+              <ArrowLeft size={16} className="mr-2" />
+              All shows
+            </Link>
+            {eventLoading ? (
+              <Skeleton className="h-10 w-64" />
+            ) : (
+              <>
+                <Badge variant="secondary" className="mb-3 capitalize">{event?.kind}</Badge>
+                <h1 className="text-3xl md:text-4xl font-bold">{event?.name}</h1>
+                <div className="flex flex-wrap gap-x-6 gap-y-2 mt-4 text-muted-foreground">
+                  {event?.starts_at && (
+                    <span className="flex items-center">
+                      <CalendarDays size={16} className="mr-1.5" />
+                      {formatDay(event.starts_at)}
+                      {event.ends_at && formatDay(event.ends_at) !== formatDay(event.starts_at) && ` – ${formatDay(event.ends_at)}`}
+                    </span>
+                  )}
+                  {event?.venue && (
+                    <span className="flex items-center">
+                      <MapPin size={16} className="mr-1.5" />
+                      {event.venue.name}{event.venue.city ? `, ${event.venue.city}` : ''}
+                    </span>
+                  )}
+                </div>
+                {event?.ticket_url && (
+                  <a
+                    href={event.ticket_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-block mt-4 text-primary hover:underline"
+                  >
+                    Get tickets
+                  </a>
+                )}
+              </>
+            )}
+          </div>
+
+          <section>
+            <h2 className="text-2xl font-semibold mb-6">{event?.kind === 'residency' ? 'Nights' : 'Lineup'}</h2>
+            {lineupLoading ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {Array.from({ length: 6 }).map((_, i) => (
+                  <Skeleton key={i} className="h-48 w-full" />
+                ))}
+              </div>
+            ) : lineup.length === 0 ? (
+              <p className="text-muted-foreground">The lineup hasn't been announced yet</p>
+            ) : (
+              <div className="space-y-10">
+                {groupByDay(lineup).map(([day, performances]) => (
+                  <div key={day}>
+                    <h3 className="text-lg font-medium mb-4">{day}</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {performances.map(performance => (
+                        <PerformanceCard key={performance.show_id} performance={performance} />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default EventDetail;
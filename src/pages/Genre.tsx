@@ -0,0 +1,190 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, CalendarDays, MapPin, Music, ThumbsUp } from 'lucide-react';
+import Navbar from '@/components/layout/Navbar';
+import Footer from '@/components/layout/Footer';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useDocumentTitle } from '@/hooks/use-document-title';
+import {
+  getGenre,
+  getGenreTopArtists,
+  getGenreTopSongs,
+  getGenreUpcomingShows
+} from '@/lib/api/database/genres';
+
+const formatShowDate = (date: string) =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(new Date(date));
+
+const Genre = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+
+  const { data: genre, isLoading: genreLoading } = useQuery({
+    queryKey: ['genre', slug],
+    queryFn: () => getGenre(slug),
+    enabled: !!slug
+  });
+
+  const { data: shows = [], isLoading: showsLoading } = useQuery({
+    queryKey: ['genreShows', slug],
+    queryFn: () => getGenreUpcomingShows(slug),
+    enabled: !!slug
+  });
+
+  const { data: artists = [], isLoading: artistsLoading } = useQuery({
+    queryKey: ['genreArtists', slug],
+    queryFn: () => getGenreTopArtists(slug),
+    enabled: !!slug
+  });
+
+  const { data: songs = [], isLoading: songsLoading } = useQuery({
+    queryKey: ['genreSongs', slug],
+    queryFn: () => getGenreTopSongs(slug),
+    enabled: !!slug
+  });
+
+  useDocumentTitle(genre ? `${genre.name} Concerts` : 'Genre');
+
+  if (!genreLoading && !genre) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <main className="flex-grow flex flex-col items-center justify-center px-6 py-24 text-center">
+          <h1 className="text-3xl font-bold mb-4">Genre not found</h1>
+          <Link to="/artists" className="text-primary hover:underline">Browse artists</Link>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow px-6 md:px-8 lg:px-12 py-12">
+        <div className="max-w-7xl mx-auto space-y-12">
+          <div>
+            <Link to="/artists" className="inline-flex items-center text-muted-foreground hover:text-foreground mb-8">
+              <ArrowLeft size={16} className="mr-2" />
+              All genres
+            </Link>
+            <h1 className="text-3xl md:text-4xl font-bold">
+              {genreLoading ? <Skeleton className="h-10 w-48" /> : genre?.name}
+            </h1>
+          </div>
+
+          <section>
+            <h2 className="text-2xl font-semibold mb-6">Upcoming Shows</h2>
+            {showsLoading ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {Array.from({ length: 6 }).map((_, i) => (
+                  <Skeleton key={i} className="h-24 w-full" />
+                ))}
+              </div>
+            ) : shows.length === 0 ? (
+              <p className="text-muted-foreground">No upcoming {genre?.name} shows yet</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {shows.map(show => (
+                  <Link
+                    key={show.show_id}
+                    to={`/shows/${show.show_id}`}
+                    className="block border border-white/10 rounded-lg p-4 hover:border-white/30 transition-colors"
+                  >
+                    <div className="font-medium line-clamp-1">{show.artist_name}</div>
+                    <div className="text-sm text-muted-foreground line-clamp-1">{show.show_name}</div>
+                    <div className="flex items-center text-sm text-muted-foreground mt-2">
+                      <CalendarDays size={14} className="mr-1.5" />
+                      {formatShowDate(show.date)}
+                    </div>
+                    {show.venue_name && (
+                      <div className="flex items-center text-sm text-muted-foreground mt-1">
+                        <MapPin size={14} className="mr-1.5" />
+                        <span className="line-clamp-1">
+                          {show.venue_name}{show.city ? `, ${show.city}` : ''}
+                        </span>
+                      </div>
+                    )}
+                  </Link>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
+            <section>
+              <h2 className="text-2xl font-semibold mb-6">Top Artists</h2>
+              {artistsLoading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 5 }).map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : artists.length === 0 ? (
+                <p className="text-muted-foreground">No artists in this genre yet</p>
+              ) : (
+                <ul className="space-y-3">
+                  {artists.map(artist => (
+                    <li key={artist.artist_id}>
+                      <Link to={`/artists/${artist.artist_id}`} className="flex items-center gap-3 group">
+                        {artist.image_url ? (
+                          <img src={artist.image_url} alt={artist.name} className="h-12 w-12 rounded-full object-cover" />
+                        ) : (
+                          <div className="h-12 w-12 rounded-full bg-white/10 flex items-center justify-center">
+                            <Music size={18} />
+                          </div>
+                        )}
+                        <div>
+                          <div className="font-medium group-hover:underline">{artist.name}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {artist.upcoming_shows} upcoming show{artist.upcoming_shows === 1 ? '' : 's'}
+                          </div>
+                        </div>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section>
+              <h2 className="text-2xl font-semibold mb-6">Most-Voted Songs</h2>
+              {songsLoading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 5 }).map((_, i) => (
+                    <Skeleton key={i} className="h-10 w-full" />
+                  ))}
+                </div>
+              ) : songs.length === 0 ? (
+                <p className="text-muted-foreground">No setlist votes in this genre yet</p>
+              ) : (
+                <ol className="space-y-3">
+                  {songs.map((song, index) => (
+                    <li key={`${song.artist_id}:${song.song_id}`} className="flex items-center gap-3">
+                      <span className="w-6 text-right text-muted-foreground">{index + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium truncate">{song.name}</div>
+                        <Link to={`/artists/${song.artist_id}`} className="text-sm text-muted-foreground hover:underline">
+                          {song.artist_name}
+                        </Link>
+                      </div>
+                      <span className="flex items-center text-sm text-muted-foreground">
+                        <ThumbsUp size={14} className="mr-1" />
+                        {song.vote_count}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </section>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Genre;
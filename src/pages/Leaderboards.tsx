@@ -0,0 +1,40 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Trophy } from 'lucide-react';
+import { useAuth } from '@/contexts/auth/AuthContext';
+import Navbar from '@/components/layout/Navbar';
+import Footer from '@/components/layout/Footer';
+import LeaderboardTable from '@/components/leaderboards/LeaderboardTable';
+
+const Leaderboards = () => {
+  const { user } = useAuth();
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow px-6 md:px-8 lg:px-12 py-12">
+        <div className="max-w-4xl mx-auto">
+          <Link to="/dashboard" className="inline-flex items-center text-muted-foreground hover:text-foreground mb-8">
+            <ArrowLeft size={16} className="mr-2" />
+            Back to dashboard
+          </Link>
+
+          <h1 className="text-3xl md:text-4xl font-bold mb-2 flex items-center gap-3">
+            <Trophy className="h-8 w-8 text-primary" />
+            Leaderboard
+          </h1>
+          <p className="text-muted-foreground mb-8">
+            Fans ranked by how well they call setlists and how much they take part.
+          </p>
+
+          <LeaderboardTable scope="global" currentUserId={user?.id} />
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Leaderboards;
@@ -1,12 +1,15 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { ArrowLeft, Music, Star, Vote } from 'lucide-react';
+import { ArrowLeft, Bell, Music, Shield, Star, Target, Vote } from 'lucide-react';
 import { useAuth } from '@/contexts/auth/AuthContext';
 import Navbar from '@/components/layout/Navbar';
 import Footer from '@/components/layout/Footer';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { getUserPredictionScores, UserPredictionScore } from '@/lib/api/database/predictions';
+import NotificationPreferencesForm from '@/components/notifications/NotificationPreferencesForm';
+import AnalyticsPrivacySwitch from '@/components/privacy/AnalyticsPrivacySwitch';
 
 // Mock data for user activity
 const recentVotes = [
@@ -41,6 +44,12 @@ const favoriteArtists = [
 
 const Profile = () => {
   const { user, profile, logout } = useAuth();
+  const [predictionScores, setPredictionScores] = useState<UserPredictionScore[]>([]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    getUserPredictionScores(user.id).then(setPredictionScores);
+  }, [user?.id]);
 
   // Get display name from profile or user email
   const displayName = profile?.username || profile?.full_name || (user?.email ? user.email.split('@')[0] : 'User');
@@ -85,6 +94,12 @@ const Profile = () => {
                       <p className="text-lg font-semibold">{favoriteArtists.length}</p>
                       <p className="text-xs text-muted-foreground">Favorites</p>
                     </div>
+                    <div className="text-center">
+                      <p className="text-lg font-semibold">
+                        {predictionScores.reduce((total, score) => total + score.total_score, 0)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">Prediction pts</p>
+                    </div>
                   </div>
                   
                   <Button
@@ -110,6 +125,18 @@ const Profile = () => {
                     <Star className="h-4 w-4 mr-2" />
                     Favorite Artists
                   </TabsTrigger>
+                  <TabsTrigger value="predictions">
+                    <Target className="h-4 w-4 mr-2" />
+                    Predictions
+                  </TabsTrigger>
+                  <TabsTrigger value="notifications">
+                    <Bell className="h-4 w-4 mr-2" />
+                    Notifications
+                  </TabsTrigger>
+                  <TabsTrigger value="privacy">
+                    <Shield className="h-4 w-4 mr-2" />
+                    Privacy
+                  </TabsTrigger>
                 </TabsList>
                 
                 <TabsContent value="votes">
@@ -179,6 +206,58 @@ const Profile = () => {
                     </div>
                   )}
                 </TabsContent>
+
+                <TabsContent value="predictions">
+                  <div className="border border-border rounded-xl overflow-hidden">
+                    {predictionScores.length > 0 ? (
+                      <div className="divide-y divide-border">
+                        {predictionScores.map((score) => (
+                          <Link
+                            key={score.id}
+                            to={`/shows/${score.show_id}`}
+                            className="block p-4 bg-card hover:bg-accent/50 transition-colors"
+                          >
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <p className="font-medium">{score.show?.name ?? 'Show'}</p>
+                                <p className="text-sm text-muted-foreground">
+                                  {score.songs_hit}/{score.songs_played} songs called · {Math.round(Number(score.accuracy) * 100)}% accuracy
+                                </p>
+                              </div>
+                              <div className="text-right">
+                                <p className="font-semibold">{score.total_score} pts</p>
+                                {score.show?.date && (
+                                  <p className="text-sm text-muted-foreground">
+                                    {new Date(score.show.date).toLocaleDateString()}
+                                  </p>
+                                )}
+                              </div>
+                            </div>
+                          </Link>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="p-8 text-center">
+                        <Target className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+                        <h3 className="text-lg font-medium mb-2">No scored predictions</h3>
+                        <p className="text-muted-foreground mb-4">
+                          Predict a setlist and check back after the show to see how you did.
+                        </p>
+                        <Button asChild>
+                          <Link to="/shows">Explore Shows</Link>
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="notifications">
+                  {user?.id && <NotificationPreferencesForm userId={user.id} />}
+                </TabsContent>
+
+                <TabsContent value="privacy">
+                  {user?.id && <AnalyticsPrivacySwitch userId={user.id} />}
+                </TabsContent>
               </Tabs>
             </div>
           </div>
@@ -1,18 +1,34 @@
+
 import React, { useState, useEffect } from 'react';
-import { useNavigate, useLocation } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
-import { Search as SearchIcon, MusicIcon } from 'lucide-react';
-// Import the specific function and its return type
-import { searchArtistsWithEvents, ArtistWithEvents } from '@/lib/api/artist';
+import { Search as SearchIcon, MusicIcon, Sparkles } from 'lucide-react';
 import Navbar from '@/components/layout/Navbar';
 import Footer from '@/components/layout/Footer';
 import SearchBar from '@/components/ui/SearchBar';
-import ArtistSearchResults from '@/components/search/ArtistSearchResults';
 import { useDocumentTitle } from '@/hooks/use-document-title';
-// Base Artist type might still be needed for the payload, keep it for now
-import type { Artist as BaseArtist } from '@/lib/types';
-import { supabase } from '@/integrations/supabase/client'; // Import Supabase client
-import { toast } from 'sonner'; // Import toast for feedback
+import {
+  discoveredHref,
+  DiscoveredEntity,
+  fetchSearch,
+  MIN_SEARCH_LENGTH,
+  SearchEntityType,
+  SearchResult,
+  searchResultHref,
+  SEARCH_ENTITY_TYPES,
+} from '@/lib/search';
+import { track } from '@/lib/analytics';
+
+const GROUP_TITLES: Record<SearchEntityType, string> = {
+  artist: 'Artists',
+  show: 'Shows',
+  venue: 'Venues',
+  song: 'Songs',
+};
+
+const formatShowDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : null;
+
 const Search = () => {
   const navigate = useNavigate();
   const location = useLocation();
@@ -25,7 +41,7 @@ const Search = () => {
   // Set document title
   useDocumentTitle(
     queryParam ? `Search: ${queryParam}` : 'Search',
-    queryParam ? `Find artists, shows and venues matching "${queryParam}"` : 'Search for artists with upcoming shows'
+    queryParam ? `Find artists, shows, venues and songs matching "${queryParam}"` : 'Search for artists, shows, venues and songs'
   );
 
   // Update search query when URL parameter changes
@@ -55,85 +71,64 @@ const Search = () => {
     };
   }, [searchQuery, navigate, queryParam]);
   
-  // Fetch artists with upcoming shows from Ticketmaster
-  // Use the correct return type from the query function
-  const { data: artists = [], isLoading, error } = useQuery<ArtistWithEvents[]>({
-    queryKey: ['artistsWithEvents', debouncedQuery],
-    queryFn: () => searchArtistsWithEvents(debouncedQuery),
-    enabled: debouncedQuery.length > 2,
+  // Search the local index; thin results are topped up from Ticketmaster
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['search', debouncedQuery],
+    queryFn: () => fetchSearch(debouncedQuery, { limit: 10 }),
+    enabled: debouncedQuery.trim().length >= MIN_SEARCH_LENGTH,
   });
 
+  useEffect(() => {
+    if (!data) return;
+    const resultCount = Object.values(data.groups).reduce((count, results) => count + results.length, 0);
+    track({ name: 'search_performed', properties: { query: data.query, result_count: resultCount + data.discovered.length } });
+  }, [data]);
+
   const handleSearch = (query: string) => {
     setSearchQuery(query);
   };
 
-  const handleArtistSelect = async (artist: ArtistWithEvents) => { // Use ArtistWithEvents type
-    // Trigger the backend import process (fire-and-forget)
-    console.log(`[Search Page] Triggering import for artist: ${artist.name} (ID: ${artist.id})`);
-    try {
-      // Ensure the artist object has the necessary fields (id, name)
-      if (!artist || !artist.id || !artist.name) {
-        console.error("[Search Page] Invalid artist data for import:", artist);
-        // Navigate anyway, but log the error
-        navigate(`/artists/${artist.id}`);
-        // Navigate anyway, but show a toast
-        toast.error("Cannot import artist: Invalid data.");
-        navigate(`/artists/${artist.id}`);
-        return;
-      }
+  const hasQuery = searchQuery.trim().length >= MIN_SEARCH_LENGTH;
+  const groups = SEARCH_ENTITY_TYPES
+    .map(type => ({ type, results: data?.groups[type] ?? [] }))
+    .filter(group => group.results.length > 0);
+  const discovered = data?.discovered ?? [];
+  const noResults = hasQuery && !isLoading && !error && data && groups.length === 0 && discovered.length === 0;
 
-      // Prepare the data payload for the Edge Function
-      // Map available fields from ArtistWithEvents to the BaseArtist type
-      // Use Partial<BaseArtist> because we only have a subset of fields
-      const artistPayload: Partial<BaseArtist> = {
-        id: artist.id,       // Ticketmaster ID
-        name: artist.name,
-        image_url: artist.image, // Map from ArtistWithEvents.image
-        genres: artist.genres,   // Map from ArtistWithEvents.genres
-        // NOTE: spotify_id, popularity, followers, etc., are NOT available
-        // directly from the searchArtistsWithEvents result (ArtistWithEvents type).
-        // The import-artist Edge Function will need to fetch these if required.
-      };
-      // Remove undefined keys just in case (e.g., if artist.image was undefined)
-      Object.keys(artistPayload).forEach(key => {
-        if (artistPayload[key as keyof typeof artistPayload] === undefined) {
-            delete artistPayload[key as keyof typeof artistPayload];
-        }
-      });
-
-      console.log("[Search Page] Prepared payload for import:", artistPayload);
-      // The lines below were incorrect remnants and are removed.
-      // The payload is correctly defined above using available fields.
-      // Invoke the Supabase Edge Function 'import-artist'
-      // This is fire-and-forget, but we add basic logging/toast
-      // Invoke the Supabase Edge Function 'import-artist'
-      supabase.functions.invoke('import-artist', {
-        body: artistPayload,
-      })
-      .then(({ data, error }) => {
-        if (error) {
-          console.error(`[Search Page] Error invoking import-artist function for ${artist.name}:`, error);
-          toast.error(`Failed to start import for ${artist.name}: ${error.message}`);
-        } else {
-          console.log(`[Search Page] Successfully invoked import-artist function for ${artist.name}.`, data);
-          // Optional: Show a success toast, but maybe not needed as user navigates away
-          // toast.success(`Import started for ${artist.name}.`);
-        }
-      })
-      .catch((invokeError) => {
-         // Catch potential network errors during the invoke call itself
-         console.error(`[Search Page] Network error invoking import-artist function for ${artist.name}:`, invokeError);
-         toast.error(`Network error starting import for ${artist.name}.`);
-      });
-    } catch (error) {
-       console.error(`[Search Page] Error preparing artist import for ${artist.name}:`, error);
-    }
+  const renderRow = (key: string, href: string | null, name: string, subtitle: string | null, imageUrl: string | null) => {
+    const content = (
+      <>
+        {imageUrl ? (
+          <img src={imageUrl} alt={name} className="w-12 h-12 rounded-md object-cover" />
+        ) : (
+          <div className="w-12 h-12 rounded-md bg-secondary flex items-center justify-center">
+            <MusicIcon className="h-5 w-5 text-muted-foreground" />
+          </div>
+        )}
+        <div className="min-w-0">
+          <div className="font-medium truncate">{name}</div>
+          {subtitle && <div className="text-sm text-muted-foreground truncate">{subtitle}</div>}
+        </div>
+      </>
+    );
 
-    // Navigate immediately after initiating the background import
-    navigate(`/artists/${artist.id}`);
+    return (
+      <li key={key}>
+        {href ? (
+          <Link to={href} className="flex items-center gap-4 p-3 rounded-lg hover:bg-secondary transition-colors">
+            {content}
+          </Link>
+        ) : (
+          <div className="flex items-center gap-4 p-3">{content}</div>
+        )}
+      </li>
+    );
   };
 
-  const showSearchResults = searchQuery.length > 2 && artists.length > 0;
+  const resultSubtitle = (result: SearchResult) =>
+    result.entity_type === 'show'
+      ? [formatShowDate(result.starts_at), result.subtitle].filter(Boolean).join(' · ')
+      : result.subtitle;
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -141,41 +136,87 @@ const Search = () => {
       
       <main className="flex-grow px-6 md:px-8 lg:px-12 py-8">
         <div className="max-w-7xl mx-auto">
-          <h1 className="text-3xl md:text-4xl font-bold mb-8">Find Artists with Upcoming Shows</h1>
+          <h1 className="text-3xl md:text-4xl font-bold mb-8">Search</h1>
           
           <div className="relative max-w-2xl mx-auto mb-12">
             <SearchBar 
-              placeholder="Search for artists with upcoming shows..." 
+              placeholder="Search artists, shows, venues and songs..." 
               onSearch={handleSearch}
               onChange={setSearchQuery}
               className="w-full"
               value={searchQuery}
               disableRedirect={true}
-            >
-              {showSearchResults && (
-                <ArtistSearchResults 
-                  artists={artists} // Pass ArtistWithEvents[]
-                  isLoading={isLoading}
-                  onSelect={handleArtistSelect}
-                />
-              )}
-            </SearchBar>
+            />
           </div>
           
-          {!searchQuery && (
+          {!hasQuery && (
             <div className="text-center p-12 border border-border rounded-xl">
               <SearchIcon className="mx-auto mb-4 text-muted-foreground h-12 w-12" />
-              <h3 className="text-xl font-medium mb-2">Search for artists with upcoming shows</h3>
+              <h3 className="text-xl font-medium mb-2">Search artists, shows, venues and songs</h3>
               <p className="text-muted-foreground">
                 Find artists and discover their upcoming concerts
               </p>
             </div>
           )}
+
+          {hasQuery && isLoading && (
+            <div className="space-y-3 max-w-3xl mx-auto">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="h-16 rounded-lg bg-secondary animate-pulse"></div>
+              ))}
+            </div>
+          )}
+
+          {hasQuery && error && (
+            <div className="text-center p-12 border border-border rounded-xl">
+              <p className="text-muted-foreground">Search is unavailable right now. Please try again.</p>
+            </div>
+          )}
+
+          {hasQuery && !isLoading && (groups.length > 0 || discovered.length > 0) && (
+            <div className="space-y-10 max-w-3xl mx-auto">
+              {groups.map(group => (
+                <section key={group.type}>
+                  <h2 className="text-xl font-semibold mb-3">{GROUP_TITLES[group.type]}</h2>
+                  <ul className="divide-y divide-border border border-border rounded-xl">
+                    {group.results.map(result => renderRow(
+                      `${result.entity_type}:${result.id}`,
+                      searchResultHref(result),
+                      result.name,
+                      resultSubtitle(result),
+                      result.image_url
+                    ))}
+                  </ul>
+                </section>
+              ))}
+
+              {discovered.length > 0 && (
+                <section>
+                  <h2 className="text-xl font-semibold mb-1 flex items-center gap-2">
+                    <Sparkles className="h-5 w-5 text-muted-foreground" />
+                    New on TheSet
+                  </h2>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    Found on Ticketmaster and being added now
+                  </p>
+                  <ul className="divide-y divide-border border border-border rounded-xl">
+                    {discovered.map((entity: DiscoveredEntity) => renderRow(
+                      `discovered:${entity.entity_type}:${entity.external_id}`,
+                      discoveredHref(entity),
+                      entity.name,
+                      entity.subtitle,
+                      entity.image_url
+                    ))}
+                  </ul>
+                </section>
+              )}
+            </div>
+          )}
           
-          {searchQuery.length > 2 && !isLoading && artists.length === 0 && (
+          {noResults && (
             <div className="text-center p-12 border border-border rounded-xl">
               <MusicIcon className="mx-auto mb-4 text-muted-foreground h-12 w-12" />
-              <h3 className="text-xl font-medium mb-2">No artists found</h3>
+              <h3 className="text-xl font-medium mb-2">No results found</h3>
               <p className="text-muted-foreground">
                 Try a different search term or check back later for more shows
               </p>
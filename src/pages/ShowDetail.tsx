@@ -1,6 +1,15 @@
 "use client";
 import React, { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
 import Card from "@/components/ui/card";
+import PredictionResults from "@/components/shows/PredictionResults";
+import LikelySetlist from "@/components/shows/LikelySetlist";
+import { SetlistPredictionBuilder } from "@/components/setlist/setlist-prediction-builder";
+import { useAuth } from "@/contexts/auth/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { recordShowView } from "@/lib/api/database/shows";
+import { getSongsByArtist } from "@/lib/api/database/songs";
+import { Song } from "@/lib/types";
 
 interface Show {
   id: string;
@@ -11,9 +20,41 @@ interface Show {
 }
 
 const ShowDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
   const [show, setShow] = useState<Show | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [prediction, setPrediction] = useState<{ setlistId: string; artistSongs: Song[] } | null>(null);
+
+  // Count the visit towards the show's trending score
+  useEffect(() => {
+    if (id) recordShowView(id);
+  }, [id]);
+
+  // The prediction builder needs the show's setlist and the artist's catalog
+  useEffect(() => {
+    if (!id) return;
+
+    const loadPrediction = async () => {
+      const { data: setlist, error: setlistError } = await supabase
+        .from("setlists")
+        .select("id, artist_id")
+        .eq("show_id", id)
+        .maybeSingle();
+
+      if (setlistError) {
+        console.error("Error loading setlist for predictions:", setlistError);
+        return;
+      }
+      if (!setlist?.artist_id) return;
+
+      const artistSongs = await getSongsByArtist(setlist.artist_id);
+      setPrediction({ setlistId: setlist.id, artistSongs: artistSongs ?? [] });
+    };
+
+    loadPrediction();
+  }, [id]);
 
   useEffect(() => {
     const fetchShow = async () => {
@@ -49,6 +90,15 @@ const ShowDetail: React.FC = () => {
         <p className="mb-2"><strong>Date:</strong> {show.date}</p>
         <p>{show.description}</p>
       </Card>
+      {id && (
+        <div className="mt-6 space-y-6">
+          <LikelySetlist showId={id} />
+          {prediction && (
+            <SetlistPredictionBuilder setlistId={prediction.setlistId} artistSongs={prediction.artistSongs} />
+          )}
+          <PredictionResults showId={id} userId={user?.id} />
+        </div>
+      )}
     </div>
   );
 };
@@ -1,9 +1,10 @@
 
 import React, { useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { Search, PlusCircle, Calendar } from 'lucide-react';
+import { Search, PlusCircle, Calendar, MapPin } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Link } from 'react-router-dom';
 import { toast } from 'sonner';
 import Navbar from '@/components/layout/Navbar';
@@ -11,14 +12,23 @@ import Footer from '@/components/layout/Footer';
 import TrendingShows from '@/components/shows/TrendingShows';
 import FeaturedArtistsSection from '@/components/shows/FeaturedArtistsSection';
 import UpcomingShowsSection from '@/components/shows/UpcomingShowsSection';
+import { useCurrentLocation } from '@/hooks/use-current-location';
+import { DEFAULT_NEARBY_RADIUS_KM } from '@/lib/geo';
+import { popularMusicGenres } from '@/lib/ticketmaster';
+
+const RADIUS_OPTIONS_KM = [25, DEFAULT_NEARBY_RADIUS_KM, 100, 250];
 
 const Shows = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const [searchQuery, setSearchQuery] = useState('');
   const genreParam = searchParams.get('genre');
   const artistParam = searchParams.get('artist');
+  const nearMe = searchParams.get('near') === 'me';
+  const radiusKm = Number(searchParams.get('radius')) || DEFAULT_NEARBY_RADIUS_KM;
   
   const [selectedGenre, setSelectedGenre] = useState(genreParam || '');
+  const { coordinates, status: locationStatus, requestLocation } = useCurrentLocation();
+  const trendingGenre = popularMusicGenres.find(genre => genre.name === selectedGenre);
   
   // When URL params change, update state
   React.useEffect(() => {
@@ -42,6 +52,41 @@ const Shows = () => {
     setSearchParams(newParams);
   };
   
+  // Ask for the browser location once "Near me" is on (also when arriving from the home page)
+  React.useEffect(() => {
+    if (nearMe && locationStatus === 'idle') {
+      requestLocation();
+    }
+  }, [nearMe, locationStatus, requestLocation]);
+  
+  React.useEffect(() => {
+    if (nearMe && (locationStatus === 'denied' || locationStatus === 'unavailable')) {
+      toast.error(locationStatus === 'denied'
+        ? 'Allow location access to find shows near you'
+        : 'Your location is not available right now');
+      const newParams = new URLSearchParams(searchParams);
+      newParams.delete('near');
+      setSearchParams(newParams);
+    }
+  }, [nearMe, locationStatus, searchParams, setSearchParams]);
+  
+  const handleNearMeChange = (enabled: boolean, radius = radiusKm) => {
+    const newParams = new URLSearchParams(searchParams);
+    
+    if (enabled) {
+      newParams.set('near', 'me');
+      newParams.set('radius', String(radius));
+      if (locationStatus !== 'ready') {
+        requestLocation();
+      }
+    } else {
+      newParams.delete('near');
+      newParams.delete('radius');
+    }
+    
+    setSearchParams(newParams);
+  };
+  
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -94,13 +139,45 @@ const Shows = () => {
                   />
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-white/50" size={18} />
                 </form>
+                
+                <div className="flex items-center gap-2 mt-3">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={nearMe ? 'default' : 'outline'}
+                    className={nearMe ? 'gap-2 bg-white text-black hover:bg-white/90' : 'gap-2 border-white/20 hover:bg-white/10'}
+                    onClick={() => handleNearMeChange(!nearMe)}
+                    disabled={locationStatus === 'locating'}
+                  >
+                    <MapPin size={16} />
+                    {locationStatus === 'locating' ? 'Locating...' : 'Near me'}
+                  </Button>
+                  
+                  {nearMe && (
+                    <Select
+                      value={String(radiusKm)}
+                      onValueChange={(value) => handleNearMeChange(true, Number(value))}
+                    >
+                      <SelectTrigger className="w-[150px] h-9 bg-white/10 border-white/20 text-white">
+                        <SelectValue placeholder="Radius" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RADIUS_OPTIONS_KM.map(radius => (
+                          <SelectItem key={radius} value={String(radius)}>
+                            Within {radius} km
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
               </div>
             </div>
           </div>
         </section>
         
         {/* Trending Shows Section */}
-        <TrendingShows />
+        <TrendingShows genre={trendingGenre?.id} genreName={trendingGenre?.name} />
         
         {/* Featured Artists section */}
         <FeaturedArtistsSection />
@@ -111,6 +188,7 @@ const Shows = () => {
           selectedGenre={selectedGenre}
           handleGenreChange={handleGenreChange}
           artistParam={artistParam}
+          nearby={nearMe && coordinates ? { coordinates, radiusKm } : null}
         />
       </main>
       
@@ -0,0 +1,238 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, CalendarDays, Music, Repeat } from 'lucide-react';
+import Navbar from '@/components/layout/Navbar';
+import Footer from '@/components/layout/Footer';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useDocumentTitle } from '@/hooks/use-document-title';
+import {
+  getTour,
+  getTourRotationSlots,
+  getTourSongStats,
+  getTourSummary,
+  getTourUnplayedSongs,
+  TourSongStat
+} from '@/lib/api/database/tours';
+
+const formatDate = (date: string) =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(new Date(date));
+
+const formatPercent = (value: number) => `${Math.round(Number(value) * 100)}%`;
+
+/**
+ * The songs that most often hold a slot, with how many nights they did
+ */
+const topFor = (stats: TourSongStat[], count: (stat: TourSongStat) => number) =>
+  stats
+    .filter(stat => count(stat) > 0)
+    .sort((a, b) => count(b) - count(a))
+    .slice(0, 5);
+
+const StatTile = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="border border-white/10 rounded-lg p-4">
+    <div className="text-sm text-muted-foreground">{label}</div>
+    <div className="text-2xl font-semibold mt-1">{value}</div>
+  </div>
+);
+
+const SlotList = ({ title, stats, count }: {
+  title: string;
+  stats: TourSongStat[];
+  count: (stat: TourSongStat) => number;
+}) => {
+  const top = topFor(stats, count);
+
+  return (
+    <div>
+      <h3 className="font-medium mb-3">{title}</h3>
+      {top.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Not enough setlists yet</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {top.map(stat => (
+            <li key={stat.name} className="flex items-center justify-between gap-3">
+              <span className="truncate">{stat.name}</span>
+              <span className="text-muted-foreground">{count(stat)}×</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const Tour = () => {
+  const { id = '' } = useParams<{ id: string }>();
+
+  const { data: tour, isLoading: tourLoading } = useQuery({
+    queryKey: ['tour', id],
+    queryFn: () => getTour(id),
+    enabled: !!id
+  });
+
+  const { data: summary } = useQuery({
+    queryKey: ['tourSummary', id],
+    queryFn: () => getTourSummary(id),
+    enabled: !!id
+  });
+
+  const { data: songStats = [], isLoading: statsLoading } = useQuery({
+    queryKey: ['tourSongStats', id],
+    queryFn: () => getTourSongStats(id),
+    enabled: !!id
+  });
+
+  const { data: rotationSlots = [] } = useQuery({
+    queryKey: ['tourRotationSlots', id],
+    queryFn: () => getTourRotationSlots(id),
+    enabled: !!id
+  });
+
+  const { data: unplayedSongs = [] } = useQuery({
+    queryKey: ['tourUnplayedSongs', id],
+    queryFn: () => getTourUnplayedSongs(id),
+    enabled: !!id
+  });
+
+  useDocumentTitle(tour ? `${tour.name} · ${tour.artist?.name ?? 'Tour'}` : 'Tour');
+
+  if (!tourLoading && !tour) {
+    return (
+      <div className="min-h-screen flex flex-col">
+        <Navbar />
+        <main className="flex-grow flex flex-col items-center justify-center px-6 py-24 text-center">
+          <h1 className="text-3xl font-bold mb-4">Tour not found</h1>
+          <Link to="/artists" className="text-primary hover:underline">Browse artists</Link>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-grow px-6 md:px-8 lg:px-12 py-12">
+        <div className="max-w-7xl mx-auto space-y-12">
+          <div>
+            {tour?.artist && (
+              <Link to={`/artists/${tour.artist.id}`} className="inline-flex items-center text-muted-foreground hover:text-foreground mb-8">
+                <ArrowLeft size={16} className="mr-2" />
+                {tour.artist.name}
+              </Link>
+            )}
+            {tourLoading ? (
+              <Skeleton className="h-10 w-64" />
+            ) : (
+              <>
+                <h1 className="text-3xl md:text-4xl font-bold">{tour?.name}</h1>
+                {tour?.first_played_at && (
+                  <div className="flex items-center text-muted-foreground mt-3">
+                    <CalendarDays size={16} className="mr-1.5" />
+                    {formatDate(tour.first_played_at)}
+                    {tour.last_played_at && tour.last_played_at !== tour.first_played_at && ` – ${formatDate(tour.last_played_at)}`}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <section className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatTile label="Nights played" value={summary?.nights_played ?? 0} />
+            <StatTile label="Upcoming shows" value={summary?.upcoming_shows ?? 0} />
+            <StatTile label="Average setlist" value={summary?.avg_setlist_length ? `${summary.avg_setlist_length} songs` : '—'} />
+            <StatTile label="Songs played" value={summary?.distinct_songs ?? 0} />
+          </section>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-12">
+            <section className="lg:col-span-2">
+              <h2 className="text-2xl font-semibold mb-6">Song Frequency</h2>
+              {statsLoading ? (
+                <div className="space-y-3">
+                  {Array.from({ length: 8 }).map((_, i) => (
+                    <Skeleton key={i} className="h-8 w-full" />
+                  ))}
+                </div>
+              ) : songStats.length === 0 ? (
+                <p className="text-muted-foreground">No setlists from this tour yet</p>
+              ) : (
+                <ul className="space-y-3">
+                  {songStats.map(stat => (
+                    <li key={stat.song_id ?? stat.name}>
+                      <div className="flex items-center justify-between gap-3 text-sm mb-1">
+                        <span className="font-medium truncate">{stat.name}</span>
+                        <span className="flex items-center gap-2 text-muted-foreground">
+                          {stat.rotation !== 'staple' && (
+                            <Badge variant="outline" className="capitalize">{stat.rotation}</Badge>
+                          )}
+                          {stat.times_played} · {formatPercent(stat.play_rate)}
+                        </span>
+                      </div>
+                      <Progress value={Number(stat.play_rate) * 100} className="h-1.5" />
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <div className="space-y-10">
+              <section className="space-y-6">
+                <h2 className="text-2xl font-semibold">Openers &amp; Closers</h2>
+                <SlotList title="Opener" stats={songStats} count={stat => stat.opener_count} />
+                <SlotList title="Main set closer" stats={songStats} count={stat => stat.closer_count} />
+                <SlotList title="Encore" stats={songStats} count={stat => stat.encore_count} />
+              </section>
+
+              <section>
+                <h2 className="text-2xl font-semibold mb-4 flex items-center gap-2">
+                  <Repeat size={20} className="text-muted-foreground" />
+                  Rotation Slots
+                </h2>
+                {rotationSlots.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">The setlist hasn't changed from night to night</p>
+                ) : (
+                  <ul className="space-y-4 text-sm">
+                    {rotationSlots.map(slot => (
+                      <li key={slot.position}>
+                        <div className="font-medium">
+                          Song {slot.position} · {slot.distinct_songs} songs over {slot.nights} nights
+                        </div>
+                        <div className="text-muted-foreground">
+                          {slot.songs.map(song => `${song.name} (${song.times_played})`).join(', ')}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+
+              <section>
+                <h2 className="text-2xl font-semibold mb-4 flex items-center gap-2">
+                  <Music size={20} className="text-muted-foreground" />
+                  Not Yet Played
+                </h2>
+                {unplayedSongs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Every song in the catalog has been played</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {unplayedSongs.map(song => (
+                      <li key={song.song_id} className="truncate">{song.name}</li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Tour;
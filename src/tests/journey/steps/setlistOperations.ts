@@ -1,5 +1,6 @@
 
 import { supabase } from "@/integrations/supabase/client";
+import { submitVote } from "@/lib/api/database/votes";
 import { TestResults } from '../types';
 import { logError, logSuccess, DETAILED_LOGGING } from '../logger';
 
@@ -276,53 +277,25 @@ export async function voteForSong(
       throw new Error("No song available to vote for");
     }
     
-    // First check if we already voted for this song
-    const { data: existingVote, error: voteCheckError } = await supabase
-      .from('votes')
-      .select('*')
-      .eq('setlist_song_id', setlistSong.id)
-      .eq('user_id', userId)
-      .maybeSingle();
+    // Vote through the vote service, as the upvote button does
+    const result = await submitVote(setlistSong.id);
     
-    if (voteCheckError) {
-      logError(results, "Vote Check", "Database", `Database error checking existing vote: ${voteCheckError.message}`, voteCheckError);
-      // Continue anyway - this is just a test
+    if (!result.ok) {
+      logError(results, "Vote", "API", `Vote service rejected the vote: ${result.error}`, result);
+      throw new Error(result.error || 'Failed to record vote');
     }
     
-    if (!existingVote) {
-      // Insert a new vote
-      const { error: voteError } = await supabase
-        .from('votes')
-        .insert({
-          setlist_song_id: setlistSong.id,
-          user_id: userId
-        });
-      
-      if (voteError) {
-        logError(results, "Vote", "Database", `Database error voting for song: ${voteError.message}`, voteError);
-        throw voteError;
-      }
-      
-      // Increment the vote count
-      const { error: incrementError } = await supabase.rpc(
-        'increment_votes',
-        { song_id: setlistSong.id }
-      );
-      
-      if (incrementError) {
-        logError(results, "Vote Increment", "Database", `Database error incrementing vote count: ${incrementError.message}`, incrementError);
-        throw incrementError;
-      }
-      
-      logSuccess(results, "Vote", `Successfully voted for song ID: ${setlistSong.id} (Database & Client action)`, {
+    if (result.status === 'recorded') {
+      logSuccess(results, "Vote", `Successfully voted for song ID: ${setlistSong.id} (API & Client action)`, {
         songId: setlistSong.id,
-        userId: userId
+        userId: userId,
+        voteCount: result.voteCount
       });
     } else {
-      logSuccess(results, "Vote Check", `Already voted for song ID: ${setlistSong.id} (Database check)`, {
-        voteId: existingVote.id,
+      logSuccess(results, "Vote Check", `Already voted for song ID: ${setlistSong.id} (API check)`, {
         songId: setlistSong.id,
-        userId: userId
+        userId: userId,
+        voteCount: result.voteCount
       });
     }
     
@@ -0,0 +1,62 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * Artist entity resolution for Edge Functions.
+ * Every entry point that creates artists asks resolve_artist for the
+ * canonical artist first, so Ticketmaster, Spotify and MusicBrainz IDs for
+ * the same act end up on one row (see artist_identifiers). New artists are
+ * created by the caller and then registered with linkArtistIdentifiers.
+ */
+
+// Callers often pass whatever id they hold as the Ticketmaster ID; an
+// internal artist UUID is not one
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function ticketmasterId(id?: string | null): string | null {
+  return id && !UUID_PATTERN.test(id) ? id : null;
+}
+
+export interface ArtistIdentifiers {
+  name?: string | null;
+  ticketmasterId?: string | null;
+  spotifyId?: string | null;
+  mbid?: string | null;
+}
+
+/** The canonical artist id for these IDs, or null for a new artist */
+export async function resolveArtist(
+  supabase: SupabaseClient,
+  identifiers: ArtistIdentifiers,
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('resolve_artist', {
+    p_name: identifiers.name ?? null,
+    p_ticketmaster_id: ticketmasterId(identifiers.ticketmasterId),
+    p_spotify_id: identifiers.spotifyId ?? null,
+    p_mbid: identifiers.mbid ?? null,
+  });
+
+  if (error) {
+    console.warn(`[artistResolver] Could not resolve artist ${identifiers.name ?? ''}: ${error.message}`);
+    return null;
+  }
+
+  return data ?? null;
+}
+
+/** Record the provider IDs of an artist the caller just created */
+export async function linkArtistIdentifiers(
+  supabase: SupabaseClient,
+  artistId: string,
+  identifiers: ArtistIdentifiers,
+): Promise<void> {
+  const { error } = await supabase.rpc('link_artist_identifiers', {
+    p_artist_id: artistId,
+    p_ticketmaster_id: ticketmasterId(identifiers.ticketmasterId),
+    p_spotify_id: identifiers.spotifyId ?? null,
+    p_mbid: identifiers.mbid ?? null,
+  });
+
+  if (error) {
+    console.warn(`[artistResolver] Could not link identifiers for artist ${artistId}: ${error.message}`);
+  }
+}
@@ -3,6 +3,8 @@ import { supabaseAdmin } from './supabaseClient.ts';
 import type { Artist, Venue, Show, SetlistSong, Song } from './types.ts'; // Use shared types
 // Import song utilities from the shared location
 import { fetchAndStoreArtistTracks } from './songDbUtils.ts';
+import { linkArtistIdentifiers, resolveArtist } from './artistResolver.ts';
+import { linkTicketmasterGenres } from './genres.ts';
 
 // NOTE: The automatic background sync trigger using fetch('/api/sync/venue', ...)
 // needs to be replaced with supabase.functions.invoke('sync-venue', ...) later.
@@ -19,6 +21,19 @@ export async function saveArtistToDatabase(artist: Artist): Promise<Artist | nul
     }
     console.log(`[EF saveArtist] Processing artist: ${artist?.name} (ID: ${artist?.id})`);
 
+    // Save onto the canonical artist when any of these provider IDs is known
+    const identifiers = {
+      name: artist.name,
+      ticketmasterId: artist.id,
+      spotifyId: artist.spotify_id,
+      mbid: artist.setlist_fm_mbid,
+    };
+    const canonicalId = await resolveArtist(supabaseAdmin, identifiers);
+    if (canonicalId && canonicalId !== artist.id) {
+      console.log(`[EF saveArtist] ${artist.name} resolves to existing artist ${canonicalId}`);
+      artist = { ...artist, id: canonicalId };
+    }
+
     // Check if artist already exists (using Ticketmaster ID as the primary key initially)
     // Ensure your 'artists' table uses the Ticketmaster ID as 'id' or has a unique constraint on it.
     try {
@@ -84,6 +99,9 @@ export async function saveArtistToDatabase(artist: Artist): Promise<Artist | nul
 
       console.log(`[EF saveArtist] Successfully saved/updated artist ${artist.name}`);
       const savedDbArtist = data as Artist;
+      if (!canonicalId) {
+        await linkArtistIdentifiers(supabaseAdmin, savedDbArtist.id, identifiers);
+      }
 
       // If artist has Spotify ID, fetch their tracks in the background
       if (savedDbArtist?.id && savedDbArtist?.spotify_id) {
@@ -155,6 +173,11 @@ export async function saveVenueToDatabase(venue: Venue): Promise<Venue | null> {
       address: venue.address,
       postal_code: venue.postal_code,
       image_url: venue.image_url,
+      // Only overwrite stored coordinates when the payload has them
+      ...(venue.latitude !== undefined && venue.longitude !== undefined
+        ? { latitude: venue.latitude, longitude: venue.longitude }
+        : {}),
+      ...(venue.timezone ? { timezone: venue.timezone } : {}),
       updated_at: new Date().toISOString()
     };
 
@@ -286,6 +309,8 @@ export async function saveShowToDatabase(show: Show, options: { triggeredBySync?
     const savedDbShow = data as Show; // This is the show record from the DB
     console.log(`[EF saveShow] Successfully saved show ${show.name} to database`);
 
+    await linkTicketmasterGenres(supabaseAdmin, dbArtistId, show.classifications);
+
     // --- Automatic Venue Sync Trigger ---
     if (!triggeredBySync && dbVenueId) { // Ensure we have the DB venue ID
       console.log(`[EF saveShow] Considering background sync for venue ID: ${dbVenueId} (Show: ${savedDbShow.name})`);
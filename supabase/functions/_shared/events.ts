@@ -0,0 +1,44 @@
+import type { TicketmasterEvent } from './types.ts';
+
+/**
+ * Festival detection for Ticketmaster events. Ticketmaster lists a festival
+ * as one event whose attractions are the whole lineup, while a regular show
+ * lists its headliner first and at most a couple of support acts. Festivals
+ * are saved as an event with one performance per attraction
+ * (src/db-migrations/022_events.sql); everything else is saved as a single
+ * show for the headliner.
+ */
+
+// More acts than a headliner with support
+export const FESTIVAL_MIN_ATTRACTIONS = 4;
+
+type TicketmasterAttraction = NonNullable<NonNullable<TicketmasterEvent['_embedded']>['attractions']>[number];
+
+/**
+ * The event's attractions, once each, in billing order
+ */
+export function getLineup(event: Pick<TicketmasterEvent, '_embedded'>): TicketmasterAttraction[] {
+  const seen = new Set<string>();
+  return (event._embedded?.attractions || []).filter((attraction) => {
+    if (!attraction?.id || seen.has(attraction.id)) return false;
+    seen.add(attraction.id);
+    return true;
+  });
+}
+
+export function isFestivalEvent(event: Pick<TicketmasterEvent, 'name' | 'dates' | '_embedded'>): boolean {
+  const lineupSize = getLineup(event).length;
+  if (lineupSize < 2) return false;
+  if (lineupSize >= FESTIVAL_MIN_ATTRACTIONS) return true;
+
+  // A short lineup is still a festival when it runs over several days or
+  // calls itself one
+  return Boolean(event.dates?.spanMultipleDays) || /\bfest(ival)?\b/i.test(event.name || '');
+}
+
+/**
+ * shows.external_id for one act's performance at a festival
+ */
+export function performanceExternalId(eventId: string, attractionId: string): string {
+  return `${eventId}:${attractionId}`;
+}
@@ -0,0 +1,30 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { TicketmasterClassification } from './types.ts';
+
+/**
+ * Links artists to the genre taxonomy from Ticketmaster classifications.
+ * Spotify genres need no call: a trigger on artists.genres classifies them
+ * (classify_artist_genres in src/db-migrations/018_genres.sql).
+ */
+export async function linkTicketmasterGenres(
+  supabase: SupabaseClient,
+  artistId: string,
+  classifications?: TicketmasterClassification[],
+): Promise<void> {
+  const music = (classifications || []).filter(c => !c.segment || c.segment.name === 'Music');
+  const ids = music.flatMap(c => [c.genre?.id, c.subGenre?.id]).filter((id): id is string => !!id);
+  const names = music.flatMap(c => [c.genre?.name, c.subGenre?.name])
+    .filter((name): name is string => !!name && name !== 'Undefined');
+
+  if (ids.length === 0 && names.length === 0) return;
+
+  const { error } = await supabase.rpc('link_ticketmaster_genres', {
+    p_artist_id: artistId,
+    p_classification_ids: ids,
+    p_classification_names: names,
+  });
+
+  if (error) {
+    console.warn(`[genres] Could not link genres for artist ${artistId}: ${error.message}`);
+  }
+}
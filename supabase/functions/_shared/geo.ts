@@ -0,0 +1,32 @@
+/**
+ * Venue coordinate parsing for Edge Functions.
+ * Same rules as src/lib/geo.ts: Ticketmaster sends locations as strings and
+ * sometimes 0,0 for a missing location, so coordinates are only stored when
+ * both halves parse and are in range.
+ */
+
+type RawCoordinate = string | number | null | undefined;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+function parseCoordinate(value: RawCoordinate, max: number): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isFinite(parsed) || Math.abs(parsed) > max) return null;
+  return parsed;
+}
+
+export function parseVenueCoordinates(
+  location?: { latitude?: RawCoordinate; longitude?: RawCoordinate } | null,
+): Coordinates | null {
+  const latitude = parseCoordinate(location?.latitude, 90);
+  const longitude = parseCoordinate(location?.longitude, 180);
+
+  if (latitude === null || longitude === null) return null;
+  if (latitude === 0 && longitude === 0) return null;
+
+  return { latitude, longitude };
+}
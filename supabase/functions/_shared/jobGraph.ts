@@ -0,0 +1,149 @@
+/**
+ * Dependency-aware job graph for Edge Functions.
+ * Same scheduling rules as src/lib/sync/job-graph.ts: jobs run in topological
+ * order with bounded parallelism, and a failed job only blocks its dependents.
+ */
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'blocked';
+
+export interface GraphJob<T> {
+  key: string;
+  payload: T;
+  dependsOn: string[];
+  status: JobStatus;
+  error?: string;
+  blockedBy?: string;
+}
+
+export interface JobGraphRunOptions<T> {
+  parallelLimit?: number;
+  onJobStart?: (job: GraphJob<T>) => void | Promise<void>;
+  onJobFinish?: (job: GraphJob<T>) => void | Promise<void>;
+}
+
+export class JobGraph<T> {
+  private jobs = new Map<string, GraphJob<T>>();
+
+  addJob(key: string, payload: T, dependsOn: string[] = []): string {
+    const existing = this.jobs.get(key);
+    if (existing) {
+      existing.dependsOn = Array.from(new Set([...existing.dependsOn, ...dependsOn]));
+      return key;
+    }
+    this.jobs.set(key, { key, payload, dependsOn: [...dependsOn], status: 'pending' });
+    return key;
+  }
+
+  get(key: string): GraphJob<T> | undefined {
+    return this.jobs.get(key);
+  }
+
+  topologicalOrder(): string[] {
+    const inDegree = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+
+    for (const [key, job] of this.jobs) {
+      const deps = job.dependsOn.filter(dep => this.jobs.has(dep));
+      inDegree.set(key, deps.length);
+      for (const dep of deps) {
+        dependents.set(dep, [...(dependents.get(dep) || []), key]);
+      }
+    }
+
+    const ready = [...this.jobs.keys()].filter(key => inDegree.get(key) === 0);
+    const order: string[] = [];
+
+    while (ready.length > 0) {
+      const key = ready.shift() as string;
+      order.push(key);
+      for (const dependent of dependents.get(key) || []) {
+        const remaining = (inDegree.get(dependent) || 0) - 1;
+        inDegree.set(dependent, remaining);
+        if (remaining === 0) ready.push(dependent);
+      }
+    }
+
+    if (order.length !== this.jobs.size) {
+      throw new Error(`Job graph contains a cycle: ${[...this.jobs.keys()].filter(k => !order.includes(k)).join(', ')}`);
+    }
+
+    return order;
+  }
+
+  /**
+   * A job whose onJobStart throws fails without running; onJobFinish is
+   * called for every job however it ended.
+   */
+  async run(
+    executor: (payload: T, job: GraphJob<T>) => Promise<{ success: boolean; error?: string }>,
+    options: JobGraphRunOptions<T> = {},
+  ): Promise<GraphJob<T>[]> {
+    const { parallelLimit = 3, onJobStart, onJobFinish } = options;
+    const order = this.topologicalOrder();
+    const inFlight = new Map<string, Promise<void>>();
+    const depsOf = (job: GraphJob<T>) => job.dependsOn.filter(dep => this.jobs.has(dep));
+
+    // A throwing onJobFinish must not stop the rest of the graph
+    const finish = async (job: GraphJob<T>) => {
+      try {
+        await onJobFinish?.(job);
+      } catch (error) {
+        console.error(`onJobFinish failed for job ${job.key}:`, error);
+      }
+    };
+
+    const blockDependents = async () => {
+      for (const key of order) {
+        const job = this.jobs.get(key) as GraphJob<T>;
+        if (job.status !== 'pending') continue;
+        const blocker = depsOf(job).find(dep => {
+          const status = this.jobs.get(dep)?.status;
+          return status === 'failed' || status === 'blocked';
+        });
+        if (blocker) {
+          job.status = 'blocked';
+          job.blockedBy = blocker;
+          await finish(job);
+        }
+      }
+    };
+
+    const start = (job: GraphJob<T>) => {
+      job.status = 'running';
+      const promise = (async () => {
+        try {
+          await onJobStart?.(job);
+          const result = await executor(job.payload, job);
+          job.status = result.success ? 'completed' : 'failed';
+          job.error = result.success ? undefined : result.error || 'Unknown error';
+        } catch (error) {
+          job.status = 'failed';
+          job.error = error instanceof Error ? error.message : String(error);
+        } finally {
+          await finish(job);
+        }
+        if (job.status === 'failed') await blockDependents();
+      })().finally(() => {
+        inFlight.delete(job.key);
+      });
+      inFlight.set(job.key, promise);
+    };
+
+    while (true) {
+      const ready = order
+        .map(key => this.jobs.get(key) as GraphJob<T>)
+        .filter(job => job.status === 'pending' &&
+          depsOf(job).every(dep => this.jobs.get(dep)?.status === 'completed'));
+
+      for (const job of ready) {
+        if (inFlight.size >= parallelLimit) break;
+        start(job);
+      }
+
+      if (inFlight.size === 0) break;
+      await Promise.race(inFlight.values());
+    }
+
+    return order.map(key => this.jobs.get(key) as GraphJob<T>);
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Provider adapters for the upstream APIs used by Edge Functions.
+ * Each adapter owns its base URL and authentication, so functions only pass
+ * a path and query params. Base URLs can be overridden per environment
+ * (e.g. to point at the recorded-fixture fake servers in tests/fakes).
+ * Requests are paced by the shared token buckets in ./rateLimiter.ts and
+ * retried after a 429 once the provider's Retry-After has passed.
+ */
+
+import { acquireRateLimitToken, parseRetryAfter, reportRateLimitResponse } from './rateLimiter.ts';
+
+export type ProviderName = 'ticketmaster' | 'spotify' | 'setlistfm';
+
+type QueryParams = Record<string, string | number | boolean | null | undefined>;
+
+export interface ProviderAdapter {
+  name: ProviderName;
+  baseUrl: string;
+  /** Whether the credentials this provider needs are configured */
+  isConfigured(): boolean;
+  /** Build a full request URL for a path relative to the base URL */
+  url(path: string, params?: QueryParams): string;
+  /** Fetch a path with the provider's authentication applied */
+  fetch(path: string, params?: QueryParams, init?: RequestInit): Promise<Response>;
+}
+
+function env(name: string): string | undefined {
+  return Deno.env.get(name) || undefined;
+}
+
+function buildUrl(baseUrl: string, path: string, params?: QueryParams): string {
+  // Absolute URLs (e.g. Spotify "next" pagination links) are passed through
+  const url = /^https?:\/\//.test(path)
+    ? new URL(path)
+    : new URL(path.replace(/^\//, ''), baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+
+  Object.entries(params || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      url.searchParams.set(key, String(value));
+    }
+  });
+
+  return url.toString();
+}
+
+// How many times a request is retried after a 429 before the 429 is returned
+const MAX_THROTTLE_RETRIES = 3;
+
+// Providers throttled by this instance, so success is only reported when it resets backoff
+const throttled = new Set<ProviderName>();
+
+async function limitedFetch(provider: ProviderName, url: string, init?: RequestInit): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    await acquireRateLimitToken(provider);
+    const response = await fetch(url, init);
+
+    if (response.status !== 429) {
+      if (throttled.delete(provider)) {
+        await reportRateLimitResponse(provider, response.status);
+      }
+      return response;
+    }
+
+    throttled.add(provider);
+    await reportRateLimitResponse(provider, 429, parseRetryAfter(response.headers.get('Retry-After')));
+
+    if (attempt >= MAX_THROTTLE_RETRIES) {
+      return response;
+    }
+  }
+}
+
+export const ticketmaster: ProviderAdapter = {
+  name: 'ticketmaster',
+  baseUrl: env('TICKETMASTER_BASE_URL') || 'https://app.ticketmaster.com/discovery/v2/',
+  isConfigured: () => Boolean(env('TICKETMASTER_API_KEY')),
+  url(path, params) {
+    return buildUrl(this.baseUrl, path, { ...params, apikey: env('TICKETMASTER_API_KEY') });
+  },
+  fetch(path, params, init) {
+    return limitedFetch('ticketmaster', this.url(path, params), {
+      ...init,
+      headers: { Accept: 'application/json', ...(init?.headers || {}) },
+    });
+  },
+};
+
+export const setlistfm: ProviderAdapter = {
+  name: 'setlistfm',
+  baseUrl: env('SETLISTFM_BASE_URL') || 'https://api.setlist.fm/rest/1.0/',
+  isConfigured: () => Boolean(env('SETLISTFM_API_KEY')),
+  url(path, params) {
+    return buildUrl(this.baseUrl, path, params);
+  },
+  fetch(path, params, init) {
+    return limitedFetch('setlistfm', this.url(path, params), {
+      ...init,
+      headers: {
+        Accept: 'application/json',
+        'x-api-key': env('SETLISTFM_API_KEY') || '',
+        ...(init?.headers || {}),
+      },
+    });
+  },
+};
+
+// Token is cached for the lifetime of the function instance
+let spotifyToken: { token: string; expiresAt: number } | null = null;
+
+export const spotify: ProviderAdapter & {
+  accountsUrl: string;
+  getAccessToken(): Promise<string | null>;
+} = {
+  name: 'spotify',
+  baseUrl: env('SPOTIFY_API_BASE_URL') || 'https://api.spotify.com/v1/',
+  accountsUrl: env('SPOTIFY_ACCOUNTS_BASE_URL') || 'https://accounts.spotify.com/',
+  isConfigured: () => Boolean(env('SPOTIFY_CLIENT_ID') && env('SPOTIFY_CLIENT_SECRET')),
+  url(path, params) {
+    return buildUrl(this.baseUrl, path, params);
+  },
+  async getAccessToken() {
+    if (spotifyToken && spotifyToken.expiresAt > Date.now()) {
+      return spotifyToken.token;
+    }
+
+    const clientId = env('SPOTIFY_CLIENT_ID');
+    const clientSecret = env('SPOTIFY_CLIENT_SECRET');
+    if (!clientId || !clientSecret) {
+      console.error('[providers] SPOTIFY_CLIENT_ID or SPOTIFY_CLIENT_SECRET not configured.');
+      return null;
+    }
+
+    const response = await fetch(buildUrl(this.accountsUrl, 'api/token'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: 'Basic ' + btoa(clientId + ':' + clientSecret),
+      },
+      body: 'grant_type=client_credentials',
+    });
+
+    if (!response.ok) {
+      console.error('[providers] Failed to get Spotify token:', response.status, await response.text());
+      return null;
+    }
+
+    const data = await response.json();
+    spotifyToken = {
+      token: data.access_token,
+      expiresAt: Date.now() + ((data.expires_in || 3600) - 60) * 1000,
+    };
+    return spotifyToken.token;
+  },
+  async fetch(path, params, init) {
+    const token = await this.getAccessToken();
+    if (!token) {
+      throw new Error('Spotify access token unavailable');
+    }
+    return limitedFetch('spotify', this.url(path, params), {
+      ...init,
+      headers: { Authorization: `Bearer ${token}`, ...(init?.headers || {}) },
+    });
+  },
+};
+
+export const providers: Record<ProviderName, ProviderAdapter> = {
+  ticketmaster,
+  spotify,
+  setlistfm,
+};
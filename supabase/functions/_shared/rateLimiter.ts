@@ -0,0 +1,90 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * Shared token-bucket rate limiter for Edge Functions.
+ * Uses the same provider_rate_limits buckets as src/lib/sync/rate-limiter.ts,
+ * so edge functions and the Next.js routes draw from one budget per provider.
+ * If the database is unreachable, requests are not held back.
+ */
+
+// Upper bound on a single sleep, so a long Retry-After is re-checked periodically
+const MAX_WAIT_MS = 30000;
+
+let client: SupabaseClient | null = null;
+
+function getClient(): SupabaseClient | null {
+  if (client) return client;
+
+  const url = Deno.env.get('SUPABASE_URL');
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !key) return null;
+
+  client = createClient(url, key, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  return client;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Wait until the provider's bucket grants a token */
+export async function acquireRateLimitToken(provider: string): Promise<void> {
+  const supabase = getClient();
+  if (!supabase) return;
+
+  while (true) {
+    const { data, error } = await supabase.rpc('acquire_rate_limit_token', { p_provider: provider });
+
+    if (error || !data || data.length === 0) {
+      if (error) console.warn(`[rateLimiter] Shared limiter unavailable for ${provider}:`, error.message);
+      return;
+    }
+
+    if (data[0].granted) return;
+
+    const waitTime = Math.min(Math.max(data[0].wait_ms, 50), MAX_WAIT_MS);
+    console.log(`[rateLimiter] Rate limit reached for ${provider}, waiting ${waitTime}ms`);
+    await sleep(waitTime);
+  }
+}
+
+/**
+ * Record a response status. A 429 closes the bucket for every caller until
+ * Retry-After (or an exponential backoff); a success clears the backoff.
+ */
+export async function reportRateLimitResponse(
+  provider: string,
+  status: number,
+  retryAfterSeconds: number | null = null,
+): Promise<void> {
+  const supabase = getClient();
+
+  if (!supabase) {
+    if (status === 429) await sleep(Math.min((retryAfterSeconds ?? 1) * 1000, MAX_WAIT_MS));
+    return;
+  }
+
+  const { data: blockedUntil, error } = await supabase.rpc('report_rate_limit_response', {
+    p_provider: provider,
+    p_status: status,
+    p_retry_after_seconds: retryAfterSeconds,
+  });
+
+  if (error) {
+    console.warn(`[rateLimiter] Error reporting ${status} from ${provider}:`, error.message);
+    if (status === 429) await sleep(Math.min((retryAfterSeconds ?? 1) * 1000, MAX_WAIT_MS));
+  } else if (status === 429) {
+    console.warn(`[rateLimiter] ${provider} returned 429, backing off until ${blockedUntil}`);
+  }
+}
+
+/** Parse a Retry-After header (delay in seconds or an HTTP date) into seconds */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, (date - Date.now()) / 1000);
+}
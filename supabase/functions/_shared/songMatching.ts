@@ -0,0 +1,294 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * Song resolution for Edge Functions: match setlist.fm song names to the
+ * artist's Spotify catalog in the songs table.
+ * Same matching rules as src/lib/sync/song-matching.ts: names are normalized,
+ * checked against song_aliases and scored, and only confident matches are
+ * linked. Everything else is queued in song_match_reviews for an admin.
+ */
+
+export type SongMatchMethod = 'exact' | 'alias' | 'normalized' | 'fuzzy' | 'medley' | 'none';
+
+export interface CatalogSong {
+  id: string;
+  name: string;
+  popularity?: number | null;
+}
+
+export interface SongAlias {
+  song_id: string;
+  normalized_alias: string;
+}
+
+export interface SetlistSongInput {
+  name: string;
+  /** Name of the original artist when setlist.fm marks the song as a cover */
+  cover?: string | null;
+}
+
+export interface SongResolution {
+  name: string;
+  /** Normalized title, used as the review queue and alias key */
+  matchKey: string;
+  songId: string | null;
+  /** Best candidate, even when it is not confident enough to link */
+  candidateId: string | null;
+  confidence: number;
+  method: SongMatchMethod;
+  isCover: boolean;
+  coverArtist: string | null;
+  /** Whether the song should be queued for an admin to review */
+  needsReview: boolean;
+}
+
+// Link automatically at or above this confidence
+export const AUTO_LINK_CONFIDENCE = 0.85;
+
+// Below this, a fuzzy candidate is not worth showing a reviewer
+export const MIN_CANDIDATE_CONFIDENCE = 0.5;
+
+// Fuzzy matches never reach the confidence of a normalized match
+const FUZZY_WEIGHT = 0.9;
+
+const MEDLEY_WEIGHT = 0.9;
+
+// Qualifiers that mark a different recording of the same song
+const VERSION_WORDS =
+  'live|remaster|remastered|version|edit|mix|remix|feat|ft|featuring|acoustic|demo|mono|stereo|bonus|deluxe|explicit|single|session|unplugged|instrumental';
+
+const BRACKETED_VERSION = new RegExp(`\\s*[([][^)\\]]*\\b(${VERSION_WORDS})\\b[^)\\]]*[)\\]]`, 'gi');
+const DASHED_VERSION = new RegExp(`\\s+[-–—]\\s+[^-–—]*\\b(${VERSION_WORDS})\\b.*$`, 'i');
+const MEDLEY_SEPARATOR = /\s+\/\s+/;
+
+/**
+ * Normalize a song title for comparison: version qualifiers, accents,
+ * punctuation and case are dropped, and "&" reads as "and"
+ */
+export function normalizeSongTitle(title: string): string {
+  return title
+    .replace(BRACKETED_VERSION, '')
+    .replace(DASHED_VERSION, '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’`]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * The titles in a setlist.fm medley entry ("Song A / Song B"), or the title
+ * alone when it is not a medley
+ */
+export function splitMedley(title: string): string[] {
+  return title
+    .replace(/^medley\s*[:-]\s*/i, '')
+    .split(MEDLEY_SEPARATOR)
+    .map(part => part.trim())
+    .filter(Boolean);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two normalized titles from 0 to 1: the better of the edit
+ * distance ratio and how many words the titles share
+ */
+export function titleSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const editRatio = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+  const wordsA = new Set(a.split(' '));
+  const wordsB = new Set(b.split(' '));
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  const wordRatio = shared / Math.max(wordsA.size, wordsB.size);
+
+  return Math.max(editRatio, wordRatio);
+}
+
+// Prefer the plain recording over remasters and live cuts, then the most popular
+function preferredSong(songs: CatalogSong[]): CatalogSong {
+  return [...songs].sort((a, b) =>
+    a.name.length - b.name.length || (b.popularity ?? 0) - (a.popularity ?? 0)
+  )[0];
+}
+
+interface TitleMatch {
+  songId: string | null;
+  candidateId: string | null;
+  confidence: number;
+  method: SongMatchMethod;
+}
+
+function matchTitle(name: string, catalog: CatalogSong[], aliases: SongAlias[]): TitleMatch {
+  const lowered = name.trim().toLowerCase();
+  const exact = catalog.filter(song => song.name.trim().toLowerCase() === lowered);
+  if (exact.length > 0) {
+    const song = preferredSong(exact);
+    return { songId: song.id, candidateId: song.id, confidence: 1, method: 'exact' };
+  }
+
+  const key = normalizeSongTitle(name);
+  const alias = aliases.find(a => a.normalized_alias === key);
+  if (alias) {
+    return { songId: alias.song_id, candidateId: alias.song_id, confidence: 1, method: 'alias' };
+  }
+
+  const normalized = catalog.filter(song => normalizeSongTitle(song.name) === key);
+  if (normalized.length > 0) {
+    const song = preferredSong(normalized);
+    return { songId: song.id, candidateId: song.id, confidence: 0.95, method: 'normalized' };
+  }
+
+  let best: CatalogSong | null = null;
+  let bestSimilarity = 0;
+  for (const song of catalog) {
+    const similarity = titleSimilarity(key, normalizeSongTitle(song.name));
+    if (similarity > bestSimilarity) {
+      best = song;
+      bestSimilarity = similarity;
+    }
+  }
+
+  const confidence = Number((bestSimilarity * FUZZY_WEIGHT).toFixed(3));
+  if (!best || confidence < MIN_CANDIDATE_CONFIDENCE) {
+    return { songId: null, candidateId: null, confidence: 0, method: 'none' };
+  }
+
+  return {
+    songId: confidence >= AUTO_LINK_CONFIDENCE ? best.id : null,
+    candidateId: best.id,
+    confidence,
+    method: 'fuzzy'
+  };
+}
+
+/**
+ * Resolve a setlist.fm song to a catalog song. Confident matches come back
+ * with a songId; anything else leaves songId null and is flagged for review,
+ * except covers the artist never recorded, which are expected to be missing
+ * from their catalog.
+ */
+export function resolveSong(
+  song: SetlistSongInput,
+  catalog: CatalogSong[],
+  aliases: SongAlias[] = []
+): SongResolution {
+  const isCover = Boolean(song.cover);
+  let match = matchTitle(song.name, catalog, aliases);
+
+  // A medley links to its first song, but never as surely as a single title
+  const parts = splitMedley(song.name);
+  if (match.method !== 'exact' && match.method !== 'alias' && parts.length > 1) {
+    const first = matchTitle(parts[0], catalog, aliases);
+    if (first.candidateId) {
+      const confidence = Number((first.confidence * MEDLEY_WEIGHT).toFixed(3));
+      if (confidence > match.confidence) {
+        match = {
+          songId: confidence >= AUTO_LINK_CONFIDENCE ? first.candidateId : null,
+          candidateId: first.candidateId,
+          confidence,
+          method: 'medley'
+        };
+      }
+    }
+  }
+
+  return {
+    name: song.name,
+    matchKey: normalizeSongTitle(song.name),
+    songId: match.songId,
+    candidateId: match.candidateId,
+    confidence: match.confidence,
+    method: match.method,
+    isCover,
+    coverArtist: song.cover ?? null,
+    needsReview: match.songId === null && !(isCover && match.candidateId === null)
+  };
+}
+
+export interface PlayedSongMatch {
+  song_id: string | null;
+  name: string;
+  match_key: string;
+  match_confidence: number;
+  match_method: SongMatchMethod;
+  is_cover: boolean;
+  cover_artist: string | null;
+}
+
+/**
+ * Resolve a setlist's songs against one artist's catalog and aliases, and
+ * queue the ones that need review. Returns the match columns for each
+ * played_setlist_songs row, in the order given.
+ */
+export async function resolveSetlistSongs(
+  supabase: SupabaseClient,
+  artistId: string,
+  songs: SetlistSongInput[],
+): Promise<PlayedSongMatch[]> {
+  const [{ data: catalog, error: catalogError }, { data: aliases, error: aliasError }] = await Promise.all([
+    supabase.from('songs').select('id, name, popularity').eq('artist_id', artistId),
+    supabase.from('song_aliases').select('song_id, normalized_alias').eq('artist_id', artistId),
+  ]);
+
+  if (catalogError) {
+    console.error(`[songMatching] Error loading catalog for artist ${artistId}: ${catalogError.message}`);
+  }
+  if (aliasError) {
+    console.warn(`[songMatching] Error loading aliases for artist ${artistId}: ${aliasError.message}`);
+  }
+
+  const resolutions = songs.map(song => resolveSong(song, catalog ?? [], aliases ?? []));
+
+  for (const resolution of resolutions) {
+    if (resolution.method !== 'exact' && resolution.method !== 'alias') {
+      console.log(
+        `[songMatching] "${resolution.name}" -> ${resolution.candidateId ?? 'no match'} (${resolution.method}, ${resolution.confidence})`,
+      );
+    }
+    if (!resolution.needsReview) continue;
+
+    const { error } = await supabase.rpc('queue_song_match_review', {
+      p_artist_id: artistId,
+      p_setlist_name: resolution.name,
+      p_match_key: resolution.matchKey,
+      p_candidate_song_id: resolution.candidateId,
+      p_confidence: resolution.confidence,
+      p_match_method: resolution.method,
+      p_is_cover: resolution.isCover,
+      p_cover_artist: resolution.coverArtist,
+    });
+    if (error) {
+      console.warn(`[songMatching] Failed to queue "${resolution.name}" for review: ${error.message}`);
+    }
+  }
+
+  return resolutions.map(resolution => ({
+    song_id: resolution.songId,
+    name: resolution.name,
+    match_key: resolution.matchKey,
+    match_confidence: resolution.confidence,
+    match_method: resolution.method,
+    is_cover: resolution.isCover,
+    cover_artist: resolution.coverArtist,
+  }));
+}
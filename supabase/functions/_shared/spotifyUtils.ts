@@ -1,6 +1,6 @@
 import { SpotifyTrack, SpotifyTracksResponse, SpotifyArtist } from './types.ts';
 
-const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
+import { spotify } from './providers.ts';
 
 // Get Spotify API token using client credentials flow (Edge Function context)
 // NOTE: This fetches a new token on every call, suitable for stateless functions.
@@ -15,7 +15,7 @@ export const getSpotifyAccessToken = async (): Promise<string> => {
   }
 
   try {
-    const response = await fetch('https://accounts.spotify.com/api/token', {
+    const response = await fetch(new URL('api/token', spotify.accountsUrl).toString(), {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -49,12 +49,10 @@ export const getSpotifyAccessToken = async (): Promise<string> => {
 export const getArtistAllTracks = async (artistSpotifyId: string): Promise<SpotifyTracksResponse> => {
   try {
     console.log(`[EF Spotify Tracks] Fetching complete track catalog for artist Spotify ID: ${artistSpotifyId}`);
-    const token = await getSpotifyAccessToken();
-
     // Fetch top tracks first
-    const topTracksResponse = await fetch(
-      `${SPOTIFY_API_BASE}/artists/${artistSpotifyId}/top-tracks?market=US`, // Use a relevant market
-      { headers: { Authorization: `Bearer ${token}` } }
+    const topTracksResponse = await spotify.fetch(
+      `artists/${artistSpotifyId}/top-tracks`,
+      { market: 'US' } // Use a relevant market
     );
     if (!topTracksResponse.ok) {
       console.error(`[EF Spotify Tracks] Failed to get top tracks: ${topTracksResponse.statusText}`);
@@ -84,9 +82,9 @@ export const getArtistAllTracks = async (artistSpotifyId: string): Promise<Spoti
     });
 
     // Fetch albums (limit to reduce API calls, adjust as needed)
-    const albumsResponse = await fetch(
-      `${SPOTIFY_API_BASE}/artists/${artistSpotifyId}/albums?include_groups=album,single&limit=20&market=US`,
-      { headers: { Authorization: `Bearer ${token}` } }
+    const albumsResponse = await spotify.fetch(
+      `artists/${artistSpotifyId}/albums`,
+      { include_groups: 'album,single', limit: 20, market: 'US' }
     );
 
     if (albumsResponse.ok) {
@@ -96,9 +94,9 @@ export const getArtistAllTracks = async (artistSpotifyId: string): Promise<Spoti
         // Fetch tracks for each album concurrently
         const albumTrackPromises = albumsData.items.map(async (album: any) => {
           try {
-            const tracksResponse = await fetch(
-              `${SPOTIFY_API_BASE}/albums/${album.id}/tracks?limit=50&market=US`,
-              { headers: { Authorization: `Bearer ${token}` } }
+            const tracksResponse = await spotify.fetch(
+              `albums/${album.id}/tracks`,
+              { limit: 50, market: 'US' }
             );
             if (!tracksResponse.ok) return []; // Skip album on error
             const tracksData = await tracksResponse.json();
@@ -145,11 +143,7 @@ export const getArtistAllTracks = async (artistSpotifyId: string): Promise<Spoti
 export const getArtistByName = async (name: string): Promise<SpotifyArtist | null> => {
   try {
     console.log(`[EF Spotify Search] Searching for artist by name: ${name}`);
-    const token = await getSpotifyAccessToken();
-    const response = await fetch(
-      `${SPOTIFY_API_BASE}/search?q=${encodeURIComponent(name)}&type=artist&limit=1`,
-      { headers: { Authorization: `Bearer ${token}` } }
-    );
+    const response = await spotify.fetch('search', { q: name, type: 'artist', limit: 1 });
 
     if (!response.ok) {
       console.error(`[EF Spotify Search] Failed to search artist: ${response.statusText}`);
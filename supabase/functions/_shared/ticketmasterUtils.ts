@@ -1,5 +1,7 @@
 import { retryableFetch } from './retry.ts'; // Assuming retry logic is moved/available
 import type { Show, TicketmasterEvent, TicketmasterImage } from './types.ts';
+import { ticketmaster } from './providers.ts';
+import { parseVenueCoordinates } from './geo.ts';
 
 // Helper function to map Ticketmaster event to our Show type
 function mapTicketmasterEventToShow(event: TicketmasterEvent): Show {
@@ -22,6 +24,7 @@ function mapTicketmasterEventToShow(event: TicketmasterEvent): Show {
     let venue = null;
     if (event._embedded?.venues && event._embedded.venues.length > 0) {
       const venueData = event._embedded.venues[0];
+      const coordinates = parseVenueCoordinates(venueData.location);
       venue = {
         id: venueData.id,
         ticketmaster_id: venueData.id,
@@ -32,6 +35,9 @@ function mapTicketmasterEventToShow(event: TicketmasterEvent): Show {
         address: venueData.address?.line1,
         postal_code: venueData.postalCode,
         image_url: venueData.images?.[0]?.url,
+        latitude: coordinates?.latitude,
+        longitude: coordinates?.longitude,
+        timezone: venueData.timezone || event.dates?.timezone,
       };
     }
 
@@ -47,6 +53,7 @@ function mapTicketmasterEventToShow(event: TicketmasterEvent): Show {
       venue_id: venue?.id,
       venue: venue || undefined,
       popularity: event.popularity || 0,
+      classifications: event.classifications,
     };
 }
 
@@ -62,19 +69,16 @@ export async function fetchArtistEvents(artistTmId: string): Promise<Show[]> {
     }
 
     // Use Deno.env for server-side API key access in Edge Functions
-    const apiKey = Deno.env.get('TICKETMASTER_API_KEY');
-    if (!apiKey) {
+    if (!ticketmaster.isConfigured()) {
       console.error("[EF fetchArtistEvents] TICKETMASTER_API_KEY not configured in Edge Function environment variables.");
       throw new Error("Server configuration error: Missing Ticketmaster API Key.");
     }
 
     const response = await retryableFetch(async () => {
-      const url = `https://app.ticketmaster.com/discovery/v2/events.json?apikey=${apiKey}&attractionId=${artistTmId}&size=50&sort=date,asc`;
-      console.log(`[EF fetchArtistEvents] Requesting URL: ${url}`);
+      const params = { attractionId: artistTmId, size: 50, sort: 'date,asc' };
+      console.log(`[EF fetchArtistEvents] Requesting events for attractionId ${artistTmId}`);
 
-      const result = await fetch(url, {
-        headers: { 'Accept': 'application/json' }
-      });
+      const result = await ticketmaster.fetch('events.json', params);
 
       if (!result.ok) {
          const errorBody = await result.text();
@@ -113,19 +117,16 @@ export async function fetchVenueEvents(venueTmId: string): Promise<Show[]> {
       return [];
     }
 
-    const apiKey = Deno.env.get('TICKETMASTER_API_KEY');
-    if (!apiKey) {
+    if (!ticketmaster.isConfigured()) {
       console.error("[EF fetchVenueEvents] TICKETMASTER_API_KEY not configured in Edge Function environment variables.");
       throw new Error("Server configuration error: Missing Ticketmaster API Key.");
     }
 
     const response = await retryableFetch(async () => {
-      const url = `https://app.ticketmaster.com/discovery/v2/events.json?apikey=${apiKey}&venueId=${venueTmId}&size=100&sort=date,asc`;
-      console.log(`[EF fetchVenueEvents] Requesting URL: ${url}`);
+      const params = { venueId: venueTmId, size: 100, sort: 'date,asc' };
+      console.log(`[EF fetchVenueEvents] Requesting events for venueId ${venueTmId}`);
 
-      const result = await fetch(url, {
-        headers: { 'Accept': 'application/json' }
-      });
+      const result = await ticketmaster.fetch('events.json', params);
 
       if (!result.ok) {
         const errorBody = await result.text();
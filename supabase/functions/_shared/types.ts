@@ -49,6 +49,9 @@ export type Venue = {
   address?: string;
   postal_code?: string;
   image_url?: string;
+  latitude?: number;
+  longitude?: number;
+  timezone?: string; // IANA zone, e.g. America/New_York
   updated_at?: string; // From DB
   last_updated?: string; // From DB
 };
@@ -65,6 +68,7 @@ export type Show = {
   ticketmaster_id?: string; // Explicit TM ID
   artist?: Artist; // Nested artist data from API
   venue?: Venue; // Nested venue data from API
+  classifications?: TicketmasterClassification[]; // From API, used to link artist genres
   last_updated?: string; // From DB
   updated_at?: string; // From DB
   setlist_id?: string; // Added by DB utils after setlist creation
@@ -161,6 +165,12 @@ export interface TicketmasterImage {
 }
 
 // Type for the raw event object from Ticketmaster API response
+export interface TicketmasterClassification {
+  segment?: { id: string; name: string };
+  genre?: { id: string; name: string };
+  subGenre?: { id: string; name: string };
+}
+
 export interface TicketmasterEvent {
   id: string;
   name: string;
@@ -171,6 +181,11 @@ export interface TicketmasterEvent {
       localDate?: string;
       localTime?: string;
     };
+    end?: {
+      dateTime?: string;
+      localDate?: string;
+    };
+    spanMultipleDays?: boolean;
     timezone?: string;
     status?: {
       code?: string;
@@ -178,6 +193,7 @@ export interface TicketmasterEvent {
   };
   images?: TicketmasterImage[];
   popularity?: number;
+  classifications?: TicketmasterClassification[];
   _embedded?: {
     venues?: Array<{
       id: string;
@@ -188,6 +204,7 @@ export interface TicketmasterEvent {
       address?: { line1?: string };
       postalCode?: string;
       location?: { latitude?: string; longitude?: string };
+      timezone?: string;
       url?: string;
       images?: TicketmasterImage[];
     }>;
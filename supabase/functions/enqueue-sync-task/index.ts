@@ -7,6 +7,7 @@ interface EnqueueRequestBody {
   entity_type: string;
   external_id: string;
   priority?: number;
+  operation?: string;
   // Potentially other payload data from the client in the future
   initial_payload?: Record<string, any>; 
 }
@@ -36,7 +37,7 @@ serve(async (req: Request) => {
   try {
     const body = await req.json() as EnqueueRequestBody;
 
-    const { source_system, entity_type, external_id, priority, initial_payload } = body;
+    const { source_system, entity_type, external_id, priority, operation, initial_payload } = body;
 
     if (!source_system || !entity_type || !external_id) {
       return new Response(JSON.stringify({ error: 'Missing required fields: source_system, entity_type, external_id' }), {
@@ -51,21 +52,18 @@ serve(async (req: Request) => {
       taskPayload = { ...(taskPayload || {}), is_search_term: true };
     }
 
-    const taskToInsert = {
-      source_system,
-      entity_type,
-      external_id,
-      status: 'pending',
-      priority: priority || 0,
-      payload: taskPayload,
-      // attempts, max_attempts, etc., will use database defaults
-    };
-
+    // Enqueue through the shared queue so a live task with the same
+    // (entity_type, external_id, operation) is merged instead of duplicated
     const { data, error } = await supabaseClient
-      .from('sync_tasks')
-      .insert(taskToInsert)
-      .select()
-      .single(); // Assuming you want to return the created task
+      .rpc('enqueue_sync_task', {
+        p_entity_type: entity_type,
+        p_external_id: external_id,
+        p_operation: operation || 'refresh',
+        p_priority: priority || 0,
+        p_payload: taskPayload,
+        p_source_system: source_system,
+      })
+      .single();
 
     if (error) {
       console.error('Error inserting task:', error);
@@ -1,7 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { setlistfm } from "../_shared/providers.ts";
 
-const SETLISTFM_API_KEY = Deno.env.get("SETLISTFM_API_KEY");
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
 const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY") ?? "";
 
@@ -25,19 +25,14 @@ serve(async (req) => {
       console.log(`Fetching setlists for ${searchParam}=${searchValue}`);
       
       // Check if API key is available
-      if (!SETLISTFM_API_KEY) {
+      if (!setlistfm.isConfigured()) {
         throw new Error("Setlist.fm API key is not configured");
       }
       
-      const response = await fetch(
-        `https://api.setlist.fm/rest/1.0/search/setlists?${searchParam}=${encodeURIComponent(searchValue)}&p=1`,
-        {
-          headers: {
-            "x-api-key": SETLISTFM_API_KEY,
-            "Accept": "application/json"
-          }
-        }
-      );
+      const response = await setlistfm.fetch("search/setlists", {
+        [searchParam]: searchValue,
+        p: 1
+      });
       
       if (!response.ok) {
         const error = await response.text();
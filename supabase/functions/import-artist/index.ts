@@ -4,6 +4,7 @@ import { supabaseAdmin } from '../_shared/supabaseClient.ts';
 import { saveArtistToDatabase, saveShowToDatabase } from '../_shared/databaseUtils.ts';
 import { fetchArtistEvents } from '../_shared/ticketmasterUtils.ts';
 import { getArtistByName } from '../_shared/spotifyUtils.ts';
+import { linkArtistIdentifiers } from '../_shared/artistResolver.ts';
 import type { Artist, Show, SpotifyArtist } from '../_shared/types.ts';
 
 console.log('Import Artist function initializing...');
@@ -63,10 +64,11 @@ serve(async (req: Request) => {
       const spotifyArtistResult: SpotifyArtist | null = await getArtistByName(dbArtist.name);
       if (spotifyArtistResult?.id) {
         console.log(`[import-artist] Found Spotify ID: ${spotifyArtistResult.id}. Updating DB.`);
+        // Sets spotify_id unless another artist already holds this Spotify ID
+        await linkArtistIdentifiers(supabaseAdmin, dbArtist.id, { spotifyId: spotifyArtistResult.id });
         const { error: spotifyUpdateError } = await supabaseAdmin
           .from('artists')
           .update({
-            spotify_id: spotifyArtistResult.id,
             spotify_url: spotifyArtistResult.external_urls?.spotify,
             popularity: spotifyArtistResult.popularity,
             followers: spotifyArtistResult.followers?.total,
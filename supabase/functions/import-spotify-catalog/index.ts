@@ -3,6 +3,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { spotify } from '../_shared/providers.ts'
 
 // Define expected request body structure
 interface ImportCatalogPayload {
@@ -27,30 +28,8 @@ interface Song {
 
 // Helper to get Spotify Access Token (Client Credentials Flow)
 async function getSpotifyToken(): Promise<string | null> {
-  const clientId = Deno.env.get('SPOTIFY_CLIENT_ID');
-  const clientSecret = Deno.env.get('SPOTIFY_CLIENT_SECRET');
-
-  if (!clientId || !clientSecret) {
-    console.error('[import-spotify-catalog] Spotify client ID or secret not configured.');
-    return null;
-  }
-
   try {
-    const response = await fetch('https://accounts.spotify.com/api/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Authorization': 'Basic ' + btoa(clientId + ':' + clientSecret)
-      },
-      body: 'grant_type=client_credentials'
-    });
-
-    if (!response.ok) {
-      console.error('[import-spotify-catalog] Failed to get Spotify token:', response.status, await response.text());
-      return null;
-    }
-    const data = await response.json();
-    return data.access_token;
+    return await spotify.getAccessToken();
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
     console.error('[import-spotify-catalog] Error fetching Spotify token:', errorMsg);
@@ -59,16 +38,15 @@ async function getSpotifyToken(): Promise<string | null> {
 }
 
 // Helper to fetch paginated data from Spotify
-async function fetchSpotifyPaginated(url: string, token: string, limit = 50) {
+// Paths are relative to the Spotify provider base URL; "next" links are absolute
+async function fetchSpotifyPaginated(path: string, params: Record<string, string> = {}, limit = 50) {
   let items: any[] = [];
-  let nextUrl: string | null = `${url}${url.includes('?') ? '&' : '?'}limit=${limit}`;
+  let nextUrl: string | null = spotify.url(path, { ...params, limit });
 
   while (nextUrl) {
     try {
       console.log(`[import-spotify-catalog] Fetching Spotify page: ${nextUrl}`);
-      const response = await fetch(nextUrl, {
-        headers: { 'Authorization': `Bearer ${token}` }
-      });
+      const response = await spotify.fetch(nextUrl);
 
       if (!response.ok) {
         console.error(`[import-spotify-catalog] Spotify API error (${response.status}) for ${nextUrl}: ${await response.text()}`);
@@ -159,9 +137,8 @@ serve(async (req: Request) => {
 
     // 3. Fetch All Albums for the Artist
     console.log(`[import-spotify-catalog] Fetching albums for Spotify artist ${spotifyArtistId}...`);
-    const albumsUrl = `https://api.spotify.com/v1/artists/${spotifyArtistId}/albums`;
     // Include singles, appears_on etc. if desired, adjust 'include_groups'
-    const albums = await fetchSpotifyPaginated(`${albumsUrl}?include_groups=album,single`, token);
+    const albums = await fetchSpotifyPaginated(`artists/${spotifyArtistId}/albums`, { include_groups: 'album,single' });
     console.log(`[import-spotify-catalog] Found ${albums.length} albums/singles for artist ${spotifyArtistId}.`);
 
     if (albums.length === 0) {
@@ -177,8 +154,7 @@ serve(async (req: Request) => {
     for (const album of albums) {
       if (!album.id) continue;
       console.log(`[import-spotify-catalog] Fetching tracks for album ${album.id} (${album.name})...`);
-      const tracksUrl = `https://api.spotify.com/v1/albums/${album.id}/tracks`;
-      const tracks = await fetchSpotifyPaginated(tracksUrl, token);
+      const tracks = await fetchSpotifyPaginated(`albums/${album.id}/tracks`);
       console.log(`[import-spotify-catalog] Found ${tracks.length} tracks for album ${album.id}.`);
       tracks.forEach(track => {
         if (track.id && !allTracks.has(track.id)) { // Fix: Use && instead of &amp;&amp;
@@ -6,6 +6,14 @@ import {
   SupabaseClient,
 } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import { JobGraph, GraphJob } from "../_shared/jobGraph.ts";
+import { setlistfm, spotify, ticketmaster } from "../_shared/providers.ts";
+import { PlayedSongMatch, resolveSetlistSongs } from "../_shared/songMatching.ts";
+import { linkArtistIdentifiers, resolveArtist } from "../_shared/artistResolver.ts";
+import { parseVenueCoordinates } from "../_shared/geo.ts";
+import { linkTicketmasterGenres } from "../_shared/genres.ts";
+import { getLineup, isFestivalEvent, performanceExternalId } from "../_shared/events.ts";
+import type { TicketmasterEvent } from "../_shared/types.ts";
 
 // Define types for our sync tasks
 interface SyncTask {
@@ -17,10 +25,23 @@ interface SyncTask {
     | "import-spotify-catalog";
   entityType: "show" | "artist" | "venue" | "setlist" | "catalog";
   entityId: string;
-  parentTask?: string;
+  parentTask?: string; // sync_operations.id of the parent operation
   priority?: "high" | "medium" | "low";
 }
 
+// A node in a show sync job graph
+interface ShowGraphJob {
+  entityType: "artist" | "venue" | "show" | "setlist";
+  entityId: string;
+}
+
+// A node in a festival sync job graph; performances carry their act
+interface FestivalGraphJob {
+  entityType: "artist" | "venue" | "event" | "show" | "setlist";
+  entityId: string;
+  attractionId?: string;
+}
+
 // Database entity types
 interface Artist {
   id?: string;
@@ -55,16 +76,34 @@ interface Show {
   date?: string | null;
   artist_id: string;
   venue_id: string;
+  event_id?: string | null;
   ticket_url?: string | null;
   image_url?: string | null;
   popularity?: number | null;
 }
 
+interface Event {
+  id?: string;
+  external_id: string;
+  kind: "festival" | "residency";
+  name: string;
+  venue_id: string;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  image_url?: string | null;
+  ticket_url?: string | null;
+  updated_at?: string;
+}
+
+// A row as an upsert returns it, with its id
+type Saved<T> = T & { id: string };
+
 interface Setlist {
   id?: string;
   setlist_fm_id: string;
   artist_id: string;
   show_id?: string | null;
+  tour_name?: string | null;
   // songs field removed, data is now in played_setlist_songs
 }
 
@@ -106,17 +145,20 @@ serve(async (req: Request) => {
     );
 
     // Track this sync operation in the database
-    const { error: trackError } = await supabase
+    const { data: operation, error: trackError } = await supabase
       .from("sync_operations")
       .insert({
         task,
         entity_type: entityType,
         entity_id: entityId,
-        parent_task: parentTask,
+        parent_task: parentTask || null,
         priority,
         status: "started",
         started_at: new Date().toISOString(),
-      });
+      })
+      .select("id")
+      .single();
+    const operationId: string | undefined = operation?.id;
 
     if (trackError) {
       console.warn(
@@ -128,10 +170,10 @@ serve(async (req: Request) => {
     let result;
     switch (task) {
       case "sync-show":
-        result = await orchestrateShowSync(supabase, entityId);
+        result = await orchestrateShowSync(supabase, entityId, operationId);
         break;
       case "sync-artist":
-        result = await orchestrateArtistSync(supabase, entityId);
+        result = await orchestrateArtistSync(supabase, entityId, operationId);
         break;
       case "sync-venue":
         result = await orchestrateVenueSync(supabase, entityId);
@@ -147,15 +189,16 @@ serve(async (req: Request) => {
     }
 
     // Update sync operation status
-    await supabase
-      .from("sync_operations")
-      .update({
-        status: result.success ? "completed" : "failed",
-        completed_at: new Date().toISOString(),
-        error: result.success ? null : result.error,
-      })
-      .eq("task", task)
-      .eq("entity_id", entityId);
+    if (operationId) {
+      await supabase
+        .from("sync_operations")
+        .update({
+          status: result.success ? "completed" : "failed",
+          completed_at: new Date().toISOString(),
+          error: result.success ? null : result.error,
+        })
+        .eq("id", operationId);
+    }
 
     return new Response(JSON.stringify(result), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -180,6 +223,7 @@ serve(async (req: Request) => {
 async function orchestrateShowSync(
   supabase: SupabaseClient,
   showExternalId: string,
+  parentOperationId?: string,
 ) {
   console.log(
     `[orchestrate-show] Syncing show with external ID: ${showExternalId}`,
@@ -195,6 +239,11 @@ async function orchestrateShowSync(
       };
     }
 
+    // Festivals are saved as an event with a performance per act
+    if (isFestivalEvent(showData)) {
+      return await orchestrateFestivalSync(supabase, showExternalId, showData, parentOperationId);
+    }
+
     // 2. Extract artist and venue IDs from the show data
     const tmArtistId = showData._embedded?.attractions?.[0]?.id;
     const tmVenueId = showData._embedded?.venues?.[0]?.id;
@@ -206,133 +255,301 @@ async function orchestrateShowSync(
       };
     }
 
-    // 3. Check if we already have these entities in our database
-    let artistUUID = await getEntityUUID(
-      supabase,
-      "artists",
-      "external_id",
-      tmArtistId,
-    );
-    let venueUUID = await getEntityUUID(
-      supabase,
-      "venues",
-      "external_id",
-      tmVenueId,
+    // 3. Build the job graph: the show depends on its artist and venue,
+    // and the setlist (past shows only) depends on the show
+    const eventDate = showData.dates?.start?.dateTime
+      ? new Date(showData.dates.start.dateTime)
+      : null;
+    const graph = new JobGraph<ShowGraphJob>();
+    const artistKey = graph.addJob(`artist:${tmArtistId}`, {
+      entityType: "artist",
+      entityId: tmArtistId,
+    });
+    const venueKey = graph.addJob(`venue:${tmVenueId}`, {
+      entityType: "venue",
+      entityId: tmVenueId,
+    });
+    const showKey = graph.addJob(
+      `show:${showExternalId}`,
+      { entityType: "show", entityId: showExternalId },
+      [artistKey, venueKey],
     );
-
-    // 4. Sync missing dependencies if needed
-    if (!artistUUID) {
-      console.log(
-        `[orchestrate-show] Artist ${tmArtistId} not found, syncing...`,
+    if (eventDate && eventDate < new Date()) {
+      // Only look for setlists for past shows
+      graph.addJob(
+        `setlist:show:${showExternalId}`,
+        { entityType: "setlist", entityId: showExternalId },
+        [showKey],
       );
-      const artistResult = await orchestrateArtistSync(supabase, tmArtistId);
-
-      if (artistResult.success && artistResult.data) {
-        artistUUID = artistResult.data.id;
-      } else {
-        return {
-          success: false,
-          error: `Failed to sync required artist: ${artistResult.error || "Unknown error"}`,
-        };
-      }
     }
 
-    if (!venueUUID) {
-      console.log(
-        `[orchestrate-show] Venue ${tmVenueId} not found, syncing...`,
-      );
-      const venueResult = await orchestrateVenueSync(supabase, tmVenueId);
-
-      if (venueResult.success && venueResult.data) {
-        venueUUID = venueResult.data.id;
-      } else {
-        return {
-          success: false,
-          error: `Failed to sync required venue: ${venueResult.error || "Unknown error"}`,
-        };
+    let artistUUID: string | null = null;
+    let venueUUID: string | null = null;
+    let savedShow: Saved<Show> | null = null;
+
+    // 4. Run the graph, recording each job as a child of this operation
+    const jobs = await runTrackedGraph(supabase, graph, parentOperationId, async (job) => {
+      switch (job.entityType) {
+        case "artist": {
+          const artistResult = await orchestrateArtistSync(supabase, job.entityId, parentOperationId);
+          artistUUID = artistResult.success ? artistResult.data?.id ?? null : null;
+          return artistResult.success && artistUUID
+            ? { success: true }
+            : { success: false, error: `Failed to sync required artist: ${artistResult.error || "Unknown error"}` };
+        }
+        case "venue": {
+          const venueResult = await orchestrateVenueSync(supabase, job.entityId);
+          venueUUID = venueResult.success ? venueResult.data?.id ?? null : null;
+          return venueResult.success && venueUUID
+            ? { success: true }
+            : { success: false, error: `Failed to sync required venue: ${venueResult.error || "Unknown error"}` };
+        }
+        case "show": {
+          // Now save the show with the correct references
+          const showToSave: Show = {
+            external_id: showExternalId,
+            name: showData.name || "Unknown Show",
+            date: showData.dates?.start?.dateTime || null,
+            artist_id: artistUUID as string, // Guaranteed by the artist dependency
+            venue_id: venueUUID as string, // Guaranteed by the venue dependency
+            ticket_url: showData.url || null,
+            image_url: getBestImage(showData.images),
+            popularity: 0, // Default value, can be updated later
+          };
+
+          const { data, error } = await supabase
+            .from("shows")
+            .upsert(showToSave, { onConflict: "external_id" })
+            .select()
+            .single();
+
+          if (error) {
+            return { success: false, error: `Failed to save show: ${error.message}` };
+          }
+          savedShow = data;
+          await linkTicketmasterGenres(supabase, artistUUID as string, showData.classifications);
+          return { success: true };
+        }
+        case "setlist":
+          console.log(
+            `[orchestrate-show] Show date is in the past, checking for setlist...`,
+          );
+          // We're using a special format to indicate we're searching by show
+          return await orchestrateSetlistSync(
+            supabase,
+            `show:${(savedShow as Saved<Show>).id}`, // Saved by the show dependency
+          );
       }
-    }
+    });
 
-    // 5. Ensure we have valid UUIDs before proceeding
-    if (!artistUUID || !venueUUID) {
-      // This check ensures artistUUID and venueUUID are strings, satisfying the Show interface.
+    // A missing setlist does not fail the show sync; only the show job counts
+    const showJob = jobs.find((job) => job.key === showKey);
+    if (!showJob || showJob.status !== "completed") {
+      const failedJob = jobs.find((job) => job.status === "failed");
       return {
         success: false,
-        error: `Failed to obtain valid artistUUID (${artistUUID}) or venueUUID (${venueUUID}) after sync attempts.`,
+        error: failedJob?.error || showJob?.error || `Show ${showExternalId} was blocked by a failed dependency`,
       };
     }
 
-    // 6. Now save the show with the correct references
-    const showToSave: Show = {
-      external_id: showExternalId,
-      name: showData.name || "Unknown Show",
-      date: showData.dates?.start?.dateTime || null,
-      artist_id: artistUUID, // Type is string due to the check above
-      venue_id: venueUUID, // Type is string due to the check above
-      ticket_url: showData.url || null,
-      image_url: getBestImage(showData.images),
-      popularity: 0, // Default value, can be updated later
+    return { success: true, data: savedShow };
+  } catch (error) {
+    console.error(`[orchestrate-show] Error:`, error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Unknown error in show sync",
     };
+  }
+}
 
-    // 7. Upsert the show
-    const { data: savedShow, error } = await supabase
-      .from("shows")
-      .upsert(showToSave, { onConflict: "external_id" })
-      .select()
-      .single();
+// Festival sync: the venue, then the event, then one performance per act in
+// the lineup. Each performance waits on its own artist only, so an act that
+// fails to sync does not block the rest of the lineup. Ticketmaster does not
+// list stages or set times, so the upserts leave whatever is stored for them.
+async function orchestrateFestivalSync(
+  supabase: SupabaseClient,
+  eventExternalId: string,
+  eventData: TicketmasterEvent,
+  parentOperationId?: string,
+) {
+  const lineup = getLineup(eventData);
+  const tmVenueId = eventData._embedded?.venues?.[0]?.id;
 
-    if (error) {
-      return { success: false, error: `Failed to save show: ${error.message}` };
-    }
+  if (!tmVenueId) {
+    return {
+      success: false,
+      error: `Festival ${eventExternalId} missing required relationship: venue`,
+    };
+  }
 
-    // 8. Optionally trigger setlist sync for past shows
-    const eventDate = showData.dates?.start?.dateTime
-      ? new Date(showData.dates.start.dateTime)
-      : null;
-    if (eventDate && eventDate < new Date()) {
-      // Only look for setlists for past shows
-      console.log(
-        `[orchestrate-show] Show date is in the past, checking for setlist...`,
+  console.log(
+    `[orchestrate-festival] Syncing ${eventData.name} with ${lineup.length} acts`,
+  );
+
+  const startsAt = eventData.dates?.start?.dateTime || null;
+  const endsAt = eventData.dates?.end?.dateTime || null;
+  const lastDay = endsAt || startsAt;
+  const isOver = lastDay ? new Date(lastDay) < new Date() : false;
+
+  const graph = new JobGraph<FestivalGraphJob>();
+  const venueKey = graph.addJob(`venue:${tmVenueId}`, {
+    entityType: "venue",
+    entityId: tmVenueId,
+  });
+  const eventKey = graph.addJob(
+    `event:${eventExternalId}`,
+    { entityType: "event", entityId: eventExternalId },
+    [venueKey],
+  );
+  for (const attraction of lineup) {
+    const performanceId = performanceExternalId(eventExternalId, attraction.id);
+    const artistKey = graph.addJob(`artist:${attraction.id}`, {
+      entityType: "artist",
+      entityId: attraction.id,
+    });
+    const showKey = graph.addJob(
+      `show:${performanceId}`,
+      { entityType: "show", entityId: performanceId, attractionId: attraction.id },
+      [artistKey, eventKey],
+    );
+    if (isOver) {
+      // Only look for setlists once the festival is over
+      graph.addJob(
+        `setlist:show:${performanceId}`,
+        { entityType: "setlist", entityId: performanceId },
+        [showKey],
       );
+    }
+  }
 
-      // Instead of just doing this immediately, we're queueing it as a separate task
-      await supabase.functions.invoke("orchestrate-sync", {
-        body: {
-          task: "sync-setlist",
-          entityType: "setlist",
-          entityId: `show:${savedShow.id}`, // We're using a special format to indicate we're searching by show
-          parentTask: `sync-show:${showExternalId}`,
-          priority: "low", // Lower priority than the main sync
-        },
-      });
+  let venueUUID: string | null = null;
+  let savedEvent: Saved<Event> | null = null;
+  const artistUUIDs = new Map<string, string>();
+  const savedPerformances = new Map<string, Saved<Show>>();
+
+  const jobs = await runTrackedGraph(supabase, graph, parentOperationId, async (job) => {
+    switch (job.entityType) {
+      case "venue": {
+        const venueResult = await orchestrateVenueSync(supabase, job.entityId);
+        venueUUID = venueResult.success ? venueResult.data?.id ?? null : null;
+        return venueResult.success && venueUUID
+          ? { success: true }
+          : { success: false, error: `Failed to sync required venue: ${venueResult.error || "Unknown error"}` };
+      }
+      case "event": {
+        const eventToSave: Event = {
+          external_id: eventExternalId,
+          kind: "festival",
+          name: eventData.name || "Unknown Festival",
+          venue_id: venueUUID as string, // Guaranteed by the venue dependency
+          starts_at: startsAt,
+          ends_at: endsAt,
+          image_url: getBestImage(eventData.images ?? null),
+          ticket_url: eventData.url || null,
+          updated_at: new Date().toISOString(),
+        };
+
+        const { data, error } = await supabase
+          .from("events")
+          .upsert(eventToSave, { onConflict: "external_id" })
+          .select()
+          .single();
+
+        if (error) {
+          return { success: false, error: `Failed to save festival: ${error.message}` };
+        }
+        savedEvent = data;
+        return { success: true };
+      }
+      case "artist": {
+        const artistResult = await orchestrateArtistSync(supabase, job.entityId, parentOperationId);
+        const artistUUID = artistResult.success ? artistResult.data?.id ?? null : null;
+        if (!artistUUID) {
+          return { success: false, error: `Failed to sync artist ${job.entityId}: ${artistResult.error || "Unknown error"}` };
+        }
+        artistUUIDs.set(job.entityId, artistUUID);
+        return { success: true };
+      }
+      case "show": {
+        const attraction = lineup.find((act) => act.id === job.attractionId);
+        const festival = savedEvent as Saved<Event>; // Saved by the event dependency
+        const performanceToSave: Show = {
+          external_id: job.entityId,
+          name: `${attraction?.name || "Unknown Artist"} at ${festival.name}`,
+          date: startsAt,
+          artist_id: artistUUIDs.get(job.attractionId as string) as string, // Guaranteed by the artist dependency
+          venue_id: venueUUID as string,
+          event_id: festival.id,
+          ticket_url: eventData.url || null,
+          image_url: getBestImage(attraction?.images ?? null) || festival.image_url,
+          popularity: 0,
+        };
+
+        const { data, error } = await supabase
+          .from("shows")
+          .upsert(performanceToSave, { onConflict: "external_id" })
+          .select()
+          .single();
+
+        if (error) {
+          return { success: false, error: `Failed to save performance: ${error.message}` };
+        }
+        // The festival's classifications describe the festival, not each act,
+        // so they are not linked to the artists' genres
+        savedPerformances.set(job.entityId, data);
+        return { success: true };
+      }
+      case "setlist":
+        return await orchestrateSetlistSync(
+          supabase,
+          `show:${(savedPerformances.get(job.entityId) as Saved<Show>).id}`, // Saved by the show dependency
+        );
     }
+  });
 
-    return { success: true, data: savedShow };
-  } catch (error) {
-    console.error(`[orchestrate-show] Error:`, error);
+  const eventJob = jobs.find((job) => job.key === eventKey);
+  if (!eventJob || eventJob.status !== "completed") {
     return {
       success: false,
-      error:
-        error instanceof Error ? error.message : "Unknown error in show sync",
+      error: eventJob?.error || `Festival ${eventExternalId} was blocked by a failed dependency`,
+    };
+  }
+
+  if (savedPerformances.size === 0) {
+    const failedJob = jobs.find((job) => job.status === "failed");
+    return {
+      success: false,
+      error: failedJob?.error || `No performances saved for festival ${eventExternalId}`,
     };
   }
+
+  return {
+    success: true,
+    data: savedEvent,
+    performances: [...savedPerformances.values()],
+  };
 }
 
 // Implementation of artist sync orchestration
 async function orchestrateArtistSync(
   supabase: SupabaseClient,
   artistExternalId: string,
+  parentOperationId?: string,
 ) {
   console.log(
     `[orchestrate-artist] Syncing artist with external ID: ${artistExternalId}`,
   );
 
   try {
-    // 1. Check if the artist already exists
+    // 1. Check if the artist already exists under any of its provider IDs
+    const resolvedArtistId = await resolveArtist(supabase, {
+      ticketmasterId: artistExternalId,
+    });
     const { data: existingArtist } = await supabase
       .from("artists")
       .select("*")
-      .eq("external_id", artistExternalId)
+      .eq(resolvedArtistId ? "id" : "external_id", resolvedArtistId ?? artistExternalId)
       .maybeSingle();
 
     if (existingArtist) {
@@ -357,8 +574,15 @@ async function orchestrateArtistSync(
       spotifyData = await searchSpotifyArtist(artistData.name);
     }
 
-    // 4. Save the artist with combined data
+    // 4. Save the artist with combined data, onto the artist that already
+    // has this Spotify ID or name if there is one
+    const canonicalId = await resolveArtist(supabase, {
+      name: artistData.name,
+      ticketmasterId: artistExternalId,
+      spotifyId: spotifyData?.id,
+    });
     const artistToSave: Artist = {
+      ...(canonicalId ? { id: canonicalId } : {}),
       external_id: artistExternalId,
       name: artistData.name || "Unknown Artist",
       image_url: getBestImage(artistData.images),
@@ -372,7 +596,7 @@ async function orchestrateArtistSync(
 
     const { data: savedArtist, error } = await supabase
       .from("artists")
-      .upsert(artistToSave, { onConflict: "external_id" })
+      .upsert(artistToSave, { onConflict: canonicalId ? "id" : "external_id" })
       .select()
       .single();
 
@@ -383,6 +607,13 @@ async function orchestrateArtistSync(
       };
     }
 
+    if (!canonicalId) {
+      await linkArtistIdentifiers(supabase, savedArtist.id, {
+        ticketmasterId: artistExternalId,
+        spotifyId: savedArtist.spotify_id,
+      });
+    }
+
     // 5. If we have a Spotify ID, trigger catalog import in the background
     if (savedArtist.spotify_id) {
       console.log(
@@ -394,7 +625,7 @@ async function orchestrateArtistSync(
           task: "import-spotify-catalog",
           entityType: "catalog",
           entityId: savedArtist.id, // Using Supabase UUID
-          parentTask: `sync-artist:${artistExternalId}`,
+          parentTask: parentOperationId,
           priority: "low", // Lower priority than the main sync
         },
       });
@@ -445,6 +676,7 @@ async function orchestrateVenueSync(
     }
 
     // 3. Save the venue
+    const coordinates = parseVenueCoordinates(venueData.location);
     const venueToSave: Venue = {
       external_id: venueExternalId,
       name: venueData.name || "Unknown Venue",
@@ -452,12 +684,8 @@ async function orchestrateVenueSync(
       state: venueData.state?.name || null,
       country: venueData.country?.name || null,
       address: venueData.address?.line1 || null,
-      latitude: venueData.location?.latitude
-        ? parseFloat(venueData.location.latitude)
-        : null,
-      longitude: venueData.location?.longitude
-        ? parseFloat(venueData.location.longitude)
-        : null,
+      latitude: coordinates?.latitude ?? null,
+      longitude: coordinates?.longitude ?? null,
       url: venueData.url || null,
       image_url: getBestImage(venueData.images),
     };
@@ -611,6 +839,7 @@ async function orchestrateSetlistSync(
       setlist_fm_id: setlistId,
       artist_id: artistId, // artistId is confirmed string type here
       show_id: showId,
+      tour_name: setlistData.tour?.name || null,
     };
 
     const { data: savedSetlist, error } = await supabase
@@ -642,54 +871,35 @@ async function orchestrateSetlistSync(
     }
 
     // 2. Define structure for inserting into played_setlist_songs
-    interface PlayedSetlistSongInsert {
+    interface PlayedSetlistSongInsert extends PlayedSongMatch {
       setlist_id: string;
-      song_id: string;
       position: number;
       is_encore: boolean;
       info: string | null;
     }
 
-    // 3. Prepare entries by matching extracted songs to catalog
-    const playedSongsToInsert: PlayedSetlistSongInsert[] = [];
-    for (const songInfo of songs) {
-      // 'songs' is the ExtractedSongInfo[] array
-      if (!songInfo.name) continue;
-
-      // Find the corresponding song in our 'songs' table
-      // Using ilike for case-insensitive matching. Consider adding fuzzy matching or normalization later for robustness.
-      const { data: matchedSong, error: matchError } = await supabase
-        .from("songs")
-        .select("id")
-        .eq("artist_id", artistId) // Filter by the correct artist
-        .ilike("name", songInfo.name)
-        .maybeSingle();
-
-      if (matchError) {
-        console.error(
-          `[orchestrate-setlist] DB error matching song "${songInfo.name}" for artist ${artistId}: ${matchError.message}`,
-        );
-        continue; // Skip this song on error
-      }
+    // 3. Resolve songs against the catalog. Low-confidence and unmatched
+    // songs are kept unlinked (song_id null) and queued for admin review.
+    const namedSongs = songs.filter((songInfo) => songInfo.name);
+    const matches = await resolveSetlistSongs(supabase, artistId, namedSongs);
+    const playedSongsToInsert: PlayedSetlistSongInsert[] = namedSongs.map(
+      (songInfo, i) => ({
+        setlist_id: savedSetlist.id,
+        position: songInfo.position,
+        is_encore: songInfo.encore > 0, // Convert Setlist.fm encore count to boolean
+        info: songInfo.info || null,
+        ...matches[i],
+      }),
+    );
+    const linkedCount = playedSongsToInsert.filter((song) => song.song_id).length;
 
-      if (matchedSong) {
-        playedSongsToInsert.push({
-          setlist_id: savedSetlist.id,
-          song_id: matchedSong.id,
-          position: songInfo.position,
-          is_encore: songInfo.encore > 0, // Convert Setlist.fm encore count to boolean
-          info: songInfo.info || null,
-        });
-      } else {
-        // Log songs from Setlist.fm that weren't found in our Spotify catalog
-        console.warn(
-          `[orchestrate-setlist] Song "${songInfo.name}" from Setlist.fm ID ${setlistId} not found in Spotify catalog for artist ${artistId}. Skipping link.`,
-        );
-        // TODO: Consider creating placeholder entries or adding to a review queue?
-      }
+    if (linkedCount < playedSongsToInsert.length) {
+      console.warn(
+        `[orchestrate-setlist] ${playedSongsToInsert.length - linkedCount} songs from Setlist.fm ID ${setlistId} were not linked to the Spotify catalog for artist ${artistId}.`,
+      );
     }
 
-    // 4. Batch insert/upsert the linked songs
+    // 4. Batch insert/upsert the played songs
     if (playedSongsToInsert.length > 0) {
       // Using upsert with the unique constraint handles re-runs and potential duplicates gracefully.
       const { error: insertLinksError } = await supabase
@@ -708,12 +918,7 @@ async function orchestrateSetlistSync(
         };
       }
       console.log(
-        `[orchestrate-setlist] Successfully linked/upserted ${playedSongsToInsert.length} songs for setlist ${savedSetlist.id}`,
-      );
-    } else if (songs.length > 0) {
-      // Log if Setlist.fm had songs, but none were matched in our catalog
-      console.log(
-        `[orchestrate-setlist] No songs from Setlist.fm ID ${setlistId} were found in the Spotify catalog for artist ${artistId}.`,
+        `[orchestrate-setlist] Successfully upserted ${playedSongsToInsert.length} songs (${linkedCount} linked) for setlist ${savedSetlist.id}`,
       );
     } else {
       // Log if Setlist.fm itself had no songs
@@ -735,6 +940,22 @@ async function orchestrateSetlistSync(
         );
       }
     }
+    // 6. Score fan predictions now that the played setlist has landed
+    if (showId && linkedCount > 0) {
+      const { data: scored, error: scoreError } = await supabase.rpc(
+        "score_show_predictions",
+        { p_show_id: showId },
+      );
+      if (scoreError) {
+        console.warn(
+          `[orchestrate-setlist] Failed to score predictions for show ${showId}: ${scoreError.message}`,
+        );
+      } else {
+        console.log(
+          `[orchestrate-setlist] Scored ${scored ?? 0} predictions for show ${showId}`,
+        );
+      }
+    }
     // --- End new logic ---
 
     return { success: true, data: savedSetlist };
@@ -873,23 +1094,61 @@ async function orchestrateSpotifyCatalogImport(
 
 // Utility functions
 
-// Get entity UUID by external ID
-async function getEntityUUID(
+
+// Run a job graph, recording each job in sync_operations as a child of the
+// given operation. depends_on links each job to the operations it waited on.
+async function runTrackedGraph<T extends { entityType: string; entityId: string }>(
   supabase: SupabaseClient,
-  table: string,
-  externalIdField: string,
-  externalId: string,
-): Promise<string | null> {
-  if (!externalId) return null;
-
-  const { data, error } = await supabase
-    .from(table)
-    .select("id")
-    .eq(externalIdField, externalId)
-    .maybeSingle();
-
-  if (error || !data) return null;
-  return data.id;
+  graph: JobGraph<T>,
+  parentOperationId: string | undefined,
+  executor: (payload: T) => Promise<{ success: boolean; error?: string }>,
+): Promise<GraphJob<T>[]> {
+  const operationIds = new Map<string, string>();
+
+  const track = async (job: GraphJob<T>) => {
+    if (!parentOperationId) return;
+    const { data, error } = await supabase
+      .from("sync_operations")
+      .insert({
+        task: `sync-${job.payload.entityType}`,
+        entity_type: job.payload.entityType,
+        entity_id: job.payload.entityId,
+        parent_task: parentOperationId,
+        depends_on: job.dependsOn
+          .map((key) => operationIds.get(key))
+          .filter(Boolean),
+        status: job.status === "blocked" ? "blocked" : "started",
+        started_at: new Date().toISOString(),
+      })
+      .select("id")
+      .single();
+    if (error) {
+      console.warn(`[orchestrate-sync] Failed to track job ${job.key}: ${error.message}`);
+      return;
+    }
+    operationIds.set(job.key, data.id);
+  };
+
+  return await graph.run((payload) => executor(payload), {
+    parallelLimit: 3,
+    onJobStart: track,
+    onJobFinish: async (job) => {
+      if (!parentOperationId) return;
+      if (!operationIds.has(job.key)) await track(job);
+      const operationId = operationIds.get(job.key);
+      if (!operationId) return;
+      await supabase
+        .from("sync_operations")
+        .update({
+          status: job.status,
+          completed_at: new Date().toISOString(),
+          error: job.status === "blocked"
+            ? `Blocked by failed dependency ${job.blockedBy}`
+            : job.error || null,
+        })
+        .eq("id", operationId);
+    },
+  });
 }
 
 // Get best quality image from an array
@@ -908,7 +1167,8 @@ interface ExtractedSongInfo {
   name: string;
   encore: number; // Setlist.fm uses number (0 or >0)
   position: number; // Absolute position in the setlist
-  info: string | null; // Additional info like "acoustic", "cover"
+  info: string | null; // Additional info like "acoustic", "medley"
+  cover: string | null; // Original artist when setlist.fm marks a cover
 }
 
 // Extract songs from setlist data structure (needs specific typing based on Setlist.fm API response)
@@ -948,6 +1208,7 @@ function extractSongsFromSetlist(setlistData: any): ExtractedSongInfo[] {
           encore: set.encore || 0, // Encore status is usually per-set
           position: currentPosition, // Assign the calculated absolute position
           info: song.info || null, // Capture any additional info (e.g., "acoustic", "medley")
+          cover: song.cover?.name || null,
         });
       } else {
         console.warn(
@@ -968,11 +1229,9 @@ async function fetchShowData(showId: string): Promise<any | null> {
   // Add return type hint
   console.log(`[fetch] Getting show data from Ticketmaster: ${showId}`);
   try {
-    const apiKey = Deno.env.get("TICKETMASTER_API_KEY");
-    const response = await fetch(
-      `https://app.ticketmaster.com/discovery/v2/events/${showId}?apikey=${apiKey}&include=attractions,venues`,
-      { headers: { Accept: "application/json" } },
-    );
+    const response = await ticketmaster.fetch(`events/${showId}`, {
+      include: "attractions,venues",
+    });
 
     if (!response.ok) {
       console.error(`[fetch] Ticketmaster API error: ${response.status}`);
@@ -991,11 +1250,7 @@ async function fetchArtistData(artistId: string): Promise<any | null> {
   // Add return type hint
   console.log(`[fetch] Getting artist data from Ticketmaster: ${artistId}`);
   try {
-    const apiKey = Deno.env.get("TICKETMASTER_API_KEY");
-    const response = await fetch(
-      `https://app.ticketmaster.com/discovery/v2/attractions/${artistId}?apikey=${apiKey}`,
-      { headers: { Accept: "application/json" } },
-    );
+    const response = await ticketmaster.fetch(`attractions/${artistId}`);
 
     if (!response.ok) {
       console.error(`[fetch] Ticketmaster API error: ${response.status}`);
@@ -1014,11 +1269,7 @@ async function fetchVenueData(venueId: string): Promise<any | null> {
   // Add return type hint
   console.log(`[fetch] Getting venue data from Ticketmaster: ${venueId}`);
   try {
-    const apiKey = Deno.env.get("TICKETMASTER_API_KEY");
-    const response = await fetch(
-      `https://app.ticketmaster.com/discovery/v2/venues/${venueId}?apikey=${apiKey}`,
-      { headers: { Accept: "application/json" } },
-    );
+    const response = await ticketmaster.fetch(`venues/${venueId}`);
 
     if (!response.ok) {
       console.error(`[fetch] Ticketmaster API error: ${response.status}`);
@@ -1040,10 +1291,11 @@ async function searchSpotifyArtist(artistName: string): Promise<any | null> {
     const token = await getSpotifyToken();
     if (!token) return null;
 
-    const response = await fetch(
-      `https://api.spotify.com/v1/search?q=${encodeURIComponent(artistName)}&type=artist&limit=1`,
-      { headers: { Authorization: `Bearer ${token}` } },
-    );
+    const response = await spotify.fetch("search", {
+      q: artistName,
+      type: "artist",
+      limit: 1,
+    });
 
     if (!response.ok) {
       console.error(`[fetch] Spotify API error: ${response.status}`);
@@ -1063,30 +1315,7 @@ async function searchSpotifyArtist(artistName: string): Promise<any | null> {
 // Get Spotify OAuth token
 async function getSpotifyToken() {
   try {
-    const clientId = Deno.env.get("SPOTIFY_CLIENT_ID");
-    const clientSecret = Deno.env.get("SPOTIFY_CLIENT_SECRET");
-
-    if (!clientId || !clientSecret) {
-      console.error("[fetch] Spotify credentials not configured");
-      return null;
-    }
-
-    const response = await fetch("https://accounts.spotify.com/api/token", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        Authorization: "Basic " + btoa(clientId + ":" + clientSecret),
-      },
-      body: "grant_type=client_credentials",
-    });
-
-    if (!response.ok) {
-      console.error(`[fetch] Failed to get Spotify token: ${response.status}`);
-      return null;
-    }
-
-    const data = await response.json();
-    return data.access_token;
+    return await spotify.getAccessToken();
   } catch (error) {
     console.error(`[fetch] Error getting Spotify token:`, error);
     return null;
@@ -1104,12 +1333,13 @@ async function fetchSpotifyArtistAlbums(
     if (!token) return [];
 
     const albums = [];
-    let url = `https://api.spotify.com/v1/artists/${spotifyArtistId}/albums?include_groups=album,single&limit=50`;
+    let url = spotify.url(`artists/${spotifyArtistId}/albums`, {
+      include_groups: "album,single",
+      limit: 50,
+    });
 
     while (url) {
-      const response = await fetch(url, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      const response = await spotify.fetch(url);
 
       if (!response.ok) {
         console.error(`[fetch] Spotify API error: ${response.status}`);
@@ -1138,12 +1368,10 @@ async function fetchSpotifyAlbumTracks(albumId: string): Promise<any[]> {
     if (!token) return [];
 
     const tracks = [];
-    let url = `https://api.spotify.com/v1/albums/${albumId}/tracks?limit=50`;
+    let url = spotify.url(`albums/${albumId}/tracks`, { limit: 50 });
 
     while (url) {
-      const response = await fetch(url, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
+      const response = await spotify.fetch(url);
 
       if (!response.ok) {
         console.error(`[fetch] Spotify API error: ${response.status}`);
@@ -1173,8 +1401,7 @@ async function searchSetlistByArtistAndDate(
     `[fetch] Searching setlist.fm for artist: ${artistName} on date: ${showDate.toISOString().split("T")[0]}`,
   );
   try {
-    const apiKey = Deno.env.get("SETLISTFM_API_KEY");
-    if (!apiKey) {
+    if (!setlistfm.isConfigured()) {
       console.error("[fetch] Setlist.fm API key not configured");
       return null;
     }
@@ -1185,15 +1412,10 @@ async function searchSetlistByArtistAndDate(
     const year = showDate.getFullYear();
     const formattedDate = `${day}-${month}-${year}`;
 
-    const response = await fetch(
-      `https://api.setlist.fm/rest/1.0/search/setlists?artistName=${encodeURIComponent(artistName)}&date=${formattedDate}`,
-      {
-        headers: {
-          "x-api-key": apiKey,
-          Accept: "application/json",
-        },
-      },
-    );
+    const response = await setlistfm.fetch("search/setlists", {
+      artistName,
+      date: formattedDate,
+    });
 
     if (!response.ok) {
       console.error(`[fetch] Setlist.fm API error: ${response.status}`);
@@ -1212,21 +1434,12 @@ async function fetchSetlistData(setlistId: string): Promise<any | null> {
   // Add return type hint
   console.log(`[fetch] Getting setlist from setlist.fm: ${setlistId}`);
   try {
-    const apiKey = Deno.env.get("SETLISTFM_API_KEY");
-    if (!apiKey) {
+    if (!setlistfm.isConfigured()) {
       console.error("[fetch] Setlist.fm API key not configured");
       return null;
     }
 
-    const response = await fetch(
-      `https://api.setlist.fm/rest/1.0/setlist/${setlistId}`,
-      {
-        headers: {
-          "x-api-key": apiKey,
-          Accept: "application/json",
-        },
-      },
-    );
+    const response = await setlistfm.fetch(`setlist/${setlistId}`);
 
     if (!response.ok) {
       console.error(`[fetch] Setlist.fm API error: ${response.status}`);
@@ -1,25 +1,41 @@
 /// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
 
-// Define queue item interface
+// Row shape of the shared sync_tasks queue (see 005_durable_sync_queue.sql)
 interface QueueItem {
   id: number;
+  source_system: string;
   entity_type: string;
   external_id: string;
-  reference_data?: any;
+  operation: string;
+  payload?: Record<string, unknown> | null;
   priority: number;
   status: string;
   attempts: number;
   max_attempts: number;
-  error?: string;
+  lease_owner?: string | null;
+  lease_expires_at?: string | null;
   created_at: string;
   updated_at: string;
-  processed_at?: string;
 }
 
+// Identifies this invocation as the lease holder for claimed items
+const WORKER_ID = `process-sync-queue-${crypto.randomUUID()}`;
+
+// Claimed items become visible again if not completed within this window
+const LEASE_SECONDS = 300;
+
+// Most items a single invocation will work, whatever the caller asks for
+const MAX_ITEMS = 25;
+
+// Operations this worker can run by calling a sync function. cascade_sync and
+// expand_relations need SyncManager's relation lookups, so they are left for
+// the server's queue worker (/api/cron/sync-queue).
+const SUPPORTED_OPERATIONS = ['create', 'refresh'];
+
 // Handle mapping entity types to their respective sync functions
 const syncFunctionMap: Record<string, string> = {
   'artist': 'sync-artist',
@@ -39,10 +55,14 @@ const idFieldMap: Record<string, string> = {
 };
 
 // Function to process a single queue item
-async function processQueueItem(supabaseAdmin: any, item: QueueItem): Promise<boolean> {
+async function processQueueItem(supabaseAdmin: SupabaseClient, item: QueueItem): Promise<boolean> {
   console.log(`[process-sync-queue] Processing ${item.entity_type} with ID ${item.external_id} (queue item ${item.id})`);
   
   try {
+    if (!SUPPORTED_OPERATIONS.includes(item.operation)) {
+      throw new Error(`Unsupported operation: ${item.operation}`);
+    }
+
     // Determine which sync function to call
     const functionName = syncFunctionMap[item.entity_type];
     if (!functionName) {
@@ -56,13 +76,13 @@ async function processQueueItem(supabaseAdmin: any, item: QueueItem): Promise<bo
     }
     
     // Construct base payload
-    const payload: Record<string, any> = {
+    const payload: Record<string, unknown> = {
       [idField]: item.external_id
     };
     
-    // Add any additional data from reference_data
-    if (item.reference_data) {
-      Object.assign(payload, item.reference_data);
+    // Add any additional data from the task payload
+    if (item.payload) {
+      Object.assign(payload, item.payload);
     }
     
     console.log(`[process-sync-queue] Invoking ${functionName} with payload:`, JSON.stringify(payload));
@@ -80,7 +100,7 @@ async function processQueueItem(supabaseAdmin: any, item: QueueItem): Promise<bo
     // Mark item as complete
     const { error: completeError } = await supabaseAdmin.rpc(
       'complete_sync_item',
-      { item_id: item.id }
+      { item_id: item.id, p_worker_id: WORKER_ID }
     );
     
     if (completeError) {
@@ -95,17 +115,20 @@ async function processQueueItem(supabaseAdmin: any, item: QueueItem): Promise<bo
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error(`[process-sync-queue] Error processing queue item ${item.id}:`, errorMessage);
     
-    // Mark item as failed
-    const { error: failError } = await supabaseAdmin.rpc(
+    // Mark item as failed; the queue schedules a retry or dead-letters it
+    const { data: status, error: failError } = await supabaseAdmin.rpc(
       'fail_sync_item',
       { 
         item_id: item.id, 
-        error_message: errorMessage.substring(0, 500) // Limit error message length
+        error_message: errorMessage.substring(0, 500), // Limit error message length
+        p_worker_id: WORKER_ID
       }
     );
     
     if (failError) {
       console.error(`[process-sync-queue] Error marking item ${item.id} as failed:`, failError.message);
+    } else if (status === 'dead_letter') {
+      console.error(`[process-sync-queue] Queue item ${item.id} dead-lettered after ${item.attempts} attempts`);
     }
     
     return false;
@@ -113,7 +136,7 @@ async function processQueueItem(supabaseAdmin: any, item: QueueItem): Promise<bo
 }
 
 // Main function to process the queue
-async function processQueue(supabaseAdmin: any, maxItems = 5): Promise<{ processed: number, succeeded: number, failed: number }> {
+async function processQueue(supabaseAdmin: SupabaseClient, maxItems = 5): Promise<{ processed: number, succeeded: number, failed: number }> {
   console.log(`[process-sync-queue] Starting queue processing, max items: ${maxItems}`);
   
   let processed = 0;
@@ -123,7 +146,11 @@ async function processQueue(supabaseAdmin: any, maxItems = 5): Promise<{ process
   // Process up to maxItems
   for (let i = 0; i < maxItems; i++) {
     // Claim the next item from the queue
-    const { data: item, error } = await supabaseAdmin.rpc('claim_next_sync_item');
+    const { data: item, error } = await supabaseAdmin.rpc('claim_next_sync_item', {
+      p_worker_id: WORKER_ID,
+      p_lease_seconds: LEASE_SECONDS,
+      p_operations: SUPPORTED_OPERATIONS
+    });
     
     if (error) {
       console.error(`[process-sync-queue] Error claiming next queue item:`, error.message);
@@ -166,7 +193,8 @@ serve(async (req: Request) => {
   try {
     // Parse request to get processing options
     const requestData = await req.json().catch(() => ({}));
-    const maxItems = requestData.maxItems || 5;
+    const requested = Number(requestData.maxItems);
+    const maxItems = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_ITEMS) : 5;
     
     console.log(`[process-sync-queue] Queue processing requested with maxItems=${maxItems}`);
     
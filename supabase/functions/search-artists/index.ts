@@ -2,6 +2,7 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { corsHeaders } from '../_shared/cors.ts'
+import { ticketmaster } from '../_shared/providers.ts'
 
 // Define the result types
 interface ArtistSearchResult {
@@ -32,8 +33,7 @@ serve(async (req: Request) => {
     console.log(`[search-artists] Searching for artists matching: "${query}"`);
 
     // Get Ticketmaster API key from environment
-    const apiKey = Deno.env.get('TICKETMASTER_API_KEY');
-    if (!apiKey) {
+    if (!ticketmaster.isConfigured()) {
       return new Response(
         JSON.stringify({ error: 'Ticketmaster API key not configured' }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
@@ -41,10 +41,7 @@ serve(async (req: Request) => {
     }
 
     // Search for attractions (artists) via Ticketmaster API
-    const response = await fetch(
-      `https://app.ticketmaster.com/discovery/v2/attractions.json?apikey=${apiKey}&keyword=${encodeURIComponent(query)}&size=${limit}`,
-      { headers: { Accept: 'application/json' } }
-    );
+    const response = await ticketmaster.fetch('attractions.json', { keyword: query, size: limit });
 
     if (!response.ok) {
       console.error(`[search-artists] Ticketmaster API error: ${response.status}`);
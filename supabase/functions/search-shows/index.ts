@@ -2,6 +2,7 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { corsHeaders } from '../_shared/cors.ts'
+import { ticketmaster } from '../_shared/providers.ts'
 
 // Define the result types
 interface ShowSearchResult {
@@ -39,8 +40,7 @@ serve(async (req: Request) => {
     console.log(`[search-shows] Searching for shows with artist ID: ${artistId}`);
 
     // Get Ticketmaster API key from environment
-    const apiKey = Deno.env.get('TICKETMASTER_API_KEY');
-    if (!apiKey) {
+    if (!ticketmaster.isConfigured()) {
       return new Response(
         JSON.stringify({ error: 'Ticketmaster API key not configured' }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
@@ -48,10 +48,11 @@ serve(async (req: Request) => {
     }
 
     // Search for events with the specified artist via Ticketmaster API
-    const response = await fetch(
-      `https://app.ticketmaster.com/discovery/v2/events.json?apikey=${apiKey}&attractionId=${artistId}&sort=date,asc&size=${limit}`,
-      { headers: { Accept: 'application/json' } }
-    );
+    const response = await ticketmaster.fetch('events.json', {
+      attractionId: artistId,
+      sort: 'date,asc',
+      size: limit,
+    });
 
     if (!response.ok) {
       console.error(`[search-shows] Ticketmaster API error: ${response.status}`);
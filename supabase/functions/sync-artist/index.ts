@@ -10,6 +10,8 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 // @deno-types="https://esm.sh/@supabase/supabase-js@2/types"
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import { setlistfm, spotify, ticketmaster } from "../_shared/providers.ts";
+import { linkArtistIdentifiers, resolveArtist } from "../_shared/artistResolver.ts";
 // Exported function to calculate SHA-256 hash of given data
 export async function calculateSourceHash(data: any): Promise<string> {
   const encoder = new TextEncoder();
@@ -52,37 +54,7 @@ interface Artist {
 
 // Helper to get Spotify Access Token (Client Credentials Flow)
 async function getSpotifyToken(): Promise<string | null> {
-  const clientId = Deno.env.get("SPOTIFY_CLIENT_ID");
-  const clientSecret = Deno.env.get("SPOTIFY_CLIENT_SECRET");
-
-  if (!clientId || !clientSecret) {
-    console.error(
-      "Spotify client ID or secret not configured in environment variables.",
-    );
-    return null;
-  }
-
-  const response = await fetch("https://accounts.spotify.com/api/token", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-      Authorization: "Basic " + btoa(clientId + ":" + clientSecret),
-    },
-    body: "grant_type=client_credentials",
-  });
-
-  if (!response.ok) {
-    console.error(
-      "Failed to get Spotify token:",
-      response.status,
-      await response.text(),
-    );
-    return null;
-  }
-
-  const data = await response.json();
-  return data.access_token;
-  // Removed extra closing brace that was here
+  return await spotify.getAccessToken();
 }
 
 // --- Setlist.fm API Helper ---
@@ -112,22 +84,16 @@ interface SetlistFmSetlistsResponse {
 async function searchSetlistFmArtist(
   artistName: string,
 ): Promise<{ mbid: string | null; fmId: string | null }> {
-  const apiKey = Deno.env.get("SETLISTFM_API_KEY");
-  if (!apiKey) {
+  if (!setlistfm.isConfigured()) {
     console.warn("SETLISTFM_API_KEY not set, skipping Setlist.fm search.");
     return { mbid: null, fmId: null };
   }
 
   try {
     // Use v1.0 endpoint which seems more stable for search
-    const searchUrl = `https://api.setlist.fm/rest/1.0/search/artists?artistName=${encodeURIComponent(artistName)}&p=1&sort=relevance`;
-    console.log(`[sync-artist] Searching Setlist.fm: ${searchUrl}`);
-    const response = await fetch(searchUrl, {
-      headers: {
-        Accept: "application/json",
-        "x-api-key": apiKey,
-      },
-    });
+    const searchParams = { artistName, p: 1, sort: "relevance" };
+    console.log(`[sync-artist] Searching Setlist.fm: ${setlistfm.url("search/artists", searchParams)}`);
+    const response = await setlistfm.fetch("search/artists", searchParams);
 
     if (!response.ok) {
       console.warn(
@@ -170,8 +136,7 @@ async function fetchRecentSetlistsByMbid(
   page = 1,
   limit = 20,
 ): Promise<string[]> {
-  const apiKey = Deno.env.get("SETLISTFM_API_KEY");
-  if (!apiKey) {
+  if (!setlistfm.isConfigured()) {
     console.warn(
       "[sync-artist] SETLISTFM_API_KEY not set, skipping recent setlist fetch.",
     );
@@ -185,16 +150,11 @@ async function fetchRecentSetlistsByMbid(
   }
 
   try {
-    const apiUrl = `https://api.setlist.fm/rest/1.0/artist/${mbid}/setlists?p=${page}`;
+    const apiUrl = setlistfm.url(`artist/${mbid}/setlists`, { p: page });
     console.log(
       `[sync-artist] Fetching recent setlists by MBID from: ${apiUrl}`,
     );
-    const response = await fetch(apiUrl, {
-      headers: {
-        Accept: "application/json",
-        "x-api-key": apiKey,
-      },
-    });
+    const response = await setlistfm.fetch(`artist/${mbid}/setlists`, { p: page });
 
     if (!response.ok) {
       console.warn(
@@ -236,12 +196,10 @@ async function fetchAndCombineArtistData(
   // --- Ticketmaster ---
   const tmIdToFetch = payload.tm_id || existingArtist?.tm_id;
   if (tmIdToFetch && (!existingArtist?.tm_id || forceRefresh)) {
-    const tmApiKey = Deno.env.get("TICKETMASTER_API_KEY");
-    if (tmApiKey) {
+    if (ticketmaster.isConfigured()) {
       try {
-        const tmUrl = `https://app.ticketmaster.com/discovery/v2/attractions/${tmIdToFetch}.json?apikey=${tmApiKey}`;
-        console.log(`[sync-artist] Fetching from Ticketmaster: ${tmUrl}`);
-        const tmResponse = await fetch(tmUrl);
+        console.log(`[sync-artist] Fetching from Ticketmaster attraction ${tmIdToFetch}`);
+        const tmResponse = await ticketmaster.fetch(`attractions/${tmIdToFetch}.json`);
         if (tmResponse.ok) {
           const tmData = await tmResponse.json();
           console.log(
@@ -286,11 +244,9 @@ async function fetchAndCombineArtistData(
     const spotifyToken = await getSpotifyToken();
     if (spotifyToken) {
       try {
-        const searchUrl = `https://api.spotify.com/v1/search?q=${encodeURIComponent(artistNameForSearch)}&type=artist&limit=1`;
-        console.log(`[sync-artist] Searching Spotify: ${searchUrl}`);
-        const spotifySearchResponse = await fetch(searchUrl, {
-          headers: { Authorization: `Bearer ${spotifyToken}` },
-        });
+        const searchParams = { q: artistNameForSearch, type: "artist", limit: 1 };
+        console.log(`[sync-artist] Searching Spotify: ${spotify.url("search", searchParams)}`);
+        const spotifySearchResponse = await spotify.fetch("search", searchParams);
         if (spotifySearchResponse.ok) {
           const spotifySearchData = await spotifySearchResponse.json();
           if (spotifySearchData?.artists?.items?.length > 0) {
@@ -335,11 +291,9 @@ async function fetchAndCombineArtistData(
     const spotifyToken = await getSpotifyToken();
     if (spotifyToken) {
       try {
-        const artistUrl = `https://api.spotify.com/v1/artists/${spotifyIdToFetch}`;
+        const artistUrl = spotify.url(`artists/${spotifyIdToFetch}`);
         console.log(`[sync-artist] Fetching from Spotify: ${artistUrl}`);
-        const spotifyResponse = await fetch(artistUrl, {
-          headers: { Authorization: `Bearer ${spotifyToken}` },
-        });
+        const spotifyResponse = await spotify.fetch(`artists/${spotifyIdToFetch}`);
         if (spotifyResponse.ok) {
           const spotifyArtist = await spotifyResponse.json();
           console.log(
@@ -464,50 +418,35 @@ serve(async (req: Request) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
     );
 
-    // 1. Find Existing Artist by any provided external ID
+    // 1. Find the canonical artist for any of the provided IDs
     let existingArtist: Artist | null = null;
-    const query = supabaseAdmin.from("artists").select("*");
-    const filters: string[] = [];
-    if (payload.tm_id) filters.push(`tm_id.eq.${payload.tm_id}`);
-    if (payload.spotify_id) filters.push(`spotify_id.eq.${payload.spotify_id}`);
-    if (payload.setlist_fm_mbid)
-      filters.push(`setlist_fm_mbid.eq.${payload.setlist_fm_mbid}`);
-    if (payload.setlist_fm_id)
-      filters.push(`setlist_fm_id.eq.${payload.setlist_fm_id}`);
-
-    if (filters.length > 0) {
-      query.or(filters.join(","));
-      try {
-        const { data: foundArtists, error: findError } = await query;
-        if (findError) throw findError;
-
-        if (foundArtists && foundArtists.length > 1) {
-          // Handle potential duplicates - maybe log and pick the first?
-          console.warn(
-            `[sync-artist] Found multiple artists matching payload IDs:`,
-            foundArtists.map((a: any) => a.id),
-          );
-          existingArtist = foundArtists[0] as Artist;
-        } else if (foundArtists && foundArtists.length === 1) {
-          existingArtist = foundArtists[0] as Artist;
-          console.log(
-            `[sync-artist] Found existing artist by ID: ${existingArtist.id}`,
-          );
-        } else {
-          console.log(
-            `[sync-artist] No existing artist found by provided IDs.`,
-          );
-        }
-      } catch (e) {
-        const errorMsg = e instanceof Error ? e.message : String(e);
-        console.error(`[sync-artist] Error finding existing artist:`, errorMsg);
-        // Decide if we should stop or try to continue/insert
+    const identifiers = {
+      name: payload.name,
+      ticketmasterId: payload.tm_id,
+      spotifyId: payload.spotify_id,
+      mbid: payload.setlist_fm_mbid,
+    };
+    const resolvedArtistId = await resolveArtist(supabaseAdmin, identifiers);
+
+    if (resolvedArtistId) {
+      const { data: foundArtist, error: findError } = await supabaseAdmin
+        .from("artists")
+        .select("*")
+        .eq("id", resolvedArtistId)
+        .maybeSingle();
+
+      if (findError) {
+        console.error(`[sync-artist] Error loading artist ${resolvedArtistId}:`, findError.message);
+      } else if (foundArtist) {
+        existingArtist = foundArtist as Artist;
+        console.log(
+          `[sync-artist] Resolved existing artist: ${existingArtist.id}`,
+        );
       }
     } else {
       console.log(
-        `[sync-artist] No external IDs provided in payload to search for existing artist.`,
+        `[sync-artist] No existing artist found for the provided IDs.`,
       );
-      // Could potentially search by name here if needed, but upsert handles it later
     }
 
     // 2. Fetch and Combine Data
@@ -583,6 +522,13 @@ serve(async (req: Request) => {
       console.log(
         `[sync-artist] Successfully performed ${operationType} for artist ${finalArtistData.name} (UUID: ${finalArtistData.id})`,
       );
+
+      // Register any IDs the combined data added (e.g. a Spotify match)
+      await linkArtistIdentifiers(supabaseAdmin, finalArtistData.id, {
+        ticketmasterId: finalArtistData.tm_id ?? payload.tm_id,
+        spotifyId: finalArtistData.spotify_id,
+        mbid: finalArtistData.setlist_fm_mbid,
+      });
     } catch (upsertError) {
       const errorMsg =
         upsertError instanceof Error
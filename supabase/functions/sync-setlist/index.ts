@@ -3,6 +3,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { corsHeaders } from "../_shared/cors.ts";
+import { setlistfm } from "../_shared/providers.ts";
+import { resolveSetlistSongs } from "../_shared/songMatching.ts";
 
 // Define expected request body structure
 interface SyncSetlistPayload {
@@ -19,7 +21,8 @@ interface SetlistSong {
   artist_mbid?: string | null; // MusicBrainz ID from setlist.fm artist
   encore?: number; // 0 or 1
   position?: number;
-  // Add other fields like 'cover', 'tape', 'info' if needed
+  cover?: string | null; // Original artist when setlist.fm marks a cover
+  // Add other fields like 'tape', 'info' if needed
 }
 
 // Define the structure returned by the fetch function
@@ -74,21 +77,14 @@ async function fetchAndTransformSetlistData(
 ): Promise<FetchedSetlistData | null> {
   console.log(`Fetching data for setlist ${setlistId}`);
 
-  const apiKey = Deno.env.get("SETLISTFM_API_KEY");
-  if (!apiKey) {
+  if (!setlistfm.isConfigured()) {
     console.error("[sync-setlist] SETLISTFM_API_KEY not set.");
     return null;
   }
 
   try {
-    const apiUrl = `https://api.setlist.fm/rest/1.0/setlist/${setlistId}`;
-    console.log(`Fetching from setlist.fm: ${apiUrl}`);
-    const response = await fetch(apiUrl, {
-      headers: {
-        Accept: "application/json",
-        "x-api-key": apiKey,
-      },
-    });
+    console.log(`Fetching from setlist.fm: ${setlistfm.url(`setlist/${setlistId}`)}`);
+    const response = await setlistfm.fetch(`setlist/${setlistId}`);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -118,10 +114,10 @@ async function fetchAndTransformSetlistData(
                 artist_mbid: sfmData.artist?.mbid || null, // Artist MBID for context
                 encore: isEncore,
                 position: songPositionCounter,
-                // Add other fields like cover status, tape status, info if needed
+                cover: song.cover?.name || null,
+                // Add other fields like tape status, info if needed
                 // info: song.info,
                 // tape: song.tape,
-                // cover: song.cover ? { mbid: song.cover.mbid, name: song.cover.name, url: song.cover.url } : undefined
               });
             }
           });
@@ -407,124 +403,23 @@ serve(async (req: Request) => {
         );
       }
 
-      // 2. Find song UUIDs and prepare links
-      const songLinkPromises = fetchedData.songs.map(async (setlistSong) => {
-        // Find song by name with improved fuzzy matching and artist_id
-        // First try exact match with case-insensitive search
-        const songQuery = supabaseAdmin
-          .from("songs")
-          .select("id, name")
-          .eq("artist_id", artistUUID);
-
-        // Try exact match first (case-insensitive)
-        const { data: exactMatch, error: exactMatchError } = await songQuery
-          .ilike("name", setlistSong.name)
-          .maybeSingle();
-
-        if (exactMatchError) {
-          console.warn(
-            `[sync-setlist] Error finding exact song match "${setlistSong.name}" for artist ${artistUUID}: ${exactMatchError.message}`,
-          );
-        }
-
-        if (exactMatch) {
-          return {
-            setlist_id: upsertedSetlist.id,
-            song_id: exactMatch.id,
-            position: setlistSong.position,
-            encore: setlistSong.encore,
-            name: setlistSong.name, // Denormalized name
-            artist_id: artistUUID,
-          };
-        }
-
-        // If no exact match, try removing special characters and normalizing
-        const normalizedSetlistName = setlistSong.name
-          .toLowerCase()
-          .replace(/[^\w\s]/g, "") // Remove special characters
-          .replace(/\s+/g, " ") // Normalize whitespace
-          .trim();
-
-        if (normalizedSetlistName.length < 3) {
-          console.warn(
-            `[sync-setlist] Normalized song name "${normalizedSetlistName}" is too short for fuzzy matching. Skipping.`,
-          );
-          return null;
-        }
-
-        // Get all songs for this artist to do manual comparison
-        const { data: artistSongs, error: findError } = await supabaseAdmin
-          .from("songs")
-          .select("id, name")
-          .eq("artist_id", artistUUID);
-
-        if (findError) {
-          console.warn(
-            `[sync-setlist] Error finding artist songs for "${setlistSong.name}": ${findError.message}`,
-          );
-          return null;
-        }
-
-        // Find best match by normalizing and comparing song names
-        let bestMatch = null;
-        let highestSimilarity = 0;
-
-        if (artistSongs && artistSongs.length > 0) {
-          for (const song of artistSongs) {
-            const normalizedSongName = song.name
-              .toLowerCase()
-              .replace(/[^\w\s]/g, "")
-              .replace(/\s+/g, " ")
-              .trim();
-
-            // Check if one is contained within the other
-            if (
-              normalizedSongName.includes(normalizedSetlistName) ||
-              normalizedSetlistName.includes(normalizedSongName)
-            ) {
-              // Longer contained strings are better matches
-              const similarity =
-                Math.min(
-                  normalizedSongName.length,
-                  normalizedSetlistName.length,
-                ) /
-                Math.max(
-                  normalizedSongName.length,
-                  normalizedSetlistName.length,
-                );
-
-              if (similarity > highestSimilarity) {
-                highestSimilarity = similarity;
-                bestMatch = song;
-              }
-            }
-          }
-        }
-
-        // Use a threshold to ensure quality matches (e.g., 0.6 or 60% similar)
-        if (bestMatch && highestSimilarity > 0.6) {
-          console.log(
-            `[sync-setlist] Found fuzzy match for "${setlistSong.name}" → "${bestMatch.name}" (${highestSimilarity.toFixed(2)} similarity)`,
-          );
-          return {
-            setlist_id: upsertedSetlist.id,
-            song_id: bestMatch.id,
-            position: setlistSong.position,
-            encore: setlistSong.encore,
-            name: setlistSong.name, // Keep original setlist name for reference
-            artist_id: artistUUID,
-          };
-        }
-
-        // No match found (already logged warning above)
-        return null;
-      });
-
-      // Wait for all song lookups
-      const songLinksToInsert = (await Promise.all(songLinkPromises)).filter(
-        (link) => link !== null,
+      // 2. Resolve songs against the artist's catalog; low-confidence and
+      // unmatched songs are stored unlinked and queued for admin review
+      const matches = await resolveSetlistSongs(
+        supabaseAdmin,
+        artistUUID,
+        fetchedData.songs,
       );
 
+      const songLinksToInsert = fetchedData.songs.map((setlistSong, i) => ({
+        setlist_id: upsertedSetlist.id,
+        position: setlistSong.position,
+        is_encore: (setlistSong.encore ?? 0) > 0,
+        artist_id: artistUUID,
+        ...matches[i], // song_id, name and how it was matched
+      }));
+      const linkedCount = songLinksToInsert.filter((link) => link.song_id).length;
+
       // 3. Bulk insert into 'played_setlist_songs'
       if (songLinksToInsert.length > 0) {
         console.log(
@@ -540,8 +435,25 @@ serve(async (req: Request) => {
           );
         } else {
           console.log(
-            `[sync-setlist] Successfully inserted ${songLinksToInsert.length} song links.`,
+            `[sync-setlist] Successfully inserted ${songLinksToInsert.length} songs (${linkedCount} linked to the catalog).`,
           );
+
+          // The played setlist has landed: score fan predictions against it
+          if (showUUID && linkedCount > 0) {
+            const { data: scored, error: scoreError } = await supabaseAdmin.rpc(
+              "score_show_predictions",
+              { p_show_id: showUUID },
+            );
+            if (scoreError) {
+              console.error(
+                `[sync-setlist] Error scoring predictions for show ${showUUID}: ${scoreError.message}`,
+              );
+            } else {
+              console.log(
+                `[sync-setlist] Scored ${scored ?? 0} predictions for show ${showUUID}.`,
+              );
+            }
+          }
         }
       } else {
         console.log(
@@ -3,6 +3,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { ticketmaster } from '../_shared/providers.ts'
 
 // Define expected request body structure
 interface SyncShowPayload {
@@ -47,17 +48,15 @@ async function fetchShowDataAndQueueDependencies(
   console.log(`[sync-show] Processing show TM ID: ${tmShowId}`);
 
   // 1. Fetch Show Data from Ticketmaster
-  const tmApiKey = Deno.env.get('TICKETMASTER_API_KEY');
-  if (!tmApiKey) {
+  if (!ticketmaster.isConfigured()) {
     console.error('[sync-show] TICKETMASTER_API_KEY not set.');
     throw new Error("TICKETMASTER_API_KEY is not set.");
   }
 
   let tmData: any; // To store the fetched TM show data
   try {
-    const tmUrl = `https://app.ticketmaster.com/discovery/v2/events/${tmShowId}.json?apikey=${tmApiKey}`;
-    console.log(`[sync-show] Fetching from Ticketmaster: ${tmUrl}`);
-    const tmResponse = await fetch(tmUrl);
+    console.log(`[sync-show] Fetching from Ticketmaster event ${tmShowId}`);
+    const tmResponse = await ticketmaster.fetch(`events/${tmShowId}.json`);
     if (!tmResponse.ok) {
       throw new Error(`Ticketmaster API error for show ${tmShowId}: ${tmResponse.status} ${await tmResponse.text()}`);
     }
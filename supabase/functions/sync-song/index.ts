@@ -3,6 +3,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { spotify } from '../_shared/providers.ts'
 
 // Define expected request body structure
 interface SyncSongPayload {
@@ -29,36 +30,14 @@ interface Song {
   // Add any other relevant fields
 }
 
-// Helper to get Spotify Access Token (copied from sync-artist)
+// Helper to get Spotify Access Token
 async function getSpotifyToken(): Promise<string | null> {
-  const clientId = Deno.env.get('SPOTIFY_CLIENT_ID');
-  const clientSecret = Deno.env.get('SPOTIFY_CLIENT_SECRET');
-
-  if (!clientId || !clientSecret) {
-    console.error('Spotify client ID or secret not configured.');
-    return null;
-  }
-
   try {
-      const response = await fetch('https://accounts.spotify.com/api/token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Authorization': 'Basic ' + btoa(clientId + ':' + clientSecret)
-        },
-        body: 'grant_type=client_credentials'
-      });
-
-      if (!response.ok) {
-        console.error('Failed to get Spotify token:', response.status, await response.text());
-        return null;
-      }
-      const data = await response.json();
-      return data.access_token;
+    return await spotify.getAccessToken();
   } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      console.error('Error fetching Spotify token:', errorMsg);
-      return null;
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    console.error('Error fetching Spotify token:', errorMsg);
+    return null;
   }
 }
 
@@ -122,12 +101,10 @@ async function fetchAndEnrichSongData(supabaseAdmin: any, songId: string): Promi
       if (spotifyToken) {
         try {
           const searchQuery = `track:${song.name} artist:${artistName}`;
-          const searchUrl = `https://api.spotify.com/v1/search?q=${encodeURIComponent(searchQuery)}&type=track&limit=1`;
-          console.log(`Searching Spotify: ${searchUrl}`);
+          const searchParams = { q: searchQuery, type: 'track', limit: 1 };
+          console.log(`Searching Spotify: ${spotify.url('search', searchParams)}`);
 
-          const spotifyResponse = await fetch(searchUrl, {
-            headers: { 'Authorization': `Bearer ${spotifyToken}` }
-          });
+          const spotifyResponse = await spotify.fetch('search', searchParams);
 
           if (!spotifyResponse.ok) {
             console.warn(`Spotify search error for song ${songId}: ${spotifyResponse.status} ${await spotifyResponse.text()}`);
@@ -3,6 +3,8 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { ticketmaster } from '../_shared/providers.ts'
+import { parseVenueCoordinates } from '../_shared/geo.ts'
 
 // Define expected request body structure
 interface SyncVenuePayload {
@@ -19,8 +21,9 @@ interface Venue {
   state?: string | null;
   country?: string | null;
   address?: string | null; // Added back based on TM data availability
-  latitude?: string | null; // Changed to string to match TM response
-  longitude?: string | null; // Changed to string to match TM response
+  latitude?: number | null;
+  longitude?: number | null;
+  timezone?: string | null; // IANA zone; sets the show voting windows
   url?: string | null; // Added back based on TM data availability
   image_url?: string | null;
   created_at?: string;
@@ -51,8 +54,7 @@ async function fetchAndCombineVenueData(
 
   // Fetch from Ticketmaster if no existing data or forceRefresh is true
   if (!existingVenue || forceRefresh) {
-    const tmApiKey = Deno.env.get('TICKETMASTER_API_KEY');
-    if (!tmApiKey) {
+    if (!ticketmaster.isConfigured()) {
       console.error('[sync-venue] TICKETMASTER_API_KEY not set.');
       // If we have existing data, return it, otherwise fail
       if (existingVenue) return combinedData;
@@ -60,9 +62,8 @@ async function fetchAndCombineVenueData(
     }
 
     try {
-      const tmUrl = `https://app.ticketmaster.com/discovery/v2/venues/${tmIdToFetch}.json?apikey=${tmApiKey}`;
-      console.log(`[sync-venue] Fetching from Ticketmaster: ${tmUrl}`);
-      const tmResponse = await fetch(tmUrl);
+      console.log(`[sync-venue] Fetching from Ticketmaster venue ${tmIdToFetch}`);
+      const tmResponse = await ticketmaster.fetch(`venues/${tmIdToFetch}.json`);
 
       if (!tmResponse.ok) {
         const errorText = await tmResponse.text();
@@ -82,8 +83,10 @@ async function fetchAndCombineVenueData(
       combinedData.state = tmData.state?.stateCode || combinedData.state;
       combinedData.country = tmData.country?.countryCode || combinedData.country;
       combinedData.address = tmData.address?.line1 || combinedData.address; // Assuming line1 is the primary address
-      combinedData.latitude = tmData.location?.latitude || combinedData.latitude;
-      combinedData.longitude = tmData.location?.longitude || combinedData.longitude;
+      const coordinates = parseVenueCoordinates(tmData.location);
+      combinedData.latitude = coordinates?.latitude ?? combinedData.latitude;
+      combinedData.longitude = coordinates?.longitude ?? combinedData.longitude;
+      combinedData.timezone = tmData.timezone || combinedData.timezone;
       combinedData.url = tmData.url || combinedData.url;
       combinedData.image_url = getBestImage(tmData.images) || combinedData.image_url;
 
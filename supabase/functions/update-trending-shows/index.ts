@@ -3,8 +3,8 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from '../_shared/cors.ts'
+import { ticketmaster } from '../_shared/providers.ts'
 
-const TICKETMASTER_API_KEY = Deno.env.get('TICKETMASTER_API_KEY');
 const TRENDING_SHOW_LIMIT = 8; // How many shows to cache
 
 // Simplified interface for TM event data needed
@@ -47,7 +47,7 @@ serve(async (req: Request) => {
 
   console.log('--- update-trending-shows function started ---');
 
-  if (!TICKETMASTER_API_KEY) {
+  if (!ticketmaster.isConfigured()) {
     console.error('TICKETMASTER_API_KEY is not set.');
     return new Response(JSON.stringify({ error: 'Ticketmaster API key not configured' }), { status: 500 });
   }
@@ -60,9 +60,9 @@ serve(async (req: Request) => {
   try {
     // 1. Fetch trending/popular events from Ticketmaster
     // Example: Fetching music events in US sorted by relevance (adjust as needed)
-    const tmUrl = `https://app.ticketmaster.com/discovery/v2/events.json?apikey=${TICKETMASTER_API_KEY}&classificationName=Music&countryCode=US&sort=relevance,date,asc&size=20`; // Fetch more than needed initially
-    console.log(`Fetching trending events from Ticketmaster: ${tmUrl}`);
-    const tmResponse = await fetch(tmUrl);
+    const tmParams = { classificationName: 'Music', countryCode: 'US', sort: 'relevance,date,asc', size: 20 }; // Fetch more than needed initially
+    console.log('Fetching trending events from Ticketmaster:', tmParams);
+    const tmResponse = await ticketmaster.fetch('events.json', tmParams);
 
     if (!tmResponse.ok) {
       throw new Error(`Ticketmaster API error: ${tmResponse.status} ${await tmResponse.text()}`);
@@ -72,9 +72,9 @@ serve(async (req: Request) => {
     const tmEvents: TmEvent[] = tmData._embedded?.events || [];
     console.log(`Fetched ${tmEvents.length} events from Ticketmaster.`);
 
+    // Scores come from our own engagement data, so refresh them even without new events
     if (tmEvents.length === 0) {
       console.log('No trending events found from Ticketmaster.');
-      return new Response(JSON.stringify({ success: true, message: 'No trending events found from source.' }), { status: 200 });
     }
 
     // 2. Trigger sync for fetched shows and their artists (in background, don't wait)
@@ -98,56 +98,19 @@ serve(async (req: Request) => {
     // when the next step runs. This is a trade-off for speed. A more robust system might use queues.
     // For simplicity here, we'll query based on the data *already* in the DB.
 
-    // 3. Query local 'shows' table to determine actual trending shows based on DB data
-    // (e.g., order by popularity, assuming sync-show populates this)
-    console.log('Querying local shows table for trending order...');
-    const { data: localShows, error: queryError } = await supabaseAdmin
-      .from('shows')
-      .select('id') // Only need the ID
-      // Order by date descending (most recent first) as popularity isn't reliably populated
-      .order('date', { ascending: false, nullsFirst: false })
-      .limit(TRENDING_SHOW_LIMIT);
-
-    if (queryError) {
-      throw new Error(`Error querying local shows: ${queryError.message}`);
-    }
-
-    if (!localShows || localShows.length === 0) {
-      console.log('No shows found in local DB after sync attempt.');
-       return new Response(JSON.stringify({ success: true, message: 'No shows found in DB to cache.' }), { status: 200 });
-    }
-
-    console.log(`Found ${localShows.length} top shows in local DB.`);
-
-    // 4. Update the cache table
-    console.log('Updating trending_shows_cache table...');
-    // Delete old entries
-    const { error: deleteError } = await supabaseAdmin
-      .from('trending_shows_cache')
-      .delete()
-      .neq('rank', -1); // Delete all rows (use a condition that's always true)
-
-    if (deleteError) {
-      throw new Error(`Error clearing trending cache: ${deleteError.message}`);
-    }
-
-    // Insert new trending shows with rank
-    const cacheInserts = localShows.map((show: { id: string }, index: number) => ({
-      show_id: show.id,
-      rank: index + 1,
-    }));
-
-    const { error: insertError } = await supabaseAdmin
-      .from('trending_shows_cache')
-      .insert(cacheInserts);
+    // 3. Score upcoming shows on engagement (vote velocity, unique voters, page views,
+    // artist popularity, days until the show) and refill trending_shows_cache with the top ones
+    console.log('Refreshing trending scores...');
+    const { data: scoredCount, error: refreshError } = await supabaseAdmin
+      .rpc('refresh_trending_scores', { p_cache_size: TRENDING_SHOW_LIMIT });
 
-    if (insertError) {
-      throw new Error(`Error inserting into trending cache: ${insertError.message}`);
+    if (refreshError) {
+      throw new Error(`Error refreshing trending scores: ${refreshError.message}`);
     }
 
-    console.log(`Successfully updated trending_shows_cache with ${cacheInserts.length} shows.`);
+    console.log(`Scored ${scoredCount ?? 0} upcoming shows and updated trending_shows_cache.`);
 
-    return new Response(JSON.stringify({ success: true, updated: cacheInserts.length }), {
+    return new Response(JSON.stringify({ success: true, scored: scoredCount ?? 0 }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       status: 200,
     });
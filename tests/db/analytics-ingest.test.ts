@@ -0,0 +1,47 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+describe("claim_analytics_ingest", () => {
+  let db: TestDatabase;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const claim = (sessionId: string, events: number, ipHash: string | null = null) =>
+    db.rpc<boolean>("claim_analytics_ingest", { p_session_id: sessionId, p_events: events, p_ip_hash: ipHash });
+
+  it("lets a session post up to its allowance a minute", async () => {
+    expect(await claim("tab-1", 50)).toBe(true);
+    expect(await claim("tab-1", 50)).toBe(true);
+    expect(await claim("tab-1", 20)).toBe(true);
+    expect(await claim("tab-1", 1)).toBe(false);
+
+    expect(await claim("tab-2", 50)).toBe(true);
+  });
+
+  it("counts empty batches, so they can't be posted without limit", async () => {
+    for (let i = 0; i < 120; i++) {
+      await claim("empty-tab", 0);
+    }
+    expect(await claim("empty-tab", 0)).toBe(false);
+  });
+
+  it("caps every session behind one client IP together", async () => {
+    for (let tab = 0; tab < 12; tab++) {
+      expect(await claim(`crawler-${tab}`, 50, "one-ip")).toBe(true);
+    }
+    expect(await claim("crawler-12", 1, "one-ip")).toBe(false);
+    expect(await claim("crawler-12", 1, "another-ip")).toBe(true);
+  });
+
+  it("is only available to the service role", async () => {
+    const { error } = await db
+      .rpcClient("anon")
+      .rpc("claim_analytics_ingest", { p_session_id: "tab-3", p_events: 1 });
+    expect(error?.message).toContain("permission denied");
+  });
+});
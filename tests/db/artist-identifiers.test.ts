@@ -0,0 +1,112 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+describe("artist entity resolution", () => {
+  let db: TestDatabase;
+  let adminId: string;
+  let fanId: string;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+    adminId = await db.createUser({ admin: true });
+    fanId = await db.createUser();
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const createArtist = async (name: string, columns: { spotify_id?: string; setlist_fm_mbid?: string } = {}) =>
+    (
+      await db.one<{ id: string }>(
+        `INSERT INTO artists (name, spotify_id, setlist_fm_mbid) VALUES ($1, $2, $3) RETURNING id`,
+        [name, columns.spotify_id ?? null, columns.setlist_fm_mbid ?? null]
+      )
+    ).id;
+
+  const resolve = (args: { p_name?: string; p_ticketmaster_id?: string; p_spotify_id?: string; p_mbid?: string }) =>
+    db.rpc<string | null>("resolve_artist", args);
+
+  const identifiers = async (artistId: string) =>
+    (
+      await db.query<{ id: string }>(
+        `SELECT provider || ':' || external_id AS id FROM artist_identifiers WHERE artist_id = $1 ORDER BY provider`,
+        [artistId]
+      )
+    ).map(identifier => identifier.id);
+
+  it("finds an artist by any provider ID and links the others it was given", async () => {
+    const artistId = await createArtist("Radiohead");
+    await db.rpc("link_artist_identifiers", { p_artist_id: artistId, p_spotify_id: "sp-radiohead" });
+
+    expect(await resolve({ p_spotify_id: "sp-radiohead", p_ticketmaster_id: "tm-radiohead" })).toBe(artistId);
+    expect(await resolve({ p_ticketmaster_id: "tm-radiohead" })).toBe(artistId);
+    expect(await identifiers(artistId)).toEqual(["spotify:sp-radiohead", "ticketmaster:tm-radiohead"]);
+  });
+
+  it("falls back to the provider columns of artists created before identifiers", async () => {
+    const artistId = await createArtist("Portishead", { setlist_fm_mbid: "mbid-portishead" });
+
+    expect(await resolve({ p_mbid: "mbid-portishead", p_spotify_id: "sp-portishead" })).toBe(artistId);
+    expect(await identifiers(artistId)).toEqual(["musicbrainz:mbid-portishead", "spotify:sp-portishead"]);
+
+    const { spotify_id } = await db.one<{ spotify_id: string }>(`SELECT spotify_id FROM artists WHERE id = $1`, [artistId]);
+    expect(spotify_id).toBe("sp-portishead");
+  });
+
+  it("matches on the name only when one artist has it and no ID contradicts", async () => {
+    const artistId = await createArtist("Massive Attack");
+    expect(await resolve({ p_name: "  massive attack ", p_ticketmaster_id: "tm-massive" })).toBe(artistId);
+
+    await db.rpc("link_artist_identifiers", { p_artist_id: artistId, p_spotify_id: "sp-massive" });
+    expect(await resolve({ p_name: "Massive Attack", p_spotify_id: "sp-someone-else" })).toBeNull();
+
+    await createArtist("Burial");
+    await createArtist("Burial");
+    expect(await resolve({ p_name: "Burial" })).toBeNull();
+  });
+
+  it("suggests the artist with more shows as the one to keep", async () => {
+    const keepId = await createArtist("Sigur Ros");
+    const duplicateId = await createArtist("sigur ros!");
+    await db.query(`INSERT INTO shows (name, artist_id, date) VALUES ('Show', $1, now() + interval '7 days')`, [keepId]);
+
+    const { data, error } = await db.rpcClient("authenticated", adminId).rpc("get_duplicate_artists");
+    expect(error).toBeNull();
+    const pairs = (data as { keep_id: string; duplicate_id: string }[]).filter(pair => pair.keep_id === keepId);
+    expect(pairs.map(pair => pair.duplicate_id)).toEqual([duplicateId]);
+
+    const fan = await db.rpcClient("authenticated", fanId).rpc("get_duplicate_artists");
+    expect(fan.error?.message).toContain("Only admins");
+  });
+
+  it("moves identifiers and shows in a merge and puts them back on a split", async () => {
+    const targetId = await createArtist("Björk");
+    const sourceId = await createArtist("Bjork");
+    await db.rpc("link_artist_identifiers", { p_artist_id: sourceId, p_ticketmaster_id: "tm-bjork" });
+    const { id: showId } = await db.one<{ id: string }>(
+      `INSERT INTO shows (name, artist_id, date) VALUES ('Show', $1, now() + interval '7 days') RETURNING id`,
+      [sourceId]
+    );
+
+    const fan = await db.rpcClient("authenticated", fanId).rpc("merge_artists", { p_source_id: sourceId, p_target_id: targetId });
+    expect(fan.error?.message).toContain("Only admins");
+
+    const { data: mergeId, error } = await db
+      .rpcClient("authenticated", adminId)
+      .rpc("merge_artists", { p_source_id: sourceId, p_target_id: targetId });
+    expect(error).toBeNull();
+
+    const showArtist = async () =>
+      (await db.one<{ artist_id: string }>(`SELECT artist_id FROM shows WHERE id = $1`, [showId])).artist_id;
+    expect(await showArtist()).toBe(targetId);
+    expect(await resolve({ p_ticketmaster_id: "tm-bjork" })).toBe(targetId);
+    expect(await db.query(`SELECT id FROM artists WHERE id = $1`, [sourceId])).toEqual([]);
+
+    const split = await db.rpcClient("authenticated", adminId).rpc("split_artist", { p_merge_id: mergeId });
+    expect(split.error).toBeNull();
+
+    expect(await showArtist()).toBe(sourceId);
+    expect(await identifiers(sourceId)).toEqual(["ticketmaster:tm-bjork"]);
+    expect(await identifiers(targetId)).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+type Filed = { show_name: string; setlist_tour: string | null; show_tour: string | null; tour_artist: string | null };
+
+describe("artist merges with tours and genres", () => {
+  let db: TestDatabase;
+  let adminId: string;
+  let targetId: string;
+  let sourceId: string;
+  let mergeId: string;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+    adminId = await db.createUser({ admin: true });
+
+    ({ id: targetId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`));
+    ({ id: sourceId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('Test Pattern, The') RETURNING id`));
+
+    const night = async (artistId: string, name: string, tour: string, daysAgo: number) => {
+      const { id: showId } = await db.one<{ id: string }>(
+        `INSERT INTO shows (name, artist_id, date) VALUES ($1, $2, now() - make_interval(days => $3)) RETURNING id`,
+        [name, artistId, daysAgo]
+      );
+      await db.query(
+        `INSERT INTO setlists (artist_id, show_id, tour_name, date) VALUES ($1, $2, $3, now() - make_interval(days => $4))`,
+        [artistId, showId, tour, daysAgo]
+      );
+    };
+
+    await night(targetId, "Target night", "World Tour", 20);
+    await night(sourceId, "Duplicate night", "world tour", 10);
+    await night(sourceId, "B-sides night", "B-Sides Tour", 5);
+
+    const genre = async (slug: string) =>
+      (await db.one<{ id: string }>(`SELECT id FROM genres WHERE slug = $1`, [slug])).id;
+    const rock = await genre("rock");
+    const pop = await genre("pop");
+    await db.query(
+      `INSERT INTO artist_genres (artist_id, genre_id, source)
+       VALUES ($1, $3, 'spotify'), ($2, $3, 'spotify'), ($2, $4, 'spotify')`,
+      [targetId, sourceId, rock, pop]
+    );
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const filed = () =>
+    db.query<Filed>(
+      `SELECT sh.name AS show_name, st.name AS setlist_tour, sht.name AS show_tour, a.name AS tour_artist
+       FROM shows sh
+       JOIN setlists sl ON sl.show_id = sh.id
+       LEFT JOIN tours st ON st.id = sl.tour_id
+       LEFT JOIN tours sht ON sht.id = sh.tour_id
+       LEFT JOIN artists a ON a.id = st.artist_id
+       ORDER BY sh.name`
+    );
+
+  const tours = async (artistId: string) =>
+    (await db.query<{ name: string }>(`SELECT name FROM tours WHERE artist_id = $1 ORDER BY name`, [artistId])).map(
+      tour => tour.name
+    );
+
+  const genres = async (artistId: string) =>
+    (
+      await db.query<{ slug: string }>(
+        `SELECT g.slug FROM artist_genres ag JOIN genres g ON g.id = ag.genre_id WHERE ag.artist_id = $1 ORDER BY g.slug`,
+        [artistId]
+      )
+    ).map(genre => genre.slug);
+
+  it("keeps every night on a tour and folds a tour both artists have into one", async () => {
+    const { data, error } = await db.rpcClient("authenticated", adminId).rpc("merge_artists", {
+      p_source_id: sourceId,
+      p_target_id: targetId
+    });
+    expect(error).toBeNull();
+    mergeId = data as string;
+
+    expect(await tours(targetId)).toEqual(["B-Sides Tour", "World Tour"]);
+    expect(await filed()).toEqual([
+      { show_name: "B-sides night", setlist_tour: "B-Sides Tour", show_tour: "B-Sides Tour", tour_artist: "The Test Pattern" },
+      { show_name: "Duplicate night", setlist_tour: "World Tour", show_tour: "World Tour", tour_artist: "The Test Pattern" },
+      { show_name: "Target night", setlist_tour: "World Tour", show_tour: "World Tour", tour_artist: "The Test Pattern" }
+    ]);
+
+    // The tour's dates now span the nights of both artists
+    const { days } = await db.one<{ days: number }>(
+      `SELECT round(extract(epoch FROM last_played_at - first_played_at) / 86400)::INTEGER AS days
+       FROM tours WHERE artist_id = $1 AND name = 'World Tour'`,
+      [targetId]
+    );
+    expect(days).toBe(10);
+  });
+
+  it("copies the duplicate's genres to the target", async () => {
+    expect(await genres(targetId)).toEqual(["pop", "rock"]);
+  });
+
+  it("puts tours and genres back on a split", async () => {
+    const { error } = await db.rpcClient("authenticated", adminId).rpc("split_artist", { p_merge_id: mergeId });
+    expect(error).toBeNull();
+
+    expect(await tours(targetId)).toEqual(["World Tour"]);
+    expect(await tours(sourceId)).toEqual(["B-Sides Tour", "world tour"]);
+    expect(await filed()).toEqual([
+      { show_name: "B-sides night", setlist_tour: "B-Sides Tour", show_tour: "B-Sides Tour", tour_artist: "Test Pattern, The" },
+      { show_name: "Duplicate night", setlist_tour: "world tour", show_tour: "world tour", tour_artist: "Test Pattern, The" },
+      { show_name: "Target night", setlist_tour: "World Tour", show_tour: "World Tour", tour_artist: "The Test Pattern" }
+    ]);
+
+    expect(await genres(targetId)).toEqual(["rock"]);
+    expect(await genres(sourceId)).toEqual(["pop", "rock"]);
+  });
+});
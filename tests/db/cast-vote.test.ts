@@ -0,0 +1,128 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+type CastVoteRow = { status: string; vote_count: number; votes_used: number; votes_remaining: number | null };
+
+describe("cast_vote", () => {
+  let db: TestDatabase;
+  let songId: string;
+  let otherSongId: string;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+
+    const { id: artistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`);
+    const { id: showId } = await db.one<{ id: string }>(
+      `INSERT INTO shows (name, artist_id, date) VALUES ('Test Show', $1, now() + interval '7 days') RETURNING id`,
+      [artistId]
+    );
+    const { id: setlistId } = await db.one<{ id: string }>(
+      `INSERT INTO setlists (artist_id, show_id) VALUES ($1, $2) RETURNING id`,
+      [artistId, showId]
+    );
+    [songId, otherSongId] = (
+      await db.query<{ id: string }>(
+        `INSERT INTO setlist_songs (setlist_id, artist_id, name, position, vote_count)
+         SELECT $1, $2, 'Song ' || n, n, 0 FROM generate_series(1, 2) AS n
+         ORDER BY n
+         RETURNING id`,
+        [setlistId, artistId]
+      )
+    ).map(song => song.id);
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const vote = async (userId: string, song: string, key: string) => {
+    const [row] = await db.rpc<CastVoteRow[]>("cast_vote", {
+      p_song_id: song,
+      p_action: "increment",
+      p_idempotency_key: key,
+      p_user_id: userId
+    });
+    return row;
+  };
+
+  const voteCount = async (song: string) =>
+    (await db.one<{ vote_count: number }>(`SELECT vote_count FROM setlist_songs WHERE id = $1`, [song])).vote_count;
+
+  it("is not callable by browser roles", async () => {
+    const userId = await db.createUser();
+
+    for (const role of ["anon", "authenticated"] as const) {
+      const client = db.rpcClient(role, userId);
+
+      const cast = await client.rpc("cast_vote", {
+        p_song_id: songId,
+        p_action: "increment",
+        p_idempotency_key: `browser-${role}`,
+        p_user_id: userId,
+        p_max_anonymous_votes: 1000
+      });
+      expect(cast.error?.message).toContain("permission denied");
+
+      const merge = await client.rpc("merge_anonymous_votes", {
+        p_session_id: userId,
+        p_user_id: userId
+      });
+      expect(merge.error?.message).toContain("permission denied");
+    }
+  });
+
+  it("counts each vote once", async () => {
+    const first = await db.createUser();
+    const second = await db.createUser();
+
+    expect((await vote(first, songId, "count-1")).vote_count).toBe(1);
+    expect((await vote(second, songId, "count-2")).vote_count).toBe(2);
+    expect(await voteCount(songId)).toBe(2);
+  });
+
+  it("keeps quarantined votes out of the tally when the vote rows change", async () => {
+    for (let i = 0; i < 5; i++) {
+      await db.rpc("cast_vote", {
+        p_song_id: otherSongId,
+        p_action: "increment",
+        p_idempotency_key: `shared-device-${i}`,
+        p_user_id: await db.createUser(),
+        p_device_hash: "one-phone"
+      });
+    }
+    expect(await voteCount(otherSongId)).toBe(5);
+
+    expect(await db.rpc("detect_recent_vote_anomalies")).toBe(5);
+    expect(await voteCount(otherSongId)).toBe(0);
+
+    await db.query(`UPDATE votes SET updated_at = now() WHERE song_id = $1`, [otherSongId]);
+    expect(await voteCount(otherSongId)).toBe(0);
+  });
+
+  it("does not count votes copied from user_votes twice on the leaderboard", async () => {
+    const userId = await db.createUser();
+    await vote(userId, songId, "legacy-1");
+    await db.query(`INSERT INTO user_votes (user_id, setlist_song_id) VALUES ($1, $2)`, [userId, songId]);
+
+    await db.rpc("refresh_all_materialized_views");
+
+    const { votes_cast } = await db.one<{ votes_cast: number }>(
+      `SELECT votes_cast FROM leaderboard_standings WHERE user_id = $1 AND period = 'all_time' AND scope = 'global'`,
+      [userId]
+    );
+    expect(votes_cast).toBe(1);
+  });
+
+  it("purges vote request outcomes older than a week", async () => {
+    const userId = await db.createUser();
+    await vote(userId, songId, "purge-old");
+    await vote(userId, otherSongId, "purge-recent");
+    await db.query(`UPDATE vote_requests SET created_at = now() - interval '8 days' WHERE idempotency_key = 'purge-old'`);
+
+    expect(await db.rpc<number>("purge_vote_requests")).toBe(1);
+
+    const keys = await db.query<{ idempotency_key: string }>(
+      `SELECT idempotency_key FROM vote_requests WHERE idempotency_key LIKE 'purge-%'`
+    );
+    expect(keys.map(row => row.idempotency_key)).toEqual(["purge-recent"]);
+  });
+});
@@ -0,0 +1,117 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+type Performance = {
+  artist_name: string;
+  stage: string | null;
+  set_starts_at: string;
+  voting_locks_at: string;
+  top_songs: { name: string; vote_count: number }[];
+};
+
+describe("festivals and residencies", () => {
+  let db: TestDatabase;
+  let artistId: string;
+  let venueId: string;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+
+    ({ id: artistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`));
+    ({ id: venueId } = await db.one<{ id: string }>(`INSERT INTO venues (name) VALUES ('The Sphere') RETURNING id`));
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const night = async (venue: string, days: number) =>
+    (
+      await db.one<{ id: string }>(
+        `INSERT INTO shows (name, artist_id, venue_id, date)
+         VALUES ('Night', $1, $2, date_trunc('day', now()) + make_interval(days => $3, hours => 20))
+         RETURNING id`,
+        [artistId, venue, days]
+      )
+    ).id;
+
+  const eventOf = async (showId: string) =>
+    (await db.one<{ event_id: string | null }>(`SELECT event_id FROM shows WHERE id = $1`, [showId])).event_id;
+
+  it("groups an artist's nights at one venue into a residency", async () => {
+    const first = await night(venueId, 30);
+    expect(await eventOf(first)).toBeNull();
+
+    const second = await night(venueId, 32);
+    const third = await night(venueId, 33);
+    const { id: elsewhereVenue } = await db.one<{ id: string }>(`INSERT INTO venues (name) VALUES ('Elsewhere') RETURNING id`);
+    const elsewhere = await night(elsewhereVenue, 31);
+    const muchLater = await night(venueId, 45);
+
+    const residencyId = await eventOf(first);
+    expect(residencyId).not.toBe(null);
+    expect(await eventOf(second)).toBe(residencyId);
+    expect(await eventOf(third)).toBe(residencyId);
+    expect(await eventOf(elsewhere)).toBeNull();
+    expect(await eventOf(muchLater)).toBeNull();
+
+    const residency = await db.one<{ kind: string; name: string; days: number }>(
+      `SELECT kind, name, EXTRACT(DAY FROM ends_at - starts_at)::INTEGER AS days FROM events WHERE id = $1`,
+      [residencyId]
+    );
+    expect(residency).toEqual({ kind: "residency", name: "The Test Pattern at The Sphere", days: 3 });
+  });
+
+  it("lists a festival's lineup in set order and locks each set's voting when it starts", async () => {
+    const { id: festivalId } = await db.one<{ id: string }>(
+      `INSERT INTO events (kind, name, external_id, venue_id) VALUES ('festival', 'Test Fest', 'tm-fest', $1) RETURNING id`,
+      [venueId]
+    );
+    const { id: headlinerId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('Headliner') RETURNING id`);
+
+    const performance = async (artist: string, stage: string, setHour: number) =>
+      (
+        await db.one<{ id: string }>(
+          `INSERT INTO shows (name, artist_id, venue_id, event_id, stage, date, set_starts_at)
+           VALUES ('Test Fest', $1, $2, $3, $4,
+                   date_trunc('day', now()) + interval '60 days 12 hours',
+                   date_trunc('day', now()) + make_interval(days => 60, hours => $5))
+           RETURNING id`,
+          [artist, venueId, festivalId, stage, setHour]
+        )
+      ).id;
+
+    const headlinerSet = await performance(headlinerId, "Main", 22);
+    const earlySet = await performance(artistId, "Tent", 15);
+    // The same artist's second festival set doesn't start a residency
+    const lateSet = await performance(artistId, "Tent", 23);
+
+    const { id: setlistId } = await db.one<{ id: string }>(
+      `INSERT INTO setlists (artist_id, show_id) VALUES ($1, $2) RETURNING id`,
+      [headlinerId, headlinerSet]
+    );
+    await db.query(
+      `INSERT INTO setlist_songs (setlist_id, artist_id, name, position, vote_count)
+       VALUES ($1, $2, 'Deep Cut', 1, 2), ($1, $2, 'Big Hit', 2, 9), ($1, $2, 'Closer', 3, 5)`,
+      [setlistId, headlinerId]
+    );
+
+    const lineup = await db.rpc<Performance[]>("get_event_lineup", { p_event_id: festivalId, p_song_limit: 2 });
+
+    expect(lineup.map(set => [set.artist_name, set.stage])).toEqual([
+      ["The Test Pattern", "Tent"],
+      ["Headliner", "Main"],
+      ["The Test Pattern", "Tent"],
+    ]);
+    expect(lineup.map(set => new Date(set.voting_locks_at).getTime())).toEqual(
+      lineup.map(set => new Date(set.set_starts_at).getTime())
+    );
+    expect(lineup[1].top_songs).toEqual([
+      { name: "Big Hit", vote_count: 9 },
+      { name: "Closer", vote_count: 5 },
+    ]);
+
+    for (const showId of [earlySet, lateSet]) {
+      expect(await eventOf(showId)).toBe(festivalId);
+    }
+  });
+});
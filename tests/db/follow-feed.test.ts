@@ -0,0 +1,97 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+type FeedItem = { item_type: string; show_name: string; followed_via: string; occurred_at: string };
+
+describe("get_follow_feed", () => {
+  let db: TestDatabase;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+    userId = await db.createUser();
+
+    const artist = async (name: string) =>
+      (await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ($1) RETURNING id`, [name])).id;
+    const venue = async (name: string) =>
+      (await db.one<{ id: string }>(`INSERT INTO venues (name) VALUES ($1) RETURNING id`, [name])).id;
+
+    const followedArtist = await artist("Followed Artist");
+    const otherArtist = await artist("Other Artist");
+    const droppedArtist = await artist("Dropped Artist");
+    const followedVenue = await venue("Followed Venue");
+    const otherVenue = await venue("Other Venue");
+
+    await db.query(
+      `INSERT INTO user_follows (user_id, artist_id, venue_id, unfollowed_at)
+       VALUES ($1, $2, NULL, NULL), ($1, NULL, $3, NULL), ($1, $4, NULL, now())`,
+      [userId, followedArtist, followedVenue, droppedArtist]
+    );
+
+    // Shows are announced hours apart, in this order
+    const show = async (name: string, artistId: string, venueId: string, announcedHoursAgo: number, days: number) =>
+      (
+        await db.one<{ id: string }>(
+          `INSERT INTO shows (name, artist_id, venue_id, date, created_at)
+           VALUES ($1, $2, $3, now() + make_interval(days => $5), now() - make_interval(hours => $4))
+           RETURNING id`,
+          [name, artistId, venueId, announcedHoursAgo, days]
+        )
+      ).id;
+
+    const playedShow = await show("Artist last week", followedArtist, otherVenue, 240, -7);
+    await show("Venue next month", otherArtist, followedVenue, 48, 30);
+    const bothShow = await show("Both next week", followedArtist, followedVenue, 24, 7);
+    await show("Unfollowed", droppedArtist, otherVenue, 12, 7);
+    await show("Neither", otherArtist, otherVenue, 12, 7);
+
+    await db.query(
+      `INSERT INTO setlists (artist_id, show_id, created_at) VALUES ($1, $2, now() - interval '6 hours')`,
+      [followedArtist, bothShow]
+    );
+    const { id: playedSetlist } = await db.one<{ id: string }>(
+      `INSERT INTO setlists (artist_id, show_id, created_at) VALUES ($1, $2, now() - interval '9 days') RETURNING id`,
+      [followedArtist, playedShow]
+    );
+    await db.query(
+      `INSERT INTO played_setlist_songs (setlist_id, artist_id, name, position, created_at)
+       VALUES ($1, $2, 'Song 1', 1, now() - interval '3 hours')`,
+      [playedSetlist, followedArtist]
+    );
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const feed = async (args: Record<string, unknown> = {}) => {
+    const { data, error } = await db.rpcClient("authenticated", userId).rpc("get_follow_feed", args);
+    expect(error).toBeNull();
+    return data as FeedItem[];
+  };
+
+  it("lists announcements, open votes and played setlists for followed artists and venues, newest first", async () => {
+    const items = await feed();
+
+    expect(items.map(({ item_type, show_name, followed_via }) => ({ item_type, show_name, followed_via }))).toEqual([
+      { item_type: "setlist_played", show_name: "Artist last week", followed_via: "artist" },
+      { item_type: "voting_open", show_name: "Both next week", followed_via: "artist" },
+      { item_type: "show_announced", show_name: "Both next week", followed_via: "artist" },
+      { item_type: "show_announced", show_name: "Venue next month", followed_via: "venue" },
+      { item_type: "voting_open", show_name: "Artist last week", followed_via: "artist" },
+      { item_type: "show_announced", show_name: "Artist last week", followed_via: "artist" },
+    ]);
+  });
+
+  it("pages with the last item's time", async () => {
+    const firstPage = await feed({ p_limit: 2 });
+    const nextPage = await feed({ p_limit: 2, p_before: firstPage[1].occurred_at });
+
+    expect(nextPage.map(item => item.show_name)).toEqual(["Both next week", "Venue next month"]);
+  });
+
+  it("is only for signed-in users", async () => {
+    const { error } = await db.rpcClient("anon").rpc("get_follow_feed");
+
+    expect(error?.message).toContain("Sign in");
+  });
+});
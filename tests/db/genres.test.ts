@@ -0,0 +1,100 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+describe("genre taxonomy", () => {
+  let db: TestDatabase;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const createArtist = async (name: string, spotifyGenres: string[], popularity = 50) =>
+    (
+      await db.one<{ id: string }>(
+        `INSERT INTO artists (name, genres, popularity) VALUES ($1, $2, $3) RETURNING id`,
+        [name, spotifyGenres, popularity]
+      )
+    ).id;
+
+  const genresOf = async (artistId: string, source?: string) =>
+    (
+      await db.query<{ slug: string }>(
+        `SELECT DISTINCT g.slug FROM artist_genres ag JOIN genres g ON g.id = ag.genre_id
+         WHERE ag.artist_id = $1 AND ($2::TEXT IS NULL OR ag.source = $2)
+         ORDER BY g.slug`,
+        [artistId, source ?? null]
+      )
+    ).map(genre => genre.slug);
+
+  it("classifies Spotify genre strings by whole keywords", async () => {
+    const artistId = await createArtist("Mixed Bag", ["modern alt rock", "atl hip hop", "indietronica"]);
+
+    expect(await genresOf(artistId)).toEqual(["alternative", "hip-hop", "rock"]);
+  });
+
+  it("reclassifies when the Spotify genres change, keeping Ticketmaster's links", async () => {
+    const artistId = await createArtist("Changeling", ["uk grime"]);
+    await db.rpc("link_ticketmaster_genres", { p_artist_id: artistId, p_classification_ids: ["KnvZfZ7vAvE"] });
+
+    await db.query(`UPDATE artists SET genres = $2 WHERE id = $1`, [artistId, ["deep house"]]);
+
+    expect(await genresOf(artistId, "spotify")).toEqual(["electronic"]);
+    expect(await genresOf(artistId, "ticketmaster")).toEqual(["jazz"]);
+  });
+
+  it("links Ticketmaster classifications by ID and by name", async () => {
+    const artistId = await createArtist("Touring Act", []);
+
+    const linked = await db.rpc<number>("link_ticketmaster_genres", {
+      p_artist_id: artistId,
+      p_classification_ids: ["KnvZfZ7vAe6", "not-a-genre"],
+      p_classification_names: ["Alternative Rock"],
+    });
+
+    expect(linked).toBe(3);
+    expect(await genresOf(artistId)).toEqual(["alternative", "country", "rock"]);
+  });
+
+  it("serves a genre page by slug or Ticketmaster ID", async () => {
+    const headliner = await createArtist("Big Reggae", ["roots reggae"], 90);
+    const opener = await createArtist("Small Reggae", ["dancehall"], 20);
+
+    const show = (name: string, artistId: string, days: number) =>
+      db.query(`INSERT INTO shows (name, artist_id, date) VALUES ($1, $2, now() + make_interval(days => $3))`, [
+        name,
+        artistId,
+        days,
+      ]);
+    await show("Next month", headliner, 30);
+    await show("Next week", opener, 7);
+    await show("Last week", headliner, -7);
+
+    const { id: setlistId } = await db.one<{ id: string }>(
+      `INSERT INTO setlists (artist_id) VALUES ($1) RETURNING id`,
+      [headliner]
+    );
+    const { id: songId } = await db.one<{ id: string }>(
+      `INSERT INTO songs (name, artist_id) VALUES ('Anthem', $1) RETURNING id`,
+      [headliner]
+    );
+    await db.query(
+      `INSERT INTO setlist_songs (setlist_id, artist_id, song_id, name, position, vote_count) VALUES ($1, $2, $3, 'Anthem', 1, 4)`,
+      [setlistId, headliner, songId]
+    );
+
+    const shows = await db.rpc<{ show_name: string }[]>("get_genre_upcoming_shows", { p_genre: "reggae" });
+    expect(shows.map(row => row.show_name)).toEqual(["Next week", "Next month"]);
+
+    const artists = await db.rpc<{ name: string; upcoming_shows: number }[]>("get_genre_top_artists", {
+      p_genre: "KnvZfZ7vAeI",
+    });
+    expect(artists.map(row => row.name)).toEqual(["Big Reggae", "Small Reggae"]);
+    expect(Number(artists[0].upcoming_shows)).toBe(1);
+
+    const songs = await db.rpc<{ name: string; vote_count: number }[]>("get_genre_top_songs", { p_genre: "reggae" });
+    expect(songs.map(row => [row.name, Number(row.vote_count)])).toEqual([["Anthem", 4]]);
+  });
+});
@@ -0,0 +1,107 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+type Standing = { rank: number; username: string; reputation: number };
+
+describe("leaderboards", () => {
+  let db: TestDatabase;
+  let artistId: string;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+
+    ({ id: artistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`));
+    const { id: otherArtistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('Other Band') RETURNING id`);
+
+    const playedSetlist = async (artist: string, tourName: string | null) => {
+      const { id: showId } = await db.one<{ id: string }>(
+        `INSERT INTO shows (name, artist_id, date) VALUES ('Played Show', $1, now() - interval '1 day') RETURNING id`,
+        [artist]
+      );
+      const { id: setlistId } = await db.one<{ id: string }>(
+        `INSERT INTO setlists (artist_id, show_id, tour_name) VALUES ($1, $2, $3) RETURNING id`,
+        [artist, showId, tourName]
+      );
+      const songIds = (
+        await db.query<{ id: string }>(
+          `INSERT INTO setlist_songs (setlist_id, artist_id, name, position)
+           SELECT $1, $2, 'Song ' || n, n FROM generate_series(1, 6) AS n
+           ORDER BY n
+           RETURNING id`,
+          [setlistId, artist]
+        )
+      ).map(song => song.id);
+      return { showId, setlistId, songIds };
+    };
+
+    const tourNight = await playedSetlist(artistId, "World Tour");
+    const otherNight = await playedSetlist(otherArtistId, null);
+
+    const vote = (userId: string, songIds: string[], daysAgo: number) =>
+      db.query(
+        `INSERT INTO votes (song_id, user_id, created_at)
+         SELECT unnest($1::UUID[]), $2, now() - make_interval(days => $3)`,
+        [songIds, userId, daysAgo]
+      );
+
+    const predictor = async (username: string, points: number, accuracy: number) => {
+      const userId = await db.createUser({ username });
+      const { id: predictionId } = await db.one<{ id: string }>(
+        `INSERT INTO setlist_predictions (setlist_id, user_id) VALUES ($1, $2) RETURNING id`,
+        [tourNight.setlistId, userId]
+      );
+      await db.query(
+        `INSERT INTO prediction_scores (show_id, user_id, prediction_id, total_score, accuracy, scored_at)
+         VALUES ($1, $2, $3, $4, $5, now() - interval '1 day')`,
+        [tourNight.showId, userId, predictionId, points, accuracy]
+      );
+    };
+
+    await predictor("sharp", 20, 0.8);
+    await predictor("lucky", 20, 0.5);
+
+    const voter = await db.createUser({ username: "voter" });
+    await vote(voter, tourNight.songIds.slice(0, 3), 1);
+    await vote(voter, otherNight.songIds.slice(0, 2), 1);
+
+    const veteran = await db.createUser({ username: "veteran" });
+    await vote(veteran, tourNight.songIds, 30);
+
+    await db.rpc("refresh_all_materialized_views");
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const leaderboard = (args: Record<string, unknown>) =>
+    db
+      .rpc<Standing[]>("get_leaderboard", args)
+      .then(rows => rows.map(({ rank, username, reputation }) => ({ rank, username, reputation })));
+
+  it("ranks everyone by reputation, breaking ties on accuracy", async () => {
+    expect(await leaderboard({ p_scope: "global", p_period: "all_time" })).toEqual([
+      { rank: 1, username: "sharp", reputation: 20 },
+      { rank: 2, username: "lucky", reputation: 20 },
+      { rank: 3, username: "veteran", reputation: 6 },
+      { rank: 4, username: "voter", reputation: 5 },
+    ]);
+  });
+
+  it("only counts the last seven days on the weekly board", async () => {
+    const weekly = await leaderboard({ p_scope: "global", p_period: "weekly" });
+
+    expect(weekly.map(standing => standing.username)).toEqual(["sharp", "lucky", "voter"]);
+  });
+
+  it("narrows to an artist and to one of their tours", async () => {
+    const expected = [
+      { rank: 1, username: "sharp", reputation: 20 },
+      { rank: 2, username: "lucky", reputation: 20 },
+      { rank: 3, username: "veteran", reputation: 6 },
+      { rank: 4, username: "voter", reputation: 3 },
+    ];
+
+    expect(await leaderboard({ p_scope: "artist", p_artist_id: artistId })).toEqual(expected);
+    expect(await leaderboard({ p_scope: "tour", p_artist_id: artistId, p_tour_name: "World Tour" })).toEqual(expected);
+  });
+});
@@ -0,0 +1,10 @@
+import { migrationFiles, TestDatabase } from "../utils/testDatabase";
+
+describe("migrations", () => {
+  it("apply in order on top of the baseline schema", async () => {
+    expect(migrationFiles().length).toBeGreaterThan(0);
+
+    const db = await TestDatabase.create();
+    await db.close();
+  }, 60_000);
+});
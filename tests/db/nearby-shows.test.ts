@@ -0,0 +1,59 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+type NearbyShow = { show_name: string; distance_km: number };
+
+// Madison Square Garden
+const origin = { p_latitude: 40.7505, p_longitude: -73.9934 };
+
+describe("get_nearby_shows", () => {
+  let db: TestDatabase;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+
+    const { id: artistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`);
+    const venue = async (name: string, latitude: number, longitude: number) =>
+      (
+        await db.one<{ id: string }>(
+          `INSERT INTO venues (name, latitude, longitude) VALUES ($1, $2, $3) RETURNING id`,
+          [name, latitude, longitude]
+        )
+      ).id;
+
+    const garden = await venue("Madison Square Garden", 40.7505, -73.9934);
+    const brooklyn = await venue("Barclays Center", 40.6826, -73.9754);
+    const philadelphia = await venue("Wells Fargo Center", 39.9012, -75.172);
+
+    for (const [name, venueId, days] of [
+      ["Garden next month", garden, 30],
+      ["Brooklyn next week", brooklyn, 7],
+      ["Garden next week", garden, 7],
+      ["Garden last week", garden, -7],
+      ["Philadelphia tomorrow", philadelphia, 1]
+    ] as const) {
+      await db.query(
+        `INSERT INTO shows (name, artist_id, venue_id, date)
+         VALUES ($1, $2, $3, date_trunc('day', now()) + make_interval(days => $4, hours => 20))`,
+        [name, artistId, venueId, days]
+      );
+    }
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it("lists upcoming shows within the radius soonest first, nearest first on the same day", async () => {
+    const shows = await db.rpc<NearbyShow[]>("get_nearby_shows", { ...origin, p_radius_km: 50 });
+
+    expect(shows.map(show => show.show_name)).toEqual(["Garden next week", "Brooklyn next week", "Garden next month"]);
+    expect(shows[0].distance_km).toBeLessThan(shows[1].distance_km);
+  });
+
+  it("widens to shows further away with the radius", async () => {
+    const shows = await db.rpc<NearbyShow[]>("get_nearby_shows", { ...origin, p_radius_km: 200 });
+
+    expect(shows[0].show_name).toBe("Philadelphia tomorrow");
+    expect(shows).toHaveLength(4);
+  });
+});
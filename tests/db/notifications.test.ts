@@ -0,0 +1,91 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+describe("show notifications", () => {
+  let db: TestDatabase;
+  let artistId: string;
+  let followers: string[];
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+
+    ({ id: artistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`));
+    followers = [await db.createUser(), await db.createUser()];
+    for (const userId of followers) {
+      await db.query(`INSERT INTO user_follows (user_id, artist_id) VALUES ($1, $2)`, [userId, artistId]);
+    }
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const announceShow = async () =>
+    (
+      await db.one<{ id: string }>(
+        `INSERT INTO shows (name, artist_id, date) VALUES ('Test Show', $1, now() + interval '60 days') RETURNING id`,
+        [artistId]
+      )
+    ).id;
+
+  const notified = async (showId: string) =>
+    (
+      await db.query<{ user_id: string }>(
+        `SELECT user_id FROM notifications WHERE show_id = $1 AND type = 'show_announced' ORDER BY user_id`,
+        [showId]
+      )
+    ).map(row => row.user_id);
+
+  it("queues the fan-out instead of notifying inside the show insert", async () => {
+    const showId = await announceShow();
+
+    expect(await notified(showId)).toEqual([]);
+    const jobs = await db.query<{ type: string }>(
+      `SELECT type FROM notification_jobs WHERE show_id = $1 AND processed_at IS NULL`,
+      [showId]
+    );
+    expect(jobs.map(job => job.type)).toEqual(["show_announced"]);
+  });
+
+  it("notifies the audience when the queue is processed, once", async () => {
+    const showId = await announceShow();
+    await db.rpc("process_notification_jobs");
+
+    expect(await notified(showId)).toEqual([...followers].sort());
+
+    await db.query(`SELECT queue_show_notification($1, 'show_announced')`, [showId]);
+    await db.rpc("process_notification_jobs");
+    expect(await notified(showId)).toHaveLength(2);
+  });
+
+  it("records a failed job without blocking the rest", async () => {
+    const showId = await announceShow();
+    await db.query(`SELECT queue_show_notification($1, 'not_a_type')`, [showId]);
+
+    await db.rpc("process_notification_jobs");
+
+    const failed = await db.one<{ error: string | null; processed_at: string | null }>(
+      `SELECT error, processed_at FROM notification_jobs WHERE show_id = $1 AND type = 'not_a_type'`,
+      [showId]
+    );
+    expect(failed.error).toContain("Unknown notification type");
+    expect(failed.processed_at).not.toBe(null);
+    expect(await notified(showId)).toHaveLength(2);
+  });
+
+  it("keeps the fan-out functions away from browser roles", async () => {
+    const showId = await announceShow();
+
+    for (const role of ["anon", "authenticated"] as const) {
+      const client = db.rpcClient(role, followers[0]);
+
+      const notify = await client.rpc("notify_show", { p_show_id: showId, p_type: "show_announced" });
+      expect(notify.error?.message).toContain("permission denied");
+
+      const audience = await client.rpc("show_audience", { p_show_id: showId });
+      expect(audience.error?.message).toContain("permission denied");
+
+      const process = await client.rpc("process_notification_jobs");
+      expect(process.error?.message).toContain("permission denied");
+    }
+  });
+});
@@ -0,0 +1,126 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+type ScoreRow = {
+  songs_hit: number;
+  miss_penalty: number;
+  total_score: number;
+  accuracy: string;
+};
+
+describe("prediction scoring", () => {
+  let db: TestDatabase;
+  let showId: string;
+  let setlistId: string;
+  let songs: string[];
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+
+    const { id: artistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`);
+    songs = (
+      await db.query<{ id: string }>(
+        `INSERT INTO songs (name, artist_id)
+         SELECT 'Song ' || n, $1 FROM generate_series(1, 10) AS n
+         ORDER BY n
+         RETURNING id`,
+        [artistId]
+      )
+    ).map(song => song.id);
+
+    ({ id: showId } = await db.one<{ id: string }>(
+      `INSERT INTO shows (name, artist_id, date) VALUES ('Played Show', $1, now() - interval '2 days') RETURNING id`,
+      [artistId]
+    ));
+    ({ id: setlistId } = await db.one<{ id: string }>(
+      `INSERT INTO setlists (artist_id, show_id) VALUES ($1, $2) RETURNING id`,
+      [artistId, showId]
+    ));
+
+    // Songs 1-3 in the main set, song 4 as the encore
+    await db.query(
+      `INSERT INTO played_setlist_songs (setlist_id, song_id, artist_id, position, is_encore)
+       VALUES ($1, $3, $2, 1, false), ($1, $4, $2, 2, false), ($1, $5, $2, 3, false), ($1, $6, $2, 4, true)`,
+      [setlistId, artistId, songs[0], songs[1], songs[2], songs[3]]
+    );
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const predict = async (ballot: { song: number; slot: string }[]) => {
+    const userId = await db.createUser();
+    const { id } = await db.one<{ id: string }>(
+      `INSERT INTO setlist_predictions (setlist_id, user_id) VALUES ($1, $2) RETURNING id`,
+      [setlistId, userId]
+    );
+    for (const [index, entry] of ballot.entries()) {
+      await db.query(
+        `INSERT INTO setlist_prediction_songs (prediction_id, song_id, position, slot) VALUES ($1, $2, $3, $4)`,
+        [id, songs[entry.song], index + 1, entry.slot]
+      );
+    }
+    return userId;
+  };
+
+  const scoreFor = (userId: string) =>
+    db.one<ScoreRow>(
+      `SELECT songs_hit, miss_penalty, total_score, accuracy::text FROM prediction_scores WHERE show_id = $1 AND user_id = $2`,
+      [showId, userId]
+    );
+
+  let exact: string;
+  let padded: string;
+  let allMisses: string;
+
+  beforeAll(async () => {
+    exact = await predict([
+      { song: 0, slot: "opener" },
+      { song: 1, slot: "main" },
+      { song: 2, slot: "closer" },
+      { song: 3, slot: "encore" }
+    ]);
+    padded = await predict([
+      { song: 0, slot: "opener" },
+      { song: 1, slot: "main" },
+      { song: 2, slot: "main" },
+      { song: 3, slot: "main" },
+      ...[4, 5, 6, 7, 8, 9].map(song => ({ song, slot: "main" }))
+    ]);
+    allMisses = await predict([4, 5, 6, 7, 8].map(song => ({ song, slot: "main" })));
+
+    expect(await db.rpc("score_show_predictions", { p_show_id: showId })).toBe(3);
+  }, 60_000);
+
+  it("gives an exact prediction every point and full accuracy", async () => {
+    const score = await scoreFor(exact);
+
+    // 4 hits, 4 exact positions, opener, closer and encore bonuses
+    expect(score.total_score).toBe(40 + 20 + 10 + 10 + 5);
+    expect(score.miss_penalty).toBe(0);
+    expect(Number(score.accuracy)).toBe(1);
+  });
+
+  it("costs points and accuracy for every predicted song that was not played", async () => {
+    const score = await scoreFor(padded);
+
+    expect(score.songs_hit).toBe(4);
+    expect(score.miss_penalty).toBe(30);
+    expect(score.total_score).toBe(40 + 20 + 10 - 30);
+    expect(Number(score.accuracy)).toBeCloseTo(8 / 14, 4);
+    expect(score.total_score).toBeLessThan((await scoreFor(exact)).total_score);
+  });
+
+  it("never scores below zero", async () => {
+    const score = await scoreFor(allMisses);
+
+    expect(score.total_score).toBe(0);
+    expect(Number(score.accuracy)).toBe(0);
+  });
+
+  it("is not callable by browser roles", async () => {
+    const { error } = await db.rpcClient("authenticated", exact).rpc("score_show_predictions", { p_show_id: showId });
+
+    expect(error?.message).toContain("permission denied");
+  });
+});
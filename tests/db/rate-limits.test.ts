@@ -0,0 +1,132 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import { SharedRateLimiter } from "@/lib/sync/rate-limiter";
+import { TestDatabase } from "../utils/testDatabase";
+
+type TokenGrant = { granted: boolean; wait_ms: number; tokens_remaining: number | null };
+
+describe("provider rate limits", () => {
+  let db: TestDatabase;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const resetBucket = (provider: string) =>
+    db.query(
+      `UPDATE provider_rate_limits
+       SET tokens = capacity, refilled_at = now(), blocked_until = NULL, consecutive_throttles = 0
+       WHERE provider = $1`,
+      [provider]
+    );
+
+  const blockedForSeconds = async (provider: string) => {
+    const { seconds } = await db.one<{ seconds: number }>(
+      `SELECT extract(epoch FROM blocked_until - now())::float AS seconds FROM provider_rate_limits WHERE provider = $1`,
+      [provider]
+    );
+    return seconds;
+  };
+
+  it("only lets the service role take tokens or report throttles", async () => {
+    for (const role of ["anon", "authenticated"] as const) {
+      const client = db.rpcClient(role);
+
+      const acquire = await client.rpc("acquire_rate_limit_token", { p_provider: "ticketmaster" });
+      expect(acquire.error?.message).toContain("permission denied");
+
+      const report = await client.rpc("report_rate_limit_response", {
+        p_provider: "ticketmaster",
+        p_status: 429,
+        p_retry_after_seconds: 86400
+      });
+      expect(report.error?.message).toContain("permission denied");
+    }
+
+    const budgets = await db.rpcClient("anon").rpc("get_rate_limit_budgets");
+    expect(budgets.error).toBeNull();
+  });
+
+  it("grants tokens until the bucket is empty, then says how long to wait", async () => {
+    await resetBucket("setlistfm");
+
+    const grants = [];
+    for (let i = 0; i < 3; i++) {
+      const [grant] = await db.rpc<TokenGrant[]>("acquire_rate_limit_token", { p_provider: "setlistfm" });
+      grants.push(grant);
+    }
+
+    expect(grants.map(grant => grant.granted)).toEqual([true, true, false]);
+    expect(grants[2].wait_ms).toBeGreaterThan(0);
+    expect(grants[2].wait_ms).toBeLessThanOrEqual(500);
+  });
+
+  it("rejects token counts that are not positive or exceed the bucket", async () => {
+    await expect(db.rpc("acquire_rate_limit_token", { p_provider: "setlistfm", p_tokens: -100 })).rejects.toThrow(
+      "must be positive"
+    );
+    await expect(db.rpc("acquire_rate_limit_token", { p_provider: "setlistfm", p_tokens: 1000 })).rejects.toThrow(
+      "Cannot take"
+    );
+  });
+
+  it("caps Retry-After at five minutes", async () => {
+    await resetBucket("ticketmaster");
+    await db.rpc("report_rate_limit_response", {
+      p_provider: "ticketmaster",
+      p_status: 429,
+      p_retry_after_seconds: 86400
+    });
+
+    const seconds = await blockedForSeconds("ticketmaster");
+    expect(seconds).toBeGreaterThan(290);
+    expect(seconds).toBeLessThanOrEqual(300);
+  });
+
+  it("ignores a negative Retry-After", async () => {
+    await resetBucket("spotify");
+    await db.rpc("report_rate_limit_response", {
+      p_provider: "spotify",
+      p_status: 429,
+      p_retry_after_seconds: -86400
+    });
+
+    expect(await blockedForSeconds("spotify")).toBeGreaterThan(-1);
+    const [grant] = await db.rpc<TokenGrant[]>("acquire_rate_limit_token", { p_provider: "spotify" });
+    expect(grant.granted).toBe(false);
+  });
+
+  it("paces locally when it has no database client", async () => {
+    const limiter = new SharedRateLimiter({ client: null });
+
+    await limiter.acquire("ticketmaster", { max: 2, window: 1000 });
+    await limiter.acquire("ticketmaster", { max: 2, window: 1000 });
+    expect(await limiter.getBudgets()).toEqual([]);
+  });
+
+  it("draws from the shared bucket through the service role", async () => {
+    await resetBucket("setlistfm");
+    const limiter = new SharedRateLimiter({
+      client: db.rpcClient() as unknown as SupabaseClient<Database>
+    });
+
+    await limiter.acquire("setlistfm", { max: 2, window: 1000 });
+
+    const { requests_granted } = await db.one<{ requests_granted: string }>(
+      `SELECT requests_granted::text FROM provider_rate_limits WHERE provider = 'setlistfm'`
+    );
+    expect(Number(requests_granted)).toBeGreaterThan(0);
+  });
+
+  it("fails rather than pacing locally when the client lacks the service role", async () => {
+    const limiter = new SharedRateLimiter({
+      client: db.rpcClient("anon") as unknown as SupabaseClient<Database>
+    });
+
+    await expect(limiter.acquire("setlistfm", { max: 2, window: 1000 })).rejects.toThrow("permission denied");
+  });
+});
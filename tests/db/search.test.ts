@@ -0,0 +1,75 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+type SearchRow = { entity_type: string; name: string; subtitle: string | null; parent_id: string | null };
+
+describe("search_catalog", () => {
+  let db: TestDatabase;
+  let radioheadId: string;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+
+    const artist = async (name: string, popularity: number) =>
+      (
+        await db.one<{ id: string }>(`INSERT INTO artists (name, popularity) VALUES ($1, $2) RETURNING id`, [
+          name,
+          popularity,
+        ])
+      ).id;
+
+    radioheadId = await artist("Radiohead", 80);
+    await artist("Radio Moscow", 20);
+    await artist("Red Hot Chili Peppers", 85);
+
+    const { id: venueId } = await db.one<{ id: string }>(
+      `INSERT INTO venues (name, city, state) VALUES ('Radio City Music Hall', 'New York', 'NY') RETURNING id`
+    );
+    await db.query(`INSERT INTO venues (name, city, state) VALUES ('Red Rocks Amphitheatre', 'Morrison', 'CO')`);
+
+    await db.query(
+      `INSERT INTO shows (name, artist_id, venue_id, date) VALUES ('Radiohead Live', $1, $2, now() + interval '30 days')`,
+      [radioheadId, venueId]
+    );
+    await db.query(`INSERT INTO songs (name, artist_id) VALUES ('Paranoid Android', $1)`, [radioheadId]);
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const search = (p_query: string, args: { p_types?: string[]; p_limit?: number } = {}) =>
+    db.rpc<SearchRow[]>("search_catalog", { p_query, ...args });
+
+  it("ranks the intended artist first for a misspelled query", async () => {
+    const artists = (await search("Radoihead", { p_types: ["artist"] })).map(row => row.name);
+
+    expect(artists[0]).toBe("Radiohead");
+    expect(artists).not.toContain("Red Hot Chili Peppers");
+  });
+
+  it("matches prefixes across every entity type", async () => {
+    const results = await search("radio");
+    const types = new Set(results.map(row => row.entity_type));
+
+    expect([...types].sort()).toEqual(["artist", "show", "venue"]);
+    const show = results.find(row => row.entity_type === "show");
+    expect(show?.parent_id).toBe(radioheadId);
+    expect(show?.subtitle).toBe("Radiohead · Radio City Music Hall");
+  });
+
+  it("caps the results per type and narrows to the requested types", async () => {
+    const results = await search("radio", { p_limit: 1 });
+
+    expect(results.map(row => row.entity_type).sort()).toEqual(["artist", "show", "venue"]);
+    expect(results.find(row => row.entity_type === "artist")?.name).toBe("Radiohead");
+
+    const venues = await search("red", { p_types: ["venue"] });
+    expect(venues.map(row => [row.entity_type, row.name, row.subtitle])).toEqual([
+      ["venue", "Red Rocks Amphitheatre", "Morrison, CO"],
+    ]);
+  });
+
+  it("needs at least two characters", async () => {
+    expect(await search(" r ")).toEqual([]);
+  });
+});
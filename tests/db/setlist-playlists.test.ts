@@ -0,0 +1,108 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+describe("setlist playlist sync", () => {
+  let db: TestDatabase;
+  let artistId: string;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+    userId = await db.createUser();
+    ({ id: artistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`));
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const playedShow = async () => {
+    const { id: showId } = await db.one<{ id: string }>(
+      `INSERT INTO shows (name, artist_id, date) VALUES ('Played Show', $1, now() - interval '1 day') RETURNING id`,
+      [artistId]
+    );
+    const { id: setlistId } = await db.one<{ id: string }>(
+      `INSERT INTO setlists (artist_id, show_id) VALUES ($1, $2) RETURNING id`,
+      [artistId, showId]
+    );
+    return { showId, setlistId };
+  };
+
+  const postSetlist = (setlistId: string) =>
+    db.query(
+      `INSERT INTO played_setlist_songs (setlist_id, artist_id, name, position)
+       SELECT $1, $2, 'Song ' || n, n FROM generate_series(1, 3) AS n`,
+      [setlistId, artistId]
+    );
+
+  const playlistTasks = async (showId: string) =>
+    db.query<{ status: string }>(
+      `SELECT status FROM sync_tasks WHERE entity_type = 'show' AND external_id = $1 AND operation = 'sync_playlists'`,
+      [showId]
+    );
+
+  it("saves the signed-in user's Spotify connection", async () => {
+    const { error } = await db.rpcClient("authenticated", userId).rpc("save_spotify_connection", {
+      p_refresh_token: "refresh-1"
+    });
+    expect(error).toBeNull();
+
+    await db.rpcClient("authenticated", userId).rpc("save_spotify_connection", { p_refresh_token: "refresh-2" });
+
+    const connections = await db.query<{ refresh_token: string }>(
+      `SELECT refresh_token FROM spotify_connections WHERE user_id = $1`,
+      [userId]
+    );
+    expect(connections.map(connection => connection.refresh_token)).toEqual(["refresh-2"]);
+  });
+
+  it("queues one playlist sync when the setlist of an exported show is posted", async () => {
+    const { showId, setlistId } = await playedShow();
+    await db.query(
+      `INSERT INTO setlist_playlists (show_id, user_id, mode, spotify_playlist_id) VALUES ($1, $2, 'voted', 'voted-playlist')`,
+      [showId, userId]
+    );
+
+    await postSetlist(setlistId);
+
+    expect(await playlistTasks(showId)).toEqual([{ status: "pending" }]);
+  });
+
+  it("does not queue a sync for shows nobody exported", async () => {
+    const { showId, setlistId } = await playedShow();
+
+    await postSetlist(setlistId);
+
+    expect(await playlistTasks(showId)).toEqual([]);
+  });
+
+  it("lists connected owners with their playlists for the worker", async () => {
+    const { showId } = await playedShow();
+    const unconnected = await db.createUser();
+    await db.query(
+      `INSERT INTO setlist_playlists (show_id, user_id, mode, spotify_playlist_id)
+       VALUES ($1, $2, 'voted', 'voted-playlist'), ($1, $2, 'played', 'played-playlist'), ($1, $3, 'voted', 'other')`,
+      [showId, userId, unconnected]
+    );
+
+    const owners = await db.rpc<{ user_id: string; refresh_token: string; playlists: Record<string, { spotify_playlist_id: string }> }[]>(
+      "get_setlist_playlist_owners",
+      { p_show_id: showId }
+    );
+
+    expect(owners).toHaveLength(1);
+    expect(owners[0].user_id).toBe(userId);
+    expect(owners[0].refresh_token).toBe("refresh-2");
+    expect(owners[0].playlists.voted.spotify_playlist_id).toBe("voted-playlist");
+    expect(owners[0].playlists.played.spotify_playlist_id).toBe("played-playlist");
+  });
+
+  it("keeps refresh tokens away from browser roles", async () => {
+    const { error } = await db.rpcClient("authenticated", userId).rpc("get_setlist_playlist_owners", {
+      p_show_id: userId
+    });
+    expect(error?.message).toContain("permission denied");
+
+    const anon = await db.rpcClient("anon").rpc("save_spotify_connection", { p_refresh_token: "stolen" });
+    expect(anon.error?.message).toContain("permission denied");
+  });
+});
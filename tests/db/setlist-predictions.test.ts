@@ -0,0 +1,122 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+describe("setlist predictions", () => {
+  let db: TestDatabase;
+  let userId: string;
+  let setlistId: string;
+  let catalog: string[];
+  let otherArtistSong: string;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+    userId = await db.createUser();
+
+    const { id: artistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`);
+    const { id: otherArtistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('Someone Else') RETURNING id`);
+
+    catalog = (
+      await db.query<{ id: string }>(
+        `INSERT INTO songs (name, artist_id)
+         SELECT 'Song ' || n, $1 FROM generate_series(1, 5) AS n
+         RETURNING id`,
+        [artistId]
+      )
+    ).map(song => song.id);
+    ({ id: otherArtistSong } = await db.one<{ id: string }>(
+      `INSERT INTO songs (name, artist_id) VALUES ('Not Theirs', $1) RETURNING id`,
+      [otherArtistId]
+    ));
+
+    const { id: showId } = await db.one<{ id: string }>(
+      `INSERT INTO shows (name, artist_id, date) VALUES ('Test Show', $1, now() + interval '7 days') RETURNING id`,
+      [artistId]
+    );
+    ({ id: setlistId } = await db.one<{ id: string }>(
+      `INSERT INTO setlists (artist_id, show_id) VALUES ($1, $2) RETURNING id`,
+      [artistId, showId]
+    ));
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const submit = (songs: { song_id: string; slot: string }[]) =>
+    db.rpcClient("authenticated", userId).rpc("submit_setlist_prediction", {
+      p_setlist_id: setlistId,
+      p_songs: songs
+    });
+
+  const setlistSongIds = async () =>
+    (await db.query<{ song_id: string }>(`SELECT song_id FROM setlist_songs WHERE setlist_id = $1`, [setlistId])).map(
+      row => row.song_id
+    );
+
+  it("ranks a valid ballot and adds its songs to the setlist", async () => {
+    const { error } = await submit([
+      { song_id: catalog[0], slot: "opener" },
+      { song_id: catalog[1], slot: "main" },
+      { song_id: catalog[2], slot: "closer" },
+      { song_id: catalog[3], slot: "encore" }
+    ]);
+    expect(error).toBeNull();
+
+    const ranked = await db.query<{ song_id: string; consensus_rank: number; consensus_slot: string }>(
+      `SELECT song_id, consensus_rank, consensus_slot FROM setlist_songs
+       WHERE setlist_id = $1 AND consensus_rank IS NOT NULL
+       ORDER BY consensus_rank`,
+      [setlistId]
+    );
+    expect(ranked.map(row => row.song_id)).toEqual(catalog.slice(0, 4));
+    expect(ranked[0].consensus_slot).toBe("opener");
+  });
+
+  it("rejects songs outside the artist's catalog without touching the setlist", async () => {
+    const before = await setlistSongIds();
+    const { error } = await submit([
+      { song_id: catalog[0], slot: "opener" },
+      { song_id: otherArtistSong, slot: "main" }
+    ]);
+
+    expect(error?.message).toContain("artist's catalog");
+    expect(await setlistSongIds()).toEqual(before);
+    expect(before).not.toContain(otherArtistSong);
+  });
+
+  it("rejects a ballot with more than one opener or closer", async () => {
+    const openers = await submit([
+      { song_id: catalog[0], slot: "opener" },
+      { song_id: catalog[1], slot: "opener" }
+    ]);
+    expect(openers.error?.message).toContain("only one opener");
+
+    const closers = await submit([
+      { song_id: catalog[0], slot: "closer" },
+      { song_id: catalog[1], slot: "closer" }
+    ]);
+    expect(closers.error?.message).toContain("only one opener");
+  });
+
+  it("rejects a ballot that lists a song twice", async () => {
+    const { error } = await submit([
+      { song_id: catalog[0], slot: "opener" },
+      { song_id: catalog[1], slot: "main" },
+      { song_id: catalog[0], slot: "encore" }
+    ]);
+
+    expect(error?.message).toContain("each song only once");
+  });
+
+  it("caps the ballot size", async () => {
+    const { error } = await submit(Array.from({ length: 31 }, () => ({ song_id: catalog[0], slot: "main" })));
+
+    expect(error?.message).toContain("at most 30 songs");
+  });
+
+  it("keeps the consensus recompute away from browser roles", async () => {
+    for (const role of ["anon", "authenticated"] as const) {
+      const { error } = await db.rpcClient(role, userId).rpc("recompute_setlist_consensus", { p_setlist_id: setlistId });
+      expect(error?.message).toContain("permission denied");
+    }
+  });
+});
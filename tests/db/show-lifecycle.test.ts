@@ -0,0 +1,118 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+type CastVoteRow = { status: string; vote_count: number };
+
+describe("show lifecycle", () => {
+  let db: TestDatabase;
+  let artistId: string;
+  let userId: string;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+    userId = await db.createUser();
+
+    ({ id: artistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`));
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  // A show starting the given number of days from now, with one song to vote on
+  const showIn = async (days: number) => {
+    const { id: showId } = await db.one<{ id: string }>(
+      `INSERT INTO shows (name, artist_id, date) VALUES ('Test Show', $1, now() + make_interval(days => $2)) RETURNING id`,
+      [artistId, days]
+    );
+    const { id: setlistId } = await db.one<{ id: string }>(
+      `INSERT INTO setlists (artist_id, show_id) VALUES ($1, $2) RETURNING id`,
+      [artistId, showId]
+    );
+    const { id: songId } = await db.one<{ id: string }>(
+      `INSERT INTO setlist_songs (setlist_id, artist_id, name, position, vote_count) VALUES ($1, $2, 'Song 1', 1, 0) RETURNING id`,
+      [setlistId, artistId]
+    );
+    return { showId, setlistId, songId };
+  };
+
+  const stateOf = async (showId: string) =>
+    (await db.one<{ lifecycle_state: string }>(`SELECT lifecycle_state FROM shows WHERE id = $1`, [showId])).lifecycle_state;
+
+  const vote = async (songId: string, key: string) => {
+    const [row] = await db.rpc<CastVoteRow[]>("cast_vote", {
+      p_song_id: songId,
+      p_action: "increment",
+      p_idempotency_key: key,
+      p_user_id: userId
+    });
+    return row;
+  };
+
+  const predict = async (setlistId: string) => {
+    const { id: catalogSong } = await db.one<{ id: string }>(
+      `INSERT INTO songs (name, artist_id) VALUES ('Catalog Song', $1) RETURNING id`,
+      [artistId]
+    );
+    return db.rpcClient("authenticated", userId).rpc("submit_setlist_prediction", {
+      p_setlist_id: setlistId,
+      p_songs: [{ song_id: catalogSong, slot: "main" }]
+    });
+  };
+
+  it("only takes votes and predictions inside the voting window", async () => {
+    const open = await showIn(7);
+    const announced = await showIn(120);
+    const played = await showIn(-2);
+
+    expect([await stateOf(open.showId), await stateOf(announced.showId), await stateOf(played.showId)]).toEqual([
+      "voting_open",
+      "announced",
+      "played",
+    ]);
+
+    expect((await vote(open.songId, "window-open")).status).toBe("recorded");
+    expect((await predict(open.setlistId)).error).toBeNull();
+
+    for (const closed of [announced, played]) {
+      const result = await vote(closed.songId, `window-closed-${closed.showId}`);
+      expect(result.status).toBe("voting_closed");
+      expect(result.vote_count).toBe(0);
+
+      const { error } = await predict(closed.setlistId);
+      expect(error?.message).toContain("Voting is closed");
+    }
+  });
+
+  it("moves shows along as their window passes", async () => {
+    const { showId } = await showIn(7);
+    expect(await stateOf(showId)).toBe("voting_open");
+
+    // Doors opened an hour ago
+    await db.query(`UPDATE shows SET voting_locks_at = now() - interval '1 hour' WHERE id = $1`, [showId]);
+    expect(await db.rpc<number>("advance_show_lifecycles")).toBeGreaterThanOrEqual(1);
+    expect(await stateOf(showId)).toBe("locked");
+
+    await db.query(`UPDATE shows SET voting_locks_at = now() - interval '6 hours' WHERE id = $1`, [showId]);
+    await db.rpc("advance_show_lifecycles");
+    expect(await stateOf(showId)).toBe("played");
+
+    expect(await db.rpc<number>("advance_show_lifecycles")).toBe(0);
+  });
+
+  it("confirms a show once its played setlist arrives, but not before doors", async () => {
+    const played = await showIn(-1);
+    const upcoming = await showIn(7);
+
+    await db.query(
+      `INSERT INTO played_setlist_songs (setlist_id, artist_id, name, position)
+       VALUES ($1, $3, 'Song 1', 1), ($2, $3, 'Song 1', 1)`,
+      [played.setlistId, upcoming.setlistId, artistId]
+    );
+
+    expect(await stateOf(played.showId)).toBe("setlist_confirmed");
+    expect(await stateOf(upcoming.showId)).toBe("voting_open");
+
+    await db.rpc("advance_show_lifecycles");
+    expect(await stateOf(played.showId)).toBe("setlist_confirmed");
+  });
+});
@@ -0,0 +1,229 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import type { SyncManager } from "@/lib/sync/manager";
+import { SyncQueue } from "@/lib/sync/queue";
+import { TestDatabase } from "../utils/testDatabase";
+
+type SyncTaskRow = Database["public"]["Tables"]["sync_tasks"]["Row"];
+
+// Records what the queue asked it to do instead of syncing anything
+class RecordingSyncManager {
+  calls: string[] = [];
+  failing = new Set<string>();
+
+  private record(call: string) {
+    this.calls.push(call);
+    return !this.failing.has(call);
+  }
+
+  async createSingle(type: string, id: string) {
+    return this.record(`create ${type} ${id}`);
+  }
+
+  async refreshSingle(type: string, id: string) {
+    return this.record(`refresh ${type} ${id}`);
+  }
+
+  async expandRelations(type: string, id: string) {
+    return this.record(`expand_relations ${type} ${id}`);
+  }
+
+  async artistCascadeSync(id: string) {
+    return this.record(`cascade_sync artist ${id}`);
+  }
+
+  async venueCascadeSync(id: string) {
+    return this.record(`cascade_sync venue ${id}`);
+  }
+}
+
+describe("sync queue", () => {
+  let db: TestDatabase;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const enqueue = async (externalId: string, operation = "refresh", priority = 0, dependsOn: number[] = []) => {
+    const [task] = await db.rpc<SyncTaskRow[]>("enqueue_sync_task", {
+      p_entity_type: "artist",
+      p_external_id: externalId,
+      p_operation: operation,
+      p_priority: priority,
+      p_depends_on: dependsOn
+    });
+    return task;
+  };
+
+  const claim = async (operations: string[] | null = null) => {
+    const [task] = await db.rpc<SyncTaskRow[]>("claim_next_sync_item", {
+      p_worker_id: "worker-1",
+      p_lease_seconds: 60,
+      p_operations: operations
+    });
+    return task ?? null;
+  };
+
+  const task = (id: number) => db.one<SyncTaskRow>(`SELECT * FROM sync_tasks WHERE id = $1`, [id]);
+
+  it("is not callable by browser roles", async () => {
+    const { error } = await db.rpcClient("anon").rpc("enqueue_sync_task", {
+      p_entity_type: "artist",
+      p_external_id: "K-anon"
+    });
+
+    expect(error?.message).toContain("permission denied");
+  });
+
+  it("merges a re-enqueue into a pending task, keeping the higher priority", async () => {
+    const first = await enqueue("K-merge", "refresh", 1);
+    const second = await enqueue("K-merge", "refresh", 3);
+
+    expect(second.id).toBe(first.id);
+    expect(second.priority).toBe(3);
+    expect(second.rerun_requested).toBe(false);
+  });
+
+  it("runs a task that was re-enqueued while processing once more", async () => {
+    await db.query(`DELETE FROM sync_tasks`);
+    const queued = await enqueue("K-rerun");
+    const claimed = await claim();
+    expect(claimed.id).toBe(queued.id);
+
+    await enqueue("K-rerun");
+    expect(await db.rpc("complete_sync_item", { item_id: queued.id, p_worker_id: "worker-1" })).toBe(true);
+
+    const after = await task(queued.id);
+    expect(after.status).toBe("pending");
+    expect(after.attempts).toBe(0);
+    expect(after.rerun_requested).toBe(false);
+
+    await claim();
+    await db.rpc("complete_sync_item", { item_id: queued.id, p_worker_id: "worker-1" });
+    expect((await task(queued.id)).status).toBe("completed");
+  });
+
+  it("gives a failing task that was re-enqueued a fresh attempt budget", async () => {
+    await db.query(`DELETE FROM sync_tasks`);
+    const queued = await enqueue("K-rerun-fail");
+    await db.query(`UPDATE sync_tasks SET max_attempts = 1 WHERE id = $1`, [queued.id]);
+    await claim();
+    await enqueue("K-rerun-fail");
+
+    expect(await db.rpc("fail_sync_item", { item_id: queued.id, error_message: "boom", p_worker_id: "worker-1" })).toBe("pending");
+    expect((await task(queued.id)).attempts).toBe(0);
+  });
+
+  it("only claims the operations a worker asks for", async () => {
+    await db.query(`DELETE FROM sync_tasks`);
+    await enqueue("K-cascade", "cascade_sync", 3);
+    const refresh = await enqueue("K-plain", "refresh", 1);
+
+    const claimed = await claim(["create", "refresh"]);
+    expect(claimed.id).toBe(refresh.id);
+    expect(await claim(["create", "refresh"])).toBeNull();
+    expect((await claim())?.operation).toBe("cascade_sync");
+  });
+
+  it("does not requeue a dead letter whose work is live again", async () => {
+    await db.query(`DELETE FROM sync_tasks`);
+    const dead = await enqueue("K-dead");
+    await db.query(`UPDATE sync_tasks SET status = 'dead_letter' WHERE id = $1`, [dead.id]);
+    const live = await enqueue("K-dead");
+    expect(live.id).not.toBe(dead.id);
+
+    expect(await db.rpc("requeue_dead_letter_sync_item", { item_id: dead.id })).toBe(false);
+    expect((await task(dead.id)).status).toBe("dead_letter");
+
+    await db.query(`UPDATE sync_tasks SET status = 'completed' WHERE id = $1`, [live.id]);
+    expect(await db.rpc("requeue_dead_letter_sync_item", { item_id: dead.id })).toBe(true);
+    expect((await task(dead.id)).status).toBe("pending");
+  });
+
+  it("holds a task back until the tasks it depends on have completed", async () => {
+    await db.query(`DELETE FROM sync_tasks`);
+    const artist = await enqueue("K-artist", "refresh", 1);
+    const venue = await enqueue("K-venue", "refresh", 1);
+    const show = await enqueue("K-show", "refresh", 3, [artist.id, venue.id]);
+
+    const first = await claim();
+    expect(first.id).not.toBe(show.id);
+    await db.rpc("complete_sync_item", { item_id: first.id });
+
+    const second = await claim();
+    expect(second.id).not.toBe(show.id);
+    expect(await claim()).toBeNull();
+
+    await db.rpc("complete_sync_item", { item_id: second.id });
+    expect((await claim())?.id).toBe(show.id);
+  });
+
+  it("merges the dependencies of a re-enqueued task", async () => {
+    await db.query(`DELETE FROM sync_tasks`);
+    const artist = await enqueue("K-artist");
+    const venue = await enqueue("K-venue");
+    await enqueue("K-show", "refresh", 0, [artist.id]);
+    const show = await enqueue("K-show", "refresh", 0, [venue.id, artist.id]);
+
+    expect([...show.depends_on].sort()).toEqual([artist.id, venue.id].sort());
+  });
+
+  it("dead-letters everything downstream of a dead-lettered task", async () => {
+    await db.query(`DELETE FROM sync_tasks`);
+    const artist = await enqueue("K-artist", "refresh", 3);
+    const show = await enqueue("K-show", "refresh", 0, [artist.id]);
+    const setlist = await enqueue("K-setlist", "refresh", 0, [show.id]);
+    const other = await enqueue("K-other");
+    await db.query(`UPDATE sync_tasks SET max_attempts = 1 WHERE id = $1`, [artist.id]);
+
+    await claim();
+    expect(await db.rpc("fail_sync_item", { item_id: artist.id, error_message: "boom" })).toBe("dead_letter");
+
+    expect((await task(show.id)).status).toBe("dead_letter");
+    expect((await task(setlist.id)).status).toBe("dead_letter");
+    expect((await task(other.id)).status).toBe("pending");
+  });
+
+  it("drains every visible task, not just one batch", async () => {
+    await db.query(`DELETE FROM sync_tasks`);
+    const manager = new RecordingSyncManager();
+    const queue = new SyncQueue(manager as unknown as SyncManager, {
+      client: db.rpcClient() as unknown as SupabaseClient<Database>,
+      workerId: "worker-1"
+    });
+
+    for (let i = 0; i < 15; i++) {
+      await enqueue(`K-drain-${i}`, "create");
+    }
+    await enqueue("K-cascade", "cascade_sync", 3);
+
+    expect(await queue.processQueue()).toBe(16);
+    expect(manager.calls[0]).toBe("cascade_sync artist K-cascade");
+    expect(manager.calls).toHaveLength(16);
+
+    const [{ completed }] = await db.query<{ completed: number }>(
+      `SELECT count(*)::int AS completed FROM sync_tasks WHERE status = 'completed'`
+    );
+    expect(completed).toBe(16);
+  });
+
+  it("records a failed run so it is retried later", async () => {
+    await db.query(`DELETE FROM sync_tasks`);
+    const manager = new RecordingSyncManager();
+    manager.failing.add("expand_relations artist K-fail");
+    const queue = new SyncQueue(manager as unknown as SyncManager, {
+      client: db.rpcClient() as unknown as SupabaseClient<Database>
+    });
+    const queued = await enqueue("K-fail", "expand_relations");
+
+    expect(await queue.processQueue()).toBe(1);
+
+    const after = await task(queued.id);
+    expect(after.status).toBe("retrying");
+    expect(after.attempts).toBe(1);
+  });
+});
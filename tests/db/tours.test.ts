@@ -0,0 +1,103 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+type SongStats = {
+  name: string;
+  times_played: number;
+  play_rate: string;
+  opener_count: number;
+  closer_count: number;
+  encore_count: number;
+  rotation: string;
+};
+
+describe("tour analytics", () => {
+  let db: TestDatabase;
+  let tourId: string;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+
+    const { id: artistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`);
+    const catalog: Record<string, string> = {};
+    const songs = [["Anthem", 90], ["Ballad", 80], ["Closer", 70], ["Encore", 60], ["Deep Cut", 50], ["B-Side", 40], ["Demo", 30]] as const;
+    for (const [name, popularity] of songs) {
+      catalog[name] = (
+        await db.one<{ id: string }>(`INSERT INTO songs (name, artist_id, popularity) VALUES ($1, $2, $3) RETURNING id`, [
+          name,
+          artistId,
+          popularity,
+        ])
+      ).id;
+    }
+
+    // Three nights of the tour; "deep cut" was synced without a catalog match
+    const nights: [number, [string, boolean][]][] = [
+      [-30, [["Anthem", false], ["Ballad", false], ["Closer", false], ["Encore", true]]],
+      [-20, [["Anthem", false], ["Closer", false], ["Ballad", false], ["Encore", true]]],
+      [-10, [["Ballad", false], ["Anthem", false], ["Closer", false], ["deep cut", false], ["Encore", true]]],
+    ];
+    for (const [days, songs] of nights) {
+      const { id: showId } = await db.one<{ id: string }>(
+        `INSERT INTO shows (name, artist_id, date) VALUES ('Tour Night', $1, now() + make_interval(days => $2)) RETURNING id`,
+        [artistId, days]
+      );
+      const { id: setlistId, tour_id } = await db.one<{ id: string; tour_id: string }>(
+        `INSERT INTO setlists (artist_id, show_id, tour_name) VALUES ($1, $2, 'World Tour') RETURNING id, tour_id`,
+        [artistId, showId]
+      );
+      tourId = tour_id;
+
+      for (const [i, [name, isEncore]] of songs.entries()) {
+        await db.query(
+          `INSERT INTO played_setlist_songs (setlist_id, artist_id, song_id, name, position, is_encore)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [setlistId, artistId, catalog[name] ?? null, name, i + 1, isEncore]
+        );
+      }
+    }
+
+    await db.query(
+      `INSERT INTO shows (name, artist_id, date) VALUES ('World Tour: Encore Night', $1, now() + interval '20 days')`,
+      [artistId]
+    );
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it("summarises the nights played and still to come", async () => {
+    const [summary] = await db.rpc<{ nights_played: number; upcoming_shows: number; distinct_songs: number }[]>(
+      "get_tour_summary",
+      { p_tour_id: tourId }
+    );
+
+    expect([summary.nights_played, summary.upcoming_shows, summary.distinct_songs]).toEqual([3, 1, 5]);
+  });
+
+  it("counts how often each song is played, opens, closes and comes in the encore", async () => {
+    const stats = await db.rpc<SongStats[]>("get_tour_song_stats", { p_tour_id: tourId });
+    const byName = Object.fromEntries(stats.map(song => [song.name, song]));
+
+    expect(
+      ["Anthem", "Ballad", "Closer", "Encore", "deep cut"].map(name => {
+        const song = byName[name];
+        return [name, song.times_played, Number(song.play_rate), song.opener_count, song.closer_count, song.encore_count];
+      })
+    ).toEqual([
+      ["Anthem", 3, 1, 2, 0, 0],
+      ["Ballad", 3, 1, 1, 1, 0],
+      ["Closer", 3, 1, 0, 1, 0],
+      ["Encore", 3, 1, 0, 0, 3],
+      ["deep cut", 1, 0.33, 0, 1, 0],
+    ]);
+    expect(byName["Anthem"].rotation).toBe("staple");
+    expect(byName["deep cut"].rotation).toBe("rotation");
+  });
+
+  it("lists the catalog songs not yet played on the tour, matching unlinked songs by name", async () => {
+    const unplayed = await db.rpc<{ name: string }[]>("get_tour_unplayed_songs", { p_tour_id: tourId });
+
+    expect(unplayed.map(song => song.name)).toEqual(["B-Side", "Demo"]);
+  });
+});
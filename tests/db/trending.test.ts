@@ -0,0 +1,126 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+type Score = { unique_voters: number; page_views: number; score: number };
+
+describe("trending shows", () => {
+  let db: TestDatabase;
+  let artistId: string;
+  let busyShowId: string;
+  let quietShowId: string;
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+
+    ({ id: artistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`));
+    const upcomingShow = async (name: string) =>
+      (
+        await db.one<{ id: string }>(
+          `INSERT INTO shows (name, artist_id, date) VALUES ($1, $2, now() + interval '14 days') RETURNING id`,
+          [name, artistId]
+        )
+      ).id;
+    busyShowId = await upcomingShow("Busy Show");
+    quietShowId = await upcomingShow("Quiet Show");
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  const viewsOf = async (showId: string) =>
+    (
+      await db.one<{ views: number }>(
+        `SELECT COALESCE(SUM(views), 0)::INTEGER AS views FROM show_page_views WHERE show_id = $1`,
+        [showId]
+      )
+    ).views;
+
+  // The headers PostgREST passes on for each request
+  const fromIp = (ip: string) =>
+    db.query(`SELECT set_config('request.headers', $1, false)`, [JSON.stringify({ "x-forwarded-for": `${ip}, 10.0.0.1` })]);
+
+  it("counts one view per visitor per show per day", async () => {
+    const anon = db.rpcClient("anon");
+
+    await fromIp("203.0.113.1");
+    for (let i = 0; i < 5; i++) {
+      expect((await anon.rpc("record_show_view", { p_show_id: busyShowId })).error).toBeNull();
+    }
+    await fromIp("203.0.113.2");
+    await anon.rpc("record_show_view", { p_show_id: busyShowId });
+
+    const userId = await db.createUser();
+    await db.rpcClient("authenticated", userId).rpc("record_show_view", { p_show_id: busyShowId });
+    await db.rpcClient("authenticated", userId).rpc("record_show_view", { p_show_id: busyShowId });
+
+    expect(await viewsOf(busyShowId)).toBe(3);
+  });
+
+  it("counts two anonymous visitors as two viewers only when their own IPs reach it", async () => {
+    const { id: showId } = await db.one<{ id: string }>(
+      `INSERT INTO shows (name, artist_id, date) VALUES ('Shared Show', $1, now() + interval '14 days') RETURNING id`,
+      [artistId]
+    );
+    const anon = db.rpcClient("anon");
+
+    // Without the visitor's own request headers, as from a server render
+    await db.query(`SELECT set_config('request.headers', '{}', false)`);
+    await anon.rpc("record_show_view", { p_show_id: showId });
+    await anon.rpc("record_show_view", { p_show_id: showId });
+    expect(await viewsOf(showId)).toBe(1);
+
+    await fromIp("198.51.100.7");
+    await anon.rpc("record_show_view", { p_show_id: showId });
+    await fromIp("198.51.100.8");
+    await anon.rpc("record_show_view", { p_show_id: showId });
+    expect(await viewsOf(showId)).toBe(3);
+  });
+
+  it("stops counting a visitor who has viewed too many shows today", async () => {
+    const shows = await db.query<{ id: string }>(
+      `INSERT INTO shows (name, artist_id, date)
+       SELECT 'Crawled ' || n, $1, now() + interval '1 year' FROM generate_series(1, 200) AS n
+       RETURNING id`,
+      [artistId]
+    );
+    await db.query(`INSERT INTO show_page_viewers (show_id, viewer) SELECT unnest($1::UUID[]), 'ip:' || md5('203.0.113.3')`, [
+      shows.map(show => show.id),
+    ]);
+
+    await fromIp("203.0.113.3");
+    await db.rpcClient("anon").rpc("record_show_view", { p_show_id: quietShowId });
+
+    expect(await viewsOf(quietShowId)).toBe(0);
+  });
+
+  it("scores shows by votes, voters and views, anonymous voters included", async () => {
+    const { id: setlistId } = await db.one<{ id: string }>(
+      `INSERT INTO setlists (artist_id, show_id) VALUES ($1, $2) RETURNING id`,
+      [artistId, busyShowId]
+    );
+    const { id: songId } = await db.one<{ id: string }>(
+      `INSERT INTO setlist_songs (setlist_id, artist_id, name, position) VALUES ($1, $2, 'Song 1', 1) RETURNING id`,
+      [setlistId, artistId]
+    );
+    for (let i = 0; i < 2; i++) {
+      const { id: sessionId } = await db.one<{ id: string }>(`INSERT INTO anonymous_sessions DEFAULT VALUES RETURNING id`);
+      await db.query(`INSERT INTO votes (song_id, anonymous, anonymous_session_id) VALUES ($1, true, $2)`, [songId, sessionId]);
+    }
+    await db.query(`INSERT INTO votes (song_id, user_id) VALUES ($1, $2)`, [songId, await db.createUser()]);
+
+    const scored = await db.rpc<number>("refresh_trending_scores");
+    expect(scored).toBeGreaterThanOrEqual(2);
+
+    const score = (showId: string) =>
+      db.one<Score>(`SELECT unique_voters, page_views, score FROM show_trending_scores WHERE show_id = $1`, [showId]);
+    const busy = await score(busyShowId);
+    const quiet = await score(quietShowId);
+
+    expect(busy.unique_voters).toBe(3);
+    expect(busy.page_views).toBe(3);
+    expect(busy.score).toBeGreaterThan(quiet.score);
+
+    const [top] = await db.rpc<{ show_id: string }[]>("get_trending_shows", { p_limit: 1 });
+    expect(top.show_id).toBe(busyShowId);
+  });
+});
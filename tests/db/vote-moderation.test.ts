@@ -0,0 +1,103 @@
+import { TestDatabase } from "../utils/testDatabase";
+
+describe("vote moderation", () => {
+  let db: TestDatabase;
+  let songIds: string[];
+
+  beforeAll(async () => {
+    db = await TestDatabase.create();
+
+    const { id: artistId } = await db.one<{ id: string }>(`INSERT INTO artists (name) VALUES ('The Test Pattern') RETURNING id`);
+    const { id: showId } = await db.one<{ id: string }>(
+      `INSERT INTO shows (name, artist_id, date) VALUES ('Test Show', $1, now() + interval '7 days') RETURNING id`,
+      [artistId]
+    );
+    const { id: setlistId } = await db.one<{ id: string }>(
+      `INSERT INTO setlists (artist_id, show_id) VALUES ($1, $2) RETURNING id`,
+      [artistId, showId]
+    );
+    songIds = (
+      await db.query<{ id: string }>(
+        `INSERT INTO setlist_songs (setlist_id, artist_id, name, position)
+         SELECT $1, $2, 'Song ' || n, n FROM generate_series(1, 3) AS n
+         ORDER BY n
+         RETURNING id`,
+        [setlistId, artistId]
+      )
+    ).map(song => song.id);
+  }, 60_000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  // One anonymous voter per vote, a few seconds apart, behind the given hashes
+  const anonymousVotes = async (songId: string, voters: number, hashes: { ip?: string; device?: string }) => {
+    for (let i = 0; i < voters; i++) {
+      const { id: sessionId } = await db.one<{ id: string }>(`INSERT INTO anonymous_sessions DEFAULT VALUES RETURNING id`);
+      await db.query(
+        `INSERT INTO votes (song_id, anonymous, anonymous_session_id, ip_hash, device_hash, created_at)
+         VALUES ($1, true, $2, $3, $4, now() - make_interval(secs => $5))`,
+        [songId, sessionId, hashes.ip ?? null, hashes.device ?? null, i * 7]
+      );
+    }
+  };
+
+  const statuses = async (songId: string) =>
+    (
+      await db.query<{ moderation_status: string }>(`SELECT moderation_status FROM votes WHERE song_id = $1`, [songId])
+    ).map(vote => vote.moderation_status);
+
+  it("leaves a crowd behind one venue IP alone", async () => {
+    await anonymousVotes(songIds[0], 12, { ip: "venue-wifi" });
+
+    expect(await db.rpc("detect_recent_vote_anomalies")).toBe(0);
+    expect(await statuses(songIds[0])).not.toContain("quarantined");
+  });
+
+  it("quarantines a flood of voters behind one IP", async () => {
+    await anonymousVotes(songIds[1], 25, { ip: "botnet-exit" });
+
+    expect(await db.rpc("detect_recent_vote_anomalies")).toBe(25);
+    expect(await statuses(songIds[1])).toEqual(Array(25).fill("quarantined"));
+  });
+
+  it("quarantines many voters on one device", async () => {
+    await anonymousVotes(songIds[2], 5, { device: "one-phone" });
+
+    expect(await db.rpc("detect_recent_vote_anomalies")).toBe(5);
+    expect(await statuses(songIds[2])).not.toContain("counted");
+  });
+
+  it("only counts counted votes on the leaderboard", async () => {
+    const userId = await db.createUser();
+    await db.query(`INSERT INTO votes (song_id, user_id) VALUES ($1, $2), ($3, $2), ($4, $2)`, [
+      songIds[0],
+      userId,
+      songIds[1],
+      songIds[2],
+    ]);
+    await db.query(`UPDATE votes SET moderation_status = 'quarantined' WHERE user_id = $1 AND song_id = $2`, [
+      userId,
+      songIds[1],
+    ]);
+    await db.query(`UPDATE votes SET moderation_status = 'rejected' WHERE user_id = $1 AND song_id = $2`, [
+      userId,
+      songIds[2],
+    ]);
+
+    await db.rpc("refresh_all_materialized_views");
+
+    const { votes_cast } = await db.one<{ votes_cast: number }>(
+      `SELECT votes_cast FROM leaderboard_standings WHERE user_id = $1 AND period = 'all_time' AND scope = 'global'`,
+      [userId]
+    );
+    expect(votes_cast).toBe(1);
+  });
+
+  it("keeps the batch detector away from browser roles", async () => {
+    const { error } = await db.rpcClient("anon").rpc("detect_recent_vote_anomalies");
+
+    expect(error?.message).toContain("permission denied");
+  });
+});
@@ -0,0 +1,199 @@
+// tests/fakes/provider-server.js - recorded-fixture fake servers for upstream providers
+//
+// Serves Ticketmaster, Spotify and setlist.fm from JSON fixtures so the sync
+// pipeline can run end-to-end with no network. Each provider listens on its
+// own port; point the adapters at them with the *_BASE_URL env vars:
+//
+//   TICKETMASTER_BASE_URL=http://localhost:4101/discovery/v2/
+//   SPOTIFY_API_BASE_URL=http://localhost:4102/v1/
+//   SPOTIFY_ACCOUNTS_BASE_URL=http://localhost:4102/
+//   SETLISTFM_BASE_URL=http://localhost:4103/rest/1.0/
+//
+// (prefix with VITE_ for the browser/Next.js adapters in src/lib/sync/providers).
+//
+// Routes live in fixtures/<provider>/routes.json (override the directory with
+// FAKE_PROVIDERS_FIXTURES_DIR). Set FAKE_PROVIDERS_RECORD=1
+// (with real credentials in the environment) to proxy unmatched requests to
+// the real API and save the response as a new fixture.
+
+import { createServer } from 'http';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const FIXTURES_DIR = process.env.FAKE_PROVIDERS_FIXTURES_DIR
+  || join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+export const PROVIDERS = {
+  ticketmaster: {
+    port: 4101,
+    upstream: 'https://app.ticketmaster.com',
+    // Requests must carry an apikey query parameter, like the real API
+    authorize: (req, url) => url.searchParams.has('apikey'),
+  },
+  spotify: {
+    port: 4102,
+    upstream: 'https://api.spotify.com',
+    accountsUpstream: 'https://accounts.spotify.com',
+    authorize: (req, url) =>
+      url.pathname === '/api/token' || /^Bearer .+/.test(req.headers.authorization || ''),
+  },
+  setlistfm: {
+    port: 4103,
+    upstream: 'https://api.setlist.fm',
+    authorize: (req) => Boolean(req.headers['x-api-key']),
+  },
+};
+
+function loadRoutes(provider) {
+  const file = join(FIXTURES_DIR, provider, 'routes.json');
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : [];
+}
+
+function saveRoutes(provider, routes) {
+  writeFileSync(join(FIXTURES_DIR, provider, 'routes.json'), JSON.stringify(routes, null, 2) + '\n');
+}
+
+/**
+ * Find the fixture for a request
+ * A route matches when method and path are equal (a trailing ".json" is
+ * optional, as with Ticketmaster) and every query param it lists is present
+ * with the same value. The route with the most matching params wins.
+ */
+export function matchRoute(routes, method, url) {
+  const path = url.pathname.replace(/\.json$/, '');
+  let best = null;
+
+  for (const route of routes) {
+    if ((route.method || 'GET') !== method) continue;
+    if (route.path.replace(/\.json$/, '') !== path) continue;
+
+    const query = route.query || {};
+    const matches = Object.entries(query).every(([key, value]) => url.searchParams.get(key) === value);
+    if (!matches) continue;
+
+    if (!best || Object.keys(query).length > Object.keys(best.query || {}).length) {
+      best = route;
+    }
+  }
+
+  return best;
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+async function record(provider, config, req, url) {
+  const upstream = provider === 'spotify' && url.pathname === '/api/token'
+    ? config.accountsUpstream
+    : config.upstream;
+
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+
+  const response = await fetch(upstream + url.pathname + url.search, {
+    method: req.method,
+    headers: Object.fromEntries(
+      ['accept', 'authorization', 'content-type', 'x-api-key']
+        .filter(name => req.headers[name])
+        .map(name => [name, req.headers[name]]),
+    ),
+    body: chunks.length ? Buffer.concat(chunks) : undefined,
+  });
+  const text = await response.text();
+
+  const file = `${req.method.toLowerCase()}${url.pathname.replace(/[^a-zA-Z0-9]+/g, '_')}.json`;
+  // Never persist credentials in fixtures
+  const query = Object.fromEntries([...url.searchParams].filter(([key]) => key !== 'apikey'));
+  const origin = new URL(upstream).origin;
+  writeFileSync(join(FIXTURES_DIR, provider, file), text.split(origin).join('{{baseUrl}}'));
+
+  const routes = loadRoutes(provider);
+  routes.push({ method: req.method, path: url.pathname, query, status: response.status, file });
+  saveRoutes(provider, routes);
+  console.log(`[fake:${provider}] Recorded ${req.method} ${url.pathname} -> ${file}`);
+
+  return { status: response.status, body: text };
+}
+
+function createProviderServer(provider, config, options = {}) {
+  return createServer(async (req, res) => {
+    const port = req.socket.localPort;
+    const baseUrl = `http://localhost:${port}`;
+    const url = new URL(req.url, baseUrl);
+
+    try {
+      if (!config.authorize(req, url)) {
+        return send(res, 401, { error: { status: 401, message: 'Missing credentials' } });
+      }
+
+      const route = matchRoute(loadRoutes(provider), req.method, url);
+
+      if (!route) {
+        if (options.record) {
+          const recorded = await record(provider, config, req, url);
+          return send(res, recorded.status, recorded.body);
+        }
+        console.warn(`[fake:${provider}] No fixture for ${req.method} ${url.pathname}${url.search}`);
+        return send(res, 404, { error: { status: 404, message: `No fixture for ${url.pathname}` } });
+      }
+
+      const body = route.file
+        ? readFileSync(join(FIXTURES_DIR, provider, route.file), 'utf8')
+        : JSON.stringify(route.body ?? {});
+
+      // Pagination links in fixtures point back at this server
+      send(res, route.status || 200, body.split('{{baseUrl}}').join(baseUrl), route.headers);
+    } catch (error) {
+      console.error(`[fake:${provider}] Error handling ${req.url}:`, error);
+      send(res, 500, { error: { status: 500, message: error.message } });
+    }
+  });
+}
+
+/**
+ * Start every fake provider server
+ * Pass port 0 for any provider to get an ephemeral port (useful in tests).
+ * Resolves to { urls, close }.
+ */
+export async function startFakeProviders(options = {}) {
+  const servers = [];
+  /** @type {Record<string, string>} */
+  const urls = {};
+
+  for (const [provider, config] of Object.entries(PROVIDERS)) {
+    const server = createProviderServer(provider, config, options);
+    const port = options.ports?.[provider] ?? config.port;
+
+    await new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, 'localhost', resolve);
+    });
+
+    servers.push(server);
+    urls[provider] = `http://localhost:${server.address().port}`;
+  }
+
+  return {
+    urls,
+    close: () => Promise.all(servers.map(server => new Promise(resolve => server.close(resolve)))),
+  };
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const record = process.env.FAKE_PROVIDERS_RECORD === '1';
+
+  startFakeProviders({ record }).then(({ urls }) => {
+    console.log('Fake providers listening:');
+    console.log(`- TICKETMASTER_BASE_URL=${urls.ticketmaster}/discovery/v2/`);
+    console.log(`- SPOTIFY_API_BASE_URL=${urls.spotify}/v1/`);
+    console.log(`- SPOTIFY_ACCOUNTS_BASE_URL=${urls.spotify}/`);
+    console.log(`- SETLISTFM_BASE_URL=${urls.setlistfm}/rest/1.0/`);
+    if (record) console.log('Recording unmatched requests from the real APIs.');
+  }).catch(error => {
+    console.error('Failed to start fake providers:', error);
+    process.exit(1);
+  });
+}
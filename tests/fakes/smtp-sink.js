@@ -0,0 +1,168 @@
+// tests/fakes/smtp-sink.js - local SMTP server that accepts and keeps mail
+//
+// Point the email transport at it to see digests without sending real email:
+//
+//   EMAIL_TRANSPORT=smtp SMTP_HOST=localhost SMTP_PORT=2525
+//
+// Speaks enough SMTP for src/lib/notifications/smtp.ts: EHLO/HELO, AUTH PLAIN
+// (any credentials), MAIL, RCPT, DATA, RSET, NOOP and QUIT. Run it directly to
+// print each message as it arrives.
+
+import { createServer } from 'net';
+import { fileURLToPath } from 'url';
+
+export const SMTP_SINK_PORT = 2525;
+
+/**
+ * Decode the parts of a received message: headers plus the text and HTML
+ * bodies of a multipart/alternative message with base64 parts
+ */
+export function parseMessage(data) {
+  const [head, ...rest] = data.split('\r\n\r\n');
+  const headers = {};
+  for (const line of head.split('\r\n')) {
+    const index = line.indexOf(':');
+    if (index > 0) headers[line.slice(0, index).toLowerCase()] = line.slice(index + 1).trim();
+  }
+
+  const subject = (headers.subject || '').replace(/=\?UTF-8\?B\?([^?]+)\?=/gi,
+    (_, encoded) => Buffer.from(encoded, 'base64').toString('utf8'));
+
+  const boundary = (headers['content-type'] || '').match(/boundary="([^"]+)"/)?.[1];
+  const parts = {};
+  if (boundary) {
+    for (const part of rest.join('\r\n\r\n').split(`--${boundary}`)) {
+      const [partHead, ...partBody] = part.split('\r\n\r\n');
+      const type = partHead.match(/Content-Type: (text\/\w+)/i)?.[1];
+      if (type) {
+        parts[type] = Buffer.from(partBody.join('\r\n\r\n').replace(/\s+/g, ''), 'base64').toString('utf8');
+      }
+    }
+  }
+
+  return { headers, subject, text: parts['text/plain'], html: parts['text/html'] };
+}
+
+function handleConnection(socket, messages, onMessage) {
+  let buffer = '';
+  let envelope = { from: null, to: [] };
+  let auth = null;
+  let inData = false;
+  const reply = (line) => socket.write(`${line}\r\n`);
+
+  reply('220 theset-smtp-sink ESMTP ready');
+
+  socket.setEncoding('utf8');
+  socket.on('data', (chunk) => {
+    buffer += chunk;
+
+    while (buffer.length) {
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end < 0) return;
+
+        const data = buffer.slice(0, end).replace(/^\.\./gm, '.');
+        buffer = buffer.slice(end + 5);
+        inData = false;
+
+        const message = { ...envelope, auth, data, ...parseMessage(data) };
+        messages.push(message);
+        onMessage?.(message);
+        envelope = { from: null, to: [] };
+        reply('250 OK: queued');
+        continue;
+      }
+
+      const end = buffer.indexOf('\r\n');
+      if (end < 0) return;
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const verb = line.split(' ')[0].toUpperCase();
+
+      switch (verb) {
+        case 'EHLO':
+          reply('250-theset-smtp-sink');
+          reply('250 AUTH PLAIN');
+          break;
+        case 'HELO':
+          reply('250 theset-smtp-sink');
+          break;
+        case 'AUTH': {
+          const [, user, pass] = Buffer.from(line.split(' ')[2] || '', 'base64').toString('utf8').split('\0');
+          auth = { user, pass };
+          reply('235 Authentication successful');
+          break;
+        }
+        case 'MAIL':
+          envelope.from = line.match(/<([^>]*)>/)?.[1] ?? null;
+          reply('250 OK');
+          break;
+        case 'RCPT':
+          envelope.to.push(line.match(/<([^>]*)>/)?.[1]);
+          reply('250 OK');
+          break;
+        case 'DATA':
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'RSET':
+          envelope = { from: null, to: [] };
+          reply('250 OK');
+          break;
+        case 'NOOP':
+          reply('250 OK');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          return;
+        default:
+          reply('502 Command not implemented');
+      }
+    }
+  });
+}
+
+/**
+ * Start the sink. Pass port 0 for an ephemeral port (useful in tests).
+ * Resolves to { port, messages, close }; messages fills as mail arrives.
+ */
+export async function startSmtpSink(options = {}) {
+  const messages = [];
+  const sockets = new Set();
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    handleConnection(socket, messages, options.onMessage);
+  });
+
+  await new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? SMTP_SINK_PORT, 'localhost', resolve);
+  });
+
+  return {
+    port: server.address().port,
+    messages,
+    close: () => new Promise(resolve => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(resolve);
+    }),
+  };
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  startSmtpSink({
+    onMessage: (message) => {
+      console.log(`\n--- ${message.subject} ---`);
+      console.log(`From: ${message.from}  To: ${message.to.join(', ')}`);
+      console.log(message.text ?? message.data);
+    },
+  }).then(({ port }) => {
+    console.log(`SMTP sink listening on localhost:${port}`);
+    console.log(`- EMAIL_TRANSPORT=smtp SMTP_HOST=localhost SMTP_PORT=${port}`);
+  }).catch(error => {
+    console.error('Failed to start SMTP sink:', error);
+    process.exit(1);
+  });
+}
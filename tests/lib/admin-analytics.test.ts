@@ -0,0 +1,91 @@
+import {
+  dateRangeForDays,
+  dateRangeForPreset,
+  pivotByDay,
+  summarizeSyncHealth,
+  toCsv,
+  toFunnelSteps,
+  validateDateRange
+} from "@/lib/admin-analytics";
+
+const TODAY = new Date("2026-10-19T08:30:00Z");
+
+describe("date ranges", () => {
+  it("ends presets on today and counts today as a day", () => {
+    expect(dateRangeForDays(7, TODAY)).toEqual({ from: "2026-10-13", to: "2026-10-19" });
+    expect(dateRangeForPreset("30d", TODAY)).toEqual({ from: "2026-09-20", to: "2026-10-19" });
+  });
+
+  it("rejects reversed, incomplete and over-long ranges", () => {
+    expect(validateDateRange({ from: "2026-10-01", to: "2026-10-19" })).toBeNull();
+    expect(validateDateRange({ from: "2026-10-19", to: "2026-10-01" })).toBe("The start date must be before the end date");
+    expect(validateDateRange({ from: "", to: "2026-10-19" })).toBe("Pick a start and end date");
+    expect(validateDateRange({ from: "2024-01-01", to: "2026-10-19" })).toBe("Pick a range of a year or less");
+  });
+});
+
+describe("pivotByDay", () => {
+  it("gives each series a column ordered by total and fills gaps with zero", () => {
+    const { data, series } = pivotByDay(
+      [
+        { day: "2026-10-02", show_id: "a", show_name: "Show A", votes: 1 },
+        { day: "2026-10-01", show_id: "b", show_name: "Show B", votes: 5 },
+        { day: "2026-10-01", show_id: "a", show_name: "Show A", votes: 2 },
+      ],
+      row => ({ id: row.show_id, label: row.show_name }),
+      row => row.votes
+    );
+
+    expect(series).toEqual([{ key: "s0", label: "Show B" }, { key: "s1", label: "Show A" }]);
+    expect(data).toEqual([
+      { day: "2026-10-01", s0: 5, s1: 2 },
+      { day: "2026-10-02", s0: 0, s1: 1 },
+    ]);
+  });
+});
+
+describe("summarizeSyncHealth", () => {
+  it("counts failed and blocked jobs towards the failure rate", () => {
+    const summary = summarizeSyncHealth([
+      { day: "2026-10-01", succeeded: 6, failed: 1, blocked: 1 },
+      { day: "2026-10-02", succeeded: 2, failed: 0, blocked: 0 },
+    ]);
+
+    expect(summary.total).toBe(10);
+    expect(summary.failureRate).toBe(0.2);
+    expect(summarizeSyncHealth([]).failureRate).toBe(0);
+  });
+});
+
+describe("toFunnelSteps", () => {
+  it("orders steps and converts against the previous step", () => {
+    const steps = toFunnelSteps([
+      { step: "voted", step_order: 3, users: 5 },
+      { step: "visitors", step_order: 1, users: 200 },
+      { step: "signed_up", step_order: 2, users: 20 },
+      { step: "voted_again", step_order: 4, users: 0 },
+    ]);
+
+    expect(steps.map(step => step.label)).toEqual(["Visitors", "Signed up", "Voted", "Voted on 2+ shows"]);
+    expect(steps.map(step => step.conversion)).toEqual([null, 0.1, 0.25, 0]);
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes special characters and neutralizes formulas", () => {
+    const csv = toCsv([
+      { artist_name: "Crosby, Stills & Nash", votes: 3 },
+      { artist_name: "=HYPERLINK(\"x\")", votes: -1 },
+    ]);
+
+    expect(csv).toBe(
+      "artist_name,votes\r\n" +
+      "\"Crosby, Stills & Nash\",3\r\n" +
+      "\"'=HYPERLINK(\"\"x\"\")\",-1\r\n"
+    );
+  });
+
+  it("only writes the requested columns", () => {
+    expect(toCsv([{ step: "voted", users: 5, label: "Voted" }], ["step", "users"])).toBe("step,users\r\nvoted,5\r\n");
+  });
+});
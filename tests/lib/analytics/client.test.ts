@@ -0,0 +1,64 @@
+import { createAnalyticsClient } from "@/lib/analytics/client";
+import { AnalyticsBatch, AnalyticsSink } from "@/lib/analytics/types";
+
+const recordingSink = (name = "recording") => {
+  const batches: AnalyticsBatch[] = [];
+  const sink: AnalyticsSink = { name, send: batch => { batches.push(batch); } };
+  return { sink, batches };
+};
+
+const options = {
+  getSessionId: () => "tab-1",
+  getPath: () => "/shows",
+  now: () => new Date("2026-10-19T12:00:00Z"),
+  flushIntervalMs: 60000,
+};
+
+describe("createAnalyticsClient", () => {
+  it("sends a batch to every sink once it is full", async () => {
+    const first = recordingSink("first");
+    const second = recordingSink("second");
+    const client = createAnalyticsClient({ ...options, sinks: [first.sink, second.sink], maxBatchSize: 2 });
+
+    client.track({ name: "page_view", properties: {} });
+    expect(first.batches.length).toBe(0);
+
+    client.track({ name: "search_performed", properties: { query: "radiohead", result_count: 4 } });
+    await client.flush();
+
+    expect(first.batches.length).toBe(1);
+    expect(second.batches).toEqual(first.batches);
+    expect(first.batches[0].session_id).toBe("tab-1");
+    expect(first.batches[0].events[1]).toEqual({
+      name: "search_performed",
+      properties: { query: "radiohead", result_count: 4 },
+      occurred_at: "2026-10-19T12:00:00.000Z",
+      path: "/shows",
+    });
+  });
+
+  it("keeps sending to other sinks when one fails", async () => {
+    const working = recordingSink();
+    const failing: AnalyticsSink = { name: "failing", send: () => { throw new Error("offline"); } };
+    const client = createAnalyticsClient({ ...options, sinks: [failing, working.sink] });
+
+    client.track({ name: "page_view", properties: {} });
+    await client.flush();
+
+    expect(working.batches.length).toBe(1);
+  });
+
+  it("tracks nothing while disabled and drops the queue on clear", async () => {
+    const { sink, batches } = recordingSink();
+    let enabled = false;
+    const client = createAnalyticsClient({ ...options, sinks: [sink], isEnabled: () => enabled });
+
+    client.track({ name: "page_view", properties: {} });
+    enabled = true;
+    client.track({ name: "page_view", properties: {} });
+    client.clear();
+    await client.flush();
+
+    expect(batches.length).toBe(0);
+  });
+});
@@ -0,0 +1,67 @@
+import { MAX_BATCH_SIZE, parseAnalyticsBatch, parseAnalyticsEvent, toAnalyticsEventRow } from "@/lib/analytics/schema";
+
+const SHOW_ID = "0b6c1f3e-6a43-4a7e-9a59-2f9a3c1d8e11";
+const SONG_ID = "7d2e9c41-1b5a-4c6f-8e3d-5a4b3c2d1e0f";
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+describe("parseAnalyticsEvent", () => {
+  it("keeps only the known properties of a valid event", () => {
+    expect(parseAnalyticsEvent({
+      name: "share_clicked",
+      occurred_at: "2026-10-19T11:59:00Z",
+      path: "/shows/1",
+      properties: { show_id: SHOW_ID, channel: "twitter", extra: "dropped" },
+    }, NOW)).toEqual({
+      name: "share_clicked",
+      properties: { show_id: SHOW_ID, channel: "twitter" },
+      occurred_at: "2026-10-19T11:59:00.000Z",
+      path: "/shows/1",
+    });
+  });
+
+  it("rejects unknown events and malformed properties", () => {
+    expect(parseAnalyticsEvent({ name: "button_clicked", properties: {} }, NOW)).toBeNull();
+    expect(parseAnalyticsEvent({ name: "vote_cast", properties: { song_id: "not-a-uuid" } }, NOW)).toBeNull();
+    expect(parseAnalyticsEvent({ name: "search_performed", properties: { query: "  ", result_count: 3 } }, NOW)).toBeNull();
+    expect(parseAnalyticsEvent({ name: "playlist_exported", properties: { show_id: SHOW_ID, mode: "all" } }, NOW)).toBeNull();
+  });
+
+  it("clamps future timestamps to now and drops stale events", () => {
+    const future = parseAnalyticsEvent({ name: "page_view", occurred_at: "2027-01-01T00:00:00Z", properties: {} }, NOW);
+    expect(future?.occurred_at).toBe(NOW.toISOString());
+
+    expect(parseAnalyticsEvent({ name: "page_view", occurred_at: "2026-10-01T00:00:00Z", properties: {} }, NOW)).toBeNull();
+  });
+});
+
+describe("parseAnalyticsBatch", () => {
+  it("counts rejected events and keeps the rest", () => {
+    const batch = parseAnalyticsBatch({
+      session_id: "tab-1",
+      events: [
+        { name: "vote_cast", properties: { song_id: SONG_ID } },
+        { name: "vote_cast", properties: {} },
+      ],
+    }, NOW);
+
+    expect(batch?.sessionId).toBe("tab-1");
+    expect(batch?.events.length).toBe(1);
+    expect(batch?.rejected).toBe(1);
+  });
+
+  it("rejects batches without a session or over the size limit", () => {
+    expect(parseAnalyticsBatch({ events: [] }, NOW)).toBeNull();
+    expect(parseAnalyticsBatch({ session_id: "tab-1", events: new Array(MAX_BATCH_SIZE + 1).fill({}) }, NOW)).toBeNull();
+  });
+});
+
+describe("toAnalyticsEventRow", () => {
+  it("lifts the show out of the properties", () => {
+    const event = parseAnalyticsEvent({ name: "playlist_exported", properties: { show_id: SHOW_ID, mode: "voted" } }, NOW);
+    const row = toAnalyticsEventRow(event!, { sessionId: "tab-1", userId: null });
+
+    expect(row.show_id).toBe(SHOW_ID);
+    expect(row.session_id).toBe("tab-1");
+    expect(row.name).toBe("playlist_exported");
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  classifyMatch,
+  MAX_IMPORT_ROWS,
+  normalizeArtistName,
+  parseArtistImportCsv,
+  parseSpotifyId,
+  scoreCandidates,
+  summarizeImport,
+  toImportInput
+} from "@/lib/artist-import";
+
+const SPOTIFY_ARTIST = "0OdUWJ0sBjDrqHygGUXeCF";
+const SPOTIFY_PLAYLIST = "37i9dQZF1DXcBWIGoYBM5M";
+
+const candidate = (ticketmaster_id: string, name: string, upcoming_events = 0) => ({
+  ticketmaster_id,
+  name,
+  image_url: null,
+  upcoming_events
+});
+
+describe("parseSpotifyId", () => {
+  it("accepts bare IDs, URIs and open.spotify.com links of the right kind", () => {
+    expect(parseSpotifyId("artist", SPOTIFY_ARTIST)).toBe(SPOTIFY_ARTIST);
+    expect(parseSpotifyId("artist", `spotify:artist:${SPOTIFY_ARTIST}`)).toBe(SPOTIFY_ARTIST);
+    expect(parseSpotifyId("artist", `https://open.spotify.com/artist/${SPOTIFY_ARTIST}?si=abc`)).toBe(SPOTIFY_ARTIST);
+    expect(parseSpotifyId("playlist", ` https://open.spotify.com/intl-de/playlist/${SPOTIFY_PLAYLIST} `)).toBe(SPOTIFY_PLAYLIST);
+  });
+
+  it("rejects links to other kinds and other sites", () => {
+    expect(parseSpotifyId("playlist", `https://open.spotify.com/artist/${SPOTIFY_ARTIST}`)).toBeNull();
+    expect(parseSpotifyId("playlist", `https://example.com/playlist/${SPOTIFY_PLAYLIST}`)).toBeNull();
+    expect(parseSpotifyId("artist", "not an id")).toBeNull();
+  });
+});
+
+describe("parseArtistImportCsv", () => {
+  it("reads a header row with aliased columns and quoted fields", () => {
+    const csv = [
+      "Artist,TM ID,Spotify URL",
+      `"Earth, Wind & Fire",K8vZ9171oZ7,`,
+      `"The ""Band""",,https://open.spotify.com/artist/${SPOTIFY_ARTIST}`,
+      ""
+    ].join("\r\n");
+
+    expect(parseArtistImportCsv(csv)).toEqual({
+      rows: [
+        { name: "Earth, Wind & Fire", ticketmaster_id: "K8vZ9171oZ7", spotify_id: null },
+        { name: "The \"Band\"", ticketmaster_id: null, spotify_id: SPOTIFY_ARTIST }
+      ],
+      errors: [],
+      duplicates: 0
+    });
+  });
+
+  it("treats every line as a name without a header and drops duplicates", () => {
+    const { rows, duplicates } = parseArtistImportCsv("Phoenix\nThe Beatles\n\nphoenix\nBeatles\n");
+
+    expect(rows).toEqual([
+      { name: "Phoenix", ticketmaster_id: null, spotify_id: null },
+      { name: "The Beatles", ticketmaster_id: null, spotify_id: null }
+    ]);
+    expect(duplicates).toBe(2);
+  });
+
+  it("reports malformed IDs by line and skips those rows", () => {
+    const { rows, errors } = parseArtistImportCsv("name,ticketmaster_id,spotify_id\nPhoenix,not-an-id,\nMuse,,nope\nBlur,,\n");
+
+    expect(rows).toEqual([{ name: "Blur", ticketmaster_id: null, spotify_id: null }]);
+    expect(errors).toEqual([
+      "Line 2: \"not-an-id\" is not a Ticketmaster attraction ID",
+      "Line 3: \"nope\" is not a Spotify artist ID or link"
+    ]);
+  });
+
+  it("cuts off imports past the row limit", () => {
+    const csv = Array.from({ length: MAX_IMPORT_ROWS + 5 }, (_, i) => `Artist ${i}`).join("\n");
+    const { rows, errors } = parseArtistImportCsv(csv);
+
+    expect(rows.length).toBe(MAX_IMPORT_ROWS);
+    expect(errors).toEqual([`Only the first ${MAX_IMPORT_ROWS} of ${MAX_IMPORT_ROWS + 5} artists will be imported`]);
+  });
+});
+
+describe("toImportInput", () => {
+  it("trims rows and rejects empty rows or malformed IDs", () => {
+    expect(toImportInput({ name: "  Muse ", ticketmaster_id: "", spotify_id: SPOTIFY_ARTIST })).toEqual({
+      name: "Muse",
+      ticketmaster_id: null,
+      spotify_id: SPOTIFY_ARTIST
+    });
+    expect(toImportInput({ name: " " })).toBeNull();
+    expect(toImportInput({ name: "Muse", spotify_id: "https://open.spotify.com/artist/x" })).toBeNull();
+    expect(toImportInput("Muse")).toBeNull();
+  });
+});
+
+describe("match scoring", () => {
+  it("normalizes accents, punctuation and a leading article", () => {
+    expect(normalizeArtistName("The Beyoncé & Friends!")).toBe("beyonce and friends");
+  });
+
+  it("matches a single clear candidate", () => {
+    const candidates = scoreCandidates(
+      { name: "The National", ticketmaster_id: null, spotify_id: null },
+      [candidate("K2", "National Park"), candidate("K1", "National")]
+    );
+
+    expect(candidates.map(c => c.ticketmaster_id)).toEqual(["K1", "K2"]);
+    expect(classifyMatch(candidates).status).toBe("matched");
+    expect(classifyMatch(candidates).best?.confidence).toBe(1);
+  });
+
+  it("is certain of the row's own Ticketmaster ID", () => {
+    const candidates = scoreCandidates(
+      { name: "Prince", ticketmaster_id: "K9", spotify_id: null },
+      [candidate("K9", "Prince and the Revolution")]
+    );
+
+    expect(candidates[0].confidence).toBe(1);
+    expect(classifyMatch(candidates).status).toBe("matched");
+  });
+
+  it("sends same-named artists to review, busiest first", () => {
+    const candidates = scoreCandidates(
+      { name: "Phoenix", ticketmaster_id: null, spotify_id: null },
+      [candidate("K1", "Phoenix", 2), candidate("K2", "Phoenix", 14)]
+    );
+    const { status, best } = classifyMatch(candidates);
+
+    expect(status).toBe("review");
+    expect(best?.ticketmaster_id).toBe("K2");
+  });
+
+  it("leaves rows without a candidate unmatched", () => {
+    expect(classifyMatch([])).toEqual({ status: "unmatched", best: null });
+  });
+});
+
+describe("summarizeImport", () => {
+  it("counts outcomes and how much of the queue has finished", () => {
+    const summary = summarizeImport(
+      ["imported", "imported", "failed", "syncing", "queued", "skipped", "unmatched"].map(outcome => ({ outcome }))
+    );
+
+    expect(summary.total).toBe(7);
+    expect(summary.queued).toBe(5);
+    expect(summary.finished).toBe(3);
+    expect(summary.counts.imported).toBe(2);
+    expect(summary.counts.skipped).toBe(1);
+  });
+});
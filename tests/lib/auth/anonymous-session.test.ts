@@ -0,0 +1,46 @@
+import {
+  createAnonymousToken,
+  hashClientDevice,
+  hashClientIp,
+  verifyAnonymousToken,
+} from "@/lib/auth/anonymous-session";
+
+describe("anonymous voting session cookie", () => {
+  const sessionId = "5f0c7a3e-9d1b-4c55-8f0e-2a6b1d3c4e5f";
+
+  beforeAll(() => {
+    process.env.ANONYMOUS_SESSION_SECRET = "test-secret";
+  });
+
+  it("round-trips a signed session id", () => {
+    const token = createAnonymousToken(sessionId);
+    expect(verifyAnonymousToken(token)).toBe(sessionId);
+  });
+
+  it("rejects tampered or unsigned tokens", () => {
+    const token = createAnonymousToken(sessionId);
+    const forged = token.replace(sessionId, "00000000-0000-0000-0000-000000000000");
+
+    expect(verifyAnonymousToken(forged)).toBeNull();
+    expect(verifyAnonymousToken(sessionId)).toBeNull();
+    expect(verifyAnonymousToken(`${sessionId}.not-a-signature`)).toBeNull();
+    expect(verifyAnonymousToken(undefined)).toBeNull();
+  });
+
+  it("hashes client IPs without keeping the address", () => {
+    const hash = hashClientIp("203.0.113.7");
+
+    expect(hash).toBe(hashClientIp("203.0.113.7"));
+    expect(hash).not.toContain("203.0.113.7");
+    expect(hashClientIp(null)).toBeNull();
+  });
+
+  it("fingerprints devices by user agent and language", () => {
+    const userAgent = "Mozilla/5.0 (X11; Linux x86_64)";
+    const hash = hashClientDevice(userAgent, "en-US");
+
+    expect(hash).toBe(hashClientDevice(userAgent, "en-US"));
+    expect(hash).not.toBe(hashClientDevice(userAgent, "de-DE"));
+    expect(hashClientDevice(null, "en-US")).toBeNull();
+  });
+});
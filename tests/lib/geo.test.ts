@@ -0,0 +1,50 @@
+import {
+  DEFAULT_NEARBY_LIMIT,
+  DEFAULT_NEARBY_RADIUS_KM,
+  MAX_NEARBY_LIMIT,
+  parseNearbyQuery,
+  parseVenueCoordinates,
+} from "@/lib/geo";
+
+describe("parseVenueCoordinates", () => {
+  it("parses Ticketmaster string coordinates", () => {
+    expect(parseVenueCoordinates({ latitude: "40.7505", longitude: "-73.9934" })).toEqual({
+      latitude: 40.7505,
+      longitude: -73.9934,
+    });
+    expect(parseVenueCoordinates({ latitude: 51.5, longitude: 0 })).toEqual({ latitude: 51.5, longitude: 0 });
+  });
+
+  it("rejects missing, malformed, out of range and 0,0 locations", () => {
+    expect(parseVenueCoordinates(null)).toBeNull();
+    expect(parseVenueCoordinates({ latitude: "40.7" })).toBeNull();
+    expect(parseVenueCoordinates({ latitude: "", longitude: "" })).toBeNull();
+    expect(parseVenueCoordinates({ latitude: "north", longitude: "-73.9" })).toBeNull();
+    expect(parseVenueCoordinates({ latitude: "91", longitude: "10" })).toBeNull();
+    expect(parseVenueCoordinates({ latitude: "10", longitude: "-181" })).toBeNull();
+    expect(parseVenueCoordinates({ latitude: "0", longitude: "0" })).toBeNull();
+  });
+});
+
+describe("parseNearbyQuery", () => {
+  it("applies the default radius and limit", () => {
+    expect(parseNearbyQuery(new URLSearchParams("lat=40.75&lng=-73.99"))).toEqual({
+      latitude: 40.75,
+      longitude: -73.99,
+      radiusKm: DEFAULT_NEARBY_RADIUS_KM,
+      limit: DEFAULT_NEARBY_LIMIT,
+    });
+  });
+
+  it("caps the limit", () => {
+    const query = parseNearbyQuery(new URLSearchParams("lat=40.75&lng=-73.99&radius=25&limit=1000"));
+    expect(query).toMatchObject({ radiusKm: 25, limit: MAX_NEARBY_LIMIT });
+  });
+
+  it("rejects bad coordinates and radii", () => {
+    expect(parseNearbyQuery(new URLSearchParams("lat=abc&lng=-73.99"))).toHaveProperty("error");
+    expect(parseNearbyQuery(new URLSearchParams("lng=-73.99"))).toHaveProperty("error");
+    expect(parseNearbyQuery(new URLSearchParams("lat=40.75&lng=-73.99&radius=0"))).toHaveProperty("error");
+    expect(parseNearbyQuery(new URLSearchParams("lat=40.75&lng=-73.99&radius=5000"))).toHaveProperty("error");
+  });
+});
@@ -0,0 +1,68 @@
+import { groupDigestNotifications, renderDigest } from "@/lib/notifications/digest";
+import { DigestNotification } from "@/lib/notifications/types";
+
+const notifications: DigestNotification[] = [
+  {
+    id: "n3",
+    type: "setlist_posted",
+    title: "The setlist for Radiohead at Madison Square Garden is up",
+    body: "See what was played",
+    link: "/shows/show-2",
+    created_at: "2026-05-03T10:00:00Z",
+  },
+  {
+    id: "n2",
+    type: "show_announced",
+    title: "Radiohead announced a show",
+    body: "The O2, London · Jun 12, 2026",
+    link: "/shows/show-3",
+    created_at: "2026-05-02T10:00:00Z",
+  },
+  {
+    id: "n1",
+    type: "show_announced",
+    title: "Phoebe Bridgers & <Friends> announced a show",
+    body: null,
+    link: "/shows/show-1",
+    created_at: "2026-05-01T10:00:00Z",
+  },
+];
+
+describe("groupDigestNotifications", () => {
+  it("groups by type in section order, oldest first", () => {
+    const sections = groupDigestNotifications(notifications);
+
+    expect(sections.map(section => section.type)).toEqual(["show_announced", "setlist_posted"]);
+    expect(sections[0].notifications.map(notification => notification.id)).toEqual(["n1", "n2"]);
+  });
+});
+
+describe("renderDigest", () => {
+  const message = renderDigest("fan@example.com", notifications, {
+    siteUrl: "https://theset.live",
+    frequency: "daily",
+  });
+
+  it("addresses the digest and counts the updates", () => {
+    expect(message.to).toBe("fan@example.com");
+    expect(message.subject).toBe("Your daily TheSet digest: 3 updates");
+  });
+
+  it("renders plain text with absolute links", () => {
+    expect(message.text).toContain("NEW SHOWS\n- Phoebe Bridgers & <Friends> announced a show\n  https://theset.live/shows/show-1");
+    expect(message.text).toContain("SETLISTS POSTED");
+    expect(message.text).toContain("https://theset.live/profile");
+  });
+
+  it("escapes HTML", () => {
+    expect(message.html).toContain(
+      '<a href="https://theset.live/shows/show-1">Phoebe Bridgers &amp; &lt;Friends&gt; announced a show</a>'
+    );
+    expect(message.html).not.toContain("<Friends>");
+  });
+
+  it("uses the singular for a single update", () => {
+    expect(renderDigest("fan@example.com", notifications.slice(0, 1), { siteUrl: "https://theset.live" }).subject)
+      .toBe("Your weekly TheSet digest: 1 update");
+  });
+});
@@ -0,0 +1,74 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import { sendNotificationDigests } from "@/lib/notifications/send-digests";
+import type { EmailMessage, EmailTransport } from "@/lib/notifications/types";
+
+const digest = (userId: string) => ({
+  user_id: userId,
+  email: `${userId}@example.com`,
+  frequency: "daily",
+  notifications: [
+    {
+      id: `${userId}-1`,
+      type: "show_announced",
+      title: "Radiohead announced a show",
+      body: null,
+      link: "/show/1",
+      created_at: "2026-10-01T12:00:00Z",
+    },
+  ],
+});
+
+// Just enough of the Supabase client for sendNotificationDigests
+function fakeClient(failMarkFor: string[] = []) {
+  const marked: string[] = [];
+  const client = {
+    rpc: async (fn: string, args: Record<string, unknown>) => {
+      if (fn === "get_due_notification_digests") {
+        return { data: [digest("fan"), digest("other")], error: null };
+      }
+      const userId = args.p_user_id as string;
+      if (failMarkFor.includes(userId)) {
+        return { data: null, error: { message: "connection reset" } };
+      }
+      marked.push(userId);
+      return { data: 1, error: null };
+    },
+  };
+  return { client: client as unknown as SupabaseClient<Database>, marked };
+}
+
+function recordingTransport(): EmailTransport & { sent: EmailMessage[] } {
+  const sent: EmailMessage[] = [];
+  return {
+    name: "recording",
+    sent,
+    send: async (message: EmailMessage) => {
+      sent.push(message);
+    },
+  };
+}
+
+describe("sendNotificationDigests", () => {
+  it("emails each due digest and marks it sent", async () => {
+    const { client, marked } = fakeClient();
+    const transport = recordingTransport();
+
+    const result = await sendNotificationDigests(client, transport, { siteUrl: "https://theset.live" });
+
+    expect(result).toEqual({ sent: 2, failed: 0, unmarked: [] });
+    expect(transport.sent.map(message => message.to)).toEqual(["fan@example.com", "other@example.com"]);
+    expect(marked).toEqual(["fan", "other"]);
+  });
+
+  it("counts a digest it could not mark sent as failed", async () => {
+    const { client, marked } = fakeClient(["fan"]);
+    const transport = recordingTransport();
+
+    const result = await sendNotificationDigests(client, transport, { siteUrl: "https://theset.live" });
+
+    expect(result).toEqual({ sent: 1, failed: 1, unmarked: ["fan"] });
+    expect(transport.sent).toHaveLength(2);
+    expect(marked).toEqual(["other"]);
+  });
+});
@@ -0,0 +1,66 @@
+import { createSmtpTransport, createTransportFromEnv } from "@/lib/notifications/transport";
+import { SmtpError } from "@/lib/notifications/smtp";
+import { startSmtpSink } from "../../fakes/smtp-sink.js";
+
+const message = {
+  to: "Fan <fan@example.com>",
+  subject: "Your weekly TheSet digest: 2 updates — ✓",
+  text: "NEW SHOWS\n- Radiohead announced a show\n.leading dot",
+  html: "<p>Radiohead announced a show</p>",
+};
+
+describe("SMTP transport against the local SMTP sink", () => {
+  let sink: Awaited<ReturnType<typeof startSmtpSink>>;
+
+  beforeAll(async () => {
+    sink = await startSmtpSink({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await sink.close();
+  });
+
+  it("delivers a multipart message", async () => {
+    const transport = createSmtpTransport({
+      host: "localhost",
+      port: sink.port,
+      from: "TheSet <notifications@theset.live>",
+      auth: { user: "digest", pass: "secret" },
+    });
+
+    await transport.send(message);
+
+    expect(sink.messages.length).toBe(1);
+    const [received] = sink.messages;
+    expect(received.from).toBe("notifications@theset.live");
+    expect(received.to).toEqual(["fan@example.com"]);
+    expect(received.auth).toEqual({ user: "digest", pass: "secret" });
+    expect(received.subject).toBe(message.subject);
+    expect(received.text).toBe(message.text);
+    expect(received.html).toBe(message.html);
+  });
+
+  it("reports connection failures", async () => {
+    const closed = await startSmtpSink({ port: 0 });
+    await closed.close();
+
+    const transport = createSmtpTransport({ host: "localhost", port: closed.port, from: "notifications@theset.live" });
+
+    await expect(transport.send(message)).rejects.toThrow("ECONNREFUSED");
+  });
+});
+
+describe("createTransportFromEnv", () => {
+  it("logs to the console unless SMTP is configured", () => {
+    expect(createTransportFromEnv({}).name).toBe("console");
+    expect(createTransportFromEnv({ EMAIL_TRANSPORT: "smtp", SMTP_HOST: "localhost" }).name).toBe("smtp");
+  });
+
+  it("requires a host for SMTP", () => {
+    expect(() => createTransportFromEnv({ EMAIL_TRANSPORT: "smtp" })).toThrow(/SMTP_HOST/);
+  });
+
+  it("exports SmtpError for callers to match on", () => {
+    expect(new SmtpError("nope", 550).code).toBe(550);
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  autocompleteSuggestions,
+  DEFAULT_SEARCH_LIMIT,
+  discoveredHref,
+  groupSearchResults,
+  MAX_SEARCH_LIMIT,
+  needsDiscovery,
+  parseSearchQuery,
+  SearchResult,
+  searchResultHref,
+  searchUrl,
+} from "@/lib/search";
+
+const result = (overrides: Partial<SearchResult>): SearchResult => ({
+  entity_type: "artist",
+  id: "a1",
+  name: "The Band",
+  subtitle: null,
+  image_url: null,
+  starts_at: null,
+  parent_id: null,
+  rank: 1,
+  ...overrides,
+});
+
+describe("parseSearchQuery", () => {
+  it("reads the query, known types and a capped limit", () => {
+    expect(parseSearchQuery(new URLSearchParams("q=%20foo%20fighters%20&types=artist,song,planet&limit=500"))).toEqual({
+      query: "foo fighters",
+      types: ["artist", "song"],
+      limit: MAX_SEARCH_LIMIT,
+    });
+  });
+
+  it("searches every type by default", () => {
+    expect(parseSearchQuery(new URLSearchParams("q=radiohead&limit=zero"))).toEqual({
+      query: "radiohead",
+      types: null,
+      limit: DEFAULT_SEARCH_LIMIT,
+    });
+  });
+});
+
+describe("groupSearchResults", () => {
+  it("keeps the rank order within each type", () => {
+    const groups = groupSearchResults([
+      result({ id: "a1", rank: 3 }),
+      result({ entity_type: "song", id: "s1", rank: 2 }),
+      result({ id: "a2", rank: 1 }),
+    ]);
+
+    expect(groups.artist.map(r => r.id)).toEqual(["a1", "a2"]);
+    expect(groups.song.map(r => r.id)).toEqual(["s1"]);
+    expect(groups.show).toEqual([]);
+    expect(groups.venue).toEqual([]);
+  });
+});
+
+describe("autocompleteSuggestions", () => {
+  it("takes the best matches across types", () => {
+    const suggestions = autocompleteSuggestions([
+      result({ id: "a1", rank: 1 }),
+      result({ entity_type: "show", id: "sh1", rank: 5 }),
+      result({ entity_type: "venue", id: "v1", rank: 3 }),
+    ], 2);
+
+    expect(suggestions.map(r => r.id)).toEqual(["sh1", "v1"]);
+  });
+});
+
+describe("needsDiscovery", () => {
+  it("only asks upstream when local results are thin", () => {
+    expect(needsDiscovery([])).toBe(true);
+    expect(needsDiscovery([result({}), result({ id: "a2" }), result({ id: "a3" })])).toBe(false);
+  });
+});
+
+describe("links", () => {
+  it("opens songs on their artist and leaves venues unlinked", () => {
+    expect(searchResultHref(result({}))).toBe("/artists/a1");
+    expect(searchResultHref(result({ entity_type: "show", id: "sh1" }))).toBe("/shows/sh1");
+    expect(searchResultHref(result({ entity_type: "song", id: "s1", parent_id: "a9" }))).toBe("/artists/a9");
+    expect(searchResultHref(result({ entity_type: "venue", id: "v1" }))).toBeNull();
+  });
+
+  it("opens discovered entities by Ticketmaster ID", () => {
+    expect(discoveredHref({ entity_type: "artist", external_id: "K8v", name: "X", subtitle: null, image_url: null })).toBe("/artists/K8v");
+  });
+
+  it("builds the search URL", () => {
+    expect(searchUrl(" foo ")).toBe("/api/search?q=foo");
+    expect(searchUrl("foo", { types: ["artist", "show"], limit: 3 })).toBe("/api/search?q=foo&types=artist%2Cshow&limit=3");
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  formatCountdown,
+  getShowLifecycleState,
+  getVotingCountdown,
+  isShowVotingOpen,
+} from "@/lib/show-lifecycle";
+
+const show = {
+  lifecycle_state: "voting_open",
+  voting_opens_at: "2026-04-13T04:00:00Z",
+  voting_locks_at: "2026-06-12T22:00:00Z",
+};
+
+describe("getShowLifecycleState", () => {
+  it("follows the voting window", () => {
+    expect(getShowLifecycleState(show, new Date("2026-04-01T00:00:00Z"))).toBe("announced");
+    expect(getShowLifecycleState(show, new Date("2026-05-01T00:00:00Z"))).toBe("voting_open");
+    expect(getShowLifecycleState(show, new Date("2026-06-12T22:00:00Z"))).toBe("locked");
+    expect(getShowLifecycleState(show, new Date("2026-06-13T03:00:00Z"))).toBe("played");
+  });
+
+  it("keeps a confirmed setlist and falls back to the stored state without a window", () => {
+    expect(getShowLifecycleState({ ...show, lifecycle_state: "setlist_confirmed" }, new Date("2026-05-01T00:00:00Z")))
+      .toBe("setlist_confirmed");
+    expect(getShowLifecycleState({ lifecycle_state: null, voting_opens_at: null, voting_locks_at: null })).toBe("announced");
+  });
+
+  it("only accepts votes inside the window", () => {
+    expect(isShowVotingOpen(show, new Date("2026-06-12T21:59:59Z"))).toBe(true);
+    expect(isShowVotingOpen(show, new Date("2026-06-12T22:00:00Z"))).toBe(false);
+  });
+});
+
+describe("getVotingCountdown", () => {
+  it("counts down to the next milestone", () => {
+    const opening = getVotingCountdown(show, new Date("2026-04-12T04:00:00Z"));
+    expect(opening?.label).toBe("Voting opens in");
+    expect(opening?.remainingMs).toBe(24 * 60 * 60 * 1000);
+
+    const closing = getVotingCountdown(show, new Date("2026-06-12T21:00:00Z"));
+    expect(closing?.label).toBe("Voting closes in");
+    expect(closing?.target.toISOString()).toBe("2026-06-12T22:00:00.000Z");
+
+    expect(getVotingCountdown(show, new Date("2026-06-13T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("formatCountdown", () => {
+  it("shows the two largest units", () => {
+    expect(formatCountdown(((12 * 24 + 4) * 60 + 30) * 60 * 1000)).toBe("12d 4h");
+    expect(formatCountdown((3 * 60 + 5) * 60 * 1000)).toBe("3h 05m");
+    expect(formatCountdown((4 * 60 + 9) * 1000)).toBe("4m 09s");
+    expect(formatCountdown(-1000)).toBe("0m 00s");
+  });
+});
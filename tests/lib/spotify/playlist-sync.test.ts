@@ -0,0 +1,139 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import { SpotifyPlaylistClient } from "@/lib/spotify/playlists";
+import { syncShowPlaylists } from "@/lib/spotify/playlist-sync";
+import { startFakeProviders } from "../../fakes/provider-server.js";
+
+const showId = "show-1";
+
+// Just enough of the Supabase client for syncShowPlaylists
+function fakeClient(owners: unknown[], tracks: Record<string, string[]>) {
+  const saved: Record<string, unknown>[] = [];
+  const client = {
+    rpc: async (fn: string, args: Record<string, unknown>) => {
+      if (fn === "get_setlist_playlist_owners") return { data: owners, error: null };
+      const ids = tracks[args.p_mode as string] ?? [];
+      return { data: ids.map((spotify_id, i) => ({ spotify_id, position: i + 1 })), error: null };
+    },
+    from: (table: string) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        update: () => query,
+        single: async () => ({
+          data: table === "shows" ? { name: "Madison Square Garden", artist_id: "artist-1" } : { name: "Radiohead" },
+          error: null,
+        }),
+        upsert: async (row: Record<string, unknown>) => {
+          saved.push({ table, ...row });
+          return { error: null };
+        },
+        then: (resolve: (value: unknown) => void) => resolve({ error: null }),
+      };
+      return query;
+    },
+  };
+  return { client: client as unknown as SupabaseClient<Database>, saved };
+}
+
+function recordingSpotify(calls: string[]): SpotifyPlaylistClient {
+  return {
+    getCurrentUserId: async () => "fan",
+    createPlaylist: async (_user, details) => {
+      calls.push(`create ${details.name}`);
+      return { id: "new-playlist", url: null, snapshotId: null };
+    },
+    updatePlaylistDetails: async () => {},
+    replacePlaylistTracks: async (playlistId, uris) => {
+      calls.push(`tracks ${playlistId} ${uris.length}`);
+      return "snapshot";
+    },
+  };
+}
+
+describe("server-side setlist playlist sync", () => {
+  let fakes: Awaited<ReturnType<typeof startFakeProviders>>;
+
+  beforeAll(async () => {
+    fakes = await startFakeProviders({ ports: { ticketmaster: 0, spotify: 0, setlistfm: 0 } });
+    process.env.VITE_SPOTIFY_CLIENT_ID = "fake-client-id";
+    process.env.VITE_SPOTIFY_CLIENT_SECRET = "fake-client-secret";
+  });
+
+  afterAll(async () => {
+    await fakes.close();
+  });
+
+  it("brings the fan-voted playlist to the final order and saves the played setlist", async () => {
+    const { client, saved } = fakeClient(
+      [
+        {
+          user_id: "user-1",
+          refresh_token: "refresh-1",
+          playlists: {
+            voted: {
+              spotify_playlist_id: "voted-playlist",
+              spotify_playlist_url: null,
+              track_limit: 20,
+              track_uris: ["spotify:track:b", "spotify:track:a"],
+            },
+          },
+        },
+      ],
+      { voted: ["a", "b"], played: ["a", "b", "c"] }
+    );
+    const calls: string[] = [];
+
+    const written = await syncShowPlaylists(showId, {
+      client,
+      accountsUrl: `${fakes.urls.spotify}/`,
+      createPlaylistClient: () => recordingSpotify(calls),
+    });
+
+    expect(written).toBe(2);
+    expect(calls).toEqual([
+      "tracks voted-playlist 2",
+      "create Radiohead at Madison Square Garden (Setlist)",
+      "tracks new-playlist 3",
+    ]);
+    expect(saved.map(row => row.mode)).toEqual(["voted", "played"]);
+    expect(saved[0].track_uris).toEqual(["spotify:track:a", "spotify:track:b"]);
+  });
+
+  it("leaves playlists that are already up to date alone", async () => {
+    const { client, saved } = fakeClient(
+      [
+        {
+          user_id: "user-1",
+          refresh_token: "refresh-1",
+          playlists: {
+            played: {
+              spotify_playlist_id: "played-playlist",
+              spotify_playlist_url: null,
+              track_limit: 20,
+              track_uris: ["spotify:track:a"],
+            },
+          },
+        },
+      ],
+      { played: ["a"] }
+    );
+    const calls: string[] = [];
+
+    const written = await syncShowPlaylists(showId, {
+      client,
+      accountsUrl: `${fakes.urls.spotify}/`,
+      createPlaylistClient: () => recordingSpotify(calls),
+    });
+
+    expect(written).toBe(0);
+    expect(calls).toEqual([]);
+    expect(saved).toEqual([]);
+  });
+
+  it("does nothing when nobody exported the show", async () => {
+    const { client } = fakeClient([], {});
+
+    expect(await syncShowPlaylists(showId, { client })).toBe(0);
+  });
+});
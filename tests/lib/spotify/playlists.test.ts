@@ -0,0 +1,78 @@
+import {
+  createSpotifyPlaylistClient,
+  SpotifyPlaylistClient,
+  syncPlaylist,
+  toSpotifyTrackUri,
+} from "@/lib/spotify/playlists";
+import { startFakeProviders } from "../../fakes/provider-server.js";
+
+const details = { name: "Radiohead at Madison Square Garden (Fan-voted)" };
+const uris = ["7xGfFoTpQ2E7fRF5lN10tr", "3AJwUDP919kvQ9QcozQPxg"].map(toSpotifyTrackUri);
+
+describe("setlist playlist export against the fake Spotify server", () => {
+  let fakes: Awaited<ReturnType<typeof startFakeProviders>>;
+  let client: SpotifyPlaylistClient;
+
+  beforeAll(async () => {
+    fakes = await startFakeProviders({ ports: { ticketmaster: 0, spotify: 0, setlistfm: 0 } });
+    client = createSpotifyPlaylistClient("fake-user-token", `${fakes.urls.spotify}/v1/`);
+  });
+
+  afterAll(async () => {
+    await fakes.close();
+  });
+
+  it("creates a playlist on the first export", async () => {
+    const result = await syncPlaylist(client, { details, uris });
+
+    expect(result.created).toBe(true);
+    expect(result.id).toBe("3cEYpjA9oz9GiPac4AsH4n");
+    expect(result.url).toBe("https://open.spotify.com/playlist/3cEYpjA9oz9GiPac4AsH4n");
+    expect(result.snapshotId).toBe("Miw5ZmYyNzE5ZDFiMDQ3YTYxYTNlMjE1N2EyMzUwNzM1ZDU0YjRkY2Q2");
+    expect(result.uris).toEqual(uris);
+  });
+
+  it("rewrites an existing playlist when the vote order changes", async () => {
+    const result = await syncPlaylist(client, {
+      details,
+      uris,
+      existing: { playlistId: "3cEYpjA9oz9GiPac4AsH4n", url: null, uris: [...uris].reverse() },
+    });
+
+    expect(result.created).toBe(false);
+    expect(result.changed).toBe(true);
+    expect(result.id).toBe("3cEYpjA9oz9GiPac4AsH4n");
+  });
+
+  it("creates a new playlist when the old one was deleted", async () => {
+    const result = await syncPlaylist(client, {
+      details,
+      uris,
+      existing: { playlistId: "deleted-playlist", url: null, uris: [] },
+    });
+
+    expect(result.created).toBe(true);
+    expect(result.id).toBe("3cEYpjA9oz9GiPac4AsH4n");
+  });
+});
+
+describe("setlist playlist export with an in-memory client", () => {
+  it("leaves Spotify alone when the tracks have not changed", async () => {
+    const calls: string[] = [];
+    const client: SpotifyPlaylistClient = {
+      getCurrentUserId: async () => { calls.push("me"); return "fan"; },
+      createPlaylist: async () => { calls.push("create"); return { id: "p1", url: null, snapshotId: null }; },
+      updatePlaylistDetails: async () => { calls.push("details"); },
+      replacePlaylistTracks: async () => { calls.push("tracks"); return "s1"; },
+    };
+    const existing = { playlistId: "p1", url: null, uris };
+
+    const result = await syncPlaylist(client, { details, uris, existing });
+    expect(result.changed).toBe(false);
+    expect(calls).toEqual([]);
+
+    const forced = await syncPlaylist(client, { details, uris, existing, force: true });
+    expect(forced.changed).toBe(true);
+    expect(calls).toEqual(["tracks", "details"]);
+  });
+});
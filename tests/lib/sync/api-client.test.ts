@@ -0,0 +1,66 @@
+import { APIClientManager } from "@/lib/sync/api-client";
+import {
+  createTicketmasterProvider,
+  parseRetryAfter,
+  registerProvider,
+  resetProviders,
+} from "@/lib/sync/providers";
+import { SharedRateLimiter } from "@/lib/sync/rate-limiter";
+import { startFakeProviders } from "../../fakes/provider-server.js";
+
+// Records limiter calls instead of talking to provider_rate_limits
+class RecordingRateLimiter {
+  acquired: string[] = [];
+  reports: Array<{ provider: string; status: number; retryAfterSeconds: number | null }> = [];
+
+  async acquire(provider: string) {
+    this.acquired.push(provider);
+  }
+
+  async reportResponse(provider: string, status: number, retryAfterSeconds: number | null = null) {
+    this.reports.push({ provider, status, retryAfterSeconds });
+  }
+}
+
+describe("APIClientManager rate limiting", () => {
+  let fakes: Awaited<ReturnType<typeof startFakeProviders>>;
+
+  beforeAll(async () => {
+    process.env.VITE_TICKETMASTER_API_KEY = "fake-tm-key";
+    fakes = await startFakeProviders({ ports: { ticketmaster: 0, spotify: 0, setlistfm: 0 } });
+    registerProvider(createTicketmasterProvider(`${fakes.urls.ticketmaster}/discovery/v2/`));
+  });
+
+  afterAll(async () => {
+    resetProviders();
+    await fakes.close();
+  });
+
+  it("takes a shared token before every request", async () => {
+    const limiter = new RecordingRateLimiter();
+    const client = new APIClientManager(limiter as unknown as SharedRateLimiter);
+
+    await client.callAPI("ticketmaster", "venues/KovZpZAFnIEA.json");
+    await client.callAPI("ticketmaster", "events/G5vYZ9fKb1A.json");
+
+    expect(limiter.acquired).toEqual(["ticketmaster", "ticketmaster"]);
+  });
+
+  it("reports 429 with Retry-After and retries before giving up", async () => {
+    const limiter = new RecordingRateLimiter();
+    const client = new APIClientManager(limiter as unknown as SharedRateLimiter);
+
+    await expect(client.callAPI("ticketmaster", "events/THROTTLED.json")).rejects.toThrow("Ticketmaster API error: 429");
+
+    const throttles = limiter.reports.filter(report => report.status === 429);
+    expect(throttles).toHaveLength(4);
+    expect(throttles[0].retryAfterSeconds).toBe(2);
+    expect(limiter.acquired).toHaveLength(4);
+  });
+
+  it("parses Retry-After as seconds or an HTTP date", () => {
+    expect(parseRetryAfter("120")).toBe(120);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter(new Date(Date.now() + 10000).toUTCString())).toBeGreaterThan(8);
+  });
+});
@@ -0,0 +1,103 @@
+import { SyncJobGraph } from "@/lib/sync/job-graph";
+import { SyncTask } from "@/lib/sync/types";
+
+const task = (type: SyncTask["type"], id: string): SyncTask => ({
+  type,
+  id,
+  priority: "medium",
+  operation: "refresh",
+});
+
+describe("SyncJobGraph", () => {
+  it("runs a show after its artist and venue, and its setlist after the show", async () => {
+    const graph = new SyncJobGraph();
+    const artist = graph.addJob(task("artist", "a1"));
+    const venue = graph.addJob(task("venue", "v1"));
+    const show = graph.addJob(task("show", "s1"), [artist, venue]);
+    graph.addJob(task("setlist", "sl1"), [show]);
+
+    const ran: string[] = [];
+    await graph.run(async (t) => {
+      ran.push(t.type);
+      return { success: true };
+    }, { parallelLimit: 2 });
+
+    expect(ran.indexOf("show")).toBeGreaterThan(ran.indexOf("artist"));
+    expect(ran.indexOf("show")).toBeGreaterThan(ran.indexOf("venue"));
+    expect(ran[ran.length - 1]).toBe("setlist");
+  });
+
+  it("blocks only the dependents of a failed job", async () => {
+    const graph = new SyncJobGraph();
+    const artist = graph.addJob(task("artist", "a1"));
+    const venue = graph.addJob(task("venue", "v1"));
+    const show = graph.addJob(task("show", "s1"), [artist, venue]);
+    graph.addJob(task("setlist", "sl1"), [show]);
+    graph.addJob(task("show", "s2"), [artist]);
+
+    const results = await graph.run(async (t) =>
+      t.type === "venue" ? { success: false, error: "venue down" } : { success: true }
+    );
+    const status = Object.fromEntries(results.map((job) => [job.key, job.status]));
+
+    expect(status["venue:v1:refresh"]).toBe("failed");
+    expect(status["show:s1:refresh"]).toBe("blocked");
+    expect(status["setlist:sl1:refresh"]).toBe("blocked");
+    expect(status["show:s2:refresh"]).toBe("completed");
+  });
+
+  it("never exceeds the parallel limit", async () => {
+    const graph = new SyncJobGraph();
+    for (let i = 0; i < 6; i++) graph.addJob(task("artist", `a${i}`));
+
+    let running = 0;
+    let peak = 0;
+    await graph.run(async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return { success: true };
+    }, { parallelLimit: 2 });
+
+    expect(peak).toBe(2);
+  });
+
+  it("fails a job whose onJobStart throws and keeps running the rest", async () => {
+    const graph = new SyncJobGraph();
+    const artist = graph.addJob(task("artist", "a1"));
+    graph.addJob(task("show", "s1"), [artist]);
+    graph.addJob(task("venue", "v1"));
+
+    const ran: string[] = [];
+    const finished: string[] = [];
+    const results = await graph.run(async (t) => {
+      ran.push(t.type);
+      return { success: true };
+    }, {
+      onJobStart: (job) => {
+        if (job.task.type === "artist") throw new Error("tracking down");
+      },
+      onJobFinish: (job) => {
+        finished.push(job.key);
+        if (job.task.type === "venue") throw new Error("tracking down");
+      },
+    });
+    const status = Object.fromEntries(results.map((job) => [job.key, job.status]));
+
+    expect(ran).toEqual(["venue"]);
+    expect(status["artist:a1:refresh"]).toBe("failed");
+    expect(results[0].error).toBe("tracking down");
+    expect(status["show:s1:refresh"]).toBe("blocked");
+    expect(status["venue:v1:refresh"]).toBe("completed");
+    expect(finished).toHaveLength(3);
+  });
+
+  it("rejects cyclic dependencies", () => {
+    const graph = new SyncJobGraph();
+    graph.addJob(task("show", "s1"), ["artist:a1:refresh"]);
+    graph.addJob(task("artist", "a1"), ["show:s1:refresh"]);
+
+    expect(() => graph.topologicalOrder()).toThrow(/cycle/);
+  });
+});
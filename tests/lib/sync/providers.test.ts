@@ -0,0 +1,88 @@
+import { APIClientManager } from "@/lib/sync/api-client";
+import {
+  createSetlistFmProvider,
+  createSpotifyProvider,
+  createTicketmasterProvider,
+  registerProvider,
+  resetProviders,
+} from "@/lib/sync/providers";
+import { SharedRateLimiter } from "@/lib/sync/rate-limiter";
+import { GET as searchArtists } from "@/app/api/search/artists/route";
+import { NextRequest } from "next/server";
+import { startFakeProviders } from "../../fakes/provider-server.js";
+
+// Keep these tests off the shared provider_rate_limits buckets
+const unlimited = {
+  acquire: async () => {},
+  reportResponse: async () => {},
+} as unknown as SharedRateLimiter;
+
+describe("provider adapters against the fake servers", () => {
+  let fakes: Awaited<ReturnType<typeof startFakeProviders>>;
+
+  beforeAll(async () => {
+    process.env.VITE_TICKETMASTER_API_KEY = "fake-tm-key";
+    process.env.VITE_SPOTIFY_CLIENT_ID = "fake-client";
+    process.env.VITE_SPOTIFY_CLIENT_SECRET = "fake-secret";
+    process.env.VITE_SETLISTFM_API_KEY = "fake-setlistfm-key";
+
+    fakes = await startFakeProviders({ ports: { ticketmaster: 0, spotify: 0, setlistfm: 0 } });
+
+    registerProvider(createTicketmasterProvider(`${fakes.urls.ticketmaster}/discovery/v2/`));
+    registerProvider(createSpotifyProvider(`${fakes.urls.spotify}/v1/`, `${fakes.urls.spotify}/`));
+    registerProvider(createSetlistFmProvider(`${fakes.urls.setlistfm}/rest/1.0/`));
+  });
+
+  afterAll(async () => {
+    resetProviders();
+    await fakes.close();
+  });
+
+  it("routes APIClientManager calls through the registered adapters", async () => {
+    const client = new APIClientManager(unlimited);
+
+    const event = await client.callAPI<any>("ticketmaster", "events/G5vYZ9fKb1A.json");
+    expect(event._embedded.venues[0].id).toBe("KovZpZAFnIEA");
+
+    const setlist = await client.callAPI<any>("setlistfm", "setlist/63d6a2a3");
+    expect(setlist.artist.name).toBe("The Test Pattern");
+  });
+
+  it("authenticates with Spotify and follows pagination links back to the fake", async () => {
+    const client = new APIClientManager(unlimited);
+
+    const firstPage = await client.callAPI<any>("spotify", "albums/1A2GTWGtFfWp7KSQTwWOyo/tracks", { limit: 2 });
+    expect(firstPage.next).toContain(fakes.urls.spotify);
+
+    const secondPage = await client.callAPI<any>("spotify", firstPage.next);
+    expect(secondPage.items.map((t: any) => t.name)).toEqual(["Dead Air"]);
+  });
+
+  it("surfaces upstream errors for unknown fixtures", async () => {
+    const client = new APIClientManager(unlimited);
+
+    await expect(client.callAPI("setlistfm", "setlist/missing")).rejects.toThrow("Setlist.fm API error: 404");
+  });
+});
+
+describe("direct provider calls outside the adapters", () => {
+  let fakes: Awaited<ReturnType<typeof startFakeProviders>>;
+
+  beforeAll(async () => {
+    fakes = await startFakeProviders({ ports: { ticketmaster: 0, spotify: 0, setlistfm: 0 } });
+    process.env.VITE_TICKETMASTER_BASE_URL = `${fakes.urls.ticketmaster}/discovery/v2`;
+  });
+
+  afterAll(async () => {
+    delete process.env.VITE_TICKETMASTER_BASE_URL;
+    await fakes.close();
+  });
+
+  it("send the artist search route to the overridden Ticketmaster base URL", async () => {
+    const response = await searchArtists(new NextRequest("http://localhost/api/search/artists?name=test"));
+    const { artists } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(artists.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  AUTO_LINK_CONFIDENCE,
+  CatalogSong,
+  normalizeSongTitle,
+  resolveSong,
+  splitMedley,
+} from "@/lib/sync/song-matching";
+
+const catalog: CatalogSong[] = [
+  { id: "creep", name: "Creep", popularity: 80 },
+  { id: "creep-remaster", name: "Creep - Remastered 2009", popularity: 40 },
+  { id: "karma", name: "Karma Police", popularity: 75 },
+  { id: "paranoid", name: "Paranoid Android", popularity: 70 },
+  { id: "everything", name: "Everything In Its Right Place", popularity: 60 },
+  { id: "dont-stop", name: "Don't Stop Me Now (Live at Wembley)", popularity: 50 },
+];
+
+describe("normalizeSongTitle", () => {
+  it("drops version qualifiers, punctuation and accents", () => {
+    expect(normalizeSongTitle("Creep - Remastered 2009")).toBe("creep");
+    expect(normalizeSongTitle("Creep (Live)")).toBe("creep");
+    expect(normalizeSongTitle("Don't Stop Me Now [Live at Wembley]")).toBe("dont stop me now");
+    expect(normalizeSongTitle("Café del Mar (feat. Someone)")).toBe("cafe del mar");
+    expect(normalizeSongTitle("Rock & Roll")).toBe("rock and roll");
+  });
+
+  it("keeps brackets that are part of the title", () => {
+    expect(normalizeSongTitle("(Nice Dream)")).toBe("nice dream");
+  });
+});
+
+describe("splitMedley", () => {
+  it("splits setlist.fm medley entries", () => {
+    expect(splitMedley("Medley: Karma Police / Creep")).toEqual(["Karma Police", "Creep"]);
+    expect(splitMedley("Karma Police")).toEqual(["Karma Police"]);
+  });
+});
+
+describe("resolveSong", () => {
+  it("links exact titles to the plain recording", () => {
+    const result = resolveSong({ name: "creep" }, catalog);
+    expect(result).toMatchObject({ songId: "creep", method: "exact", confidence: 1, needsReview: false });
+  });
+
+  it("links titles that only differ by a version suffix", () => {
+    const result = resolveSong({ name: "Don't Stop Me Now" }, catalog);
+    expect(result.songId).toBe("dont-stop");
+    expect(result.method).toBe("normalized");
+    expect(result.confidence).toBeGreaterThanOrEqual(AUTO_LINK_CONFIDENCE);
+  });
+
+  it("prefers an admin-approved alias", () => {
+    const result = resolveSong({ name: "Everything in It's Right Place" }, catalog, [
+      { song_id: "everything", normalized_alias: "everything in its right place" },
+    ]);
+    expect(result).toMatchObject({ songId: "everything", method: "alias" });
+  });
+
+  it("queues near misses for review instead of linking them", () => {
+    const result = resolveSong({ name: "Paranoid Androids" }, catalog);
+    expect(result.songId).toBeNull();
+    expect(result.candidateId).toBe("paranoid");
+    expect(result.method).toBe("fuzzy");
+    expect(result.needsReview).toBe(true);
+  });
+
+  it("links a medley to its first song", () => {
+    const result = resolveSong({ name: "Karma Police / Creep" }, catalog);
+    expect(result).toMatchObject({ songId: "karma", method: "medley" });
+  });
+
+  it("does not queue covers missing from the catalog", () => {
+    const cover = resolveSong({ name: "Nobody Does It Better", cover: "Carly Simon" }, catalog);
+    expect(cover).toMatchObject({ songId: null, isCover: true, coverArtist: "Carly Simon", needsReview: false });
+
+    const unknown = resolveSong({ name: "Nobody Does It Better" }, catalog);
+    expect(unknown).toMatchObject({ songId: null, method: "none", needsReview: true });
+  });
+});
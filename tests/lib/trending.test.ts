@@ -0,0 +1,63 @@
+import {
+  DEFAULT_TRENDING_LIMIT,
+  MAX_TRENDING_LIMIT,
+  parseTrendingQuery,
+  toTrendingShow,
+  trendingShowsUrl,
+} from "@/lib/trending";
+
+describe("parseTrendingQuery", () => {
+  it("defaults to the global list", () => {
+    expect(parseTrendingQuery(new URLSearchParams(""))).toEqual({
+      limit: DEFAULT_TRENDING_LIMIT,
+      country: null,
+      state: null,
+      genre: null,
+    });
+  });
+
+  it("reads region and genre filters and caps the limit", () => {
+    expect(parseTrendingQuery(new URLSearchParams("limit=500&country=Canada&state=%20ON%20&genre=rock"))).toEqual({
+      limit: MAX_TRENDING_LIMIT,
+      country: "Canada",
+      state: "ON",
+      genre: "rock",
+    });
+    expect(parseTrendingQuery(new URLSearchParams("limit=abc&genre=")).limit).toBe(DEFAULT_TRENDING_LIMIT);
+    expect(parseTrendingQuery(new URLSearchParams("genre=")).genre).toBeNull();
+  });
+});
+
+describe("trendingShowsUrl", () => {
+  it("only includes the filters that are set", () => {
+    expect(trendingShowsUrl()).toBe("/api/shows/trending");
+    expect(trendingShowsUrl({ limit: 4, genre: "pop", state: null })).toBe("/api/shows/trending?limit=4&genre=pop");
+  });
+});
+
+describe("toTrendingShow", () => {
+  it("nests the artist and venue", () => {
+    const show = toTrendingShow({
+      show_id: "s1",
+      show_name: "Night One",
+      date: "2026-11-01T20:00:00Z",
+      image_url: null,
+      ticket_url: null,
+      popularity: 0,
+      trending_score: 4.2,
+      artist_id: "a1",
+      artist_name: "The Band",
+      artist_image_url: null,
+      artist_genres: ["rock"],
+      venue_id: null,
+      venue_name: null,
+      city: null,
+      state: null,
+      country: null,
+    });
+
+    expect(show.id).toBe("s1");
+    expect(show.artist).toEqual({ id: "a1", name: "The Band", image_url: null, genres: ["rock"] });
+    expect(show.venue).toBeNull();
+  });
+});
@@ -0,0 +1,298 @@
+-- The live schema that src/db-migrations/005 and later were written against:
+-- the public tables in the generated Supabase types at the start of the
+-- migration series, plus the tables the app uses outside the generated types
+-- (profiles, sync_tasks, played_setlist_songs and legacy user_votes). Migrations
+-- 001-004 predate the generated types and already ran against this schema.
+--
+-- Only what the migrations and tests touch is reproduced; Supabase's own
+-- schemas (auth, roles) are stubbed in testDatabase.ts.
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+CREATE TABLE public.artists (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  spotify_id TEXT UNIQUE,
+  setlist_fm_mbid TEXT,
+  image_url TEXT,
+  followers INTEGER DEFAULT 0,
+  popularity INTEGER,
+  genres TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.venues (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  external_id TEXT,
+  ticketmaster_id TEXT UNIQUE,
+  address TEXT,
+  city TEXT,
+  state TEXT,
+  country TEXT,
+  latitude TEXT,
+  longitude TEXT,
+  image_url TEXT,
+  url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.shows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  artist_id UUID REFERENCES public.artists(id),
+  venue_id UUID REFERENCES public.venues(id),
+  date TIMESTAMP WITH TIME ZONE,
+  status TEXT,
+  image_url TEXT,
+  ticket_url TEXT,
+  url TEXT,
+  popularity INTEGER DEFAULT 0,
+  last_updated TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.songs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  artist_id UUID REFERENCES public.artists(id),
+  spotify_id TEXT UNIQUE,
+  duration_ms INTEGER,
+  popularity INTEGER DEFAULT 0,
+  preview_url TEXT,
+  vote_count INTEGER DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.tracks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  artist_id UUID REFERENCES public.artists(id),
+  spotify_id TEXT,
+  spotify_url TEXT,
+  duration_ms INTEGER,
+  popularity INTEGER,
+  preview_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.top_tracks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  artist_id UUID NOT NULL REFERENCES public.artists(id),
+  name TEXT NOT NULL,
+  album TEXT,
+  album_id TEXT,
+  album_image_url TEXT,
+  spotify_id TEXT,
+  spotify_url TEXT,
+  duration_ms INTEGER,
+  popularity INTEGER,
+  preview_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.setlists (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  artist_id UUID REFERENCES public.artists(id),
+  show_id UUID REFERENCES public.shows(id),
+  date TIMESTAMP WITH TIME ZONE,
+  venue TEXT,
+  venue_city TEXT,
+  tour_name TEXT,
+  setlist_fm_id TEXT UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.setlist_songs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  setlist_id UUID REFERENCES public.setlists(id),
+  song_id UUID REFERENCES public.songs(id),
+  track_id UUID,
+  artist_id UUID REFERENCES public.artists(id),
+  name TEXT NOT NULL,
+  position INTEGER,
+  vote_count INTEGER DEFAULT 0,
+  last_updated TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.setlist_raw_data (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  artist_id UUID,
+  show_id UUID,
+  setlist_id UUID,
+  raw_data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.votes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  song_id UUID REFERENCES public.setlist_songs(id),
+  user_id UUID,
+  count INTEGER DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (song_id, user_id)
+);
+
+-- Account votes written by earlier clients, folded into votes by 013
+CREATE TABLE public.user_votes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL,
+  setlist_song_id UUID NOT NULL REFERENCES public.setlist_songs(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (user_id, setlist_song_id)
+);
+
+CREATE TABLE public.profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  username TEXT UNIQUE,
+  full_name TEXT,
+  avatar_url TEXT,
+  email TEXT,
+  is_admin BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Songs played at a show as synced from setlist.fm. 009 links them to the
+-- synced setlists row.
+CREATE TABLE public.played_setlist_songs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  song_id UUID REFERENCES public.songs(id),
+  artist_id UUID REFERENCES public.artists(id),
+  name TEXT,
+  position INTEGER NOT NULL,
+  encore INTEGER DEFAULT 0,
+  info TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.api_cache (
+  cache_key TEXT PRIMARY KEY,
+  data JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.error_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  endpoint TEXT NOT NULL,
+  error TEXT NOT NULL,
+  timestamp TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.sync_states (
+  entity_id TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  last_synced TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sync_version INTEGER NOT NULL DEFAULT 1,
+  PRIMARY KEY (entity_id, entity_type)
+);
+
+CREATE TABLE public.sync_tasks (
+  id SERIAL PRIMARY KEY,
+  source_system TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  internal_id UUID,
+  status TEXT NOT NULL DEFAULT 'pending',
+  priority INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  payload JSONB,
+  error_log JSONB,
+  last_attempt_at TIMESTAMP WITH TIME ZONE,
+  processing_started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (source_system, entity_type, external_id)
+);
+
+CREATE TABLE public.trending_shows_cache (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  show_id UUID REFERENCES public.shows(id),
+  show_name TEXT,
+  show_date TIMESTAMPTZ,
+  artist_id UUID,
+  artist_name TEXT,
+  artist_image_url TEXT,
+  venue_name TEXT,
+  venue_city TEXT,
+  venue_state TEXT,
+  total_votes INTEGER,
+  rank INTEGER,
+  cached_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- Vote tally triggers from the initial Supabase setup
+CREATE OR REPLACE FUNCTION handle_vote_insert_or_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.setlist_songs
+  SET vote_count = (
+    SELECT COALESCE(SUM(count), 0)
+    FROM public.votes
+    WHERE song_id = NEW.song_id
+  )
+  WHERE id = NEW.song_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION handle_vote_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.setlist_songs
+  SET vote_count = (
+    SELECT COALESCE(SUM(count), 0)
+    FROM public.votes
+    WHERE song_id = OLD.song_id
+  )
+  WHERE id = OLD.song_id;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER after_vote_insert_or_update
+  AFTER INSERT OR UPDATE ON public.votes
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_vote_insert_or_update();
+
+CREATE TRIGGER after_vote_delete
+  AFTER DELETE ON public.votes
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_vote_delete();
+
+ALTER TABLE public.artists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.venues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.songs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.setlists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.setlist_songs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sync_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read access for shows" ON public.shows FOR SELECT USING (true);
+CREATE POLICY "Public read access for setlist_songs" ON public.setlist_songs FOR SELECT USING (true);
+CREATE POLICY "Public read access for votes" ON public.votes FOR SELECT USING (true);
+CREATE POLICY "Service role can manage sync tasks" ON public.sync_tasks
+  FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT USAGE ON SCHEMA public TO anon, authenticated, service_role;
+GRANT ALL ON ALL TABLES IN SCHEMA public TO anon, authenticated, service_role;
+GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
@@ -0,0 +1,13 @@
+// tsconfig resolves modules the Node 10 way, which ignores package exports,
+// so point the PGlite contrib entry points at their declaration files
+declare module "@electric-sql/pglite/contrib/pg_trgm" {
+  export { pg_trgm } from "@electric-sql/pglite/dist/contrib/pg_trgm";
+}
+
+declare module "@electric-sql/pglite/contrib/pgcrypto" {
+  export { pgcrypto } from "@electric-sql/pglite/dist/contrib/pgcrypto";
+}
+
+declare module "@electric-sql/pglite/contrib/uuid_ossp" {
+  export { uuid_ossp } from "@electric-sql/pglite/dist/contrib/uuid_ossp";
+}
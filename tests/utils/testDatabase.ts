@@ -0,0 +1,164 @@
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { pgcrypto } from "@electric-sql/pglite/contrib/pgcrypto";
+import { uuid_ossp } from "@electric-sql/pglite/contrib/uuid_ossp";
+import { postgis } from "@electric-sql/pglite-postgis";
+
+const ROOT = process.cwd();
+const MIGRATIONS_DIR = join(ROOT, "src", "db-migrations");
+const BASELINE_SCHEMA = join(ROOT, "tests", "utils", "baseline-schema.sql");
+
+// Migrations up to this one already ran against the live schema that
+// baseline-schema.sql reproduces
+const FIRST_MIGRATION = 5;
+
+// Just enough of Supabase for the migrations: the API roles, auth.users and
+// auth.uid()/auth.role(), which read the claims set by asUser()
+const SUPABASE_STUBS = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+  CREATE SCHEMA auth;
+  GRANT USAGE ON SCHEMA auth TO anon, authenticated, service_role;
+
+  CREATE TABLE auth.users (
+    id UUID PRIMARY KEY,
+    email TEXT,
+    raw_user_meta_data JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+  );
+
+  CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS $$
+    SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::uuid
+  $$;
+
+  CREATE FUNCTION auth.role() RETURNS TEXT LANGUAGE sql STABLE AS $$
+    SELECT nullif(current_setting('request.jwt.claim.role', true), '')
+  $$;
+`;
+
+export const migrationFiles = (): string[] =>
+  readdirSync(MIGRATIONS_DIR)
+    .filter(file => /^\d{3}_.*\.sql$/.test(file) && Number(file.slice(0, 3)) >= FIRST_MIGRATION)
+    .sort();
+
+/**
+ * A throwaway Postgres with the baseline schema and every migration applied.
+ * Statements run as the superuser until asUser/asRole switch to one of the
+ * API roles, the way PostgREST does for each request.
+ */
+export class TestDatabase {
+  private constructor(readonly db: PGlite) {}
+
+  static async create(): Promise<TestDatabase> {
+    const db = await PGlite.create({ extensions: { uuid_ossp, pg_trgm, pgcrypto, postgis } });
+    await db.exec(SUPABASE_STUBS);
+    await db.exec(readFileSync(BASELINE_SCHEMA, "utf8"));
+
+    for (const file of migrationFiles()) {
+      try {
+        await db.exec(readFileSync(join(MIGRATIONS_DIR, file), "utf8"));
+      } catch (error) {
+        throw new Error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return new TestDatabase(db);
+  }
+
+  async query<T = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<T[]> {
+    const result = await this.db.query<T>(sql, params);
+    return result.rows;
+  }
+
+  async one<T = Record<string, unknown>>(sql: string, params: unknown[] = []): Promise<T> {
+    const rows = await this.query<T>(sql, params);
+    if (rows.length !== 1) {
+      throw new Error(`Expected one row, got ${rows.length}: ${sql}`);
+    }
+    return rows[0];
+  }
+
+  /**
+   * Run queries as an API role (anon, authenticated or service_role), with
+   * auth.uid() returning userId. The role is reset afterwards even if the
+   * callback throws.
+   */
+  async asRole<T>(
+    role: "anon" | "authenticated" | "service_role",
+    fn: () => Promise<T>,
+    userId: string | null = null
+  ): Promise<T> {
+    await this.db.query(`SELECT set_config('request.jwt.claim.sub', $1, false), set_config('request.jwt.claim.role', $2, false)`, [
+      userId ?? "",
+      role,
+    ]);
+    await this.db.exec(`SET ROLE ${role}`);
+    try {
+      return await fn();
+    } finally {
+      await this.db.exec(`RESET ROLE`);
+      await this.db.query(`SELECT set_config('request.jwt.claim.sub', '', false), set_config('request.jwt.claim.role', '', false)`);
+    }
+  }
+
+  asUser<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+    return this.asRole("authenticated", fn, userId);
+  }
+
+  /**
+   * Call a function with named arguments and shape the result like
+   * supabase.rpc: rows for set-returning functions, the value otherwise
+   */
+  async rpc<T = unknown>(fn: string, args: Record<string, unknown> = {}): Promise<T> {
+    const names = Object.keys(args);
+    const call = `public.${fn}(${names.map((name, i) => `${name} => $${i + 1}`).join(", ")})`;
+    const params = names.map(name => {
+      const value = args[name];
+      return value !== null && typeof value === "object" && !Array.isArray(value) ? JSON.stringify(value) : value;
+    });
+    const { proretset } = await this.one<{ proretset: boolean }>(
+      `SELECT proretset FROM pg_proc WHERE proname = $1 AND pronamespace = 'public'::regnamespace LIMIT 1`,
+      [fn]
+    );
+
+    if (proretset) {
+      return (await this.query(`SELECT * FROM ${call}`, params)) as T;
+    }
+    return (await this.one<{ value: T }>(`SELECT ${call} AS value`, params)).value;
+  }
+
+  /**
+   * Just the rpc() half of a Supabase client, running every call as role.
+   * Errors come back in { error } the way supabase-js reports them.
+   */
+  rpcClient(role: "anon" | "authenticated" | "service_role" = "service_role", userId: string | null = null) {
+    return {
+      rpc: async (fn: string, args: Record<string, unknown> = {}) => {
+        try {
+          const data = await this.asRole(role, () => this.rpc(fn, args), userId);
+          return { data, error: null };
+        } catch (error) {
+          return { data: null, error: { message: error instanceof Error ? error.message : String(error) } };
+        }
+      }
+    };
+  }
+
+  async createUser(options: { admin?: boolean; username?: string } = {}): Promise<string> {
+    const { id } = await this.one<{ id: string }>(`INSERT INTO auth.users (id) VALUES (uuid_generate_v4()) RETURNING id`);
+    await this.query(`INSERT INTO profiles (id, username, is_admin) VALUES ($1, $2, $3)`, [
+      id,
+      options.username ?? `user_${id.slice(0, 8)}`,
+      options.admin ?? false,
+    ]);
+    return id;
+  }
+
+  close(): Promise<void> {
+    return this.db.close();
+  }
+}